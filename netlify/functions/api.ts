@@ -2,6 +2,94 @@ import express from 'express';
 import cors from 'cors';
 import serverless from 'serverless-http';
 import { createClient } from '@supabase/supabase-js';
+import {
+  ApiKeyScope,
+  checkApiKeyAccess,
+  getRequiredPermission,
+  validateApiKeyGrant,
+  DEFAULT_API_KEY_PERMISSIONS,
+  DEFAULT_API_KEY_SCOPES
+} from '../../src/lib/apiKeyScopes';
+import {
+  BUG_STATUSES,
+  normalizeBugStatus,
+  validateBugStatusChange
+} from '../../src/lib/bugStatus';
+import {
+  SEARCH_ENTITY_TYPES,
+  SEARCH_FILTER_COLUMNS,
+  SearchEntityType,
+  SearchableItem,
+  buildTermFilter,
+  isSearchEntityType,
+  searchItems,
+  tokenizeQuery
+} from '../../src/lib/unifiedSearch';
+import {
+  EMBEDDING_ENTITY_TYPES,
+  EmbeddingEntityType,
+  buildEmbeddingText,
+  getEmbeddingProvider,
+  hashContent,
+  isEmbeddingEntityType
+} from '../../src/lib/embeddings';
+import {
+  PatternBugRow,
+  PatternConversationRow,
+  buildPatternRow,
+  extractPatternFromBug,
+  extractPatternFromConversation,
+  getPatternSuccessRate,
+  normalizeTechStack
+} from '../../src/lib/patternExtraction';
+import { buildConversationDetails } from '../../src/lib/conversationDetails';
+import {
+  CONTEXT_PACK_COLUMNS,
+  CONTEXT_PACK_FOCUS_TYPES,
+  CONTEXT_PACK_FORMATS,
+  CONTEXT_PACK_TABLES,
+  ContextPackFeatureSummaryRow,
+  ContextPackFocusType,
+  ContextPackInput,
+  DEFAULT_CONTEXT_PACK_TOKEN_BUDGET,
+  MAX_CONTEXT_PACK_TOKEN_BUDGET,
+  MIN_CONTEXT_PACK_TOKEN_BUDGET,
+  buildContextPack,
+  isContextPackFocusType,
+  isContextPackFormat
+} from '../../src/lib/contextPack';
+import {
+  LINK_ITEM_TABLES,
+  LINK_ITEM_TYPES,
+  LinkItemType,
+  isLinkItemType,
+  validateItemLink
+} from '../../src/lib/itemLinks';
+import {
+  REVISION_ITEM_TABLES,
+  REVISION_ITEM_TYPES,
+  RevisionItemType,
+  buildRestoreUpdate,
+  diffLines,
+  isRevisionItemType,
+  summarizeDiff,
+  validateRevisionName
+} from '../../src/lib/revisions';
+import {
+  BUILT_IN_TEMPLATES,
+  TEMPLATE_TARGETS,
+  TEMPLATE_VARIABLES,
+  Template,
+  TemplateContext,
+  TemplateTarget,
+  formatTemplateDate,
+  getBuiltInTemplate,
+  isBuiltInTemplateId,
+  isTemplateTarget,
+  renderTemplate,
+  validateTemplate
+} from '../../src/lib/templates';
+import { updatedAtWindow } from '../../src/lib/editConflicts';
 
 const app = express();
 
@@ -144,6 +232,22 @@ const authenticateWithApiKey = async (apiKey: string, req: express.Request, res:
   }
 };
 
+// Scope middleware - restricts API key requests to the key's scopes and permissions.
+// GET requests need 'read', everything else needs 'write'. JWT sessions are not restricted.
+const requireScope = (scope: ApiKeyScope) => (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if ((req as any).authMethod !== 'api_key') {
+    return next();
+  }
+
+  const access = checkApiKeyAccess((req as any).apiKey, scope, getRequiredPermission(req.method));
+
+  if (!access.allowed) {
+    return res.status(403).json({ success: false, error: access.error });
+  }
+
+  next();
+};
+
 // Apply auth middleware to all routes
 app.use('/api', authenticateUser);
 
@@ -246,7 +350,7 @@ app.post('/debug-auth', async (req, res) => {
 });
 
 // CONVERSATIONS ENDPOINTS
-app.post('/api/conversations', async (req, res) => {
+app.post('/api/conversations', requireScope('conversations'), async (req, res) => {
   try {
     console.log('POST /api/conversations - Starting request');
     
@@ -263,7 +367,12 @@ app.post('/api/conversations', async (req, res) => {
       messages, 
       tags = [], 
       projectContext, 
-      projectId
+      projectId,
+      technicalDetails,
+      implementationSummary,
+      filesChanged,
+      codeChanges,
+      toolUsage
     } = body;
     const user = (req as any).user;
     
@@ -277,6 +386,15 @@ app.post('/api/conversations', async (req, res) => {
       });
     }
 
+    if (!Array.isArray(messages)) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'messages must be an array' 
+      });
+    }
+
+    // Technical details are extracted here so every client gets the same ones;
+    // values the client sent explicitly are kept
     const conversationData = {
       title,
       messages,
@@ -284,7 +402,14 @@ app.post('/api/conversations', async (req, res) => {
       project_context: projectContext,
       project_id: projectId || null,
       user_id: user.id,
-      source: 'mcp'
+      source: 'mcp',
+      ...buildConversationDetails(messages, {
+        technicalDetails,
+        implementationSummary,
+        filesChanged,
+        codeChanges,
+        toolUsage
+      })
     };
 
     const { data, error } = await supabase
@@ -296,6 +421,16 @@ app.post('/api/conversations', async (req, res) => {
     if (error) {
       console.error('Database error:', error);
       console.error('Data being inserted:', conversationData);
+
+      // 23514: client-sent details failed the technical details check constraints
+      if (error.code === '23514') {
+        return res.status(400).json({ 
+          success: false, 
+          error: 'Invalid technical details',
+          details: error.message
+        });
+      }
+
       return res.status(500).json({ 
         success: false, 
         error: 'Failed to save conversation',
@@ -303,6 +438,8 @@ app.post('/api/conversations', async (req, res) => {
       });
     }
 
+    await embedRecord('conversation', data, user.id);
+
     res.json({ 
       success: true, 
       data: { id: data.id, message: 'Conversation saved successfully' }
@@ -314,17 +451,49 @@ app.post('/api/conversations', async (req, res) => {
   }
 });
 
-app.get('/api/conversations', async (req, res) => {
+app.get('/api/conversations', requireScope('conversations'), async (req, res) => {
   try {
     const user = (req as any).user;
     const { 
       query, 
       tags, 
       project, 
+      projectId,
       limit = 10, 
       offset = 0 
     } = req.query;
 
+    // Free-text queries use the weighted full-text index and return
+    // a relevance rank plus highlighted snippets for each match
+    if (query) {
+      const { data, error } = await supabase.rpc('search_conversations', {
+        search_query: String(query),
+        p_user_id: user.id,
+        p_project_id: projectId ? String(projectId) : null,
+        p_project_name: project ? String(project) : null,
+        p_tags: tags ? (Array.isArray(tags) ? tags : [tags]) : null,
+        match_limit: Number(limit),
+        match_offset: Number(offset)
+      });
+
+      if (error) {
+        console.error('Database error:', error);
+        return res.status(500).json({ success: false, error: 'Failed to search conversations' });
+      }
+
+      return res.json({ 
+        success: true, 
+        data: (data || []).map((row: { title_highlight: string; snippet: string; [key: string]: unknown }) => {
+          const { title_highlight, snippet, ...conversation } = row;
+          return {
+            ...conversation,
+            highlights: { title: title_highlight, snippet }
+          };
+        }),
+        count: data?.length || 0
+      });
+    }
+
     let queryBuilder = supabase
       .from('conversations')
       .select(`
@@ -337,8 +506,8 @@ app.get('/api/conversations', async (req, res) => {
       .order('created_at', { ascending: false });
 
     // Apply filters  
-    if (query) {
-      queryBuilder = queryBuilder.or(`title.ilike.%${query}%`);
+    if (projectId) {
+      queryBuilder = queryBuilder.eq('project_id', projectId);
     }
 
     if (tags) {
@@ -373,7 +542,7 @@ app.get('/api/conversations', async (req, res) => {
 });
 
 // GET specific conversation by ID
-app.get('/api/conversations/:id', async (req, res) => {
+app.get('/api/conversations/:id', requireScope('conversations'), async (req, res) => {
   try {
     const user = (req as any).user;
     const { id } = req.params;
@@ -423,8 +592,64 @@ app.get('/api/conversations/:id', async (req, res) => {
   }
 });
 
+// Re-run technical detail extraction on a saved conversation, e.g. after the extractor improved
+app.post('/api/conversations/:id/reprocess', requireScope('conversations'), async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const { id } = req.params;
+
+    const { data: conversation, error: fetchError } = await supabase
+      .from('conversations')
+      .select('id, messages')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (fetchError) {
+      if (fetchError.code === 'PGRST116') {
+        return res.status(404).json({ success: false, error: 'Conversation not found' });
+      }
+      console.error('Database error:', fetchError);
+      return res.status(500).json({ success: false, error: 'Failed to retrieve conversation' });
+    }
+
+    const details = buildConversationDetails(conversation.messages);
+
+    const { data, error } = await supabase
+      .from('conversations')
+      .update(details)
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .select(`
+        id, title, messages, tags, project_context, project_id, source, 
+        created_at, updated_at,
+        technical_details, implementation_summary, files_changed, 
+        code_changes, tool_usage
+      `)
+      .single();
+
+    if (error) {
+      console.error('Database error:', error);
+      return res.status(500).json({ success: false, error: 'Failed to reprocess conversation' });
+    }
+
+    // The implementation summary and files are part of the embedded text
+    await embedRecord('conversation', data, user.id);
+
+    res.json({ 
+      success: true, 
+      data,
+      message: 'Conversation reprocessed successfully'
+    });
+
+  } catch (error) {
+    console.error('Reprocess conversation error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
 // BUGS ENDPOINTS
-app.post('/api/bugs', async (req, res) => {
+app.post('/api/bugs', requireScope('bugs'), async (req, res) => {
   try {
     // Parse body if it's a Buffer
     let body = req.body;
@@ -454,6 +679,14 @@ app.post('/api/bugs', async (req, res) => {
       });
     }
 
+    const bugStatus = normalizeBugStatus(status);
+    if (!bugStatus) {
+      return res.status(400).json({ 
+        success: false, 
+        error: `Invalid status. Must be one of: ${BUG_STATUSES.join(', ')}` 
+      });
+    }
+
     const bugData = {
       title,
       description: description || '',
@@ -461,7 +694,7 @@ app.post('/api/bugs', async (req, res) => {
       symptoms,
       reproduction: reproduction || '',
       solution: solution || '',
-      status,
+      status: bugStatus,
       severity,
       tags,
       project_context: projectContext || null,
@@ -482,6 +715,8 @@ app.post('/api/bugs', async (req, res) => {
       return res.status(500).json({ success: false, error: 'Failed to save bug' });
     }
 
+    await embedRecord('bug', data, user.id);
+
     res.json({ 
       success: true, 
       data: { id: data.id, message: 'Bug saved successfully' }
@@ -493,7 +728,7 @@ app.post('/api/bugs', async (req, res) => {
   }
 });
 
-app.get('/api/bugs', async (req, res) => {
+app.get('/api/bugs', requireScope('bugs'), async (req, res) => {
   try {
     const user = (req as any).user;
     const { 
@@ -517,7 +752,14 @@ app.get('/api/bugs', async (req, res) => {
 
     if (status) {
       const statusArray = Array.isArray(status) ? status : [status];
-      queryBuilder = queryBuilder.in('status', statusArray);
+      const bugStatuses = statusArray.map(normalizeBugStatus);
+      if (bugStatuses.some(s => !s)) {
+        return res.status(400).json({ 
+          success: false, 
+          error: `Invalid status. Must be one of: ${BUG_STATUSES.join(', ')}` 
+        });
+      }
+      queryBuilder = queryBuilder.in('status', bugStatuses);
     }
 
     if (severity) {
@@ -552,7 +794,7 @@ app.get('/api/bugs', async (req, res) => {
 });
 
 // GET specific bug by ID
-app.get('/api/bugs/:id', async (req, res) => {
+app.get('/api/bugs/:id', requireScope('bugs'), async (req, res) => {
   try {
     const user = (req as any).user;
     const { id } = req.params;
@@ -607,8 +849,51 @@ app.get('/api/bugs/:id', async (req, res) => {
   }
 });
 
+// Sent when the bug's status changed between validating a transition and saving it
+const BUG_STATUS_CONFLICT = 'Bug status was changed by another update. Read the bug and retry.';
+
+/**
+ * Checks a requested bug status against the bug's current status.
+ * Sends the error response and returns null when the change is not allowed.
+ * The update must match `from`, so a concurrent change cannot skip the transition rules.
+ */
+const resolveBugStatusChange = async (
+  res: express.Response,
+  bugId: string,
+  userId: string,
+  requested: unknown
+): Promise<{ from: string; to: string } | null> => {
+  const { data: current, error } = await supabase
+    .from('bugs')
+    .select('status')
+    .eq('id', bugId)
+    .eq('user_id', userId)
+    .single();
+
+  if (error || !current) {
+    if (error && error.code !== 'PGRST116') {
+      console.error('Database error:', error);
+      res.status(500).json({ success: false, error: 'Failed to load bug' });
+    } else {
+      res.status(404).json({ success: false, error: 'Bug not found or not owned by user' });
+    }
+    return null;
+  }
+
+  const change = validateBugStatusChange(current.status, requested);
+  if (!change.allowed) {
+    res.status(change.reason === 'invalid_transition' ? 409 : 400).json({ 
+      success: false, 
+      error: change.error 
+    });
+    return null;
+  }
+
+  return { from: current.status, to: change.status };
+};
+
 // UPDATE bug (status, solution, etc.)
-app.put('/api/bugs/:id', async (req, res) => {
+app.put('/api/bugs/:id', requireScope('bugs'), async (req, res) => {
   try {
     const user = (req as any).user;
     const { id } = req.params;
@@ -652,18 +937,6 @@ app.put('/api/bugs/:id', async (req, res) => {
     if (severity !== undefined) updateData.severity = severity;
     if (tags !== undefined) updateData.tags = tags;
 
-    // Validate status if provided
-    if (status !== undefined) {
-      const validStatuses = ['open', 'in-progress', 'resolved', 'wont-fix'];
-      if (!validStatuses.includes(status)) {
-        return res.status(400).json({ 
-          success: false, 
-          error: `Invalid status. Must be one of: ${validStatuses.join(', ')}` 
-        });
-      }
-      updateData.status = status;
-    }
-
     // Validate severity if provided
     if (severity !== undefined) {
       const validSeverities = ['low', 'medium', 'high', 'critical'];
@@ -675,11 +948,22 @@ app.put('/api/bugs/:id', async (req, res) => {
       }
     }
 
-    const { data, error } = await supabase
+    // Validate status and the transition from the current status if provided
+    let statusChange: { from: string; to: string } | null = null;
+    if (status !== undefined) {
+      statusChange = await resolveBugStatusChange(res, id, user.id, status);
+      if (!statusChange) return;
+      updateData.status = statusChange.to;
+    }
+
+    let query = supabase
       .from('bugs')
       .update(updateData)
       .eq('id', id)
-      .eq('user_id', user.id)
+      .eq('user_id', user.id);
+    if (statusChange) query = query.eq('status', statusChange.from);
+
+    const { data, error } = await query
       .select(`
         id, title, description, content, symptoms, reproduction, solution, 
         status, severity, tags, project_context, project_id, 
@@ -688,19 +972,21 @@ app.put('/api/bugs/:id', async (req, res) => {
       .single();
 
     if (error) {
-      console.error('Database error:', error);
       if (error.code === 'PGRST116') {
-        return res.status(404).json({ 
-          success: false, 
-          error: 'Bug not found or not owned by user' 
-        });
+        // The bug was found when its status was checked
+        return statusChange
+          ? res.status(409).json({ success: false, error: BUG_STATUS_CONFLICT })
+          : res.status(404).json({ success: false, error: 'Bug not found or not owned by user' });
       }
+      console.error('Database error:', error);
       return res.status(500).json({ 
         success: false, 
         error: 'Failed to update bug' 
       });
     }
 
+    await embedRecord('bug', data, user.id);
+
     res.json({ 
       success: true, 
       data,
@@ -714,7 +1000,7 @@ app.put('/api/bugs/:id', async (req, res) => {
 });
 
 // PATCH bug (for MCP status updates)
-app.patch('/api/bugs/:id', async (req, res) => {
+app.patch('/api/bugs/:id', requireScope('bugs'), async (req, res) => {
   try {
     const user = (req as any).user;
     const { id } = req.params;
@@ -741,26 +1027,13 @@ app.patch('/api/bugs/:id', async (req, res) => {
       });
     }
 
-    // Validate status - map MCP statuses to database statuses
-    const statusMapping = {
-      'open': 'open',
-      'in-progress': 'in-progress', 
-      'resolved': 'fixed', // MCP uses 'resolved' but DB uses 'fixed'
-      'wont-fix': 'wont-fix'
-    };
-
-    if (!statusMapping[status]) {
-      return res.status(400).json({ 
-        success: false, 
-        error: `Invalid status. Must be one of: ${Object.keys(statusMapping).join(', ')}` 
-      });
-    }
-
-    const dbStatus = statusMapping[status];
+    // Legacy MCP statuses ('resolved') are mapped to the shared status model
+    const statusChange = await resolveBugStatusChange(res, id, user.id, status);
+    if (!statusChange) return;
 
     // Update with minimal fields to avoid any constraint issues
     const updateData = {
-      status: dbStatus, // Use the mapped database status
+      status: statusChange.to,
       updated_at: new Date().toISOString()
     };
 
@@ -769,17 +1042,16 @@ app.patch('/api/bugs/:id', async (req, res) => {
       .update(updateData)
       .eq('id', id)
       .eq('user_id', user.id)
+      .eq('status', statusChange.from)
       .select('id, title, status, updated_at')
       .single();
 
     if (error) {
-      console.error('PATCH /api/bugs/:id - Database error:', error);
       if (error.code === 'PGRST116') {
-        return res.status(404).json({ 
-          success: false, 
-          error: 'Bug not found or not owned by user' 
-        });
+        // The bug was found when its status was checked
+        return res.status(409).json({ success: false, error: BUG_STATUS_CONFLICT });
       }
+      console.error('PATCH /api/bugs/:id - Database error:', error);
       return res.status(500).json({ 
         success: false, 
         error: 'Failed to update bug status'
@@ -802,7 +1074,7 @@ app.patch('/api/bugs/:id', async (req, res) => {
 });
 
 // FEATURES ENDPOINTS
-app.post('/api/features', async (req, res) => {
+app.post('/api/features', requireScope('features'), async (req, res) => {
   try {
     // Parse body if it's a Buffer
     let body = req.body;
@@ -859,6 +1131,8 @@ app.post('/api/features', async (req, res) => {
       return res.status(500).json({ success: false, error: 'Failed to save feature' });
     }
 
+    await embedRecord('feature', data, user.id);
+
     res.json({ 
       success: true, 
       data: { id: data.id, message: 'Feature saved successfully' }
@@ -870,7 +1144,7 @@ app.post('/api/features', async (req, res) => {
   }
 });
 
-app.get('/api/features', async (req, res) => {
+app.get('/api/features', requireScope('features'), async (req, res) => {
   try {
     const user = (req as any).user;
     const { 
@@ -924,7 +1198,7 @@ app.get('/api/features', async (req, res) => {
 });
 
 // GET specific feature by ID
-app.get('/api/features/:id', async (req, res) => {
+app.get('/api/features/:id', requireScope('features'), async (req, res) => {
   try {
     const user = (req as any).user;
     const { id } = req.params;
@@ -980,7 +1254,7 @@ app.get('/api/features/:id', async (req, res) => {
 });
 
 // FEATURE FILE ENDPOINTS
-app.post('/api/features/:featureId/files', async (req, res) => {
+app.post('/api/features/:featureId/files', requireScope('features'), async (req, res) => {
   try {
     const user = (req as any).user;
     const { featureId } = req.params;
@@ -994,9 +1268,10 @@ app.post('/api/features/:featureId/files', async (req, res) => {
     const { 
       name, 
       type, 
-      content = '',
-      language = 'markdown'
+      language = 'markdown',
+      templateId
     } = body;
+    let { content = '' } = body;
 
     if (!name || !type) {
       return res.status(400).json({ 
@@ -1027,6 +1302,16 @@ app.post('/api/features/:featureId/files', async (req, res) => {
       });
     }
 
+    // Start from a template when no content is given
+    if (!content && templateId) {
+      const template = await findTemplateForUser(String(templateId), user.id);
+      if (!template || template.target !== 'feature_file') {
+        return res.status(404).json({ success: false, error: 'Feature file template not found' });
+      }
+      const context = await buildTemplateContextForUser({ featureId, fileName: name.trim() }, user.id);
+      content = renderTemplate(template.content, context || {});
+    }
+
     // Create the feature file
     const { data, error } = await supabase
       .from('feature_data')
@@ -1078,7 +1363,7 @@ app.post('/api/features/:featureId/files', async (req, res) => {
   }
 });
 
-app.get('/api/features/:featureId/files', async (req, res) => {
+app.get('/api/features/:featureId/files', requireScope('features'), async (req, res) => {
   try {
     const user = (req as any).user;
     const { featureId } = req.params;
@@ -1131,7 +1416,7 @@ app.get('/api/features/:featureId/files', async (req, res) => {
   }
 });
 
-app.put('/api/features/:featureId/files/:fileId', async (req, res) => {
+app.put('/api/features/:featureId/files/:fileId', requireScope('features'), async (req, res) => {
   try {
     const user = (req as any).user;
     const { featureId, fileId } = req.params;
@@ -1145,7 +1430,8 @@ app.put('/api/features/:featureId/files/:fileId', async (req, res) => {
     const { 
       name, 
       content, 
-      language = 'markdown'
+      language = 'markdown',
+      expectedUpdatedAt
     } = body;
 
     if (!featureId || !fileId) {
@@ -1155,6 +1441,13 @@ app.put('/api/features/:featureId/files/:fileId', async (req, res) => {
       });
     }
 
+    if (expectedUpdatedAt !== undefined && (typeof expectedUpdatedAt !== 'string' || Number.isNaN(Date.parse(expectedUpdatedAt)))) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'expectedUpdatedAt must be an ISO timestamp, e.g. the updatedAt of the version you edited' 
+      });
+    }
+
     // Verify the file exists and belongs to the user
     const { data: existingFile, error: checkError } = await supabase
       .from('feature_data')
@@ -1179,12 +1472,18 @@ app.put('/api/features/:featureId/files/:fileId', async (req, res) => {
     if (content !== undefined) updateData.content = content;
     if (language !== undefined) updateData.content_type = language;
 
-    const { data, error } = await supabase
+    let updateQuery = supabase
       .from('feature_data')
       .update(updateData)
-      .eq('id', fileId)
-      .select()
-      .single();
+      .eq('id', fileId);
+
+    // Only overwrite the version the caller edited
+    if (expectedUpdatedAt) {
+      const { from, to } = updatedAtWindow(expectedUpdatedAt);
+      updateQuery = updateQuery.gte('updated_at', from).lt('updated_at', to);
+    }
+
+    const { data, error } = await updateQuery.select().maybeSingle();
 
     if (error) {
       console.error('Database error:', error);
@@ -1195,6 +1494,27 @@ app.put('/api/features/:featureId/files/:fileId', async (req, res) => {
       });
     }
 
+    if (!data) {
+      const { data: current } = await supabase
+        .from('feature_data')
+        .select('content, updated_at')
+        .eq('id', fileId)
+        .maybeSingle();
+
+      if (!current) {
+        return res.status(404).json({
+          success: false,
+          error: 'Feature file not found'
+        });
+      }
+
+      return res.status(409).json({
+        success: false, 
+        error: 'Feature file was changed since expectedUpdatedAt. Merge your changes into the current content and retry with its updatedAt.',
+        data: { content: current.content, updatedAt: current.updated_at }
+      });
+    }
+
     res.json({ 
       success: true, 
       data: {
@@ -1216,7 +1536,138 @@ app.put('/api/features/:featureId/files/:fileId', async (req, res) => {
 });
 
 // PROJECTS ENDPOINTS
-app.post('/api/projects', async (req, res) => {
+interface ProjectRow {
+  id: string;
+  name: string;
+  description: string | null;
+  icon?: string | null;
+  color?: string | null;
+  tech_stack?: string[] | null;
+  framework?: string | null;
+  language?: string | null;
+  project_path?: string | null;
+  archived_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const formatProject = (data: ProjectRow, stats?: Record<string, number>) => ({
+  id: data.id,
+  name: data.name,
+  description: data.description,
+  icon: data.icon,
+  color: data.color,
+  techStack: data.tech_stack,
+  framework: data.framework,
+  language: data.language,
+  projectPath: data.project_path,
+  archived: !!data.archived_at,
+  archivedAt: data.archived_at || null,
+  ...(stats ? { stats } : {}),
+  created_at: data.created_at,
+  updated_at: data.updated_at
+});
+
+const EMPTY_PROJECT_STATS = {
+  conversations: 0,
+  bugs: 0,
+  openBugs: 0,
+  features: 0,
+  documents: 0,
+  tasks: 0,
+  openTasks: 0
+};
+
+app.get('/api/projects', requireScope('projects'), async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const {
+      query,
+      archived = 'false',
+      stats = 'true',
+      limit = 50,
+      offset = 0
+    } = req.query;
+
+    if (!['false', 'true', 'only'].includes(String(archived))) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Invalid archived. Must be one of: false, true, only' 
+      });
+    }
+
+    let queryBuilder = supabase
+      .from('projects')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('updated_at', { ascending: false });
+
+    if (archived === 'false') {
+      queryBuilder = queryBuilder.is('archived_at', null);
+    } else if (archived === 'only') {
+      queryBuilder = queryBuilder.not('archived_at', 'is', null);
+    }
+
+    if (query) {
+      const term = sanitizeFilterTerm(String(query));
+      if (term) {
+        queryBuilder = queryBuilder.or(`name.ilike.%${term}%,description.ilike.%${term}%`);
+      }
+    }
+
+    const pageSize = Math.min(Math.max(Number(limit) || 50, 1), 100);
+    queryBuilder = queryBuilder
+      .range(Number(offset) || 0, (Number(offset) || 0) + pageSize - 1);
+
+    const { data, error } = await queryBuilder;
+
+    if (error) {
+      console.error('Database error:', error);
+      return res.status(500).json({ success: false, error: 'Failed to list projects' });
+    }
+
+    const projects = data || [];
+    const statsByProject = new Map<string, Record<string, number>>();
+
+    if (stats !== 'false' && projects.length > 0) {
+      const { data: statsData, error: statsError } = await supabase.rpc('get_project_stats', {
+        p_project_ids: projects.map(project => project.id)
+      });
+
+      if (statsError) {
+        console.error('Database error:', statsError);
+        return res.status(500).json({ success: false, error: 'Failed to load project stats' });
+      }
+
+      for (const row of statsData || []) {
+        statsByProject.set(row.project_id, {
+          conversations: Number(row.conversations) || 0,
+          bugs: Number(row.bugs) || 0,
+          openBugs: Number(row.open_bugs) || 0,
+          features: Number(row.features) || 0,
+          documents: Number(row.documents) || 0,
+          tasks: Number(row.tasks) || 0,
+          openTasks: Number(row.open_tasks) || 0
+        });
+      }
+    }
+
+    res.json({ 
+      success: true, 
+      data: projects.map(project => formatProject(
+        project,
+        stats !== 'false' ? statsByProject.get(project.id) || EMPTY_PROJECT_STATS : undefined
+      )),
+      count: projects.length
+    });
+
+  } catch (error) {
+    console.error('List projects error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+app.post('/api/projects', requireScope('projects'), async (req, res) => {
   try {
     // Parse body if it's a Buffer
     let body = req.body;
@@ -1276,7 +1727,7 @@ app.post('/api/projects', async (req, res) => {
   }
 });
 
-app.get('/api/projects/:id', async (req, res) => {
+app.get('/api/projects/:id', requireScope('projects'), async (req, res) => {
   try {
     const user = (req as any).user;
     const { id } = req.params;
@@ -1305,16 +1756,7 @@ app.get('/api/projects/:id', async (req, res) => {
 
     res.json({ 
       success: true, 
-      data: {
-        id: data.id,
-        name: data.name,
-        description: data.description,
-        techStack: data.tech_stack,
-        framework: data.framework,
-        language: data.language,
-        created_at: data.created_at,
-        updated_at: data.updated_at
-      }
+      data: formatProject(data)
     });
 
   } catch (error) {
@@ -1323,102 +1765,3026 @@ app.get('/api/projects/:id', async (req, res) => {
   }
 });
 
-// DOCUMENTS ENDPOINTS
-app.post('/api/documents', async (req, res) => {
+// UPDATE project metadata (PUT and PATCH both apply only the provided fields)
+const updateProjectHandler: express.RequestHandler = async (req, res) => {
   try {
+    const user = (req as any).user;
+    const { id } = req.params;
+
     // Parse body if it's a Buffer
     let body = req.body;
     if (Buffer.isBuffer(req.body)) {
       body = JSON.parse(req.body.toString());
     }
-    
-    const { 
-      title, 
-      content, 
-      type = 'documentation',
-      tags = [],
-      projectContext,
-      language,
-      framework
-    } = body;
-    const user = (req as any).user;
 
-    if (!title || !content) {
-      return res.status(400).json({ 
-        success: false, 
-        error: 'Missing required fields: title and content' 
-      });
+    const { name, description, icon, color, techStack, framework, language, projectPath } = body;
+
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+      return res.status(400).json({ success: false, error: 'Project name cannot be empty' });
     }
 
-    const documentData = {
-      title,
-      content,
-      type,
-      tags,
-      project_context: projectContext,
-      language,
-      framework,
-      user_id: user.id,
-      project_id: null, // For MCP API, we allow documents without specific projects
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString()
-    };
+    if (techStack !== undefined && !Array.isArray(techStack)) {
+      return res.status(400).json({ success: false, error: 'techStack must be an array' });
+    }
+
+    // Build update object with only provided fields
+    const updateData: Record<string, unknown> = {};
+
+    if (name !== undefined) updateData.name = name.trim();
+    if (description !== undefined) updateData.description = description || '';
+    if (icon !== undefined) updateData.icon = icon;
+    if (color !== undefined) updateData.color = color;
+    if (techStack !== undefined) updateData.tech_stack = techStack;
+    if (framework !== undefined) updateData.framework = framework || null;
+    if (language !== undefined) updateData.language = language || null;
+    if (projectPath !== undefined) updateData.project_path = projectPath || null;
+
+    if (Object.keys(updateData).length === 0) {
+      return res.status(400).json({ success: false, error: 'No fields to update' });
+    }
+
+    // Project names are unique per user, ignoring case (same rule as renaming in the Sidebar)
+    if (updateData.name) {
+      const { data: sameName, error: nameError } = await supabase
+        .from('projects')
+        .select('id')
+        .eq('user_id', user.id)
+        .neq('id', id)
+        .ilike('name', String(updateData.name).replace(/[%_\\]/g, '\\$&'))
+        .limit(1);
+
+      if (nameError) {
+        console.error('Database error:', nameError);
+        return res.status(500).json({ success: false, error: 'Failed to update project' });
+      }
+
+      if (sameName && sameName.length > 0) {
+        return res.status(409).json({ success: false, error: 'A project with this name already exists' });
+      }
+    }
+
+    updateData.updated_at = new Date().toISOString();
 
     const { data, error } = await supabase
-      .from('documents')
-      .insert([documentData])
+      .from('projects')
+      .update(updateData)
+      .eq('id', id)
+      .eq('user_id', user.id)
       .select()
       .single();
 
     if (error) {
       console.error('Database error:', error);
-      return res.status(500).json({ success: false, error: 'Failed to save document' });
-    }
+      if (error.code === 'PGRST116') {
+        return res.status(404).json({ success: false, error: 'Project not found or not owned by user' });
+      }
+      return res.status(500).json({ success: false, error: 'Failed to update project' });
+    }
+
+    res.json({ success: true, data: formatProject(data), message: 'Project updated successfully' });
+
+  } catch (error) {
+    console.error('Update project error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+};
+
+app.put('/api/projects/:id', requireScope('projects'), updateProjectHandler);
+app.patch('/api/projects/:id', requireScope('projects'), updateProjectHandler);
+
+// Archiving hides a project without deleting anything; restoring brings it back
+const setProjectArchived = (archived: boolean): express.RequestHandler => async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const { id } = req.params;
+    const now = new Date().toISOString();
+
+    const { data, error } = await supabase
+      .from('projects')
+      .update({ archived_at: archived ? now : null, updated_at: now })
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Database error:', error);
+      if (error.code === 'PGRST116') {
+        return res.status(404).json({ success: false, error: 'Project not found or not owned by user' });
+      }
+      return res.status(500).json({ success: false, error: `Failed to ${archived ? 'archive' : 'restore'} project` });
+    }
+
+    res.json({ 
+      success: true, 
+      data: formatProject(data),
+      message: `Project ${archived ? 'archived' : 'restored'} successfully`
+    });
+
+  } catch (error) {
+    console.error(`${archived ? 'Archive' : 'Restore'} project error:`, error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+};
+
+app.post('/api/projects/:id/archive', requireScope('projects'), setProjectArchived(true));
+app.post('/api/projects/:id/restore', requireScope('projects'), setProjectArchived(false));
+
+// DELETE project. Like deleteProject in the app, this removes the project row and
+// relies on ON DELETE CASCADE to remove the project's tasks, bugs, documents,
+// events and other items; conversations and patterns are kept and unlinked.
+// Buckets whose objects are stored under a `${projectId}/` folder
+const PROJECT_STORAGE_BUCKETS = ['project-files', 'bug-images'];
+const STORAGE_PAGE_SIZE = 100;
+
+/**
+ * Lists the paths of every object under a folder of a storage bucket, including subfolders
+ */
+const listStoragePaths = async (bucket: string, folder: string): Promise<string[]> => {
+  const paths: string[] = [];
+  for (let offset = 0; ; offset += STORAGE_PAGE_SIZE) {
+    const { data, error } = await supabase.storage
+      .from(bucket)
+      .list(folder, { limit: STORAGE_PAGE_SIZE, offset });
+
+    if (error) throw error;
+
+    for (const entry of data || []) {
+      const path = `${folder}/${entry.name}`;
+      // Folders are listed without an id
+      if (entry.id) {
+        paths.push(path);
+      } else {
+        paths.push(...await listStoragePaths(bucket, path));
+      }
+    }
+    if (!data || data.length < STORAGE_PAGE_SIZE) break;
+  }
+  return paths;
+};
+
+/**
+ * Removes a project's uploaded files and bug images, which deleting its rows leaves behind
+ */
+const deleteProjectStorage = async (projectId: string) => {
+  for (const bucket of PROJECT_STORAGE_BUCKETS) {
+    const paths = await listStoragePaths(bucket, projectId);
+    for (let start = 0; start < paths.length; start += STORAGE_PAGE_SIZE) {
+      const { error } = await supabase.storage
+        .from(bucket)
+        .remove(paths.slice(start, start + STORAGE_PAGE_SIZE));
+
+      if (error) throw error;
+    }
+  }
+};
+
+app.delete('/api/projects/:id', requireScope('projects'), async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const { id } = req.params;
+
+    if (!(await isOwnedProject(id, user.id))) {
+      return res.status(404).json({ success: false, error: 'Project not found or not owned by user' });
+    }
+
+    // Before the row, so a failed cleanup can be retried by deleting again
+    try {
+      await deleteProjectStorage(id);
+    } catch (storageError) {
+      console.error('Storage error:', storageError);
+      return res.status(500).json({ success: false, error: 'Failed to delete project files' });
+    }
+
+    const { data, error } = await supabase
+      .from('projects')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .select('id');
+
+    if (error) {
+      console.error('Database error:', error);
+      return res.status(500).json({ success: false, error: 'Failed to delete project' });
+    }
+
+    if (!data || data.length === 0) {
+      return res.status(404).json({ success: false, error: 'Project not found or not owned by user' });
+    }
+
+    res.json({ success: true, message: 'Project deleted successfully' });
+
+  } catch (error) {
+    console.error('Delete project error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// DOCUMENTS ENDPOINTS
+app.post('/api/documents', requireScope('documents'), async (req, res) => {
+  try {
+    // Parse body if it's a Buffer
+    let body = req.body;
+    if (Buffer.isBuffer(req.body)) {
+      body = JSON.parse(req.body.toString());
+    }
+    
+    const { 
+      title, 
+      type = 'documentation',
+      tags = [],
+      projectContext,
+      language,
+      framework,
+      projectId = null,
+      templateId
+    } = body;
+    let { content } = body;
+    const user = (req as any).user;
+
+    if (!title || (!content && !templateId)) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Missing required fields: title and content (or templateId)' 
+      });
+    }
+
+    if (projectId && !(await isOwnedProject(projectId, user.id))) {
+      return res.status(404).json({ success: false, error: 'Project not found or not owned by user' });
+    }
+
+    // Start from a template when no content is given
+    if (!content) {
+      const template = await findTemplateForUser(String(templateId), user.id);
+      if (!template || template.target !== 'document') {
+        return res.status(404).json({ success: false, error: 'Document template not found' });
+      }
+      const context = await buildTemplateContextForUser({ projectId: projectId || undefined, title }, user.id);
+      content = renderTemplate(template.content, context || {});
+    }
+
+    const documentData = {
+      title,
+      content,
+      type,
+      tags,
+      project_context: projectContext,
+      language,
+      framework,
+      user_id: user.id,
+      project_id: projectId || null, // For MCP API, we allow documents without specific projects
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    };
+
+    const { data, error } = await supabase
+      .from('documents')
+      .insert([documentData])
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Database error:', error);
+      return res.status(500).json({ success: false, error: 'Failed to save document' });
+    }
+
+    res.json({ 
+      success: true, 
+      data: { id: data.id, message: 'Document saved successfully' }
+    });
+
+  } catch (error) {
+    console.error('Save document error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+app.get('/api/documents', requireScope('documents'), async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const { 
+      query, 
+      type,
+      tags,
+      language,
+      framework,
+      limit = 10, 
+      offset = 0 
+    } = req.query;
+
+    let queryBuilder = supabase
+      .from('documents')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false });
+
+    if (query) {
+      queryBuilder = queryBuilder.or(`title.ilike.%${query}%,content.ilike.%${query}%`);
+    }
+
+    if (type) {
+      queryBuilder = queryBuilder.eq('type', type);
+    }
+
+    if (language) {
+      queryBuilder = queryBuilder.eq('language', language);
+    }
+
+    if (framework) {
+      queryBuilder = queryBuilder.eq('framework', framework);
+    }
+
+    if (tags) {
+      const tagArray = Array.isArray(tags) ? tags : [tags];
+      queryBuilder = queryBuilder.overlaps('tags', tagArray);
+    }
+
+    queryBuilder = queryBuilder
+      .range(Number(offset), Number(offset) + Number(limit) - 1);
+
+    const { data, error } = await queryBuilder;
+
+    if (error) {
+      console.error('Database error:', error);
+      return res.status(500).json({ success: false, error: 'Failed to search documents' });
+    }
+
+    res.json({ 
+      success: true, 
+      data: data || [],
+      count: data?.length || 0
+    });
+
+  } catch (error) {
+    console.error('Search documents error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// TASKS, CALENDAR EVENTS AND PROJECT TRACKERS ENDPOINTS
+// Allowed values mirror the check constraints on each table
+const TASK_STATUSES = ['todo', 'in-progress', 'fix-later', 'done'];
+const TASK_PRIORITIES = ['low', 'medium', 'high', 'top'];
+const EVENT_TYPES = ['meeting', 'task', 'milestone', 'bug'];
+const TRACKER_TYPES = ['project', 'feature', 'bug'];
+const TRACKER_STATUSES = ['not_started', 'in_progress', 'completed'];
+const TRACKER_PRIORITIES = ['low', 'medium', 'high', 'critical'];
+
+// Accepts repeated query parameters or a comma-separated list
+const toQueryList = (value: unknown): string[] => {
+  if (value === undefined) return [];
+  const values = Array.isArray(value) ? value : String(value).split(',');
+  return values.map(v => String(v).trim()).filter(Boolean);
+};
+
+// Returns an error message when any value is not allowed
+const checkAllowed = (field: string, values: unknown[], allowed: string[]): string | null => {
+  const invalid = values.filter(value => value !== undefined && !allowed.includes(String(value)));
+  return invalid.length > 0 ? `Invalid ${field}. Must be one of: ${allowed.join(', ')}` : null;
+};
+
+const isUuid = (value: unknown): value is string =>
+  typeof value === 'string' && /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value);
+
+// Returns an error message when an id filter from the query string is not a UUID
+const checkIdFilter = (field: string, value: unknown): string | null =>
+  value !== undefined && value !== '' && !isUuid(value) ? `Invalid ${field}` : null;
+
+const isDateOnly = (value: unknown) =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value));
+
+const isTimeOfDay = (value: unknown) =>
+  typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/.test(value);
+
+const toPageRange = (limit: unknown, offset: unknown) => {
+  const pageSize = Math.min(Math.max(Number(limit) || 50, 1), 100);
+  const start = Math.max(Number(offset) || 0, 0);
+  return [start, start + pageSize - 1] as const;
+};
+
+const isOwnedProject = async (projectId: string, userId: string) => {
+  const { data, error } = await supabase
+    .from('projects')
+    .select('id')
+    .eq('id', projectId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error && error.code !== '22P02') throw error;
+  return !!data;
+};
+
+/**
+ * Checks that a task's linked feature and bug belong to the task's project.
+ * Returns an error message, or null when the links are valid.
+ */
+const checkTaskLinks = async (projectId: string, featureId: unknown, bugId: unknown): Promise<string | null> => {
+  if (featureId) {
+    const { data, error } = await supabase
+      .from('features')
+      .select('id')
+      .eq('id', String(featureId))
+      .eq('project_id', projectId)
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) return 'Feature not found in this project';
+  }
+
+  if (bugId) {
+    const { data, error } = await supabase
+      .from('bugs')
+      .select('id')
+      .eq('id', String(bugId))
+      .eq('project_id', projectId)
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) return 'Bug not found in this project';
+  }
+
+  return null;
+};
+
+const TASK_COLUMNS = `
+  id, project_id, title, description, status, priority, assignee,
+  feature_id, bug_id, due_date, created_at, updated_at
+`;
+
+// Tasks have no user_id; they are owned through their project
+const findOwnedTask = async (id: string, userId: string) => {
+  const { data, error } = await supabase
+    .from('tasks')
+    .select(TASK_COLUMNS)
+    .eq('id', id)
+    .maybeSingle();
+
+  // 22P02: the id is not a UUID, so no task has it
+  if (error && error.code !== '22P02') throw error;
+  if (!data || !(await isOwnedProject(data.project_id, userId))) return null;
+  return data;
+};
+
+app.get('/api/tasks', requireScope('tasks'), async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const {
+      projectId,
+      status,
+      priority,
+      featureId,
+      bugId,
+      dueFrom,
+      dueTo,
+      limit,
+      offset
+    } = req.query;
+
+    const statuses = toQueryList(status);
+    const priorities = toQueryList(priority);
+    const validationError = checkAllowed('status', statuses, TASK_STATUSES)
+      || checkAllowed('priority', priorities, TASK_PRIORITIES)
+      || checkIdFilter('projectId', projectId)
+      || checkIdFilter('featureId', featureId)
+      || checkIdFilter('bugId', bugId)
+      || (dueFrom && isNaN(Date.parse(String(dueFrom))) ? 'Invalid dueFrom' : null)
+      || (dueTo && isNaN(Date.parse(String(dueTo))) ? 'Invalid dueTo' : null);
+    if (validationError) {
+      return res.status(400).json({ success: false, error: validationError });
+    }
+
+    const { data: projectsData, error: projectsError } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('user_id', user.id);
+
+    if (projectsError) {
+      console.error('Database error:', projectsError);
+      return res.status(500).json({ success: false, error: 'Failed to retrieve tasks' });
+    }
+
+    let projectIds = (projectsData || []).map(p => p.id);
+
+    if (projectId) {
+      if (!projectIds.includes(String(projectId))) {
+        return res.status(404).json({ success: false, error: 'Project not found' });
+      }
+      projectIds = [String(projectId)];
+    }
+
+    if (projectIds.length === 0) {
+      return res.json({ success: true, data: [], count: 0 });
+    }
+
+    let queryBuilder = supabase
+      .from('tasks')
+      .select(TASK_COLUMNS)
+      .in('project_id', projectIds)
+      .order('created_at', { ascending: false });
+
+    if (statuses.length > 0) {
+      queryBuilder = queryBuilder.in('status', statuses);
+    }
+
+    if (priorities.length > 0) {
+      queryBuilder = queryBuilder.in('priority', priorities);
+    }
+
+    if (featureId) {
+      queryBuilder = queryBuilder.eq('feature_id', String(featureId));
+    }
+
+    if (bugId) {
+      queryBuilder = queryBuilder.eq('bug_id', String(bugId));
+    }
+
+    if (dueFrom) {
+      queryBuilder = queryBuilder.gte('due_date', String(dueFrom));
+    }
+
+    if (dueTo) {
+      queryBuilder = queryBuilder.lte('due_date', String(dueTo));
+    }
+
+    const [from, to] = toPageRange(limit, offset);
+    const { data, error } = await queryBuilder.range(from, to);
+
+    if (error) {
+      console.error('Database error:', error);
+      return res.status(500).json({ success: false, error: 'Failed to retrieve tasks' });
+    }
+
+    res.json({
+      success: true,
+      data: data || [],
+      count: data?.length || 0
+    });
+
+  } catch (error) {
+    console.error('Get tasks error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+app.get('/api/tasks/:id', requireScope('tasks'), async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const task = await findOwnedTask(req.params.id, user.id);
+
+    if (!task) {
+      return res.status(404).json({ success: false, error: 'Task not found' });
+    }
+
+    res.json({ success: true, data: task });
+
+  } catch (error) {
+    console.error('Get task error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+app.post('/api/tasks', requireScope('tasks'), async (req, res) => {
+  try {
+    const user = (req as any).user;
+
+    // Parse body if it's a Buffer
+    let body = req.body;
+    if (Buffer.isBuffer(req.body)) {
+      body = JSON.parse(req.body.toString());
+    }
+
+    const {
+      projectId,
+      title,
+      description = '',
+      status = 'todo',
+      priority = 'medium',
+      assignee,
+      featureId,
+      bugId,
+      dueDate
+    } = body;
+
+    if (!projectId || !title) {
+      return res.status(400).json({ success: false, error: 'Missing required fields: projectId, title' });
+    }
+
+    const validationError = checkAllowed('status', [status], TASK_STATUSES)
+      || checkAllowed('priority', [priority], TASK_PRIORITIES)
+      || (dueDate && isNaN(Date.parse(dueDate)) ? 'Invalid dueDate' : null);
+    if (validationError) {
+      return res.status(400).json({ success: false, error: validationError });
+    }
+
+    if (!(await isOwnedProject(projectId, user.id))) {
+      return res.status(404).json({ success: false, error: 'Project not found' });
+    }
+
+    const linkError = await checkTaskLinks(projectId, featureId, bugId);
+    if (linkError) {
+      return res.status(400).json({ success: false, error: linkError });
+    }
+
+    const { data, error } = await supabase
+      .from('tasks')
+      .insert([{
+        project_id: projectId,
+        title,
+        description,
+        status,
+        priority,
+        assignee: assignee || null,
+        feature_id: featureId || null,
+        bug_id: bugId || null,
+        due_date: dueDate ? new Date(dueDate).toISOString() : null
+      }])
+      .select(TASK_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Database error:', error);
+      return res.status(500).json({ success: false, error: 'Failed to create task' });
+    }
+
+    res.json({ success: true, data, message: 'Task created successfully' });
+
+  } catch (error) {
+    console.error('Create task error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+app.put('/api/tasks/:id', requireScope('tasks'), async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const { id } = req.params;
+
+    // Parse body if it's a Buffer
+    let body = req.body;
+    if (Buffer.isBuffer(req.body)) {
+      body = JSON.parse(req.body.toString());
+    }
+
+    const { title, description, status, priority, assignee, featureId, bugId, dueDate } = body;
+
+    const validationError = checkAllowed('status', [status], TASK_STATUSES)
+      || checkAllowed('priority', [priority], TASK_PRIORITIES)
+      || (dueDate && isNaN(Date.parse(dueDate)) ? 'Invalid dueDate' : null);
+    if (validationError) {
+      return res.status(400).json({ success: false, error: validationError });
+    }
+
+    const task = await findOwnedTask(id, user.id);
+    if (!task) {
+      return res.status(404).json({ success: false, error: 'Task not found or not owned by user' });
+    }
+
+    const linkError = await checkTaskLinks(task.project_id, featureId, bugId);
+    if (linkError) {
+      return res.status(400).json({ success: false, error: linkError });
+    }
+
+    // Build update object with only provided fields; null clears a link or due date
+    const updateData: Record<string, unknown> = {
+      updated_at: new Date().toISOString()
+    };
+
+    if (title !== undefined) updateData.title = title;
+    if (description !== undefined) updateData.description = description;
+    if (status !== undefined) updateData.status = status;
+    if (priority !== undefined) updateData.priority = priority;
+    if (assignee !== undefined) updateData.assignee = assignee || null;
+    if (featureId !== undefined) updateData.feature_id = featureId || null;
+    if (bugId !== undefined) updateData.bug_id = bugId || null;
+    if (dueDate !== undefined) updateData.due_date = dueDate ? new Date(dueDate).toISOString() : null;
+
+    const { data, error } = await supabase
+      .from('tasks')
+      .update(updateData)
+      .eq('id', id)
+      .select(TASK_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Database error:', error);
+      return res.status(500).json({ success: false, error: 'Failed to update task' });
+    }
+
+    res.json({ success: true, data, message: 'Task updated successfully' });
+
+  } catch (error) {
+    console.error('Update task error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+app.delete('/api/tasks/:id', requireScope('tasks'), async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const { id } = req.params;
+
+    const task = await findOwnedTask(id, user.id);
+    if (!task) {
+      return res.status(404).json({ success: false, error: 'Task not found or not owned by user' });
+    }
+
+    const { error } = await supabase
+      .from('tasks')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Database error:', error);
+      return res.status(500).json({ success: false, error: 'Failed to delete task' });
+    }
+
+    res.json({ success: true, message: 'Task deleted successfully' });
+
+  } catch (error) {
+    console.error('Delete task error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+const EVENT_COLUMNS = `
+  id, project_id, title, description, event_date, start_time, end_time,
+  event_type, attendees, created_at, updated_at
+`;
+
+app.get('/api/calendar-events', requireScope('calendar'), async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const { projectId, type, from, to, limit, offset } = req.query;
+
+    const types = toQueryList(type);
+    const validationError = checkAllowed('type', types, EVENT_TYPES)
+      || (from && !isDateOnly(from) ? 'Invalid from date. Use YYYY-MM-DD' : null)
+      || (to && !isDateOnly(to) ? 'Invalid to date. Use YYYY-MM-DD' : null);
+    if (validationError) {
+      return res.status(400).json({ success: false, error: validationError });
+    }
+
+    let queryBuilder = supabase
+      .from('calendar_events')
+      .select(EVENT_COLUMNS)
+      .eq('user_id', user.id)
+      .order('event_date', { ascending: true })
+      .order('start_time', { ascending: true });
+
+    if (projectId) {
+      queryBuilder = queryBuilder.eq('project_id', String(projectId));
+    }
+
+    if (types.length > 0) {
+      queryBuilder = queryBuilder.in('event_type', types);
+    }
+
+    if (from) {
+      queryBuilder = queryBuilder.gte('event_date', String(from));
+    }
+
+    if (to) {
+      queryBuilder = queryBuilder.lte('event_date', String(to));
+    }
+
+    const [start, end] = toPageRange(limit, offset);
+    const { data, error } = await queryBuilder.range(start, end);
+
+    if (error) {
+      console.error('Database error:', error);
+      return res.status(500).json({ success: false, error: 'Failed to retrieve calendar events' });
+    }
+
+    res.json({
+      success: true,
+      data: data || [],
+      count: data?.length || 0
+    });
+
+  } catch (error) {
+    console.error('Get calendar events error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+app.get('/api/calendar-events/:id', requireScope('calendar'), async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const { id } = req.params;
+
+    const { data, error } = await supabase
+      .from('calendar_events')
+      .select(EVENT_COLUMNS)
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (error) {
+      console.error('Database error:', error);
+      if (error.code === 'PGRST116') {
+        return res.status(404).json({ success: false, error: 'Calendar event not found' });
+      }
+      return res.status(500).json({ success: false, error: 'Failed to retrieve calendar event' });
+    }
+
+    res.json({ success: true, data });
+
+  } catch (error) {
+    console.error('Get calendar event error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+app.post('/api/calendar-events', requireScope('calendar'), async (req, res) => {
+  try {
+    const user = (req as any).user;
+
+    // Parse body if it's a Buffer
+    let body = req.body;
+    if (Buffer.isBuffer(req.body)) {
+      body = JSON.parse(req.body.toString());
+    }
+
+    // Same defaults as the calendar's new event form
+    const {
+      projectId,
+      title,
+      description = '',
+      date,
+      startTime = '09:00',
+      endTime = '10:00',
+      type = 'meeting',
+      attendees = []
+    } = body;
+
+    if (!projectId || !title || !date) {
+      return res.status(400).json({ success: false, error: 'Missing required fields: projectId, title, date' });
+    }
+
+    const validationError = checkAllowed('type', [type], EVENT_TYPES)
+      || (!isDateOnly(date) ? 'Invalid date. Use YYYY-MM-DD' : null)
+      || (!isTimeOfDay(startTime) || !isTimeOfDay(endTime) ? 'Invalid time. Use HH:MM' : null)
+      || (endTime < startTime ? 'endTime must not be before startTime' : null);
+    if (validationError) {
+      return res.status(400).json({ success: false, error: validationError });
+    }
+
+    if (!(await isOwnedProject(projectId, user.id))) {
+      return res.status(404).json({ success: false, error: 'Project not found' });
+    }
+
+    const { data, error } = await supabase
+      .from('calendar_events')
+      .insert([{
+        project_id: projectId,
+        user_id: user.id,
+        title,
+        description,
+        event_date: date,
+        start_time: startTime,
+        end_time: endTime,
+        event_type: type,
+        attendees: Array.isArray(attendees) ? attendees : []
+      }])
+      .select(EVENT_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Database error:', error);
+      return res.status(500).json({ success: false, error: 'Failed to create calendar event' });
+    }
+
+    res.json({ success: true, data, message: 'Calendar event created successfully' });
+
+  } catch (error) {
+    console.error('Create calendar event error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+app.put('/api/calendar-events/:id', requireScope('calendar'), async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const { id } = req.params;
+
+    // Parse body if it's a Buffer
+    let body = req.body;
+    if (Buffer.isBuffer(req.body)) {
+      body = JSON.parse(req.body.toString());
+    }
+
+    const { title, description, date, startTime, endTime, type, attendees } = body;
+
+    const validationError = checkAllowed('type', [type], EVENT_TYPES)
+      || (date !== undefined && !isDateOnly(date) ? 'Invalid date. Use YYYY-MM-DD' : null)
+      || ((startTime !== undefined && !isTimeOfDay(startTime)) || (endTime !== undefined && !isTimeOfDay(endTime))
+        ? 'Invalid time. Use HH:MM'
+        : null);
+    if (validationError) {
+      return res.status(400).json({ success: false, error: validationError });
+    }
+
+    // Build update object with only provided fields
+    const updateData: Record<string, unknown> = {
+      updated_at: new Date().toISOString()
+    };
+
+    if (title !== undefined) updateData.title = title;
+    if (description !== undefined) updateData.description = description;
+    if (date !== undefined) updateData.event_date = date;
+    if (startTime !== undefined) updateData.start_time = startTime;
+    if (endTime !== undefined) updateData.end_time = endTime;
+    if (type !== undefined) updateData.event_type = type;
+    if (attendees !== undefined) updateData.attendees = Array.isArray(attendees) ? attendees : [];
+
+    const { data, error } = await supabase
+      .from('calendar_events')
+      .update(updateData)
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .select(EVENT_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Database error:', error);
+      if (error.code === 'PGRST116') {
+        return res.status(404).json({ success: false, error: 'Calendar event not found or not owned by user' });
+      }
+      return res.status(500).json({ success: false, error: 'Failed to update calendar event' });
+    }
+
+    res.json({ success: true, data, message: 'Calendar event updated successfully' });
+
+  } catch (error) {
+    console.error('Update calendar event error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+app.delete('/api/calendar-events/:id', requireScope('calendar'), async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const { id } = req.params;
+
+    const { data, error } = await supabase
+      .from('calendar_events')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .select('id');
+
+    if (error) {
+      console.error('Database error:', error);
+      return res.status(500).json({ success: false, error: 'Failed to delete calendar event' });
+    }
+
+    if (!data || data.length === 0) {
+      return res.status(404).json({ success: false, error: 'Calendar event not found or not owned by user' });
+    }
+
+    res.json({ success: true, message: 'Calendar event deleted successfully' });
+
+  } catch (error) {
+    console.error('Delete calendar event error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+const TRACKER_COLUMNS = `
+  id, project_id, title, description, tracker_type, start_date, end_date,
+  status, priority, linked_items, created_at, updated_at
+`;
+
+// Keeps only the id lists the timeline understands
+const toLinkedItems = (value: unknown) => {
+  const items = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const ids = (key: string) => (Array.isArray(items[key]) ? (items[key] as unknown[]).map(String) : undefined);
+  const linked: Record<string, string[]> = {};
+  (['taskIds', 'featureIds', 'bugIds'] as const).forEach(key => {
+    const list = ids(key);
+    if (list) linked[key] = list;
+  });
+  return linked;
+};
+
+app.get('/api/trackers', requireScope('calendar'), async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const { projectId, status, type, priority, featureId, bugId, from, to, limit, offset } = req.query;
+
+    const statuses = toQueryList(status);
+    const types = toQueryList(type);
+    const priorities = toQueryList(priority);
+    const validationError = checkAllowed('status', statuses, TRACKER_STATUSES)
+      || checkAllowed('type', types, TRACKER_TYPES)
+      || checkAllowed('priority', priorities, TRACKER_PRIORITIES)
+      || (from && !isDateOnly(from) ? 'Invalid from date. Use YYYY-MM-DD' : null)
+      || (to && !isDateOnly(to) ? 'Invalid to date. Use YYYY-MM-DD' : null);
+    if (validationError) {
+      return res.status(400).json({ success: false, error: validationError });
+    }
+
+    let queryBuilder = supabase
+      .from('project_trackers')
+      .select(TRACKER_COLUMNS)
+      .eq('user_id', user.id)
+      .order('start_date', { ascending: true });
+
+    if (projectId) {
+      queryBuilder = queryBuilder.eq('project_id', String(projectId));
+    }
+
+    if (statuses.length > 0) {
+      queryBuilder = queryBuilder.in('status', statuses);
+    }
+
+    if (types.length > 0) {
+      queryBuilder = queryBuilder.in('tracker_type', types);
+    }
+
+    if (priorities.length > 0) {
+      queryBuilder = queryBuilder.in('priority', priorities);
+    }
+
+    if (featureId) {
+      queryBuilder = queryBuilder.contains('linked_items', { featureIds: [String(featureId)] });
+    }
+
+    if (bugId) {
+      queryBuilder = queryBuilder.contains('linked_items', { bugIds: [String(bugId)] });
+    }
+
+    // Trackers overlapping the range
+    if (from) {
+      queryBuilder = queryBuilder.gte('end_date', String(from));
+    }
+
+    if (to) {
+      queryBuilder = queryBuilder.lte('start_date', String(to));
+    }
+
+    const [start, end] = toPageRange(limit, offset);
+    const { data, error } = await queryBuilder.range(start, end);
+
+    if (error) {
+      console.error('Database error:', error);
+      return res.status(500).json({ success: false, error: 'Failed to retrieve trackers' });
+    }
+
+    res.json({
+      success: true,
+      data: data || [],
+      count: data?.length || 0
+    });
+
+  } catch (error) {
+    console.error('Get trackers error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+app.get('/api/trackers/:id', requireScope('calendar'), async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const { id } = req.params;
+
+    const { data, error } = await supabase
+      .from('project_trackers')
+      .select(TRACKER_COLUMNS)
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (error) {
+      console.error('Database error:', error);
+      if (error.code === 'PGRST116') {
+        return res.status(404).json({ success: false, error: 'Tracker not found' });
+      }
+      return res.status(500).json({ success: false, error: 'Failed to retrieve tracker' });
+    }
+
+    res.json({ success: true, data });
+
+  } catch (error) {
+    console.error('Get tracker error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+app.post('/api/trackers', requireScope('calendar'), async (req, res) => {
+  try {
+    const user = (req as any).user;
+
+    // Parse body if it's a Buffer
+    let body = req.body;
+    if (Buffer.isBuffer(req.body)) {
+      body = JSON.parse(req.body.toString());
+    }
+
+    const {
+      projectId,
+      title,
+      description = '',
+      type = 'project',
+      startDate,
+      endDate,
+      status = 'not_started',
+      priority = 'medium',
+      linkedItems
+    } = body;
+
+    if (!projectId || !title || !startDate || !endDate) {
+      return res.status(400).json({
+        success: false,
+        error: 'Missing required fields: projectId, title, startDate, endDate'
+      });
+    }
+
+    const validationError = checkAllowed('type', [type], TRACKER_TYPES)
+      || checkAllowed('status', [status], TRACKER_STATUSES)
+      || checkAllowed('priority', [priority], TRACKER_PRIORITIES)
+      || (!isDateOnly(startDate) || !isDateOnly(endDate) ? 'Invalid date. Use YYYY-MM-DD' : null)
+      || (endDate < startDate ? 'endDate must not be before startDate' : null);
+    if (validationError) {
+      return res.status(400).json({ success: false, error: validationError });
+    }
+
+    if (!(await isOwnedProject(projectId, user.id))) {
+      return res.status(404).json({ success: false, error: 'Project not found' });
+    }
+
+    const { data, error } = await supabase
+      .from('project_trackers')
+      .insert([{
+        project_id: projectId,
+        user_id: user.id,
+        title,
+        description,
+        tracker_type: type,
+        start_date: startDate,
+        end_date: endDate,
+        status,
+        priority,
+        linked_items: toLinkedItems(linkedItems)
+      }])
+      .select(TRACKER_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Database error:', error);
+      return res.status(500).json({ success: false, error: 'Failed to create tracker' });
+    }
+
+    res.json({ success: true, data, message: 'Tracker created successfully' });
+
+  } catch (error) {
+    console.error('Create tracker error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+app.put('/api/trackers/:id', requireScope('calendar'), async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const { id } = req.params;
+
+    // Parse body if it's a Buffer
+    let body = req.body;
+    if (Buffer.isBuffer(req.body)) {
+      body = JSON.parse(req.body.toString());
+    }
+
+    const { title, description, type, startDate, endDate, status, priority, linkedItems } = body;
+
+    const validationError = checkAllowed('type', [type], TRACKER_TYPES)
+      || checkAllowed('status', [status], TRACKER_STATUSES)
+      || checkAllowed('priority', [priority], TRACKER_PRIORITIES)
+      || ((startDate !== undefined && !isDateOnly(startDate)) || (endDate !== undefined && !isDateOnly(endDate))
+        ? 'Invalid date. Use YYYY-MM-DD'
+        : null);
+    if (validationError) {
+      return res.status(400).json({ success: false, error: validationError });
+    }
+
+    // Build update object with only provided fields
+    const updateData: Record<string, unknown> = {
+      updated_at: new Date().toISOString()
+    };
+
+    if (title !== undefined) updateData.title = title;
+    if (description !== undefined) updateData.description = description;
+    if (type !== undefined) updateData.tracker_type = type;
+    if (startDate !== undefined) updateData.start_date = startDate;
+    if (endDate !== undefined) updateData.end_date = endDate;
+    if (status !== undefined) updateData.status = status;
+    if (priority !== undefined) updateData.priority = priority;
+    if (linkedItems !== undefined) updateData.linked_items = toLinkedItems(linkedItems);
+
+    const { data, error } = await supabase
+      .from('project_trackers')
+      .update(updateData)
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .select(TRACKER_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Database error:', error);
+      if (error.code === 'PGRST116') {
+        return res.status(404).json({ success: false, error: 'Tracker not found or not owned by user' });
+      }
+      // 23514: the end_date >= start_date check failed against the stored dates
+      if (error.code === '23514') {
+        return res.status(400).json({ success: false, error: 'endDate must not be before startDate' });
+      }
+      return res.status(500).json({ success: false, error: 'Failed to update tracker' });
+    }
+
+    res.json({ success: true, data, message: 'Tracker updated successfully' });
+
+  } catch (error) {
+    console.error('Update tracker error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+app.delete('/api/trackers/:id', requireScope('calendar'), async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const { id } = req.params;
+
+    const { data, error } = await supabase
+      .from('project_trackers')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .select('id');
+
+    if (error) {
+      console.error('Database error:', error);
+      return res.status(500).json({ success: false, error: 'Failed to delete tracker' });
+    }
+
+    if (!data || data.length === 0) {
+      return res.status(404).json({ success: false, error: 'Tracker not found or not owned by user' });
+    }
+
+    res.json({ success: true, message: 'Tracker deleted successfully' });
+
+  } catch (error) {
+    console.error('Delete tracker error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// UNIFIED SEARCH ENDPOINT
+// Maps each searchable type to the API key scope that grants read access to it
+const searchTypeScopes: Record<SearchEntityType, ApiKeyScope> = {
+  conversation: 'conversations',
+  bug: 'bugs',
+  feature: 'features',
+  feature_file: 'features',
+  document: 'documents',
+  task: 'tasks'
+};
+
+// Strip characters that would break PostgREST filter strings
+const sanitizeFilterTerm = (term: string) => term.replace(/[,()%*\\]/g, ' ').trim();
+
+app.get('/api/search', async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const { 
+      q, 
+      types, 
+      projectId, 
+      limit = 20 
+    } = req.query;
+
+    if (!q || typeof q !== 'string' || !q.trim()) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Missing required query parameter: q' 
+      });
+    }
+
+    // Requested types (comma-separated or repeated), defaulting to every type
+    const requestedTypes = types
+      ? (Array.isArray(types) ? types : String(types).split(',')).map(t => String(t).trim())
+      : [...SEARCH_ENTITY_TYPES];
+
+    const invalidTypes = requestedTypes.filter(t => !isSearchEntityType(t));
+    if (invalidTypes.length > 0) {
+      return res.status(400).json({ 
+        success: false, 
+        error: `Invalid types: ${invalidTypes.join(', ')}. Must be one of: ${SEARCH_ENTITY_TYPES.join(', ')}` 
+      });
+    }
+
+    // API keys only search the types their scopes allow
+    const readableTypes = SEARCH_ENTITY_TYPES.filter(type => 
+      (req as any).authMethod !== 'api_key' ||
+      checkApiKeyAccess((req as any).apiKey, searchTypeScopes[type], 'read').allowed
+    );
+
+    if (readableTypes.length === 0) {
+      return res.status(403).json({ 
+        success: false, 
+        error: 'API key has no scopes that allow searching' 
+      });
+    }
+
+    // Resolve the projects this user owns
+    const { data: projectsData, error: projectsError } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('user_id', user.id);
+
+    if (projectsError) {
+      console.error('Database error:', projectsError);
+      return res.status(500).json({ success: false, error: 'Failed to search' });
+    }
+
+    let projectIds = (projectsData || []).map(p => p.id);
+
+    if (projectId) {
+      if (!projectIds.includes(String(projectId))) {
+        return res.status(404).json({ success: false, error: 'Project not found' });
+      }
+      projectIds = [String(projectId)];
+    }
+
+    // Pre-filter candidates in the database, then rank in memory. searchItems only keeps items
+    // matching every term, so the database requires every term too and the candidate limit
+    // only drops the oldest matches
+    const filterTerms = tokenizeQuery(q).map(sanitizeFilterTerm).filter(Boolean);
+    const candidateLimit = 200;
+
+    const matchEveryTerm = <Q extends { or: (filters: string) => Q }>(queryBuilder: Q, columns: string[]) =>
+      filterTerms.reduce(
+        (filtered, term) => filtered.or(buildTermFilter(term, columns)),
+        queryBuilder
+      );
+
+    // Conversations, bugs, features and documents belong to the user directly;
+    // tasks and feature files are only reachable through the user's projects
+    const ownedQuery = (table: string, columns: string[]) => {
+      let queryBuilder = matchEveryTerm(
+        supabase
+          .from(table)
+          .select('*')
+          .eq('user_id', user.id),
+        columns
+      );
+
+      if (projectId) {
+        queryBuilder = queryBuilder.eq('project_id', String(projectId));
+      }
+
+      return queryBuilder
+        .order('updated_at', { ascending: false })
+        .limit(candidateLimit);
+    };
+
+    const fetchers: Record<SearchEntityType, () => Promise<SearchableItem[]>> = {
+      conversation: async () => {
+        const { data, error } = await ownedQuery('conversations', SEARCH_FILTER_COLUMNS.conversation);
+        if (error) throw error;
+        return (data || []).map(c => ({
+          type: 'conversation' as const,
+          id: c.id,
+          projectId: c.project_id,
+          title: c.title,
+          fields: [
+            { text: c.implementation_summary, weight: 4 },
+            { text: (c.tags || []).join(' '), weight: 3 },
+            { text: (c.files_changed || []).join(' '), weight: 2 }
+          ],
+          updatedAt: c.updated_at
+        }));
+      },
+      bug: async () => {
+        const { data, error } = await ownedQuery('bugs', SEARCH_FILTER_COLUMNS.bug);
+        if (error) throw error;
+        return (data || []).map(b => ({
+          type: 'bug' as const,
+          id: b.id,
+          projectId: b.project_id,
+          title: b.title,
+          fields: [
+            { text: b.description, weight: 4 },
+            { text: b.solution, weight: 3 },
+            { text: b.content, weight: 2 }
+          ],
+          updatedAt: b.updated_at
+        }));
+      },
+      feature: async () => {
+        const { data, error } = await ownedQuery('features', SEARCH_FILTER_COLUMNS.feature);
+        if (error) throw error;
+        return (data || []).map(f => ({
+          type: 'feature' as const,
+          id: f.id,
+          projectId: f.project_id,
+          title: f.title,
+          fields: [
+            { text: f.description, weight: 4 },
+            { text: f.implementation || f.content, weight: 2 }
+          ],
+          updatedAt: f.updated_at
+        }));
+      },
+      feature_file: async () => {
+        if (projectIds.length === 0) return [];
+        const { data, error } = await matchEveryTerm(
+          supabase
+            .from('feature_data')
+            .select('id, feature_id, name, content, project_id, updated_at')
+            .eq('data_type', 'info_file')
+            .in('project_id', projectIds),
+          SEARCH_FILTER_COLUMNS.feature_file
+        )
+          .order('updated_at', { ascending: false })
+          .limit(candidateLimit);
+        if (error) throw error;
+        return (data || []).map(f => ({
+          type: 'feature_file' as const,
+          id: f.id,
+          projectId: f.project_id,
+          title: f.name,
+          fields: [{ text: f.content, weight: 2 }],
+          parentId: f.feature_id,
+          updatedAt: f.updated_at
+        }));
+      },
+      document: async () => {
+        const { data, error } = await ownedQuery('documents', SEARCH_FILTER_COLUMNS.document);
+        if (error) throw error;
+        return (data || []).map(d => ({
+          type: 'document' as const,
+          id: d.id,
+          projectId: d.project_id,
+          title: d.title,
+          fields: [{ text: d.content, weight: 2 }],
+          updatedAt: d.updated_at
+        }));
+      },
+      task: async () => {
+        if (projectIds.length === 0) return [];
+        const { data, error } = await matchEveryTerm(
+          supabase
+            .from('tasks')
+            .select('id, title, description, project_id, updated_at')
+            .in('project_id', projectIds),
+          SEARCH_FILTER_COLUMNS.task
+        )
+          .order('updated_at', { ascending: false })
+          .limit(candidateLimit);
+        if (error) throw error;
+        return (data || []).map(t => ({
+          type: 'task' as const,
+          id: t.id,
+          projectId: t.project_id,
+          title: t.title,
+          fields: [{ text: t.description, weight: 3 }],
+          updatedAt: t.updated_at
+        }));
+      }
+    };
+
+    const candidates = (await Promise.all(readableTypes.map(type => fetchers[type]()))).flat();
+
+    const { results, facets, total } = searchItems(candidates, q, {
+      types: requestedTypes.filter((t): t is SearchEntityType => readableTypes.includes(t as SearchEntityType)),
+      limit: Math.min(Number(limit) || 20, 50)
+    });
+
+    res.json({ 
+      success: true, 
+      data: results,
+      facets,
+      count: results.length,
+      total
+    });
+
+  } catch (error) {
+    console.error('Unified search error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// SEMANTIC SIMILARITY ENDPOINTS
+// Provider is chosen by EMBEDDING_PROVIDER; the local hashing embedder needs no API key
+const embeddingProvider = getEmbeddingProvider({
+  provider: process.env.EMBEDDING_PROVIDER,
+  apiKey: process.env.EMBEDDING_API_KEY,
+  model: process.env.EMBEDDING_MODEL,
+  baseUrl: process.env.EMBEDDING_BASE_URL
+});
+
+const embeddingTables: Record<EmbeddingEntityType, string> = {
+  conversation: 'conversations',
+  bug: 'bugs',
+  feature: 'features'
+};
+
+const embeddingTypeScopes: Record<EmbeddingEntityType, ApiKeyScope> = {
+  conversation: 'conversations',
+  bug: 'bugs',
+  feature: 'features'
+};
+
+type EmbeddableRow = Record<string, unknown> & { id: string; project_id?: string | null };
+
+const EMBEDDING_BATCH_SIZE = 100;
+const EMBEDDING_SYNC_LIMIT = 200;
+
+// Embeds rows that have no embedding yet or whose text changed since the last run
+const syncEmbeddings = async (type: EmbeddingEntityType, rows: EmbeddableRow[], userId: string) => {
+  let embedded = 0;
+
+  for (let start = 0; start < rows.length; start += EMBEDDING_BATCH_SIZE) {
+    const batch = rows.slice(start, start + EMBEDDING_BATCH_SIZE);
+
+    const { data: existing, error } = await supabase
+      .from('embeddings')
+      .select('entity_id, content_hash')
+      .eq('entity_type', type)
+      .eq('provider', embeddingProvider.id)
+      .in('entity_id', batch.map(row => row.id));
+
+    if (error) throw error;
+
+    const existingHashes = new Map((existing || []).map(e => [e.entity_id, e.content_hash]));
+    const pending = batch
+      .map(row => {
+        const text = buildEmbeddingText(type, row);
+        return { row, text, hash: hashContent(text) };
+      })
+      .filter(item => item.text && existingHashes.get(item.row.id) !== item.hash);
+
+    if (pending.length === 0) continue;
+
+    const vectors = await embeddingProvider.embed(pending.map(item => item.text));
+
+    const { error: upsertError } = await supabase
+      .from('embeddings')
+      .upsert(pending.map((item, index) => ({
+        user_id: userId,
+        entity_type: type,
+        entity_id: item.row.id,
+        project_id: item.row.project_id || null,
+        provider: embeddingProvider.id,
+        dimensions: vectors[index].length,
+        embedding: JSON.stringify(vectors[index]),
+        content_hash: item.hash,
+        updated_at: new Date().toISOString()
+      })), { onConflict: 'entity_type,entity_id,provider' });
+
+    if (upsertError) throw upsertError;
+    embedded += pending.length;
+  }
+
+  return embedded;
+};
+
+// Saves never fail because embedding failed; POST /api/similar/sync catches up later
+const embedRecord = async (type: EmbeddingEntityType, row: EmbeddableRow, userId: string) => {
+  try {
+    await syncEmbeddings(type, [row], userId);
+  } catch (error) {
+    console.error(`Failed to embed ${type} ${row.id}:`, error);
+  }
+};
+
+const parseEmbeddingTypes = (types: unknown, defaults: readonly string[]) =>
+  types
+    ? (Array.isArray(types) ? types : String(types).split(',')).map(t => String(t).trim())
+    : [...defaults];
+
+// API keys only see the types their scopes allow
+const readableEmbeddingTypes = (req: express.Request) => EMBEDDING_ENTITY_TYPES.filter(type =>
+  (req as any).authMethod !== 'api_key' ||
+  checkApiKeyAccess((req as any).apiKey, embeddingTypeScopes[type], 'read').allowed
+);
+
+const invalidEmbeddingTypesError = (invalidTypes: string[]) =>
+  `Invalid types: ${invalidTypes.join(', ')}. Must be one of: ${EMBEDDING_ENTITY_TYPES.join(', ')}`;
+
+const missingEmbeddingScopeError = (requestedTypes: string[]) =>
+  `API key is missing required scope: ${requestedTypes.map(t => embeddingTypeScopes[t as EmbeddingEntityType]).join(', ')}`;
+
+// Embeds recently updated items that were created or changed outside the API, e.g. in the app
+app.post('/api/similar/sync', async (req, res) => {
+  try {
+    const user = (req as any).user;
+
+    // Parse body if it's a Buffer
+    let body = req.body;
+    if (Buffer.isBuffer(req.body)) {
+      body = JSON.parse(req.body.toString());
+    }
+
+    const requestedTypes = parseEmbeddingTypes(body?.types, EMBEDDING_ENTITY_TYPES);
+    const invalidTypes = requestedTypes.filter(t => !isEmbeddingEntityType(t));
+    if (invalidTypes.length > 0) {
+      return res.status(400).json({ success: false, error: invalidEmbeddingTypesError(invalidTypes) });
+    }
+
+    const targetTypes = readableEmbeddingTypes(req).filter(type => requestedTypes.includes(type));
+    if (targetTypes.length === 0) {
+      return res.status(403).json({ success: false, error: missingEmbeddingScopeError(requestedTypes) });
+    }
+
+    const embedded: Partial<Record<EmbeddingEntityType, number>> = {};
+    for (const type of targetTypes) {
+      const { data, error } = await supabase
+        .from(embeddingTables[type])
+        .select('*')
+        .eq('user_id', user.id)
+        .order('updated_at', { ascending: false })
+        .limit(EMBEDDING_SYNC_LIMIT);
+
+      if (error) throw error;
+      embedded[type] = await syncEmbeddings(type, data || [], user.id);
+    }
+
+    res.json({
+      success: true,
+      data: { embedded },
+      provider: embeddingProvider.id
+    });
+
+  } catch (error) {
+    console.error('Embedding sync error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+app.get('/api/similar', async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const { 
+      to, 
+      types, 
+      projectId, 
+      limit = 5,
+      minSimilarity = 0.2
+    } = req.query;
+
+    if (!to || typeof to !== 'string') {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Missing required query parameter: to' 
+      });
+    }
+
+    // Nearest bugs and conversations by default
+    const requestedTypes = parseEmbeddingTypes(types, ['bug', 'conversation']);
+
+    const invalidTypes = requestedTypes.filter(t => !isEmbeddingEntityType(t));
+    if (invalidTypes.length > 0) {
+      return res.status(400).json({ 
+        success: false, 
+        error: invalidEmbeddingTypesError(invalidTypes) 
+      });
+    }
+
+    const readableTypes = readableEmbeddingTypes(req);
+    const targetTypes = readableTypes.filter(type => requestedTypes.includes(type));
+
+    if (targetTypes.length === 0) {
+      return res.status(403).json({ 
+        success: false, 
+        error: missingEmbeddingScopeError(requestedTypes) 
+      });
+    }
+
+    // Find the source item among the readable types
+    let source: { type: EmbeddingEntityType; row: EmbeddableRow } | null = null;
+    for (const type of readableTypes) {
+      const { data, error } = await supabase
+        .from(embeddingTables[type])
+        .select('*')
+        .eq('id', to)
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error && error.code !== '22P02') {
+        console.error('Database error:', error);
+        return res.status(500).json({ success: false, error: 'Failed to find similar items' });
+      }
+
+      if (data) {
+        source = { type, row: data };
+        break;
+      }
+    }
+
+    if (!source) {
+      return res.status(404).json({ 
+        success: false, 
+        error: 'Item not found' 
+      });
+    }
+
+    const sourceText = buildEmbeddingText(source.type, source.row);
+    const [sourceVector] = await embeddingProvider.embed([sourceText]);
+
+    const { data: matches, error: matchError } = await supabase.rpc('match_embeddings', {
+      query_embedding: JSON.stringify(sourceVector),
+      p_provider: embeddingProvider.id,
+      p_user_id: user.id,
+      p_entity_types: targetTypes,
+      p_exclude_id: to,
+      p_project_id: projectId || null,
+      // Only items that existed before the source, e.g. the bug fixed last month
+      p_created_before: source.row.created_at || null,
+      match_count: Math.min(Number(limit) || 5, 20),
+      min_similarity: Number(minSimilarity) || 0
+    });
+
+    if (matchError) {
+      console.error('Database error:', matchError);
+      return res.status(500).json({ success: false, error: 'Failed to find similar items' });
+    }
+
+    // Load display fields for the matches, keeping similarity order
+    const matchRows = (matches || []) as { entity_type: EmbeddingEntityType; entity_id: string; similarity: number }[];
+    const details = new Map<string, Record<string, unknown>>();
+
+    for (const type of targetTypes) {
+      const ids = matchRows.filter(m => m.entity_type === type).map(m => m.entity_id);
+      if (ids.length === 0) continue;
+
+      const columns = type === 'bug'
+        ? 'id, title, status, severity, solution, project_id, created_at, updated_at'
+        : type === 'conversation'
+          ? 'id, title, implementation_summary, project_id, created_at, updated_at'
+          : 'id, title, status, description, project_id, created_at, updated_at';
+
+      const { data, error } = await supabase
+        .from(embeddingTables[type])
+        .select(columns)
+        .in('id', ids);
+
+      if (error) throw error;
+      ((data || []) as unknown as Record<string, unknown>[]).forEach(row => details.set(String(row.id), row));
+    }
+
+    const results = matchRows
+      .filter(match => details.has(match.entity_id))
+      .map(match => ({
+        type: match.entity_type,
+        similarity: Number(match.similarity.toFixed(4)),
+        ...details.get(match.entity_id)
+      }));
+
+    res.json({ 
+      success: true, 
+      data: results,
+      count: results.length,
+      source: { type: source.type, id: source.row.id, title: source.row.title },
+      provider: embeddingProvider.id
+    });
+
+  } catch (error) {
+    console.error('Similar items error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// CONTEXT PACK ENDPOINT
+const contextPackTypeScopes: Record<ContextPackFocusType, ApiKeyScope> = {
+  bug: 'bugs',
+  feature: 'features',
+  conversation: 'conversations'
+};
+
+// Enough recent items to find related ones without loading the whole project
+const CONTEXT_PACK_ROW_LIMIT = 300;
+
+app.get('/api/context-pack', async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const { 
+      type, 
+      id, 
+      format = 'markdown', 
+      tokenBudget 
+    } = req.query;
+
+    if (!isContextPackFocusType(type)) {
+      return res.status(400).json({ 
+        success: false, 
+        error: `Invalid type. Must be one of: ${CONTEXT_PACK_FOCUS_TYPES.join(', ')}` 
+      });
+    }
+
+    if (!id || typeof id !== 'string') {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Missing required query parameter: id' 
+      });
+    }
+
+    if (!isContextPackFormat(format)) {
+      return res.status(400).json({ 
+        success: false, 
+        error: `Invalid format. Must be one of: ${CONTEXT_PACK_FORMATS.join(', ')}` 
+      });
+    }
+
+    const budget = tokenBudget === undefined ? DEFAULT_CONTEXT_PACK_TOKEN_BUDGET : Number(tokenBudget);
+    if (!Number.isInteger(budget) || budget < MIN_CONTEXT_PACK_TOKEN_BUDGET || budget > MAX_CONTEXT_PACK_TOKEN_BUDGET) {
+      return res.status(400).json({ 
+        success: false, 
+        error: `tokenBudget must be a whole number between ${MIN_CONTEXT_PACK_TOKEN_BUDGET} and ${MAX_CONTEXT_PACK_TOKEN_BUDGET}` 
+      });
+    }
+
+    // The focus item needs its own scope; related items only come from the scopes the key can read
+    const canRead = (scope: ApiKeyScope) =>
+      (req as any).authMethod !== 'api_key' || checkApiKeyAccess((req as any).apiKey, scope, 'read').allowed;
+
+    if (!canRead(contextPackTypeScopes[type])) {
+      return res.status(403).json({ 
+        success: false, 
+        error: `API key is missing required scope: ${contextPackTypeScopes[type]}` 
+      });
+    }
+
+    const { data: focusRow, error: focusError } = await supabase
+      .from(CONTEXT_PACK_TABLES[type])
+      .select(`${CONTEXT_PACK_COLUMNS[type]}, project_id`)
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (focusError && focusError.code !== '22P02') {
+      console.error('Database error:', focusError);
+      return res.status(500).json({ success: false, error: 'Failed to build context pack' });
+    }
+
+    if (!focusRow) {
+      return res.status(404).json({ 
+        success: false, 
+        error: `${type.charAt(0).toUpperCase()}${type.slice(1)} not found` 
+      });
+    }
+
+    const projectId = (focusRow as unknown as { project_id: string | null }).project_id;
+
+    // Recent items from the same project (or with no project, like the focus item)
+    const loadRows = async (rowType: ContextPackFocusType) => {
+      if (!canRead(contextPackTypeScopes[rowType])) return [];
+
+      let queryBuilder = supabase
+        .from(CONTEXT_PACK_TABLES[rowType])
+        .select(CONTEXT_PACK_COLUMNS[rowType])
+        .eq('user_id', user.id)
+        .order('updated_at', { ascending: false })
+        .limit(CONTEXT_PACK_ROW_LIMIT);
+
+      queryBuilder = projectId ? queryBuilder.eq('project_id', projectId) : queryBuilder.is('project_id', null);
+
+      const { data, error } = await queryBuilder;
+      if (error) throw error;
+
+      const rows = (data || []) as unknown as Array<{ id: string }>;
+      return rowType === type
+        ? [...rows.filter(row => row.id !== id), focusRow as unknown as { id: string }]
+        : rows;
+    };
+
+    const [bugs, features, conversations] = await Promise.all([
+      loadRows('bug'),
+      loadRows('feature'),
+      loadRows('conversation')
+    ]);
+
+    let project = null;
+    if (projectId && canRead('projects')) {
+      const { data, error } = await supabase
+        .from('projects')
+        .select('name, description, tech_stack')
+        .eq('id', projectId)
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      project = data;
+    }
+
+    let featureSummaries: ContextPackFeatureSummaryRow[] = [];
+    if (projectId && canRead('features')) {
+      const { data, error } = await supabase
+        .from('feature_data')
+        .select('feature_id, metadata')
+        .eq('project_id', projectId)
+        .eq('data_type', 'ai_summary');
+
+      if (error) throw error;
+      featureSummaries = data || [];
+    }
+
+    const pack = buildContextPack(
+      {
+        project,
+        focus: { type, id },
+        bugs: bugs as ContextPackInput['bugs'],
+        features: features as ContextPackInput['features'],
+        conversations: conversations as ContextPackInput['conversations'],
+        featureSummaries
+      },
+      { format, tokenBudget: budget }
+    );
+
+    res.json({ 
+      success: true, 
+      data: pack 
+    });
+
+  } catch (error) {
+    console.error('Context pack error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// ITEM LINK ENDPOINTS
+const linkTypeScopes: Record<LinkItemType, ApiKeyScope> = {
+  conversation: 'conversations',
+  bug: 'bugs',
+  feature: 'features',
+  document: 'documents'
+};
+
+const ITEM_LINK_COLUMNS = `
+  id, project_id, source_type, source_id, target_type, target_id,
+  relation, created_at
+`;
+
+// A link needs the scope of both items it connects
+const canAccessLink = (req: express.Request, sourceType: LinkItemType, targetType: LinkItemType, permission: 'read' | 'write') =>
+  (req as any).authMethod !== 'api_key' || [sourceType, targetType].every(type =>
+    checkApiKeyAccess((req as any).apiKey, linkTypeScopes[type], permission).allowed
+  );
+
+const findOwnedLinkItem = async (type: LinkItemType, id: string, userId: string) => {
+  const { data, error } = await supabase
+    .from(LINK_ITEM_TABLES[type])
+    .select('id, project_id')
+    .eq('id', id)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error && error.code !== '22P02') throw error;
+  return data as { id: string; project_id: string | null } | null;
+};
+
+app.get('/api/links', async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const { type, id, projectId } = req.query;
+
+    let queryBuilder = supabase
+      .from('item_links')
+      .select(ITEM_LINK_COLUMNS)
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: true });
+
+    if (type !== undefined || id !== undefined) {
+      if (!isLinkItemType(type)) {
+        return res.status(400).json({ 
+          success: false, 
+          error: `Invalid type. Must be one of: ${LINK_ITEM_TYPES.join(', ')}` 
+        });
+      }
+
+      if (!id || typeof id !== 'string') {
+        return res.status(400).json({ 
+          success: false, 
+          error: 'Missing required query parameter: id' 
+        });
+      }
+
+      if (!canAccessLink(req, type, type, 'read')) {
+        return res.status(403).json({ 
+          success: false, 
+          error: `API key is missing required scope: ${linkTypeScopes[type]}` 
+        });
+      }
+
+      queryBuilder = queryBuilder.or(
+        `and(source_type.eq.${type},source_id.eq.${id}),and(target_type.eq.${type},target_id.eq.${id})`
+      );
+    } else if (projectId && typeof projectId === 'string') {
+      queryBuilder = queryBuilder.eq('project_id', projectId);
+    } else {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Provide either type and id, or projectId' 
+      });
+    }
+
+    const { data, error } = await queryBuilder;
+
+    if (error && error.code !== '22P02') {
+      console.error('Database error:', error);
+      return res.status(500).json({ success: false, error: 'Failed to fetch links' });
+    }
+
+    // Only links whose items the key can read
+    const links = (data || []).filter(link =>
+      canAccessLink(req, link.source_type as LinkItemType, link.target_type as LinkItemType, 'read')
+    );
+
+    res.json({ 
+      success: true, 
+      data: links 
+    });
+
+  } catch (error) {
+    console.error('Get links error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+app.post('/api/links', async (req, res) => {
+  try {
+    // Parse body if it's a Buffer
+    let body = req.body;
+    if (Buffer.isBuffer(req.body)) {
+      body = JSON.parse(req.body.toString());
+    }
+
+    const { sourceType, sourceId, targetType, targetId, relation } = body;
+    const user = (req as any).user;
+
+    const validationError = validateItemLink({ sourceType, sourceId, targetType, targetId, relation });
+    if (validationError) {
+      return res.status(400).json({ success: false, error: validationError });
+    }
+
+    if (!canAccessLink(req, sourceType, targetType, 'write')) {
+      return res.status(403).json({ 
+        success: false, 
+        error: `API key needs write access to ${linkTypeScopes[sourceType as LinkItemType]} and ${linkTypeScopes[targetType as LinkItemType]}` 
+      });
+    }
+
+    const [source, target] = await Promise.all([
+      findOwnedLinkItem(sourceType, String(sourceId), user.id),
+      findOwnedLinkItem(targetType, String(targetId), user.id)
+    ]);
+
+    if (!source || !target) {
+      return res.status(404).json({ 
+        success: false, 
+        error: `${!source ? sourceType : targetType} not found or not owned by user` 
+      });
+    }
+
+    if (source.project_id && target.project_id && source.project_id !== target.project_id) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Linked items must belong to the same project' 
+      });
+    }
+
+    const { data, error } = await supabase
+      .from('item_links')
+      .insert([{
+        user_id: user.id,
+        project_id: source.project_id || target.project_id,
+        source_type: sourceType,
+        source_id: source.id,
+        target_type: targetType,
+        target_id: target.id,
+        relation
+      }])
+      .select(ITEM_LINK_COLUMNS)
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return res.status(409).json({ success: false, error: 'These items are already linked this way' });
+      }
+      console.error('Database error:', error);
+      return res.status(500).json({ success: false, error: 'Failed to create link' });
+    }
+
+    res.status(201).json({ success: true, data, message: 'Link created successfully' });
+
+  } catch (error) {
+    console.error('Create link error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+app.delete('/api/links/:id', async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const { id } = req.params;
+
+    const { data: link, error: findError } = await supabase
+      .from('item_links')
+      .select('id, source_type, target_type')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (findError && findError.code !== '22P02') {
+      console.error('Database error:', findError);
+      return res.status(500).json({ success: false, error: 'Failed to delete link' });
+    }
+
+    if (!link) {
+      return res.status(404).json({ success: false, error: 'Link not found or not owned by user' });
+    }
+
+    if (!canAccessLink(req, link.source_type as LinkItemType, link.target_type as LinkItemType, 'write')) {
+      return res.status(403).json({ 
+        success: false, 
+        error: `API key needs write access to ${linkTypeScopes[link.source_type as LinkItemType]} and ${linkTypeScopes[link.target_type as LinkItemType]}` 
+      });
+    }
+
+    const { error } = await supabase
+      .from('item_links')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Database error:', error);
+      return res.status(500).json({ success: false, error: 'Failed to delete link' });
+    }
+
+    res.json({ success: true, message: 'Link deleted successfully' });
+
+  } catch (error) {
+    console.error('Delete link error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// REVISION ENDPOINTS
+const revisionTypeScopes: Record<RevisionItemType, ApiKeyScope> = {
+  document: 'documents',
+  feature_file: 'features',
+  bug: 'bugs',
+  conversation: 'conversations'
+};
+
+const REVISION_COLUMNS = 'id, project_id, item_type, item_id, title, name, created_at';
+
+const canAccessRevisions = (req: express.Request, itemType: RevisionItemType, permission: 'read' | 'write') =>
+  (req as any).authMethod !== 'api_key' ||
+  checkApiKeyAccess((req as any).apiKey, revisionTypeScopes[itemType], permission).allowed;
+
+interface RevisionItemRow {
+  id: string;
+  project_id: string | null;
+  title?: string;
+  name?: string;
+  content?: string;
+  source?: string;
+  messages?: Array<{ content?: string }>;
+}
+
+// The item's current title and content. Feature files have no user_id, so their project is checked instead.
+const findOwnedRevisionItem = async (itemType: RevisionItemType, id: string, userId: string) => {
+  const columns = {
+    document: 'id, project_id, title, content',
+    feature_file: 'id, project_id, name, content',
+    bug: 'id, project_id, title, content',
+    conversation: 'id, project_id, title, source, messages'
+  }[itemType];
+
+  let queryBuilder = supabase
+    .from(REVISION_ITEM_TABLES[itemType])
+    .select(columns)
+    .eq('id', id);
+  if (itemType !== 'feature_file') {
+    queryBuilder = queryBuilder.eq('user_id', userId);
+  }
+
+  const { data, error } = await queryBuilder.maybeSingle();
+  if (error && error.code !== '22P02') throw error;
+  const item = data as unknown as RevisionItemRow | null;
+  if (!item) return null;
+
+  if (itemType === 'feature_file') {
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .select('id')
+      .eq('id', item.project_id)
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (projectError) throw projectError;
+    if (!project) return null;
+  }
+
+  // Only manual sessions have editable notes
+  if (itemType === 'conversation' && (item.source || 'manual') !== 'manual') return null;
+
+  return {
+    id: item.id,
+    project_id: item.project_id,
+    title: item.title ?? item.name ?? '',
+    content: (itemType === 'conversation' ? item.messages?.[0]?.content : item.content) ?? ''
+  };
+};
+
+const findOwnedRevision = async (id: string, userId: string) => {
+  const { data, error } = await supabase
+    .from('item_revisions')
+    .select(`${REVISION_COLUMNS}, content`)
+    .eq('id', id)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error && error.code !== '22P02') throw error;
+  return data;
+};
+
+app.get('/api/revisions', async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const { itemType, itemId, named } = req.query;
+
+    if (!isRevisionItemType(itemType)) {
+      return res.status(400).json({ 
+        success: false, 
+        error: `Invalid itemType. Must be one of: ${REVISION_ITEM_TYPES.join(', ')}` 
+      });
+    }
+
+    if (!itemId || typeof itemId !== 'string') {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Missing required query parameter: itemId' 
+      });
+    }
+
+    if (!canAccessRevisions(req, itemType, 'read')) {
+      return res.status(403).json({ 
+        success: false, 
+        error: `API key is missing required scope: ${revisionTypeScopes[itemType]}` 
+      });
+    }
+
+    let queryBuilder = supabase
+      .from('item_revisions')
+      .select(REVISION_COLUMNS)
+      .eq('user_id', user.id)
+      .eq('item_type', itemType)
+      .eq('item_id', itemId)
+      .order('created_at', { ascending: false });
+
+    if (named === 'true') {
+      queryBuilder = queryBuilder.not('name', 'is', null);
+    }
+
+    const { data, error } = await queryBuilder;
+
+    if (error && error.code !== '22P02') {
+      console.error('Database error:', error);
+      return res.status(500).json({ success: false, error: 'Failed to fetch revisions' });
+    }
+
+    res.json({ 
+      success: true, 
+      data: data || [] 
+    });
+
+  } catch (error) {
+    console.error('Get revisions error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+app.get('/api/revisions/:id', async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const { compare } = req.query;
+
+    if (compare !== undefined && compare !== 'current' && compare !== 'previous') {
+      return res.status(400).json({ success: false, error: 'Invalid compare. Must be one of: current, previous' });
+    }
+
+    const revision = await findOwnedRevision(req.params.id, user.id);
+    if (!revision) {
+      return res.status(404).json({ success: false, error: 'Revision not found or not owned by user' });
+    }
+
+    const itemType = revision.item_type as RevisionItemType;
+    if (!canAccessRevisions(req, itemType, 'read')) {
+      return res.status(403).json({ 
+        success: false, 
+        error: `API key is missing required scope: ${revisionTypeScopes[itemType]}` 
+      });
+    }
+
+    if (!compare) {
+      return res.json({ success: true, data: revision });
+    }
+
+    let baseContent = '';
+    let targetContent = revision.content;
+    if (compare === 'current') {
+      const item = await findOwnedRevisionItem(itemType, revision.item_id, user.id);
+      if (!item) {
+        return res.status(404).json({ success: false, error: `${itemType} not found or not owned by user` });
+      }
+      baseContent = revision.content;
+      targetContent = item.content;
+    } else {
+      const { data: previous, error } = await supabase
+        .from('item_revisions')
+        .select('content')
+        .eq('user_id', user.id)
+        .eq('item_type', itemType)
+        .eq('item_id', revision.item_id)
+        .lt('created_at', revision.created_at)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Database error:', error);
+        return res.status(500).json({ success: false, error: 'Failed to fetch revision' });
+      }
+      baseContent = previous?.content ?? '';
+    }
+
+    const diff = diffLines(baseContent, targetContent);
+    res.json({ 
+      success: true, 
+      data: { ...revision, diff, summary: summarizeDiff(diff) } 
+    });
+
+  } catch (error) {
+    console.error('Get revision error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+app.post('/api/revisions', async (req, res) => {
+  try {
+    // Parse body if it's a Buffer
+    let body = req.body;
+    if (Buffer.isBuffer(req.body)) {
+      body = JSON.parse(req.body.toString());
+    }
+
+    const { itemType, itemId, name } = body;
+    const user = (req as any).user;
+
+    if (!isRevisionItemType(itemType)) {
+      return res.status(400).json({ 
+        success: false, 
+        error: `Invalid itemType. Must be one of: ${REVISION_ITEM_TYPES.join(', ')}` 
+      });
+    }
+
+    const nameError = validateRevisionName(name);
+    if (!itemId || nameError) {
+      return res.status(400).json({ success: false, error: nameError || 'Missing required field: itemId' });
+    }
+
+    if (!canAccessRevisions(req, itemType, 'write')) {
+      return res.status(403).json({ 
+        success: false, 
+        error: `API key needs write access to ${revisionTypeScopes[itemType]}` 
+      });
+    }
+
+    const item = await findOwnedRevisionItem(itemType, String(itemId), user.id);
+    if (!item) {
+      return res.status(404).json({ success: false, error: `${itemType} not found or not owned by user` });
+    }
+
+    // Name the latest revision when it already holds the current content
+    const { data: latest, error: latestError } = await supabase
+      .from('item_revisions')
+      .select('id, content, name')
+      .eq('user_id', user.id)
+      .eq('item_type', itemType)
+      .eq('item_id', item.id)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (latestError) {
+      console.error('Database error:', latestError);
+      return res.status(500).json({ success: false, error: 'Failed to create snapshot' });
+    }
+
+    const { data, error } = latest && latest.content === item.content && !latest.name
+      ? await supabase
+        .from('item_revisions')
+        .update({ name: name.trim() })
+        .eq('id', latest.id)
+        .select(REVISION_COLUMNS)
+        .single()
+      : await supabase
+        .from('item_revisions')
+        .insert([{
+          user_id: user.id,
+          project_id: item.project_id,
+          item_type: itemType,
+          item_id: item.id,
+          title: item.title,
+          content: item.content,
+          name: name.trim()
+        }])
+        .select(REVISION_COLUMNS)
+        .single();
+
+    if (error) {
+      console.error('Database error:', error);
+      return res.status(500).json({ success: false, error: 'Failed to create snapshot' });
+    }
+
+    res.status(201).json({ success: true, data, message: 'Snapshot created successfully' });
+
+  } catch (error) {
+    console.error('Create snapshot error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+app.patch('/api/revisions/:id', async (req, res) => {
+  try {
+    // Parse body if it's a Buffer
+    let body = req.body;
+    if (Buffer.isBuffer(req.body)) {
+      body = JSON.parse(req.body.toString());
+    }
+
+    const { name } = body;
+    const user = (req as any).user;
+
+    if (name !== null) {
+      const nameError = validateRevisionName(name);
+      if (nameError) {
+        return res.status(400).json({ success: false, error: `${nameError} (use null to clear it)` });
+      }
+    }
+
+    const revision = await findOwnedRevision(req.params.id, user.id);
+    if (!revision) {
+      return res.status(404).json({ success: false, error: 'Revision not found or not owned by user' });
+    }
+
+    if (!canAccessRevisions(req, revision.item_type as RevisionItemType, 'write')) {
+      return res.status(403).json({ 
+        success: false, 
+        error: `API key needs write access to ${revisionTypeScopes[revision.item_type as RevisionItemType]}` 
+      });
+    }
+
+    const { data, error } = await supabase
+      .from('item_revisions')
+      .update({ name: name === null ? null : name.trim() })
+      .eq('id', revision.id)
+      .eq('user_id', user.id)
+      .select(REVISION_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Database error:', error);
+      return res.status(500).json({ success: false, error: 'Failed to update revision' });
+    }
+
+    res.json({ success: true, data, message: 'Revision updated successfully' });
+
+  } catch (error) {
+    console.error('Update revision error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+app.post('/api/revisions/:id/restore', async (req, res) => {
+  try {
+    const user = (req as any).user;
+
+    const revision = await findOwnedRevision(req.params.id, user.id);
+    if (!revision) {
+      return res.status(404).json({ success: false, error: 'Revision not found or not owned by user' });
+    }
+
+    const itemType = revision.item_type as RevisionItemType;
+    if (!canAccessRevisions(req, itemType, 'write')) {
+      return res.status(403).json({ 
+        success: false, 
+        error: `API key needs write access to ${revisionTypeScopes[itemType]}` 
+      });
+    }
+
+    const item = await findOwnedRevisionItem(itemType, revision.item_id, user.id);
+    if (!item) {
+      return res.status(404).json({ success: false, error: `${itemType} not found or not owned by user` });
+    }
+
+    // Saving the old content records a new revision, so the restore can itself be undone
+    const { error } = await supabase
+      .from(REVISION_ITEM_TABLES[itemType])
+      .update(buildRestoreUpdate(itemType, revision.content))
+      .eq('id', item.id);
+
+    if (error) {
+      console.error('Database error:', error);
+      return res.status(500).json({ success: false, error: 'Failed to restore revision' });
+    }
+
+    res.json({ 
+      success: true, 
+      data: { itemType, itemId: item.id, restoredRevisionId: revision.id }, 
+      message: 'Revision restored successfully' 
+    });
+
+  } catch (error) {
+    console.error('Restore revision error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// TEMPLATE ENDPOINTS
+const templateTargetScopes: Record<TemplateTarget, ApiKeyScope> = {
+  document: 'documents',
+  feature_file: 'features'
+};
+
+const TEMPLATE_COLUMNS = 'id, project_id, name, description, target, item_type, content, created_at, updated_at';
+
+const canAccessTemplates = (req: express.Request, target: TemplateTarget, permission: 'read' | 'write') =>
+  (req as any).authMethod !== 'api_key' ||
+  checkApiKeyAccess((req as any).apiKey, templateTargetScopes[target], permission).allowed;
+
+interface TemplateRow {
+  id: string;
+  project_id: string | null;
+  name: string;
+  description: string | null;
+  target: TemplateTarget;
+  item_type: string;
+  content: string;
+  created_at: string;
+  updated_at: string;
+}
+
+const formatTemplate = (template: Template) => ({
+  id: template.id,
+  projectId: template.projectId,
+  name: template.name,
+  description: template.description,
+  target: template.target,
+  itemType: template.itemType,
+  content: template.content,
+  builtIn: template.builtIn,
+  createdAt: template.createdAt?.toISOString() ?? null,
+  updatedAt: template.updatedAt?.toISOString() ?? null
+});
+
+const templateFromRow = (row: TemplateRow): Template => ({
+  id: row.id,
+  projectId: row.project_id,
+  name: row.name,
+  description: row.description || '',
+  target: row.target,
+  itemType: row.item_type,
+  content: row.content,
+  builtIn: false,
+  createdAt: new Date(row.created_at),
+  updatedAt: new Date(row.updated_at)
+});
+
+// A built-in template, or one of the user's own
+const findTemplateForUser = async (id: string, userId: string): Promise<Template | null> => {
+  if (isBuiltInTemplateId(id)) return getBuiltInTemplate(id);
+
+  const { data, error } = await supabase
+    .from('templates')
+    .select(TEMPLATE_COLUMNS)
+    .eq('id', id)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error && error.code !== '22P02') throw error;
+  return data ? templateFromRow(data as TemplateRow) : null;
+};
+
+interface TemplateContextInput {
+  projectId?: string;
+  featureId?: string;
+  title?: string;
+  fileName?: string;
+}
+
+// Variables for rendering a template; null when the project or feature is not the user's
+const buildTemplateContextForUser = async (input: TemplateContextInput, userId: string): Promise<TemplateContext | null> => {
+  const context: TemplateContext = {
+    document: { title: input.title },
+    file: { name: input.fileName },
+    date: formatTemplateDate(new Date())
+  };
+  let projectId = input.projectId;
+
+  if (input.featureId) {
+    const { data: feature, error } = await supabase
+      .from('features')
+      .select('id, project_id, title, type, status')
+      .eq('id', input.featureId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error && error.code !== '22P02') throw error;
+    if (!feature) return null;
+    context.feature = { title: feature.title, type: feature.type, status: feature.status };
+    projectId = projectId || feature.project_id;
+  }
+
+  if (projectId) {
+    const { data: project, error } = await supabase
+      .from('projects')
+      .select('name, description')
+      .eq('id', projectId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error && error.code !== '22P02') throw error;
+    if (!project) return null;
+    context.project = { name: project.name, description: project.description || '' };
+  }
+
+  return context;
+};
+
+app.get('/api/templates', async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const { target, itemType, projectId } = req.query;
+
+    if (target !== undefined && !isTemplateTarget(target)) {
+      return res.status(400).json({ 
+        success: false, 
+        error: `Invalid target. Must be one of: ${TEMPLATE_TARGETS.join(', ')}` 
+      });
+    }
+
+    // The id is pasted into a filter string below, so anything but a UUID is rejected first
+    const projectIdError = checkIdFilter('projectId', projectId);
+    if (projectIdError) {
+      return res.status(400).json({ success: false, error: projectIdError });
+    }
+
+    const targets = (target ? [target] : [...TEMPLATE_TARGETS]).filter(t => canAccessTemplates(req, t, 'read'));
+    if (targets.length === 0) {
+      return res.status(403).json({ 
+        success: false, 
+        error: `API key is missing required scope: ${target ? templateTargetScopes[target] : 'documents or features'}` 
+      });
+    }
+
+    let queryBuilder = supabase
+      .from('templates')
+      .select(TEMPLATE_COLUMNS)
+      .eq('user_id', user.id)
+      .in('target', targets)
+      .order('name', { ascending: true });
+
+    if (typeof itemType === 'string' && itemType) {
+      queryBuilder = queryBuilder.eq('item_type', itemType);
+    }
+    // Without a project, list every template; with one, only those usable there
+    if (isUuid(projectId)) {
+      queryBuilder = queryBuilder.or(`project_id.is.null,project_id.eq.${projectId}`);
+    }
+
+    const { data, error } = await queryBuilder;
+
+    if (error && error.code !== '22P02') {
+      console.error('Database error:', error);
+      return res.status(500).json({ success: false, error: 'Failed to fetch templates' });
+    }
+
+    const builtIns = BUILT_IN_TEMPLATES.filter(template =>
+      targets.includes(template.target) && (!itemType || template.itemType === itemType)
+    );
+    const templates = [...builtIns, ...((data || []) as TemplateRow[]).map(templateFromRow)];
+
+    res.json({ 
+      success: true, 
+      data: templates.map(formatTemplate), 
+      variables: TEMPLATE_VARIABLES 
+    });
+
+  } catch (error) {
+    console.error('Get templates error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+app.get('/api/templates/:id', async (req, res) => {
+  try {
+    const user = (req as any).user;
+
+    const template = await findTemplateForUser(req.params.id, user.id);
+    if (!template) {
+      return res.status(404).json({ success: false, error: 'Template not found' });
+    }
+
+    if (!canAccessTemplates(req, template.target, 'read')) {
+      return res.status(403).json({ 
+        success: false, 
+        error: `API key is missing required scope: ${templateTargetScopes[template.target]}` 
+      });
+    }
+
+    res.json({ success: true, data: formatTemplate(template) });
+
+  } catch (error) {
+    console.error('Get template error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+app.post('/api/templates', async (req, res) => {
+  try {
+    // Parse body if it's a Buffer
+    let body = req.body;
+    if (Buffer.isBuffer(req.body)) {
+      body = JSON.parse(req.body.toString());
+    }
+
+    const { name, description = '', target, itemType, content, projectId = null } = body;
+    const user = (req as any).user;
+
+    const validationError = validateTemplate({ name, description, target, itemType, content });
+    if (validationError) {
+      return res.status(400).json({ success: false, error: validationError });
+    }
+
+    if (!canAccessTemplates(req, target, 'write')) {
+      return res.status(403).json({ 
+        success: false, 
+        error: `API key needs write access to ${templateTargetScopes[target as TemplateTarget]}` 
+      });
+    }
+
+    if (projectId && !(await isOwnedProject(projectId, user.id))) {
+      return res.status(404).json({ success: false, error: 'Project not found or not owned by user' });
+    }
+
+    const { data, error } = await supabase
+      .from('templates')
+      .insert([{
+        user_id: user.id,
+        project_id: projectId || null,
+        name: name.trim(),
+        description: description.trim(),
+        target,
+        item_type: itemType,
+        content
+      }])
+      .select(TEMPLATE_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Database error:', error);
+      return res.status(500).json({ success: false, error: 'Failed to create template' });
+    }
+
+    res.status(201).json({ 
+      success: true, 
+      data: formatTemplate(templateFromRow(data as TemplateRow)), 
+      message: 'Template created successfully' 
+    });
+
+  } catch (error) {
+    console.error('Create template error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+app.put('/api/templates/:id', async (req, res) => {
+  try {
+    // Parse body if it's a Buffer
+    let body = req.body;
+    if (Buffer.isBuffer(req.body)) {
+      body = JSON.parse(req.body.toString());
+    }
+
+    const user = (req as any).user;
+
+    if (isBuiltInTemplateId(req.params.id)) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Built-in templates cannot be changed. Create a copy with POST /api/templates instead.' 
+      });
+    }
+
+    const existing = await findTemplateForUser(req.params.id, user.id);
+    if (!existing) {
+      return res.status(404).json({ success: false, error: 'Template not found or not owned by user' });
+    }
+
+    // Fields that are left out keep their current value
+    const {
+      name = existing.name,
+      description = existing.description,
+      target = existing.target,
+      itemType = existing.itemType,
+      content = existing.content,
+      projectId = existing.projectId
+    } = body;
+
+    const validationError = validateTemplate({ name, description, target, itemType, content });
+    if (validationError) {
+      return res.status(400).json({ success: false, error: validationError });
+    }
+
+    if (!canAccessTemplates(req, existing.target, 'write') || !canAccessTemplates(req, target, 'write')) {
+      return res.status(403).json({ 
+        success: false, 
+        error: `API key needs write access to ${templateTargetScopes[target as TemplateTarget]}` 
+      });
+    }
+
+    if (projectId && projectId !== existing.projectId && !(await isOwnedProject(projectId, user.id))) {
+      return res.status(404).json({ success: false, error: 'Project not found or not owned by user' });
+    }
+
+    const { data, error } = await supabase
+      .from('templates')
+      .update({
+        project_id: projectId || null,
+        name: name.trim(),
+        description: description.trim(),
+        target,
+        item_type: itemType,
+        content
+      })
+      .eq('id', existing.id)
+      .eq('user_id', user.id)
+      .select(TEMPLATE_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Database error:', error);
+      return res.status(500).json({ success: false, error: 'Failed to update template' });
+    }
+
+    res.json({ 
+      success: true, 
+      data: formatTemplate(templateFromRow(data as TemplateRow)), 
+      message: 'Template updated successfully' 
+    });
+
+  } catch (error) {
+    console.error('Update template error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+app.delete('/api/templates/:id', async (req, res) => {
+  try {
+    const user = (req as any).user;
+
+    if (isBuiltInTemplateId(req.params.id)) {
+      return res.status(400).json({ success: false, error: 'Built-in templates cannot be deleted' });
+    }
+
+    const existing = await findTemplateForUser(req.params.id, user.id);
+    if (!existing) {
+      return res.status(404).json({ success: false, error: 'Template not found or not owned by user' });
+    }
+
+    if (!canAccessTemplates(req, existing.target, 'write')) {
+      return res.status(403).json({ 
+        success: false, 
+        error: `API key needs write access to ${templateTargetScopes[existing.target]}` 
+      });
+    }
+
+    const { error } = await supabase
+      .from('templates')
+      .delete()
+      .eq('id', existing.id)
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Database error:', error);
+      return res.status(500).json({ success: false, error: 'Failed to delete template' });
+    }
+
+    res.json({ success: true, message: 'Template deleted successfully' });
+
+  } catch (error) {
+    console.error('Delete template error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+app.post('/api/templates/:id/render', async (req, res) => {
+  try {
+    // Parse body if it's a Buffer
+    let body = req.body;
+    if (Buffer.isBuffer(req.body)) {
+      body = JSON.parse(req.body.toString());
+    }
+
+    const { projectId, featureId, title, fileName } = body || {};
+    const user = (req as any).user;
+
+    const template = await findTemplateForUser(req.params.id, user.id);
+    if (!template) {
+      return res.status(404).json({ success: false, error: 'Template not found' });
+    }
+
+    if (!canAccessTemplates(req, template.target, 'read')) {
+      return res.status(403).json({ 
+        success: false, 
+        error: `API key is missing required scope: ${templateTargetScopes[template.target]}` 
+      });
+    }
+
+    const context = await buildTemplateContextForUser({ projectId, featureId, title, fileName }, user.id);
+    if (!context) {
+      return res.status(404).json({ success: false, error: 'Project or feature not found or not owned by user' });
+    }
 
     res.json({ 
       success: true, 
-      data: { id: data.id, message: 'Document saved successfully' }
+      data: { 
+        templateId: template.id, 
+        target: template.target, 
+        itemType: template.itemType, 
+        content: renderTemplate(template.content, context) 
+      } 
     });
 
   } catch (error) {
-    console.error('Save document error:', error);
+    console.error('Render template error:', error);
     res.status(500).json({ success: false, error: 'Internal server error' });
   }
 });
 
-app.get('/api/documents', async (req, res) => {
+// PATTERN LIBRARY ENDPOINTS
+const PATTERN_COLUMNS = `
+  id, title, description, solution, code_examples, tech_stack, tags,
+  source_type, sources, usage_count, success_count, last_used_at,
+  project_id, created_at, updated_at
+`;
+
+const withSuccessRate = <T extends { usage_count: number; success_count: number }>(pattern: T) => ({
+  ...pattern,
+  success_rate: getPatternSuccessRate(pattern.usage_count, pattern.success_count)
+});
+
+app.get('/api/patterns', requireScope('patterns'), async (req, res) => {
   try {
     const user = (req as any).user;
-    const { 
-      query, 
-      type,
+    const {
+      query,
+      techStack,
       tags,
-      language,
-      framework,
-      limit = 10, 
-      offset = 0 
+      projectId,
+      sourceType,
+      sort = 'success',
+      limit = 10,
+      offset = 0
     } = req.query;
 
-    let queryBuilder = supabase
-      .from('documents')
-      .select('*')
-      .eq('user_id', user.id)
-      .order('created_at', { ascending: false });
+    const stack = normalizeTechStack(Array.isArray(techStack) ? techStack : techStack ? String(techStack).split(',') : []);
+    const pageSize = Math.min(Math.max(Number(limit) || 10, 1), 50);
 
-    if (query) {
-      queryBuilder = queryBuilder.or(`title.ilike.%${query}%,content.ilike.%${query}%`);
-    }
+    let queryBuilder = supabase
+      .from('patterns')
+      .select(PATTERN_COLUMNS)
+      .eq('user_id', user.id);
 
-    if (type) {
-      queryBuilder = queryBuilder.eq('type', type);
+    if (sort === 'recent') {
+      queryBuilder = queryBuilder.order('created_at', { ascending: false });
+    } else if (sort === 'usage') {
+      queryBuilder = queryBuilder.order('usage_count', { ascending: false }).order('created_at', { ascending: false });
+    } else {
+      queryBuilder = queryBuilder
+        .order('success_count', { ascending: false })
+        .order('usage_count', { ascending: false })
+        .order('created_at', { ascending: false });
     }
 
-    if (language) {
-      queryBuilder = queryBuilder.eq('language', language);
+    if (query) {
+      const term = sanitizeFilterTerm(String(query));
+      if (term) {
+        queryBuilder = queryBuilder.or(`title.ilike.%${term}%,description.ilike.%${term}%,solution.ilike.%${term}%`);
+      }
     }
 
-    if (framework) {
-      queryBuilder = queryBuilder.eq('framework', framework);
+    if (stack.length > 0) {
+      queryBuilder = queryBuilder.overlaps('tech_stack', stack);
     }
 
     if (tags) {
@@ -1426,24 +4792,350 @@ app.get('/api/documents', async (req, res) => {
       queryBuilder = queryBuilder.overlaps('tags', tagArray);
     }
 
+    if (projectId) {
+      queryBuilder = queryBuilder.eq('project_id', projectId);
+    }
+
+    if (sourceType) {
+      queryBuilder = queryBuilder.eq('source_type', sourceType);
+    }
+
     queryBuilder = queryBuilder
-      .range(Number(offset), Number(offset) + Number(limit) - 1);
+      .range(Number(offset), Number(offset) + pageSize - 1);
 
     const { data, error } = await queryBuilder;
 
     if (error) {
       console.error('Database error:', error);
-      return res.status(500).json({ success: false, error: 'Failed to search documents' });
+      return res.status(500).json({ success: false, error: 'Failed to search patterns' });
     }
 
-    res.json({ 
-      success: true, 
-      data: data || [],
+    res.json({
+      success: true,
+      data: (data || []).map(pattern => ({
+        ...withSuccessRate(pattern),
+        matched_tech_stack: stack.filter(tech => (pattern.tech_stack || []).includes(tech))
+      })),
       count: data?.length || 0
     });
 
   } catch (error) {
-    console.error('Search documents error:', error);
+    console.error('Search patterns error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+app.get('/api/patterns/:id', requireScope('patterns'), async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const { id } = req.params;
+
+    const { data, error } = await supabase
+      .from('patterns')
+      .select(PATTERN_COLUMNS)
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (error) {
+      console.error('Database error:', error);
+      if (error.code === 'PGRST116') {
+        return res.status(404).json({ success: false, error: 'Pattern not found' });
+      }
+      return res.status(500).json({ success: false, error: 'Failed to retrieve pattern' });
+    }
+
+    res.json({ success: true, data: withSuccessRate(data) });
+
+  } catch (error) {
+    console.error('Get pattern error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+app.post('/api/patterns', requireScope('patterns'), async (req, res) => {
+  try {
+    // Parse body if it's a Buffer
+    let body = req.body;
+    if (Buffer.isBuffer(req.body)) {
+      body = JSON.parse(req.body.toString());
+    }
+
+    const {
+      title,
+      description,
+      solution,
+      codeExamples = [],
+      techStack = [],
+      tags = [],
+      projectId
+    } = body;
+    const user = (req as any).user;
+
+    if (!title || !solution) {
+      return res.status(400).json({
+        success: false,
+        error: 'Missing required fields: title and solution'
+      });
+    }
+
+    const patternData = buildPatternRow({
+      title,
+      description: description || '',
+      solution,
+      codeExamples: Array.isArray(codeExamples) ? codeExamples : [],
+      techStack: normalizeTechStack(techStack),
+      tags: normalizeTechStack(tags),
+      sourceType: 'manual',
+      sources: []
+    }, user.id, projectId || null);
+
+    const { data, error } = await supabase
+      .from('patterns')
+      .insert([patternData])
+      .select(PATTERN_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Database error:', error);
+      return res.status(500).json({ success: false, error: 'Failed to save pattern' });
+    }
+
+    res.json({ success: true, data: withSuccessRate(data), message: 'Pattern saved successfully' });
+
+  } catch (error) {
+    console.error('Save pattern error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Create a pattern from a conversation's code changes or a fixed bug's solution
+app.post('/api/patterns/extract', requireScope('patterns'), async (req, res) => {
+  try {
+    // Parse body if it's a Buffer
+    let body = req.body;
+    if (Buffer.isBuffer(req.body)) {
+      body = JSON.parse(req.body.toString());
+    }
+
+    const { sourceType, sourceId, projectId, title } = body;
+    const user = (req as any).user;
+
+    if (sourceType !== 'conversation' && sourceType !== 'bug') {
+      return res.status(400).json({ success: false, error: 'sourceType must be conversation or bug' });
+    }
+
+    if (!sourceId) {
+      return res.status(400).json({ success: false, error: 'Missing required field: sourceId' });
+    }
+
+    // Reading the source needs the source's own scope too
+    const sourceScope: ApiKeyScope = sourceType === 'bug' ? 'bugs' : 'conversations';
+    if ((req as any).authMethod === 'api_key') {
+      const access = checkApiKeyAccess((req as any).apiKey, sourceScope, 'read');
+      if (!access.allowed) {
+        return res.status(403).json({ success: false, error: access.error });
+      }
+    }
+
+    const { data: source, error: sourceError } = await supabase
+      .from(sourceType === 'bug' ? 'bugs' : 'conversations')
+      .select(sourceType === 'bug'
+        ? 'id, title, description, solution, symptoms, tags, project_context, project_id'
+        : 'id, title, implementation_summary, code_changes, files_changed, tags, project_context, project_id')
+      .eq('id', sourceId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (sourceError || !source) {
+      if (!sourceError || sourceError.code === 'PGRST116' || sourceError.code === '22P02') {
+        return res.status(404).json({ success: false, error: `Source ${sourceType} not found` });
+      }
+      console.error('Database error:', sourceError);
+      return res.status(500).json({ success: false, error: 'Failed to load pattern source' });
+    }
+
+    const sourceRow = source as unknown as PatternBugRow & PatternConversationRow & { project_id: string | null };
+    const draft = sourceType === 'bug'
+      ? extractPatternFromBug(sourceRow)
+      : extractPatternFromConversation(sourceRow);
+
+    if (!draft.solution && draft.codeExamples.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: sourceType === 'bug'
+          ? 'Bug has no solution to extract a pattern from'
+          : 'Conversation has no implementation summary or code changes to extract a pattern from'
+      });
+    }
+
+    // One pattern per source item
+    const { data: existing } = await supabase
+      .from('patterns')
+      .select('id')
+      .eq('user_id', user.id)
+      .filter('sources', 'cs', JSON.stringify([{ type: sourceType, id: sourceRow.id }]))
+      .limit(1);
+
+    if (existing && existing.length > 0) {
+      return res.status(409).json({
+        success: false,
+        error: `A pattern already exists for this ${sourceType}`,
+        data: { id: existing[0].id }
+      });
+    }
+
+    const { data, error } = await supabase
+      .from('patterns')
+      .insert([buildPatternRow(
+        { ...draft, title: title || draft.title },
+        user.id,
+        projectId || sourceRow.project_id || null
+      )])
+      .select(PATTERN_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Database error:', error);
+      return res.status(500).json({ success: false, error: 'Failed to save pattern' });
+    }
+
+    res.json({ success: true, data: withSuccessRate(data), message: 'Pattern extracted successfully' });
+
+  } catch (error) {
+    console.error('Extract pattern error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+app.put('/api/patterns/:id', requireScope('patterns'), async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const { id } = req.params;
+
+    // Parse body if it's a Buffer
+    let body = req.body;
+    if (Buffer.isBuffer(req.body)) {
+      body = JSON.parse(req.body.toString());
+    }
+
+    const { title, description, solution, codeExamples, techStack, tags, projectId } = body;
+
+    // Build update object with only provided fields
+    const updateData: Record<string, unknown> = {};
+
+    if (title !== undefined) updateData.title = title;
+    if (description !== undefined) updateData.description = description;
+    if (solution !== undefined) updateData.solution = solution;
+    if (codeExamples !== undefined) updateData.code_examples = Array.isArray(codeExamples) ? codeExamples : [];
+    if (techStack !== undefined) updateData.tech_stack = normalizeTechStack(techStack);
+    if (tags !== undefined) updateData.tags = normalizeTechStack(tags);
+    if (projectId !== undefined) updateData.project_id = projectId || null;
+
+    if (Object.keys(updateData).length === 0) {
+      return res.status(400).json({ success: false, error: 'No fields to update' });
+    }
+
+    const { data, error } = await supabase
+      .from('patterns')
+      .update(updateData)
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .select(PATTERN_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Database error:', error);
+      if (error.code === 'PGRST116') {
+        return res.status(404).json({ success: false, error: 'Pattern not found or not owned by user' });
+      }
+      return res.status(500).json({ success: false, error: 'Failed to update pattern' });
+    }
+
+    res.json({ success: true, data: withSuccessRate(data), message: 'Pattern updated successfully' });
+
+  } catch (error) {
+    console.error('Update pattern error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+app.delete('/api/patterns/:id', requireScope('patterns'), async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const { id } = req.params;
+
+    const { data, error } = await supabase
+      .from('patterns')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .select('id');
+
+    if (error) {
+      console.error('Database error:', error);
+      return res.status(500).json({ success: false, error: 'Failed to delete pattern' });
+    }
+
+    if (!data || data.length === 0) {
+      return res.status(404).json({ success: false, error: 'Pattern not found or not owned by user' });
+    }
+
+    res.json({ success: true, message: 'Pattern deleted successfully' });
+
+  } catch (error) {
+    console.error('Delete pattern error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+});
+
+// Record that a pattern was reused, and whether it worked
+app.post('/api/patterns/:id/usage', requireScope('patterns'), async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const { id } = req.params;
+
+    // Parse body if it's a Buffer
+    let body = req.body || {};
+    if (Buffer.isBuffer(req.body)) {
+      body = JSON.parse(req.body.toString());
+    }
+
+    const { success } = body;
+
+    if (success !== undefined && typeof success !== 'boolean') {
+      return res.status(400).json({ success: false, error: 'success must be a boolean' });
+    }
+
+    const { data, error } = await supabase.rpc('record_pattern_usage', {
+      p_pattern_id: id,
+      p_success: success ?? null,
+      p_user_id: user.id
+    });
+
+    if (error) {
+      console.error('Database error:', error);
+      return res.status(500).json({ success: false, error: 'Failed to record pattern usage' });
+    }
+
+    const pattern = Array.isArray(data) ? data[0] : data;
+    if (!pattern) {
+      return res.status(404).json({ success: false, error: 'Pattern not found' });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        id: pattern.id,
+        usage_count: pattern.usage_count,
+        success_count: pattern.success_count,
+        success_rate: getPatternSuccessRate(pattern.usage_count, pattern.success_count),
+        last_used_at: pattern.last_used_at
+      }
+    });
+
+  } catch (error) {
+    console.error('Record pattern usage error:', error);
     res.status(500).json({ success: false, error: 'Internal server error' });
   }
 });
@@ -1466,12 +5158,36 @@ app.post('/api/api-keys', async (req, res) => {
       body = JSON.parse(req.body.toString());
     }
     
-    const { name = 'Main Endpoint Test' } = body; // Default name if not provided
+    const { 
+      name = 'Main Endpoint Test', // Default name if not provided
+      permissions = DEFAULT_API_KEY_PERMISSIONS,
+      scopes = DEFAULT_API_KEY_SCOPES,
+      expiresInDays = null
+    } = body;
     const user = (req as any).user;
     
     console.log('Main endpoint - User ID:', user.id);
     console.log('Main endpoint - Key name:', name);
     
+    // Validate requested permissions and scopes
+    const grantError = validateApiKeyGrant(permissions, scopes);
+    if (grantError) {
+      return res.status(400).json({ success: false, error: grantError });
+    }
+    
+    // Validate expiration if provided
+    let expiresAt: string | null = null;
+    if (expiresInDays !== null && expiresInDays !== undefined) {
+      const days = Number(expiresInDays);
+      if (!Number.isInteger(days) || days < 1 || days > 365) {
+        return res.status(400).json({ 
+          success: false, 
+          error: 'expiresInDays must be a whole number between 1 and 365' 
+        });
+      }
+      expiresAt = new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
+    }
+    
     // Simple key generation (same as working debug endpoint)
     const crypto = require('crypto');
     const keyBytes = crypto.randomBytes(16);
@@ -1503,10 +5219,10 @@ app.post('/api/api-keys', async (req, res) => {
         name: name,
         key_prefix: keyPrefix,
         key_hash: keyHash,
-        permissions: ['read', 'write'],
-        scopes: ['conversations', 'bugs', 'features', 'documents'],
+        permissions: Array.from(new Set(permissions)),
+        scopes: Array.from(new Set(scopes)),
         is_active: true,
-        expires_at: null,
+        expires_at: expiresAt,
         created_from_ip: clientIp,
         user_agent: req.headers['user-agent'] || 'main-endpoint-fixed'
       }])
@@ -6,17 +6,29 @@ import { DocumentationPage } from './pages/DocumentationPage';
 import { Sidebar } from './components/Sidebar';
 import { ProjectWorkspace } from './components/ProjectWorkspace';
 import { CreateProjectModal } from './components/CreateProjectModal';
+import { ProjectArchiveMode, ProjectArchiveModal } from './components/ProjectArchiveModal';
 import { ConnectionStatus } from './components/ConnectionStatus';
 import { ChatBubble } from './components/ChatBubble';
 import { ChatBubbleErrorBoundary } from './components/ChatBubbleErrorBoundary';
+import { CommandPalette } from './components/ui/CommandPalette';
 import { useAuth } from './contexts/AuthContext';
 import { useSupabaseProjects } from './hooks/useSupabaseProjects';
+import { useOpenItem } from './hooks/useOpenItem';
 import { useTheme } from './contexts/ThemeContext';
 import { Project } from './types';
 
+// localStorage prefixes the project tabs use to restore their selected item
+const ITEM_SELECTION_KEYS: Record<string, string> = {
+  conversation: 'selectedConversation',
+  bug: 'selectedBug',
+  feature: 'selectedFeature',
+  feature_file: 'selectedFeature',
+  document: 'selectedDocument'
+};
+
 function App() {
   const { loading: authLoading, isAuthenticated } = useAuth();
-  const { projects, createProject, deleteProject, updateProject, loading: projectsLoading } = useSupabaseProjects();
+  const { projects, createProject, deleteProject, updateProject, archiveProject, restoreProject, refreshData, loading: projectsLoading } = useSupabaseProjects();
   const { isDark } = useTheme();
 
   // Handle /dashboard redirect after OAuth
@@ -63,6 +75,7 @@ function App() {
     return saved ? JSON.parse(saved) : false;
   });
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [archiveMode, setArchiveMode] = useState<ProjectArchiveMode | null>(null);
   const [showAuthPage, setShowAuthPage] = useState(false);
   const [showDocumentationPage, setShowDocumentationPage] = useState(false);
   
@@ -116,6 +129,23 @@ function App() {
     };
   }, []);
 
+  // Open command palette items that live in another project: preselect the item,
+  // then switch project so the new workspace restores it on the right tab
+  useOpenItem((item, destination) => {
+    if (!item.projectId || item.projectId === activeProject?.id) return;
+    const targetProject = projects.find(p => p.id === item.projectId);
+    if (!targetProject) return;
+
+    const selectionKey = ITEM_SELECTION_KEYS[item.type];
+    const selectedId = item.type === 'feature_file' ? item.parentId : item.id;
+    if (selectionKey && selectedId) {
+      localStorage.setItem(`${selectionKey}_${targetProject.id}`, selectedId);
+    }
+
+    updateHashState(targetProject.id, destination.route);
+    setActiveProject(targetProject);
+  });
+
   // Save sidebar collapsed state to localStorage
   useEffect(() => {
     localStorage.setItem('sidebarCollapsed', JSON.stringify(sidebarCollapsed));
@@ -148,7 +178,7 @@ function App() {
       
       // Fallback to first project if no saved project or saved project not found
       if (!activeProject) {
-        setActiveProject(projects[0]);
+        setActiveProject(projects.find(p => !p.archivedAt) || projects[0]);
       }
     } else {
       // Clear activeProject when no projects exist
@@ -256,6 +286,35 @@ function App() {
     }
   };
 
+  const handleArchiveProject = async (projectId: string) => {
+    try {
+      await archiveProject(projectId);
+
+      // Move off an archived project so the workspace matches the Sidebar
+      if (activeProject?.id === projectId) {
+        const nextProject = projects.find(p => p.id !== projectId && !p.archivedAt);
+        if (nextProject) {
+          setActiveProject(nextProject);
+        }
+      }
+    } catch (error) {
+      console.error('Error archiving project:', error);
+    }
+  };
+
+  const handleRestoreProject = async (projectId: string) => {
+    try {
+      await restoreProject(projectId);
+    } catch (error) {
+      console.error('Error restoring project:', error);
+    }
+  };
+
+  const handleProjectImported = async (project: Project) => {
+    await refreshData();
+    setActiveProject(project);
+  };
+
   const WelcomeScreen = () => (
     <div className={`flex-1 relative overflow-hidden`} style={{ backgroundColor: isDark ? '#1a1a1a' : '#f9fafb' }}>
       {/* Background Pattern */}
@@ -404,6 +463,9 @@ function App() {
         onCreateProject={() => setShowCreateModal(true)}
         onDeleteProject={handleDeleteProject}
         onUpdateProject={updateProject}
+        onArchiveProject={handleArchiveProject}
+        onRestoreProject={handleRestoreProject}
+        onExportProject={project => setArchiveMode({ type: 'export', project })}
         collapsed={sidebarCollapsed}
         onToggleCollapse={() => setSidebarCollapsed(!sidebarCollapsed)}
         onViewDocs={handleViewDocs}
@@ -431,8 +493,24 @@ function App() {
         isOpen={showCreateModal}
         onClose={() => setShowCreateModal(false)}
         onSubmit={handleCreateProject}
+        onImport={() => {
+          setShowCreateModal(false);
+          setArchiveMode({ type: 'import' });
+        }}
       />
 
+      {/* Project ZIP export and import */}
+      {archiveMode && (
+        <ProjectArchiveModal
+          mode={archiveMode}
+          onClose={() => setArchiveMode(null)}
+          onImported={handleProjectImported}
+        />
+      )}
+
+      {/* Command Palette (Ctrl/Cmd+K) */}
+      <CommandPalette projects={projects} activeProject={activeProject} />
+
       {/* Connection Status */}
       <ConnectionStatus />
 
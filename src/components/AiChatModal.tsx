@@ -0,0 +1,415 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, Plus, Trash2, Send, Square, Brain, AlertTriangle, MessageSquare } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import { Project } from '../types';
+import { useTheme } from '../contexts/ThemeContext';
+import { useApiKeys } from '../contexts/ApiKeyContext';
+import { useSupabaseProjects } from '../hooks/useSupabaseProjects';
+import { AiChatContextRef, AiChatContextSource, AiChatThread, AiChatThreadMessage, getThreadTitle } from '../lib/aiChatContext';
+import { SEARCH_ENTITY_LABELS } from '../lib/unifiedSearch';
+import { NavigationService, OpenItemPayload } from '../lib/navigation/NavigationService';
+import { isAiConfigured } from '../services/aiChatService';
+import {
+  askProjectAi,
+  buildChatContextSources,
+  createAiChatThread,
+  deleteAiChatThread,
+  fetchAiChatThreads,
+  fetchConversationContextSources,
+  saveAiChatThread
+} from '../services/projectChatService';
+import { MarkdownRenderer } from './documentation/MarkdownRenderer';
+
+interface AiChatModalProps {
+  isOpen: boolean;
+  project: Project;
+  // A question sent from the prompt box; sent in the open thread once the modal is ready
+  pendingMessage: { id: number; text: string } | null;
+  onPendingMessageHandled: () => void;
+  onClose: () => void;
+}
+
+export const AiChatModal: React.FC<AiChatModalProps> = ({
+  isOpen,
+  project,
+  pendingMessage,
+  onPendingMessageHandled,
+  onClose
+}) => {
+  const { isDark } = useTheme();
+  const { getActiveApiConfig } = useApiKeys();
+  const { bugs, features, documents, loadProjectData } = useSupabaseProjects();
+  const [threads, setThreads] = useState<AiChatThread[]>([]);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const [threadsLoaded, setThreadsLoaded] = useState(false);
+  const [input, setInput] = useState('');
+  const [streamingText, setStreamingText] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const conversationSourcesRef = useRef<AiChatContextSource[] | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const activeThread = threads.find(thread => thread.id === activeThreadId) || null;
+  const isStreaming = streamingText !== null;
+  const aiConfigured = isAiConfigured(getActiveApiConfig());
+
+  // Switching projects starts over
+  useEffect(() => {
+    abortRef.current?.abort();
+    setThreads([]);
+    setActiveThreadId(null);
+    setThreadsLoaded(false);
+    setStreamingText(null);
+    setError(null);
+    conversationSourcesRef.current = null;
+  }, [project.id]);
+
+  // Threads and the data used as context are loaded the first time the modal opens for a project
+  useEffect(() => {
+    if (!isOpen || threadsLoaded) return;
+
+    loadProjectData(project.id, ['bugs', 'features', 'documents']);
+    fetchAiChatThreads(project.id)
+      .then(loaded => {
+        setThreads(loaded);
+        setActiveThreadId(prev => prev || loaded[0]?.id || null);
+      })
+      .catch(loadError => {
+        console.error('Error loading chat threads:', loadError);
+        setError(loadError instanceof Error ? loadError.message : 'Failed to load chat threads');
+      })
+      .finally(() => setThreadsLoaded(true));
+  }, [isOpen, threadsLoaded, project.id, loadProjectData]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'end' });
+  }, [activeThread?.messages.length, streamingText]);
+
+  const projectSources = useMemo(
+    () => buildChatContextSources(project.id, { bugs, features, documents }),
+    [project.id, bugs, features, documents]
+  );
+
+  const updateThread = (thread: AiChatThread) => {
+    setThreads(prev => [thread, ...prev.filter(other => other.id !== thread.id)]);
+  };
+
+  const sendMessage = async (text: string) => {
+    const question = text.trim();
+    if (!question || isStreaming) return;
+
+    setError(null);
+    setInput('');
+
+    let thread = activeThread;
+    try {
+      if (!thread) {
+        thread = await createAiChatThread(project.id, getThreadTitle(question));
+        setActiveThreadId(thread.id);
+      }
+    } catch (createError) {
+      setError(createError instanceof Error ? createError.message : 'Failed to create chat thread');
+      return;
+    }
+
+    const userMessage: AiChatThreadMessage = { id: uuidv4(), role: 'user', content: question, createdAt: new Date().toISOString() };
+    const history = thread.messages;
+    let current: AiChatThread = { ...thread, messages: [...history, userMessage], updatedAt: new Date() };
+    updateThread(current);
+    setStreamingText('');
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let streamed = '';
+
+    try {
+      if (!conversationSourcesRef.current) {
+        conversationSourcesRef.current = await fetchConversationContextSources(project.id);
+      }
+
+      const response = await askProjectAi(
+        getActiveApiConfig(),
+        project,
+        question,
+        history,
+        [...projectSources, ...conversationSourcesRef.current],
+        delta => {
+          streamed += delta;
+          setStreamingText(streamed);
+        },
+        controller.signal
+      );
+
+      current = {
+        ...current,
+        messages: [...current.messages, {
+          id: uuidv4(),
+          role: 'assistant',
+          content: response.content,
+          createdAt: new Date().toISOString(),
+          model: response.model,
+          context: response.context.map(({ type, id, title }) => ({ type, id, title }))
+        }]
+      };
+    } catch (sendError) {
+      const stopped = controller.signal.aborted;
+      if (!stopped) console.error('Error sending AI chat message:', sendError);
+      current = {
+        ...current,
+        messages: [...current.messages, {
+          id: uuidv4(),
+          role: 'assistant',
+          content: streamed,
+          createdAt: new Date().toISOString(),
+          ...(stopped ? {} : { error: sendError instanceof Error ? sendError.message : 'AI request failed' })
+        }]
+      };
+    } finally {
+      abortRef.current = null;
+      setStreamingText(null);
+    }
+
+    updateThread(current);
+    try {
+      updateThread(await saveAiChatThread(current));
+    } catch (saveError) {
+      console.error('Error saving chat thread:', saveError);
+      setError(saveError instanceof Error ? saveError.message : 'Failed to save chat thread');
+    }
+  };
+
+  // Read through a ref so the effect below runs when a question arrives, not on every render
+  const pendingHandlersRef = useRef({ sendMessage, onPendingMessageHandled });
+  pendingHandlersRef.current = { sendMessage, onPendingMessageHandled };
+
+  // Send a question that arrived from the prompt box
+  useEffect(() => {
+    if (!isOpen || !pendingMessage || !threadsLoaded || isStreaming) return;
+    pendingHandlersRef.current.onPendingMessageHandled();
+    if (aiConfigured) {
+      pendingHandlersRef.current.sendMessage(pendingMessage.text);
+    } else {
+      // Keep the question so it can be sent once a provider is set up
+      setInput(pendingMessage.text);
+    }
+  }, [isOpen, pendingMessage, threadsLoaded, isStreaming, aiConfigured]);
+
+  const handleNewThread = () => {
+    if (isStreaming) return;
+    setActiveThreadId(null);
+    setError(null);
+  };
+
+  const handleDeleteThread = async (threadId: string) => {
+    if (isStreaming) return;
+    try {
+      await deleteAiChatThread(threadId);
+      setThreads(prev => prev.filter(thread => thread.id !== threadId));
+      if (activeThreadId === threadId) setActiveThreadId(null);
+    } catch (deleteError) {
+      setError(deleteError instanceof Error ? deleteError.message : 'Failed to delete chat thread');
+    }
+  };
+
+  const openContextItem = (item: AiChatContextRef) => {
+    const payload: OpenItemPayload = { type: item.type, id: item.id, projectId: project.id };
+    NavigationService.getInstance().navigateTo(item.type, payload);
+    onClose();
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === 'Enter' && !event.shiftKey) {
+      event.preventDefault();
+      sendMessage(input);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const mutedText = isDark ? 'text-gray-400' : 'text-gray-500';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50" onClick={onClose}>
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        onClick={(e) => e.stopPropagation()}
+        className="rounded-2xl w-full max-w-5xl mx-4 border flex h-[80vh] overflow-hidden"
+        style={{
+          backgroundColor: isDark ? '#1a1a1a' : '#ffffff',
+          borderColor: isDark ? '#2a2a2a' : '#e2e8f0'
+        }}
+      >
+        {/* Thread list */}
+        <div className="w-60 border-r flex flex-col flex-shrink-0" style={{ borderColor: isDark ? '#2a2a2a' : '#e2e8f0' }}>
+          <div className="p-3 border-b" style={{ borderColor: isDark ? '#2a2a2a' : '#e2e8f0' }}>
+            <button
+              onClick={handleNewThread}
+              disabled={isStreaming}
+              className={`w-full flex items-center justify-center py-2 px-3 text-sm font-medium rounded-lg border transition-colors disabled:opacity-50 ${
+                isDark ? 'border-gray-700 text-gray-200 hover:bg-gray-800' : 'border-gray-200 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              <Plus size={14} className="mr-1.5" />
+              New Chat
+            </button>
+          </div>
+          <div className={`flex-1 overflow-y-auto p-2 space-y-1 ${isDark ? 'dark-scrollbar' : 'light-scrollbar'}`}>
+            {threads.map(thread => (
+              <div
+                key={thread.id}
+                onClick={() => !isStreaming && setActiveThreadId(thread.id)}
+                className={`group flex items-center justify-between px-3 py-2 rounded-lg cursor-pointer text-sm ${
+                  thread.id === activeThreadId
+                    ? isDark ? 'bg-gray-800 text-white' : 'bg-gray-100 text-gray-900'
+                    : isDark ? 'text-gray-300 hover:bg-gray-800/50' : 'text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                <span className="truncate">{thread.title}</span>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleDeleteThread(thread.id);
+                  }}
+                  className={`opacity-0 group-hover:opacity-100 p-1 rounded ${isDark ? 'hover:bg-gray-700' : 'hover:bg-gray-200'}`}
+                  title="Delete chat"
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+            ))}
+            {threadsLoaded && threads.length === 0 && (
+              <p className={`text-xs text-center py-4 ${mutedText}`}>No chats yet</p>
+            )}
+          </div>
+        </div>
+
+        {/* Messages */}
+        <div className="flex-1 flex flex-col min-w-0">
+          <div className="flex items-center justify-between px-5 py-3 border-b" style={{ borderColor: isDark ? '#2a2a2a' : '#e2e8f0' }}>
+            <div className="min-w-0">
+              <h3 className={`font-semibold truncate ${isDark ? 'text-white' : 'text-gray-900'}`}>
+                {activeThread?.title || 'New chat'}
+              </h3>
+              <p className={`text-xs ${mutedText}`}>Answers use {project.name}'s bugs, features, documents and conversations</p>
+            </div>
+            <button
+              onClick={onClose}
+              className={`p-1 rounded ${isDark ? 'hover:bg-gray-800 text-gray-400' : 'hover:bg-gray-100 text-gray-500'}`}
+              title="Close"
+            >
+              <X size={18} />
+            </button>
+          </div>
+
+          <div className={`flex-1 overflow-y-auto px-5 py-4 space-y-4 ${isDark ? 'dark-scrollbar' : 'light-scrollbar'}`}>
+            {!aiConfigured && (
+              <div className={`flex items-start text-sm p-3 rounded-lg ${isDark ? 'bg-yellow-900/30 text-yellow-300' : 'bg-yellow-50 text-yellow-800'}`}>
+                <AlertTriangle size={14} className="mr-2 mt-0.5 flex-shrink-0" />
+                Add an OpenAI, OpenRouter or custom provider key in Settings → API Storage to chat with AI.
+              </div>
+            )}
+
+            {(!activeThread || activeThread.messages.length === 0) && !isStreaming && (
+              <div className={`text-center py-16 ${mutedText}`}>
+                <Brain className={`w-10 h-10 mx-auto mb-3 ${isDark ? 'text-gray-600' : 'text-gray-400'}`} />
+                <p className="text-sm font-medium mb-1">Ask anything about this project</p>
+                <p className="text-xs">Relevant items are found for each question and cited below the answer</p>
+              </div>
+            )}
+
+            {activeThread?.messages.map(message => (
+              <div key={message.id} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                <div className={`max-w-[85%] rounded-xl px-4 py-3 text-sm ${
+                  message.role === 'user'
+                    ? 'bg-blue-600 text-white whitespace-pre-wrap'
+                    : isDark ? 'bg-gray-800/60 text-gray-200' : 'bg-gray-50 text-gray-800'
+                }`}>
+                  {message.role === 'user' ? message.content : message.content && <MarkdownRenderer content={message.content} isDark={isDark} />}
+                  {message.error && (
+                    <div className="flex items-start text-xs text-red-500 mt-1">
+                      <AlertTriangle size={12} className="mr-1 mt-0.5 flex-shrink-0" />
+                      {message.error}
+                    </div>
+                  )}
+                  {message.context && message.context.length > 0 && (
+                    <div className={`mt-3 pt-2 border-t flex flex-wrap gap-1 ${isDark ? 'border-gray-700' : 'border-gray-200'}`}>
+                      {message.context.map(item => (
+                        <button
+                          key={`${item.type}-${item.id}`}
+                          onClick={() => openContextItem(item)}
+                          className={`flex items-center text-xs px-2 py-0.5 rounded ${isDark ? 'bg-gray-900 text-gray-300 hover:bg-gray-700' : 'bg-white text-gray-600 hover:bg-gray-100 border border-gray-200'}`}
+                          title={`Open ${SEARCH_ENTITY_LABELS[item.type]}`}
+                        >
+                          <MessageSquare size={10} className="mr-1" />
+                          {item.title}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  {message.model && <div className={`text-[10px] mt-1 ${mutedText}`}>{message.model}</div>}
+                </div>
+              </div>
+            ))}
+
+            {isStreaming && (
+              <div className="flex justify-start">
+                <div className={`max-w-[85%] rounded-xl px-4 py-3 text-sm ${isDark ? 'bg-gray-800/60 text-gray-200' : 'bg-gray-50 text-gray-800'}`}>
+                  {streamingText ? (
+                    <MarkdownRenderer content={streamingText} isDark={isDark} />
+                  ) : (
+                    <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin"></div>
+                  )}
+                </div>
+              </div>
+            )}
+            <div ref={bottomRef} />
+          </div>
+
+          {error && (
+            <div className="mx-5 mb-2 flex items-start text-sm text-red-500">
+              <AlertTriangle size={14} className="mr-1.5 mt-0.5 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+
+          <div className="p-4 border-t flex items-end space-x-2" style={{ borderColor: isDark ? '#2a2a2a' : '#e2e8f0' }}>
+            <textarea
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="Ask a follow-up..."
+              rows={2}
+              className="flex-1 p-3 border rounded-xl resize-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+              style={{
+                borderColor: isDark ? '#2a2a2a' : '#e2e8f0',
+                backgroundColor: isDark ? '#0f172a' : '#f8fafc',
+                color: isDark ? '#ffffff' : '#000000'
+              }}
+            />
+            {isStreaming ? (
+              <button
+                onClick={() => abortRef.current?.abort()}
+                className="p-3 rounded-xl bg-gray-600 text-white hover:bg-gray-700 transition-colors"
+                title="Stop"
+              >
+                <Square size={16} />
+              </button>
+            ) : (
+              <button
+                onClick={() => sendMessage(input)}
+                disabled={!input.trim() || !aiConfigured}
+                className="p-3 rounded-xl bg-blue-600 text-white hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Send"
+              >
+                <Send size={16} />
+              </button>
+            )}
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
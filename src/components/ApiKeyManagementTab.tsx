@@ -13,6 +13,14 @@ import {
   Key
 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import {
+  API_KEY_PERMISSIONS,
+  API_KEY_SCOPES,
+  API_KEY_PERMISSION_DESCRIPTIONS,
+  API_KEY_SCOPE_DESCRIPTIONS,
+  DEFAULT_API_KEY_PERMISSIONS,
+  DEFAULT_API_KEY_SCOPES
+} from '../lib/apiKeyScopes';
 
 interface ApiKey {
   id: string;
@@ -46,8 +54,8 @@ export const ApiKeyManagementTab: React.FC<ApiKeyManagementTabProps> = ({ isDark
     expiresInDays: number | null;
   }>({
     name: '',
-    permissions: ['read', 'write'],
-    scopes: ['conversations', 'bugs', 'features', 'documents'],
+    permissions: [...DEFAULT_API_KEY_PERMISSIONS],
+    scopes: [...DEFAULT_API_KEY_SCOPES],
     expiresInDays: null
   });
   const [newlyCreatedKey, setNewlyCreatedKey] = useState<{
@@ -173,8 +181,8 @@ export const ApiKeyManagementTab: React.FC<ApiKeyManagementTabProps> = ({ isDark
       // Reset form
       setNewKeyData({
         name: '',
-        permissions: ['read', 'write'],
-        scopes: ['conversations', 'bugs', 'features', 'documents'],
+        permissions: [...DEFAULT_API_KEY_PERMISSIONS],
+        scopes: [...DEFAULT_API_KEY_SCOPES],
         expiresInDays: null
       });
       setShowCreateForm(false);
@@ -295,6 +303,9 @@ export const ApiKeyManagementTab: React.FC<ApiKeyManagementTabProps> = ({ isDark
     }
   };
 
+  const toggleListValue = (list: string[], value: string) =>
+    list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -479,11 +490,108 @@ export const ApiKeyManagementTab: React.FC<ApiKeyManagementTabProps> = ({ isDark
                 }`}
               />
             </div>
+
+            <div>
+              <span className={`block text-sm font-medium ${isDark ? 'text-gray-300' : 'text-gray-700'} mb-2`}>
+                Permissions
+              </span>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                {API_KEY_PERMISSIONS.map((permission) => (
+                  <label
+                    key={permission}
+                    className={`flex items-start space-x-2 p-2 border rounded-lg cursor-pointer ${
+                      isDark ? 'border-gray-600 bg-gray-800' : 'border-gray-200 bg-white'
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={newKeyData.permissions.includes(permission)}
+                      onChange={() => setNewKeyData({
+                        ...newKeyData,
+                        permissions: toggleListValue(newKeyData.permissions, permission)
+                      })}
+                      className="mt-1"
+                    />
+                    <span>
+                      <span className={`block text-sm font-medium ${isDark ? 'text-white' : 'text-gray-900'}`}>
+                        {permission}
+                      </span>
+                      <span className={`block text-xs ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
+                        {API_KEY_PERMISSION_DESCRIPTIONS[permission]}
+                      </span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <span className={`block text-sm font-medium ${isDark ? 'text-gray-300' : 'text-gray-700'} mb-2`}>
+                Scopes
+              </span>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {API_KEY_SCOPES.map((scope) => (
+                  <label
+                    key={scope}
+                    className={`flex items-start space-x-2 p-2 border rounded-lg cursor-pointer ${
+                      isDark ? 'border-gray-600 bg-gray-800' : 'border-gray-200 bg-white'
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={newKeyData.scopes.includes(scope)}
+                      onChange={() => setNewKeyData({
+                        ...newKeyData,
+                        scopes: toggleListValue(newKeyData.scopes, scope)
+                      })}
+                      className="mt-1"
+                    />
+                    <span>
+                      <span className={`block text-sm font-medium ${isDark ? 'text-white' : 'text-gray-900'}`}>
+                        {scope}
+                      </span>
+                      <span className={`block text-xs ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
+                        {API_KEY_SCOPE_DESCRIPTIONS[scope]}
+                      </span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className={`block text-sm font-medium ${isDark ? 'text-gray-300' : 'text-gray-700'} mb-2`}>
+                Expiration
+              </label>
+              <select
+                value={newKeyData.expiresInDays ?? ''}
+                onChange={(e) => setNewKeyData({
+                  ...newKeyData,
+                  expiresInDays: e.target.value ? Number(e.target.value) : null
+                })}
+                className={`w-full px-3 py-2 border rounded-lg ${
+                  isDark 
+                    ? 'border-gray-600 bg-gray-800 text-white' 
+                    : 'border-gray-300 bg-white text-gray-900'
+                }`}
+              >
+                <option value="">Never</option>
+                <option value="7">7 days</option>
+                <option value="30">30 days</option>
+                <option value="90">90 days</option>
+                <option value="365">1 year</option>
+              </select>
+            </div>
             
             <div className="flex space-x-4">
               <button
                 onClick={createApiKey}
-                disabled={!newKeyData.name.trim() || isCreating}
+                disabled={
+                  !newKeyData.name.trim() ||
+                  newKeyData.permissions.length === 0 ||
+                  newKeyData.scopes.length === 0 ||
+                  isCreating
+                }
                 className={`flex items-center px-4 py-2 text-sm rounded-lg transition-colors ${
                   isDark ? 'bg-green-600 hover:bg-green-700 text-white' : 'bg-green-600 hover:bg-green-700 text-white'
                 } disabled:opacity-50`}
@@ -579,6 +687,29 @@ export const ApiKeyManagementTab: React.FC<ApiKeyManagementTabProps> = ({ isDark
                   </button>
                 </div>
               </div>
+
+              <div className="flex flex-wrap gap-1.5 mb-3">
+                {(apiKey.permissions || []).map((permission) => (
+                  <span
+                    key={`permission-${permission}`}
+                    className={`px-2 py-0.5 rounded text-xs font-medium ${
+                      isDark ? 'bg-blue-900/30 text-blue-300' : 'bg-blue-100 text-blue-800'
+                    }`}
+                  >
+                    {permission}
+                  </span>
+                ))}
+                {(apiKey.scopes || []).map((scope) => (
+                  <span
+                    key={`scope-${scope}`}
+                    className={`px-2 py-0.5 rounded text-xs ${
+                      isDark ? 'bg-gray-600 text-gray-200' : 'bg-gray-200 text-gray-700'
+                    }`}
+                  >
+                    {scope}
+                  </span>
+                ))}
+              </div>
               
               <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-sm">
                 <div>
@@ -632,6 +763,7 @@ export const ApiKeyManagementTab: React.FC<ApiKeyManagementTabProps> = ({ isDark
             </h4>
             <ul className={`text-sm ${isDark ? 'text-yellow-300' : 'text-yellow-700'} space-y-1 list-disc list-inside`}>
               <li>API keys are permanent and don't expire (unless you set an expiration)</li>
+              <li>Grant each key only the scopes and permissions its tool needs</li>
               <li>Keep your API keys confidential and secure</li>
               <li>Don't share them publicly or commit them to version control</li>
               <li>Deactivate or delete compromised keys immediately</li>
@@ -14,11 +14,13 @@ export const ApiStorageTab: React.FC<ApiStorageTabProps> = ({ isDark }) => {
     provider, 
     customKey, 
     selectedModel, 
+    customBaseUrl,
     availableModels,
     setMode, 
     setProvider,
     setCustomKey, 
     setSelectedModel,
+    setCustomBaseUrl,
     clearCustomKey, 
     isCustomKeyValid 
   } = useApiKeys();
@@ -208,6 +210,40 @@ export const ApiStorageTab: React.FC<ApiStorageTabProps> = ({ isDark }) => {
                 </div>
               )}
 
+              {/* Endpoint and model for custom providers */}
+              {provider === 'custom' && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <div>
+                    <label className={`block text-sm font-medium ${isDark ? 'text-gray-300' : 'text-gray-700'} mb-2`}>
+                      Base URL
+                    </label>
+                    <input
+                      type="url"
+                      value={customBaseUrl || ''}
+                      onChange={(e) => setCustomBaseUrl(e.target.value)}
+                      placeholder="https://api.example.com/v1"
+                      className={`w-full p-3 border ${
+                        isDark ? 'border-gray-600 bg-gray-700 text-white' : 'border-gray-200 bg-white'
+                      } rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent`}
+                    />
+                  </div>
+                  <div>
+                    <label className={`block text-sm font-medium ${isDark ? 'text-gray-300' : 'text-gray-700'} mb-2`}>
+                      Model
+                    </label>
+                    <input
+                      type="text"
+                      value={selectedModel || ''}
+                      onChange={(e) => handleModelChange(e.target.value)}
+                      placeholder="gpt-4o-mini"
+                      className={`w-full p-3 border ${
+                        isDark ? 'border-gray-600 bg-gray-700 text-white' : 'border-gray-200 bg-white'
+                      } rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent`}
+                    />
+                  </div>
+                </div>
+              )}
+
               {/* API Key Input */}
               <div>
                 <label className={`block text-sm font-medium ${isDark ? 'text-gray-300' : 'text-gray-700'} mb-2`}>
@@ -1,15 +1,33 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
-import { Plus, Bug, AlertCircle, CheckCircle, Clock, Tag, Brain, MessageSquare, History, Info, Settings, CheckSquare, Edit, ChevronDown, ChevronRight, Search, Filter } from 'lucide-react';
+import { Plus, Bug, AlertCircle, CheckCircle, Clock, Tag, ShieldCheck, RotateCcw, Brain, MessageSquare, History, Info, Settings, CheckSquare, Edit, ChevronDown, ChevronRight, Search, Filter, Puzzle, Copy, Link2 } from 'lucide-react';
 import { FiPlus, FiTrash } from 'react-icons/fi';
 import { FaFire } from 'react-icons/fa';
 import { Project, Bug as BugType, Task } from '../types';
 import { useSupabaseProjects } from '../hooks/useSupabaseProjects';
+import { useOpenItem } from '../hooks/useOpenItem';
 import { useTheme } from '../contexts/ThemeContext';
 import { BlockEditor } from './ui/BlockEditor';
 import { DeleteConfirmationModal } from './ui/DeleteConfirmationModal';
 import { stringToBlocks, blocksToString } from '../utils/blockNoteUtils';
 import { KanbanBoard } from './KanbanBoard';
+import { ContextPackModal } from './ContextPackModal';
+import { RelatedItemsPanel } from './RelatedItemsPanel';
+import { RevisionHistoryPanel } from './RevisionHistoryPanel';
+import { createPatternFromBug, findPatternForSource } from '../services/patternService';
+import { analyzeBug } from '../services/bugAnalysisService';
+import { isAiConfigured } from '../services/aiChatService';
+import { useApiKeys } from '../contexts/ApiKeyContext';
+import { NavigationService, OpenItemPayload } from '../lib/navigation/NavigationService';
+import {
+  BUG_STATUSES,
+  BUG_STATUS_DESCRIPTIONS,
+  BUG_STATUS_LABELS,
+  BugStatus,
+  canTransitionBugStatus,
+  isResolvedBugStatus
+} from '../lib/bugStatus';
+import { LinkItemType } from '../lib/itemLinks';
 
 // Custom sorting icons
 const SortAscIcon = ({ size = 14, className = "" }) => (
@@ -56,23 +74,44 @@ const severityOptions = [
   { id: 'critical' as const, label: 'Critical', description: 'Severe issues that block core functionality' },
 ];
 
-const statusOptions = [
-  { id: 'open' as const, label: 'Open', description: 'Bug is reported and needs to be addressed' },
-  { id: 'in-progress' as const, label: 'In Progress', description: 'Bug is being worked on' },
-  { id: 'fixed' as const, label: 'Fixed', description: 'Bug has been resolved' },
-  { id: 'wont-fix' as const, label: 'Won\'t Fix', description: 'Bug will not be addressed' },
-];
+const statusOptions = BUG_STATUSES.map(id => ({
+  id,
+  label: BUG_STATUS_LABELS[id],
+  description: BUG_STATUS_DESCRIPTIONS[id],
+}));
 
-const statusIcons = {
+const statusIcons: Record<BugStatus, typeof AlertCircle> = {
   open: AlertCircle,
   'in-progress': Clock,
   fixed: CheckCircle,
+  verified: ShieldCheck,
   'wont-fix': Tag,
+  reopened: RotateCcw,
+};
+
+const statusBadgeColors: Record<BugStatus, string> = {
+  open: 'bg-red-100 text-red-800 border-red-200',
+  'in-progress': 'bg-blue-100 text-blue-800 border-blue-200',
+  fixed: 'bg-green-100 text-green-800 border-green-200',
+  verified: 'bg-emerald-100 text-emerald-800 border-emerald-200',
+  'wont-fix': 'bg-gray-100 text-gray-800 border-gray-200',
+  reopened: 'bg-orange-100 text-orange-800 border-orange-200',
+};
+
+const statusIconColors: Record<BugStatus, string> = {
+  open: 'text-red-500',
+  'in-progress': 'text-blue-500',
+  fixed: 'text-green-500',
+  verified: 'text-emerald-500',
+  'wont-fix': 'text-gray-500',
+  reopened: 'text-orange-500',
 };
 
 export const BugsTab: React.FC<BugsTabProps> = ({ project, filterByFeatureId }) => {
-  const { bugs, createBug, updateBug, deleteBug, features, tasks, createTask, updateTask, deleteTask, loading } = useSupabaseProjects();
+  const { bugs, createBug, updateBug, deleteBug, features, tasks, createTask, updateTask, deleteTask, isProjectDataLoading } = useSupabaseProjects();
+  const loading = isProjectDataLoading(project.id, ['bugs']);
   const { isDark } = useTheme();
+  const { getActiveApiConfig } = useApiKeys();
   
   // Use different localStorage keys for sub-tab vs main tab to avoid conflicts
   const storagePrefix = filterByFeatureId ? `featureBug_${filterByFeatureId}` : `selectedBug_${project.id}`;
@@ -85,18 +124,21 @@ export const BugsTab: React.FC<BugsTabProps> = ({ project, filterByFeatureId })
   const [isProjectSwitching, setIsProjectSwitching] = useState(false);
   const currentProjectRef = useRef(project.id);
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [showContextPack, setShowContextPack] = useState(false);
   const [newBugTitle, setNewBugTitle] = useState('');
   const [newBugType, setNewBugType] = useState<BugType['type']>('functional-bug');
   const [selectedFeatureId, setSelectedFeatureId] = useState<string | null>(null);
-  const [activeSubTab, setActiveSubTab] = useState<'info' | 'tasks' | 'reproduction' | 'analysis'>(() => {
+  const [activeSubTab, setActiveSubTab] = useState<'info' | 'tasks' | 'reproduction' | 'analysis' | 'related' | 'history'>(() => {
     const saved = localStorage.getItem(subTabStorageKey);
-    return (saved as 'info' | 'tasks' | 'reproduction' | 'analysis') || 'info';
+    return (saved as 'info' | 'tasks' | 'reproduction' | 'analysis' | 'related' | 'history') || 'info';
   });
   const [isEditingTitle, setIsEditingTitle] = useState(false);
   const [editingTitle, setEditingTitle] = useState('');
   const [showSeverityPopup, setShowSeverityPopup] = useState(false);
   const [showStatusPopup, setShowStatusPopup] = useState(false);
   const [showDeleteConfirmation, setShowDeleteConfirmation] = useState(false);
+  const [patternStatus, setPatternStatus] = useState<{ bugId: string; message: string; isError?: boolean } | null>(null);
+  const [analysisState, setAnalysisState] = useState<{ bugId: string; running: boolean; error?: string } | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedFeatureFilter, setSelectedFeatureFilter] = useState<string | null>(null);
   const [showFeatureFilterPopup, setShowFeatureFilterPopup] = useState(false);
@@ -177,9 +219,9 @@ export const BugsTab: React.FC<BugsTabProps> = ({ project, filterByFeatureId })
     });
   
   // Split filtered bugs by status
-  const openBugs = filteredBugs.filter(bug => bug.status === 'open');
+  const openBugs = filteredBugs.filter(bug => bug.status === 'open' || bug.status === 'reopened');
   const inProgressBugs = filteredBugs.filter(bug => bug.status === 'in-progress');
-  const completedBugs = filteredBugs.filter(bug => bug.status === 'fixed');
+  const completedBugs = filteredBugs.filter(bug => isResolvedBugStatus(bug.status));
   const othersBugs = filteredBugs.filter(bug => bug.status === 'wont-fix');
 
   // Tasks for selected bug
@@ -233,6 +275,15 @@ export const BugsTab: React.FC<BugsTabProps> = ({ project, filterByFeatureId })
     }
   }, [bugs, project.id, selectedBug, storagePrefix, filterByFeatureId, loading, isProjectSwitching]);
 
+  // Select a bug opened from the command palette
+  useOpenItem((item) => {
+    if (filterByFeatureId || item.projectId !== project.id) return;
+    const bug = bugs.find(b => b.id === item.id);
+    if (bug) {
+      setSelectedBug(bug);
+    }
+  }, ['bug']);
+
   // Save selectedBug to localStorage whenever it changes
   useEffect(() => {
     if (selectedBug) {
@@ -355,6 +406,14 @@ export const BugsTab: React.FC<BugsTabProps> = ({ project, filterByFeatureId })
     }
   };
 
+  // A new updatedAt remounts the BlockEditor with the restored content
+  const handleRestoreBug = async (content: string) => {
+    if (selectedBug) {
+      await updateBug(selectedBug.id, { content });
+      setSelectedBug({ ...selectedBug, content, updatedAt: new Date() });
+    }
+  };
+
   const forceSaveCurrentBug = () => {
     if (forceSaveRef.current) {
       forceSaveRef.current();
@@ -407,7 +466,7 @@ export const BugsTab: React.FC<BugsTabProps> = ({ project, filterByFeatureId })
   };
 
   const handleStatusChange = async (newStatus: BugType['status']) => {
-    if (selectedBug && newStatus !== selectedBug.status) {
+    if (selectedBug && newStatus !== selectedBug.status && canTransitionBugStatus(selectedBug.status, newStatus)) {
       await updateBug(selectedBug.id, { status: newStatus });
       setSelectedBug({ ...selectedBug, status: newStatus });
     }
@@ -419,6 +478,8 @@ export const BugsTab: React.FC<BugsTabProps> = ({ project, filterByFeatureId })
     { id: 'tasks' as const, label: 'Tasks', icon: CheckSquare },
     { id: 'reproduction' as const, label: 'Reproduction', icon: Settings },
     { id: 'analysis' as const, label: 'Analysis', icon: Brain },
+    { id: 'related' as const, label: 'Related', icon: Link2 },
+    { id: 'history' as const, label: 'History', icon: History },
   ];
 
   const renderSubTabContent = () => {
@@ -433,11 +494,37 @@ export const BugsTab: React.FC<BugsTabProps> = ({ project, filterByFeatureId })
         return renderReproductionSection();
       case 'analysis':
         return renderAnalysisSection();
+      case 'related':
+        return renderRelatedSection();
+      case 'history':
+        return renderHistorySection();
       default:
         return renderInfoSection();
     }
   };
 
+  const handleSaveAsPattern = async (bug: BugType) => {
+    setPatternStatus({ bugId: bug.id, message: 'Saving...' });
+
+    try {
+      const existing = await findPatternForSource('bug', bug.id);
+      if (existing) {
+        setPatternStatus({ bugId: bug.id, message: 'Already in Patterns' });
+        return;
+      }
+
+      await createPatternFromBug(bug, project.id);
+      setPatternStatus({ bugId: bug.id, message: 'Saved to Patterns' });
+    } catch (error) {
+      console.error('Error saving pattern:', error);
+      setPatternStatus({
+        bugId: bug.id,
+        isError: true,
+        message: error instanceof Error ? error.message : 'Failed to save pattern'
+      });
+    }
+  };
+
   const renderInfoSection = () => {
     if (!selectedBug) return null;
 
@@ -495,7 +582,27 @@ export const BugsTab: React.FC<BugsTabProps> = ({ project, filterByFeatureId })
               {/* Solution */}
               {selectedBug.solution && (
                 <div>
-                  <h4 className={`text-xs font-medium ${isDark ? 'text-gray-300' : 'text-gray-700'} mb-2`}>Proposed Solution</h4>
+                  <div className="flex items-center justify-between mb-2">
+                    <h4 className={`text-xs font-medium ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
+                      {isResolvedBugStatus(selectedBug.status) ? 'Solution' : 'Proposed Solution'}
+                    </h4>
+                    {isResolvedBugStatus(selectedBug.status) && (
+                      <div className="flex items-center space-x-2">
+                        {patternStatus?.bugId === selectedBug.id && (
+                          <span className={`text-xs ${patternStatus.isError ? 'text-red-500' : (isDark ? 'text-gray-400' : 'text-gray-500')}`}>
+                            {patternStatus.message}
+                          </span>
+                        )}
+                        <button
+                          onClick={() => handleSaveAsPattern(selectedBug)}
+                          className={`flex items-center px-2 py-1 text-xs rounded border transition-colors ${isDark ? 'border-gray-700 text-gray-300 hover:bg-gray-800' : 'border-gray-300 text-gray-600 hover:bg-gray-100'}`}
+                        >
+                          <Puzzle size={12} className="mr-1" />
+                          Save as Pattern
+                        </button>
+                      </div>
+                    )}
+                  </div>
                   <div className={`text-sm ${isDark ? 'text-gray-400' : 'text-gray-600'} bg-gray-50 dark:bg-gray-900 p-3 rounded border-l-4 border-l-green-500`}>
                     {selectedBug.solution
                       .split(/\\n|\n/) // Split on both literal \n and actual newlines
@@ -639,26 +746,254 @@ export const BugsTab: React.FC<BugsTabProps> = ({ project, filterByFeatureId })
     );
   };
 
+  const handleAnalyzeBug = async (bug: BugType) => {
+    setAnalysisState({ bugId: bug.id, running: true });
+
+    try {
+      const analysis = await analyzeBug(bug, getActiveApiConfig());
+      await updateBug(bug.id, { analysis });
+      setSelectedBug(prev => (prev?.id === bug.id ? { ...prev, analysis } : prev));
+      setAnalysisState(null);
+    } catch (error) {
+      console.error('Error analyzing bug:', error);
+      setAnalysisState({
+        bugId: bug.id,
+        running: false,
+        error: error instanceof Error ? error.message : 'Failed to analyze bug'
+      });
+    }
+  };
+
+  const openAnalysisItem = (type: LinkItemType, id: string) => {
+    if (type === 'bug') {
+      const bug = bugs.find(b => b.id === id);
+      if (bug) {
+        forceSaveCurrentBug();
+        setSelectedBug(bug);
+        return;
+      }
+    }
+    const payload: OpenItemPayload = { type, id, projectId: project.id };
+    NavigationService.getInstance().navigateTo(type, payload);
+  };
+
   const renderAnalysisSection = () => {
+    if (!selectedBug) return null;
+
+    const analysis = selectedBug.analysis;
+    const isRunning = analysisState?.bugId === selectedBug.id && analysisState.running;
+    const runError = analysisState?.bugId === selectedBug.id ? analysisState.error : undefined;
+    const aiConfigured = isAiConfigured(getActiveApiConfig());
+    const cardStyle = {
+      backgroundColor: isDark ? '#111111' : '#ffffff',
+      borderColor: isDark ? '#2a2a2a' : '#e2e8f0'
+    };
+    const headingClass = `text-sm font-semibold ${isDark ? 'text-gray-200' : 'text-gray-800'} mb-3 flex items-center`;
+    const mutedClass = `text-xs ${isDark ? 'text-gray-500' : 'text-gray-500'}`;
+
+    const analyzeButton = (
+      <button
+        onClick={() => handleAnalyzeBug(selectedBug)}
+        disabled={isRunning}
+        className={`px-4 py-2 rounded-lg border flex items-center ${isDark ? 'border-gray-600 text-gray-300 hover:bg-gray-800' : 'border-gray-300 text-gray-600 hover:bg-gray-50'} transition-colors disabled:opacity-50`}
+      >
+        {isRunning ? (
+          <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin mr-2"></div>
+        ) : (
+          <Brain size={14} className="mr-2" />
+        )}
+        {isRunning ? 'Analyzing...' : analysis ? 'Re-analyze' : 'Analyze Bug'}
+      </button>
+    );
+
+    if (!analysis) {
+      return (
+        <div className={`flex-1 min-h-0 p-4`} style={{ backgroundColor: isDark ? '#0a0a0a' : '#f8fafc' }}>
+          <div 
+            className={`w-full h-full border rounded-lg p-6 overflow-y-auto ${isDark ? 'dark-scrollbar' : 'light-scrollbar'}`} 
+            style={cardStyle}
+          >
+            <div className="text-center py-16 flex flex-col items-center">
+              <Brain className={`w-12 h-12 mx-auto mb-4 ${isDark ? 'text-gray-600' : 'text-gray-400'}`} />
+              <h3 className={`text-lg font-medium ${isDark ? 'text-gray-300' : 'text-gray-700'} mb-2`}>Bug Analysis</h3>
+              <p className={`text-sm ${isDark ? 'text-gray-500' : 'text-gray-500'} mb-4 max-w-md`}>
+                Find similar past bugs and the conversations that changed the affected files
+                {aiConfigured ? ', then generate a root-cause hypothesis and fix plan' : ''}
+              </p>
+              {analyzeButton}
+              {runError && <p className="text-sm text-red-500 mt-3">{runError}</p>}
+              {!aiConfigured && (
+                <p className={`${mutedClass} mt-4`}>Add an AI provider key in Settings → API Storage to get a root-cause hypothesis.</p>
+              )}
+            </div>
+          </div>
+        </div>
+      );
+    }
+
     return (
-      <div className={`flex-1 min-h-0 p-4`} style={{ backgroundColor: isDark ? '#0a0a0a' : '#f8fafc' }}>
-        <div 
-          className={`w-full h-full border rounded-lg p-6 overflow-y-auto ${isDark ? 'dark-scrollbar' : 'light-scrollbar'}`} 
-          style={{ 
-            backgroundColor: isDark ? '#111111' : '#ffffff',
-            borderColor: isDark ? '#2a2a2a' : '#e2e8f0'
-          }}
-        >
-          <div className="text-center py-16">
-            <Brain className={`w-12 h-12 mx-auto mb-4 ${isDark ? 'text-gray-600' : 'text-gray-400'}`} />
-            <h3 className={`text-lg font-medium ${isDark ? 'text-gray-300' : 'text-gray-700'} mb-2`}>Bug Analysis</h3>
-            <p className={`text-sm ${isDark ? 'text-gray-500' : 'text-gray-500'} mb-4`}>Generate AI-powered root cause analysis and fix suggestions</p>
-            <button 
-              className={`px-4 py-2 rounded-lg border ${isDark ? 'border-gray-600 text-gray-300 hover:bg-gray-800' : 'border-gray-300 text-gray-600 hover:bg-gray-50'} transition-colors`}
-            >
-              Analyze Bug
-            </button>
+      <div className={`flex-1 min-h-0 overflow-y-auto ${isDark ? 'dark-scrollbar' : 'light-scrollbar'}`} style={{ backgroundColor: isDark ? '#0a0a0a' : '#f8fafc' }}>
+        <div className="p-4 space-y-4">
+          <div className="flex items-center justify-between">
+            <span className={mutedClass}>Analyzed {new Date(analysis.analyzedAt).toLocaleString()}</span>
+            {analyzeButton}
+          </div>
+          {runError && <p className="text-sm text-red-500">{runError}</p>}
+
+          {/* Root-cause hypothesis */}
+          <div className="border rounded-lg p-4" style={cardStyle}>
+            <h3 className={headingClass}>
+              <Brain size={14} className="mr-2" />
+              Root-Cause Hypothesis
+            </h3>
+            {analysis.hypothesis ? (
+              <div className="space-y-3">
+                <p className={`text-sm ${isDark ? 'text-gray-300' : 'text-gray-700'} whitespace-pre-wrap`}>{analysis.hypothesis.rootCause}</p>
+                {analysis.hypothesis.fixPlan.length > 0 && (
+                  <div>
+                    <h4 className={`text-xs font-medium ${isDark ? 'text-gray-300' : 'text-gray-700'} mb-2`}>Fix Plan</h4>
+                    <ol className={`list-decimal list-inside space-y-1 text-sm ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
+                      {analysis.hypothesis.fixPlan.map((step, index) => (
+                        <li key={index}>{step}</li>
+                      ))}
+                    </ol>
+                  </div>
+                )}
+                <p className={mutedClass}>Confidence: {analysis.hypothesis.confidence} · {analysis.hypothesis.model}</p>
+              </div>
+            ) : (
+              <p className={`text-sm ${analysis.hypothesisError ? 'text-red-500' : isDark ? 'text-gray-500' : 'text-gray-500'}`}>
+                {analysis.hypothesisError || 'Add an AI provider key in Settings → API Storage and re-analyze to get a hypothesis.'}
+              </p>
+            )}
           </div>
+
+          {/* Signals found on the bug */}
+          {(analysis.signals.errorMessages.length > 0 || analysis.signals.files.length > 0) && (
+            <div className="border rounded-lg p-4 space-y-3" style={cardStyle}>
+              {analysis.signals.errorMessages.length > 0 && (
+                <div>
+                  <h4 className={`text-xs font-medium ${isDark ? 'text-gray-300' : 'text-gray-700'} mb-2`}>Error Messages</h4>
+                  <div className="space-y-1">
+                    {analysis.signals.errorMessages.map((message, index) => (
+                      <code key={index} className={`block text-xs p-2 rounded font-mono ${isDark ? 'bg-red-900/20 text-red-300' : 'bg-red-50 text-red-700'}`}>{message}</code>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {analysis.signals.files.length > 0 && (
+                <div>
+                  <h4 className={`text-xs font-medium ${isDark ? 'text-gray-300' : 'text-gray-700'} mb-2`}>Files</h4>
+                  <div className="flex flex-wrap gap-1">
+                    {analysis.signals.files.map(file => (
+                      <span key={file} className={`text-xs px-2 py-0.5 rounded font-mono ${isDark ? 'bg-gray-800 text-gray-300' : 'bg-gray-100 text-gray-700'}`}>{file}</span>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Similar past bugs */}
+          <div className="border rounded-lg p-4" style={cardStyle}>
+            <h3 className={headingClass}>
+              <History size={14} className="mr-2" />
+              Similar Bugs ({analysis.similarBugs.length})
+            </h3>
+            {analysis.similarBugs.length > 0 ? (
+              <div className="space-y-3">
+                {analysis.similarBugs.map(match => (
+                  <div key={match.id} className={`border-l-2 pl-3 ${isResolvedBugStatus(match.status) ? 'border-l-green-500' : 'border-l-gray-400'}`}>
+                    <button
+                      onClick={() => openAnalysisItem('bug', match.id)}
+                      className={`text-sm font-medium text-left hover:underline ${isDark ? 'text-gray-200' : 'text-gray-800'}`}
+                    >
+                      {match.title}
+                    </button>
+                    <div className={mutedClass}>
+                      {BUG_STATUS_LABELS[match.status] || match.status} · {Math.round(match.score * 100)}% match · {match.reasons.join(' · ')}
+                    </div>
+                    {match.solution && (
+                      <p className={`text-sm mt-1 ${isDark ? 'text-gray-400' : 'text-gray-600'} whitespace-pre-wrap`}>
+                        <span className="font-medium">Solution: </span>{match.solution}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className={mutedClass}>No similar bugs in this project</p>
+            )}
+          </div>
+
+          {/* Conversations that changed the affected files */}
+          <div className="border rounded-lg p-4" style={cardStyle}>
+            <h3 className={headingClass}>
+              <MessageSquare size={14} className="mr-2" />
+              Related Conversations ({analysis.relatedConversations.length})
+            </h3>
+            {analysis.relatedConversations.length > 0 ? (
+              <div className="space-y-2">
+                {analysis.relatedConversations.map(conversation => (
+                  <button
+                    key={conversation.id}
+                    onClick={() => openAnalysisItem('conversation', conversation.id)}
+                    className={`w-full text-left p-2 rounded transition-colors ${isDark ? 'hover:bg-gray-800' : 'hover:bg-gray-50'}`}
+                  >
+                    <div className={`text-sm font-medium ${isDark ? 'text-gray-200' : 'text-gray-800'}`}>{conversation.title}</div>
+                    <div className={mutedClass}>
+                      {new Date(conversation.createdAt).toLocaleDateString()}
+                      {conversation.matchedFiles.length > 0 && ` · Changed ${conversation.matchedFiles.join(', ')}`}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <p className={mutedClass}>No conversations changed these files</p>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  const renderRelatedSection = () => {
+    if (!selectedBug) return null;
+
+    return (
+      <div className="flex-1 min-h-0 p-4" style={{ backgroundColor: isDark ? '#0a0a0a' : '#f8fafc' }}>
+        <div className={`w-full h-full border rounded-lg p-6 overflow-y-auto ${isDark ? 'dark-scrollbar' : 'light-scrollbar'}`} style={{
+          backgroundColor: isDark ? '#111111' : '#ffffff',
+          borderColor: isDark ? '#2a2a2a' : '#e2e8f0'
+        }}>
+          <RelatedItemsPanel
+            projectId={project.id}
+            itemType="bug"
+            itemId={selectedBug.id}
+            onOpenItem={openAnalysisItem}
+          />
+        </div>
+      </div>
+    );
+  };
+
+  const renderHistorySection = () => {
+    if (!selectedBug) return null;
+
+    return (
+      <div className="flex-1 min-h-0 p-4" style={{ backgroundColor: isDark ? '#0a0a0a' : '#f8fafc' }}>
+        <div className={`w-full h-full border rounded-lg p-6 overflow-y-auto ${isDark ? 'dark-scrollbar' : 'light-scrollbar'}`} style={{
+          backgroundColor: isDark ? '#111111' : '#ffffff',
+          borderColor: isDark ? '#2a2a2a' : '#e2e8f0'
+        }}>
+          <RevisionHistoryPanel
+            projectId={project.id}
+            itemType="bug"
+            itemId={selectedBug.id}
+            title={selectedBug.title}
+            currentContent={bugs.find(bug => bug.id === selectedBug.id)?.content ?? selectedBug.content ?? ''}
+            onRestore={handleRestoreBug}
+          />
         </div>
       </div>
     );
@@ -1083,11 +1418,7 @@ export const BugsTab: React.FC<BugsTabProps> = ({ project, filterByFeatureId })
                       <button
                         onClick={() => setShowStatusPopup(!showStatusPopup)}
                         className={`px-2 py-1 text-xs font-medium border hover:shadow-md transition-all cursor-pointer ${
-                          !selectedBug.status ? 'bg-gray-100 text-gray-800 border-gray-200' :
-                          selectedBug.status === 'open' ? 'bg-red-100 text-red-800 border-red-200' :
-                          selectedBug.status === 'in-progress' ? 'bg-blue-100 text-blue-800 border-blue-200' :
-                          selectedBug.status === 'fixed' ? 'bg-green-100 text-green-800 border-green-200' :
-                          'bg-gray-100 text-gray-800 border-gray-200'
+                          statusBadgeColors[selectedBug.status] || 'bg-gray-100 text-gray-800 border-gray-200'
                         }`}
                         title="Click to change status"
                       >
@@ -1103,7 +1434,7 @@ export const BugsTab: React.FC<BugsTabProps> = ({ project, filterByFeatureId })
                           <div className="absolute top-full left-0 mt-1 w-64 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg z-50">
                             <div className="p-2">
                               <div className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-2 px-2">Change Status</div>
-                              {statusOptions.map((option) => (
+                              {statusOptions.filter(option => canTransitionBugStatus(selectedBug.status, option.id)).map((option) => (
                                 <button
                                   key={option.id}
                                   onClick={() => handleStatusChange(option.id)}
@@ -1112,12 +1443,7 @@ export const BugsTab: React.FC<BugsTabProps> = ({ project, filterByFeatureId })
                                   }`}
                                 >
                                   <div className="flex items-center space-x-2">
-                                    <span className={`px-2 py-1 text-xs font-medium border rounded ${
-                                      option.id === 'open' ? 'bg-red-100 text-red-800 border-red-200' :
-                                      option.id === 'in-progress' ? 'bg-blue-100 text-blue-800 border-blue-200' :
-                                      option.id === 'fixed' ? 'bg-green-100 text-green-800 border-green-200' :
-                                      'bg-gray-100 text-gray-800 border-gray-200'
-                                    }`}>
+                                    <span className={`px-2 py-1 text-xs font-medium border rounded ${statusBadgeColors[option.id]}`}>
                                       {option.label.toUpperCase()}
                                     </span>
                                   </div>
@@ -1155,7 +1481,17 @@ export const BugsTab: React.FC<BugsTabProps> = ({ project, filterByFeatureId })
                     </span>
                   </div>
                 </div>
-                
+
+                <button
+                  onClick={() => setShowContextPack(true)}
+                  className={`flex items-center px-3 py-1.5 text-xs font-medium rounded-lg border transition-colors ${
+                    isDark ? 'border-gray-600 text-gray-300 hover:bg-gray-800' : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+                  }`}
+                  title="Copy this bug with related bugs, fixes and code changes for a new AI session"
+                >
+                  <Copy size={14} className="mr-1.5" />
+                  Copy for AI
+                </button>
               </div>
 
               {/* Sub Navigation Row */}
@@ -1341,6 +1677,13 @@ export const BugsTab: React.FC<BugsTabProps> = ({ project, filterByFeatureId })
         message="Are you sure you want to delete this bug? All related information will be permanently removed."
         itemName={selectedBug?.title}
       />
+
+      <ContextPackModal
+        isOpen={showContextPack}
+        projectId={project.id}
+        focus={selectedBug ? { type: 'bug', id: selectedBug.id, title: selectedBug.title } : null}
+        onClose={() => setShowContextPack(false)}
+      />
     </div>
   );
 };
@@ -1408,7 +1751,7 @@ const BugSection: React.FC<BugSectionProps> = ({
           className="space-y-1 mt-2 pl-2"
         >
           {bugs.map((bug) => {
-            const StatusIcon = statusIcons[bug.status];
+            const StatusIcon = statusIcons[bug.status] || AlertCircle;
             return (
               <div
                 key={bug.id}
@@ -1426,12 +1769,7 @@ const BugSection: React.FC<BugSectionProps> = ({
                   transition={{ duration: 0.08, ease: "easeOut" }}
                 >
                   <div className="flex items-start space-x-3 w-full">
-                    <StatusIcon size={16} className={`flex-shrink-0 mt-0.5 ${
-                      bug.status === 'open' ? 'text-red-500' :
-                      bug.status === 'in-progress' ? 'text-blue-500' :
-                      bug.status === 'fixed' ? 'text-green-500' :
-                      'text-gray-500'
-                    }`} />
+                    <StatusIcon size={16} className={`flex-shrink-0 mt-0.5 ${statusIconColors[bug.status] || 'text-gray-500'}`} />
                     <div className="min-w-0 flex-1">
                       {/* Bug name */}
                       <div className={`text-sm font-medium leading-tight ${
@@ -1,180 +1,619 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo, useCallback } from 'react';
 import { motion } from 'framer-motion';
-import { Send, Smile, Paperclip, User } from 'lucide-react';
-import { Project } from '../types';
+import { Send, User, Users, Bell, Bug as BugIcon, Lightbulb, MessageSquare, Pencil, Trash2, X, UserPlus, LogOut } from 'lucide-react';
+import { Bug, ChatMessage, Feature, Project } from '../types';
 import { useSupabaseProjects } from '../hooks/useSupabaseProjects';
+import { useRealtimeTable } from '../hooks/useRealtimeStatus';
 import { useAuth } from '../contexts/AuthContext';
 import { useTheme } from '../contexts/ThemeContext';
+import { NavigationService, OpenItemPayload } from '../lib/navigation/NavigationService';
+import {
+  CHAT_MESSAGE_MAX_LENGTH,
+  ChatMember,
+  ChatReferenceType,
+  buildChatThreads,
+  formatChatReference,
+  getChatComposerQuery,
+  parseMentions,
+  splitChatMessage
+} from '../lib/teamChat';
+import { addChatMember, fetchChatMembers, markProjectChatRead, removeChatMember } from '../services/teamChatService';
 
 interface ChatTabProps {
   project: Project;
+  isActive?: boolean;
 }
 
-export const ChatTab: React.FC<ChatTabProps> = ({ project }) => {
-  const { messages, addMessage } = useSupabaseProjects();
+interface ComposerSuggestion {
+  key: string;
+  label: string;
+  detail: string;
+  insert: string;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+interface ChatComposerProps {
+  members: ChatMember[];
+  bugs: Bug[];
+  features: Feature[];
+  placeholder: string;
+  initialValue?: string;
+  autoFocus?: boolean;
+  // Resolve to false to keep the text, e.g. when sending failed
+  onSubmit: (content: string) => Promise<boolean>;
+  onCancel?: () => void;
+}
+
+/**
+ * Message input with @member and #bug / #feature completion
+ */
+const ChatComposer: React.FC<ChatComposerProps> = ({ members, bugs, features, placeholder, initialValue = '', autoFocus, onSubmit, onCancel }) => {
+  const { isDark } = useTheme();
+  const [value, setValue] = useState(initialValue);
+  const [caret, setCaret] = useState(initialValue.length);
+  const [highlighted, setHighlighted] = useState(0);
+  const [sending, setSending] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const query = getChatComposerQuery(value, caret);
+  const trigger = query?.trigger;
+  const needle = query?.query.toLowerCase() || '';
+
+  const suggestions = useMemo<ComposerSuggestion[]>(() => {
+    if (!trigger) return [];
+
+    if (trigger === '@') {
+      return members
+        .filter(member => member.displayName.toLowerCase().includes(needle))
+        .slice(0, MAX_SUGGESTIONS)
+        .map(member => ({ key: member.userId, label: member.displayName, detail: member.role, insert: `@${member.displayName} ` }));
+    }
+
+    const items: Array<{ type: ChatReferenceType; id: string; title: string }> = [
+      ...bugs.map(bug => ({ type: 'bug' as const, id: bug.id, title: bug.title })),
+      ...features.map(feature => ({ type: 'feature' as const, id: feature.id, title: feature.title }))
+    ];
+    return items
+      .filter(item => item.title.toLowerCase().includes(needle))
+      .slice(0, MAX_SUGGESTIONS)
+      .map(item => ({ key: `${item.type}:${item.id}`, label: item.title, detail: item.type, insert: `${formatChatReference(item)} ` }));
+  }, [trigger, needle, members, bugs, features]);
+
+  useEffect(() => {
+    setHighlighted(0);
+  }, [suggestions.length]);
+
+  const applySuggestion = (suggestion: ComposerSuggestion) => {
+    if (!query) return;
+    const next = value.slice(0, query.start) + suggestion.insert + value.slice(caret);
+    const nextCaret = query.start + suggestion.insert.length;
+    setValue(next);
+    setCaret(nextCaret);
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(nextCaret, nextCaret);
+    });
+  };
+
+  const submit = async () => {
+    const content = value.trim();
+    if (!content || sending) return;
+    setSending(true);
+    try {
+      if (await onSubmit(content)) {
+        setValue('');
+        setCaret(0);
+      }
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setHighlighted(prev => (prev + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        applySuggestion(suggestions[highlighted]);
+        return;
+      }
+    }
+    if (e.key === 'Escape' && onCancel) {
+      e.preventDefault();
+      onCancel();
+      return;
+    }
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      submit();
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-end space-x-3">
+        <div className="flex-1 relative">
+          {suggestions.length > 0 && (
+            <div
+              className="absolute bottom-full left-0 mb-2 w-72 border rounded-lg shadow-lg overflow-hidden z-10"
+              style={{ backgroundColor: isDark ? '#1a1a1a' : '#ffffff', borderColor: isDark ? '#2a2a2a' : '#e2e8f0' }}
+            >
+              {suggestions.map((suggestion, index) => (
+                <button
+                  key={suggestion.key}
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    applySuggestion(suggestion);
+                  }}
+                  className={`w-full flex items-center justify-between px-3 py-2 text-left text-sm ${
+                    index === highlighted
+                      ? (isDark ? 'bg-gray-800 text-white' : 'bg-gray-100 text-gray-900')
+                      : (isDark ? 'text-gray-300' : 'text-gray-700')
+                  }`}
+                >
+                  <span className="truncate">{suggestion.label}</span>
+                  <span className={`ml-2 text-xs ${isDark ? 'text-gray-500' : 'text-gray-400'}`}>{suggestion.detail}</span>
+                </button>
+              ))}
+            </div>
+          )}
+          <textarea
+            ref={textareaRef}
+            value={value}
+            autoFocus={autoFocus}
+            maxLength={CHAT_MESSAGE_MAX_LENGTH}
+            onChange={(e) => {
+              setValue(e.target.value);
+              setCaret(e.target.selectionStart);
+            }}
+            onSelect={(e) => setCaret(e.currentTarget.selectionStart)}
+            onKeyDown={handleKeyDown}
+            placeholder={placeholder}
+            rows={1}
+            className="w-full p-3 border rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none transition-all duration-200"
+            style={{
+              borderColor: isDark ? '#2a2a2a' : '#e2e8f0',
+              backgroundColor: isDark ? '#0f172a' : '#f8fafc',
+              color: isDark ? '#ffffff' : '#000000',
+              minHeight: '48px',
+              maxHeight: '120px'
+            }}
+          />
+        </div>
+
+        <button
+          onClick={submit}
+          disabled={!value.trim() || sending}
+          className="p-3 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-2xl hover:from-blue-700 hover:to-blue-800 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed shadow-sm hover:shadow-md"
+        >
+          <Send size={18} />
+        </button>
+      </div>
+
+      <div className={`flex items-center justify-between mt-2 text-xs ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+        <span>
+          {onCancel ? 'Enter to save, Esc to cancel' : 'Enter to send, Shift + Enter for new line, @ to mention, # for a bug or feature'}
+        </span>
+        <span className="font-medium">{value.length}/{CHAT_MESSAGE_MAX_LENGTH}</span>
+      </div>
+    </div>
+  );
+};
+
+export const ChatTab: React.FC<ChatTabProps> = ({ project, isActive = true }) => {
+  const { messages, bugs, features, addMessage, updateMessage, deleteMessage, refreshData } = useSupabaseProjects();
   const { user } = useAuth();
   const { isDark } = useTheme();
-  const [newMessage, setNewMessage] = useState('');
+  const [members, setMembers] = useState<ChatMember[]>([]);
+  const [showMembers, setShowMembers] = useState(false);
+  const [memberEmail, setMemberEmail] = useState('');
+  const [openThreadId, setOpenThreadId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [notificationPermission, setNotificationPermission] = useState(
+    typeof Notification === 'undefined' ? 'denied' : Notification.permission
+  );
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
-  const projectMessages = messages.filter(m => m.projectId === project.id);
-  const currentUser = user?.user_metadata?.full_name || user?.email?.split('@')[0] || 'You';
+  const projectMessages = useMemo(() => messages.filter(m => m.projectId === project.id), [messages, project.id]);
+  const projectBugs = useMemo(() => bugs.filter(b => b.projectId === project.id), [bugs, project.id]);
+  const projectFeatures = useMemo(() => features.filter(f => f.projectId === project.id), [features, project.id]);
+  const threads = useMemo(() => buildChatThreads(projectMessages), [projectMessages]);
+  const openThread = threads.find(thread => thread.root.id === openThreadId) || null;
+
+  const isOwner = !project.userId || project.userId === user?.id;
+
+  const loadMembers = useCallback(async () => {
+    try {
+      setMembers(await fetchChatMembers(project.id));
+    } catch (error) {
+      console.error('Error loading chat members:', error);
+    }
+  }, [project.id]);
+
+  useEffect(() => {
+    loadMembers();
+  }, [loadMembers]);
+
+  useRealtimeTable('project_members', loadMembers);
 
-  const scrollToBottom = () => {
+  useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  };
+  }, [threads.length]);
 
+  // Opening the chat, or receiving messages while it is open, marks it read
   useEffect(() => {
-    scrollToBottom();
-  }, [projectMessages]);
+    if (!isActive) return;
+    markProjectChatRead(project.id).catch(error => console.error('Error marking chat read:', error));
+  }, [isActive, project.id, projectMessages.length]);
 
-  const handleSendMessage = () => {
-    if (newMessage.trim()) {
-      addMessage(project.id, currentUser, newMessage.trim());
-      setNewMessage('');
+  const runAction = async (action: () => Promise<unknown>): Promise<boolean> => {
+    try {
+      setErrorMessage(null);
+      await action();
+      return true;
+    } catch (error) {
+      console.error('Chat error:', error);
+      setErrorMessage(error instanceof Error ? error.message : 'Something went wrong');
+      return false;
     }
   };
 
-  const handleKeyPress = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter' && !e.shiftKey) {
-      e.preventDefault();
-      handleSendMessage();
+  const sendMessage = (parentId: string | null) => (content: string) =>
+    runAction(() => addMessage(project.id, content, { parentId, mentions: parseMentions(content, members) }));
+
+  const saveEdit = (message: ChatMessage) => (content: string) =>
+    runAction(async () => {
+      await updateMessage(message.id, content, parseMentions(content, members));
+      setEditingId(null);
+    });
+
+  const handleDelete = (message: ChatMessage) => {
+    if (window.confirm('Delete this message?')) {
+      runAction(() => deleteMessage(message.id));
+    }
+  };
+
+  const handleAddMember = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!memberEmail.trim()) return;
+    runAction(async () => {
+      const member = await addChatMember(project.id, memberEmail);
+      setMembers(prev => [...prev.filter(m => m.userId !== member.userId), member]);
+      setMemberEmail('');
+    });
+  };
+
+  const handleRemoveMember = (member: ChatMember) => {
+    const leaving = member.userId === user?.id;
+    if (!window.confirm(leaving ? `Leave the ${project.name} chat?` : `Remove ${member.displayName} from this chat?`)) return;
+    runAction(async () => {
+      await removeChatMember(project.id, member.userId);
+      if (leaving) {
+        await refreshData();
+      } else {
+        setMembers(prev => prev.filter(m => m.userId !== member.userId));
+      }
+    });
+  };
+
+  const requestNotifications = async () => {
+    setNotificationPermission(await Notification.requestPermission());
+  };
+
+  const openReference = (type: ChatReferenceType, id: string) => {
+    const payload: OpenItemPayload = { type, id, projectId: project.id };
+    NavigationService.getInstance().navigateTo(type, payload);
+  };
+
+  const renderReference = (type: ChatReferenceType, id: string, key: number) => {
+    const item = type === 'bug' ? projectBugs.find(b => b.id === id) : projectFeatures.find(f => f.id === id);
+    const Icon = type === 'bug' ? BugIcon : Lightbulb;
+
+    // Only the project owner can read its bugs and features
+    if (!item) {
+      return (
+        <span key={key} className={`inline-flex items-center px-2 py-0.5 mx-0.5 text-xs rounded border ${isDark ? 'border-gray-700 text-gray-500' : 'border-gray-200 text-gray-400'}`}>
+          <Icon size={12} className="mr-1" />
+          {type === 'bug' ? 'Bug' : 'Feature'} not available
+        </span>
+      );
+    }
+
+    return (
+      <button
+        key={key}
+        onClick={() => openReference(type, id)}
+        className={`flex items-center w-full my-1.5 px-3 py-2 text-left rounded-lg border transition-colors ${
+          isDark ? 'border-gray-700 bg-gray-900 hover:bg-gray-800 text-gray-200' : 'border-gray-200 bg-gray-50 hover:bg-gray-100 text-gray-800'
+        }`}
+      >
+        <Icon size={14} className={`mr-2 flex-shrink-0 ${type === 'bug' ? 'text-red-500' : 'text-yellow-500'}`} />
+        <span className="flex-1 min-w-0 truncate text-sm font-medium">{item.title}</span>
+        <span className={`ml-2 text-xs capitalize ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>{item.status.replace('-', ' ')}</span>
+      </button>
+    );
+  };
+
+  const renderContent = (message: ChatMessage, own: boolean) => {
+    if (message.deletedAt) {
+      return <p className="text-sm italic opacity-70">Message deleted</p>;
+    }
+
+    return (
+      <div className="text-sm leading-relaxed whitespace-pre-wrap break-words">
+        {splitChatMessage(message.content, members).map((segment, index) => {
+          if (segment.kind === 'mention') {
+            const isMe = segment.userId === user?.id;
+            return (
+              <span
+                key={index}
+                className={`px-1 rounded font-medium ${
+                  own ? 'bg-white/20' : isMe ? 'bg-blue-500/20 text-blue-500' : (isDark ? 'bg-gray-800' : 'bg-gray-100')
+                }`}
+              >
+                {segment.text}
+              </span>
+            );
+          }
+          if (segment.kind === 'reference') {
+            return renderReference(segment.type, segment.id, index);
+          }
+          return <React.Fragment key={index}>{segment.text}</React.Fragment>;
+        })}
+      </div>
+    );
+  };
+
+  const renderMessage = (message: ChatMessage, replyCount?: number) => {
+    const own = !!user && message.userId === user.id;
+
+    if (editingId === message.id) {
+      return (
+        <div key={message.id} className="w-full">
+          <ChatComposer
+            members={members}
+            bugs={projectBugs}
+            features={projectFeatures}
+            placeholder="Edit message..."
+            initialValue={message.content}
+            autoFocus
+            onSubmit={saveEdit(message)}
+            onCancel={() => setEditingId(null)}
+          />
+        </div>
+      );
     }
+
+    return (
+      <motion.div
+        key={message.id}
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className={`group flex ${own ? 'justify-end' : 'justify-start'}`}
+      >
+        <div className={`max-w-xs lg:max-w-md xl:max-w-lg ${own ? 'order-2' : 'order-1'}`}>
+          <div
+            className={`rounded-2xl px-5 py-3 shadow-sm ${own && !message.deletedAt ? 'bg-gradient-to-r from-blue-600 to-blue-700 text-white' : 'border'}`}
+            style={{
+              backgroundColor: own && !message.deletedAt ? undefined : (isDark ? '#1a1a1a' : '#ffffff'),
+              color: own && !message.deletedAt ? '#ffffff' : (isDark ? '#ffffff' : '#000000'),
+              borderColor: own && !message.deletedAt ? 'transparent' : (isDark ? '#2a2a2a' : '#e2e8f0')
+            }}
+          >
+            {renderContent(message, own)}
+          </div>
+          <div className={`flex items-center space-x-2 mt-1.5 text-xs ${isDark ? 'text-gray-400' : 'text-gray-500'} ${own ? 'justify-end' : 'justify-start'}`}>
+            <span className="font-medium">{message.author}</span>
+            <span>•</span>
+            <span>{new Date(message.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+            {message.editedAt && !message.deletedAt && <span>(edited)</span>}
+            {replyCount !== undefined && (
+              <button onClick={() => setOpenThreadId(message.id)} className="flex items-center text-blue-500 hover:underline">
+                <MessageSquare size={12} className="mr-1" />
+                {replyCount > 0 ? `${replyCount} ${replyCount === 1 ? 'reply' : 'replies'}` : 'Reply'}
+              </button>
+            )}
+            {own && !message.deletedAt && (
+              <span className="hidden group-hover:flex items-center space-x-1">
+                <button onClick={() => setEditingId(message.id)} className="p-0.5 hover:text-blue-500" title="Edit">
+                  <Pencil size={12} />
+                </button>
+                <button onClick={() => handleDelete(message)} className="p-0.5 hover:text-red-500" title="Delete">
+                  <Trash2 size={12} />
+                </button>
+              </span>
+            )}
+          </div>
+        </div>
+
+        <div
+          className={`w-9 h-9 rounded-full flex items-center justify-center flex-shrink-0 ${own ? 'order-1 mr-3' : 'order-2 ml-3'}`}
+          style={{ backgroundColor: isDark ? '#1a1a1a' : '#f1f5f9' }}
+        >
+          <User size={16} className={`${isDark ? 'text-gray-400' : 'text-gray-600'}`} />
+        </div>
+      </motion.div>
+    );
+  };
+
+  const panelStyle = {
+    backgroundColor: isDark ? '#1a1a1a' : '#ffffff',
+    borderColor: isDark ? '#2a2a2a' : '#e2e8f0'
   };
 
   return (
     <div className="flex flex-col h-full">
       {/* Header */}
-      <div className={`p-6 border-b`} style={{ 
-        backgroundColor: isDark ? '#1a1a1a' : '#ffffff',
-        borderColor: isDark ? '#2a2a2a' : '#e2e8f0'
-      }}>
+      <div className="p-6 border-b" style={panelStyle}>
         <div className="flex items-center justify-between">
           <div>
-            <h2 className={`text-2xl font-bold ${isDark ? 'text-white' : 'text-gray-900'} mb-2`}>Project Chat (Coming soon)</h2>
+            <h2 className={`text-2xl font-bold ${isDark ? 'text-white' : 'text-gray-900'} mb-2`}>Project Chat</h2>
             <p className={`text-sm ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>Team communication for {project.name}</p>
           </div>
-          
-          <div className="flex items-center space-x-3">
-            <div className="flex items-center space-x-2">
-              <div className="w-3 h-3 bg-green-500 rounded-full animate-pulse"></div>
-              <span className={`text-sm font-medium ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>Online</span>
-            </div>
+
+          <div className="flex items-center space-x-2">
+            {notificationPermission === 'default' && (
+              <button
+                onClick={requestNotifications}
+                className={`flex items-center px-3 py-2 text-sm rounded-lg ${isDark ? 'text-gray-300 hover:bg-gray-800' : 'text-gray-600 hover:bg-gray-100'}`}
+                title="Get a desktop notification when someone mentions you"
+              >
+                <Bell size={16} className="mr-1.5" />
+                Notify me
+              </button>
+            )}
+            <button
+              onClick={() => setShowMembers(prev => !prev)}
+              className={`flex items-center px-3 py-2 text-sm rounded-lg ${
+                showMembers
+                  ? (isDark ? 'bg-gray-800 text-white' : 'bg-gray-100 text-gray-900')
+                  : (isDark ? 'text-gray-300 hover:bg-gray-800' : 'text-gray-600 hover:bg-gray-100')
+              }`}
+            >
+              <Users size={16} className="mr-1.5" />
+              {members.length} {members.length === 1 ? 'member' : 'members'}
+            </button>
           </div>
         </div>
+
+        {errorMessage && (
+          <p className="mt-3 text-sm text-red-500">{errorMessage}</p>
+        )}
       </div>
 
-      {/* Messages */}
-      <div className={`flex-1 overflow-y-auto p-6 space-y-6`} style={{ backgroundColor: isDark ? '#0a0a0a' : '#f8fafc' }}>
-        {projectMessages.length > 0 ? (
-          <>
-            {projectMessages.map((message) => (
-              <motion.div
-                key={message.id}
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                className={`flex ${message.author === currentUser ? 'justify-end' : 'justify-start'}`}
-              >
-                <div className={`max-w-xs lg:max-w-md xl:max-w-lg ${
-                  message.author === currentUser ? 'order-2' : 'order-1'
-                }`}>
-                  <div className={`rounded-2xl px-6 py-4 shadow-sm ${
-                    message.author === currentUser
-                      ? 'bg-gradient-to-r from-blue-600 to-blue-700 text-white'
-                      : `border`
-                  }`}
-                  style={{
-                    backgroundColor: message.author === currentUser 
-                      ? undefined
-                      : (isDark ? '#1a1a1a' : '#ffffff'),
-                    color: message.author === currentUser 
-                      ? '#ffffff'
-                      : (isDark ? '#ffffff' : '#000000'),
-                    borderColor: message.author === currentUser 
-                      ? 'transparent'
-                      : (isDark ? '#2a2a2a' : '#e2e8f0')
-                  }}
-                  >
-                    <p className="text-sm leading-relaxed">{message.content}</p>
+      <div className="flex flex-1 min-h-0">
+        <div className="flex flex-col flex-1 min-w-0">
+          {/* Messages */}
+          <div className="flex-1 overflow-y-auto p-6 space-y-5" style={{ backgroundColor: isDark ? '#0a0a0a' : '#f8fafc' }}>
+            {threads.length > 0 ? (
+              <>
+                {threads.map(thread => renderMessage(thread.root, thread.replies.length))}
+                <div ref={messagesEndRef} />
+              </>
+            ) : (
+              <div className="h-full flex items-center justify-center">
+                <div className={`text-center ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+                  <div className="w-20 h-20 rounded-2xl flex items-center justify-center mx-auto mb-6" style={{ backgroundColor: isDark ? '#1a1a1a' : '#ffffff' }}>
+                    <Send className="w-10 h-10 opacity-30" />
                   </div>
-                  <div className={`flex items-center space-x-2 mt-2 text-xs ${isDark ? 'text-gray-400' : 'text-gray-500'} ${
-                    message.author === currentUser ? 'justify-end' : 'justify-start'
-                  }`}>
-                    <span className="font-medium">{message.author}</span>
-                    <span>•</span>
-                    <span>{new Date(message.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
-                  </div>
-                </div>
-                
-                <div className={`w-10 h-10 rounded-full flex items-center justify-center ${
-                  message.author === currentUser ? 'order-1 mr-4' : 'order-2 ml-4'
-                }`} style={{ backgroundColor: isDark ? '#1a1a1a' : '#f1f5f9' }}>
-                  <User size={16} className={`${isDark ? 'text-gray-400' : 'text-gray-600'}`} />
+                  <p className="text-xl font-semibold mb-2">Start the conversation</p>
+                  <p className="text-sm">Send your first message to get the team chat going!</p>
                 </div>
-              </motion.div>
-            ))}
-            <div ref={messagesEndRef} />
-          </>
-        ) : (
-          <div className="flex-1 flex items-center justify-center">
-            <div className={`text-center ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
-              <div className={`w-20 h-20 rounded-2xl flex items-center justify-center mx-auto mb-6`} style={{ backgroundColor: isDark ? '#1a1a1a' : '#ffffff' }}>
-                <Send className={`w-10 h-10 opacity-30`} />
               </div>
-              <p className="text-xl font-semibold mb-2">Start the conversation</p>
-              <p className="text-sm">Send your first message to get the team chat going!</p>
-            </div>
+            )}
           </div>
-        )}
-      </div>
 
-      {/* Message Input */}
-      <div className={`p-6 border-t`} style={{ 
-        backgroundColor: isDark ? '#1a1a1a' : '#ffffff',
-        borderColor: isDark ? '#2a2a2a' : '#e2e8f0'
-      }}>
-        <div className="flex items-end space-x-4">
-          <div className="flex-1 relative">
-            <textarea
-              value={newMessage}
-              onChange={(e) => setNewMessage(e.target.value)}
-              onKeyPress={handleKeyPress}
+          {/* Message Input */}
+          <div className="p-6 border-t" style={panelStyle}>
+            <ChatComposer
+              members={members}
+              bugs={projectBugs}
+              features={projectFeatures}
               placeholder="Type a message..."
-              rows={1}
-              className={`w-full p-4 pr-16 border rounded-2xl focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none transition-all duration-200`}
-              style={{ 
-                borderColor: isDark ? '#2a2a2a' : '#e2e8f0',
-                backgroundColor: isDark ? '#0f172a' : '#f8fafc',
-                color: isDark ? '#ffffff' : '#000000',
-                minHeight: '56px',
-                maxHeight: '120px'
-              }}
+              onSubmit={sendMessage(null)}
             />
-            
-            <div className="absolute right-4 bottom-4 flex items-center space-x-2">
-              <button className={`${isDark ? 'text-gray-500 hover:text-gray-300' : 'text-gray-400 hover:text-gray-600'} transition-colors p-1 rounded-lg hover:bg-gray-100/10`}>
-                <Smile size={18} />
+          </div>
+        </div>
+
+        {/* Thread */}
+        {openThread && (
+          <div className="w-96 flex flex-col border-l" style={panelStyle}>
+            <div className="flex items-center justify-between px-4 py-3 border-b" style={{ borderColor: panelStyle.borderColor }}>
+              <h3 className={`text-sm font-semibold ${isDark ? 'text-white' : 'text-gray-900'}`}>Thread</h3>
+              <button onClick={() => setOpenThreadId(null)} className={isDark ? 'text-gray-400 hover:text-white' : 'text-gray-500 hover:text-gray-900'}>
+                <X size={16} />
               </button>
-              <button className={`${isDark ? 'text-gray-500 hover:text-gray-300' : 'text-gray-400 hover:text-gray-600'} transition-colors p-1 rounded-lg hover:bg-gray-100/10`}>
-                <Paperclip size={18} />
+            </div>
+            <div className="flex-1 overflow-y-auto p-4 space-y-4">
+              {renderMessage(openThread.root)}
+              <div className={`text-xs ${isDark ? 'text-gray-500' : 'text-gray-400'}`}>
+                {openThread.replies.length} {openThread.replies.length === 1 ? 'reply' : 'replies'}
+              </div>
+              {openThread.replies.map(reply => renderMessage(reply))}
+            </div>
+            <div className="p-4 border-t" style={{ borderColor: panelStyle.borderColor }}>
+              <ChatComposer
+                key={openThread.root.id}
+                members={members}
+                bugs={projectBugs}
+                features={projectFeatures}
+                placeholder="Reply in thread..."
+                autoFocus
+                onSubmit={sendMessage(openThread.root.id)}
+              />
+            </div>
+          </div>
+        )}
+
+        {/* Members */}
+        {showMembers && !openThread && (
+          <div className="w-72 flex flex-col border-l" style={panelStyle}>
+            <div className="flex items-center justify-between px-4 py-3 border-b" style={{ borderColor: panelStyle.borderColor }}>
+              <h3 className={`text-sm font-semibold ${isDark ? 'text-white' : 'text-gray-900'}`}>Members</h3>
+              <button onClick={() => setShowMembers(false)} className={isDark ? 'text-gray-400 hover:text-white' : 'text-gray-500 hover:text-gray-900'}>
+                <X size={16} />
               </button>
             </div>
+            <div className="flex-1 overflow-y-auto p-2">
+              {members.map(member => (
+                <div key={member.userId} className={`flex items-center justify-between px-2 py-2 rounded-lg ${isDark ? 'hover:bg-gray-800' : 'hover:bg-gray-50'}`}>
+                  <div className="min-w-0">
+                    <p className={`text-sm truncate ${isDark ? 'text-gray-200' : 'text-gray-800'}`}>
+                      {member.displayName}{member.userId === user?.id ? ' (you)' : ''}
+                    </p>
+                    <p className={`text-xs capitalize ${isDark ? 'text-gray-500' : 'text-gray-400'}`}>{member.role}</p>
+                  </div>
+                  {member.role === 'member' && (isOwner || member.userId === user?.id) && (
+                    <button
+                      onClick={() => handleRemoveMember(member)}
+                      className={`p-1 rounded ${isDark ? 'text-gray-500 hover:text-red-400' : 'text-gray-400 hover:text-red-500'}`}
+                      title={member.userId === user?.id ? 'Leave chat' : 'Remove from chat'}
+                    >
+                      {member.userId === user?.id ? <LogOut size={14} /> : <X size={14} />}
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+            {isOwner && (
+              <form onSubmit={handleAddMember} className="p-3 border-t" style={{ borderColor: panelStyle.borderColor }}>
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="email"
+                    value={memberEmail}
+                    onChange={(e) => setMemberEmail(e.target.value)}
+                    placeholder="teammate@example.com"
+                    className="flex-1 min-w-0 px-3 py-2 text-sm border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    style={{
+                      borderColor: isDark ? '#2a2a2a' : '#e2e8f0',
+                      backgroundColor: isDark ? '#0f172a' : '#f8fafc',
+                      color: isDark ? '#ffffff' : '#000000'
+                    }}
+                  />
+                  <button
+                    type="submit"
+                    disabled={!memberEmail.trim()}
+                    className="p-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                    title="Add to chat"
+                  >
+                    <UserPlus size={16} />
+                  </button>
+                </div>
+                <p className={`mt-2 text-xs ${isDark ? 'text-gray-500' : 'text-gray-400'}`}>
+                  Members only see this project's chat.
+                </p>
+              </form>
+            )}
           </div>
-          
-          <button
-            onClick={handleSendMessage}
-            disabled={!newMessage.trim()}
-            className="p-4 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-2xl hover:from-blue-700 hover:to-blue-800 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed shadow-sm hover:shadow-md"
-          >
-            <Send size={18} />
-          </button>
-        </div>
-        
-        <div className={`flex items-center justify-between mt-3 text-xs ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
-          <span>Press Enter to send, Shift + Enter for new line</span>
-          <span className="font-medium">{newMessage.length}/1000</span>
-        </div>
+        )}
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
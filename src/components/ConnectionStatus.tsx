@@ -1,13 +1,66 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { Database, CheckCircle, XCircle, AlertCircle, RefreshCw } from 'lucide-react';
+import { Database, CheckCircle, XCircle, AlertCircle, RefreshCw, X } from 'lucide-react';
 import { testSupabaseConnection } from '../lib/supabase';
 import { useTheme } from '../contexts/ThemeContext';
+import { useRealtimeStatus } from '../hooks/useRealtimeStatus';
+import { RealtimeStatus } from '../services/realtimeSync';
+
+const realtimeLabels: Record<RealtimeStatus, string> = {
+  idle: 'Not syncing',
+  connecting: 'Connecting...',
+  live: 'Live',
+  reconnecting: 'Reconnecting...',
+  offline: 'Offline',
+};
+
+const realtimeDotColors: Record<RealtimeStatus, string> = {
+  idle: 'bg-gray-400',
+  connecting: 'bg-blue-500 animate-pulse',
+  live: 'bg-green-500',
+  reconnecting: 'bg-yellow-500 animate-pulse',
+  offline: 'bg-red-500',
+};
 
 export const ConnectionStatus: React.FC = () => {
-  // Hide the connection status from users - this is for internal use only
-  return null;
-  
+  const realtime = useRealtimeStatus();
+  // The connection details panel is for troubleshooting and only opens from the indicator
+  const [showDetails, setShowDetails] = useState(false);
+
+  if (realtime.status === 'idle') {
+    return null;
+  }
+
+  return (
+    <>
+      <button
+        onClick={() => setShowDetails(prev => !prev)}
+        className="fixed bottom-4 left-4 z-40 flex items-center gap-1.5 px-2 py-1 rounded-full text-[11px] font-medium bg-black/60 text-gray-100 hover:bg-black/80 transition-colors"
+        title={realtime.lastEventAt
+          ? `Realtime sync: ${realtimeLabels[realtime.status]} (last change ${realtime.lastEventAt.toLocaleTimeString()})`
+          : `Realtime sync: ${realtimeLabels[realtime.status]}`}
+      >
+        <span className={`w-2 h-2 rounded-full ${realtimeDotColors[realtime.status]}`} />
+        {realtimeLabels[realtime.status]}
+      </button>
+      {showDetails && (
+        <ConnectionDetails
+          realtimeStatus={realtime.status}
+          realtimeError={realtime.error}
+          onClose={() => setShowDetails(false)}
+        />
+      )}
+    </>
+  );
+};
+
+interface ConnectionDetailsProps {
+  realtimeStatus: RealtimeStatus;
+  realtimeError: string | null;
+  onClose: () => void;
+}
+
+const ConnectionDetails: React.FC<ConnectionDetailsProps> = ({ realtimeStatus, realtimeError, onClose }) => {
   const { isDark } = useTheme();
   const [connectionStatus, setConnectionStatus] = useState<{
     connected: boolean;
@@ -80,9 +133,9 @@ export const ConnectionStatus: React.FC = () => {
 
   return (
     <motion.div
-      initial={{ opacity: 0, y: -10 }}
+      initial={{ opacity: 0, y: 10 }}
       animate={{ opacity: 1, y: 0 }}
-      className={`fixed top-4 right-4 z-50 ${isDark ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'} border rounded-lg shadow-lg p-4 max-w-sm`}
+      className={`fixed bottom-12 left-4 z-50 ${isDark ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'} border rounded-lg shadow-lg p-4 max-w-sm`}
     >
       <div className="flex items-center space-x-3">
         <Database size={20} className={isDark ? 'text-gray-400' : 'text-gray-600'} />
@@ -93,6 +146,16 @@ export const ConnectionStatus: React.FC = () => {
               {getStatusText()}
             </span>
           </div>
+
+          <div className={`mt-1 flex items-center space-x-2 text-xs ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+            <span className={`w-2 h-2 rounded-full ${realtimeDotColors[realtimeStatus]}`} />
+            <span>Realtime sync: {realtimeLabels[realtimeStatus]}</span>
+          </div>
+          {realtimeError && (
+            <p className={`text-xs mt-1 ${isDark ? 'text-red-400' : 'text-red-600'}`}>
+              {realtimeError}
+            </p>
+          )}
           
           {connectionStatus.error && (
             <div className="mt-2">
@@ -129,6 +192,13 @@ export const ConnectionStatus: React.FC = () => {
         >
           <RefreshCw size={16} className={connectionStatus.loading ? 'animate-spin' : ''} />
         </button>
+        <button
+          onClick={onClose}
+          className={`p-2 ${isDark ? 'hover:bg-gray-700' : 'hover:bg-gray-100'} rounded-lg transition-colors`}
+          title="Close"
+        >
+          <X size={16} />
+        </button>
       </div>
     </motion.div>
   );
@@ -0,0 +1,238 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { AlertTriangle, Check, Copy, Download, X } from 'lucide-react';
+import { useTheme } from '../contexts/ThemeContext';
+import {
+  CONTEXT_PACK_FORMATS,
+  CONTEXT_PACK_FORMAT_LABELS,
+  CONTEXT_PACK_SECTIONS,
+  CONTEXT_PACK_SECTION_TITLES,
+  CONTEXT_PACK_TOKEN_BUDGETS,
+  ContextPackFocusType,
+  ContextPackFormat,
+  ContextPackInput,
+  DEFAULT_CONTEXT_PACK_TOKEN_BUDGET,
+  buildContextPack
+} from '../lib/contextPack';
+import { fetchContextPackInput } from '../services/contextPackService';
+
+export interface ContextPackFocus {
+  type: ContextPackFocusType;
+  id: string;
+  title: string;
+}
+
+interface ContextPackModalProps {
+  isOpen: boolean;
+  projectId: string;
+  focus: ContextPackFocus | null;
+  onClose: () => void;
+}
+
+export const ContextPackModal: React.FC<ContextPackModalProps> = ({ isOpen, projectId, focus, onClose }) => {
+  const { isDark } = useTheme();
+  const [format, setFormat] = useState<ContextPackFormat>('markdown');
+  const [tokenBudget, setTokenBudget] = useState<number>(DEFAULT_CONTEXT_PACK_TOKEN_BUDGET);
+  const [input, setInput] = useState<ContextPackInput | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const mutedText = isDark ? 'text-gray-400' : 'text-gray-500';
+
+  const focusType = focus?.type;
+  const focusId = focus?.id;
+
+  // Load the rows once per focus item; format and budget changes only rebuild the pack
+  useEffect(() => {
+    if (!isOpen || !focusType || !focusId) return;
+
+    let cancelled = false;
+    setInput(null);
+    setError(null);
+    setIsLoading(true);
+
+    fetchContextPackInput(projectId, { type: focusType, id: focusId })
+      .then(data => {
+        if (!cancelled) setInput(data);
+      })
+      .catch(loadError => {
+        console.error('Error loading context pack:', loadError);
+        if (!cancelled) setError(loadError instanceof Error ? loadError.message : 'Failed to load context');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, projectId, focusType, focusId]);
+
+  const pack = useMemo(
+    () => (input ? buildContextPack(input, { format, tokenBudget }) : null),
+    [input, format, tokenBudget]
+  );
+
+  const sectionCounts = useMemo(
+    () => CONTEXT_PACK_SECTIONS
+      .filter(section => section !== 'project' && section !== 'focus')
+      .map(section => ({ section, count: (pack?.items || []).filter(item => item.section === section).length }))
+      .filter(({ count }) => count > 0),
+    [pack]
+  );
+
+  if (!isOpen || !focus) return null;
+
+  const handleCopy = async () => {
+    if (!pack) return;
+    try {
+      await navigator.clipboard.writeText(pack.content);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (copyError) {
+      console.error('Error copying context pack:', copyError);
+      setError('Could not copy to the clipboard. Use Download instead.');
+    }
+  };
+
+  const handleDownload = () => {
+    if (!pack) return;
+
+    const extension = pack.format === 'xml' ? 'xml' : 'md';
+    const url = URL.createObjectURL(new Blob([pack.content], { type: pack.format === 'xml' ? 'application/xml' : 'text/markdown' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${focus.title.replace(/[^\w-]+/g, '-').toLowerCase()}-context.${extension}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="rounded-2xl p-6 w-full max-w-3xl mx-4 border flex flex-col max-h-[85vh]"
+        style={{
+          backgroundColor: isDark ? '#1a1a1a' : '#ffffff',
+          borderColor: isDark ? '#2a2a2a' : '#e2e8f0'
+        }}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <div className="min-w-0">
+            <h3 className={`text-xl font-bold ${isDark ? 'text-white' : 'text-gray-900'}`}>Copy for AI</h3>
+            <p className={`text-sm truncate ${mutedText}`}>Context for a new AI session about "{focus.title}"</p>
+          </div>
+          <button
+            onClick={onClose}
+            className={`p-1 rounded ${isDark ? 'hover:bg-gray-800 text-gray-400' : 'hover:bg-gray-100 text-gray-500'}`}
+            title="Close"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+          <div className={`flex rounded-lg border overflow-hidden ${isDark ? 'border-gray-700' : 'border-gray-300'}`}>
+            {CONTEXT_PACK_FORMATS.map(id => (
+              <button
+                key={id}
+                onClick={() => setFormat(id)}
+                className={`px-3 py-1.5 text-xs font-medium transition-colors ${
+                  format === id
+                    ? 'bg-blue-600 text-white'
+                    : isDark ? 'text-gray-300 hover:bg-gray-800' : 'text-gray-600 hover:bg-gray-50'
+                }`}
+              >
+                {CONTEXT_PACK_FORMAT_LABELS[id]}
+              </button>
+            ))}
+          </div>
+          <label className={`flex items-center text-xs ${mutedText}`}>
+            Token budget
+            <select
+              value={tokenBudget}
+              onChange={(e) => setTokenBudget(Number(e.target.value))}
+              className="ml-2 px-2 py-1 border rounded-lg text-xs"
+              style={{
+                borderColor: isDark ? '#2a2a2a' : '#e2e8f0',
+                backgroundColor: isDark ? '#0f172a' : '#f8fafc',
+                color: isDark ? '#ffffff' : '#000000'
+              }}
+            >
+              {CONTEXT_PACK_TOKEN_BUDGETS.map(budget => (
+                <option key={budget} value={budget}>{budget.toLocaleString()}</option>
+              ))}
+            </select>
+          </label>
+          {pack && (
+            <span className={`text-xs ml-auto ${mutedText}`}>
+              ~{pack.tokenEstimate.toLocaleString()} of {pack.tokenBudget.toLocaleString()} tokens
+              {pack.omittedCount > 0 && ` · ${pack.omittedCount} left out to fit`}
+            </span>
+          )}
+        </div>
+
+        {sectionCounts.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-3">
+            {sectionCounts.map(({ section, count }) => (
+              <span
+                key={section}
+                className={`text-xs px-2 py-0.5 rounded ${isDark ? 'bg-gray-800 text-gray-300' : 'bg-gray-100 text-gray-700'}`}
+              >
+                {CONTEXT_PACK_SECTION_TITLES[section]} ({count})
+              </span>
+            ))}
+          </div>
+        )}
+
+        <div className={`flex-1 min-h-[16rem] overflow-auto border rounded-xl ${isDark ? 'border-gray-800 dark-scrollbar' : 'border-gray-200 light-scrollbar'}`}>
+          {isLoading ? (
+            <div className={`flex items-center justify-center h-64 text-sm ${mutedText}`}>
+              <div className="w-4 h-4 border-2 border-blue-500 border-t-transparent rounded-full animate-spin mr-2"></div>
+              Gathering related items...
+            </div>
+          ) : pack ? (
+            <pre className={`p-4 text-xs whitespace-pre-wrap font-mono ${isDark ? 'text-gray-200' : 'text-gray-800'}`}>
+              {pack.content}
+            </pre>
+          ) : !error && input ? (
+            <div className={`flex items-center justify-center h-64 text-sm ${mutedText}`}>
+              This {focus.type} could not be found.
+            </div>
+          ) : null}
+        </div>
+
+        {error && (
+          <div className="mt-4 flex items-start text-sm text-red-500">
+            <AlertTriangle size={14} className="mr-1.5 mt-0.5 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        <div className="flex items-center justify-end space-x-3 mt-6">
+          <button
+            onClick={handleDownload}
+            disabled={!pack}
+            className={`px-4 py-2 rounded-xl border transition-colors font-medium flex items-center disabled:opacity-50 disabled:cursor-not-allowed ${
+              isDark ? 'border-gray-700 text-gray-300 hover:bg-gray-800' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            <Download size={16} className="mr-2" />
+            Download
+          </button>
+          <button
+            onClick={handleCopy}
+            disabled={!pack}
+            className="px-6 py-2 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-xl hover:from-blue-700 hover:to-blue-800 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed font-medium flex items-center"
+          >
+            {copied ? <Check size={16} className="mr-2" /> : <Copy size={16} className="mr-2" />}
+            {copied ? 'Copied' : 'Copy'}
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
@@ -0,0 +1,294 @@
+import { useMemo, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Upload, X, AlertTriangle, CheckCircle, Copy } from 'lucide-react';
+import { Project } from '../types';
+import { useTheme } from '../contexts/ThemeContext';
+import {
+  IMPORT_FORMATS,
+  IMPORT_FORMAT_LABELS,
+  ImportFormat,
+  ImportedConversation,
+  findDuplicateImports,
+  parseConversationImport
+} from '../lib/conversationImport';
+import { importConversations } from '../services/conversationImportService';
+
+interface ExistingConversation {
+  messages?: Array<{ role?: unknown; content?: unknown }> | null;
+  technical_details?: unknown;
+}
+
+interface ConversationImportModalProps<T> {
+  isOpen: boolean;
+  project: Project;
+  existingConversations: ExistingConversation[];
+  onClose: () => void;
+  onImported: (conversations: T[]) => void;
+}
+
+interface FileError {
+  fileName: string;
+  error: string;
+}
+
+export const ConversationImportModal = <T,>({
+  isOpen,
+  project,
+  existingConversations,
+  onClose,
+  onImported
+}: ConversationImportModalProps<T>) => {
+  const { isDark } = useTheme();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [format, setFormat] = useState<ImportFormat | 'auto'>('auto');
+  const [parsed, setParsed] = useState<ImportedConversation[]>([]);
+  const [fileErrors, setFileErrors] = useState<FileError[]>([]);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [isImporting, setIsImporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const duplicates = useMemo(
+    () => findDuplicateImports(parsed, existingConversations),
+    [parsed, existingConversations]
+  );
+
+  if (!isOpen) return null;
+
+  const reset = () => {
+    setParsed([]);
+    setFileErrors([]);
+    setSelected(new Set());
+    setProgress(0);
+    setImportError(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleClose = () => {
+    if (isImporting) return;
+    reset();
+    setFormat('auto');
+    onClose();
+  };
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    const conversations: ImportedConversation[] = [];
+    const errors: FileError[] = [];
+
+    for (const file of Array.from(files)) {
+      try {
+        const text = await file.text();
+        conversations.push(...parseConversationImport(text, {
+          fileName: file.name,
+          format: format === 'auto' ? undefined : format
+        }));
+      } catch (error) {
+        errors.push({ fileName: file.name, error: error instanceof Error ? error.message : 'Could not read file' });
+      }
+    }
+
+    // Duplicates start unchecked; everything else is selected
+    const found = findDuplicateImports(conversations, existingConversations);
+    setParsed(conversations);
+    setFileErrors(errors);
+    setSelected(new Set(conversations.map((_, index) => index).filter(index => !found.has(index))));
+    setImportError(null);
+  };
+
+  const toggleSelected = (index: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    const toImport = parsed.filter((_, index) => selected.has(index));
+    if (toImport.length === 0) return;
+
+    setIsImporting(true);
+    setImportError(null);
+    try {
+      const saved = await importConversations(project, toImport, setProgress);
+      onImported(saved as T[]);
+      reset();
+      setFormat('auto');
+      onClose();
+    } catch (error) {
+      console.error('Error importing conversations:', error);
+      setImportError(error instanceof Error ? error.message : 'Failed to import conversations');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const mutedText = isDark ? 'text-gray-400' : 'text-gray-500';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="rounded-2xl p-6 w-full max-w-2xl mx-4 border flex flex-col max-h-[85vh]"
+        style={{
+          backgroundColor: isDark ? '#1a1a1a' : '#ffffff',
+          borderColor: isDark ? '#2a2a2a' : '#e2e8f0'
+        }}
+      >
+        <div className="flex items-center justify-between mb-6">
+          <h3 className={`text-xl font-bold ${isDark ? 'text-white' : 'text-gray-900'}`}>Import Conversations</h3>
+          <button
+            onClick={handleClose}
+            disabled={isImporting}
+            className={`p-1 rounded ${isDark ? 'hover:bg-gray-800 text-gray-400' : 'hover:bg-gray-100 text-gray-500'}`}
+            title="Close"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className={`block text-sm font-medium ${isDark ? 'text-gray-300' : 'text-gray-700'} mb-2`}>
+              Format
+            </label>
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as ImportFormat | 'auto')}
+              disabled={isImporting}
+              className="w-full p-3 border rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              style={{
+                borderColor: isDark ? '#2a2a2a' : '#e2e8f0',
+                backgroundColor: isDark ? '#0f172a' : '#f8fafc',
+                color: isDark ? '#ffffff' : '#000000'
+              }}
+            >
+              <option value="auto">Detect automatically</option>
+              {IMPORT_FORMATS.map(id => (
+                <option key={id} value={id}>{IMPORT_FORMAT_LABELS[id]}</option>
+              ))}
+            </select>
+          </div>
+
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isImporting}
+            className={`w-full flex flex-col items-center justify-center py-6 border-2 border-dashed rounded-xl transition-colors ${
+              isDark ? 'border-gray-700 hover:border-gray-500 text-gray-300' : 'border-gray-300 hover:border-gray-400 text-gray-600'
+            }`}
+          >
+            <Upload size={20} className="mb-2" />
+            <span className="text-sm font-medium">Choose files</span>
+            <span className={`text-xs mt-1 ${mutedText}`}>
+              Claude Code .jsonl sessions, Cursor exports, ChatGPT conversations.json or Markdown
+            </span>
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept=".jsonl,.json,.md,.markdown,.txt"
+            className="hidden"
+            onChange={(e) => handleFiles(e.target.files)}
+          />
+        </div>
+
+        {fileErrors.length > 0 && (
+          <div className="mt-4 space-y-1">
+            {fileErrors.map(({ fileName, error }) => (
+              <div key={fileName} className="flex items-start text-xs text-red-500">
+                <AlertTriangle size={12} className="mr-1.5 mt-0.5 flex-shrink-0" />
+                <span><span className="font-medium">{fileName}:</span> {error}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {parsed.length > 0 && (
+          <div className="mt-4 flex-1 min-h-0 flex flex-col">
+            <div className={`flex items-center justify-between text-xs mb-2 ${mutedText}`}>
+              <span>{parsed.length} found, {selected.size} selected</span>
+              {duplicates.size > 0 && <span>{duplicates.size} already in RefBase</span>}
+            </div>
+            <div className={`flex-1 overflow-y-auto border rounded-xl divide-y ${isDark ? 'border-gray-800 divide-gray-800 dark-scrollbar' : 'border-gray-200 divide-gray-200 light-scrollbar'}`}>
+              {parsed.map((conversation, index) => (
+                <label key={index} className="flex items-start space-x-3 p-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={selected.has(index)}
+                    onChange={() => toggleSelected(index)}
+                    disabled={isImporting}
+                    className="mt-1 text-blue-600"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className={`text-sm font-medium truncate ${isDark ? 'text-white' : 'text-gray-900'}`}>
+                      {conversation.title}
+                    </div>
+                    <div className={`text-xs ${mutedText}`}>
+                      {IMPORT_FORMAT_LABELS[conversation.format]} · {conversation.messages.length} messages
+                      {conversation.createdAt && ` · ${new Date(conversation.createdAt).toLocaleDateString()}`}
+                    </div>
+                  </div>
+                  {duplicates.has(index) && (
+                    <span className={`flex items-center text-xs px-2 py-0.5 rounded ${isDark ? 'bg-yellow-900/40 text-yellow-300' : 'bg-yellow-100 text-yellow-800'}`}>
+                      <Copy size={10} className="mr-1" />
+                      Duplicate
+                    </span>
+                  )}
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {importError && (
+          <div className="mt-4 flex items-start text-sm text-red-500">
+            <AlertTriangle size={14} className="mr-1.5 mt-0.5 flex-shrink-0" />
+            {importError}
+          </div>
+        )}
+
+        <div className="flex items-center justify-end space-x-3 mt-6">
+          {isImporting && (
+            <span className={`text-xs mr-auto flex items-center ${mutedText}`}>
+              <CheckCircle size={12} className="mr-1" />
+              {progress} of {selected.size} saved
+            </span>
+          )}
+          <button
+            onClick={handleClose}
+            disabled={isImporting}
+            className="px-4 py-2 rounded-xl transition-colors font-medium"
+            style={{ color: isDark ? '#d1d5db' : '#374151', backgroundColor: 'transparent' }}
+            onMouseEnter={(e) => e.currentTarget.style.backgroundColor = isDark ? '#0f172a' : '#f1f5f9'}
+            onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={selected.size === 0 || isImporting}
+            className="px-6 py-2 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-xl hover:from-blue-700 hover:to-blue-800 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+          >
+            {isImporting ? (
+              <div className="flex items-center">
+                <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin mr-2"></div>
+                Importing...
+              </div>
+            ) : (
+              `Import ${selected.size || ''}`.trim()
+            )}
+          </button>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
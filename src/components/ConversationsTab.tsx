@@ -1,12 +1,18 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
-import { MessageCircle, Search, Calendar, User, ChevronDown, ChevronRight, Code, FileText, Wrench, Clock, Plus } from 'lucide-react';
+import { MessageCircle, Search, Calendar, User, ChevronDown, ChevronRight, Code, FileText, Wrench, Clock, Plus, Puzzle, Upload, Copy, History } from 'lucide-react';
 import { FiTrash } from 'react-icons/fi';
 import { Project } from '../types';
 import { useTheme } from '../contexts/ThemeContext';
 import { supabase } from '../lib/supabase';
+import { useOpenItem } from '../hooks/useOpenItem';
+import { useRealtimeTable } from '../hooks/useRealtimeStatus';
 import { EnhancedEditor } from './ui/EnhancedEditor';
 import { DeleteConfirmationModal } from './ui/DeleteConfirmationModal';
+import { ConversationImportModal } from './ConversationImportModal';
+import { ContextPackFocus, ContextPackModal } from './ContextPackModal';
+import { RelatedItemsPanel } from './RelatedItemsPanel';
+import { RevisionHistoryPanel } from './RevisionHistoryPanel';
 import { 
   extractEnhancedToolOutputs,
   extractUserIntent,
@@ -14,8 +20,12 @@ import {
   extractApproachContext,
   getMessageTechnicalDetails,
   enhanceConversationForMCP
-} from '../utils/conversationExtraction';
+} from '../lib/conversationExtraction';
 import { saveEnhancedManualSession, getCurrentProjectContext } from '../utils/mcpConversationHelper';
+import { parseHighlights, ConversationSearchMatch } from '../lib/conversationSearch';
+import { searchConversations } from '../services/conversationSearchService';
+import { PatternConversationRow } from '../lib/patternExtraction';
+import { createPatternFromConversation, findPatternForSource } from '../services/patternService';
 
 interface ConversationsTabProps {
   project: Project;
@@ -33,7 +43,7 @@ interface Conversation {
   project_context: Record<string, unknown>;
   created_at: string;
   updated_at: string;
-  source?: 'mcp' | 'manual'; // Add source property for conditional rendering
+  source?: 'mcp' | 'manual' | 'import'; // Add source property for conditional rendering
   // Enhanced technical details
   technical_details?: Record<string, unknown>;
   implementation_summary?: string;
@@ -66,6 +76,8 @@ export const ConversationsTab: React.FC<ConversationsTabProps> = ({ project }) =
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
+  const [searchMatches, setSearchMatches] = useState<Map<string, ConversationSearchMatch> | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
   const [selectedConversation, setSelectedConversation] = useState<Conversation | null>(() => {
     const saved = localStorage.getItem(`selectedConversation_${project.id}`);
     return saved ? { id: saved } as Conversation : null;
@@ -76,16 +88,30 @@ export const ConversationsTab: React.FC<ConversationsTabProps> = ({ project }) =
   const [newSessionTitle, setNewSessionTitle] = useState('');
   const [newSessionSource, setNewSessionSource] = useState<string>('claude-code');
   const [isCreatingSession, setIsCreatingSession] = useState(false);
+
+  // Import modal state
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [contextPackFocus, setContextPackFocus] = useState<ContextPackFocus | null>(null);
   
   // Delete conversation states
   const [showDeleteConfirmation, setShowDeleteConfirmation] = useState(false);
   const [conversationToDelete, setConversationToDelete] = useState<Conversation | null>(null);
-  
+
+  // Save as Pattern status for the selected conversation
+  const [patternStatus, setPatternStatus] = useState<{
+    conversationId: string;
+    saving: boolean;
+    message: string;
+    isError?: boolean;
+  } | null>(null);
+
   // Local editor content state (separate from conversation to avoid complex updates)
   const [editorContent, setEditorContent] = useState<string>('');
   
   // Ref to the current textarea for getting content
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  // Kept here because ConversationDetail remounts on every render
+  const [showNotesHistory, setShowNotesHistory] = useState(false);
 
   // Fetch conversations from the database
   useEffect(() => {
@@ -113,6 +139,26 @@ export const ConversationsTab: React.FC<ConversationsTabProps> = ({ project }) =
     fetchConversations();
   }, [project.id]);
 
+  // Merge conversations saved elsewhere (MCP server, API, other tabs) as they change
+  useRealtimeTable('conversations', (payload) => {
+    if (payload.eventType === 'DELETE') {
+      const deletedId = payload.old?.id;
+      if (!deletedId) return;
+      setConversations(prev => prev.filter(conv => conv.id !== deletedId));
+      setSelectedConversation(prev => (prev?.id === deletedId ? null : prev));
+      return;
+    }
+
+    const row = payload.new as Conversation & { project_id?: string };
+    if (row.project_id !== project.id) return;
+
+    setConversations(prev => prev.some(conv => conv.id === row.id)
+      ? prev.map(conv => (conv.id === row.id ? row : conv))
+      : [row, ...prev]);
+    // The editor keeps its own content, so this does not discard unsaved typing
+    setSelectedConversation(prev => (prev?.id === row.id ? row : prev));
+  });
+
   // Save selectedConversation to localStorage
   useEffect(() => {
     if (selectedConversation?.id) {
@@ -122,6 +168,15 @@ export const ConversationsTab: React.FC<ConversationsTabProps> = ({ project }) =
     }
   }, [selectedConversation?.id, project.id]);
 
+  // Select a conversation opened from the command palette
+  useOpenItem((item) => {
+    if (item.projectId !== project.id) return;
+    const conversation = conversations.find(c => c.id === item.id);
+    if (conversation) {
+      setSelectedConversation(conversation);
+    }
+  }, ['conversation']);
+
   // Restore selectedConversation from localStorage when conversations are loaded
   useEffect(() => {
     if (!loading && conversations.length > 0 && (!selectedConversation || !selectedConversation.title)) {
@@ -159,10 +214,64 @@ export const ConversationsTab: React.FC<ConversationsTabProps> = ({ project }) =
     return () => document.removeEventListener('click', handleGlobalClick);
   }, [selectedConversation?.id]);
 
-  const filteredConversations = conversations.filter(conv =>
-    conv.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    conv.tags.some(tag => tag.toLowerCase().includes(searchTerm.toLowerCase()))
-  );
+  // Full-text search across titles, summaries, changed files and message content (debounced)
+  useEffect(() => {
+    if (!searchTerm.trim()) {
+      setSearchMatches(null);
+      setIsSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsSearching(true);
+
+    const timeoutId = setTimeout(async () => {
+      try {
+        const matches = await searchConversations(searchTerm, project.id);
+        if (!cancelled) {
+          setSearchMatches(new Map(matches.map(match => [match.id, match])));
+        }
+      } catch (error) {
+        console.error('Error searching conversations:', error);
+        // Fall back to filtering titles and tags locally
+        if (!cancelled) {
+          setSearchMatches(null);
+        }
+      } finally {
+        if (!cancelled) {
+          setIsSearching(false);
+        }
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [searchTerm, project.id]);
+
+  const filteredConversations = searchMatches
+    ? conversations
+        .filter(conv => searchMatches.has(conv.id))
+        .sort((a, b) => (searchMatches.get(b.id)?.rank || 0) - (searchMatches.get(a.id)?.rank || 0))
+    : conversations.filter(conv =>
+        conv.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        conv.tags.some(tag => tag.toLowerCase().includes(searchTerm.toLowerCase()))
+      );
+
+  const renderHighlighted = (text: string) =>
+    parseHighlights(text).map((segment, index) =>
+      segment.highlighted ? (
+        <mark
+          key={index}
+          className={`rounded px-0.5 ${isDark ? 'bg-yellow-500/30 text-yellow-100' : 'bg-yellow-200 text-gray-900'}`}
+        >
+          {segment.text}
+        </mark>
+      ) : (
+        <React.Fragment key={index}>{segment.text}</React.Fragment>
+      )
+    );
 
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
@@ -382,6 +491,14 @@ export const ConversationsTab: React.FC<ConversationsTabProps> = ({ project }) =
     }
   };
 
+  // The notes textarea is uncontrolled, so a restore also writes into it
+  const handleRestoreNotes = async (content: string) => {
+    await saveToDatabase(content);
+    if (textareaRef.current) {
+      textareaRef.current.value = content;
+    }
+  };
+
   const handleAutoSave = () => {
     if (textareaRef.current && selectedConversation) {
       const content = textareaRef.current.value;
@@ -391,6 +508,18 @@ export const ConversationsTab: React.FC<ConversationsTabProps> = ({ project }) =
     }
   };
 
+  // Add imported conversations to the list (realtime may already have delivered some)
+  const handleConversationsImported = (imported: Conversation[]) => {
+    setConversations(prev => {
+      const importedIds = new Set(imported.map(conv => conv.id));
+      return [...imported, ...prev.filter(conv => !importedIds.has(conv.id))]
+        .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+    });
+    if (imported.length === 1) {
+      setSelectedConversation(imported[0]);
+    }
+  };
+
   // Handle delete conversation from list
   const handleDeleteConversationFromList = (conversation: Conversation) => {
     setConversationToDelete(conversation);
@@ -429,6 +558,32 @@ export const ConversationsTab: React.FC<ConversationsTabProps> = ({ project }) =
     }
   };
 
+  const handleSaveAsPattern = async (conversation: Conversation) => {
+    setPatternStatus({ conversationId: conversation.id, saving: true, message: 'Saving...' });
+
+    try {
+      const existing = await findPatternForSource('conversation', conversation.id);
+      if (existing) {
+        setPatternStatus({ conversationId: conversation.id, saving: false, message: 'Already in Patterns' });
+        return;
+      }
+
+      await createPatternFromConversation({
+        ...conversation,
+        project_context: conversation.project_context as PatternConversationRow['project_context']
+      }, project.id);
+      setPatternStatus({ conversationId: conversation.id, saving: false, message: 'Saved to Patterns' });
+    } catch (error) {
+      console.error('Error saving pattern:', error);
+      setPatternStatus({
+        conversationId: conversation.id,
+        saving: false,
+        isError: true,
+        message: error instanceof Error ? error.message : 'Failed to save pattern'
+      });
+    }
+  };
+
   const ConversationDetail = ({ conversation }: { conversation: Conversation }) => {
     const [expandedSections, setExpandedSections] = useState<Record<string, boolean>>({
       technicalDetails: false,
@@ -495,6 +650,33 @@ export const ConversationsTab: React.FC<ConversationsTabProps> = ({ project }) =
               </div>
             )}
           </div>
+          <div className="flex flex-col items-end ml-4 space-y-2">
+            <button
+              onClick={() => setContextPackFocus({ type: 'conversation', id: conversation.id, title: conversation.title })}
+              className={`flex items-center px-3 py-2 text-sm font-medium rounded-lg border transition-colors ${isDark ? 'border-gray-700 text-gray-300 hover:bg-gray-800' : 'border-gray-300 text-gray-700 hover:bg-gray-100'}`}
+              title="Copy this conversation with related bugs, features and code changes for a new AI session"
+            >
+              <Copy size={14} className="mr-2" />
+              Copy for AI
+            </button>
+            {(conversation.implementation_summary || (conversation.code_changes && conversation.code_changes.length > 0)) && (
+              <>
+                <button
+                  onClick={() => handleSaveAsPattern(conversation)}
+                  disabled={patternStatus?.conversationId === conversation.id && patternStatus.saving}
+                  className={`flex items-center px-3 py-2 text-sm font-medium rounded-lg border transition-colors ${isDark ? 'border-gray-700 text-gray-300 hover:bg-gray-800' : 'border-gray-300 text-gray-700 hover:bg-gray-100'}`}
+                >
+                  <Puzzle size={14} className="mr-2" />
+                  Save as Pattern
+                </button>
+                {patternStatus?.conversationId === conversation.id && patternStatus.message && (
+                  <span className={`text-xs ${patternStatus.isError ? 'text-red-500' : (isDark ? 'text-gray-400' : 'text-gray-500')}`}>
+                    {patternStatus.message}
+                  </span>
+                )}
+              </>
+            )}
+          </div>
         </div>
       </div>
 
@@ -516,6 +698,43 @@ export const ConversationsTab: React.FC<ConversationsTabProps> = ({ project }) =
         </div>
       )}
 
+      {/* Related bugs, features and documents */}
+      <div className={`border-b p-4`} style={{ 
+        backgroundColor: isDark ? '#111111' : '#f8fafc',
+        borderColor: isDark ? '#2a2a2a' : '#e2e8f0'
+      }}>
+        <RelatedItemsPanel projectId={project.id} itemType="conversation" itemId={conversation.id} />
+      </div>
+
+      {/* Earlier versions of a manual session's notes */}
+      {conversation.source === 'manual' && (
+        <div className={`border-b p-4`} style={{ 
+          backgroundColor: isDark ? '#111111' : '#f8fafc',
+          borderColor: isDark ? '#2a2a2a' : '#e2e8f0'
+        }}>
+          <button
+            onClick={() => setShowNotesHistory(!showNotesHistory)}
+            className={`flex items-center space-x-2 text-sm font-medium ${isDark ? 'text-white hover:text-gray-300' : 'text-gray-900 hover:text-gray-700'} transition-colors`}
+          >
+            {showNotesHistory ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+            <History size={16} className={`${isDark ? 'text-gray-400' : 'text-gray-600'}`} />
+            <span>Notes History</span>
+          </button>
+          {showNotesHistory && (
+            <div className="mt-3 max-h-80 overflow-y-auto">
+              <RevisionHistoryPanel
+                projectId={project.id}
+                itemType="conversation"
+                itemId={conversation.id}
+                title={conversation.title}
+                currentContent={conversation.messages?.[0]?.content || ''}
+                onRestore={handleRestoreNotes}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Technical Details Section */}
       {hasTechnicalDetails && (
         <div className={`border-b`} style={{ 
@@ -1019,6 +1238,17 @@ export const ConversationsTab: React.FC<ConversationsTabProps> = ({ project }) =
             <Plus size={16} className="mr-2" />
             New Session
           </button>
+          <button
+            onClick={() => setShowImportModal(true)}
+            className={`w-full flex items-center justify-center py-2 px-4 text-sm font-medium transition-all duration-200 border mb-3 ${
+              isDark 
+                ? 'bg-transparent hover:bg-gray-800 text-gray-300 border-gray-700 hover:border-gray-600' 
+                : 'bg-transparent hover:bg-gray-50 text-gray-600 border-gray-200 hover:border-gray-300'
+            }`}
+          >
+            <Upload size={14} className="mr-2" />
+            Import
+          </button>
           <h3 className={`text-lg font-semibold mb-2 ${isDark ? 'text-white' : 'text-gray-900'}`}>
             Sessions
           </h3>
@@ -1038,7 +1268,7 @@ export const ConversationsTab: React.FC<ConversationsTabProps> = ({ project }) =
             />
             <input
               type="text"
-              placeholder="Search..."
+              placeholder="Search titles, messages, files..."
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
               className={`w-full pl-10 pr-3 py-2 text-sm border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200`}
@@ -1078,8 +1308,16 @@ export const ConversationsTab: React.FC<ConversationsTabProps> = ({ project }) =
                         ? (isDark ? 'text-blue-300' : 'text-blue-900')
                         : (isDark ? 'text-gray-200' : 'text-gray-900')
                     }`}>
-                      {conversation.title}
+                      {searchMatches?.get(conversation.id)?.titleHighlight
+                        ? renderHighlighted(searchMatches.get(conversation.id)!.titleHighlight)
+                        : conversation.title}
                     </h4>
+
+                    {searchMatches?.get(conversation.id)?.snippet && (
+                      <p className={`text-xs line-clamp-2 ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
+                        {renderHighlighted(searchMatches.get(conversation.id)!.snippet)}
+                      </p>
+                    )}
                     
                     <div className="flex items-center justify-between text-xs">
                       <span className={`flex items-center space-x-1 ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
@@ -1116,10 +1354,10 @@ export const ConversationsTab: React.FC<ConversationsTabProps> = ({ project }) =
             <div className="flex flex-col items-center justify-center p-8 text-center">
               <MessageCircle className={`w-12 h-12 mb-4 ${isDark ? 'text-gray-600' : 'text-gray-400'}`} />
               <p className={`text-sm font-medium mb-1 ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
-                {searchTerm ? 'No matches' : 'No conversations'}
+                {searchTerm ? (isSearching ? 'Searching...' : 'No matches') : 'No conversations'}
               </p>
               <p className={`text-xs ${isDark ? 'text-gray-500' : 'text-gray-500'}`}>
-                {searchTerm ? 'Try different terms' : 'Saved MCP chats will appear here'}
+                {searchTerm ? 'Try different terms' : 'Saved MCP chats and imports will appear here'}
               </p>
             </div>
           )}
@@ -1237,6 +1475,23 @@ export const ConversationsTab: React.FC<ConversationsTabProps> = ({ project }) =
         </div>
       )}
 
+      {/* Import Conversations Modal */}
+      <ConversationImportModal<Conversation>
+        isOpen={showImportModal}
+        project={project}
+        existingConversations={conversations}
+        onClose={() => setShowImportModal(false)}
+        onImported={handleConversationsImported}
+      />
+
+      {/* Copy for AI Modal */}
+      <ContextPackModal
+        isOpen={!!contextPackFocus}
+        projectId={project.id}
+        focus={contextPackFocus}
+        onClose={() => setContextPackFocus(null)}
+      />
+
       {/* Delete Confirmation Modal */}
       <DeleteConfirmationModal
         isOpen={showDeleteConfirmation}
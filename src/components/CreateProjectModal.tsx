@@ -1,12 +1,14 @@
 import React, { useState } from 'react';
 import { motion } from 'framer-motion';
-import { X } from 'lucide-react';
+import { Upload, X } from 'lucide-react';
 import { useTheme } from '../contexts/ThemeContext';
 
 interface CreateProjectModalProps {
   isOpen: boolean;
   onClose: () => void;
   onSubmit: (name: string, description: string, icon: string, color: string) => void;
+  // Offers creating the project from a ZIP export instead
+  onImport?: () => void;
 }
 
 const projectIcons = ['🚀', '💡', '📱', '🌟', '🎯', '⚡', '🔥', '💎', '🌈', '🎨', '📊', '🔧'];
@@ -19,6 +21,7 @@ export const CreateProjectModal: React.FC<CreateProjectModalProps> = ({
   isOpen,
   onClose,
   onSubmit,
+  onImport,
 }) => {
   const { isDark } = useTheme();
   const [name, setName] = useState('');
@@ -176,6 +179,15 @@ export const CreateProjectModal: React.FC<CreateProjectModalProps> = ({
         </div>
 
         <div className="flex justify-end space-x-3 mt-8">
+          {onImport && (
+            <button
+              onClick={onImport}
+              className={`mr-auto px-3 py-2 rounded-lg text-sm flex items-center transition-colors ${isDark ? 'text-gray-400 hover:text-white' : 'text-gray-500 hover:text-gray-900'}`}
+            >
+              <Upload size={14} className="mr-1.5" />
+              Import from ZIP
+            </button>
+          )}
           <button
             onClick={onClose}
             className={`px-4 py-2 rounded-lg transition-colors`}
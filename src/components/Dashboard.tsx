@@ -1,14 +1,22 @@
-import React from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { motion } from 'framer-motion';
-import { Project } from '../types';
-import { useSupabaseProjects } from '../hooks/useSupabaseProjects';
+import { Bug, Project } from '../types';
+import { LearningConversation, ProjectSummary } from '../types/dashboard';
+import { supabase } from '../lib/supabase';
+import { fetchFixedBugs, fetchProjectSummary } from '../services/projectDataService';
 import { useDashboardTheme, dashboardAnimations, getMotionPreferences } from '../lib/dashboardTheme';
-import { calculateDashboardStats, calculateProjectProgress } from '../lib/dashboardUtils';
+import {
+  calculateAILearningInsights,
+  formatProjectSummary,
+  getDashboardStatsFromSummary,
+  getProjectProgressFromSummary
+} from '../lib/dashboardUtils';
 import { useTheme } from '../contexts/ThemeContext';
 import StatsGrid from './dashboard/StatsGrid';
 import ProjectProgress from './dashboard/ProjectProgress';
 import BugSeverityBreakdown from './dashboard/BugSeverityBreakdown';
 import FeaturePipeline from './dashboard/FeaturePipeline';
+import AILearningInsights from './dashboard/AILearningInsights';
 
 interface DashboardProps {
   project: Project;
@@ -16,23 +24,85 @@ interface DashboardProps {
 }
 
 export const Dashboard: React.FC<DashboardProps> = ({ project, onNavigateToBugs }) => {
-  const { tasks, bugs, documents, features, events } = useSupabaseProjects();
   const { isDark } = useTheme();
   const theme = useDashboardTheme();
   const motionPrefs = getMotionPreferences();
 
-  const projectTasks = tasks.filter(t => t.projectId === project.id);
-  const projectBugs = bugs.filter(b => b.projectId === project.id);
-  const projectDocs = documents.filter(d => d.projectId === project.id);
-  const projectFeatures = features.filter(f => f.projectId === project.id);
-  const projectEvents = events.filter(e => e.projectId === project.id);
+  // Counts are aggregated server-side rather than from the project's rows
+  const [summary, setSummary] = useState<ProjectSummary>(() => formatProjectSummary(null));
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchProjectSummary(project.id)
+      .then(result => {
+        if (!cancelled) setSummary(result);
+      })
+      .catch(error => {
+        console.error('Error fetching project summary:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [project.id]);
 
   // Calculate dashboard stats using utility function
-  const dashboardStats = calculateDashboardStats(projectTasks, projectBugs, projectDocs, projectFeatures);
+  const dashboardStats = getDashboardStatsFromSummary(summary);
   
   // Calculate project progress
-  const projectProgress = calculateProjectProgress(projectTasks, projectBugs);
+  const projectProgress = getProjectProgressFromSummary(summary);
+
+  // Conversations and fixed bugs are only needed for the learning insights
+  const [conversations, setConversations] = useState<LearningConversation[]>([]);
+  const [fixedBugs, setFixedBugs] = useState<Bug[]>([]);
+  const [conversationsLoading, setConversationsLoading] = useState(true);
 
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchInsightData = async () => {
+      setConversationsLoading(true);
+      const [{ data, error }, bugsResult] = await Promise.all([
+        supabase
+          .from('conversations')
+          .select('id, title, implementation_summary, tags, files_changed, created_at')
+          .eq('project_id', project.id)
+          .order('created_at', { ascending: false }),
+        fetchFixedBugs(project.id).catch(bugsError => {
+          console.error('Error fetching fixed bugs for insights:', bugsError);
+          return [] as Bug[];
+        })
+      ]);
+
+      if (cancelled) return;
+      if (error) {
+        console.error('Error fetching conversations for insights:', error);
+        setConversations([]);
+      } else {
+        setConversations((data || []).map(row => ({
+          id: row.id,
+          title: row.title,
+          summary: row.implementation_summary || '',
+          tags: row.tags || [],
+          filesChanged: row.files_changed || [],
+          createdAt: new Date(row.created_at)
+        })));
+      }
+      setFixedBugs(bugsResult);
+      setConversationsLoading(false);
+    };
+
+    fetchInsightData();
+    return () => {
+      cancelled = true;
+    };
+  }, [project.id]);
+
+  const learningInsights = useMemo(
+    () => calculateAILearningInsights(conversations, fixedBugs),
+    [conversations, fixedBugs]
+  );
 
 
   return (
@@ -54,7 +124,13 @@ export const Dashboard: React.FC<DashboardProps> = ({ project, onNavigateToBugs
         className="w-full"
         variants={motionPrefs.prefersReducedMotion ? motionPrefs.reducedMotion : dashboardAnimations.item}
       >
-        <StatsGrid stats={dashboardStats} allTasksCount={projectTasks.length} features={projectFeatures} events={projectEvents} />
+        <StatsGrid
+          stats={dashboardStats}
+          allTasksCount={summary.tasks.total}
+          completedFeatures={summary.features.implemented}
+          upcomingEvents={summary.events.upcoming}
+          totalEvents={summary.events.total}
+        />
       </motion.div>
 
       {/* Two-Column Layout - Project Progress & Bug Breakdown */}
@@ -73,7 +149,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ project, onNavigateToBugs
         >
           <ProjectProgress 
             progress={projectProgress} 
-            totalTasks={projectTasks.length}
+            totalTasks={summary.tasks.total}
             className="h-full"
           />
         </motion.div>
@@ -84,7 +160,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ project, onNavigateToBugs
           variants={motionPrefs.prefersReducedMotion ? motionPrefs.reducedMotion : dashboardAnimations.slideInRight}
         >
           <BugSeverityBreakdown 
-            projectBugs={projectBugs}
+            severityCounts={summary.bugs.activeBySeverity}
             onSeverityClick={(severity) => console.log('Navigate to bugs:', severity)}
             onViewAll={onNavigateToBugs}
             className="h-full"
@@ -98,11 +174,23 @@ export const Dashboard: React.FC<DashboardProps> = ({ project, onNavigateToBugs
         variants={motionPrefs.prefersReducedMotion ? motionPrefs.reducedMotion : dashboardAnimations.slideInLeft}
       >
         <FeaturePipeline 
-          features={projectFeatures}
+          statusCounts={summary.features}
           onStageClick={(stageId) => console.log('Navigate to stage:', stageId)}
           onViewAll={() => console.log('Navigate to features view')}
         />
       </motion.div>
+
+      {/* AI Learning Insights - Full Width */}
+      <motion.div
+        className="w-full"
+        variants={motionPrefs.prefersReducedMotion ? motionPrefs.reducedMotion : dashboardAnimations.slideInRight}
+      >
+        <AILearningInsights
+          insights={learningInsights}
+          projectId={project.id}
+          loading={conversationsLoading}
+        />
+      </motion.div>
     </motion.div>
   );
 };
\ No newline at end of file
@@ -1,10 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { Copy, Check, ExternalLink, Hash } from 'lucide-react';
+import { ExternalLink } from 'lucide-react';
 import Markdown from 'markdown-to-jsx';
-import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
-import { oneDark, oneLight } from 'react-syntax-highlighter/dist/esm/styles/prism';
 import { DocumentationFile } from '../lib/documentationLoader';
+import { CodeBlock } from './documentation/CodeBlock';
+import { CustomHeading } from './documentation/CustomHeading';
 import { SkeletonLoader } from './ui/SkeletonLoader';
 import { ErrorMessage } from './ui/ErrorMessage';
 
@@ -29,119 +29,6 @@ interface DocumentationContentProps {
   clearError?: () => void;
 }
 
-interface CodeBlockProps {
-  children: string;
-  className?: string;
-  isDark: boolean;
-}
-
-interface HeadingProps {
-  children: React.ReactNode;
-  level: number;
-  isDark: boolean;
-}
-
-// Custom code block component with copy functionality
-const CodeBlock: React.FC<CodeBlockProps> = ({ children, className, isDark }) => {
-  const [copied, setCopied] = useState(false);
-  const language = className?.replace('lang-', '') || 'text';
-
-  const handleCopy = async () => {
-    try {
-      await navigator.clipboard.writeText(children);
-      setCopied(true);
-      setTimeout(() => setCopied(false), 2000);
-    } catch (error) {
-      console.error('Failed to copy code:', error);
-    }
-  };
-
-  return (
-    <div className="relative group">
-      <button
-        onClick={handleCopy}
-        className={`absolute top-2 sm:top-3 right-2 sm:right-3 p-1.5 sm:p-2 rounded-lg opacity-0 group-hover:opacity-100 sm:opacity-0 opacity-100 sm:group-hover:opacity-100 transition-all duration-200 touch-manipulation ${
-          copied
-            ? isDark 
-              ? 'bg-green-800 text-green-300 border border-green-700' 
-              : 'bg-green-100 text-green-700 border border-green-200'
-            : isDark 
-              ? 'bg-gray-700 hover:bg-gray-600 text-gray-300 border border-gray-600' 
-              : 'bg-white hover:bg-gray-50 text-gray-700 border border-gray-200 shadow-sm'
-        }`}
-        title={copied ? "Copied!" : "Copy code"}
-      >
-        {copied ? <Check className="w-3 h-3 sm:w-4 sm:h-4" /> : <Copy className="w-3 h-3 sm:w-4 sm:h-4" />}
-      </button>
-      
-      <SyntaxHighlighter
-        language={language}
-        style={isDark ? oneDark : oneLight}
-        customStyle={{
-          margin: 0,
-          borderRadius: '0.5rem',
-          fontSize: '0.75rem',
-          lineHeight: '1.4',
-          backgroundColor: isDark ? '#1e1e1e' : '#f8f9fa',
-          border: isDark ? '1px solid #374151' : '1px solid #e5e7eb'
-        }}
-        className="text-xs sm:text-sm"
-        showLineNumbers={children.split('\n').length > 5}
-        wrapLines={true}
-        wrapLongLines={true}
-      >
-        {children}
-      </SyntaxHighlighter>
-    </div>
-  );
-};
-
-// Custom heading component with anchor links
-const CustomHeading: React.FC<HeadingProps> = ({ children, level, isDark }) => {
-  const [showAnchor, setShowAnchor] = useState(false);
-  
-  // Generate ID from heading text
-  const headingText = React.Children.toArray(children).join('');
-  const headingId = headingText
-    .toLowerCase()
-    .replace(/[^a-z0-9\s-]/g, '')
-    .replace(/\s+/g, '-')
-    .trim();
-
-  const HeadingTag = `h${level}` as keyof JSX.IntrinsicElements;
-  
-  const headingClasses = {
-    1: `text-2xl sm:text-3xl font-bold mb-4 sm:mb-6 ${isDark ? 'text-white' : 'text-gray-900'}`,
-    2: `text-xl sm:text-2xl font-semibold mt-6 sm:mt-8 mb-3 sm:mb-4 ${isDark ? 'text-white' : 'text-gray-900'}`,
-    3: `text-lg sm:text-xl font-semibold mt-4 sm:mt-6 mb-2 sm:mb-3 ${isDark ? 'text-white' : 'text-gray-900'}`,
-    4: `text-base sm:text-lg font-medium mt-3 sm:mt-4 mb-2 ${isDark ? 'text-white' : 'text-gray-900'}`,
-    5: `text-sm sm:text-base font-medium mt-2 sm:mt-3 mb-1 sm:mb-2 ${isDark ? 'text-white' : 'text-gray-900'}`,
-    6: `text-xs sm:text-sm font-medium mt-2 mb-1 ${isDark ? 'text-white' : 'text-gray-900'}`
-  };
-
-  return (
-    <HeadingTag
-      id={headingId}
-      className={`${headingClasses[level as keyof typeof headingClasses]} relative group flex items-center`}
-      onMouseEnter={() => setShowAnchor(true)}
-      onMouseLeave={() => setShowAnchor(false)}
-    >
-      {children}
-      {showAnchor && (
-        <a
-          href={`#${headingId}`}
-          className={`ml-2 p-1 -m-1 opacity-0 group-hover:opacity-100 transition-opacity touch-manipulation ${
-            isDark ? 'text-gray-400 hover:text-gray-300' : 'text-gray-500 hover:text-gray-700'
-          }`}
-          title="Link to this section"
-        >
-          <Hash className="w-3 h-3 sm:w-4 sm:h-4" />
-        </a>
-      )}
-    </HeadingTag>
-  );
-};
-
 export const DocumentationContent: React.FC<DocumentationContentProps> = ({
   activeDoc,
   loading,
@@ -1,12 +1,24 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
-import { Plus, FileText, Search, Filter, Upload } from 'lucide-react';
+import { Plus, FileText, Search, Filter, Upload, Link2, History, LayoutTemplate } from 'lucide-react';
 import { FiTrash } from 'react-icons/fi';
 import { Project, Document } from '../types';
 import { useSupabaseProjects } from '../hooks/useSupabaseProjects';
+import { useOpenItem } from '../hooks/useOpenItem';
 import { useTheme } from '../contexts/ThemeContext';
 import { EnhancedEditor } from './ui/EnhancedEditor';
 import { DeleteConfirmationModal } from './ui/DeleteConfirmationModal';
+import { RelatedItemsPanel } from './RelatedItemsPanel';
+import { RevisionHistoryPanel } from './RevisionHistoryPanel';
+import { TemplateSelect } from './TemplateSelect';
+import { TemplateManagerModal } from './TemplateManagerModal';
+import { useTemplates } from '../hooks/useTemplates';
+import { TemplateFields } from '../services/templateService';
+import { findTemplate, formatTemplateDate, getDefaultTemplate, isTemplateItemType, renderTemplate } from '../lib/templates';
+import { EditConflictModal } from './EditConflictModal';
+import { EditingStatusBar } from './EditingStatusBar';
+import { useEditConflicts } from '../hooks/useEditConflicts';
+import { useEditingPresence } from '../hooks/useEditingPresence';
 
 // Custom sorting icons
 const SortAscIcon = ({ size = 14, className = "" }) => (
@@ -38,7 +50,8 @@ const documentTypes = [
 ];
 
 export const DocumentsTab: React.FC<DocumentsTabProps> = ({ project }) => {
-  const { documents, createDocument, updateDocument, deleteDocument, loading } = useSupabaseProjects();
+  const { documents, createDocument, updateDocument, deleteDocument, isProjectDataLoading } = useSupabaseProjects();
+  const loading = isProjectDataLoading(project.id, ['documents']);
   const { isDark } = useTheme();
   const [selectedDoc, setSelectedDoc] = useState<Document | null>(() => {
     const saved = localStorage.getItem(`selectedDocument_${project.id}`);
@@ -47,15 +60,31 @@ export const DocumentsTab: React.FC<DocumentsTabProps> = ({ project }) => {
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [newDocTitle, setNewDocTitle] = useState('');
   const [newDocType, setNewDocType] = useState<Document['type']>('custom');
+  const [newDocTemplateId, setNewDocTemplateId] = useState('');
+  // Open with an optional draft, e.g. the selected document's content
+  const [templateManager, setTemplateManager] = useState<{ draft?: Partial<TemplateFields> } | null>(null);
+  const { templates, reload: reloadTemplates } = useTemplates(project.id);
   const [showDeleteConfirmation, setShowDeleteConfirmation] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [showFilterPopup, setShowFilterPopup] = useState(false);
   const [sortBy, setSortBy] = useState<'name' | 'created' | 'updated'>('created');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
   const [isProjectSwitching, setIsProjectSwitching] = useState(false);
+  const [sidePanel, setSidePanel] = useState<'related' | 'history' | null>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const currentProjectRef = useRef(project.id);
 
+  // Saves only overwrite the version this editor started from; changes saved elsewhere are merged in
+  const storedDoc = selectedDoc ? documents.find(d => d.id === selectedDoc.id) : undefined;
+  const docEdits = useEditConflicts({
+    itemId: selectedDoc?.id,
+    stored: storedDoc && { content: storedDoc.content || '', updatedAt: new Date(storedDoc.updatedAt) },
+    content: selectedDoc?.content || '',
+    write: (content, expectedUpdatedAt) => updateDocument(selectedDoc!.id, { content, language: selectedDoc!.language }, expectedUpdatedAt),
+    onContentChange: (content) => setSelectedDoc(prev => prev && { ...prev, content })
+  });
+  const docEditors = useEditingPresence(selectedDoc ? `document:${selectedDoc.id}` : undefined);
+
   // Check if filter is active (not default)
   const isFilterActive = sortBy !== 'created' || sortOrder !== 'desc';
 
@@ -124,6 +153,15 @@ export const DocumentsTab: React.FC<DocumentsTabProps> = ({ project }) => {
     }
   }, [documents, project.id, selectedDoc, loading, isProjectSwitching]);
 
+  // Select a document opened from the command palette
+  useOpenItem((item) => {
+    if (item.projectId !== project.id) return;
+    const doc = documents.find(d => d.id === item.id);
+    if (doc) {
+      setSelectedDoc(doc);
+    }
+  }, ['document']);
+
   // Save selectedDoc to localStorage whenever it changes
   useEffect(() => {
     if (selectedDoc) {
@@ -142,20 +180,33 @@ export const DocumentsTab: React.FC<DocumentsTabProps> = ({ project }) => {
 
   const handleCreateDocument = async () => {
     if (newDocTitle.trim()) {
-      const doc = await createDocument(project.id, newDocTitle, newDocType);
+      const template = findTemplate(templates, newDocTemplateId);
+      const content = template
+        ? renderTemplate(template.content, {
+          project: { name: project.name, description: project.description },
+          document: { title: newDocTitle.trim() },
+          date: formatTemplateDate(new Date())
+        })
+        : '';
+      const doc = await createDocument(project.id, newDocTitle, newDocType, content);
       setSelectedDoc(doc);
       setShowCreateModal(false);
       setNewDocTitle('');
       setNewDocType('custom');
+      setNewDocTemplateId('');
     }
   };
 
   const handleSaveDocument = () => {
     if (selectedDoc) {
-      updateDocument(selectedDoc.id, { 
-        content: selectedDoc.content,
-        language: selectedDoc.language 
-      });
+      docEdits.save();
+    }
+  };
+
+  const handleRestoreDocument = async (content: string) => {
+    if (selectedDoc) {
+      await updateDocument(selectedDoc.id, { content });
+      setSelectedDoc({ ...selectedDoc, content });
     }
   };
 
@@ -446,12 +497,56 @@ export const DocumentsTab: React.FC<DocumentsTabProps> = ({ project }) => {
                     </span>
                   </div>
                 </div>
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => setTemplateManager({
+                      draft: {
+                        name: selectedDoc.title,
+                        target: 'document',
+                        // Documents saved through MCP can have other types
+                        itemType: isTemplateItemType('document', selectedDoc.type) ? selectedDoc.type : 'custom',
+                        content: selectedDoc.content || ''
+                      }
+                    })}
+                    className={`flex items-center px-3 py-2 text-sm font-medium rounded-lg border transition-colors ${isDark ? 'border-gray-700 text-gray-300 hover:bg-gray-800' : 'border-gray-300 text-gray-700 hover:bg-gray-100'}`}
+                    title="Start a new template from this document"
+                  >
+                    <LayoutTemplate size={14} className="mr-2" />
+                    Save as Template
+                  </button>
+                  {([
+                    { panel: 'history', label: 'History', icon: History, title: 'Earlier versions of this document' },
+                    { panel: 'related', label: 'Related', icon: Link2, title: 'Features this document describes' }
+                  ] as const).map(({ panel, label, icon: PanelIcon, title }) => (
+                    <button
+                      key={panel}
+                      onClick={() => setSidePanel(sidePanel === panel ? null : panel)}
+                      className={`flex items-center px-3 py-2 text-sm font-medium rounded-lg border transition-colors ${
+                        sidePanel === panel
+                          ? (isDark ? 'bg-gray-800 border-gray-600 text-white' : 'bg-gray-100 border-gray-300 text-gray-900')
+                          : (isDark ? 'border-gray-700 text-gray-300 hover:bg-gray-800' : 'border-gray-300 text-gray-700 hover:bg-gray-100')
+                      }`}
+                      title={title}
+                    >
+                      <PanelIcon size={14} className="mr-2" />
+                      {label}
+                    </button>
+                  ))}
+                </div>
               </div>
             </div>
 
+            <EditingStatusBar
+              editors={docEditors}
+              remoteChange={docEdits.remoteChange}
+              onMergeRemoteChange={docEdits.mergeRemoteChange}
+              merged={docEdits.merged}
+              onDismissMerged={docEdits.dismissMerged}
+            />
+
             {/* Document Content */}
-            <div className={`flex-1 min-h-0`} style={{ backgroundColor: isDark ? '#0a0a0a' : '#f8fafc' }}>
-              <div className="h-full p-4">
+            <div className={`flex-1 min-h-0 flex`} style={{ backgroundColor: isDark ? '#0a0a0a' : '#f8fafc' }}>
+              <div className="h-full p-4 flex-1 min-w-0">
                 <div className={`h-full border rounded-lg overflow-hidden`} style={{ 
                   backgroundColor: isDark ? '#111111' : '#ffffff',
                   borderColor: isDark ? '#2a2a2a' : '#e2e8f0'
@@ -467,6 +562,25 @@ export const DocumentsTab: React.FC<DocumentsTabProps> = ({ project }) => {
                   />
                 </div>
               </div>
+              {sidePanel && (
+                <div className={`w-80 flex-shrink-0 border-l p-4 overflow-y-auto ${isDark ? 'dark-scrollbar' : 'light-scrollbar'}`} style={{
+                  backgroundColor: isDark ? '#111111' : '#ffffff',
+                  borderColor: isDark ? '#2a2a2a' : '#e2e8f0'
+                }}>
+                  {sidePanel === 'related' ? (
+                    <RelatedItemsPanel projectId={project.id} itemType="document" itemId={selectedDoc.id} />
+                  ) : (
+                    <RevisionHistoryPanel
+                      projectId={project.id}
+                      itemType="document"
+                      itemId={selectedDoc.id}
+                      title={selectedDoc.title}
+                      currentContent={documents.find(doc => doc.id === selectedDoc.id)?.content ?? selectedDoc.content ?? ''}
+                      onRestore={handleRestoreDocument}
+                    />
+                  )}
+                </div>
+              )}
             </div>
           </>
         ) : (
@@ -526,7 +640,10 @@ export const DocumentsTab: React.FC<DocumentsTabProps> = ({ project }) => {
                         name="docType"
                         value={type.id}
                         checked={newDocType === type.id}
-                        onChange={(e) => setNewDocType(e.target.value as Document['type'])}
+                        onChange={(e) => {
+                          setNewDocType(e.target.value as Document['type']);
+                          setNewDocTemplateId(getDefaultTemplate('document', e.target.value)?.id || '');
+                        }}
                         className="mt-1 text-blue-600"
                       />
                       <div className="flex-1">
@@ -537,6 +654,15 @@ export const DocumentsTab: React.FC<DocumentsTabProps> = ({ project }) => {
                   ))}
                 </div>
               </div>
+
+              <TemplateSelect
+                target="document"
+                itemType={newDocType}
+                templates={templates}
+                value={newDocTemplateId}
+                onChange={setNewDocTemplateId}
+                onManage={() => setTemplateManager({})}
+              />
             </div>
 
             <div className="flex justify-end space-x-3 mt-8">
@@ -564,6 +690,25 @@ export const DocumentsTab: React.FC<DocumentsTabProps> = ({ project }) => {
         </div>
       )}
 
+      {selectedDoc && docEdits.conflict && (
+        <EditConflictModal
+          itemName={selectedDoc.title}
+          conflict={docEdits.conflict}
+          onResolve={docEdits.resolveConflict}
+          onClose={docEdits.dismissConflict}
+        />
+      )}
+
+      {templateManager && (
+        <TemplateManagerModal
+          project={project}
+          templates={templates}
+          initialDraft={templateManager.draft}
+          onChange={reloadTemplates}
+          onClose={() => setTemplateManager(null)}
+        />
+      )}
+
       {/* Delete Confirmation Modal */}
       <DeleteConfirmationModal
         isOpen={showDeleteConfirmation}
@@ -0,0 +1,159 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, Columns, GitMerge, X } from 'lucide-react';
+import { useTheme } from '../contexts/ThemeContext';
+import { DiffLine, buildSideBySideRows, diffLines } from '../lib/revisions';
+import { EditConflict, hasConflictMarkers, mergeEdits } from '../lib/editConflicts';
+
+interface EditConflictModalProps {
+  itemName: string;
+  conflict: EditConflict;
+  onResolve: (content: string) => Promise<unknown>;
+  // Close without saving; the local edits stay in the editor
+  onClose: () => void;
+}
+
+type ConflictView = 'compare' | 'merge';
+
+/**
+ * Shown when a save races another session's save and both changed the same lines
+ */
+export const EditConflictModal: React.FC<EditConflictModalProps> = ({ itemName, conflict, onResolve, onClose }) => {
+  const { isDark } = useTheme();
+  const [view, setView] = useState<ConflictView>('compare');
+  const [merged, setMerged] = useState(() => mergeEdits(conflict.base, conflict.mine, conflict.theirs));
+  const [saving, setSaving] = useState(false);
+
+  const rows = useMemo(() => buildSideBySideRows(diffLines(conflict.theirs, conflict.mine)), [conflict]);
+  const unresolved = hasConflictMarkers(merged.content);
+
+  const handleResolve = async (content: string) => {
+    setSaving(true);
+    try {
+      await onResolve(content);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const mutedClass = 'text-xs text-gray-500';
+  const buttonClass = `px-3 py-1.5 text-xs rounded-lg border flex items-center ${isDark ? 'border-gray-600 text-gray-300 hover:bg-gray-800' : 'border-gray-300 text-gray-600 hover:bg-gray-50'} transition-colors disabled:opacity-50`;
+  const toggleClass = (active: boolean) => `px-2 py-1 text-xs rounded flex items-center transition-colors ${
+    active
+      ? isDark ? 'bg-gray-700 text-white' : 'bg-gray-200 text-gray-900'
+      : isDark ? 'text-gray-400 hover:text-white' : 'text-gray-500 hover:text-gray-900'
+  }`;
+  const lineClass = (line: DiffLine | null) => {
+    if (!line) return isDark ? 'bg-gray-900/40' : 'bg-gray-50';
+    if (line.type === 'added') return isDark ? 'bg-green-900/30 text-green-200' : 'bg-green-50 text-green-900';
+    if (line.type === 'removed') return isDark ? 'bg-red-900/30 text-red-200' : 'bg-red-50 text-red-900';
+    return isDark ? 'text-gray-300' : 'text-gray-700';
+  };
+  const numberClass = `w-10 pr-2 text-right select-none flex-shrink-0 ${isDark ? 'text-gray-600' : 'text-gray-400'}`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      <div className="absolute inset-0 bg-black bg-opacity-50" onClick={onClose} />
+      <div
+        className={`relative w-full max-w-5xl mx-4 max-h-[85vh] flex flex-col rounded-lg shadow-2xl ${isDark ? 'bg-gray-900 text-white' : 'bg-white text-gray-900'}`}
+      >
+        <div className={`flex items-center justify-between px-5 py-3 border-b ${isDark ? 'border-gray-700' : 'border-gray-200'}`}>
+          <div className="min-w-0">
+            <h3 className="text-sm font-semibold truncate flex items-center">
+              <AlertTriangle size={14} className="mr-2 text-amber-500 flex-shrink-0" />
+              {itemName} was changed elsewhere
+            </h3>
+            <p className={mutedClass}>
+              Saved at {conflict.theirsUpdatedAt.toLocaleTimeString()} while you were editing. {merged.conflicts === 1 ? '1 change overlaps' : `${merged.conflicts} changes overlap`} with yours.
+            </p>
+          </div>
+          <div className="flex items-center gap-2 flex-shrink-0">
+            <div className={`flex rounded-lg p-0.5 ${isDark ? 'bg-gray-800' : 'bg-gray-100'}`}>
+              <button onClick={() => setView('compare')} className={toggleClass(view === 'compare')}>
+                <Columns size={12} className="mr-1" />
+                Compare
+              </button>
+              <button onClick={() => setView('merge')} className={toggleClass(view === 'merge')}>
+                <GitMerge size={12} className="mr-1" />
+                Merge
+              </button>
+            </div>
+            <button
+              onClick={onClose}
+              className={`p-1 rounded ${isDark ? 'hover:bg-gray-800 text-gray-400' : 'hover:bg-gray-100 text-gray-500'}`}
+              title="Close and keep editing"
+            >
+              <X size={16} />
+            </button>
+          </div>
+        </div>
+
+        {view === 'compare' ? (
+          <div className="flex-1 overflow-auto font-mono text-xs">
+            <div className={`flex sticky top-0 font-sans font-medium ${isDark ? 'bg-gray-800 text-gray-300' : 'bg-gray-100 text-gray-600'}`}>
+              <div className="w-1/2 px-3 py-1.5">Their version</div>
+              <div className="w-1/2 px-3 py-1.5">Your version</div>
+            </div>
+            {rows.map((row, index) => (
+              <div key={index} className="flex">
+                {[row.left, row.right].map((line, side) => (
+                  <div
+                    key={side}
+                    className={`w-1/2 flex whitespace-pre-wrap break-all ${side === 0 ? `border-r ${isDark ? 'border-gray-700' : 'border-gray-200'}` : ''} ${lineClass(line)}`}
+                  >
+                    <span className={numberClass}>{line ? (side === 0 ? line.oldNumber : line.newNumber) : ''}</span>
+                    <span className="flex-1">{line?.text}</span>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="flex-1 min-h-0 flex flex-col p-4 gap-2">
+            <p className={mutedClass}>
+              Changes that don't overlap are already combined. Pick between the lines around each conflict marker, then save.
+            </p>
+            <textarea
+              value={merged.content}
+              onChange={(e) => setMerged({ ...merged, content: e.target.value })}
+              className="flex-1 min-h-[300px] w-full p-3 border rounded-lg font-mono text-xs focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              style={{
+                borderColor: isDark ? '#2a2a2a' : '#e2e8f0',
+                backgroundColor: isDark ? '#0f172a' : '#f8fafc',
+                color: isDark ? '#ffffff' : '#000000'
+              }}
+              spellCheck={false}
+            />
+          </div>
+        )}
+
+        <div className={`flex items-center justify-end gap-2 px-5 py-3 border-t ${isDark ? 'border-gray-700' : 'border-gray-200'}`}>
+          <button
+            onClick={() => handleResolve(conflict.theirs)}
+            disabled={saving}
+            className={buttonClass}
+            title="Discard your edits and keep the saved version"
+          >
+            Use theirs
+          </button>
+          <button
+            onClick={() => handleResolve(conflict.mine)}
+            disabled={saving}
+            className={buttonClass}
+            title="Overwrite the saved version with yours"
+          >
+            Keep mine
+          </button>
+          <button
+            onClick={() => view === 'merge' ? handleResolve(merged.content) : setView('merge')}
+            disabled={saving || (view === 'merge' && unresolved)}
+            className="px-3 py-1.5 text-xs rounded-lg flex items-center bg-blue-600 hover:bg-blue-700 text-white transition-colors disabled:opacity-50"
+            title={view === 'merge' && unresolved ? 'Resolve the conflict markers first' : undefined}
+          >
+            <GitMerge size={12} className="mr-1" />
+            {view === 'merge' ? (saving ? 'Saving...' : 'Save merged') : 'Merge...'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
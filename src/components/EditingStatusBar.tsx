@@ -0,0 +1,93 @@
+import React from 'react';
+import { GitMerge, RefreshCw, Users, X } from 'lucide-react';
+import { useTheme } from '../contexts/ThemeContext';
+import { ItemEditor } from '../hooks/useEditingPresence';
+
+interface EditingStatusBarProps {
+  // Other people with the item open
+  editors: ItemEditor[];
+  // Another session saved while there are unsaved local edits
+  remoteChange: boolean;
+  onMergeRemoteChange: () => void;
+  // Changes saved elsewhere were merged into the editor
+  merged: boolean;
+  onDismissMerged: () => void;
+}
+
+const initials = (name: string) =>
+  name.split(/[\s._-]+/).filter(Boolean).slice(0, 2).map(part => part[0].toUpperCase()).join('') || '?';
+
+/**
+ * Strip above an editor showing who else has the item open and changes saved elsewhere
+ */
+export const EditingStatusBar: React.FC<EditingStatusBarProps> = ({
+  editors,
+  remoteChange,
+  onMergeRemoteChange,
+  merged,
+  onDismissMerged
+}) => {
+  const { isDark } = useTheme();
+
+  if (editors.length === 0 && !remoteChange && !merged) return null;
+
+  const names = editors.map(editor => editor.name);
+
+  return (
+    <div
+      className={`flex items-center justify-between gap-3 px-4 py-2 text-xs border-b ${isDark ? 'text-gray-300' : 'text-gray-600'}`}
+      style={{
+        backgroundColor: isDark ? '#111111' : '#ffffff',
+        borderColor: isDark ? '#2a2a2a' : '#e2e8f0'
+      }}
+    >
+      <div className="flex items-center min-w-0">
+        {editors.length > 0 && (
+          <>
+            <div className="flex -space-x-1.5 mr-2">
+              {editors.slice(0, 4).map(editor => (
+                <span
+                  key={editor.userId}
+                  className={`w-6 h-6 rounded-full flex items-center justify-center text-[10px] font-semibold border-2 ${isDark ? 'bg-blue-900 text-blue-200 border-gray-900' : 'bg-blue-100 text-blue-700 border-white'}`}
+                  title={`${editor.name}, since ${new Date(editor.since).toLocaleTimeString()}`}
+                >
+                  {initials(editor.name)}
+                </span>
+              ))}
+            </div>
+            <Users size={12} className="mr-1.5 flex-shrink-0" />
+            <span className="truncate">
+              {names.length === 1
+                ? `${names[0]} is also editing`
+                : `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]} are also editing`}
+            </span>
+          </>
+        )}
+      </div>
+
+      <div className="flex items-center gap-3 flex-shrink-0">
+        {remoteChange && (
+          <span className="flex items-center text-amber-500">
+            <RefreshCw size={12} className="mr-1.5" />
+            Changed elsewhere since you started editing
+            <button
+              onClick={onMergeRemoteChange}
+              className={`ml-2 px-2 py-0.5 rounded border ${isDark ? 'border-gray-600 text-gray-200 hover:bg-gray-800' : 'border-gray-300 text-gray-700 hover:bg-gray-50'}`}
+            >
+              Merge now
+            </button>
+          </span>
+        )}
+        {merged && (
+          <span className="flex items-center text-green-500">
+            <GitMerge size={12} className="mr-1.5" />
+            Merged with changes saved elsewhere
+            <button onClick={onDismissMerged} className="ml-1.5 text-gray-500 hover:text-gray-400" title="Dismiss">
+              <X size={12} />
+            </button>
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
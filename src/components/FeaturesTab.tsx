@@ -1,14 +1,31 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
-import { Plus, FileText, Edit3, Brain, MessageSquare, Upload, History, Info, CheckSquare, Edit, Search, Filter, ChevronDown, ChevronRight } from 'lucide-react';
+import { Plus, FileText, Edit3, Brain, MessageSquare, Upload, History, Info, CheckSquare, Edit, Search, Filter, ChevronDown, ChevronRight, Copy, Link2 } from 'lucide-react';
 import { FiPlus, FiTrash } from 'react-icons/fi';
 import { FaFire } from 'react-icons/fa';
 import { Project, Feature, FeatureFile, Task } from '../types';
 import { useSupabaseProjects } from '../hooks/useSupabaseProjects';
+import { useOpenItem } from '../hooks/useOpenItem';
 import { useTheme } from '../contexts/ThemeContext';
 import { EnhancedEditor } from './ui/EnhancedEditor';
 import { DeleteConfirmationModal } from './ui/DeleteConfirmationModal';
 import { KanbanBoard } from './KanbanBoard';
+import { ContextPackModal } from './ContextPackModal';
+import { RelatedItemsPanel } from './RelatedItemsPanel';
+import { RevisionHistoryPanel } from './RevisionHistoryPanel';
+import { TemplateSelect } from './TemplateSelect';
+import { TemplateManagerModal } from './TemplateManagerModal';
+import { useTemplates } from '../hooks/useTemplates';
+import { DEFAULT_FEATURE_FILES, findTemplate, formatTemplateDate, getDefaultTemplate, renderTemplate } from '../lib/templates';
+import { EditConflictModal } from './EditConflictModal';
+import { EditingStatusBar } from './EditingStatusBar';
+import { useEditConflicts } from '../hooks/useEditConflicts';
+import { ItemEditor, useEditingPresence } from '../hooks/useEditingPresence';
+import { EditVersion } from '../lib/editConflicts';
+import { useApiKeys } from '../contexts/ApiKeyContext';
+import { FEATURE_SUMMARY_MODES, FEATURE_SUMMARY_MODE_LABELS, FeatureSummary, FeatureSummaryMode, renderFeatureSummaryMarkdown } from '../lib/featureSummary';
+import { generateFeatureSummary } from '../services/featureSummaryService';
+import { isAiConfigured } from '../services/aiChatService';
 
 // Custom sorting icons
 const SortAscIcon = ({ size = 14, className = "" }) => (
@@ -73,8 +90,10 @@ const featureFileTypes = [
 ];
 
 export const FeaturesTab: React.FC<FeaturesTabProps> = ({ project }) => {
-  const { features, featureFiles, createFeature, updateFeature, deleteFeature, createFeatureFile, updateFeatureFile, deleteFeatureFile, tasks, createTask, updateTask, deleteTask, loading } = useSupabaseProjects();
+  const { features, featureData, featureFiles, createFeature, updateFeature, deleteFeature, createFeatureFile, updateFeatureFile, deleteFeatureFile, saveFeatureSummary, tasks, createTask, updateTask, deleteTask, isProjectDataLoading } = useSupabaseProjects();
+  const loading = isProjectDataLoading(project.id, ['features', 'featureData']);
   const { isDark } = useTheme();
+  const { getActiveApiConfig } = useApiKeys();
   const [selectedFeature, setSelectedFeature] = useState<Feature | null>(() => {
     const saved = localStorage.getItem(`selectedFeature_${project.id}`);
     return saved ? { id: saved } as Feature : null;
@@ -82,11 +101,12 @@ export const FeaturesTab: React.FC<FeaturesTabProps> = ({ project }) => {
   const [isProjectSwitching, setIsProjectSwitching] = useState(false);
   const currentProjectRef = useRef(project.id);
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [showContextPack, setShowContextPack] = useState(false);
   const [newFeatureTitle, setNewFeatureTitle] = useState('');
   const [newFeatureType, setNewFeatureType] = useState<Feature['type']>('custom');
-  const [activeSubTab, setActiveSubTab] = useState<'info' | 'tasks' | 'ai-summary' | 'chat-history'>(() => {
+  const [activeSubTab, setActiveSubTab] = useState<'info' | 'tasks' | 'ai-summary' | 'chat-history' | 'related'>(() => {
     const saved = localStorage.getItem(`featureSubTab_${project.id}`);
-    return (saved as 'info' | 'tasks' | 'ai-summary' | 'chat-history') || 'info';
+    return (saved as 'info' | 'tasks' | 'ai-summary' | 'chat-history' | 'related') || 'info';
   });
   const [isEditingTitle, setIsEditingTitle] = useState(false);
   const [editingTitle, setEditingTitle] = useState('');
@@ -95,6 +115,14 @@ export const FeaturesTab: React.FC<FeaturesTabProps> = ({ project }) => {
   const [showCreateFileModal, setShowCreateFileModal] = useState(false);
   const [newFileName, setNewFileName] = useState('');
   const [newFileType, setNewFileType] = useState<FeatureFile['type']>('requirement');
+  const [newFileTemplateId, setNewFileTemplateId] = useState(getDefaultTemplate('feature_file', 'requirement')?.id || '');
+  // Template for each of a new feature's starting files, by file type
+  const defaultFileTemplateIds = () => Object.fromEntries(
+    DEFAULT_FEATURE_FILES.map(file => [file.type, getDefaultTemplate('feature_file', file.type)?.id || ''])
+  );
+  const [newFeatureTemplateIds, setNewFeatureTemplateIds] = useState<Record<string, string>>(defaultFileTemplateIds);
+  const [showTemplateManager, setShowTemplateManager] = useState(false);
+  const { templates, reload: reloadTemplates } = useTemplates(project.id);
   const [showDeleteConfirmation, setShowDeleteConfirmation] = useState(false);
   const [deletionType, setDeletionType] = useState<'feature' | 'file'>('feature');
   const [searchQuery, setSearchQuery] = useState('');
@@ -126,6 +154,7 @@ export const FeaturesTab: React.FC<FeaturesTabProps> = ({ project }) => {
   
   // Chat History specific states
   const [selectedChatFile, setSelectedChatFile] = useState<FeatureFile | null>(null);
+  const [showFileHistory, setShowFileHistory] = useState(false);
   const [showCreateChatFileModal, setShowCreateChatFileModal] = useState(false);
   const [newChatFileName, setNewChatFileName] = useState('');
   const [chatFileSearchQuery, setChatFileSearchQuery] = useState('');
@@ -134,6 +163,35 @@ export const FeaturesTab: React.FC<FeaturesTabProps> = ({ project }) => {
   const [chatFileSortOrder, setChatFileSortOrder] = useState<'asc' | 'desc'>('desc');
   const [importText, setImportText] = useState('');
 
+  // Saves only overwrite the version each editor started from; changes saved elsewhere are merged in
+  const storedFileVersion = (file: FeatureFile | null): EditVersion | undefined => {
+    const stored = file ? featureFiles.find(f => f.id === file.id) : undefined;
+    return stored && { content: stored.content || '', updatedAt: new Date(stored.updatedAt) };
+  };
+  const featureFileEdits = useEditConflicts({
+    itemId: selectedFeatureFile?.id,
+    stored: storedFileVersion(selectedFeatureFile),
+    content: selectedFeatureFile?.content || '',
+    write: (content, expectedUpdatedAt) =>
+      updateFeatureFile(selectedFeatureFile!.id, { content, language: selectedFeatureFile!.language }, expectedUpdatedAt),
+    onContentChange: (content) => setSelectedFeatureFile(prev => prev && { ...prev, content })
+  });
+  const chatFileEdits = useEditConflicts({
+    itemId: selectedChatFile?.id,
+    stored: storedFileVersion(selectedChatFile),
+    content: selectedChatFile?.content || '',
+    write: (content, expectedUpdatedAt) =>
+      updateFeatureFile(selectedChatFile!.id, { content, language: selectedChatFile!.language }, expectedUpdatedAt),
+    onContentChange: (content) => setSelectedChatFile(prev => prev && { ...prev, content })
+  });
+  const featureFileEditors = useEditingPresence(selectedFeatureFile ? `feature_file:${selectedFeatureFile.id}` : undefined);
+  const chatFileEditors = useEditingPresence(selectedChatFile ? `feature_file:${selectedChatFile.id}` : undefined);
+
+  // AI Summary specific states
+  const [summaryMode, setSummaryMode] = useState<FeatureSummaryMode>('heuristic');
+  const [excludedSummaryFileIds, setExcludedSummaryFileIds] = useState<Set<string>>(new Set());
+  const [summaryState, setSummaryState] = useState<{ featureId: string; running: boolean; error?: string } | null>(null);
+
   // Check if filters are active (not default)
   const isFilterActive = sortBy !== 'created' || sortOrder !== 'desc';
   const isFileFilterActive = fileSortBy !== 'created' || fileSortOrder !== 'desc';
@@ -243,6 +301,12 @@ export const FeaturesTab: React.FC<FeaturesTabProps> = ({ project }) => {
       return chatFileSortOrder === 'asc' ? comparison : -comparison;
     });
 
+  // The stored AI summary keeps the structured result in its metadata
+  const currentSummaryRow = selectedFeature
+    ? featureData.find(fd => fd.featureId === selectedFeature.id && fd.dataType === 'ai_summary')
+    : undefined;
+  const currentSummary = currentSummaryRow?.metadata?.summary as FeatureSummary | undefined;
+
   // Tasks for selected feature
   const featureTasks = React.useMemo(() => 
     selectedFeature ? tasks.filter(t => t.projectId === project.id && t.featureId === selectedFeature.id) : [], 
@@ -284,6 +348,20 @@ export const FeaturesTab: React.FC<FeaturesTabProps> = ({ project }) => {
     }
   }, [features, project.id, selectedFeature, loading, isProjectSwitching]);
 
+  // Select a feature or feature file opened from the command palette
+  useOpenItem((item) => {
+    if (item.projectId !== project.id) return;
+    const featureId = item.type === 'feature_file' ? item.parentId : item.id;
+    const feature = features.find(f => f.id === featureId);
+    if (!feature) return;
+
+    setSelectedFeature(feature);
+    setActiveSubTab('info');
+    if (item.type === 'feature_file') {
+      setSelectedFeatureFile(featureFiles.find(f => f.id === item.id) || null);
+    }
+  }, ['feature', 'feature_file']);
+
   // Save selectedFeature to localStorage whenever it changes
   useEffect(() => {
     if (selectedFeature) {
@@ -359,20 +437,28 @@ export const FeaturesTab: React.FC<FeaturesTabProps> = ({ project }) => {
     }
   };
 
+  // Starting content for a feature file from the picked template ('' for a blank file)
+  const renderFileTemplate = (templateId: string, feature: Feature, fileName: string) => {
+    const template = findTemplate(templates, templateId);
+    return template
+      ? renderTemplate(template.content, {
+        project: { name: project.name, description: project.description },
+        feature: { title: feature.title, type: feature.type, status: feature.status },
+        file: { name: fileName },
+        date: formatTemplateDate(new Date())
+      })
+      : '';
+  };
+
   const handleCreateFeature = async () => {
     if (newFeatureTitle.trim()) {
       const feature = await createFeature(project.id, newFeatureTitle, newFeatureType);
       
       // Create default files for the new feature
-      const defaultFiles = [
-        { name: 'requirements.md', type: 'requirement' as const },
-        { name: 'structure.md', type: 'structure' as const },
-        { name: 'implementation.md', type: 'implementation' as const },
-      ];
-      
       const createdFiles = [];
-      for (const file of defaultFiles) {
-        const createdFile = await createFeatureFile(feature.id, file.name, file.type, feature);
+      for (const file of DEFAULT_FEATURE_FILES) {
+        const content = renderFileTemplate(newFeatureTemplateIds[file.type] || '', feature, file.name);
+        const createdFile = await createFeatureFile(feature.id, file.name, file.type as FeatureFile['type'], feature, content);
         createdFiles.push(createdFile);
       }
       
@@ -380,6 +466,7 @@ export const FeaturesTab: React.FC<FeaturesTabProps> = ({ project }) => {
       setShowCreateModal(false);
       setNewFeatureTitle('');
       setNewFeatureType('custom');
+      setNewFeatureTemplateIds(defaultFileTemplateIds());
       
       // Auto-select the first file (requirements) - use the actual created file
       const firstFile = createdFiles.find(file => file.name === 'requirements.md');
@@ -458,22 +545,28 @@ export const FeaturesTab: React.FC<FeaturesTabProps> = ({ project }) => {
     setShowStatusPopup(false);
   };
 
-  const handleCreateFeatureFile = async () => {
-    if (selectedFeature && newFileName.trim()) {
-      const newFile = await createFeatureFile(selectedFeature.id, newFileName.trim(), newFileType);
+  const handleCreateFeatureFile = async (fileName = newFileName.trim()) => {
+    if (selectedFeature && fileName) {
+      const content = renderFileTemplate(newFileTemplateId, selectedFeature, fileName);
+      const newFile = await createFeatureFile(selectedFeature.id, fileName, newFileType, undefined, content);
       setSelectedFeatureFile(newFile);
       setShowCreateFileModal(false);
       setNewFileName('');
       setNewFileType('requirement');
+      setNewFileTemplateId(getDefaultTemplate('feature_file', 'requirement')?.id || '');
     }
   };
 
   const handleSaveFeatureFile = () => {
     if (selectedFeatureFile) {
-      updateFeatureFile(selectedFeatureFile.id, { 
-        content: selectedFeatureFile.content,
-        language: selectedFeatureFile.language 
-      });
+      featureFileEdits.save();
+    }
+  };
+
+  const handleRestoreFeatureFile = async (content: string) => {
+    if (selectedFeatureFile) {
+      await updateFeatureFile(selectedFeatureFile.id, { content });
+      setSelectedFeatureFile({ ...selectedFeatureFile, content });
     }
   };
 
@@ -501,10 +594,14 @@ export const FeaturesTab: React.FC<FeaturesTabProps> = ({ project }) => {
 
   const handleSaveChatFile = () => {
     if (selectedChatFile) {
-      updateFeatureFile(selectedChatFile.id, { 
-        content: selectedChatFile.content,
-        language: selectedChatFile.language 
-      });
+      chatFileEdits.save();
+    }
+  };
+
+  const handleRestoreChatFile = async (content: string) => {
+    if (selectedChatFile) {
+      await updateFeatureFile(selectedChatFile.id, { content });
+      setSelectedChatFile({ ...selectedChatFile, content });
     }
   };
 
@@ -520,6 +617,49 @@ export const FeaturesTab: React.FC<FeaturesTabProps> = ({ project }) => {
     }
   };
 
+  const renderEditingStatus = (edits: typeof featureFileEdits, editors: ItemEditor[]) => (
+    <EditingStatusBar
+      editors={editors}
+      remoteChange={edits.remoteChange}
+      onMergeRemoteChange={edits.mergeRemoteChange}
+      merged={edits.merged}
+      onDismissMerged={edits.dismissMerged}
+    />
+  );
+
+  const renderFileHistoryToggle = () => (
+    <div className="px-4 pt-3 flex justify-end flex-shrink-0" style={{ backgroundColor: isDark ? '#0a0a0a' : '#f8fafc' }}>
+      <button
+        onClick={() => setShowFileHistory(!showFileHistory)}
+        className={`flex items-center px-3 py-1.5 text-xs font-medium rounded-lg border transition-colors ${
+          showFileHistory
+            ? (isDark ? 'bg-gray-800 border-gray-600 text-white' : 'bg-gray-100 border-gray-300 text-gray-900')
+            : (isDark ? 'border-gray-700 text-gray-300 hover:bg-gray-800' : 'border-gray-300 text-gray-700 hover:bg-gray-100')
+        }`}
+        title="Earlier versions of this file"
+      >
+        <History size={12} className="mr-1.5" />
+        History
+      </button>
+    </div>
+  );
+
+  const renderFileHistoryPanel = (file: FeatureFile, onRestore: (content: string) => Promise<void>) => (
+    <div className={`w-80 flex-shrink-0 border-l p-4 overflow-y-auto ${isDark ? 'dark-scrollbar' : 'light-scrollbar'}`} style={{
+      backgroundColor: isDark ? '#111111' : '#ffffff',
+      borderColor: isDark ? '#2a2a2a' : '#e2e8f0'
+    }}>
+      <RevisionHistoryPanel
+        projectId={project.id}
+        itemType="feature_file"
+        itemId={file.id}
+        title={file.name}
+        currentContent={featureFiles.find(f => f.id === file.id)?.content ?? file.content ?? ''}
+        onRestore={onRestore}
+      />
+    </div>
+  );
+
   const handleImportText = async () => {
     if (selectedFeature && importText.trim()) {
       const fileName = `chat-${new Date().toISOString().slice(0, 19).replace('T', '_').replace(/:/g, '-')}.md`;
@@ -539,6 +679,7 @@ export const FeaturesTab: React.FC<FeaturesTabProps> = ({ project }) => {
     { id: 'tasks' as const, label: 'Tasks', icon: CheckSquare },
     { id: 'ai-summary' as const, label: 'AI Summary', icon: Brain },
     { id: 'chat-history' as const, label: 'Chat History', icon: MessageSquare },
+    { id: 'related' as const, label: 'Related', icon: Link2 },
   ];
 
   const renderSubTabContent = () => {
@@ -553,6 +694,8 @@ export const FeaturesTab: React.FC<FeaturesTabProps> = ({ project }) => {
         return renderAISummarySection();
       case 'chat-history':
         return renderChatHistorySection();
+      case 'related':
+        return renderRelatedSection();
       default:
         return renderInfoSection();
     }
@@ -787,9 +930,11 @@ export const FeaturesTab: React.FC<FeaturesTabProps> = ({ project }) => {
         <div className="flex-1 flex flex-col min-h-0 min-w-0 overflow-hidden">
           {selectedFeatureFile ? (
             <>
+              {renderEditingStatus(featureFileEdits, featureFileEditors)}
+              {renderFileHistoryToggle()}
               {/* File Content Editor */}
-              <div className={`flex-1 min-h-0`} style={{ backgroundColor: isDark ? '#0a0a0a' : '#f8fafc' }}>
-                <div className="h-full p-4">
+              <div className={`flex-1 min-h-0 flex`} style={{ backgroundColor: isDark ? '#0a0a0a' : '#f8fafc' }}>
+                <div className="h-full p-4 flex-1 min-w-0">
                   <div className={`h-full border rounded-lg overflow-hidden`} style={{ 
                     backgroundColor: isDark ? '#111111' : '#ffffff',
                     borderColor: isDark ? '#2a2a2a' : '#e2e8f0'
@@ -805,6 +950,7 @@ export const FeaturesTab: React.FC<FeaturesTabProps> = ({ project }) => {
                     />
                   </div>
                 </div>
+                {showFileHistory && renderFileHistoryPanel(selectedFeatureFile, handleRestoreFeatureFile)}
               </div>
             </>
           ) : (
@@ -836,9 +982,69 @@ export const FeaturesTab: React.FC<FeaturesTabProps> = ({ project }) => {
   };
 
 
+  const handleGenerateSummary = async () => {
+    if (!selectedFeature) return;
+
+    const feature = selectedFeature;
+    const chatFiles = currentChatFiles.filter(file => !excludedSummaryFileIds.has(file.id));
+    setSummaryState({ featureId: feature.id, running: true });
+
+    try {
+      const summary = await generateFeatureSummary(feature, chatFiles, summaryMode, getActiveApiConfig());
+      await saveFeatureSummary(feature.id, renderFeatureSummaryMarkdown(feature, summary), { summary });
+      setSummaryState(null);
+    } catch (error) {
+      console.error('Error generating feature summary:', error);
+      setSummaryState({
+        featureId: feature.id,
+        running: false,
+        error: error instanceof Error ? error.message : 'Failed to generate summary'
+      });
+    }
+  };
+
+  const handleCopySummaryToInfo = async () => {
+    if (!selectedFeature || !currentSummaryRow) return;
+
+    const file = await createFeatureFile(selectedFeature.id, 'implementation-guide.md', 'implementation', selectedFeature);
+    await updateFeatureFile(file.id, { content: currentSummaryRow.content });
+    setSelectedFeatureFile({ ...file, content: currentSummaryRow.content });
+    setActiveSubTab('info');
+  };
+
+  const handleExportSummary = () => {
+    if (!selectedFeature || !currentSummaryRow) return;
+
+    const url = URL.createObjectURL(new Blob([currentSummaryRow.content], { type: 'text/markdown' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${selectedFeature.title.replace(/[^\w-]+/g, '-').toLowerCase()}-summary.md`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const toggleSummaryFile = (fileId: string) => {
+    setExcludedSummaryFileIds(prev => {
+      const next = new Set(prev);
+      if (next.has(fileId)) {
+        next.delete(fileId);
+      } else {
+        next.add(fileId);
+      }
+      return next;
+    });
+  };
+
   const renderAISummarySection = () => {
     if (!selectedFeature) return null;
 
+    const summary = currentSummary;
+    const isRunning = summaryState?.featureId === selectedFeature.id && summaryState.running;
+    const runError = summaryState?.featureId === selectedFeature.id ? summaryState.error : undefined;
+    const aiConfigured = isAiConfigured(getActiveApiConfig());
+    const sectionHeadingClass = `text-sm font-medium ${isDark ? 'text-gray-300' : 'text-gray-700'} mb-2`;
+    const listTextClass = `text-sm ${isDark ? 'text-gray-400' : 'text-gray-600'}`;
+
     return (
       <div className={`flex-1 min-h-0 p-4`} style={{ backgroundColor: isDark ? '#0a0a0a' : '#f8fafc' }}>
         <div 
@@ -850,9 +1056,9 @@ export const FeaturesTab: React.FC<FeaturesTabProps> = ({ project }) => {
         >
           <div className="p-6 space-y-6">
             <div>
-              <h3 className={`text-lg font-semibold ${isDark ? 'text-gray-200' : 'text-gray-800'} mb-2`}>AI Summary & Analysis (coming soon)</h3>
+              <h3 className={`text-lg font-semibold ${isDark ? 'text-gray-200' : 'text-gray-800'} mb-2`}>AI Summary & Analysis</h3>
               <p className={`text-sm ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
-                Generate clean implementation guides from your imported chat conversations
+                Generate an implementation guide from your imported chat files and the conversations that mention this feature
               </p>
             </div>
 
@@ -879,9 +1085,9 @@ export const FeaturesTab: React.FC<FeaturesTabProps> = ({ project }) => {
               {filteredChatFiles.length > 0 ? (
                 <div className="space-y-2">
                   {filteredChatFiles.map((file) => (
-                    <div 
+                    <label 
                       key={file.id}
-                      className={`p-3 border rounded-lg ${isDark ? 'border-gray-700 bg-gray-800/50' : 'border-gray-200 bg-gray-50'}`}
+                      className={`block p-3 border rounded-lg cursor-pointer ${isDark ? 'border-gray-700 bg-gray-800/50' : 'border-gray-200 bg-gray-50'}`}
                     >
                       <div className="flex items-center justify-between">
                         <div className="flex items-center space-x-3">
@@ -898,95 +1104,60 @@ export const FeaturesTab: React.FC<FeaturesTabProps> = ({ project }) => {
                         <input 
                           type="checkbox" 
                           className="rounded"
-                          defaultChecked={true}
+                          checked={!excludedSummaryFileIds.has(file.id)}
+                          onChange={() => toggleSummaryFile(file.id)}
+                          disabled={isRunning}
                         />
                       </div>
-                    </div>
+                    </label>
                   ))}
                 </div>
               ) : (
                 <div className={`text-center py-8 ${isDark ? 'text-gray-500' : 'text-gray-500'}`}>
                   <MessageSquare className={`w-8 h-8 mx-auto mb-3 ${isDark ? 'text-gray-600' : 'text-gray-400'}`} />
                   <p className="text-sm font-medium mb-1">No chat files available</p>
-                  <p className="text-xs">Import conversations in the Chat History tab first</p>
+                  <p className="text-xs">Import conversations in the Chat History tab, or mention this feature in a saved conversation</p>
                 </div>
               )}
             </div>
 
             {/* Generation Options */}
-            {filteredChatFiles.length > 0 && (
-              <div className="space-y-4">
-                <h4 className={`text-sm font-medium ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
-                  Generate Documentation
-                </h4>
-                
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                  <button 
-                    className={`p-4 text-left border rounded-lg transition-colors ${
-                      isDark 
-                        ? 'border-gray-600 hover:bg-gray-800 text-gray-200' 
-                        : 'border-gray-300 hover:bg-gray-50 text-gray-700'
-                    }`}
-                  >
-                    <div className="flex items-center space-x-3 mb-2">
-                      <FileText size={16} className={`${isDark ? 'text-gray-400' : 'text-gray-500'}`} />
-                      <span className="font-medium">Requirements</span>
-                    </div>
-                    <p className={`text-xs ${isDark ? 'text-gray-500' : 'text-gray-500'}`}>
-                      Extract feature requirements from conversations
-                    </p>
-                  </button>
-
-                  <button 
-                    className={`p-4 text-left border rounded-lg transition-colors ${
-                      isDark 
-                        ? 'border-gray-600 hover:bg-gray-800 text-gray-200' 
-                        : 'border-gray-300 hover:bg-gray-50 text-gray-700'
-                    }`}
-                  >
-                    <div className="flex items-center space-x-3 mb-2">
-                      <Edit3 size={16} className={`${isDark ? 'text-gray-400' : 'text-gray-500'}`} />
-                      <span className="font-medium">Structure</span>
-                    </div>
-                    <p className={`text-xs ${isDark ? 'text-gray-500' : 'text-gray-500'}`}>
-                      Generate architecture and data structures
-                    </p>
-                  </button>
-
-                  <button 
-                    className={`p-4 text-left border rounded-lg transition-colors ${
-                      isDark 
-                        ? 'border-gray-600 hover:bg-gray-800 text-gray-200' 
-                        : 'border-gray-300 hover:bg-gray-50 text-gray-700'
-                    }`}
-                  >
-                    <div className="flex items-center space-x-3 mb-2">
-                      <Edit size={16} className={`${isDark ? 'text-gray-400' : 'text-gray-500'}`} />
-                      <span className="font-medium">Implementation</span>
-                    </div>
-                    <p className={`text-xs ${isDark ? 'text-gray-500' : 'text-gray-500'}`}>
-                      Create implementation guides and code examples
-                    </p>
-                  </button>
-
-                  <button 
-                    className={`p-4 text-left border rounded-lg transition-colors ${
-                      isDark 
-                        ? 'border-gray-600 hover:bg-gray-800 text-gray-200' 
-                        : 'border-gray-300 hover:bg-gray-50 text-gray-700'
-                    }`}
-                  >
-                    <div className="flex items-center space-x-3 mb-2">
-                      <Brain size={16} className={`${isDark ? 'text-gray-400' : 'text-gray-500'}`} />
-                      <span className="font-medium">Full Summary</span>
-                    </div>
-                    <p className={`text-xs ${isDark ? 'text-gray-500' : 'text-gray-500'}`}>
-                      Generate complete documentation package
-                    </p>
-                  </button>
-                </div>
+            <div className="space-y-3">
+              <h4 className={`text-sm font-medium ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
+                Generate Implementation Guide
+              </h4>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {FEATURE_SUMMARY_MODES.map(mode => {
+                  const disabled = isRunning || (mode === 'ai' && !aiConfigured);
+                  return (
+                    <button 
+                      key={mode}
+                      onClick={() => setSummaryMode(mode)}
+                      disabled={disabled}
+                      className={`p-4 text-left border rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                        summaryMode === mode
+                          ? isDark ? 'border-blue-500 bg-blue-900/20 text-gray-200' : 'border-blue-500 bg-blue-50 text-gray-800'
+                          : isDark 
+                            ? 'border-gray-600 hover:bg-gray-800 text-gray-200' 
+                            : 'border-gray-300 hover:bg-gray-50 text-gray-700'
+                      }`}
+                    >
+                      <div className="flex items-center space-x-3 mb-2">
+                        {mode === 'ai'
+                          ? <Brain size={16} className={`${isDark ? 'text-gray-400' : 'text-gray-500'}`} />
+                          : <FileText size={16} className={`${isDark ? 'text-gray-400' : 'text-gray-500'}`} />}
+                        <span className="font-medium">{FEATURE_SUMMARY_MODE_LABELS[mode]}</span>
+                      </div>
+                      <p className={`text-xs ${isDark ? 'text-gray-500' : 'text-gray-500'}`}>
+                        {mode === 'ai'
+                          ? aiConfigured ? 'Summarise with your configured model' : 'Add a key in Settings → API Storage to enable'
+                          : 'Extract steps, files and decisions from the text, without an AI provider'}
+                      </p>
+                    </button>
+                  );
+                })}
               </div>
-            )}
+            </div>
 
             {/* Generated Content Preview */}
             <div className="space-y-4">
@@ -995,37 +1166,90 @@ export const FeaturesTab: React.FC<FeaturesTabProps> = ({ project }) => {
               </h4>
               
               <div className={`p-4 border rounded-lg ${isDark ? 'border-gray-700 bg-gray-800/30' : 'border-gray-200 bg-gray-50'}`}>
-                <div className={`text-center py-8 ${isDark ? 'text-gray-500' : 'text-gray-500'}`}>
-                  <Brain className={`w-8 h-8 mx-auto mb-3 ${isDark ? 'text-gray-600' : 'text-gray-400'}`} />
-                  <p className="text-sm font-medium mb-1">No content generated yet</p>
-                  <p className="text-xs">Select generation options above to create documentation</p>
-                </div>
+                {summary ? (
+                  <div className="space-y-4">
+                    <div>
+                      <h5 className={sectionHeadingClass}>Overview</h5>
+                      <p className={`${listTextClass} whitespace-pre-wrap`}>{summary.overview}</p>
+                    </div>
+                    {summary.steps.length > 0 && (
+                      <div>
+                        <h5 className={sectionHeadingClass}>Steps</h5>
+                        <ol className={`list-decimal list-inside space-y-1 ${listTextClass}`}>
+                          {summary.steps.map((step, index) => <li key={index}>{step}</li>)}
+                        </ol>
+                      </div>
+                    )}
+                    {summary.filesTouched.length > 0 && (
+                      <div>
+                        <h5 className={sectionHeadingClass}>Files Touched</h5>
+                        <div className="flex flex-wrap gap-1">
+                          {summary.filesTouched.map(file => (
+                            <span key={file} className={`text-xs px-2 py-0.5 rounded font-mono ${isDark ? 'bg-gray-800 text-gray-300' : 'bg-gray-100 text-gray-700'}`}>{file}</span>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                    {summary.decisions.length > 0 && (
+                      <div>
+                        <h5 className={sectionHeadingClass}>Decisions</h5>
+                        <ul className={`list-disc list-inside space-y-1 ${listTextClass}`}>
+                          {summary.decisions.map((item, index) => <li key={index}>{item}</li>)}
+                        </ul>
+                      </div>
+                    )}
+                    {summary.rejected.length > 0 && (
+                      <div>
+                        <h5 className={sectionHeadingClass}>Rejected Approaches</h5>
+                        <ul className={`list-disc list-inside space-y-1 ${listTextClass}`}>
+                          {summary.rejected.map((item, index) => <li key={index}>{item}</li>)}
+                        </ul>
+                      </div>
+                    )}
+                    <p className={`text-xs ${isDark ? 'text-gray-500' : 'text-gray-500'}`}>
+                      Generated {new Date(summary.generatedAt).toLocaleString()} with {summary.mode === 'ai' ? summary.model || 'AI' : 'heuristics'} from{' '}
+                      {summary.sources.map(source => source.title).join(', ')}
+                    </p>
+                  </div>
+                ) : (
+                  <div className={`text-center py-8 ${isDark ? 'text-gray-500' : 'text-gray-500'}`}>
+                    <Brain className={`w-8 h-8 mx-auto mb-3 ${isDark ? 'text-gray-600' : 'text-gray-400'}`} />
+                    <p className="text-sm font-medium mb-1">No content generated yet</p>
+                    <p className="text-xs">Choose a mode above and generate the implementation guide</p>
+                  </div>
+                )}
               </div>
+
+              {runError && <p className="text-sm text-red-500">{runError}</p>}
               
               <div className="flex justify-between items-center">
                 <div className="flex items-center space-x-2">
                   <button 
-                    disabled
-                    className={`px-3 py-1.5 text-xs rounded border transition-colors opacity-50 cursor-not-allowed ${
-                      isDark ? 'border-gray-600 text-gray-400' : 'border-gray-300 text-gray-500'
+                    onClick={handleCopySummaryToInfo}
+                    disabled={!summary || isRunning}
+                    className={`px-3 py-1.5 text-xs rounded border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                      isDark ? 'border-gray-600 text-gray-400 hover:bg-gray-800' : 'border-gray-300 text-gray-500 hover:bg-gray-50'
                     }`}
                   >
                     Copy to Info Tab
                   </button>
                   <button 
-                    disabled
-                    className={`px-3 py-1.5 text-xs rounded border transition-colors opacity-50 cursor-not-allowed ${
-                      isDark ? 'border-gray-600 text-gray-400' : 'border-gray-300 text-gray-500'
+                    onClick={handleExportSummary}
+                    disabled={!summary}
+                    className={`px-3 py-1.5 text-xs rounded border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                      isDark ? 'border-gray-600 text-gray-400 hover:bg-gray-800' : 'border-gray-300 text-gray-500 hover:bg-gray-50'
                     }`}
                   >
                     Export
                   </button>
                 </div>
                 <button 
-                  disabled
-                  className="px-4 py-2 bg-blue-600 text-white rounded-lg opacity-50 cursor-not-allowed text-sm"
+                  onClick={handleGenerateSummary}
+                  disabled={isRunning}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm flex items-center"
                 >
-                  Regenerate
+                  {isRunning && <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin mr-2"></div>}
+                  {isRunning ? 'Generating...' : summary ? 'Regenerate' : 'Generate'}
                 </button>
               </div>
             </div>
@@ -1035,6 +1259,21 @@ export const FeaturesTab: React.FC<FeaturesTabProps> = ({ project }) => {
     );
   };
 
+  const renderRelatedSection = () => {
+    if (!selectedFeature) return null;
+
+    return (
+      <div className="flex-1 min-h-0 p-4" style={{ backgroundColor: isDark ? '#0a0a0a' : '#f8fafc' }}>
+        <div className={`w-full h-full border rounded-lg p-6 overflow-y-auto ${isDark ? 'dark-scrollbar' : 'light-scrollbar'}`} style={{
+          backgroundColor: isDark ? '#111111' : '#ffffff',
+          borderColor: isDark ? '#2a2a2a' : '#e2e8f0'
+        }}>
+          <RelatedItemsPanel projectId={project.id} itemType="feature" itemId={selectedFeature.id} />
+        </div>
+      </div>
+    );
+  };
+
   const renderChatHistorySection = () => {
     if (!selectedFeature) return null;
 
@@ -1274,9 +1513,11 @@ export const FeaturesTab: React.FC<FeaturesTabProps> = ({ project }) => {
         <div className="flex-1 flex flex-col min-h-0 min-w-0 overflow-hidden">
           {selectedChatFile ? (
             <>
+              {renderEditingStatus(chatFileEdits, chatFileEditors)}
+              {renderFileHistoryToggle()}
               {/* Chat File Content Editor */}
-              <div className={`flex-1 min-h-0`} style={{ backgroundColor: isDark ? '#0a0a0a' : '#f8fafc' }}>
-                <div className="h-full p-4">
+              <div className={`flex-1 min-h-0 flex`} style={{ backgroundColor: isDark ? '#0a0a0a' : '#f8fafc' }}>
+                <div className="h-full p-4 flex-1 min-w-0">
                   <div className={`h-full border rounded-lg overflow-hidden`} style={{ 
                     backgroundColor: isDark ? '#111111' : '#ffffff',
                     borderColor: isDark ? '#2a2a2a' : '#e2e8f0'
@@ -1292,6 +1533,7 @@ export const FeaturesTab: React.FC<FeaturesTabProps> = ({ project }) => {
                     />
                   </div>
                 </div>
+                {showFileHistory && renderFileHistoryPanel(selectedChatFile, handleRestoreChatFile)}
               </div>
             </>
           ) : (
@@ -1732,6 +1974,17 @@ export const FeaturesTab: React.FC<FeaturesTabProps> = ({ project }) => {
                     </span>
                   </div>
                 </div>
+
+                <button
+                  onClick={() => setShowContextPack(true)}
+                  className={`flex items-center px-3 py-1.5 text-xs font-medium rounded-lg border transition-colors ${
+                    isDark ? 'border-gray-600 text-gray-300 hover:bg-gray-800' : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+                  }`}
+                  title="Copy this feature with its requirements, related bugs and code changes for a new AI session"
+                >
+                  <Copy size={14} className="mr-1.5" />
+                  Copy for AI
+                </button>
               </div>
 
               {/* Sub Navigation Row */}
@@ -1829,6 +2082,19 @@ export const FeaturesTab: React.FC<FeaturesTabProps> = ({ project }) => {
                   ))}
                 </div>
               </div>
+
+              {DEFAULT_FEATURE_FILES.map((file, index) => (
+                <TemplateSelect
+                  key={file.type}
+                  target="feature_file"
+                  itemType={file.type}
+                  templates={templates}
+                  value={newFeatureTemplateIds[file.type] || ''}
+                  onChange={(templateId) => setNewFeatureTemplateIds(prev => ({ ...prev, [file.type]: templateId }))}
+                  onManage={index === 0 ? () => setShowTemplateManager(true) : undefined}
+                  label={file.name}
+                />
+              ))}
             </div>
 
             <div className="flex justify-end space-x-3 mt-8">
@@ -1902,7 +2168,10 @@ export const FeaturesTab: React.FC<FeaturesTabProps> = ({ project }) => {
                         name="fileType"
                         value={type.id}
                         checked={newFileType === type.id}
-                        onChange={(e) => setNewFileType(e.target.value as FeatureFile['type'])}
+                        onChange={(e) => {
+                          setNewFileType(e.target.value as FeatureFile['type']);
+                          setNewFileTemplateId(getDefaultTemplate('feature_file', e.target.value)?.id || '');
+                        }}
                         className="mt-1 text-blue-600"
                       />
                       <div className="flex-1">
@@ -1925,6 +2194,15 @@ export const FeaturesTab: React.FC<FeaturesTabProps> = ({ project }) => {
                   ))}
                 </div>
               </div>
+
+              <TemplateSelect
+                target="feature_file"
+                itemType={newFileType}
+                templates={templates}
+                value={newFileTemplateId}
+                onChange={setNewFileTemplateId}
+                onManage={() => setShowTemplateManager(true)}
+              />
             </div>
 
             <div className="flex justify-end space-x-3 mt-8">
@@ -1933,6 +2211,7 @@ export const FeaturesTab: React.FC<FeaturesTabProps> = ({ project }) => {
                   setShowCreateFileModal(false);
                   setNewFileName('');
                   setNewFileType('requirement');
+                  setNewFileTemplateId(getDefaultTemplate('feature_file', 'requirement')?.id || '');
                 }}
                 className={`px-4 py-2 rounded-xl transition-colors font-medium`}
                 style={{ 
@@ -1947,8 +2226,7 @@ export const FeaturesTab: React.FC<FeaturesTabProps> = ({ project }) => {
               <button
                 onClick={() => {
                   const finalFileName = newFileName.trim() || featureFileTypes.find(ft => ft.id === newFileType)?.defaultName || 'untitled.md';
-                  setNewFileName(finalFileName);
-                  handleCreateFeatureFile();
+                  handleCreateFeatureFile(finalFileName);
                 }}
                 className="px-6 py-2 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-xl hover:from-blue-700 hover:to-blue-800 transition-all duration-200 font-medium"
               >
@@ -1959,6 +2237,34 @@ export const FeaturesTab: React.FC<FeaturesTabProps> = ({ project }) => {
         </div>
       )}
 
+      {selectedFeatureFile && featureFileEdits.conflict && (
+        <EditConflictModal
+          itemName={selectedFeatureFile.name}
+          conflict={featureFileEdits.conflict}
+          onResolve={featureFileEdits.resolveConflict}
+          onClose={featureFileEdits.dismissConflict}
+        />
+      )}
+
+      {selectedChatFile && chatFileEdits.conflict && (
+        <EditConflictModal
+          itemName={selectedChatFile.name}
+          conflict={chatFileEdits.conflict}
+          onResolve={chatFileEdits.resolveConflict}
+          onClose={chatFileEdits.dismissConflict}
+        />
+      )}
+
+      {showTemplateManager && (
+        <TemplateManagerModal
+          project={project}
+          templates={templates}
+          initialTarget="feature_file"
+          onChange={reloadTemplates}
+          onClose={() => setShowTemplateManager(false)}
+        />
+      )}
+
       {/* Create Chat File Modal */}
       {showCreateChatFileModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -2040,6 +2346,13 @@ export const FeaturesTab: React.FC<FeaturesTabProps> = ({ project }) => {
         }
         itemName={deletionType === 'file' ? selectedFeatureFile?.name : selectedFeature?.title}
       />
+
+      <ContextPackModal
+        isOpen={showContextPack}
+        projectId={project.id}
+        focus={selectedFeature ? { type: 'feature', id: selectedFeature.id, title: selectedFeature.title } : null}
+        onClose={() => setShowContextPack(false)}
+      />
     </div>
   );
 };
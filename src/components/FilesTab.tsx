@@ -1,56 +1,142 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { motion } from 'framer-motion';
-import { Upload, File, Image, FileText, Download, Trash2, Search } from 'lucide-react';
-import { Project } from '../types';
+import { Upload, File, Image, FileText, Download, Trash2, Search, Edit2, Eye, X, Check, HardDrive, AlertCircle } from 'lucide-react';
+import { Project, FileItem } from '../types';
 import { useTheme } from '../contexts/ThemeContext';
+import { useSupabaseProjects } from '../hooks/useSupabaseProjects';
+import { DeleteConfirmationModal } from './ui/DeleteConfirmationModal';
+import { getStorageUsage, getProjectFileUrl, readProjectFileText, StorageUsage } from '../services/fileUpload';
+import { FileCategory, formatBytes, getFileCategory, getQuotaStatus, isPreviewable } from '../lib/fileUtils';
 
 interface FilesTabProps {
   project: Project;
 }
 
-const fileTypeIcons = {
+interface UploadState {
+  id: string;
+  name: string;
+  progress: number;
+  message: string;
+  error?: string;
+}
+
+interface PreviewState {
+  file: FileItem;
+  category: FileCategory;
+  url?: string;
+  text?: string;
+  truncated?: boolean;
+  error?: string;
+}
+
+const fileTypeIcons: Record<FileCategory | 'default', typeof File> = {
   image: Image,
+  pdf: FileText,
+  text: FileText,
   document: FileText,
+  other: File,
   default: File,
 };
 
-const mockFiles = [
-  {
-    id: '1',
-    name: 'project-mockup.png',
-    type: 'image',
-    size: '2.4 MB',
-    uploadedAt: new Date(),
-    url: 'https://images.pexels.com/photos/196644/pexels-photo-196644.jpeg',
-  },
-  {
-    id: '2',
-    name: 'requirements.pdf',
-    type: 'document',
-    size: '847 KB',
-    uploadedAt: new Date(),
-    url: '#',
-  },
-  {
-    id: '3',
-    name: 'user-research.docx',
-    type: 'document',
-    size: '1.2 MB',
-    uploadedAt: new Date(),
-    url: '#',
-  },
-];
-
 export const FilesTab: React.FC<FilesTabProps> = ({ project }) => {
   const { isDark } = useTheme();
-  const [files] = useState(mockFiles);
+  const { files: allFiles, uploadFile, renameFile, deleteFile } = useSupabaseProjects();
   const [searchTerm, setSearchTerm] = useState('');
   const [dragOver, setDragOver] = useState(false);
+  const [uploads, setUploads] = useState<UploadState[]>([]);
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [thumbnailUrls, setThumbnailUrls] = useState<Record<string, string>>({});
+  const [preview, setPreview] = useState<PreviewState | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [fileToDelete, setFileToDelete] = useState<FileItem | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
 
+  const files = allFiles.filter(file => file.projectId === project.id);
   const filteredFiles = files.filter(file =>
     file.name.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
+  const refreshUsage = useCallback(async () => {
+    try {
+      setUsage(await getStorageUsage());
+    } catch (error) {
+      console.error('Error loading storage usage:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshUsage();
+  }, [refreshUsage, project.id]);
+
+  // Signed URLs for image thumbnails (the bucket is private)
+  const imageFiles = useMemo(
+    () => allFiles.filter(file => file.projectId === project.id && getFileCategory(file.mimeType, file.name) === 'image'),
+    [allFiles, project.id]
+  );
+  // Read when the image files change, so new URLs do not fetch again
+  const thumbnailUrlsRef = useRef(thumbnailUrls);
+  thumbnailUrlsRef.current = thumbnailUrls;
+
+  useEffect(() => {
+    const missing = imageFiles.filter(file => !thumbnailUrlsRef.current[file.id]);
+    if (missing.length === 0) return;
+
+    let cancelled = false;
+    Promise.all(missing.map(async file => {
+      try {
+        return [file.id, await getProjectFileUrl(file)] as const;
+      } catch {
+        return null;
+      }
+    })).then(entries => {
+      if (cancelled) return;
+      setThumbnailUrls(prev => ({
+        ...prev,
+        ...Object.fromEntries(entries.filter((entry): entry is readonly [string, string] => entry !== null))
+      }));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [imageFiles]);
+
+  const handleUpload = async (selectedFiles: File[]) => {
+    if (selectedFiles.length === 0) return;
+    setErrorMessage(null);
+
+    const batch = selectedFiles.map(file => ({
+      id: `${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+      name: file.name,
+      progress: 0,
+      message: 'Waiting...'
+    }));
+    setUploads(prev => [...prev, ...batch]);
+
+    for (let i = 0; i < selectedFiles.length; i++) {
+      const uploadId = batch[i].id;
+      try {
+        await uploadFile(project.id, selectedFiles[i], {
+          onProgress: ({ progress, message }) => {
+            setUploads(prev => prev.map(u => u.id === uploadId ? { ...u, progress, message } : u));
+          }
+        });
+        setUploads(prev => prev.filter(u => u.id !== uploadId));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Upload failed';
+        setUploads(prev => prev.map(u => u.id === uploadId ? { ...u, error: message } : u));
+      }
+    }
+
+    refreshUsage();
+  };
+
+  const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    handleUpload(Array.from(e.target.files || []));
+    e.target.value = '';
+  };
+
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
     setDragOver(true);
@@ -64,38 +150,108 @@ export const FilesTab: React.FC<FilesTabProps> = ({ project }) => {
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     setDragOver(false);
-    // Handle file drop
-    const droppedFiles = Array.from(e.dataTransfer.files);
-    console.log('Files dropped:', droppedFiles);
+    handleUpload(Array.from(e.dataTransfer.files));
   };
 
-  const formatFileSize = (size: string) => size;
+  const handleDownload = async (file: FileItem) => {
+    try {
+      const url = await getProjectFileUrl(file, true);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = file.name;
+      link.click();
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Download failed');
+    }
+  };
+
+  const handlePreview = async (file: FileItem) => {
+    const category = getFileCategory(file.mimeType, file.name);
+    setPreview({ file, category });
+
+    try {
+      if (category === 'text') {
+        const { text, truncated } = await readProjectFileText(file);
+        setPreview({ file, category, text, truncated });
+      } else {
+        setPreview({ file, category, url: thumbnailUrls[file.id] || await getProjectFileUrl(file) });
+      }
+    } catch (error) {
+      setPreview({ file, category, error: error instanceof Error ? error.message : 'Preview failed' });
+    }
+  };
 
-  const getFileIcon = (type: string) => {
-    const IconComponent = fileTypeIcons[type as keyof typeof fileTypeIcons] || fileTypeIcons.default;
-    return IconComponent;
+  const startRename = (file: FileItem) => {
+    setRenamingId(file.id);
+    setRenameValue(file.name);
   };
 
+  const submitRename = async () => {
+    const name = renameValue.trim();
+    const file = files.find(f => f.id === renamingId);
+    setRenamingId(null);
+    if (!file || !name || name === file.name) return;
+
+    try {
+      await renameFile(file.id, name);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Rename failed');
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!fileToDelete) return;
+    try {
+      await deleteFile(fileToDelete.id);
+      refreshUsage();
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Delete failed');
+    }
+    setFileToDelete(null);
+  };
+
+  const getFileIcon = (file: FileItem) => fileTypeIcons[getFileCategory(file.mimeType, file.name)] || fileTypeIcons.default;
+
+  const quota = getQuotaStatus(usage?.totalBytes || 0);
+  const projectBytes = usage?.byProject[project.id] || 0;
+  const quotaColor = quota.level === 'exceeded' ? '#ef4444' : quota.level === 'warning' ? '#f59e0b' : '#22c55e';
+
   return (
     <div className="flex flex-col h-full">
       {/* Header */}
-      <div className={`p-6 border-b`} style={{ 
+      <div className={`p-6 border-b`} style={{
         backgroundColor: isDark ? '#1a1a1a' : '#ffffff',
         borderColor: isDark ? '#2a2a2a' : '#e2e8f0'
       }}>
         <div className="flex items-center justify-between mb-6">
           <div>
-            <h2 className={`text-2xl font-bold ${isDark ? 'text-white' : 'text-gray-900'} mb-2`}>Files (Coming soon)</h2>
-            <p className={`text-sm ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>{files.length} files uploaded</p>
+            <h2 className={`text-2xl font-bold ${isDark ? 'text-white' : 'text-gray-900'} mb-2`}>Files</h2>
+            <p className={`text-sm ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
+              {files.length} files uploaded · {formatBytes(projectBytes)} in this project
+            </p>
           </div>
-          
+
           <label className="flex items-center px-6 py-3 bg-gradient-to-r from-green-600 to-green-700 text-white rounded-xl hover:from-green-700 hover:to-green-800 transition-all duration-200 cursor-pointer font-medium shadow-sm hover:shadow-md">
             <Upload size={16} className="mr-2" />
             Upload Files
-            <input type="file" multiple className="hidden" />
+            <input type="file" multiple className="hidden" onChange={handleFileInput} />
           </label>
         </div>
 
+        {/* Storage quota */}
+        <div className="mb-4">
+          <div className={`flex items-center justify-between text-xs mb-1 ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
+            <span className="flex items-center">
+              <HardDrive size={12} className="mr-1" />
+              Storage: {formatBytes(quota.usedBytes)} of {formatBytes(quota.quotaBytes)} used
+            </span>
+            <span>{quota.percent.toFixed(1)}%</span>
+          </div>
+          <div className="h-1.5 rounded-full overflow-hidden" style={{ backgroundColor: isDark ? '#2a2a2a' : '#e2e8f0' }}>
+            <div className="h-full rounded-full transition-all duration-300" style={{ width: `${quota.percent}%`, backgroundColor: quotaColor }} />
+          </div>
+        </div>
+
         {/* Search */}
         <div className="relative">
           <Search size={16} className={`absolute left-4 top-1/2 transform -translate-y-1/2 text-gray-500`} />
@@ -105,28 +261,64 @@ export const FilesTab: React.FC<FilesTabProps> = ({ project }) => {
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
             className={`w-full pl-12 pr-4 py-3 border rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200`}
-            style={{ 
+            style={{
               borderColor: isDark ? '#2a2a2a' : '#e2e8f0',
               backgroundColor: isDark ? '#0f172a' : '#f8fafc',
               color: isDark ? '#ffffff' : '#000000'
             }}
           />
         </div>
+
+        {/* Errors and upload progress */}
+        {errorMessage && (
+          <div className="mt-4 flex items-center justify-between px-4 py-2 rounded-lg text-sm bg-red-500/10 text-red-500">
+            <span className="flex items-center"><AlertCircle size={14} className="mr-2" />{errorMessage}</span>
+            <button onClick={() => setErrorMessage(null)}><X size={14} /></button>
+          </div>
+        )}
+        {uploads.length > 0 && (
+          <div className="mt-4 space-y-2">
+            {uploads.map(upload => (
+              <div key={upload.id} className={`px-4 py-2 rounded-lg text-sm ${isDark ? 'bg-gray-800' : 'bg-gray-100'}`}>
+                <div className="flex items-center justify-between mb-1">
+                  <span className={`truncate ${isDark ? 'text-gray-200' : 'text-gray-800'}`}>{upload.name}</span>
+                  {upload.error ? (
+                    <button
+                      onClick={() => setUploads(prev => prev.filter(u => u.id !== upload.id))}
+                      className="flex items-center text-red-500 text-xs ml-2"
+                      title="Dismiss"
+                    >
+                      {upload.error}
+                      <X size={12} className="ml-1" />
+                    </button>
+                  ) : (
+                    <span className={`text-xs ml-2 ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>{upload.message}</span>
+                  )}
+                </div>
+                {!upload.error && (
+                  <div className="h-1 rounded-full overflow-hidden" style={{ backgroundColor: isDark ? '#374151' : '#e2e8f0' }}>
+                    <div className="h-full bg-blue-500 transition-all duration-300" style={{ width: `${upload.progress}%` }} />
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Drop Zone */}
-      <div className={`flex-1 p-6`} style={{ backgroundColor: isDark ? '#0a0a0a' : '#f8fafc' }}>
+      <div className={`flex-1 p-6 overflow-y-auto`} style={{ backgroundColor: isDark ? '#0a0a0a' : '#f8fafc' }}>
         <div
-          className={`h-full rounded-2xl border-2 border-dashed transition-all duration-200 ${
+          className={`min-h-full rounded-2xl border-2 border-dashed transition-all duration-200 ${
             dragOver
               ? `border-blue-400 bg-blue-50/50`
               : ``
           }`}
           style={{
-            backgroundColor: dragOver 
+            backgroundColor: dragOver
               ? (isDark ? '#1e3a8a' : '#dbeafe')
               : (isDark ? '#1a1a1a' : '#ffffff'),
-            borderColor: dragOver 
+            borderColor: dragOver
               ? (isDark ? '#3b82f6' : '#60a5fa')
               : (isDark ? '#2a2a2a' : '#e2e8f0')
           }}
@@ -139,8 +331,9 @@ export const FilesTab: React.FC<FilesTabProps> = ({ project }) => {
               {/* File Grid */}
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
                 {filteredFiles.map((file) => {
-                  const FileIcon = getFileIcon(file.type);
-                  
+                  const FileIcon = getFileIcon(file);
+                  const category = getFileCategory(file.mimeType, file.name);
+
                   return (
                     <motion.div
                       key={file.id}
@@ -148,37 +341,65 @@ export const FilesTab: React.FC<FilesTabProps> = ({ project }) => {
                       animate={{ opacity: 1, scale: 1 }}
                       whileHover={{ scale: 1.02 }}
                       className={`p-6 rounded-2xl shadow-sm border hover:shadow-md transition-all duration-200 group`}
-                      style={{ 
+                      style={{
                         backgroundColor: isDark ? '#0f172a' : '#f8fafc',
                         borderColor: isDark ? '#1e293b' : '#e2e8f0'
                       }}
                     >
-                      {file.type === 'image' ? (
-                        <div className={`aspect-square mb-4 rounded-xl overflow-hidden`} style={{ backgroundColor: isDark ? '#1e293b' : '#e2e8f0' }}>
+                      <button
+                        onClick={() => isPreviewable(category) && handlePreview(file)}
+                        className={`w-full aspect-square mb-4 rounded-xl overflow-hidden flex items-center justify-center ${isPreviewable(category) ? 'cursor-pointer' : 'cursor-default'}`}
+                        style={{ backgroundColor: isDark ? '#1e293b' : '#e2e8f0' }}
+                        title={isPreviewable(category) ? 'Preview' : undefined}
+                      >
+                        {category === 'image' && thumbnailUrls[file.id] ? (
                           <img
-                            src={file.url}
+                            src={thumbnailUrls[file.id]}
                             alt={file.name}
                             className="w-full h-full object-cover"
                           />
-                        </div>
-                      ) : (
-                        <div className={`aspect-square mb-4 rounded-xl flex items-center justify-center`} style={{ backgroundColor: isDark ? '#1e293b' : '#e2e8f0' }}>
+                        ) : (
                           <FileIcon size={40} className={`${isDark ? 'text-gray-500' : 'text-gray-400'}`} />
-                        </div>
-                      )}
-                      
+                        )}
+                      </button>
+
                       <div className="space-y-3">
-                        <h4 className={`font-semibold ${isDark ? 'text-white' : 'text-gray-900'} text-sm truncate group-hover:text-blue-500 transition-colors`} title={file.name}>
-                          {file.name}
-                        </h4>
+                        {renamingId === file.id ? (
+                          <div className="flex items-center space-x-1">
+                            <input
+                              autoFocus
+                              value={renameValue}
+                              onChange={(e) => setRenameValue(e.target.value)}
+                              onKeyDown={(e) => {
+                                if (e.key === 'Enter') submitRename();
+                                if (e.key === 'Escape') setRenamingId(null);
+                              }}
+                              onBlur={submitRename}
+                              className={`flex-1 min-w-0 px-2 py-1 text-sm rounded border ${isDark ? 'bg-gray-800 border-gray-700 text-white' : 'bg-white border-gray-300 text-gray-900'}`}
+                            />
+                            <button onMouseDown={(e) => e.preventDefault()} onClick={submitRename} className="p-1 text-green-500">
+                              <Check size={14} />
+                            </button>
+                          </div>
+                        ) : (
+                          <h4
+                            className={`font-semibold ${isDark ? 'text-white' : 'text-gray-900'} text-sm truncate group-hover:text-blue-500 transition-colors cursor-text`}
+                            title={file.name}
+                            onDoubleClick={() => startRename(file)}
+                          >
+                            {file.name}
+                          </h4>
+                        )}
                         <div className={`flex items-center justify-between text-xs ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
-                          <span className="font-medium">{formatFileSize(file.size)}</span>
+                          <span className="font-medium">{formatBytes(file.size)}</span>
                           <span>{file.uploadedAt.toLocaleDateString()}</span>
                         </div>
-                        
+
                         <div className="flex items-center space-x-2 pt-2">
-                          <button className={`flex-1 flex items-center justify-center p-2 rounded-lg transition-all duration-200 border font-medium text-sm`}
-                            style={{ 
+                          <button
+                            onClick={() => handleDownload(file)}
+                            className={`flex-1 flex items-center justify-center p-2 rounded-lg transition-all duration-200 border font-medium text-sm`}
+                            style={{
                               backgroundColor: 'transparent',
                               borderColor: isDark ? '#1e293b' : '#e2e8f0',
                               color: isDark ? '#d1d5db' : '#374151'
@@ -189,10 +410,29 @@ export const FilesTab: React.FC<FilesTabProps> = ({ project }) => {
                             <Download size={14} className="mr-1" />
                             Download
                           </button>
-                          <button className={`p-2 text-red-500 rounded-lg transition-all duration-200 border border-red-200 hover:bg-red-50`}
+                          {isPreviewable(category) && (
+                            <button
+                              onClick={() => handlePreview(file)}
+                              className={`p-2 rounded-lg transition-all duration-200 border ${isDark ? 'border-gray-700 text-gray-300 hover:bg-gray-800' : 'border-gray-200 text-gray-600 hover:bg-gray-100'}`}
+                              title="Preview"
+                            >
+                              <Eye size={14} />
+                            </button>
+                          )}
+                          <button
+                            onClick={() => startRename(file)}
+                            className={`p-2 rounded-lg transition-all duration-200 border ${isDark ? 'border-gray-700 text-gray-300 hover:bg-gray-800' : 'border-gray-200 text-gray-600 hover:bg-gray-100'}`}
+                            title="Rename"
+                          >
+                            <Edit2 size={14} />
+                          </button>
+                          <button
+                            onClick={() => setFileToDelete(file)}
+                            className={`p-2 text-red-500 rounded-lg transition-all duration-200 border border-red-200 hover:bg-red-50`}
                             style={{ backgroundColor: 'transparent' }}
                             onMouseEnter={(e) => e.currentTarget.style.backgroundColor = isDark ? '#7f1d1d' : '#fef2f2'}
                             onMouseLeave={(e) => e.currentTarget.style.backgroundColor = 'transparent'}
+                            title="Delete"
                           >
                             <Trash2 size={14} />
                           </button>
@@ -204,7 +444,7 @@ export const FilesTab: React.FC<FilesTabProps> = ({ project }) => {
               </div>
             </div>
           ) : (
-            <div className={`h-full flex flex-col items-center justify-center ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+            <div className={`h-full min-h-[400px] flex flex-col items-center justify-center ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
               <div className={`w-20 h-20 rounded-2xl mb-6 flex items-center justify-center`} style={{ backgroundColor: isDark ? '#0f172a' : '#f1f5f9' }}>
                 <Upload className="w-10 h-10 opacity-30" />
               </div>
@@ -212,7 +452,7 @@ export const FilesTab: React.FC<FilesTabProps> = ({ project }) => {
                 {searchTerm ? 'No files found' : 'No files uploaded yet'}
               </p>
               <p className="text-sm text-center mb-8 max-w-md">
-                {searchTerm 
+                {searchTerm
                   ? 'Try adjusting your search terms'
                   : 'Drag and drop files here, or click the upload button to get started'
                 }
@@ -221,13 +461,76 @@ export const FilesTab: React.FC<FilesTabProps> = ({ project }) => {
                 <label className="flex items-center px-8 py-4 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-xl hover:from-blue-700 hover:to-blue-800 transition-all duration-200 cursor-pointer font-medium shadow-sm hover:shadow-md">
                   <Upload size={18} className="mr-2" />
                   Choose Files
-                  <input type="file" multiple className="hidden" />
+                  <input type="file" multiple className="hidden" onChange={handleFileInput} />
                 </label>
               )}
             </div>
           )}
         </div>
       </div>
+
+      {/* Preview */}
+      {preview && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-70 p-8"
+          onClick={(e) => e.target === e.currentTarget && setPreview(null)}
+        >
+          <div
+            className="relative w-full max-w-5xl max-h-full flex flex-col rounded-2xl overflow-hidden"
+            style={{ backgroundColor: isDark ? '#1a1a1a' : '#ffffff' }}
+          >
+            <div className={`flex items-center justify-between px-4 py-3 border-b ${isDark ? 'border-gray-700' : 'border-gray-200'}`}>
+              <span className={`font-medium truncate ${isDark ? 'text-white' : 'text-gray-900'}`}>{preview.file.name}</span>
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => handleDownload(preview.file)}
+                  className={`p-2 rounded-lg ${isDark ? 'text-gray-300 hover:bg-gray-800' : 'text-gray-600 hover:bg-gray-100'}`}
+                  title="Download"
+                >
+                  <Download size={16} />
+                </button>
+                <button
+                  onClick={() => setPreview(null)}
+                  className={`p-2 rounded-lg ${isDark ? 'text-gray-300 hover:bg-gray-800' : 'text-gray-600 hover:bg-gray-100'}`}
+                >
+                  <X size={16} />
+                </button>
+              </div>
+            </div>
+            <div className="flex-1 overflow-auto min-h-[300px] flex items-center justify-center">
+              {preview.error ? (
+                <p className="text-red-500 text-sm">{preview.error}</p>
+              ) : preview.category === 'image' && preview.url ? (
+                <img src={preview.url} alt={preview.file.name} className="max-w-full max-h-[75vh] object-contain" />
+              ) : preview.category === 'pdf' && preview.url ? (
+                <iframe src={preview.url} title={preview.file.name} className="w-full h-[75vh]" />
+              ) : preview.category === 'text' && preview.text !== undefined ? (
+                <div className="w-full self-stretch">
+                  <pre className={`p-4 text-xs font-mono whitespace-pre-wrap break-words ${isDark ? 'text-gray-200' : 'text-gray-800'}`}>
+                    {preview.text}
+                  </pre>
+                  {preview.truncated && (
+                    <p className={`px-4 pb-4 text-xs ${isDark ? 'text-gray-500' : 'text-gray-500'}`}>
+                      Preview truncated. Download the file to see everything.
+                    </p>
+                  )}
+                </div>
+              ) : (
+                <div className="w-8 h-8 border-4 border-gray-600 border-t-transparent rounded-full animate-spin" />
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      <DeleteConfirmationModal
+        isOpen={!!fileToDelete}
+        onClose={() => setFileToDelete(null)}
+        onConfirm={confirmDelete}
+        title="Delete File"
+        message="Are you sure you want to delete this file? It will be permanently removed from storage."
+        itemName={fileToDelete?.name}
+      />
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,354 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { Puzzle, Search, Bug, MessageCircle, ThumbsUp, ThumbsDown, Trash2, Code, RefreshCw } from 'lucide-react';
+import { Project, Pattern } from '../types';
+import { useTheme } from '../contexts/ThemeContext';
+import { NavigationService, OpenItemPayload } from '../lib/navigation/NavigationService';
+import { getPatternSuccessRate } from '../lib/patternExtraction';
+import { deletePattern, fetchPatterns, recordPatternUsage } from '../services/patternService';
+import { DeleteConfirmationModal } from './ui/DeleteConfirmationModal';
+
+interface PatternsTabProps {
+  project: Project;
+  isActive?: boolean;
+}
+
+type PatternSort = 'success' | 'usage' | 'recent';
+
+export const PatternsTab: React.FC<PatternsTabProps> = ({ project, isActive = true }) => {
+  const { isDark } = useTheme();
+  const [patterns, setPatterns] = useState<Pattern[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedTech, setSelectedTech] = useState<string[]>([]);
+  const [allProjects, setAllProjects] = useState(false);
+  const [sort, setSort] = useState<PatternSort>('success');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [patternToDelete, setPatternToDelete] = useState<Pattern | null>(null);
+
+  const loadPatterns = useCallback(async () => {
+    setLoading(true);
+    try {
+      setPatterns(await fetchPatterns());
+      setErrorMessage(null);
+    } catch (error) {
+      console.error('Error loading patterns:', error);
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to load patterns');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Patterns can be saved from the Sessions and Bugs tabs, so reload whenever this tab is shown
+  useEffect(() => {
+    if (isActive) {
+      loadPatterns();
+    }
+  }, [isActive, loadPatterns]);
+
+  const scopedPatterns = useMemo(
+    () => allProjects ? patterns : patterns.filter(pattern => pattern.projectId === project.id),
+    [patterns, allProjects, project.id]
+  );
+
+  const techOptions = useMemo(
+    () => Array.from(new Set(scopedPatterns.flatMap(pattern => pattern.techStack))).sort(),
+    [scopedPatterns]
+  );
+
+  const filteredPatterns = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+
+    return scopedPatterns
+      .filter(pattern => selectedTech.length === 0 || selectedTech.some(tech => pattern.techStack.includes(tech)))
+      .filter(pattern => !term || [pattern.title, pattern.description, pattern.solution, ...pattern.tags]
+        .some(text => text.toLowerCase().includes(term)))
+      .sort((a, b) => {
+        if (sort === 'recent') return b.createdAt.getTime() - a.createdAt.getTime();
+        if (sort === 'usage') return b.usageCount - a.usageCount || b.createdAt.getTime() - a.createdAt.getTime();
+        return b.successCount - a.successCount || b.usageCount - a.usageCount || b.createdAt.getTime() - a.createdAt.getTime();
+      });
+  }, [scopedPatterns, selectedTech, searchTerm, sort]);
+
+  const selectedPattern = filteredPatterns.find(pattern => pattern.id === selectedId) || filteredPatterns[0] || null;
+
+  const toggleTech = (tech: string) => {
+    setSelectedTech(prev => prev.includes(tech) ? prev.filter(t => t !== tech) : [...prev, tech]);
+  };
+
+  const handleRecordUsage = async (pattern: Pattern, success: boolean) => {
+    try {
+      const updated = await recordPatternUsage(pattern.id, success);
+      setPatterns(prev => prev.map(p => p.id === updated.id ? updated : p));
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to record usage');
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!patternToDelete) return;
+    try {
+      await deletePattern(patternToDelete.id);
+      setPatterns(prev => prev.filter(p => p.id !== patternToDelete.id));
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to delete pattern');
+    }
+    setPatternToDelete(null);
+  };
+
+  const openSource = (pattern: Pattern, source: Pattern['sources'][number]) => {
+    const payload: OpenItemPayload = { type: source.type, id: source.id, projectId: pattern.projectId };
+    NavigationService.getInstance().navigateTo(source.type, payload);
+  };
+
+  const chipClass = (active: boolean) => `px-2.5 py-1 text-xs rounded-full border transition-colors ${
+    active
+      ? 'bg-blue-600 border-blue-600 text-white'
+      : isDark ? 'border-gray-700 text-gray-300 hover:bg-gray-800' : 'border-gray-300 text-gray-600 hover:bg-gray-100'
+  }`;
+
+  const renderDetails = (pattern: Pattern) => {
+    const successRate = getPatternSuccessRate(pattern.usageCount, pattern.successCount);
+
+    return (
+      <div className="p-6 space-y-6">
+        <div className="flex items-start justify-between">
+          <div>
+            <h3 className={`text-xl font-bold ${isDark ? 'text-white' : 'text-gray-900'}`}>{pattern.title}</h3>
+            {pattern.description && (
+              <p className={`mt-2 text-sm whitespace-pre-wrap ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>{pattern.description}</p>
+            )}
+          </div>
+          <button
+            onClick={() => setPatternToDelete(pattern)}
+            className="p-2 text-red-500 rounded-lg hover:bg-red-500/10"
+            title="Delete pattern"
+          >
+            <Trash2 size={16} />
+          </button>
+        </div>
+
+        {/* Usage */}
+        <div className={`flex items-center justify-between p-4 rounded-xl border ${isDark ? 'border-gray-700 bg-gray-900' : 'border-gray-200 bg-gray-50'}`}>
+          <div className={`text-sm ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
+            Used <span className="font-semibold">{pattern.usageCount}</span> {pattern.usageCount === 1 ? 'time' : 'times'}
+            {successRate !== null && <> · <span className="font-semibold">{successRate}%</span> worked</>}
+            {pattern.lastUsedAt && <> · last used {pattern.lastUsedAt.toLocaleDateString()}</>}
+          </div>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => handleRecordUsage(pattern, true)}
+              className="flex items-center px-3 py-1.5 text-xs font-medium rounded-lg bg-green-600 text-white hover:bg-green-700"
+            >
+              <ThumbsUp size={12} className="mr-1" />
+              Reused, it worked
+            </button>
+            <button
+              onClick={() => handleRecordUsage(pattern, false)}
+              className={`flex items-center px-3 py-1.5 text-xs font-medium rounded-lg border ${isDark ? 'border-gray-700 text-gray-300 hover:bg-gray-800' : 'border-gray-300 text-gray-600 hover:bg-gray-100'}`}
+            >
+              <ThumbsDown size={12} className="mr-1" />
+              Didn't work
+            </button>
+          </div>
+        </div>
+
+        {(pattern.techStack.length > 0 || pattern.tags.length > 0) && (
+          <div className="flex flex-wrap gap-2">
+            {pattern.techStack.map(tech => (
+              <span key={`tech-${tech}`} className="px-2 py-1 text-xs rounded bg-blue-500/10 text-blue-500">{tech}</span>
+            ))}
+            {pattern.tags.map(tag => (
+              <span key={`tag-${tag}`} className={`px-2 py-1 text-xs rounded ${isDark ? 'bg-gray-800 text-gray-400' : 'bg-gray-100 text-gray-600'}`}>#{tag}</span>
+            ))}
+          </div>
+        )}
+
+        {pattern.solution && (
+          <div>
+            <h4 className={`text-sm font-semibold mb-2 ${isDark ? 'text-white' : 'text-gray-900'}`}>Solution</h4>
+            <p className={`text-sm whitespace-pre-wrap leading-relaxed ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>{pattern.solution}</p>
+          </div>
+        )}
+
+        {pattern.codeExamples.length > 0 && (
+          <div className="space-y-3">
+            <h4 className={`text-sm font-semibold ${isDark ? 'text-white' : 'text-gray-900'}`}>Code</h4>
+            {pattern.codeExamples.map((example, index) => (
+              <div key={index} className={`rounded-lg border overflow-hidden ${isDark ? 'border-gray-700' : 'border-gray-200'}`}>
+                <div className={`flex items-center justify-between px-3 py-2 text-xs ${isDark ? 'bg-gray-800 text-gray-300' : 'bg-gray-100 text-gray-700'}`}>
+                  <span className="flex items-center font-mono"><Code size={12} className="mr-2" />{example.filePath || example.language || 'snippet'}</span>
+                  {example.summary && <span className="truncate ml-4">{example.summary}</span>}
+                </div>
+                <pre className={`p-3 text-xs font-mono overflow-x-auto ${isDark ? 'bg-gray-900 text-gray-200' : 'bg-white text-gray-800'}`}>{example.code}</pre>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {pattern.sources.length > 0 && (
+          <div>
+            <h4 className={`text-sm font-semibold mb-2 ${isDark ? 'text-white' : 'text-gray-900'}`}>Extracted from</h4>
+            <div className="space-y-1">
+              {pattern.sources.map(source => {
+                const SourceIcon = source.type === 'bug' ? Bug : MessageCircle;
+                return (
+                  <button
+                    key={`${source.type}-${source.id}`}
+                    onClick={() => openSource(pattern, source)}
+                    className={`w-full flex items-center px-3 py-2 text-sm text-left rounded-lg ${isDark ? 'text-gray-300 hover:bg-gray-800' : 'text-gray-700 hover:bg-gray-100'}`}
+                  >
+                    <SourceIcon size={14} className="mr-2 flex-shrink-0" />
+                    <span className="truncate">{source.title}</span>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Header */}
+      <div className="p-6 border-b" style={{
+        backgroundColor: isDark ? '#1a1a1a' : '#ffffff',
+        borderColor: isDark ? '#2a2a2a' : '#e2e8f0'
+      }}>
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className={`text-2xl font-bold ${isDark ? 'text-white' : 'text-gray-900'} mb-2`}>Patterns</h2>
+            <p className={`text-sm ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
+              Proven solutions saved from sessions and fixed bugs
+            </p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <select
+              value={sort}
+              onChange={(e) => setSort(e.target.value as PatternSort)}
+              className={`px-3 py-2 text-sm rounded-lg border ${isDark ? 'bg-gray-900 border-gray-700 text-gray-200' : 'bg-white border-gray-300 text-gray-700'}`}
+            >
+              <option value="success">Most successful</option>
+              <option value="usage">Most used</option>
+              <option value="recent">Newest</option>
+            </select>
+            <button onClick={() => setAllProjects(!allProjects)} className={chipClass(allProjects)}>
+              All projects
+            </button>
+            <button
+              onClick={loadPatterns}
+              className={`p-2 rounded-lg ${isDark ? 'text-gray-400 hover:bg-gray-800' : 'text-gray-500 hover:bg-gray-100'}`}
+              title="Refresh"
+            >
+              <RefreshCw size={16} className={loading ? 'animate-spin' : ''} />
+            </button>
+          </div>
+        </div>
+
+        <div className="relative">
+          <Search size={16} className="absolute left-4 top-1/2 transform -translate-y-1/2 text-gray-500" />
+          <input
+            type="text"
+            placeholder="Search patterns..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="w-full pl-12 pr-4 py-3 border rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+            style={{
+              borderColor: isDark ? '#2a2a2a' : '#e2e8f0',
+              backgroundColor: isDark ? '#0f172a' : '#f8fafc',
+              color: isDark ? '#ffffff' : '#000000'
+            }}
+          />
+        </div>
+
+        {techOptions.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-4">
+            {techOptions.map(tech => (
+              <button key={tech} onClick={() => toggleTech(tech)} className={chipClass(selectedTech.includes(tech))}>
+                {tech}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {errorMessage && (
+          <p className="mt-4 text-sm text-red-500">{errorMessage}</p>
+        )}
+      </div>
+
+      {/* Content */}
+      <div className="flex flex-1 min-h-0" style={{ backgroundColor: isDark ? '#0a0a0a' : '#f8fafc' }}>
+        {filteredPatterns.length > 0 ? (
+          <>
+            <div className={`w-96 flex-shrink-0 overflow-y-auto border-r ${isDark ? 'border-gray-800' : 'border-gray-200'}`}>
+              {filteredPatterns.map(pattern => {
+                const successRate = getPatternSuccessRate(pattern.usageCount, pattern.successCount);
+                const isSelected = selectedPattern?.id === pattern.id;
+
+                return (
+                  <motion.button
+                    key={pattern.id}
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    onClick={() => setSelectedId(pattern.id)}
+                    className={`w-full text-left p-4 border-b transition-colors ${isDark ? 'border-gray-800' : 'border-gray-200'} ${
+                      isSelected ? (isDark ? 'bg-gray-800' : 'bg-blue-50') : (isDark ? 'hover:bg-gray-900' : 'hover:bg-white')
+                    }`}
+                  >
+                    <div className="flex items-center justify-between mb-1">
+                      <span className={`font-medium text-sm truncate ${isDark ? 'text-white' : 'text-gray-900'}`}>{pattern.title}</span>
+                      {pattern.sourceType !== 'manual' && (
+                        pattern.sourceType === 'bug'
+                          ? <Bug size={12} className="text-gray-500 flex-shrink-0 ml-2" />
+                          : <MessageCircle size={12} className="text-gray-500 flex-shrink-0 ml-2" />
+                      )}
+                    </div>
+                    <div className={`text-xs ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+                      {pattern.usageCount} uses{successRate !== null ? ` · ${successRate}% worked` : ''}
+                    </div>
+                    {pattern.techStack.length > 0 && (
+                      <div className="mt-2 flex flex-wrap gap-1">
+                        {pattern.techStack.slice(0, 4).map(tech => (
+                          <span key={tech} className="px-1.5 py-0.5 text-[10px] rounded bg-blue-500/10 text-blue-500">{tech}</span>
+                        ))}
+                      </div>
+                    )}
+                  </motion.button>
+                );
+              })}
+            </div>
+            <div className="flex-1 overflow-y-auto">
+              {selectedPattern && renderDetails(selectedPattern)}
+            </div>
+          </>
+        ) : (
+          <div className={`flex-1 flex flex-col items-center justify-center ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+            <div className="w-20 h-20 rounded-2xl mb-6 flex items-center justify-center" style={{ backgroundColor: isDark ? '#0f172a' : '#f1f5f9' }}>
+              <Puzzle className="w-10 h-10 opacity-30" />
+            </div>
+            <p className="text-xl font-semibold mb-2">
+              {loading ? 'Loading patterns...' : searchTerm || selectedTech.length > 0 ? 'No patterns found' : 'No patterns yet'}
+            </p>
+            {!loading && !searchTerm && selectedTech.length === 0 && (
+              <p className="text-sm text-center max-w-md">
+                Use "Save as Pattern" on a session with code changes or on a fixed bug with a solution
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+
+      <DeleteConfirmationModal
+        isOpen={!!patternToDelete}
+        onClose={() => setPatternToDelete(null)}
+        onConfirm={confirmDelete}
+        title="Delete Pattern"
+        message="Are you sure you want to delete this pattern? Its usage history will be lost."
+        itemName={patternToDelete?.title}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,229 @@
+import React, { useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { AlertTriangle, Check, Download, FileArchive, Upload, X } from 'lucide-react';
+import { useTheme } from '../contexts/ThemeContext';
+import { Project } from '../types';
+import {
+  ARCHIVE_COLLECTIONS,
+  ARCHIVE_COLLECTION_LABELS,
+  ProjectArchive,
+  countArchiveItems
+} from '../lib/projectArchive';
+import { exportProjectArchive, importProjectArchive, readProjectArchive } from '../services/projectArchiveService';
+
+export type ProjectArchiveMode = { type: 'export'; project: Project } | { type: 'import' };
+
+interface ProjectArchiveModalProps {
+  mode: ProjectArchiveMode;
+  onClose: () => void;
+  onImported?: (project: Project) => void;
+}
+
+type ArchiveCounts = ReturnType<typeof countArchiveItems>;
+
+/**
+ * Exports a project as a ZIP of Markdown files, or creates a project from such a ZIP
+ */
+export const ProjectArchiveModal: React.FC<ProjectArchiveModalProps> = ({ mode, onClose, onImported }) => {
+  const { isDark } = useTheme();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [archive, setArchive] = useState<ProjectArchive | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [counts, setCounts] = useState<ArchiveCounts | null>(null);
+  const [step, setStep] = useState<string | null>(null);
+  const [done, setDone] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isExport = mode.type === 'export';
+  const busy = step !== null;
+  const mutedText = isDark ? 'text-gray-400' : 'text-gray-500';
+
+  const handleExport = async () => {
+    if (mode.type !== 'export') return;
+    setError(null);
+    setStep('Exporting...');
+    try {
+      const result = await exportProjectArchive(mode.project, setStep);
+      const url = URL.createObjectURL(result.blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = result.fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+      setCounts(result.counts);
+      setDone(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export project');
+    } finally {
+      setStep(null);
+    }
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    setArchive(null);
+    setCounts(null);
+    setFileName(file.name);
+    setStep('Reading archive...');
+    try {
+      const read = await readProjectArchive(file);
+      setArchive(read);
+      setCounts(countArchiveItems(read));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read the archive');
+    } finally {
+      setStep(null);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!archive) return;
+    setError(null);
+    setStep('Importing...');
+    try {
+      const project = await importProjectArchive(archive, setStep);
+      setDone(true);
+      onImported?.(project);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import project');
+    } finally {
+      setStep(null);
+    }
+  };
+
+  const summary = counts && (
+    <div className="flex flex-wrap gap-2">
+      {ARCHIVE_COLLECTIONS.filter(collection => counts[collection] > 0).map(collection => (
+        <span
+          key={collection}
+          className={`text-xs px-2 py-0.5 rounded ${isDark ? 'bg-gray-800 text-gray-300' : 'bg-gray-100 text-gray-700'}`}
+        >
+          {ARCHIVE_COLLECTION_LABELS[collection]} ({counts[collection]})
+        </span>
+      ))}
+      {counts.images > 0 && (
+        <span className={`text-xs px-2 py-0.5 rounded ${isDark ? 'bg-gray-800 text-gray-300' : 'bg-gray-100 text-gray-700'}`}>
+          Bug images ({counts.images})
+        </span>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="rounded-2xl p-6 w-full max-w-lg mx-4 border"
+        style={{
+          backgroundColor: isDark ? '#1a1a1a' : '#ffffff',
+          borderColor: isDark ? '#2a2a2a' : '#e2e8f0'
+        }}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <div className="min-w-0">
+            <h3 className={`text-xl font-bold ${isDark ? 'text-white' : 'text-gray-900'}`}>
+              {isExport ? 'Export project' : 'Import project'}
+            </h3>
+            <p className={`text-sm truncate ${mutedText}`}>
+              {mode.type === 'export' ? `"${mode.project.name}" as a ZIP of Markdown files` : 'Create a project from a ZIP export'}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={busy}
+            className={`p-1 rounded disabled:opacity-50 ${isDark ? 'hover:bg-gray-800 text-gray-400' : 'hover:bg-gray-100 text-gray-500'}`}
+            title="Close"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          {isExport ? (
+            <p className={`text-sm ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
+              Documents, features with their files, bugs with their images, conversations, tasks and events are
+              saved as Markdown files with front-matter, plus a manifest.json. Keep the archive as a backup, commit
+              it to git, or import it into another account.
+            </p>
+          ) : (
+            <>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".zip,application/zip"
+                onChange={handleFileChange}
+                className="hidden"
+              />
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={busy || done}
+                className={`w-full flex items-center justify-center px-4 py-6 border-2 border-dashed rounded-xl text-sm transition-colors disabled:opacity-50 ${
+                  isDark ? 'border-gray-700 text-gray-300 hover:bg-gray-800' : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+                }`}
+              >
+                <FileArchive size={18} className="mr-2 flex-shrink-0" />
+                <span className="truncate">{fileName || 'Choose a project export (.zip)'}</span>
+              </button>
+              {archive && (
+                <p className={`text-sm ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
+                  Creates the project "{String(archive.project.name)}". Items get new ids, so the original project is not changed.
+                </p>
+              )}
+            </>
+          )}
+
+          {summary}
+
+          {step && (
+            <div className={`flex items-center text-sm ${mutedText}`}>
+              <div className="w-4 h-4 border-2 border-blue-500 border-t-transparent rounded-full animate-spin mr-2"></div>
+              {step}
+            </div>
+          )}
+
+          {done && (
+            <div className="flex items-center text-sm text-green-500">
+              <Check size={14} className="mr-1.5" />
+              {isExport ? 'Export downloaded' : 'Project imported'}
+            </div>
+          )}
+
+          {error && (
+            <div className="flex items-start text-sm text-red-500">
+              <AlertTriangle size={14} className="mr-1.5 mt-0.5 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-end space-x-3 mt-6">
+          <button
+            onClick={onClose}
+            disabled={busy}
+            className={`px-4 py-2 rounded-xl border transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed ${
+              isDark ? 'border-gray-700 text-gray-300 hover:bg-gray-800' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {done ? 'Close' : 'Cancel'}
+          </button>
+          {!done && (
+            <button
+              onClick={isExport ? handleExport : handleImport}
+              disabled={busy || (!isExport && !archive)}
+              className="px-6 py-2 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-xl hover:from-blue-700 hover:to-blue-800 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed font-medium flex items-center"
+            >
+              {isExport ? <Download size={16} className="mr-2" /> : <Upload size={16} className="mr-2" />}
+              {isExport ? 'Export' : 'Import'}
+            </button>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { motion } from 'framer-motion';
 import { 
   Home, 
@@ -9,22 +9,30 @@ import {
   Calendar, 
   FolderOpen, 
   MessageCircle,
+  Puzzle,
+  Share2,
   Moon,
   Sun
 } from 'lucide-react';
 import { Project, TabType } from '../types';
 import { useTheme } from '../contexts/ThemeContext';
+import { useAuth } from '../contexts/AuthContext';
 import { useSupabaseProjects } from '../hooks/useSupabaseProjects';
+import { useOpenItem } from '../hooks/useOpenItem';
 import { Dashboard } from './Dashboard';
 import { DocumentsTab } from './DocumentsTab';
 import { TasksTab } from './TasksTab';
 import { FeaturesTab } from './FeaturesTab';
 import { BugsTab } from './BugsTab';
 import { ConversationsTab } from './ConversationsTab';
+import { PatternsTab } from './PatternsTab';
+import { RelationshipGraphTab } from './RelationshipGraphTab';
 import { CalendarTab } from './CalendarTab';
 import { FilesTab } from './FilesTab';
 import { ChatTab } from './ChatTab';
 import { PromptInputBox } from './ui/ai-prompt-box';
+import { AiChatModal } from './AiChatModal';
+import { ProjectCollection } from '../lib/projectDataCache';
 
 interface ProjectWorkspaceProps {
   project: Project;
@@ -42,11 +50,28 @@ const tabs = [
   { id: 'features' as TabType, label: 'Features', icon: Lightbulb, shortcut: '4' },
   { id: 'bugs' as TabType, label: 'Bugs', icon: Bug, shortcut: '5' },
   { id: 'conversations' as TabType, label: 'Sessions', icon: MessageCircle, shortcut: '6' },
+  { id: 'patterns' as TabType, label: 'Patterns', icon: Puzzle },
+  { id: 'graph' as TabType, label: 'Graph', icon: Share2 },
   { id: 'calendar' as TabType, label: 'Calendar', icon: Calendar, shortcut: '7' },
   { id: 'files' as TabType, label: 'Files', icon: FolderOpen, shortcut: '8' },
   { id: 'chat' as TabType, label: 'Chat', icon: MessageCircle, shortcut: '9' },
 ];
 
+// Project data each tab reads from useSupabaseProjects, loaded when the tab is first opened.
+// The Dashboard reads server-side counts; Sessions and Patterns fetch their own data.
+const tabCollections: Partial<Record<TabType, ProjectCollection[]>> = {
+  docs: ['documents'],
+  tasks: ['tasks'],
+  features: ['features', 'featureData', 'tasks', 'bugs'],
+  bugs: ['bugs', 'features', 'tasks'],
+  calendar: ['events'],
+  files: ['files'],
+  chat: ['messages', 'bugs', 'features'],
+};
+
+// Text attachments are added to the question, truncated to keep the prompt small
+const MAX_AI_ATTACHMENT_LENGTH = 20000;
+
 export const ProjectWorkspace: React.FC<ProjectWorkspaceProps> = ({ 
   project,
   onAiChatStateChange,
@@ -69,28 +94,57 @@ export const ProjectWorkspace: React.FC<ProjectWorkspaceProps> = ({
 
 
   const { isDark, toggleTheme } = useTheme();
-  const { tasks, features, bugs, documents, files, messages, events, refreshData } = useSupabaseProjects();
+  const { user } = useAuth();
+  const { loadProjectData, loadMore, getPageState } = useSupabaseProjects();
+
+  // Teammates added to a project's chat can only open the Chat tab
+  const isSharedProject = !!project.userId && !!user && project.userId !== user.id;
+  const visibleTabs = isSharedProject ? tabs.filter(tab => tab.id === 'chat') : tabs;
+
+  useEffect(() => {
+    if (isSharedProject && activeTab !== 'chat') {
+      setActiveTab('chat');
+    }
+  }, [isSharedProject, activeTab]);
 
   // Note: Removed smart refresh system - will implement proper CRDT-based collaboration instead
 
   // Handle tab switching with auto-refresh for dashboard
   const handleTabClick = async (tabId: TabType) => {
-    // Auto-refresh data when switching to dashboard tab
+    // Remounting the dashboard refetches its counts from the server
     if (tabId === 'dashboard') {
-      await refreshData();
       setDashboardRefreshKey(prev => prev + 1); // Force dashboard re-render
     }
     setActiveTab(tabId);
     onTabChange?.(tabId);
   };
 
+  // Load the active tab's data the first time it is opened for this project
+  const activeCollections = useMemo(() => tabCollections[activeTab] || [], [activeTab]);
+  useEffect(() => {
+    loadProjectData(project.id, activeCollections);
+  }, [loadProjectData, project.id, activeCollections]);
+
+  const collectionsWithMore = activeCollections.filter(collection => getPageState(project.id, collection).hasMore);
+  const loadingMore = activeCollections.some(collection => getPageState(project.id, collection).loading);
+
   // Save activeTab to localStorage whenever it changes
   useEffect(() => {
     localStorage.setItem(`activeTab_${project.id}`, activeTab);
   }, [activeTab, project.id]);
+
+  // Switch to the tab that shows an item opened from the command palette
+  useOpenItem((item, destination) => {
+    if (item.projectId === project.id && visibleTabs.some(tab => tab.id === destination.route)) {
+      handleTabClick(destination.route as TabType);
+    }
+  });
+
   const [isMac, setIsMac] = useState(false);
   const [aiChatVisible, setAiChatVisible] = useState(true);
   const [internalForceShowAiChat, setInternalForceShowAiChat] = useState(false);
+  const [showAiChatModal, setShowAiChatModal] = useState(false);
+  const [pendingAiMessage, setPendingAiMessage] = useState<{ id: number; text: string } | null>(null);
   
   // Use external forceShowAiChat if provided, otherwise use internal state
   const forceShowAiChat = externalForceShowAiChat || internalForceShowAiChat;
@@ -137,7 +191,7 @@ export const ProjectWorkspace: React.FC<ProjectWorkspaceProps> = ({
         }
         
         // Handle tab shortcuts (1-9)
-        const tab = tabs.find(t => t.shortcut === pressedNumber);
+        const tab = visibleTabs.find(t => t.shortcut === pressedNumber);
         if (tab) {
           event.preventDefault();
           handleTabClick(tab.id);
@@ -157,7 +211,7 @@ export const ProjectWorkspace: React.FC<ProjectWorkspaceProps> = ({
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [isMac, forceShowAiChat, onForceShowAiChatChange]);
+  }, [isMac, forceShowAiChat, onForceShowAiChatChange, isSharedProject]);
 
   const renderTabContent = () => {
     return (
@@ -202,6 +256,18 @@ export const ProjectWorkspace: React.FC<ProjectWorkspaceProps> = ({
         >
           <ConversationsTab project={project} />
         </div>
+        <div 
+          className="h-full absolute inset-0" 
+          style={{ display: activeTab === 'patterns' ? 'block' : 'none' }}
+        >
+          <PatternsTab project={project} isActive={activeTab === 'patterns'} />
+        </div>
+        <div 
+          className="h-full absolute inset-0" 
+          style={{ display: activeTab === 'graph' ? 'block' : 'none' }}
+        >
+          <RelationshipGraphTab project={project} isActive={activeTab === 'graph'} />
+        </div>
         <div 
           className="h-full absolute inset-0" 
           style={{ display: activeTab === 'calendar' ? 'block' : 'none' }}
@@ -218,104 +284,26 @@ export const ProjectWorkspace: React.FC<ProjectWorkspaceProps> = ({
           className="h-full absolute inset-0" 
           style={{ display: activeTab === 'chat' ? 'block' : 'none' }}
         >
-          <ChatTab project={project} />
+          <ChatTab project={project} isActive={activeTab === 'chat'} />
         </div>
       </div>
     );
   };
 
+  // Questions from the prompt box open the chat modal, which sends them in the current thread
   const handleAiMessage = async (message: string, files?: File[]) => {
-    console.log('AI Message:', message);
-    console.log('Files:', files);
-    console.log('Project Context:', project);
-    
-    // Get project-specific data for AI context
-    const projectContext = getProjectContext();
-    
-    // TODO: Send to AI API with full project context
-    const aiRequest = {
-      message,
-      files,
-      project: {
-        id: project.id,
-        name: project.name,
-        description: project.description,
-        context: projectContext
-      },
-      timestamp: new Date().toISOString()
-    };
-    
-    console.log('AI Request with Context:', aiRequest);
-    // TODO: Implement actual AI API call here
-  };
+    const textFiles = (files || []).filter(file => file.type.startsWith('text/') || /\.(md|json|ts|tsx|js|jsx|sql|txt|log)$/i.test(file.name));
+    const attachments = await Promise.all(textFiles.map(async file =>
+      `\n\n--- ${file.name} ---\n${(await file.text()).slice(0, MAX_AI_ATTACHMENT_LENGTH)}`
+    ));
 
-  // Get comprehensive project context for AI
-  const getProjectContext = () => {
-    // Filter data for current project
-    const projectTasks = tasks.filter(t => t.projectId === project.id);
-    const projectFeatures = features.filter(f => f.projectId === project.id);
-    const projectBugs = bugs.filter(b => b.projectId === project.id);
-    const projectDocs = documents.filter(d => d.projectId === project.id);
-    const projectFiles = files?.filter(f => f.projectId === project.id) || [];
-    const projectMessages = messages.filter(m => m.projectId === project.id);
-    
-    return {
-      tasks: {
-        total: projectTasks.length,
-        completed: projectTasks.filter(t => t.status === 'done').length,
-        pending: projectTasks.filter(t => t.status !== 'done').length,
-        highPriority: projectTasks.filter(t => t.priority === 'high').length,
-        recentTasks: projectTasks.slice(0, 5).map(t => ({
-          id: t.id,
-          title: t.title,
-          status: t.status,
-          priority: t.priority
-        }))
-      },
-      features: {
-        total: projectFeatures.length,
-        types: [...new Set(projectFeatures.map(f => f.type))],
-        recentFeatures: projectFeatures.slice(0, 5).map(f => ({
-          id: f.id,
-          title: f.title,
-          type: f.type
-        }))
-      },
-      bugs: {
-        total: projectBugs.length,
-        open: projectBugs.filter(b => b.status === 'open').length,
-        recentBugs: projectBugs.slice(0, 5).map(b => ({
-          id: b.id,
-          title: b.title,
-          status: b.status,
-          severity: b.severity
-        }))
-      },
-      documents: {
-        total: projectDocs.length,
-        types: [...new Set(projectDocs.map(d => d.type))],
-        recentDocs: projectDocs.slice(0, 5).map(d => ({
-          id: d.id,
-          title: d.title,
-          type: d.type
-        }))
-      },
-      files: {
-        total: projectFiles.length,
-        totalSize: projectFiles.reduce((sum, f) => sum + (f.size || 0), 0),
-        types: [...new Set(projectFiles.map(f => f.type))],
-        recentFiles: projectFiles.slice(0, 5).map(f => ({
-          id: f.id,
-          name: f.name,
-          type: f.type
-        }))
-      },
-      activity: {
-        totalMessages: projectMessages.length,
-        lastActivity: projectMessages.length > 0 ? projectMessages[projectMessages.length - 1].timestamp : null
-      },
-      currentTab: activeTab
-    };
+    setPendingAiMessage({ id: Date.now(), text: `${message}${attachments.join('')}` });
+    setShowAiChatModal(true);
+    if (onForceShowAiChatChange) {
+      onForceShowAiChatChange(false);
+    } else {
+      setInternalForceShowAiChat(false);
+    }
   };
 
   return (
@@ -329,7 +317,7 @@ export const ProjectWorkspace: React.FC<ProjectWorkspaceProps> = ({
         }}>
           <div className="flex items-center justify-between">
             <nav className="flex" aria-label="Tabs">
-              {tabs.map((tab) => {
+              {visibleTabs.map((tab) => {
                 const Icon = tab.icon;
                 return (
                   <button
@@ -343,7 +331,7 @@ export const ProjectWorkspace: React.FC<ProjectWorkspaceProps> = ({
                         ? `${isDark ? 'bg-gray-300 text-gray-900' : 'bg-gray-700 text-gray-100'}`
                         : `${isDark ? 'text-gray-400 hover:text-gray-200 hover:bg-gray-800' : 'text-gray-500 hover:text-gray-700 hover:bg-gray-100'}`
                     }`}
-                     title={`${tab.label} (${isMac ? '⌘' : 'Ctr'}+${tab.shortcut})`}
+                     title={tab.shortcut ? `${tab.label} (${isMac ? '⌘' : 'Ctr'}+${tab.shortcut})` : tab.label}
                   >
                     <div className="flex items-center justify-center space-x-1.5">
                       <Icon size={16} className="flex-shrink-0 w-4 h-4" />
@@ -351,14 +339,16 @@ export const ProjectWorkspace: React.FC<ProjectWorkspaceProps> = ({
                     </div>
                     
                     {/* Keyboard Shortcut Display - Bottom right corner */}
-                    <div className={`absolute bottom-1 right-2 px-1 py-0 rounded-md font-mono border transition-all duration-200 bg-transparent ${
-                      activeTab === tab.id
-                        ? `${isDark ? 'text-gray-900 border-gray-400' : 'text-gray-100 border-gray-600'}`
-                        : `${isDark ? 'text-gray-400 border-gray-700' : 'text-gray-600 border-gray-200'}`
-                    }`}>
-                      <span className="text-[9px]">{isMac ? '⌘' : 'Ctr'}</span>
-                      <span className="ml-0.5 text-[9px]">{tab.shortcut}</span>
-                    </div>
+                    {tab.shortcut && (
+                      <div className={`absolute bottom-1 right-2 px-1 py-0 rounded-md font-mono border transition-all duration-200 bg-transparent ${
+                        activeTab === tab.id
+                          ? `${isDark ? 'text-gray-900 border-gray-400' : 'text-gray-100 border-gray-600'}`
+                          : `${isDark ? 'text-gray-400 border-gray-700' : 'text-gray-600 border-gray-200'}`
+                      }`}>
+                        <span className="text-[9px]">{isMac ? '⌘' : 'Ctr'}</span>
+                        <span className="ml-0.5 text-[9px]">{tab.shortcut}</span>
+                      </div>
+                    )}
                   </button>
                 );
               })}
@@ -381,6 +371,30 @@ export const ProjectWorkspace: React.FC<ProjectWorkspaceProps> = ({
           </div>
         </div>
 
+        {/* More pages of the active tab's data */}
+        {collectionsWithMore.length > 0 && (
+          <div
+            className={`flex items-center justify-center gap-3 py-1.5 text-xs border-b ${isDark ? 'text-gray-400' : 'text-gray-500'}`}
+            style={{
+              backgroundColor: isDark ? '#161616' : '#f8fafc',
+              borderColor: isDark ? '#2a2a2a' : '#e2e8f0'
+            }}
+          >
+            <span>Showing the most recent items</span>
+            <button
+              onClick={() => collectionsWithMore.forEach(collection => loadMore(project.id, collection))}
+              disabled={loadingMore}
+              className={`px-2 py-0.5 rounded border transition-colors disabled:opacity-50 ${
+                isDark
+                  ? 'border-gray-700 text-gray-300 hover:bg-gray-800'
+                  : 'border-gray-300 text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              {loadingMore ? 'Loading...' : 'Load more'}
+            </button>
+          </div>
+        )}
+
         {/* Tab Content */}
         <div className="flex-1 overflow-hidden">
           <div className="h-full">
@@ -424,7 +438,7 @@ export const ProjectWorkspace: React.FC<ProjectWorkspaceProps> = ({
             <div className="max-w-2xl mx-auto">
               <PromptInputBox
                 onSend={handleAiMessage}
-                placeholder="Ask AI anything about your project...(Feature coming soon)"
+                placeholder="Ask AI anything about your project..."
                 className="shadow-2xl"
                 autoFocus={forceShowAiChat}
               />
@@ -432,6 +446,14 @@ export const ProjectWorkspace: React.FC<ProjectWorkspaceProps> = ({
           </motion.div>
         </div>
       )}
+
+      <AiChatModal
+        isOpen={showAiChatModal}
+        project={project}
+        pendingMessage={pendingAiMessage}
+        onPendingMessageHandled={() => setPendingAiMessage(null)}
+        onClose={() => setShowAiChatModal(false)}
+      />
     </>
   );
 };
\ No newline at end of file
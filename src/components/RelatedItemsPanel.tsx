@@ -0,0 +1,260 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Bug, FileText, Lightbulb, Link2, MessageCircle, Plus, Search, X, LucideIcon } from 'lucide-react';
+import { useTheme } from '../contexts/ThemeContext';
+import { NavigationService, OpenItemPayload } from '../lib/navigation/NavigationService';
+import {
+  ItemLink,
+  LINK_ITEM_TYPE_LABELS,
+  LinkItemType,
+  buildLinkFromOption,
+  getItemRelations,
+  getLinkOptions,
+  itemKey
+} from '../lib/itemLinks';
+import {
+  LinkTarget,
+  createItemLink,
+  deleteItemLink,
+  fetchItemTitles,
+  fetchLinksForItem,
+  searchLinkTargets
+} from '../services/itemLinkService';
+
+const ITEM_ICONS: Record<LinkItemType, LucideIcon> = {
+  conversation: MessageCircle,
+  bug: Bug,
+  feature: Lightbulb,
+  document: FileText
+};
+
+interface RelatedItemsPanelProps {
+  projectId: string;
+  itemType: LinkItemType;
+  itemId: string;
+  // Open a linked item; defaults to workspace navigation
+  onOpenItem?: (type: LinkItemType, id: string) => void;
+}
+
+export const RelatedItemsPanel: React.FC<RelatedItemsPanelProps> = ({ projectId, itemType, itemId, onOpenItem }) => {
+  const { isDark } = useTheme();
+  const [links, setLinks] = useState<ItemLink[]>([]);
+  const [titles, setTitles] = useState<Map<string, string>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const [optionIndex, setOptionIndex] = useState(0);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [targets, setTargets] = useState<LinkTarget[]>([]);
+
+  const options = useMemo(() => getLinkOptions(itemType), [itemType]);
+  const selectedOption = options[optionIndex] || options[0];
+
+  const relations = useMemo(() => getItemRelations({ type: itemType, id: itemId }, links), [itemType, itemId, links]);
+
+  const groups = useMemo(() => {
+    const byLabel = new Map<string, typeof relations>();
+    relations.forEach(relation => byLabel.set(relation.label, [...(byLabel.get(relation.label) || []), relation]));
+    return [...byLabel.entries()];
+  }, [relations]);
+
+  const loadLinks = useCallback(async () => {
+    setLoading(true);
+    try {
+      const itemLinks = await fetchLinksForItem(itemType, itemId);
+      const ends = getItemRelations({ type: itemType, id: itemId }, itemLinks);
+      setLinks(itemLinks);
+      setTitles(await fetchItemTitles(ends));
+      setErrorMessage(null);
+    } catch (error) {
+      console.error('Error loading related items:', error);
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to load related items');
+    } finally {
+      setLoading(false);
+    }
+  }, [itemType, itemId]);
+
+  useEffect(() => {
+    setIsAdding(false);
+    loadLinks();
+  }, [loadLinks]);
+
+  // Search the picked relation's target type as the user types
+  useEffect(() => {
+    if (!isAdding || !selectedOption) return;
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      searchLinkTargets(projectId, selectedOption.targetType, searchTerm)
+        .then(results => {
+          if (!cancelled) setTargets(results.filter(target => !(target.type === itemType && target.id === itemId)));
+        })
+        .catch(error => {
+          if (!cancelled) setErrorMessage(error instanceof Error ? error.message : 'Failed to search items');
+        });
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [isAdding, selectedOption, projectId, searchTerm, itemType, itemId]);
+
+  const handleAddLink = async (target: LinkTarget) => {
+    if (!selectedOption) return;
+    try {
+      const link = await createItemLink(projectId, buildLinkFromOption({ type: itemType, id: itemId }, selectedOption, target.id));
+      setLinks(prev => [...prev, link]);
+      setTitles(prev => new Map(prev).set(itemKey(target.type, target.id), target.title));
+      setIsAdding(false);
+      setSearchTerm('');
+      setErrorMessage(null);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to link items');
+    }
+  };
+
+  const handleRemoveLink = async (linkId: string) => {
+    try {
+      await deleteItemLink(linkId);
+      setLinks(prev => prev.filter(link => link.id !== linkId));
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to remove link');
+    }
+  };
+
+  const openItem = (type: LinkItemType, id: string) => {
+    if (onOpenItem) {
+      onOpenItem(type, id);
+      return;
+    }
+    const payload: OpenItemPayload = { type, id, projectId };
+    NavigationService.getInstance().navigateTo(type, payload);
+  };
+
+  const headingClass = `text-sm font-semibold ${isDark ? 'text-gray-200' : 'text-gray-800'} flex items-center`;
+  const mutedClass = `text-xs ${isDark ? 'text-gray-500' : 'text-gray-500'}`;
+  const inputStyle = {
+    borderColor: isDark ? '#2a2a2a' : '#e2e8f0',
+    backgroundColor: isDark ? '#0f172a' : '#f8fafc',
+    color: isDark ? '#ffffff' : '#000000'
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className={headingClass}>
+          <Link2 size={14} className="mr-2" />
+          Related
+        </h4>
+        {!isAdding && (
+          <button
+            onClick={() => setIsAdding(true)}
+            className={`px-3 py-1.5 text-xs rounded-lg border flex items-center ${isDark ? 'border-gray-600 text-gray-300 hover:bg-gray-800' : 'border-gray-300 text-gray-600 hover:bg-gray-50'} transition-colors`}
+          >
+            <Plus size={12} className="mr-1" />
+            Add link
+          </button>
+        )}
+      </div>
+
+      {isAdding && selectedOption && (
+        <div className={`p-3 rounded-lg border space-y-3 ${isDark ? 'border-gray-700' : 'border-gray-200'}`}>
+          <div className="flex items-center gap-2">
+            <select
+              value={optionIndex}
+              onChange={(e) => setOptionIndex(Number(e.target.value))}
+              className="px-2 py-1.5 border rounded-lg text-xs"
+              style={inputStyle}
+            >
+              {options.map((option, index) => (
+                <option key={`${option.relation}-${option.inverse}-${option.targetType}`} value={index}>
+                  {option.label} {LINK_ITEM_TYPE_LABELS[option.targetType].toLowerCase()}
+                </option>
+              ))}
+            </select>
+            <div className="relative flex-1">
+              <Search size={12} className="absolute left-2.5 top-1/2 transform -translate-y-1/2 text-gray-500" />
+              <input
+                type="text"
+                autoFocus
+                placeholder={`Search ${LINK_ITEM_TYPE_LABELS[selectedOption.targetType].toLowerCase()}s...`}
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="w-full pl-7 pr-2 py-1.5 border rounded-lg text-xs"
+                style={inputStyle}
+              />
+            </div>
+            <button
+              onClick={() => setIsAdding(false)}
+              className={`p-1 rounded ${isDark ? 'hover:bg-gray-800 text-gray-400' : 'hover:bg-gray-100 text-gray-500'}`}
+              title="Cancel"
+            >
+              <X size={14} />
+            </button>
+          </div>
+          <div className="max-h-48 overflow-y-auto space-y-1">
+            {targets.length === 0 ? (
+              <p className={mutedClass}>No matching {LINK_ITEM_TYPE_LABELS[selectedOption.targetType].toLowerCase()}s in this project.</p>
+            ) : targets.map(target => {
+              const TargetIcon = ITEM_ICONS[target.type];
+              return (
+                <button
+                  key={target.id}
+                  onClick={() => handleAddLink(target)}
+                  className={`w-full flex items-center px-2 py-1.5 text-xs text-left rounded ${isDark ? 'text-gray-300 hover:bg-gray-800' : 'text-gray-700 hover:bg-gray-100'}`}
+                >
+                  <TargetIcon size={12} className="mr-2 flex-shrink-0" />
+                  <span className="truncate">{target.title}</span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <p className={mutedClass}>Loading related items...</p>
+      ) : groups.length === 0 ? (
+        <p className={mutedClass}>
+          Nothing linked yet. Link the sessions, bugs, features and documents this {LINK_ITEM_TYPE_LABELS[itemType].toLowerCase()} relates to.
+        </p>
+      ) : (
+        groups.map(([label, groupRelations]) => (
+          <div key={label}>
+            <div className={`${mutedClass} font-medium uppercase tracking-wide mb-1`}>{label}</div>
+            <div className="space-y-1">
+              {groupRelations.map(relation => {
+                const RelationIcon = ITEM_ICONS[relation.type];
+                const title = titles.get(itemKey(relation.type, relation.id));
+                return (
+                  <div
+                    key={`${relation.linkId}-${relation.inverse}`}
+                    className={`group flex items-center rounded-lg ${isDark ? 'hover:bg-gray-800' : 'hover:bg-gray-100'}`}
+                  >
+                    <button
+                      onClick={() => openItem(relation.type, relation.id)}
+                      disabled={!title}
+                      className={`flex-1 min-w-0 flex items-center px-3 py-2 text-sm text-left ${isDark ? 'text-gray-300' : 'text-gray-700'} disabled:opacity-50`}
+                    >
+                      <RelationIcon size={14} className="mr-2 flex-shrink-0" />
+                      <span className="truncate">{title || `Missing ${LINK_ITEM_TYPE_LABELS[relation.type].toLowerCase()}`}</span>
+                    </button>
+                    <button
+                      onClick={() => handleRemoveLink(relation.linkId)}
+                      className="p-2 text-gray-500 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                      title="Remove link"
+                    >
+                      <X size={12} />
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))
+      )}
+
+      {errorMessage && <p className="text-xs text-red-500">{errorMessage}</p>}
+    </div>
+  );
+};
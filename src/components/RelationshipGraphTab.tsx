@@ -0,0 +1,234 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Share2, RefreshCw } from 'lucide-react';
+import { Project } from '../types';
+import { useTheme } from '../contexts/ThemeContext';
+import { NavigationService, OpenItemPayload } from '../lib/navigation/NavigationService';
+import {
+  GraphItem,
+  GraphNode,
+  ItemLink,
+  LINK_ITEM_TYPES,
+  LINK_ITEM_TYPE_LABELS,
+  LinkItemType,
+  buildRelationshipGraph
+} from '../lib/itemLinks';
+import { fetchGraphItems, fetchItemLinks } from '../services/itemLinkService';
+
+interface RelationshipGraphTabProps {
+  project: Project;
+  isActive?: boolean;
+}
+
+const GRAPH_WIDTH = 960;
+const GRAPH_HEIGHT = 640;
+
+const NODE_COLORS: Record<LinkItemType, string> = {
+  conversation: '#3b82f6',
+  bug: '#ef4444',
+  feature: '#eab308',
+  document: '#22c55e'
+};
+
+const truncate = (text: string, length: number) => (text.length > length ? `${text.slice(0, length - 1)}…` : text);
+
+export const RelationshipGraphTab: React.FC<RelationshipGraphTabProps> = ({ project, isActive = true }) => {
+  const { isDark } = useTheme();
+  const [items, setItems] = useState<GraphItem[]>([]);
+  const [links, setLinks] = useState<ItemLink[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [visibleTypes, setVisibleTypes] = useState<LinkItemType[]>([...LINK_ITEM_TYPES]);
+  const [includeUnlinked, setIncludeUnlinked] = useState(false);
+  const [hoveredKey, setHoveredKey] = useState<string | null>(null);
+
+  const loadGraph = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [graphItems, itemLinks] = await Promise.all([fetchGraphItems(project.id), fetchItemLinks(project.id)]);
+      setItems(graphItems);
+      setLinks(itemLinks);
+      setErrorMessage(null);
+    } catch (error) {
+      console.error('Error loading relationship graph:', error);
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to load relationships');
+    } finally {
+      setLoading(false);
+    }
+  }, [project.id]);
+
+  // Links are added from the other tabs' Related panels, so reload whenever this tab is shown
+  useEffect(() => {
+    if (isActive) {
+      loadGraph();
+    }
+  }, [isActive, loadGraph]);
+
+  const graph = useMemo(
+    () => buildRelationshipGraph(
+      items.filter(item => visibleTypes.includes(item.type)),
+      links,
+      { width: GRAPH_WIDTH, height: GRAPH_HEIGHT, includeUnlinked }
+    ),
+    [items, links, visibleTypes, includeUnlinked]
+  );
+
+  const nodesByKey = useMemo(() => new Map(graph.nodes.map(node => [node.key, node])), [graph]);
+
+  const toggleType = (type: LinkItemType) => {
+    setVisibleTypes(prev => prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]);
+  };
+
+  const openNode = (node: GraphNode) => {
+    const payload: OpenItemPayload = { type: node.type, id: node.id, projectId: project.id };
+    NavigationService.getInstance().navigateTo(node.type, payload);
+  };
+
+  const isHighlighted = (key: string) =>
+    !hoveredKey || key === hoveredKey || graph.edges.some(edge =>
+      (edge.source === hoveredKey && edge.target === key) || (edge.target === hoveredKey && edge.source === key)
+    );
+
+  const chipClass = (active: boolean) => `flex items-center px-2.5 py-1 text-xs rounded-full border transition-colors ${
+    active
+      ? (isDark ? 'border-gray-500 text-gray-200' : 'border-gray-400 text-gray-800')
+      : (isDark ? 'border-gray-800 text-gray-600' : 'border-gray-200 text-gray-400')
+  }`;
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Header */}
+      <div className="p-6 border-b" style={{
+        backgroundColor: isDark ? '#1a1a1a' : '#ffffff',
+        borderColor: isDark ? '#2a2a2a' : '#e2e8f0'
+      }}>
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className={`text-2xl font-bold ${isDark ? 'text-white' : 'text-gray-900'} mb-2`}>Graph</h2>
+            <p className={`text-sm ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
+              How sessions, bugs, features and documents in this project relate
+            </p>
+          </div>
+          <button
+            onClick={loadGraph}
+            className={`p-2 rounded-lg ${isDark ? 'text-gray-400 hover:bg-gray-800' : 'text-gray-500 hover:bg-gray-100'}`}
+            title="Refresh"
+          >
+            <RefreshCw size={16} className={loading ? 'animate-spin' : ''} />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {LINK_ITEM_TYPES.map(type => (
+            <button key={type} onClick={() => toggleType(type)} className={chipClass(visibleTypes.includes(type))}>
+              <span
+                className="w-2.5 h-2.5 rounded-full mr-1.5"
+                style={{ backgroundColor: NODE_COLORS[type], opacity: visibleTypes.includes(type) ? 1 : 0.3 }}
+              />
+              {LINK_ITEM_TYPE_LABELS[type]}s
+            </button>
+          ))}
+          <label className={`flex items-center ml-2 text-xs ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
+            <input
+              type="checkbox"
+              checked={includeUnlinked}
+              onChange={(e) => setIncludeUnlinked(e.target.checked)}
+              className="mr-1.5"
+            />
+            Show unlinked items
+          </label>
+        </div>
+
+        {errorMessage && (
+          <p className="mt-4 text-sm text-red-500">{errorMessage}</p>
+        )}
+      </div>
+
+      {/* Graph */}
+      <div className="flex-1 min-h-0 p-4" style={{ backgroundColor: isDark ? '#0a0a0a' : '#f8fafc' }}>
+        {graph.nodes.length > 0 ? (
+          <svg
+            viewBox={`0 0 ${GRAPH_WIDTH} ${GRAPH_HEIGHT}`}
+            className="w-full h-full border rounded-lg"
+            style={{
+              backgroundColor: isDark ? '#111111' : '#ffffff',
+              borderColor: isDark ? '#2a2a2a' : '#e2e8f0'
+            }}
+          >
+            {graph.edges.map(edge => {
+              const source = nodesByKey.get(edge.source);
+              const target = nodesByKey.get(edge.target);
+              if (!source || !target) return null;
+              const active = !hoveredKey || edge.source === hoveredKey || edge.target === hoveredKey;
+
+              return (
+                <g key={edge.key} opacity={active ? 1 : 0.15}>
+                  <line
+                    x1={source.x}
+                    y1={source.y}
+                    x2={target.x}
+                    y2={target.y}
+                    stroke={isDark ? '#4b5563' : '#cbd5e1'}
+                    strokeWidth={1.5}
+                    strokeDasharray={edge.relation === 'related' || edge.relation === 'feature' ? '4 3' : undefined}
+                  />
+                  {hoveredKey && active && (
+                    <text
+                      x={(source.x + target.x) / 2}
+                      y={(source.y + target.y) / 2 - 4}
+                      textAnchor="middle"
+                      fontSize={10}
+                      fill={isDark ? '#9ca3af' : '#64748b'}
+                    >
+                      {edge.label}
+                    </text>
+                  )}
+                </g>
+              );
+            })}
+            {graph.nodes.map(node => (
+              <g
+                key={node.key}
+                transform={`translate(${node.x}, ${node.y})`}
+                opacity={isHighlighted(node.key) ? 1 : 0.2}
+                className="cursor-pointer"
+                onClick={() => openNode(node)}
+                onMouseEnter={() => setHoveredKey(node.key)}
+                onMouseLeave={() => setHoveredKey(null)}
+              >
+                <title>{`${LINK_ITEM_TYPE_LABELS[node.type]}: ${node.title}`}</title>
+                <circle
+                  r={6 + Math.min(node.degree, 6)}
+                  fill={NODE_COLORS[node.type]}
+                  stroke={isDark ? '#111111' : '#ffffff'}
+                  strokeWidth={2}
+                />
+                <text
+                  x={10 + Math.min(node.degree, 6)}
+                  y={4}
+                  fontSize={11}
+                  fill={isDark ? '#d1d5db' : '#374151'}
+                >
+                  {truncate(node.title, 28)}
+                </text>
+              </g>
+            ))}
+          </svg>
+        ) : (
+          <div className={`h-full flex flex-col items-center justify-center ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+            <div className="w-20 h-20 rounded-2xl mb-6 flex items-center justify-center" style={{ backgroundColor: isDark ? '#0f172a' : '#f1f5f9' }}>
+              <Share2 className="w-10 h-10 opacity-30" />
+            </div>
+            <h3 className={`text-lg font-semibold mb-2 ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
+              {loading ? 'Loading relationships...' : 'No relationships yet'}
+            </h3>
+            {!loading && (
+              <p className="text-sm max-w-md text-center">
+                Use the Related panel on a session, bug, feature or document to link it to the items it fixed, implemented or describes.
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,368 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Bookmark, Check, Columns, History, List, RotateCcw, X } from 'lucide-react';
+import { useTheme } from '../contexts/ThemeContext';
+import { useRealtimeTable } from '../hooks/useRealtimeStatus';
+import {
+  DiffLine,
+  REVISION_NAME_MAX_LENGTH,
+  Revision,
+  RevisionItemType,
+  buildSideBySideRows,
+  diffLines,
+  summarizeDiff
+} from '../lib/revisions';
+import { createSnapshot, fetchRevisions, nameRevision } from '../services/revisionService';
+
+interface RevisionHistoryPanelProps {
+  projectId: string | null;
+  itemType: RevisionItemType;
+  itemId: string;
+  title: string;
+  // The saved content, compared against each revision
+  currentContent: string;
+  // Save a revision's content back to the item
+  onRestore: (content: string) => Promise<void>;
+}
+
+type DiffMode = 'inline' | 'split';
+type CompareTarget = 'current' | 'previous';
+
+const formatRevisionDate = (date: Date) =>
+  date.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export const RevisionHistoryPanel: React.FC<RevisionHistoryPanelProps> = ({
+  projectId,
+  itemType,
+  itemId,
+  title,
+  currentContent,
+  onRestore
+}) => {
+  const { isDark } = useTheme();
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [snapshotsOnly, setSnapshotsOnly] = useState(false);
+  const [snapshotName, setSnapshotName] = useState('');
+  const [isNamingSnapshot, setIsNamingSnapshot] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [diffMode, setDiffMode] = useState<DiffMode>('inline');
+  const [compareTarget, setCompareTarget] = useState<CompareTarget>('current');
+  const [restoring, setRestoring] = useState(false);
+
+  const loadRevisions = useCallback(async () => {
+    try {
+      setRevisions(await fetchRevisions(itemType, itemId));
+      setErrorMessage(null);
+    } catch (error) {
+      console.error('Error loading revision history:', error);
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to load history');
+    } finally {
+      setLoading(false);
+    }
+  }, [itemType, itemId]);
+
+  useEffect(() => {
+    setLoading(true);
+    setSelectedId(null);
+    loadRevisions();
+  }, [loadRevisions]);
+
+  // Saves record revisions in the database, so new ones arrive over realtime
+  useRealtimeTable('item_revisions', payload => {
+    const row = (payload.eventType === 'DELETE' ? payload.old : payload.new) as { item_id?: string };
+    if (!row.item_id || row.item_id === itemId) loadRevisions();
+  });
+
+  // Lines changed by each revision compared to the one before it
+  const changeSummaries = useMemo(() => new Map(revisions.map((revision, index) => [
+    revision.id,
+    summarizeDiff(diffLines(revisions[index + 1]?.content ?? '', revision.content))
+  ])), [revisions]);
+
+  const visibleRevisions = snapshotsOnly ? revisions.filter(revision => revision.name) : revisions;
+  const selectedIndex = revisions.findIndex(revision => revision.id === selectedId);
+  const selected = selectedIndex >= 0 ? revisions[selectedIndex] : null;
+  const previous = selectedIndex >= 0 ? revisions[selectedIndex + 1] : undefined;
+
+  const diff = useMemo(() => {
+    if (!selected) return [];
+    return compareTarget === 'current'
+      ? diffLines(selected.content, currentContent)
+      : diffLines(previous?.content ?? '', selected.content);
+  }, [selected, previous, compareTarget, currentContent]);
+
+  const handleCreateSnapshot = async () => {
+    try {
+      await createSnapshot({ projectId, itemType, itemId, title, content: currentContent }, snapshotName);
+      setSnapshotName('');
+      setIsNamingSnapshot(false);
+      await loadRevisions();
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to save snapshot');
+    }
+  };
+
+  const handleRename = async (revision: Revision) => {
+    try {
+      const updated = await nameRevision(revision.id, renameValue.trim() ? renameValue : null);
+      setRevisions(prev => prev.map(r => (r.id === updated.id ? updated : r)));
+      setRenamingId(null);
+      setErrorMessage(null);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to name snapshot');
+    }
+  };
+
+  const handleRestore = async (revision: Revision) => {
+    setRestoring(true);
+    try {
+      await onRestore(revision.content);
+      setSelectedId(null);
+      setErrorMessage(null);
+    } catch (error) {
+      console.error('Error restoring revision:', error);
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to restore revision');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const headingClass = `text-sm font-semibold ${isDark ? 'text-gray-200' : 'text-gray-800'} flex items-center`;
+  const mutedClass = 'text-xs text-gray-500';
+  const buttonClass = `px-3 py-1.5 text-xs rounded-lg border flex items-center ${isDark ? 'border-gray-600 text-gray-300 hover:bg-gray-800' : 'border-gray-300 text-gray-600 hover:bg-gray-50'} transition-colors disabled:opacity-50`;
+  const toggleClass = (active: boolean) => `px-2 py-1 text-xs rounded flex items-center transition-colors ${
+    active
+      ? isDark ? 'bg-gray-700 text-white' : 'bg-gray-200 text-gray-900'
+      : isDark ? 'text-gray-400 hover:text-white' : 'text-gray-500 hover:text-gray-900'
+  }`;
+  const inputStyle = {
+    borderColor: isDark ? '#2a2a2a' : '#e2e8f0',
+    backgroundColor: isDark ? '#0f172a' : '#f8fafc',
+    color: isDark ? '#ffffff' : '#000000'
+  };
+
+  const lineClass = (line: DiffLine | null) => {
+    if (!line) return isDark ? 'bg-gray-900/40' : 'bg-gray-50';
+    if (line.type === 'added') return isDark ? 'bg-green-900/30 text-green-200' : 'bg-green-50 text-green-900';
+    if (line.type === 'removed') return isDark ? 'bg-red-900/30 text-red-200' : 'bg-red-50 text-red-900';
+    return isDark ? 'text-gray-300' : 'text-gray-700';
+  };
+  const linePrefix = (line: DiffLine) => (line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' ');
+  const numberClass = `w-10 pr-2 text-right select-none flex-shrink-0 ${isDark ? 'text-gray-600' : 'text-gray-400'}`;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className={headingClass}>
+          <History size={14} className="mr-2" />
+          History
+        </h4>
+        {!isNamingSnapshot && (
+          <button onClick={() => setIsNamingSnapshot(true)} className={buttonClass}>
+            <Bookmark size={12} className="mr-1" />
+            Snapshot
+          </button>
+        )}
+      </div>
+
+      {isNamingSnapshot && (
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            autoFocus
+            placeholder="Snapshot name"
+            value={snapshotName}
+            maxLength={REVISION_NAME_MAX_LENGTH}
+            onChange={(e) => setSnapshotName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleCreateSnapshot();
+              if (e.key === 'Escape') setIsNamingSnapshot(false);
+            }}
+            className="flex-1 min-w-0 px-2 py-1.5 border rounded-lg text-xs"
+            style={inputStyle}
+          />
+          <button onClick={handleCreateSnapshot} disabled={!snapshotName.trim()} className={buttonClass} title="Save snapshot">
+            <Check size={12} />
+          </button>
+          <button onClick={() => setIsNamingSnapshot(false)} className={buttonClass} title="Cancel">
+            <X size={12} />
+          </button>
+        </div>
+      )}
+
+      <label className={`${mutedClass} flex items-center`}>
+        <input
+          type="checkbox"
+          checked={snapshotsOnly}
+          onChange={(e) => setSnapshotsOnly(e.target.checked)}
+          className="mr-2"
+        />
+        Named snapshots only
+      </label>
+
+      {loading ? (
+        <p className={mutedClass}>Loading history...</p>
+      ) : visibleRevisions.length === 0 ? (
+        <p className={mutedClass}>
+          {snapshotsOnly
+            ? 'No named snapshots yet.'
+            : 'No revisions yet. Every save records one, so earlier versions can be compared and restored.'}
+        </p>
+      ) : (
+        <div className="space-y-1">
+          {visibleRevisions.map(revision => {
+            const summary = changeSummaries.get(revision.id);
+            const isLatest = revision.id === revisions[0]?.id;
+            return (
+              <div
+                key={revision.id}
+                className={`group rounded-lg px-3 py-2 ${isDark ? 'hover:bg-gray-800' : 'hover:bg-gray-100'}`}
+              >
+                {renamingId === revision.id ? (
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      autoFocus
+                      placeholder="Snapshot name (empty to clear)"
+                      value={renameValue}
+                      maxLength={REVISION_NAME_MAX_LENGTH}
+                      onChange={(e) => setRenameValue(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleRename(revision);
+                        if (e.key === 'Escape') setRenamingId(null);
+                      }}
+                      className="flex-1 min-w-0 px-2 py-1 border rounded text-xs"
+                      style={inputStyle}
+                    />
+                    <button onClick={() => handleRename(revision)} className="p-1 text-gray-500 hover:text-green-500" title="Save name">
+                      <Check size={12} />
+                    </button>
+                  </div>
+                ) : (
+                  <button onClick={() => setSelectedId(revision.id)} className="w-full text-left">
+                    <div className={`text-sm flex items-center ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
+                      {revision.name && <Bookmark size={12} className="mr-1.5 flex-shrink-0 text-blue-500" />}
+                      <span className="truncate">{revision.name || formatRevisionDate(revision.createdAt)}</span>
+                      {isLatest && <span className={`ml-2 ${mutedClass}`}>latest</span>}
+                    </div>
+                    <div className={`${mutedClass} flex items-center gap-2`}>
+                      {revision.name && <span>{formatRevisionDate(revision.createdAt)}</span>}
+                      {summary && (
+                        <>
+                          <span className="text-green-500">+{summary.added}</span>
+                          <span className="text-red-500">-{summary.removed}</span>
+                        </>
+                      )}
+                    </div>
+                  </button>
+                )}
+                {renamingId !== revision.id && (
+                  <button
+                    onClick={() => {
+                      setRenamingId(revision.id);
+                      setRenameValue(revision.name || '');
+                    }}
+                    className={`${mutedClass} hover:underline opacity-0 group-hover:opacity-100 transition-opacity`}
+                  >
+                    {revision.name ? 'Rename' : 'Name this version'}
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {errorMessage && <p className="text-xs text-red-500">{errorMessage}</p>}
+
+      {selected && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center">
+          <div className="absolute inset-0 bg-black bg-opacity-50" onClick={() => setSelectedId(null)} />
+          <div
+            className={`relative w-full max-w-5xl mx-4 max-h-[85vh] flex flex-col rounded-lg shadow-2xl ${isDark ? 'bg-gray-900 text-white' : 'bg-white text-gray-900'}`}
+          >
+            <div className={`flex items-center justify-between px-5 py-3 border-b ${isDark ? 'border-gray-700' : 'border-gray-200'}`}>
+              <div className="min-w-0">
+                <h3 className="text-sm font-semibold truncate">{selected.name || title}</h3>
+                <p className={mutedClass}>
+                  {compareTarget === 'current'
+                    ? `${formatRevisionDate(selected.createdAt)} compared to the current version`
+                    : previous
+                      ? `Changes since ${formatRevisionDate(previous.createdAt)}`
+                      : 'First revision'}
+                </p>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <div className={`flex rounded-lg p-0.5 ${isDark ? 'bg-gray-800' : 'bg-gray-100'}`}>
+                  <button onClick={() => setCompareTarget('current')} className={toggleClass(compareTarget === 'current')}>
+                    vs current
+                  </button>
+                  <button onClick={() => setCompareTarget('previous')} className={toggleClass(compareTarget === 'previous')}>
+                    vs previous
+                  </button>
+                </div>
+                <div className={`flex rounded-lg p-0.5 ${isDark ? 'bg-gray-800' : 'bg-gray-100'}`}>
+                  <button onClick={() => setDiffMode('inline')} className={toggleClass(diffMode === 'inline')} title="Inline">
+                    <List size={12} />
+                  </button>
+                  <button onClick={() => setDiffMode('split')} className={toggleClass(diffMode === 'split')} title="Side by side">
+                    <Columns size={12} />
+                  </button>
+                </div>
+                <button
+                  onClick={() => handleRestore(selected)}
+                  disabled={restoring || selected.content === currentContent}
+                  className={buttonClass}
+                  title="Save this version as the current content"
+                >
+                  <RotateCcw size={12} className="mr-1" />
+                  {restoring ? 'Restoring...' : 'Restore'}
+                </button>
+                <button
+                  onClick={() => setSelectedId(null)}
+                  className={`p-1 rounded ${isDark ? 'hover:bg-gray-800 text-gray-400' : 'hover:bg-gray-100 text-gray-500'}`}
+                  title="Close"
+                >
+                  <X size={16} />
+                </button>
+              </div>
+            </div>
+
+            <div className="flex-1 overflow-auto font-mono text-xs">
+              {diff.every(line => line.type === 'unchanged') && (
+                <p className={`px-5 py-3 font-sans ${mutedClass}`}>No differences.</p>
+              )}
+              {diffMode === 'inline' ? (
+                diff.map((line, index) => (
+                  <div key={index} className={`flex whitespace-pre-wrap break-all ${lineClass(line)}`}>
+                    <span className={numberClass}>{line.oldNumber ?? ''}</span>
+                    <span className={numberClass}>{line.newNumber ?? ''}</span>
+                    <span className="w-4 flex-shrink-0 select-none">{linePrefix(line)}</span>
+                    <span className="flex-1">{line.text}</span>
+                  </div>
+                ))
+              ) : (
+                buildSideBySideRows(diff).map((row, index) => (
+                  <div key={index} className="flex">
+                    {[row.left, row.right].map((line, side) => (
+                      <div
+                        key={side}
+                        className={`w-1/2 flex whitespace-pre-wrap break-all ${side === 0 ? `border-r ${isDark ? 'border-gray-700' : 'border-gray-200'}` : ''} ${lineClass(line)}`}
+                      >
+                        <span className={numberClass}>{line ? (side === 0 ? line.oldNumber : line.newNumber) : ''}</span>
+                        <span className="flex-1">{line?.text}</span>
+                      </div>
+                    ))}
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
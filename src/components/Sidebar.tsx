@@ -1,9 +1,10 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Plus, Settings, ChevronLeft, ChevronRight, LogOut, MoreVertical, Trash2, Edit, Check, X, Copy } from 'lucide-react';
+import { Plus, Settings, ChevronLeft, ChevronRight, ChevronDown, LogOut, MoreVertical, Trash2, Edit, Check, X, Copy, Archive, ArchiveRestore, Download } from 'lucide-react';
 import { Project } from '../types';
 import { useAuth } from '../contexts/AuthContext';
 import { SettingsModal } from './SettingsModal';
+import { useChatUnreadCounts } from '../hooks/useChatUnreadCounts';
 
 interface SidebarProps {
   projects: Project[];
@@ -12,6 +13,9 @@ interface SidebarProps {
   onCreateProject: () => void;
   onDeleteProject: (projectId: string) => void;
   onUpdateProject?: (projectId: string, updates: Partial<Project>) => void;
+  onArchiveProject?: (projectId: string) => void;
+  onRestoreProject?: (projectId: string) => void;
+  onExportProject?: (project: Project) => void;
   collapsed: boolean;
   onToggleCollapse: () => void;
   onViewDocs?: () => void;
@@ -24,6 +28,9 @@ export const Sidebar: React.FC<SidebarProps> = ({
   onCreateProject,
   onDeleteProject,
   onUpdateProject,
+  onArchiveProject,
+  onRestoreProject,
+  onExportProject,
   collapsed,
   onToggleCollapse,
   onViewDocs,
@@ -38,6 +45,48 @@ export const Sidebar: React.FC<SidebarProps> = ({
   const dropdownRefs = useRef<{ [key: string]: HTMLDivElement | null }>({});
   const buttonRefs = useRef<{ [key: string]: HTMLButtonElement | null }>({});
   const renameInputRef = useRef<HTMLInputElement>(null);
+  const [showArchived, setShowArchived] = useState(false);
+
+  // Archived projects are listed separately so they can be restored
+  const activeProjects = projects.filter(project => !project.archivedAt);
+  const archivedProjects = projects.filter(project => project.archivedAt);
+
+  const chatUnreadCounts = useChatUnreadCounts(projects);
+
+  // Projects shared with the user for chat only; they cannot be renamed, archived or deleted
+  const isSharedProject = (project: Project) => !!project.userId && project.userId !== user?.id;
+
+  const getUnreadCount = (project: Project) => {
+    const count = chatUnreadCounts.get(project.id);
+    return count && (count.unread > 0 || count.mentions > 0) ? count : null;
+  };
+
+  const renderUnreadDot = (project: Project) => {
+    const count = getUnreadCount(project);
+    if (!count) return null;
+
+    return (
+      <span className={`absolute -top-1 -right-1 w-2.5 h-2.5 rounded-full ${count.mentions > 0 ? 'bg-red-500' : 'bg-blue-500'}`} />
+    );
+  };
+
+  const renderUnreadBadge = (project: Project) => {
+    const count = getUnreadCount(project);
+    if (!count) return null;
+
+    return (
+      <span
+        className={`flex-shrink-0 ml-2 min-w-[20px] h-5 px-1.5 rounded-full text-[11px] font-semibold flex items-center justify-center text-white ${
+          count.mentions > 0 ? 'bg-red-500' : 'bg-blue-600'
+        }`}
+        title={count.mentions > 0
+          ? `${count.mentions} unread mention${count.mentions === 1 ? '' : 's'}`
+          : `${count.unread} unread message${count.unread === 1 ? '' : 's'}`}
+      >
+        {count.mentions > 0 ? `@${count.mentions}` : count.unread > 99 ? '99+' : count.unread}
+      </span>
+    );
+  };
 
   const handleSignOut = async () => {
     await signOut();
@@ -97,6 +146,18 @@ export const Sidebar: React.FC<SidebarProps> = ({
     }
   };
 
+  const handleArchiveClick = (project: Project, event: React.MouseEvent) => {
+    event.stopPropagation();
+    setOpenMenuId(null);
+    onArchiveProject?.(project.id);
+  };
+
+  const handleExportClick = (project: Project, event: React.MouseEvent) => {
+    event.stopPropagation();
+    setOpenMenuId(null);
+    onExportProject?.(project);
+  };
+
   const handleCancelDelete = () => {
     setDeleteConfirmProject(null);
   };
@@ -223,7 +284,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
           }}
         >
           <div className="space-y-2">
-            {projects.map((project) => (
+            {activeProjects.map((project) => (
               <motion.div
                 key={project.id}
                 whileHover={{ scale: 1.02 }}
@@ -294,10 +355,11 @@ export const Sidebar: React.FC<SidebarProps> = ({
                       {collapsed ? (
                         <div className="w-full flex justify-center">
                           <div
-                            className="rounded-lg flex items-center justify-center text-white font-semibold flex-shrink-0"
+                            className="relative rounded-lg flex items-center justify-center text-white font-semibold flex-shrink-0"
                             style={{ width: '32px', height: '32px', backgroundColor: project.color }}
                           >
                             {project.icon}
+                            {renderUnreadDot(project)}
                           </div>
                         </div>
                       ) : (
@@ -314,15 +376,16 @@ export const Sidebar: React.FC<SidebarProps> = ({
                               {project.name}
                             </div>
                             <div className="text-xs text-gray-400 truncate">
-                              {project.description}
+                              {isSharedProject(project) ? 'Shared chat' : project.description}
                             </div>
                           </div>
+                          {renderUnreadBadge(project)}
                         </div>
                       )}
                     </button>
 
                     {/* 3-dots menu button - separate button, not nested */}
-                    {!collapsed && (
+                    {!collapsed && !isSharedProject(project) && (
                       <button
                         ref={(el) => (buttonRefs.current[project.id] = el)}
                         onClick={(e) => handleMenuToggle(project.id, e)}
@@ -339,6 +402,51 @@ export const Sidebar: React.FC<SidebarProps> = ({
             ))}
           </div>
 
+          {/* Archived Projects */}
+          {!collapsed && onRestoreProject && archivedProjects.length > 0 && (
+            <div className="mt-4">
+              <button
+                onClick={() => setShowArchived(!showArchived)}
+                className="w-full flex items-center px-2 py-1 text-xs font-medium text-gray-400 hover:text-gray-200 transition-colors"
+              >
+                {showArchived ? <ChevronDown size={14} className="mr-1" /> : <ChevronRight size={14} className="mr-1" />}
+                Archived ({archivedProjects.length})
+              </button>
+              {showArchived && (
+                <div className="space-y-1 mt-1">
+                  {archivedProjects.map((project) => (
+                    <div
+                      key={project.id}
+                      className={`flex items-center rounded-lg px-2 py-1.5 ${
+                        activeProject?.id === project.id ? 'bg-gray-600' : 'hover:bg-gray-700'
+                      }`}
+                    >
+                      <button
+                        onClick={() => onProjectSelect(project)}
+                        className="flex items-center min-w-0 flex-1 text-left opacity-60"
+                      >
+                        <div
+                          className="rounded flex items-center justify-center text-white text-xs flex-shrink-0"
+                          style={{ width: '20px', height: '20px', backgroundColor: project.color }}
+                        >
+                          {project.icon}
+                        </div>
+                        <span className="ml-2 text-sm truncate text-gray-200">{project.name}</span>
+                      </button>
+                      <button
+                        onClick={() => onRestoreProject(project.id)}
+                        className="flex-shrink-0 ml-2 p-1 hover:bg-gray-600 rounded text-gray-400 hover:text-white transition-colors"
+                        title="Restore project"
+                      >
+                        <ArchiveRestore size={14} />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Add Project Button */}
           <motion.button
             onClick={onCreateProject}
@@ -492,6 +600,30 @@ export const Sidebar: React.FC<SidebarProps> = ({
                 <Copy size={16} className="mr-2" />
                 Copy project ID
               </button>
+              {onExportProject && (
+                <button
+                  onClick={(e) => {
+                    const project = projects.find(p => p.id === openMenuId);
+                    if (project) handleExportClick(project, e);
+                  }}
+                  className="w-full flex items-center px-3 py-2 text-gray-200 hover:bg-gray-700 hover:text-white transition-colors rounded-lg text-sm font-medium mb-1"
+                >
+                  <Download size={16} className="mr-2" />
+                  Export as ZIP
+                </button>
+              )}
+              {onArchiveProject && (
+                <button
+                  onClick={(e) => {
+                    const project = projects.find(p => p.id === openMenuId);
+                    if (project) handleArchiveClick(project, e);
+                  }}
+                  className="w-full flex items-center px-3 py-2 text-gray-200 hover:bg-gray-700 hover:text-white transition-colors rounded-lg text-sm font-medium mb-1"
+                >
+                  <Archive size={16} className="mr-2" />
+                  Archive
+                </button>
+              )}
               <button
                 onClick={(e) => {
                   const project = projects.find(p => p.id === openMenuId);
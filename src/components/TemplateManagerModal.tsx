@@ -0,0 +1,358 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { AlertTriangle, Copy, Eye, LayoutTemplate, Plus, Trash2, X } from 'lucide-react';
+import { useTheme } from '../contexts/ThemeContext';
+import { Project } from '../types';
+import {
+  BUILT_IN_TEMPLATES,
+  TEMPLATE_ITEM_TYPES,
+  TEMPLATE_ITEM_TYPE_LABELS,
+  TEMPLATE_NAME_MAX_LENGTH,
+  TEMPLATE_TARGETS,
+  TEMPLATE_TARGET_LABELS,
+  TEMPLATE_VARIABLES,
+  Template,
+  TemplateTarget,
+  findUnknownVariables,
+  formatTemplateDate,
+  isBuiltInTemplateId,
+  renderTemplate
+} from '../lib/templates';
+import { TemplateFields, createTemplate, deleteTemplate, updateTemplate } from '../services/templateService';
+
+interface TemplateManagerModalProps {
+  project: Project;
+  // The user's own templates available in this project
+  templates: Template[];
+  onClose: () => void;
+  // Called after a template is saved or deleted
+  onChange: () => void;
+  initialTarget?: TemplateTarget;
+  // Prefills a new template, e.g. from an existing document
+  initialDraft?: Partial<TemplateFields>;
+}
+
+const emptyDraft = (target: TemplateTarget, projectId: string | null): TemplateFields => ({
+  projectId,
+  name: '',
+  description: '',
+  target,
+  itemType: TEMPLATE_ITEM_TYPES[target][0],
+  content: ''
+});
+
+export const TemplateManagerModal: React.FC<TemplateManagerModalProps> = ({
+  project,
+  templates,
+  onClose,
+  onChange,
+  initialTarget = 'document',
+  initialDraft
+}) => {
+  const { isDark } = useTheme();
+  const contentRef = useRef<HTMLTextAreaElement>(null);
+  // null while editing a new template
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<TemplateFields>(() => ({ ...emptyDraft(initialTarget, null), ...initialDraft }));
+  const [showPreview, setShowPreview] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const isReadOnly = !!selectedId && isBuiltInTemplateId(selectedId);
+  // By id, so a template just created can be saved again before the list reloads
+  const editingId = selectedId && !isReadOnly ? selectedId : null;
+
+  const unknownVariables = useMemo(() => findUnknownVariables(draft.content), [draft.content]);
+
+  // Sample values so the preview shows what an item created here would look like
+  const preview = useMemo(() => renderTemplate(draft.content, {
+    project: { name: project.name, description: project.description },
+    document: { title: 'New document' },
+    feature: { title: 'New feature', type: 'new-feature', status: 'planned' },
+    file: { name: 'new-file.md' },
+    date: formatTemplateDate(new Date())
+  }), [draft.content, project.name, project.description]);
+
+  const updateDraft = (updates: Partial<TemplateFields>) => setDraft(prev => ({ ...prev, ...updates }));
+
+  // Loads the picked template into the form; a reloaded list leaves the form as it is
+  const selectTemplate = (template: Template) => {
+    setSelectedId(template.id);
+    setDraft({
+      projectId: template.projectId,
+      name: template.name,
+      description: template.description,
+      target: template.target,
+      itemType: template.itemType,
+      content: template.content
+    });
+    setErrorMessage(null);
+  };
+
+  const startNew = (fields?: Partial<TemplateFields>) => {
+    setSelectedId(null);
+    setDraft({ ...emptyDraft(draft.target, null), ...fields });
+    setShowPreview(false);
+    setErrorMessage(null);
+  };
+
+  const insertVariable = (name: string) => {
+    const textarea = contentRef.current;
+    const token = `{{${name}}}`;
+    if (!textarea || isReadOnly) return;
+    const { selectionStart, selectionEnd } = textarea;
+    updateDraft({ content: draft.content.slice(0, selectionStart) + token + draft.content.slice(selectionEnd) });
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(selectionStart + token.length, selectionStart + token.length);
+    });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const saved = editingId
+        ? await updateTemplate(editingId, draft)
+        : await createTemplate(draft);
+      setSelectedId(saved.id);
+      setErrorMessage(null);
+      onChange();
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to save template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!editingId) return;
+    if (!window.confirm(`Delete the "${draft.name}" template? Items created from it are not changed.`)) return;
+    try {
+      await deleteTemplate(editingId);
+      startNew();
+      onChange();
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'Failed to delete template');
+    }
+  };
+
+  const inputStyle = {
+    borderColor: isDark ? '#2a2a2a' : '#e2e8f0',
+    backgroundColor: isDark ? '#0f172a' : '#f8fafc',
+    color: isDark ? '#ffffff' : '#000000'
+  };
+  const labelClass = `block text-xs font-medium ${isDark ? 'text-gray-400' : 'text-gray-600'} mb-1`;
+  const mutedClass = 'text-xs text-gray-500';
+  const buttonClass = `px-3 py-1.5 text-xs rounded-lg border flex items-center ${isDark ? 'border-gray-600 text-gray-300 hover:bg-gray-800' : 'border-gray-300 text-gray-600 hover:bg-gray-50'} transition-colors disabled:opacity-50`;
+
+  const renderListItem = (template: Template) => (
+    <button
+      key={template.id}
+      onClick={() => selectTemplate(template)}
+      className={`w-full px-3 py-2 text-left rounded-lg text-sm ${
+        selectedId === template.id
+          ? isDark ? 'bg-gray-800 text-white' : 'bg-gray-100 text-gray-900'
+          : isDark ? 'text-gray-300 hover:bg-gray-800' : 'text-gray-700 hover:bg-gray-50'
+      }`}
+    >
+      <div className="truncate">{template.name}</div>
+      <div className={mutedClass}>
+        {TEMPLATE_ITEM_TYPE_LABELS[template.itemType] || template.itemType}
+        {template.builtIn ? ' · built-in' : template.projectId ? ' · this project' : ' · all projects'}
+      </div>
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      <div className="absolute inset-0 bg-black bg-opacity-50" onClick={onClose} />
+      <div
+        className="relative w-full max-w-5xl mx-4 h-[85vh] flex flex-col rounded-2xl border shadow-2xl"
+        style={{ backgroundColor: isDark ? '#1a1a1a' : '#ffffff', borderColor: isDark ? '#2a2a2a' : '#e2e8f0' }}
+      >
+        <div className={`flex items-center justify-between px-6 py-4 border-b ${isDark ? 'border-gray-800' : 'border-gray-200'}`}>
+          <h3 className={`text-lg font-bold flex items-center ${isDark ? 'text-white' : 'text-gray-900'}`}>
+            <LayoutTemplate size={18} className="mr-2" />
+            Templates
+          </h3>
+          <button onClick={onClose} className={`p-1 rounded ${isDark ? 'hover:bg-gray-800 text-gray-400' : 'hover:bg-gray-100 text-gray-500'}`} title="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 flex">
+          {/* Template list */}
+          <div className={`w-64 flex-shrink-0 border-r p-3 overflow-y-auto ${isDark ? 'border-gray-800 dark-scrollbar' : 'border-gray-200 light-scrollbar'}`}>
+            <button onClick={() => startNew()} className={`${buttonClass} w-full justify-center mb-3`}>
+              <Plus size={12} className="mr-1" />
+              New template
+            </button>
+            {TEMPLATE_TARGETS.map(target => (
+              <div key={target} className="mb-4">
+                <div className={`${mutedClass} font-medium uppercase tracking-wide mb-1 px-1`}>{TEMPLATE_TARGET_LABELS[target]}s</div>
+                {templates.filter(template => template.target === target).map(renderListItem)}
+                {BUILT_IN_TEMPLATES.filter(template => template.target === target).map(renderListItem)}
+              </div>
+            ))}
+          </div>
+
+          {/* Editor */}
+          <div className={`flex-1 min-w-0 p-5 overflow-y-auto space-y-4 ${isDark ? 'dark-scrollbar' : 'light-scrollbar'}`}>
+            {isReadOnly && (
+              <div className={`flex items-center justify-between p-3 rounded-lg text-xs ${isDark ? 'bg-gray-800 text-gray-300' : 'bg-gray-50 text-gray-600'}`}>
+                <span>Built-in templates can't be changed. Duplicate this one to make your own version.</span>
+                <button onClick={() => startNew({ ...draft, name: `${draft.name} (copy)` })} className={buttonClass}>
+                  <Copy size={12} className="mr-1" />
+                  Duplicate
+                </button>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className={labelClass}>Name</label>
+                <input
+                  type="text"
+                  value={draft.name}
+                  maxLength={TEMPLATE_NAME_MAX_LENGTH}
+                  disabled={isReadOnly}
+                  onChange={(e) => updateDraft({ name: e.target.value })}
+                  placeholder="e.g. API spec"
+                  className="w-full px-3 py-2 border rounded-lg text-sm"
+                  style={inputStyle}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Description</label>
+                <input
+                  type="text"
+                  value={draft.description}
+                  disabled={isReadOnly}
+                  onChange={(e) => updateDraft({ description: e.target.value })}
+                  placeholder="Shown when picking a template"
+                  className="w-full px-3 py-2 border rounded-lg text-sm"
+                  style={inputStyle}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Used for</label>
+                <div className="flex gap-2">
+                  <select
+                    value={draft.target}
+                    disabled={isReadOnly}
+                    onChange={(e) => {
+                      const target = e.target.value as TemplateTarget;
+                      updateDraft({ target, itemType: TEMPLATE_ITEM_TYPES[target][0] });
+                    }}
+                    className="flex-1 px-3 py-2 border rounded-lg text-sm"
+                    style={inputStyle}
+                  >
+                    {TEMPLATE_TARGETS.map(target => (
+                      <option key={target} value={target}>{TEMPLATE_TARGET_LABELS[target]}s</option>
+                    ))}
+                  </select>
+                  <select
+                    value={draft.itemType}
+                    disabled={isReadOnly}
+                    onChange={(e) => updateDraft({ itemType: e.target.value })}
+                    className="flex-1 px-3 py-2 border rounded-lg text-sm"
+                    style={inputStyle}
+                  >
+                    {TEMPLATE_ITEM_TYPES[draft.target].map(itemType => (
+                      <option key={itemType} value={itemType}>{TEMPLATE_ITEM_TYPE_LABELS[itemType] || itemType}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <div>
+                <label className={labelClass}>Available in</label>
+                <select
+                  value={draft.projectId ? 'project' : 'all'}
+                  disabled={isReadOnly}
+                  onChange={(e) => updateDraft({ projectId: e.target.value === 'project' ? project.id : null })}
+                  className="w-full px-3 py-2 border rounded-lg text-sm"
+                  style={inputStyle}
+                >
+                  <option value="all">All my projects</option>
+                  <option value="project">Only {project.name}</option>
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <label className={labelClass}>Content</label>
+                <button onClick={() => setShowPreview(!showPreview)} className={`${mutedClass} flex items-center hover:underline`}>
+                  <Eye size={12} className="mr-1" />
+                  {showPreview ? 'Edit' : 'Preview'}
+                </button>
+              </div>
+              {showPreview ? (
+                <pre
+                  className={`w-full h-72 p-3 border rounded-lg text-xs font-mono whitespace-pre-wrap overflow-y-auto ${isDark ? 'text-gray-300' : 'text-gray-800'}`}
+                  style={inputStyle}
+                >
+                  {preview}
+                </pre>
+              ) : (
+                <textarea
+                  ref={contentRef}
+                  value={draft.content}
+                  readOnly={isReadOnly}
+                  onChange={(e) => updateDraft({ content: e.target.value })}
+                  placeholder="# {{document.title}}"
+                  className="w-full h-72 p-3 border rounded-lg text-xs font-mono resize-none focus:outline-none"
+                  style={inputStyle}
+                />
+              )}
+              {unknownVariables.length > 0 && (
+                <p className="mt-1 text-xs text-yellow-500 flex items-center">
+                  <AlertTriangle size={12} className="mr-1" />
+                  Not filled in automatically: {unknownVariables.map(name => `{{${name}}}`).join(', ')}
+                </p>
+              )}
+            </div>
+
+            <div>
+              <div className={labelClass}>Variables {isReadOnly ? '' : '(click to insert)'}</div>
+              <div className="flex flex-wrap gap-1.5">
+                {TEMPLATE_VARIABLES
+                  .filter(variable => !variable.targets || variable.targets.includes(draft.target))
+                  .map(variable => (
+                    <button
+                      key={variable.name}
+                      onClick={() => insertVariable(variable.name)}
+                      disabled={isReadOnly || showPreview}
+                      title={variable.description}
+                      className={`px-2 py-1 rounded text-xs font-mono ${isDark ? 'bg-gray-800 text-gray-300 hover:bg-gray-700' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'} disabled:cursor-default`}
+                    >
+                      {`{{${variable.name}}}`}
+                    </button>
+                  ))}
+              </div>
+            </div>
+
+            {errorMessage && <p className="text-xs text-red-500">{errorMessage}</p>}
+
+            {!isReadOnly && (
+              <div className="flex items-center justify-between pt-2">
+                {editingId ? (
+                  <button onClick={handleDelete} className={`${buttonClass} text-red-500`}>
+                    <Trash2 size={12} className="mr-1" />
+                    Delete
+                  </button>
+                ) : <span />}
+                <button
+                  onClick={handleSave}
+                  disabled={saving || !draft.name.trim()}
+                  className="px-5 py-2 bg-gradient-to-r from-blue-600 to-blue-700 text-white text-sm rounded-xl hover:from-blue-700 hover:to-blue-800 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+                >
+                  {saving ? 'Saving...' : editingId ? 'Save changes' : 'Create template'}
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
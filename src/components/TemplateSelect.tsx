@@ -0,0 +1,73 @@
+import React from 'react';
+import { LayoutTemplate } from 'lucide-react';
+import { useTheme } from '../contexts/ThemeContext';
+import { Template, TemplateTarget, getTemplatesFor } from '../lib/templates';
+
+interface TemplateSelectProps {
+  target: TemplateTarget;
+  itemType: string;
+  // The user's own templates; built-ins are added here
+  templates: Template[];
+  // Template id, or '' for a blank item
+  value: string;
+  onChange: (templateId: string) => void;
+  onManage?: () => void;
+  label?: string;
+}
+
+/**
+ * Picks the template a new document or feature file starts from
+ */
+export const TemplateSelect: React.FC<TemplateSelectProps> = ({
+  target,
+  itemType,
+  templates,
+  value,
+  onChange,
+  onManage,
+  label = 'Template'
+}) => {
+  const { isDark } = useTheme();
+  const options = getTemplatesFor(templates, target, itemType);
+  const selected = options.find(template => template.id === value);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className={`flex items-center text-sm font-medium ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
+          <LayoutTemplate size={14} className="mr-1.5" />
+          {label}
+        </label>
+        {onManage && (
+          <button
+            type="button"
+            onClick={onManage}
+            className={`text-xs ${isDark ? 'text-blue-400 hover:text-blue-300' : 'text-blue-600 hover:text-blue-700'}`}
+          >
+            Manage templates
+          </button>
+        )}
+      </div>
+      <select
+        value={selected ? value : ''}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full p-2.5 border rounded-xl text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        style={{
+          borderColor: isDark ? '#2a2a2a' : '#e2e8f0',
+          backgroundColor: isDark ? '#0f172a' : '#f8fafc',
+          color: isDark ? '#ffffff' : '#000000'
+        }}
+      >
+        <option value="">Blank</option>
+        {options.map(template => (
+          <option key={template.id} value={template.id}>
+            {template.name}{template.builtIn ? ' (built-in)' : template.projectId ? ' (this project)' : ''}
+          </option>
+        ))}
+      </select>
+      {selected?.description && (
+        <p className={`mt-1 text-xs ${isDark ? 'text-gray-500' : 'text-gray-500'}`}>{selected.description}</p>
+      )}
+    </div>
+  );
+};
@@ -1,73 +1,75 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { motion } from 'framer-motion';
-import { Brain, TrendingUp, MessageSquare, Target, Zap, CheckCircle } from 'lucide-react';
+import { Brain, TrendingUp, MessageSquare, Target, Zap, CheckCircle, BarChart3, ChevronRight, Bug, Info } from 'lucide-react';
 import { useDashboardTheme, dashboardAnimations, getMotionPreferences } from '../../lib/dashboardTheme';
+import { NavigationService, OpenItemPayload } from '../../lib/navigation/NavigationService';
+import { AILearningInsightsProps, InsightItemRef } from '../../types/dashboard';
 
-interface AIInsight {
-  id: string;
+type InsightId = 'conversations' | 'linked-bugs' | 'patterns' | 'activity';
+
+interface InsightTile {
+  id: InsightId;
   type: 'pattern' | 'success' | 'improvement' | 'trend';
   title: string;
   description: string;
   value: number;
-  change: number;
-  icon: React.ComponentType<any>;
-}
-
-interface AILearningInsightsProps {
-  insights?: AIInsight[];
-  className?: string;
+  isPercentage?: boolean;
+  change?: { value: number; isPositive: boolean };
+  icon: React.ComponentType<{ className?: string }>;
 }
 
-const AILearningInsights: React.FC<AILearningInsightsProps> = ({ 
+const AILearningInsights: React.FC<AILearningInsightsProps> = ({
   insights,
-  className = '' 
+  projectId,
+  loading = false,
+  className = ''
 }) => {
   const theme = useDashboardTheme();
   const motionPrefs = getMotionPreferences();
+  const [selectedId, setSelectedId] = useState<InsightId | null>(null);
 
-  // Mock data for AI learning insights
-  const defaultInsights: AIInsight[] = [
+  const thisWeek = insights.trend[insights.trend.length - 1];
+  const maxWeekly = Math.max(1, ...insights.trend.map(point => point.conversations + point.resolvedBugs));
+
+  const tiles: InsightTile[] = [
     {
-      id: '1',
-      type: 'pattern',
-      title: 'Code Patterns Learned',
-      description: 'Successful implementation patterns captured',
-      value: 47,
-      change: 12,
-      icon: Brain,
+      id: 'conversations',
+      type: 'trend',
+      title: 'Conversations Captured',
+      description: 'AI conversations saved to this project',
+      value: insights.conversationCount,
+      change: insights.conversationTrend,
+      icon: MessageSquare,
     },
     {
-      id: '2',
+      id: 'linked-bugs',
       type: 'success',
-      title: 'AI Success Rate',
-      description: 'Conversations leading to working solutions',
-      value: 89,
-      change: 5,
+      title: 'Fixes With Context',
+      description: `${insights.linkedResolvedBugCount} of ${insights.resolvedBugCount} fixed bugs have a linked conversation`,
+      value: insights.linkedResolutionRate,
+      isPercentage: true,
+      change: insights.resolvedBugTrend,
       icon: Target,
     },
     {
-      id: '3',
-      type: 'improvement',
-      title: 'Learning Velocity',
-      description: 'Rate of pattern recognition improvement',
-      value: 73,
-      change: 8,
-      icon: TrendingUp,
+      id: 'patterns',
+      type: 'pattern',
+      title: 'Patterns Reused',
+      description: 'Tags shared by two or more conversations',
+      value: insights.reusedPatternCount,
+      icon: Brain,
     },
     {
-      id: '4',
-      type: 'trend',
-      title: 'Active Conversations',
-      description: 'AI conversations captured this week',
-      value: 156,
-      change: 23,
-      icon: MessageSquare,
+      id: 'activity',
+      type: 'improvement',
+      title: 'This Week',
+      description: 'Conversations and bug fixes per week',
+      value: thisWeek ? thisWeek.conversations + thisWeek.resolvedBugs : 0,
+      icon: BarChart3,
     },
   ];
 
-  const insightData = insights || defaultInsights;
-
-  const getInsightColor = (type: AIInsight['type']) => {
+  const getInsightColor = (type: InsightTile['type']) => {
     switch (type) {
       case 'pattern':
         return 'text-purple-500 bg-purple-500/10 border-purple-500/20';
@@ -82,6 +84,66 @@ const AILearningInsights: React.FC<AILearningInsightsProps> = ({
     }
   };
 
+  const openItem = (item: InsightItemRef) => {
+    const payload: OpenItemPayload = { type: item.type, id: item.id, projectId };
+    NavigationService.getInstance().navigateTo(item.type, payload);
+  };
+
+  const renderItem = (item: InsightItemRef) => {
+    const ItemIcon = item.type === 'bug' ? Bug : MessageSquare;
+    return (
+      <button
+        key={`${item.type}-${item.id}`}
+        onClick={() => openItem(item)}
+        className={`w-full flex items-center gap-2 px-3 py-2 text-left text-sm ${theme.hoverBackground} transition-colors duration-200 group`}
+      >
+        <ItemIcon className={`w-3.5 h-3.5 flex-shrink-0 ${theme.textMuted}`} />
+        <span className={`flex-1 truncate ${theme.text}`}>{item.title}</span>
+        {item.detail && <span className={`text-xs ${theme.textMuted}`}>{item.detail}</span>}
+        <ChevronRight className={`w-3.5 h-3.5 ${theme.textMuted} opacity-0 group-hover:opacity-100`} />
+      </button>
+    );
+  };
+
+  const renderEmpty = (message: string) => (
+    <p className={`px-3 py-2 text-sm ${theme.textMuted}`}>{message}</p>
+  );
+
+  const renderDetails = () => {
+    switch (selectedId) {
+      case 'conversations':
+        return insights.recentConversations.length > 0
+          ? insights.recentConversations.map(renderItem)
+          : renderEmpty('No conversations captured yet');
+      case 'linked-bugs':
+        return insights.linkedBugs.length > 0
+          ? insights.linkedBugs.map(renderItem)
+          : renderEmpty('No fixed bugs reference a conversation yet');
+      case 'patterns':
+        return insights.patterns.length > 0
+          ? insights.patterns.map(pattern => (
+              <div key={pattern.tag} className="py-1">
+                <p className={`px-3 pt-1 text-xs font-medium ${theme.textSecondary}`}>
+                  #{pattern.tag} · {pattern.conversations.length} conversations
+                </p>
+                {pattern.conversations.slice(0, 3).map(renderItem)}
+              </div>
+            ))
+          : renderEmpty('No tag has been used by more than one conversation yet');
+      case 'activity':
+        return insights.trend.map(point => (
+          <div key={point.weekStart} className={`flex items-center justify-between px-3 py-1.5 text-sm ${theme.textSecondary}`}>
+            <span>Week of {point.weekStart}</span>
+            <span>{point.conversations} conversations · {point.resolvedBugs} fixes</span>
+          </div>
+        ));
+      default:
+        return null;
+    }
+  };
+
+  const selectedTile = tiles.find(tile => tile.id === selectedId);
+
   return (
     <motion.div
       className={`${theme.cardBackground} ${theme.border} border p-4 sm:p-5 md:p-6 ${className}`}
@@ -100,12 +162,13 @@ const AILearningInsights: React.FC<AILearningInsightsProps> = ({
               AI Learning Insights
             </h3>
             <p className={`text-sm ${theme.textMuted}`}>
-              RefBase AI learning loop performance
+              {loading ? 'Loading conversations...' : 'RefBase AI learning loop performance'}
             </p>
           </div>
         </div>
-        
+
         <motion.button
+          onClick={() => setSelectedId(selectedId ? null : 'conversations')}
           className={`
             px-3 py-1.5 text-xs font-medium
             ${theme.secondaryBackground} ${theme.textMuted}
@@ -116,7 +179,7 @@ const AILearningInsights: React.FC<AILearningInsightsProps> = ({
           whileHover={{ scale: 1.05 }}
           whileTap={{ scale: 0.95 }}
         >
-          View Details
+          {selectedId ? 'Hide Details' : 'View Details'}
         </motion.button>
       </div>
 
@@ -127,17 +190,18 @@ const AILearningInsights: React.FC<AILearningInsightsProps> = ({
         initial="hidden"
         animate="visible"
       >
-        {insightData.map((insight) => {
+        {tiles.map((insight) => {
           const Icon = insight.icon;
           const colorClasses = getInsightColor(insight.type);
-          const isPositive = insight.change > 0;
+          const isSelected = insight.id === selectedId;
 
           return (
             <motion.div
               key={insight.id}
+              onClick={() => setSelectedId(isSelected ? null : insight.id)}
               className={`
-                ${theme.secondaryBackground} 
-                border ${theme.border}
+                ${theme.secondaryBackground}
+                border ${isSelected ? 'border-blue-500' : theme.border}
                 p-3 sm:p-4
                 transition-all duration-200
                 hover:scale-[1.02]
@@ -152,13 +216,18 @@ const AILearningInsights: React.FC<AILearningInsightsProps> = ({
                 <div className={`p-2 ${colorClasses} border`}>
                   <Icon className="w-4 h-4" />
                 </div>
-                <div className={`
-                  flex items-center gap-1 text-xs font-medium
-                  ${isPositive ? 'text-green-500' : 'text-red-500'}
-                `}>
-                  <TrendingUp className={`w-3 h-3 ${isPositive ? '' : 'rotate-180'}`} />
-                  {isPositive ? '+' : ''}{insight.change}%
-                </div>
+                {insight.change && insight.change.value > 0 && (
+                  <div
+                    className={`
+                      flex items-center gap-1 text-xs font-medium
+                      ${insight.change.isPositive ? 'text-green-500' : 'text-red-500'}
+                    `}
+                    title="Last 7 days compared to the 7 days before"
+                  >
+                    <TrendingUp className={`w-3 h-3 ${insight.change.isPositive ? '' : 'rotate-180'}`} />
+                    {insight.change.isPositive ? '+' : '-'}{insight.change.value}%
+                  </div>
+                )}
               </div>
 
               {/* Content */}
@@ -175,11 +244,11 @@ const AILearningInsights: React.FC<AILearningInsightsProps> = ({
               <div className="mt-3 flex items-end justify-between">
                 <span className={`text-2xl font-bold ${theme.text}`}>
                   {insight.value}
-                  {insight.type === 'success' || insight.type === 'improvement' ? '%' : ''}
+                  {insight.isPercentage ? '%' : ''}
                 </span>
-                
+
                 {/* Progress indicator for percentage values */}
-                {(insight.type === 'success' || insight.type === 'improvement') && (
+                {insight.isPercentage && (
                   <div className="flex-1 ml-3">
                     <div className={`w-full h-1.5 ${theme.secondaryBackground} overflow-hidden`}>
                       <motion.div
@@ -191,38 +260,78 @@ const AILearningInsights: React.FC<AILearningInsightsProps> = ({
                     </div>
                   </div>
                 )}
+
+                {/* Weekly bars for the activity trend */}
+                {insight.id === 'activity' && (
+                  <div className="flex items-end gap-1 h-8 ml-3">
+                    {insights.trend.map(point => (
+                      <div
+                        key={point.weekStart}
+                        className={`w-2 ${colorClasses.split(' ')[1]}`}
+                        style={{ height: `${Math.max(8, ((point.conversations + point.resolvedBugs) / maxWeekly) * 100)}%` }}
+                        title={`Week of ${point.weekStart}: ${point.conversations} conversations, ${point.resolvedBugs} fixes`}
+                      />
+                    ))}
+                  </div>
+                )}
               </div>
             </motion.div>
           );
         })}
       </motion.div>
 
+      {/* Underlying items for the selected insight */}
+      {selectedTile && (
+        <div className={`mt-4 border ${theme.border}`}>
+          <p className={`px-3 py-2 text-xs font-semibold uppercase tracking-wide ${theme.textMuted} border-b ${theme.border}`}>
+            {selectedTile.title}
+          </p>
+          <div className="py-1">
+            {renderDetails()}
+          </div>
+        </div>
+      )}
+
       {/* Learning Status */}
       <motion.div
         className={`
-          mt-4 sm:mt-5 md:mt-6 
-          p-3 sm:p-4 
-          ${theme.secondaryBackground} 
+          mt-4 sm:mt-5 md:mt-6
+          p-3 sm:p-4
+          ${theme.secondaryBackground}
           border ${theme.border}
         `}
         variants={motionPrefs.prefersReducedMotion ? motionPrefs.reducedMotion : dashboardAnimations.fadeInDelayed(0.8)}
         initial="hidden"
         animate="visible"
       >
-        <div className="flex items-center gap-3">
-          <CheckCircle className="w-5 h-5 text-green-500" />
-          <div>
-            <p className={`text-sm font-medium ${theme.text}`}>
-              AI Learning Loop Active
-            </p>
-            <p className={`text-xs ${theme.textMuted}`}>
-              Continuously improving from your coding conversations
-            </p>
+        {insights.conversationCount > 0 ? (
+          <div className="flex items-center gap-3">
+            <CheckCircle className="w-5 h-5 text-green-500" />
+            <div>
+              <p className={`text-sm font-medium ${theme.text}`}>
+                AI Learning Loop Active
+              </p>
+              <p className={`text-xs ${theme.textMuted}`}>
+                {thisWeek?.conversations || 0} conversations captured in the last 7 days
+              </p>
+            </div>
           </div>
-        </div>
+        ) : (
+          <div className="flex items-center gap-3">
+            <Info className={`w-5 h-5 ${theme.textMuted}`} />
+            <div>
+              <p className={`text-sm font-medium ${theme.text}`}>
+                No Conversations Yet
+              </p>
+              <p className={`text-xs ${theme.textMuted}`}>
+                Save AI conversations to this project to start the learning loop
+              </p>
+            </div>
+          </div>
+        )}
       </motion.div>
     </motion.div>
   );
 };
 
-export default AILearningInsights;
\ No newline at end of file
+export default AILearningInsights;
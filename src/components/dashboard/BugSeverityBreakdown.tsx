@@ -2,7 +2,6 @@ import React from 'react';
 import { motion } from 'framer-motion';
 import { Bug, TrendingDown, TrendingUp, ArrowRight, AlertTriangle } from 'lucide-react';
 import { useDashboardTheme, dashboardAnimations, getMotionPreferences } from '../../lib/dashboardTheme';
-import { Bug as BugType } from '../../types';
 
 interface BugSeverity {
   level: 'critical' | 'high' | 'medium' | 'low';
@@ -14,7 +13,7 @@ interface BugSeverity {
 }
 
 interface BugSeverityBreakdownProps {
-  projectBugs?: BugType[];
+  severityCounts?: Record<BugSeverity['level'], number>; // Open and in-progress bugs only
   severityData?: BugSeverity[];
   onSeverityClick?: (severity: string) => void;
   onViewAll?: () => void;
@@ -22,7 +21,7 @@ interface BugSeverityBreakdownProps {
 }
 
 const BugSeverityBreakdown: React.FC<BugSeverityBreakdownProps> = ({ 
-  projectBugs = [],
+  severityCounts = { critical: 0, high: 0, medium: 0, low: 0 },
   severityData,
   onSeverityClick,
   onViewAll,
@@ -31,24 +30,11 @@ const BugSeverityBreakdown: React.FC<BugSeverityBreakdownProps> = ({
   const theme = useDashboardTheme();
   const motionPrefs = getMotionPreferences();
 
-  // Filter bugs to only include open and in-progress ones
-  const activeBugs = projectBugs.filter(bug => 
-    bug.status === 'open' || bug.status === 'in-progress'
-  );
-
-  // Count bugs by severity level
-  const bugCounts = {
-    critical: activeBugs.filter(bug => bug.severity === 'critical').length,
-    high: activeBugs.filter(bug => bug.severity === 'high').length,
-    medium: activeBugs.filter(bug => bug.severity === 'medium').length,
-    low: activeBugs.filter(bug => bug.severity === 'low').length,
-  };
-
   // Create severity data from real bug counts
   const defaultSeverityData: BugSeverity[] = [
     {
       level: 'critical',
-      count: bugCounts.critical,
+      count: severityCounts.critical,
       trend: -25, // TODO: Calculate real trend later
       color: 'text-red-500',
       bgColor: 'bg-red-500',
@@ -56,7 +42,7 @@ const BugSeverityBreakdown: React.FC<BugSeverityBreakdownProps> = ({
     },
     {
       level: 'high',
-      count: bugCounts.high,
+      count: severityCounts.high,
       trend: -12, // TODO: Calculate real trend later
       color: 'text-orange-500',
       bgColor: 'bg-orange-500',
@@ -64,7 +50,7 @@ const BugSeverityBreakdown: React.FC<BugSeverityBreakdownProps> = ({
     },
     {
       level: 'medium',
-      count: bugCounts.medium,
+      count: severityCounts.medium,
       trend: 5, // TODO: Calculate real trend later
       color: 'text-yellow-500',
       bgColor: 'bg-yellow-500',
@@ -72,7 +58,7 @@ const BugSeverityBreakdown: React.FC<BugSeverityBreakdownProps> = ({
     },
     {
       level: 'low',
-      count: bugCounts.low,
+      count: severityCounts.low,
       trend: 8, // TODO: Calculate real trend later
       color: 'text-blue-500',
       bgColor: 'bg-blue-500',
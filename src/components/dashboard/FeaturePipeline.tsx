@@ -2,7 +2,6 @@ import React from 'react';
 import { motion } from 'framer-motion';
 import { Lightbulb, Code, TestTube, Rocket, ArrowRight, CheckCircle, Clock, AlertCircle } from 'lucide-react';
 import { useDashboardTheme, dashboardAnimations, getMotionPreferences } from '../../lib/dashboardTheme';
-import { Feature } from '../../types';
 
 interface PipelineStage {
   id: string;
@@ -17,7 +16,12 @@ interface PipelineStage {
 }
 
 interface FeaturePipelineProps {
-  features: Feature[];
+  statusCounts: {
+    planned: number;
+    inProgress: number;
+    testing: number;
+    implemented: number;
+  };
   stages?: PipelineStage[];
   featureTypes?: FeatureType[];
   onStageClick?: (stageId: string) => void;
@@ -26,7 +30,7 @@ interface FeaturePipelineProps {
 }
 
 const FeaturePipeline: React.FC<FeaturePipelineProps> = ({ 
-  features,
+  statusCounts,
   stages,
   featureTypes,
   onStageClick,
@@ -36,11 +40,13 @@ const FeaturePipeline: React.FC<FeaturePipelineProps> = ({
   const theme = useDashboardTheme();
   const motionPrefs = getMotionPreferences();
 
-  // Calculate real feature counts by status
-  const plannedCount = features.filter(f => f.status === 'planned').length;
-  const inProgressCount = features.filter(f => f.status === 'in-progress').length;
-  const testingCount = features.filter(f => f.status === 'testing').length;
-  const implementedCount = features.filter(f => f.status === 'implemented').length;
+  // Feature counts by status
+  const {
+    planned: plannedCount,
+    inProgress: inProgressCount,
+    testing: testingCount,
+    implemented: implementedCount
+  } = statusCounts;
 
   // Real data for pipeline stages based on database statuses
   const defaultStages: PipelineStage[] = [
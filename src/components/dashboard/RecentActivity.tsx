@@ -40,6 +40,8 @@ const RecentActivity: React.FC<RecentActivityProps> = ({
       case 'done':
       case 'completed':
       case 'resolved':
+      case 'fixed':
+      case 'verified':
         return 'text-green-500';
       case 'in-progress':
       case 'active':
@@ -49,6 +51,7 @@ const RecentActivity: React.FC<RecentActivityProps> = ({
         return 'text-red-500';
       case 'pending':
       case 'review':
+      case 'reopened':
         return 'text-yellow-500';
       default:
         return theme.textSecondary;
@@ -13,30 +13,25 @@ const createIconComponent = (Icon: typeof Target) => {
 
 interface ExtendedStatsGridProps extends StatsGridProps {
   allTasksCount?: number; // Total tasks including completed ones for correct progress calculation
-  features?: any[]; // Features array to calculate completed features
-  events?: any[]; // Calendar events array to calculate upcoming events
+  completedFeatures?: number; // Features with status 'implemented'
+  upcomingEvents?: number; // Calendar events in the next 30 days
+  totalEvents?: number;
 }
 
-const StatsGrid: React.FC<ExtendedStatsGridProps> = ({ stats, allTasksCount, features = [], events = [], className = '' }) => {
+const StatsGrid: React.FC<ExtendedStatsGridProps> = ({
+  stats,
+  allTasksCount,
+  completedFeatures = 0,
+  upcomingEvents = 0,
+  totalEvents = 0,
+  className = ''
+}) => {
   const theme = useDashboardTheme();
   const responsive = getResponsiveGridClasses();
 
   // Calculate correct progress based on all tasks (completed + incomplete)
   const totalTasks = allTasksCount || (stats.totalTasks + stats.completedTasks);
   const completionRate = totalTasks > 0 ? (stats.completedTasks / totalTasks) * 100 : 0;
-  
-  // Calculate completed features from the features array
-  const completedFeatures = features.filter((f: any) => f.status === 'implemented').length;
-  
-  // Calculate upcoming events (events in the next 30 days)
-  const now = new Date();
-  const thirtyDaysFromNow = new Date();
-  thirtyDaysFromNow.setDate(now.getDate() + 30);
-  
-  const upcomingEvents = events.filter((e: any) => {
-    const eventDate = new Date(e.date); // Using the formatted 'date' field from loadEvents
-    return eventDate > now && eventDate <= thirtyDaysFromNow;
-  }).length;
 
   // Generate metric cards with proper typing and correct progress calculation
   const metricCards: MetricCard[] = [
@@ -81,7 +76,7 @@ const StatsGrid: React.FC<ExtendedStatsGridProps> = ({ stats, allTasksCount, fea
       value: upcomingEvents,
       icon: createIconComponent(Star),
       colorType: 'documents',
-      progress: events.length > 0 ? (upcomingEvents / events.length) * 100 : 0,
+      progress: totalEvents > 0 ? (upcomingEvents / totalEvents) * 100 : 0,
       subtitle: 'Next 30 days',
       trend: {
         value: Math.floor(Math.random() * 4) + 1,
@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { Copy, Check } from 'lucide-react';
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
+import { oneDark, oneLight } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import { DiagramBlock } from '../ui/DiagramBlock';
+import { getDiagramLanguage } from '../../lib/diagrams';
+import { RENDERED_DIAGRAM_LANGUAGES } from '../../lib/diagramConfig';
+
+interface CodeBlockProps {
+  children: string;
+  className?: string;
+  isDark: boolean;
+}
+
+// Custom code block component with copy functionality
+export const CodeBlock: React.FC<CodeBlockProps> = ({ children, className, isDark }) => {
+  const [copied, setCopied] = useState(false);
+  const language = className?.replace('lang-', '') || 'text';
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(children);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy code:', error);
+    }
+  };
+
+  const diagramLanguage = getDiagramLanguage(language, RENDERED_DIAGRAM_LANGUAGES);
+  if (diagramLanguage) {
+    return <DiagramBlock language={diagramLanguage} source={String(children).trim()} isDark={isDark} />;
+  }
+
+  return (
+    <div className="relative group">
+      <button
+        onClick={handleCopy}
+        className={`absolute top-2 sm:top-3 right-2 sm:right-3 p-1.5 sm:p-2 rounded-lg opacity-0 group-hover:opacity-100 sm:opacity-0 opacity-100 sm:group-hover:opacity-100 transition-all duration-200 touch-manipulation ${
+          copied
+            ? isDark 
+              ? 'bg-green-800 text-green-300 border border-green-700' 
+              : 'bg-green-100 text-green-700 border border-green-200'
+            : isDark 
+              ? 'bg-gray-700 hover:bg-gray-600 text-gray-300 border border-gray-600' 
+              : 'bg-white hover:bg-gray-50 text-gray-700 border border-gray-200 shadow-sm'
+        }`}
+        title={copied ? "Copied!" : "Copy code"}
+      >
+        {copied ? <Check className="w-3 h-3 sm:w-4 sm:h-4" /> : <Copy className="w-3 h-3 sm:w-4 sm:h-4" />}
+      </button>
+      
+      <SyntaxHighlighter
+        language={language}
+        style={isDark ? oneDark : oneLight}
+        customStyle={{
+          margin: 0,
+          borderRadius: '0.5rem',
+          fontSize: '0.75rem',
+          lineHeight: '1.4',
+          backgroundColor: isDark ? '#1e1e1e' : '#f8f9fa',
+          border: isDark ? '1px solid #374151' : '1px solid #e5e7eb'
+        }}
+        className="text-xs sm:text-sm"
+        showLineNumbers={children.split('\n').length > 5}
+        wrapLines={true}
+        wrapLongLines={true}
+      >
+        {children}
+      </SyntaxHighlighter>
+    </div>
+  );
+};
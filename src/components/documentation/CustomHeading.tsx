@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+import { Hash } from 'lucide-react';
+
+interface HeadingProps {
+  children: React.ReactNode;
+  level: number;
+  isDark: boolean;
+}
+
+// Custom heading component with anchor links
+export const CustomHeading: React.FC<HeadingProps> = ({ children, level, isDark }) => {
+  const [showAnchor, setShowAnchor] = useState(false);
+  
+  // Generate ID from heading text
+  const headingText = React.Children.toArray(children).join('');
+  const headingId = headingText
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, '')
+    .replace(/\s+/g, '-')
+    .trim();
+
+  const HeadingTag = `h${level}` as keyof JSX.IntrinsicElements;
+  
+  const headingClasses = {
+    1: `text-2xl sm:text-3xl font-bold mb-4 sm:mb-6 ${isDark ? 'text-white' : 'text-gray-900'}`,
+    2: `text-xl sm:text-2xl font-semibold mt-6 sm:mt-8 mb-3 sm:mb-4 ${isDark ? 'text-white' : 'text-gray-900'}`,
+    3: `text-lg sm:text-xl font-semibold mt-4 sm:mt-6 mb-2 sm:mb-3 ${isDark ? 'text-white' : 'text-gray-900'}`,
+    4: `text-base sm:text-lg font-medium mt-3 sm:mt-4 mb-2 ${isDark ? 'text-white' : 'text-gray-900'}`,
+    5: `text-sm sm:text-base font-medium mt-2 sm:mt-3 mb-1 sm:mb-2 ${isDark ? 'text-white' : 'text-gray-900'}`,
+    6: `text-xs sm:text-sm font-medium mt-2 mb-1 ${isDark ? 'text-white' : 'text-gray-900'}`
+  };
+
+  return (
+    <HeadingTag
+      id={headingId}
+      className={`${headingClasses[level as keyof typeof headingClasses]} relative group flex items-center`}
+      onMouseEnter={() => setShowAnchor(true)}
+      onMouseLeave={() => setShowAnchor(false)}
+    >
+      {children}
+      {showAnchor && (
+        <a
+          href={`#${headingId}`}
+          className={`ml-2 p-1 -m-1 opacity-0 group-hover:opacity-100 transition-opacity touch-manipulation ${
+            isDark ? 'text-gray-400 hover:text-gray-300' : 'text-gray-500 hover:text-gray-700'
+          }`}
+          title="Link to this section"
+        >
+          <Hash className="w-3 h-3 sm:w-4 sm:h-4" />
+        </a>
+      )}
+    </HeadingTag>
+  );
+};
@@ -0,0 +1,296 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Search, MessageCircle, Bug, Lightbulb, FileText, File, CheckSquare, CornerDownLeft, LucideIcon } from 'lucide-react';
+import { useTheme } from '../../contexts/ThemeContext';
+import { NavigationService } from '../../lib/navigation/NavigationService';
+import {
+  SEARCH_ENTITY_TYPES,
+  SEARCH_ENTITY_LABELS,
+  SearchEntityType,
+  SearchResponse,
+  SearchResult,
+  createEmptyFacets
+} from '../../lib/unifiedSearch';
+import { searchEverything } from '../../services/unifiedSearchService';
+import { Project } from '../../types';
+
+interface CommandPaletteProps {
+  projects: Project[];
+  activeProject: Project | null;
+}
+
+// The most /api/search returns at once
+const RESULT_LIMIT = 50;
+
+const emptyResponse = (): SearchResponse => ({ results: [], facets: createEmptyFacets(), total: 0 });
+
+const TYPE_ICONS: Record<SearchEntityType, LucideIcon> = {
+  conversation: MessageCircle,
+  bug: Bug,
+  feature: Lightbulb,
+  feature_file: File,
+  document: FileText,
+  task: CheckSquare
+};
+
+export const CommandPalette: React.FC<CommandPaletteProps> = ({ projects, activeProject }) => {
+  const { isDark } = useTheme();
+  const activeProjectId = activeProject?.id;
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [typeFilter, setTypeFilter] = useState<SearchEntityType | null>(null);
+  const [allProjects, setAllProjects] = useState(false);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [response, setResponse] = useState<SearchResponse>(emptyResponse);
+  const [isSearching, setIsSearching] = useState(false);
+
+  // Toggle with Ctrl/Cmd+K
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        setIsOpen(prev => !prev);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Reset and focus on open
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setQuery('');
+    setSelectedIndex(0);
+    setAllProjects(!activeProjectId);
+    inputRef.current?.focus();
+  }, [isOpen, activeProjectId]);
+
+  // Search on the server, so items in tabs that were never opened are found too (debounced)
+  useEffect(() => {
+    if (!isOpen || !query.trim()) {
+      setResponse(emptyResponse());
+      setIsSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsSearching(true);
+
+    const timeoutId = setTimeout(async () => {
+      try {
+        const found = await searchEverything(query, {
+          types: typeFilter ? [typeFilter] : undefined,
+          projectId: allProjects ? null : activeProjectId,
+          limit: RESULT_LIMIT
+        });
+        if (!cancelled) {
+          setResponse(found);
+        }
+      } catch (error) {
+        console.error('Error searching:', error);
+        if (!cancelled) {
+          setResponse(emptyResponse());
+        }
+      } finally {
+        if (!cancelled) {
+          setIsSearching(false);
+        }
+      }
+    }, 200);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [isOpen, query, typeFilter, allProjects, activeProjectId]);
+
+  const { results, facets, total } = response;
+
+  const projectNames = useMemo(() => new Map(projects.map(p => [p.id, p.name])), [projects]);
+
+  // Keep the selection in range as results change
+  useEffect(() => {
+    setSelectedIndex(0);
+  }, [query, typeFilter, allProjects]);
+
+  // Scroll the selected result into view
+  useEffect(() => {
+    const element = listRef.current?.querySelector(`[data-index="${selectedIndex}"]`);
+    element?.scrollIntoView({ block: 'nearest' });
+  }, [selectedIndex]);
+
+  const openResult = (result: SearchResult) => {
+    setIsOpen(false);
+    NavigationService.getInstance().navigateTo(result.type, {
+      type: result.type,
+      id: result.id,
+      projectId: result.projectId,
+      parentId: result.parentId
+    });
+  };
+
+  const handleInputKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        setSelectedIndex(prev => Math.min(prev + 1, results.length - 1));
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        setSelectedIndex(prev => Math.max(prev - 1, 0));
+        break;
+      case 'Enter':
+        event.preventDefault();
+        if (results[selectedIndex]) {
+          openResult(results[selectedIndex]);
+        }
+        break;
+      case 'Tab': {
+        // Cycle through type facets
+        event.preventDefault();
+        const order: (SearchEntityType | null)[] = [null, ...SEARCH_ENTITY_TYPES];
+        const next = (order.indexOf(typeFilter) + (event.shiftKey ? order.length - 1 : 1)) % order.length;
+        setTypeFilter(order[next]);
+        break;
+      }
+      case 'Escape':
+        event.preventDefault();
+        setIsOpen(false);
+        break;
+    }
+  };
+
+  const chipClass = (active: boolean) => `px-2.5 py-1 rounded-lg text-xs font-medium transition-colors ${
+    active
+      ? 'bg-blue-600 text-white'
+      : isDark
+        ? 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+  }`;
+
+  const facetTotal = SEARCH_ENTITY_TYPES.reduce((sum, type) => sum + facets[type], 0);
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div
+          className="fixed inset-0 bg-black bg-opacity-50 flex items-start justify-center z-50 pt-20"
+          onClick={(e) => e.target === e.currentTarget && setIsOpen(false)}
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: -20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: -20 }}
+            transition={{ duration: 0.15 }}
+            className="w-full max-w-2xl mx-4 rounded-2xl border shadow-xl overflow-hidden"
+            style={{
+              backgroundColor: isDark ? '#1a1a1a' : '#ffffff',
+              borderColor: isDark ? '#2a2a2a' : '#e2e8f0'
+            }}
+          >
+            {/* Search input */}
+            <div className={`flex items-center px-4 border-b ${isDark ? 'border-gray-700' : 'border-gray-200'}`}>
+              <Search size={18} className={isDark ? 'text-gray-400' : 'text-gray-500'} />
+              <input
+                ref={inputRef}
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                onKeyDown={handleInputKeyDown}
+                placeholder="Search sessions, bugs, features, documents, tasks..."
+                className={`flex-1 px-3 py-4 bg-transparent outline-none text-sm ${isDark ? 'text-white placeholder-gray-500' : 'text-gray-900 placeholder-gray-400'}`}
+              />
+              {activeProject && (
+                <div className="flex items-center space-x-1">
+                  <button onClick={() => setAllProjects(false)} className={chipClass(!allProjects)}>
+                    This project
+                  </button>
+                  <button onClick={() => setAllProjects(true)} className={chipClass(allProjects)}>
+                    All projects
+                  </button>
+                </div>
+              )}
+            </div>
+
+            {/* Type facets */}
+            {query.trim() && (
+              <div className={`flex flex-wrap gap-1.5 px-4 py-2 border-b ${isDark ? 'border-gray-700' : 'border-gray-200'}`}>
+                <button onClick={() => setTypeFilter(null)} className={chipClass(typeFilter === null)}>
+                  All {facetTotal}
+                </button>
+                {SEARCH_ENTITY_TYPES.filter(type => facets[type] > 0 || typeFilter === type).map(type => (
+                  <button key={type} onClick={() => setTypeFilter(type)} className={chipClass(typeFilter === type)}>
+                    {SEARCH_ENTITY_LABELS[type]} {facets[type]}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {/* Results */}
+            <div ref={listRef} className="max-h-96 overflow-y-auto py-2">
+              {!query.trim() ? (
+                <p className={`px-4 py-6 text-center text-sm ${isDark ? 'text-gray-500' : 'text-gray-500'}`}>
+                  Type to search across {allProjects ? 'all projects' : activeProject?.name || 'your projects'}
+                </p>
+              ) : results.length === 0 ? (
+                <p className={`px-4 py-6 text-center text-sm ${isDark ? 'text-gray-500' : 'text-gray-500'}`}>
+                  {isSearching ? 'Searching...' : `No results for "${query}"`}
+                </p>
+              ) : (
+                results.map((result, index) => {
+                  const Icon = TYPE_ICONS[result.type];
+                  const isSelected = index === selectedIndex;
+                  return (
+                    <button
+                      key={`${result.type}-${result.id}`}
+                      data-index={index}
+                      onClick={() => openResult(result)}
+                      onMouseMove={() => setSelectedIndex(index)}
+                      className={`w-full flex items-start px-4 py-2.5 text-left transition-colors ${
+                        isSelected ? (isDark ? 'bg-gray-800' : 'bg-blue-50') : ''
+                      }`}
+                    >
+                      <Icon size={16} className={`mt-0.5 mr-3 flex-shrink-0 ${isDark ? 'text-gray-400' : 'text-gray-500'}`} />
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center space-x-2">
+                          <span className={`text-sm font-medium truncate ${isDark ? 'text-white' : 'text-gray-900'}`}>
+                            {result.title}
+                          </span>
+                          <span className={`text-xs flex-shrink-0 ${isDark ? 'text-gray-500' : 'text-gray-400'}`}>
+                            {SEARCH_ENTITY_LABELS[result.type]}
+                            {allProjects && result.projectId && projectNames.has(result.projectId) && ` · ${projectNames.get(result.projectId)}`}
+                          </span>
+                        </div>
+                        {result.snippet && (
+                          <p className={`text-xs mt-0.5 line-clamp-1 ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
+                            {result.snippet}
+                          </p>
+                        )}
+                      </div>
+                      {isSelected && (
+                        <CornerDownLeft size={14} className={`ml-2 mt-1 flex-shrink-0 ${isDark ? 'text-gray-500' : 'text-gray-400'}`} />
+                      )}
+                    </button>
+                  );
+                })
+              )}
+            </div>
+
+            {/* Footer */}
+            <div className={`flex items-center justify-between px-4 py-2 border-t text-xs ${
+              isDark ? 'border-gray-700 text-gray-500' : 'border-gray-200 text-gray-500'
+            }`}>
+              <span>↑↓ to navigate · Enter to open · Tab to filter · Esc to close</span>
+              {query.trim() && <span>{total} result{total === 1 ? '' : 's'}</span>}
+            </div>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+};
@@ -0,0 +1,228 @@
+import React, { useState, useEffect, useCallback, useRef, useId } from 'react';
+import { AlertTriangle, Code, Download, Image as ImageIcon, Loader } from 'lucide-react';
+import {
+  DIAGRAM_LANGUAGE_LABELS,
+  DiagramExportFormat,
+  DiagramLanguage,
+  buildMermaidDocument,
+  buildPlantUmlUrl,
+  encodePlantUml,
+  getDiagramFileName,
+  getSvgSize,
+  isDiagramMessage,
+  svgToDataUrl
+} from '../../lib/diagrams';
+import { MERMAID_SCRIPT_URL, PLANTUML_SERVER_URL } from '../../lib/diagramConfig';
+
+interface DiagramBlockProps {
+  language: DiagramLanguage;
+  source: string;
+  isDark: boolean;
+}
+
+// Wait for typing to pause before re-rendering in the editor's split view
+const RENDER_DELAY_MS = 400;
+const PNG_SCALE = 2;
+const MAX_CACHED_RENDERS = 50;
+
+interface DiagramRender {
+  svg: string | null;
+  errorMessage: string | null;
+}
+
+// Markdown previews remount their code blocks on every edit, so keep recent results
+const renderCache = new Map<string, DiagramRender>();
+
+const cacheRender = (key: string, render: DiagramRender) => {
+  renderCache.delete(key);
+  renderCache.set(key, render);
+  if (renderCache.size > MAX_CACHED_RENDERS) {
+    renderCache.delete(renderCache.keys().next().value as string);
+  }
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const svgToPngBlob = async (svg: string, background: string): Promise<Blob> => {
+  const { width, height } = getSvgSize(svg);
+  const image = new Image();
+  image.src = svgToDataUrl(svg);
+  await image.decode();
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width * PNG_SCALE;
+  canvas.height = height * PNG_SCALE;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not available');
+  context.fillStyle = background;
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not create PNG'))), 'image/png');
+  });
+};
+
+/**
+ * Renders a ```mermaid or ```plantuml fence as a diagram, with export and a source toggle
+ */
+export const DiagramBlock: React.FC<DiagramBlockProps> = ({ language, source, isDark }) => {
+  const renderId = useId();
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const theme = isDark ? 'dark' : 'light';
+  const [renderSource, setRenderSource] = useState(source);
+  const cacheKey = `${language}:${theme}:${renderSource}`;
+  const cached = renderCache.get(cacheKey);
+  const [svg, setSvg] = useState<string | null>(cached?.svg ?? null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(cached?.errorMessage ?? null);
+  const [showSource, setShowSource] = useState(false);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setRenderSource(source), RENDER_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [source]);
+
+  const applyRender = useCallback((key: string, render: DiagramRender) => {
+    cacheRender(key, render);
+    setSvg(render.svg);
+    setErrorMessage(render.errorMessage);
+  }, []);
+
+  useEffect(() => {
+    if (cached) {
+      setSvg(cached.svg);
+      setErrorMessage(cached.errorMessage);
+    }
+  }, [cached]);
+
+  // Mermaid posts its result from the sandboxed iframe
+  useEffect(() => {
+    if (language !== 'mermaid') return;
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== iframeRef.current?.contentWindow || !isDiagramMessage(event.data, renderId)) return;
+      applyRender(cacheKey, event.data.type === 'rendered'
+        ? { svg: event.data.svg, errorMessage: null }
+        : { svg: null, errorMessage: event.data.message });
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [language, renderId, cacheKey, applyRender]);
+
+  const isCached = cached !== undefined;
+  useEffect(() => {
+    if (language !== 'plantuml' || isCached) return;
+    let cancelled = false;
+
+    const render = async () => {
+      try {
+        const response = await fetch(buildPlantUmlUrl(await encodePlantUml(renderSource), 'svg', theme, PLANTUML_SERVER_URL));
+        const text = await response.text();
+        if (cancelled) return;
+        // The server answers syntax errors with an image describing the error
+        applyRender(cacheKey, {
+          svg: text,
+          errorMessage: response.ok ? null : `PlantUML could not render this diagram (${response.status})`
+        });
+      } catch (error) {
+        console.error('Error rendering PlantUML diagram:', error);
+        // Not cached, so the next render tries the server again
+        if (!cancelled) setErrorMessage('Could not reach the PlantUML server');
+      }
+    };
+
+    render();
+    return () => {
+      cancelled = true;
+    };
+  }, [language, cacheKey, isCached, renderSource, theme, applyRender]);
+
+  const loading = !cached && !errorMessage;
+
+  const handleExport = async (format: DiagramExportFormat) => {
+    if (!svg) return;
+    const fileName = getDiagramFileName(language, renderSource, format);
+    try {
+      if (format === 'svg') {
+        downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), fileName);
+      } else {
+        downloadBlob(await svgToPngBlob(svg, isDark ? '#0d1117' : '#ffffff'), fileName);
+      }
+    } catch (error) {
+      console.error('Error exporting diagram:', error);
+      setErrorMessage(`Could not export ${format.toUpperCase()}`);
+    }
+  };
+
+  const buttonClass = `flex items-center px-2 py-1 text-xs rounded transition-colors disabled:opacity-40 ${
+    isDark ? 'text-gray-400 hover:text-white hover:bg-gray-700' : 'text-gray-500 hover:text-gray-900 hover:bg-gray-200'
+  }`;
+
+  return (
+    <div
+      className="my-2 rounded-md border overflow-hidden not-prose"
+      style={{ borderColor: errorMessage ? '#ef4444' : (isDark ? '#30363d' : '#d0d7de'), background: isDark ? '#0d1117' : '#ffffff' }}
+    >
+      <div
+        className="flex items-center justify-between px-3 py-1.5 border-b"
+        style={{ borderColor: isDark ? '#30363d' : '#d0d7de', background: isDark ? '#161b22' : '#f6f8fa' }}
+      >
+        <span className={`flex items-center text-xs font-medium ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
+          {loading && <Loader size={12} className="mr-1.5 animate-spin" />}
+          {DIAGRAM_LANGUAGE_LABELS[language]}
+        </span>
+        <div className="flex items-center space-x-1">
+          <button onClick={() => setShowSource(prev => !prev)} className={buttonClass} title={showSource ? 'Show diagram' : 'Show source'}>
+            {showSource ? <ImageIcon size={12} className="mr-1" /> : <Code size={12} className="mr-1" />}
+            {showSource ? 'Diagram' : 'Source'}
+          </button>
+          <button onClick={() => handleExport('svg')} disabled={!svg || !!errorMessage} className={buttonClass} title="Download SVG">
+            <Download size={12} className="mr-1" />
+            SVG
+          </button>
+          <button onClick={() => handleExport('png')} disabled={!svg || !!errorMessage} className={buttonClass} title="Download PNG">
+            <Download size={12} className="mr-1" />
+            PNG
+          </button>
+        </div>
+      </div>
+
+      {errorMessage && (
+        <div className="flex items-start px-3 py-2 text-xs text-red-500 whitespace-pre-wrap font-mono">
+          <AlertTriangle size={14} className="mr-2 mt-0.5 flex-shrink-0" />
+          <span>{errorMessage}</span>
+        </div>
+      )}
+
+      {showSource || (errorMessage && language === 'mermaid') ? (
+        <pre className={`m-0 p-3 text-xs overflow-x-auto ${isDark ? 'text-gray-300' : 'text-gray-800'}`}>{source}</pre>
+      ) : svg ? (
+        <div className="p-3 overflow-x-auto">
+          <img src={svgToDataUrl(svg)} alt={`${DIAGRAM_LANGUAGE_LABELS[language]} diagram`} className="max-w-full h-auto mx-auto" />
+        </div>
+      ) : (
+        <div className={`p-6 text-center text-xs ${isDark ? 'text-gray-500' : 'text-gray-400'}`}>Rendering diagram...</div>
+      )}
+
+      {language === 'mermaid' && !cached && (
+        <iframe
+          ref={iframeRef}
+          title={`${DIAGRAM_LANGUAGE_LABELS[language]} renderer`}
+          sandbox="allow-scripts"
+          srcDoc={buildMermaidDocument(renderSource, theme, renderId, MERMAID_SCRIPT_URL)}
+          aria-hidden="true"
+          tabIndex={-1}
+          style={{ position: 'absolute', left: '-10000px', top: 0, width: '1200px', height: '800px', border: 0, visibility: 'hidden' }}
+        />
+      )}
+    </div>
+  );
+};
@@ -6,6 +6,9 @@ import { Code, Eye, Edit3, FileText, Settings, Copy, Check, Upload, Image as Ima
 import { useTheme } from '../../contexts/ThemeContext';
 import { useImageUpload, useDragAndDrop } from '../../hooks/useImageUpload';
 import { ImageModal } from './ImageModal';
+import { DiagramBlock } from './DiagramBlock';
+import { getDiagramLanguage } from '../../lib/diagrams';
+import { RENDERED_DIAGRAM_LANGUAGES } from '../../lib/diagramConfig';
 
 interface EnhancedEditorProps {
   content: string;
@@ -488,6 +491,14 @@ export const EnhancedEditor: React.FC<EnhancedEditorProps> = ({
 
         // Extract the actual code content
         const codeContent = extractTextContent(children);
+
+        // ```mermaid and ```plantuml fences render as diagrams
+        const diagramLanguage = React.isValidElement(children)
+          ? getDiagramLanguage((children.props as { className?: string }).className, RENDERED_DIAGRAM_LANGUAGES)
+          : null;
+        if (diagramLanguage) {
+          return <DiagramBlock language={diagramLanguage} source={codeContent.trim()} isDark={isDark} />;
+        }
         const lines = codeContent.trim().split('\n');
         
         // Check if this is copied code with line numbers and diff markers
@@ -610,9 +621,27 @@ export const EnhancedEditor: React.FC<EnhancedEditorProps> = ({
         // Split by lines to handle each line individually
         const lines = text.split('\n');
         let processedText = '';
+        // Diagram fences are kept verbatim: line breaks and escaped tags would break their syntax
+        const diagramFences: string[] = [];
+        let diagramFence: string | null = null;
         
         for (let i = 0; i < lines.length; i++) {
           const line = lines[i];
+          const fence = /^\s*(`{3,}|~{3,})\s*([\w-]*)/.exec(line);
+
+          if (diagramFence !== null) {
+            diagramFence += `${line}\n`;
+            if (fence && !fence[2]) {
+              processedText += `\uE000${diagramFences.length}\uE000\n`;
+              diagramFences.push(diagramFence);
+              diagramFence = null;
+            }
+            continue;
+          }
+          if (fence && getDiagramLanguage(fence[2], RENDERED_DIAGRAM_LANGUAGES)) {
+            diagramFence = `${line}\n`;
+            continue;
+          }
           
           if (line.trim() === '') {
             // Empty line - add a non-breaking space to preserve it
@@ -626,11 +655,17 @@ export const EnhancedEditor: React.FC<EnhancedEditorProps> = ({
           }
         }
         
+        // An unclosed diagram fence is still being typed; show it as text until it is closed
+        if (diagramFence !== null) {
+          processedText += diagramFence;
+        }
+        
         // Escape common problematic tags that React might interpret as components
         return processedText
           .replace(/<([a-zA-Z]+[a-zA-Z0-9]*)\b([^>]*)>/g, '&lt;$1$2&gt;')  // Opening tags
           .replace(/<\/([a-zA-Z]+[a-zA-Z0-9]*)>/g, '&lt;/$1&gt;')           // Closing tags
-          .replace(/<([a-zA-Z]+[a-zA-Z0-9]*)\s*\/>/g, '&lt;$1 /&gt;');      // Self-closing tags
+          .replace(/<([a-zA-Z]+[a-zA-Z0-9]*)\s*\/>/g, '&lt;$1 /&gt;')      // Self-closing tags
+          .replace(/\uE000(\d+)\uE000/g, (_, index: string) => `\n${diagramFences[Number(index)]}`);
       };
 
       return (
@@ -0,0 +1,58 @@
+import * as React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { CommandPalette } from '../CommandPalette';
+import { Project } from '../../../types';
+
+const mockGetSession = jest.fn();
+
+jest.mock('../../../lib/supabase', () => ({
+  supabase: {
+    auth: { getSession: () => mockGetSession() }
+  }
+}));
+
+jest.mock('../../../contexts/ThemeContext', () => ({
+  useTheme: () => ({ isDark: false })
+}));
+
+// Render motion elements as plain ones, without the animation props
+jest.mock('framer-motion', () => ({
+  motion: {
+    div: ({ children, className, style }: React.HTMLAttributes<HTMLDivElement>) =>
+      React.createElement('div', { className, style }, children)
+  },
+  AnimatePresence: ({ children }: { children: React.ReactNode }) => children
+}));
+
+const project = { id: 'project-1', name: 'RefBase' } as Project;
+
+describe('CommandPalette', () => {
+  beforeEach(() => {
+    mockGetSession.mockResolvedValue({ data: { session: { access_token: 'session-token' } } });
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({
+        success: true,
+        data: [{ type: 'bug', id: 'bug-1', projectId: 'project-1', title: 'Login redirect loop', snippet: 'OAuth callback keeps redirecting', score: 15 }],
+        facets: { conversation: 0, bug: 1, feature: 0, feature_file: 0, document: 0, task: 0 },
+        count: 1,
+        total: 1
+      })
+    }) as jest.Mock;
+  });
+
+  it('should find items on the server whose tab was never loaded', async () => {
+    render(<CommandPalette projects={[project]} activeProject={project} />);
+
+    fireEvent.keyDown(window, { key: 'k', ctrlKey: true });
+    fireEvent.change(screen.getByPlaceholderText(/Search sessions/), { target: { value: 'redirect' } });
+
+    expect(await screen.findByText('Login redirect loop')).toBeInTheDocument();
+    await waitFor(() => expect(global.fetch).toHaveBeenCalledTimes(1));
+    const [url, init] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(url).toBe('/api/search?q=redirect&projectId=project-1&limit=50');
+    expect(init.headers.Authorization).toBe('Bearer session-token');
+  });
+});
@@ -7,11 +7,13 @@ interface ApiKeyContextType {
   provider?: ApiProvider;
   customKey?: string;
   selectedModel?: string;
+  customBaseUrl?: string;
   availableModels: string[];
   setMode: (mode: ApiMode) => void;
   setProvider: (provider: ApiProvider) => void;
   setCustomKey: (key: string) => void;
   setSelectedModel: (model: string) => void;
+  setCustomBaseUrl: (baseUrl: string) => void;
   clearCustomKey: () => void;
   getActiveApiConfig: () => ApiConfig;
   isCustomKeyValid: boolean;
@@ -35,6 +37,7 @@ export const ApiKeyProvider: React.FC<{ children: React.ReactNode }> = ({ childr
   const [provider, setProviderState] = useState<ApiProvider>('openai');
   const [customKey, setCustomKeyState] = useState<string>('');
   const [selectedModel, setSelectedModelState] = useState<string>('');
+  const [customBaseUrl, setCustomBaseUrlState] = useState<string>('');
 
   // Computed values
   const isCustomKeyValid = apiKeyService.isCustomKeyValid(customKey, provider);
@@ -83,6 +86,11 @@ export const ApiKeyProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     setSelectedModelState(model);
   }, []);
 
+  // Set the endpoint used by the custom provider
+  const setCustomBaseUrl = useCallback((baseUrl: string) => {
+    setCustomBaseUrlState(baseUrl.trim());
+  }, []);
+
   // Clear custom key and switch to default
   const clearCustomKey = useCallback(() => {
     setCustomKeyState('');
@@ -92,8 +100,8 @@ export const ApiKeyProvider: React.FC<{ children: React.ReactNode }> = ({ childr
 
   // Get the active API configuration
   const getActiveApiConfig = useCallback((): ApiConfig => {
-    return apiKeyService.getApiConfig(mode, customKey, provider, selectedModel);
-  }, [mode, customKey, provider, selectedModel]);
+    return apiKeyService.getApiConfig(mode, customKey, provider, selectedModel, customBaseUrl);
+  }, [mode, customKey, provider, selectedModel, customBaseUrl]);
 
   // Session cleanup on unmount
   useEffect(() => {
@@ -130,11 +138,13 @@ export const ApiKeyProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     provider,
     customKey,
     selectedModel,
+    customBaseUrl,
     availableModels,
     setMode,
     setProvider,
     setCustomKey,
     setSelectedModel,
+    setCustomBaseUrl,
     clearCustomKey,
     getActiveApiConfig,
     isCustomKeyValid,
@@ -0,0 +1,68 @@
+/**
+ * Chat Unread Counts Hook
+ * Keeps the Sidebar's unread message and mention counts current for every chat the user is in
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Project } from '../types';
+import { RealtimeRowPayload } from '../services/realtimeSync';
+import { ChatUnreadCount, fetchChatUnreadCounts } from '../services/teamChatService';
+import { useRealtimeTable } from './useRealtimeStatus';
+
+// Realtime events often arrive in bursts (a message, then its notifications)
+const REFRESH_DELAY_MS = 300;
+
+/**
+ * Unread counts keyed by project id
+ * @param projects - Used to name the project in mention notifications
+ */
+export const useChatUnreadCounts = (projects: Project[]): Map<string, ChatUnreadCount> => {
+  const [counts, setCounts] = useState<Map<string, ChatUnreadCount>>(new Map());
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const projectsRef = useRef(projects);
+  projectsRef.current = projects;
+
+  const refresh = useCallback(async () => {
+    try {
+      const unread = await fetchChatUnreadCounts();
+      setCounts(new Map(unread.map(count => [count.projectId, count])));
+    } catch (error) {
+      console.error('Error loading unread chat counts:', error);
+    }
+  }, []);
+
+  const scheduleRefresh = useCallback(() => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = setTimeout(refresh, REFRESH_DELAY_MS);
+  }, [refresh]);
+
+  useEffect(() => {
+    refresh();
+    return () => {
+      if (timerRef.current) clearTimeout(timerRef.current);
+    };
+  }, [refresh]);
+
+  const projectIds = projects.map(project => project.id).join(',');
+  useEffect(() => {
+    // Joining or leaving a chat changes which counts exist
+    scheduleRefresh();
+  }, [projectIds, scheduleRefresh]);
+
+  useRealtimeTable('messages', scheduleRefresh);
+  // Reading a chat updates the member's last_read_at
+  useRealtimeTable('project_members', scheduleRefresh);
+  useRealtimeTable('chat_notifications', (payload: RealtimeRowPayload) => {
+    scheduleRefresh();
+
+    // RLS only delivers the user's own notifications
+    if (payload.eventType !== 'INSERT' || typeof Notification === 'undefined' || Notification.permission !== 'granted' || !document.hidden) {
+      return;
+    }
+    const notification = payload.new as { id: string; project_id: string };
+    const project = projectsRef.current.find(p => p.id === notification.project_id);
+    new Notification('New mention', { body: `You were mentioned in ${project?.name || 'a project'} chat` });
+  });
+
+  return counts;
+};
@@ -0,0 +1,150 @@
+/**
+ * Edit Conflicts Hook
+ * Saves an editor's content against the version it started from and merges in changes saved elsewhere
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { EditConflict, EditConflictError, EditVersion, mergeEdits } from '../lib/editConflicts';
+
+interface EditConflictsOptions {
+  itemId: string | undefined;
+  // The stored item, kept current by realtime sync
+  stored: EditVersion | undefined;
+  // What the editor holds now
+  content: string;
+  // Saves content; rejects with EditConflictError when expectedUpdatedAt is no longer the stored version
+  write: (content: string, expectedUpdatedAt?: Date) => Promise<Date>;
+  // Replaces what the editor holds
+  onContentChange: (content: string) => void;
+}
+
+/**
+ * Tracks the version an editor is based on. Saves that race another session's save are merged
+ * line by line; overlapping changes are returned as a conflict for the user to resolve.
+ * @param options - Latest values are always used
+ */
+export const useEditConflicts = (options: EditConflictsOptions) => {
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const baseRef = useRef<(EditVersion & { id: string }) | null>(null);
+  const [conflict, setConflict] = useState<EditConflict | null>(null);
+  // Another session saved while there are unsaved local edits
+  const [remoteChange, setRemoteChange] = useState(false);
+  const [merged, setMerged] = useState(false);
+
+  const { itemId, stored } = options;
+  const hasStored = !!stored;
+  const storedTime = stored?.updatedAt.getTime();
+  const storedContent = stored?.content;
+
+  const currentBase = () => {
+    const base = baseRef.current;
+    return base && base.id === optionsRef.current.itemId ? base : null;
+  };
+
+  // Start from the stored version whenever another item is opened
+  useEffect(() => {
+    if (!itemId) {
+      baseRef.current = null;
+      return;
+    }
+    const latest = optionsRef.current.stored;
+    if (baseRef.current?.id === itemId || !latest) return;
+    baseRef.current = { id: itemId, content: latest.content, updatedAt: latest.updatedAt };
+    setConflict(null);
+    setRemoteChange(false);
+    setMerged(false);
+  }, [itemId, hasStored]);
+
+  // Follow saves made elsewhere: take them over when there is nothing local to lose
+  useEffect(() => {
+    const { itemId: id, stored: latest, content, onContentChange } = optionsRef.current;
+    const base = currentBase();
+    if (!id || !latest || !base || latest.updatedAt.getTime() <= base.updatedAt.getTime()) return;
+
+    if (latest.content !== content && content === base.content) {
+      onContentChange(latest.content);
+    } else if (latest.content !== content) {
+      setRemoteChange(true);
+      return;
+    }
+    baseRef.current = { id, content: latest.content, updatedAt: latest.updatedAt };
+  }, [storedTime, storedContent]);
+
+  const saveFrom = useCallback(async (base: EditVersion | null, content: string): Promise<boolean> => {
+    const { itemId: id, write, onContentChange } = optionsRef.current;
+    if (!id) return false;
+
+    try {
+      const updatedAt = await write(content, base?.updatedAt);
+      baseRef.current = { id, content, updatedAt };
+      setRemoteChange(false);
+      return true;
+    } catch (error) {
+      if (!(error instanceof EditConflictError) || !base) throw error;
+
+      const theirs = error.current;
+      const result = mergeEdits(base.content, content, theirs.content);
+      if (result.conflicts > 0) {
+        setConflict({ base: base.content, mine: content, theirs: theirs.content, theirsUpdatedAt: theirs.updatedAt });
+        return false;
+      }
+      if (result.content !== content) {
+        onContentChange(result.content);
+        setMerged(true);
+      }
+      return saveFrom(theirs, result.content);
+    }
+  }, []);
+
+  /**
+   * Save the editor's content (or the given content). Resolves false when a conflict needs the user.
+   */
+  const save = useCallback(
+    (content: string = optionsRef.current.content) => saveFrom(currentBase(), content),
+    [saveFrom]
+  );
+
+  /**
+   * Save the content the user settled on for the open conflict
+   */
+  const resolveConflict = useCallback(async (content: string) => {
+    const open = conflict;
+    if (!open) return false;
+    setConflict(null);
+    optionsRef.current.onContentChange(content);
+    return saveFrom({ content: open.theirs, updatedAt: open.theirsUpdatedAt }, content);
+  }, [conflict, saveFrom]);
+
+  /**
+   * Merge a save made elsewhere into the unsaved local edits now, instead of on the next save
+   */
+  const mergeRemoteChange = useCallback(() => {
+    const { itemId: id, stored: latest, content, onContentChange } = optionsRef.current;
+    const base = currentBase();
+    setRemoteChange(false);
+    if (!id || !latest || !base) return;
+
+    const result = mergeEdits(base.content, content, latest.content);
+    if (result.conflicts > 0) {
+      setConflict({ base: base.content, mine: content, theirs: latest.content, theirsUpdatedAt: latest.updatedAt });
+      return;
+    }
+    onContentChange(result.content);
+    baseRef.current = { id, content: latest.content, updatedAt: latest.updatedAt };
+    setMerged(true);
+  }, []);
+
+  return {
+    save,
+    conflict,
+    resolveConflict,
+    // Leaves the local edits unsaved; the next save runs into the conflict again
+    dismissConflict: useCallback(() => setConflict(null), []),
+    remoteChange,
+    mergeRemoteChange,
+    merged,
+    dismissMerged: useCallback(() => setMerged(false), [])
+  };
+};
@@ -0,0 +1,55 @@
+/**
+ * Editing Presence Hook
+ * Shares who has a document or feature file open through a Supabase Realtime presence channel
+ */
+
+import { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+
+export interface ItemEditor {
+  userId: string;
+  name: string;
+  // When they opened the item
+  since: string;
+}
+
+/**
+ * Other people who have the item open right now
+ * @param itemKey - e.g. `document:<id>`; nothing is shared while it is undefined
+ */
+export const useEditingPresence = (itemKey: string | undefined): ItemEditor[] => {
+  const { user } = useAuth();
+  const [editors, setEditors] = useState<ItemEditor[]>([]);
+  const userId = user?.id;
+  const name = user?.user_metadata?.full_name || user?.email?.split('@')[0] || 'Teammate';
+
+  useEffect(() => {
+    setEditors([]);
+    if (!itemKey || !userId) return;
+
+    const channel = supabase.channel(`editing:${itemKey}`, {
+      config: { presence: { key: userId } }
+    });
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<ItemEditor>();
+        // One entry per person, however many tabs they have open
+        setEditors(Object.entries(state)
+          .filter(([key, entries]) => key !== userId && entries.length > 0)
+          .map(([, entries]) => entries[0]));
+      })
+      .subscribe(status => {
+        if (status === 'SUBSCRIBED') {
+          channel.track({ userId, name, since: new Date().toISOString() });
+        }
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [itemKey, userId, name]);
+
+  return editors;
+};
@@ -0,0 +1,37 @@
+/**
+ * Open Item Hook
+ * Subscribes a component to OPEN_ITEM navigation events (command palette, search results)
+ */
+
+import { useEffect, useRef } from 'react';
+import { NavigationEventBus, NAVIGATION_EVENTS } from '../lib/navigation/NavigationEventBus';
+import { NavigationDestination, OpenItemPayload } from '../lib/navigation/NavigationService';
+
+export type OpenItemHandler = (item: OpenItemPayload, destination: NavigationDestination) => void;
+
+/**
+ * Calls the handler whenever NavigationService opens an item
+ * @param handler - Receives the item and its destination; always the latest closure
+ * @param types - Item types to react to, or all types when omitted
+ */
+export const useOpenItem = (handler: OpenItemHandler, types?: string[]) => {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  const typesKey = types ? types.join(',') : '';
+
+  useEffect(() => {
+    const acceptedTypes = typesKey ? typesKey.split(',') : null;
+
+    return NavigationEventBus.getInstance().subscribe(NAVIGATION_EVENTS.OPEN_ITEM, (event) => {
+      const { destination, payload } = event.payload || {};
+      if (!destination || !payload) {
+        return;
+      }
+
+      if (!acceptedTypes || acceptedTypes.includes(payload.type)) {
+        handlerRef.current(payload, destination);
+      }
+    });
+  }, [typesKey]);
+};
@@ -176,6 +176,7 @@ export const useProjects = () => {
       projectId,
       author,
       content,
+      mentions: [],
       timestamp: new Date(),
     };
     const updated = [...messages, newMessage];
@@ -0,0 +1,31 @@
+/**
+ * Realtime Status Hook
+ * Subscribes a component to the state of the project data realtime channel
+ */
+
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+import {
+  RealtimeRowPayload,
+  RealtimeState,
+  getRealtimeState,
+  subscribeToRealtimeState,
+  subscribeToTableChanges
+} from '../services/realtimeSync';
+
+/**
+ * Current realtime connection state: status, last change received and last error
+ */
+export const useRealtimeStatus = (): RealtimeState =>
+  useSyncExternalStore(subscribeToRealtimeState, getRealtimeState);
+
+/**
+ * Calls the handler for every realtime change to a table
+ * @param table - One of REALTIME_TABLES
+ * @param handler - Receives the raw payload; always the latest closure
+ */
+export const useRealtimeTable = (table: string, handler: (payload: RealtimeRowPayload) => void) => {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => subscribeToTableChanges(table, payload => handlerRef.current(payload)), [table]);
+};
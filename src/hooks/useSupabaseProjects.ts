@@ -1,305 +1,230 @@
-import { useState, useEffect } from 'react';
+import { useCallback, useEffect, useMemo, useSyncExternalStore } from 'react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
-import { Project, Document, Task, Bug, Feature, FeatureData, FeatureFile, CalendarEvent, FileItem, ChatMessage } from '../types';
+import { Project, Document, Task, Bug, Feature, FeatureData, FeatureFile, ChatMessage } from '../types';
 import { v4 as uuidv4 } from 'uuid';
+import { uploadProjectFile, renameProjectFile, deleteProjectFile, deleteProjectStorage } from '../services/fileUpload';
+import { ImageUploadOptions } from '../services/imageUpload';
+import { fetchProjectPage } from '../services/projectDataService';
+import { startRealtimeSync, stopRealtimeSync } from '../services/realtimeSync';
+import {
+  CacheCollection,
+  CollectionPageState,
+  PROJECT_COLLECTIONS,
+  PageCursor,
+  ProjectCollection,
+  projectDataCache
+} from '../lib/projectDataCache';
+import { EditConflictError, updatedAtWindow } from '../lib/editConflicts';
 
 // Note: Removed event system that was causing race conditions
 
-export const useSupabaseProjects = () => {
-  const { user } = useAuth();
-  const [projects, setProjects] = useState<Project[]>([]);
-  const [documents, setDocuments] = useState<Document[]>([]);
-  const [tasks, setTasks] = useState<Task[]>([]);
-  const [features, setFeatures] = useState<Feature[]>([]);
-  const [featureData, setFeatureData] = useState<FeatureData[]>([]);
-  const [featureFiles, setFeatureFiles] = useState<FeatureFile[]>([]);
-  const [bugs, setBugs] = useState<Bug[]>([]);
-  const [events, setEvents] = useState<CalendarEvent[]>([]);
-  const [files, setFiles] = useState<FileItem[]>([]);
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [dataLoaded, setDataLoaded] = useState(false);
+const loadUserData = (userId: string, key: CacheCollection) => {
+  try {
+    const data = localStorage.getItem(`user_${userId}_${key}`);
+    return data ? JSON.parse(data) : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveToLocalStorage = (userId: string, key: CacheCollection, data: unknown) => {
+  localStorage.setItem(`user_${userId}_${key}`, JSON.stringify(data));
+};
+
+// The stored version after a save that expected an older one matched no row; null when the row is gone
+const findEditConflict = async (table: string, id: string) => {
+  const { data } = await supabase
+    .from(table)
+    .select('content, updated_at')
+    .eq('id', id)
+    .maybeSingle();
+
+  return data ? new EditConflictError({ content: data.content || '', updatedAt: new Date(data.updated_at) }) : null;
+};
+
+// Projects are loaded once per sign-in and shared by every hook instance
+const loadProjects = async (userId: string, force = false) => {
+  if (!force && projectDataCache.getProjectsStatus() !== 'idle') return;
+  projectDataCache.setProjectsStatus('loading');
+
+  try {
+    // RLS returns the user's own projects and the ones whose chat they were added to
+    const { data: projectsData, error: projectsError } = await supabase
+      .from('projects')
+      .select('*')
+      .order('created_at', { ascending: false });
 
-  // Note: Removed custom event system that was causing race conditions
-  // Will implement proper CRDT-based collaboration instead
+    if (projectDataCache.getOwner() !== userId) return;
 
-  // Load user's data from Supabase
-  useEffect(() => {
-    if (user && !dataLoaded) {
-      loadAllData();
-    } else if (!user) {
-      // Clear data when user logs out
-      setProjects([]);
-      setDocuments([]);
-      setTasks([]);
-      setFeatures([]);
-      setFeatureData([]);
-      setFeatureFiles([]);
-      setBugs([]);
-      setEvents([]);
-      setFiles([]);
-      setMessages([]);
-      setLoading(false);
-      setDataLoaded(false);
+    if (projectsError) {
+      console.error('Error loading projects:', projectsError);
+      // Fallback to localStorage for now
+      projectDataCache.replaceAll('projects', loadUserData(userId, 'projects'));
+      return;
     }
-  }, [user, dataLoaded]);
-
-  const loadAllData = async () => {
-    if (!user) return;
-    try {
-      setLoading(true);
-      
-      // Load projects
-      const { data: projectsData, error: projectsError } = await supabase
-        .from('projects')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false });
-
-      if (projectsError) {
-        console.error('Error loading projects:', projectsError);
-        // Fallback to localStorage for now
-        loadFromLocalStorage();
-        return;
-      }
 
-      const formattedProjects = projectsData?.map(p => ({
-        ...p,
-        createdAt: new Date(p.created_at),
-        updatedAt: new Date(p.updated_at)
-      })) || [];
-
-      setProjects(formattedProjects);
-
-      if (formattedProjects.length > 0) {
-        const projectIds = formattedProjects.map(p => p.id);
-
-        // Load all related data
-        await Promise.all([
-          loadDocuments(projectIds),
-          loadTasks(projectIds),
-          loadFeatures(projectIds),
-          loadFeatureData(projectIds),
-          loadBugs(projectIds),
-          loadEvents(projectIds),
-          loadMessages(projectIds),
-          loadFiles(projectIds)
-        ]);
-      }
-    } catch (error) {
-      console.error('Error loading data:', error);
-      // Fallback to localStorage
-      loadFromLocalStorage();
-    } finally {
-      setLoading(false);
-      setDataLoaded(true);
+    const formattedProjects = projectsData?.map(p => ({
+      ...p,
+      archivedAt: p.archived_at ? new Date(p.archived_at) : undefined,
+      userId: p.user_id,
+      createdAt: new Date(p.created_at),
+      updatedAt: new Date(p.updated_at)
+    })) || [];
+
+    projectDataCache.replaceAll('projects', formattedProjects);
+  } catch (error) {
+    console.error('Error loading projects:', error);
+    if (projectDataCache.getOwner() === userId) {
+      projectDataCache.replaceAll('projects', loadUserData(userId, 'projects'));
     }
-  };
-
-  const loadFromLocalStorage = () => {
-    // Fallback to localStorage with user-specific keys
-    const userKey = `user_${user?.id}`;
-    
-    const loadUserData = (key: string) => {
-      try {
-        const data = localStorage.getItem(`${userKey}_${key}`);
-        return data ? JSON.parse(data) : [];
-      } catch {
-        return [];
-      }
-    };
-
-    setProjects(loadUserData('projects'));
-    setDocuments(loadUserData('documents'));
-    setTasks(loadUserData('tasks'));
-    setFeatures(loadUserData('features'));
-    setFeatureData(loadUserData('featureData'));
-    setFeatureFiles(loadUserData('featureFiles'));
-    setBugs(loadUserData('bugs'));
-    setEvents(loadUserData('events'));
-    setFiles(loadUserData('files'));
-    setMessages(loadUserData('messages'));
-  };
-
-  const loadDocuments = async (projectIds: string[]) => {
-    const { data, error } = await supabase
-      .from('documents')
-      .select('*')
-      .in('project_id', projectIds)
-      .order('created_at', { ascending: false });
-
-    if (!error && data) {
-      const formattedDocs = data.map(d => ({
-        ...d,
-        projectId: d.project_id,
-        createdAt: new Date(d.created_at),
-        updatedAt: new Date(d.updated_at)
-      }));
-      setDocuments(formattedDocs);
+  } finally {
+    if (projectDataCache.getOwner() === userId) {
+      projectDataCache.setProjectsStatus('loaded');
     }
-  };
-
-  const loadTasks = async (projectIds: string[]) => {
-    const { data, error } = await supabase
-      .from('tasks')
-      .select('*')
-      .in('project_id', projectIds)
-      .order('created_at', { ascending: false });
-
-    if (!error && data) {
-      const formattedTasks = data.map(t => ({
-        ...t,
-        projectId: t.project_id,
-        featureId: t.feature_id || undefined,
-        bugId: t.bug_id || undefined,
-        dueDate: t.due_date ? new Date(t.due_date) : undefined,
-        createdAt: new Date(t.created_at),
-        updatedAt: new Date(t.updated_at)
-      }));
-      setTasks(formattedTasks);
+  }
+};
+
+// Load one page of a project's collection; without a cursor the first page replaces what is cached
+const loadPage = async (userId: string, projectId: string, collection: ProjectCollection, cursor: PageCursor | null) => {
+  if (projectDataCache.getPageState(projectId, collection).loading) return;
+  projectDataCache.setPageState(projectId, collection, { loading: true, error: null });
+
+  try {
+    const page = await fetchProjectPage(projectId, collection, cursor);
+    if (projectDataCache.getOwner() !== userId) return;
+
+    if (cursor) {
+      projectDataCache.upsert(collection, page.items);
+    } else {
+      projectDataCache.replaceProjectRecords(projectId, collection, page.items);
     }
-  };
-
-  const loadFeatures = async (projectIds: string[]) => {
-    const { data, error } = await supabase
-      .from('features')
-      .select('*')
-      .in('project_id', projectIds)
-      .order('created_at', { ascending: false });
-
-    if (!error && data) {
-      const formattedFeatures = data.map(f => ({
-        ...f,
-        projectId: f.project_id,
-        status: f.status || 'planned', // Default to 'planned' for features without status
-        createdAt: new Date(f.created_at),
-        updatedAt: new Date(f.updated_at)
-      }));
-      setFeatures(formattedFeatures);
+    projectDataCache.setPageState(projectId, collection, {
+      loaded: true,
+      loading: false,
+      hasMore: page.hasMore,
+      cursor: page.cursor
+    });
+  } catch (error) {
+    console.error(`Error loading ${collection}:`, error);
+    if (projectDataCache.getOwner() !== userId) return;
+
+    // Fallback to localStorage for the first page
+    if (!cursor) {
+      projectDataCache.replaceProjectRecords(
+        projectId,
+        collection,
+        loadUserData(userId, collection).filter((item: { projectId?: string }) => item.projectId === projectId)
+      );
     }
-  };
+    projectDataCache.setPageState(projectId, collection, {
+      loaded: true,
+      loading: false,
+      hasMore: false,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+};
+
+// Reload the first page of everything loaded so far
+const refreshLoadedPages = (userId: string) => Promise.all(
+  projectDataCache.getLoadedPages().map(({ projectId, collection }) =>
+    loadPage(userId, projectId, collection, null)
+  )
+);
+
+// Realtime echoes of a record are held back while a local write to it is in flight,
+// so an older server state never overwrites the local change (see ProjectDataCache.beginWrite)
+const trackWrites = <A extends unknown[], R>(
+  collection: ProjectCollection,
+  write: (id: string, ...args: A) => Promise<R>
+) => async (id: string, ...args: A): Promise<R> => {
+  projectDataCache.beginWrite(collection, id);
+  try {
+    return await write(id, ...args);
+  } finally {
+    projectDataCache.endWrite(collection, id);
+  }
+};
 
-  const loadFeatureData = async (projectIds: string[]) => {
-    const { data, error } = await supabase
-      .from('feature_data')
-      .select('*')
-      .in('project_id', projectIds)
-      .order('feature_id', { ascending: false })
-      .order('order', { ascending: true });
-
-    if (!error && data) {
-      const formattedData = data.map(fd => ({
-        ...fd,
-        featureId: fd.feature_id,
-        projectId: fd.project_id,
-        dataType: fd.data_type,
-        contentType: fd.content_type,
-        parentId: fd.parent_id,
-        fileSize: fd.file_size || 0,
-        tags: fd.tags || [],
-        metadata: fd.metadata || {},
-        settings: fd.settings || {},
-        createdAt: new Date(fd.created_at),
-        updatedAt: new Date(fd.updated_at),
-        accessedAt: new Date(fd.accessed_at),
-        createdBy: fd.created_by,
-        updatedBy: fd.updated_by
-      }));
-      setFeatureData(formattedData);
-      
-      // Filter info files for backward compatibility
-      const infoFiles = formattedData
-        .filter(fd => fd.dataType === 'info_file')
-        .map(fd => ({
-          ...fd,
-          type: fd.metadata?.fileType || 'custom'
-        })) as FeatureFile[];
-      setFeatureFiles(infoFiles);
-    }
-  };
+export const useSupabaseProjects = () => {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+
+  // Re-render whenever the shared cache changes; snapshots keep their identity until their collection changes
+  useSyncExternalStore(projectDataCache.subscribe, projectDataCache.getVersion);
+
+  const projects = projectDataCache.getAll('projects');
+  const documents = projectDataCache.getAll('documents');
+  const tasks = projectDataCache.getAll('tasks');
+  const features = projectDataCache.getAll('features');
+  const featureData = projectDataCache.getAll('featureData');
+  const bugs = projectDataCache.getAll('bugs');
+  const events = projectDataCache.getAll('events');
+  const files = projectDataCache.getAll('files');
+  const pagedMessages = projectDataCache.getAll('messages');
+  const loading = userId !== null && projectDataCache.getProjectsStatus() !== 'loaded';
+
+  // Info files are the feature data rows of type info_file
+  const featureFiles = useMemo(() => featureData
+    .filter(fd => fd.dataType === 'info_file')
+    .map(fd => ({
+      ...fd,
+      type: fd.metadata?.fileType || 'custom'
+    })) as FeatureFile[], [featureData]);
+
+  // Messages are paged newest first but shown oldest first
+  const messages = useMemo(() => [...pagedMessages].sort(
+    (a: ChatMessage, b: ChatMessage) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  ), [pagedMessages]);
 
-  const loadBugs = async (projectIds: string[]) => {
-    const { data, error } = await supabase
-      .from('bugs')
-      .select('*')
-      .in('project_id', projectIds)
-      .order('created_at', { ascending: false });
+  // Note: Removed custom event system that was causing race conditions
+  // Will implement proper CRDT-based collaboration instead
 
-    if (!error && data) {
-      const formattedBugs = data.map(b => ({
-        ...b,
-        projectId: b.project_id,
-        featureId: b.feature_id,
-        createdAt: new Date(b.created_at),
-        updatedAt: new Date(b.updated_at)
-      }));
-      setBugs(formattedBugs);
+  // Load the user's projects; project data is loaded lazily per project and tab
+  useEffect(() => {
+    if (projectDataCache.getOwner() !== userId) {
+      // Clear cached data when the user logs out or switches accounts
+      projectDataCache.reset(userId);
     }
-  };
-
-  const loadEvents = async (projectIds: string[]) => {
-    const { data, error } = await supabase
-      .from('calendar_events')
-      .select('*')
-      .in('project_id', projectIds)
-      .order('event_date', { ascending: true });
-
-    if (!error && data) {
-      const formattedEvents = data.map(e => ({
-        ...e,
-        projectId: e.project_id,
-        date: e.event_date,
-        startTime: e.start_time,
-        endTime: e.end_time,
-        eventType: e.event_type,
-        createdAt: new Date(e.created_at),
-        updatedAt: new Date(e.updated_at)
-      }));
-      setEvents(formattedEvents);
+    if (userId) {
+      loadProjects(userId);
+      startRealtimeSync(userId, { onResync: () => refreshLoadedPages(userId) });
+    } else {
+      stopRealtimeSync();
     }
+  }, [userId]);
+
+  /**
+   * Load the first page of each collection a project view needs, unless already loaded
+   */
+  const loadProjectData = useCallback(async (projectId: string, collections: readonly ProjectCollection[]) => {
+    if (!userId) return;
+    await Promise.all(collections
+      .filter(collection => !projectDataCache.getPageState(projectId, collection).loaded)
+      .map(collection => loadPage(userId, projectId, collection, null)));
+  }, [userId]);
+
+  /**
+   * Load the next page of a project's collection
+   */
+  const loadMore = async (projectId: string, collection: ProjectCollection) => {
+    if (!userId) return;
+    const state = projectDataCache.getPageState(projectId, collection);
+    if (!state.loaded || !state.hasMore) return;
+    await loadPage(userId, projectId, collection, state.cursor);
   };
 
-  const loadMessages = async (projectIds: string[]) => {
-    const { data, error } = await supabase
-      .from('messages')
-      .select('*')
-      .in('project_id', projectIds)
-      .order('timestamp', { ascending: true });
-
-    if (!error && data) {
-      const formattedMessages = data.map(m => ({
-        ...m,
-        projectId: m.project_id,
-        timestamp: new Date(m.timestamp)
-      }));
-      setMessages(formattedMessages);
-    }
-  };
+  const getPageState = (projectId: string, collection: ProjectCollection): CollectionPageState =>
+    projectDataCache.getPageState(projectId, collection);
 
-  const loadFiles = async (projectIds: string[]) => {
-    const { data, error } = await supabase
-      .from('files')
-      .select('*')
-      .in('project_id', projectIds)
-      .order('uploaded_at', { ascending: false });
-
-    if (!error && data) {
-      const formattedFiles = data.map(f => ({
-        ...f,
-        projectId: f.project_id,
-        size: f.size_bytes,
-        type: f.file_type,
-        uploadedAt: new Date(f.uploaded_at)
-      }));
-      setFiles(formattedFiles);
-    }
-  };
+  // True until the projects and the first page of each collection have loaded
+  const isProjectDataLoading = (projectId: string, collections: readonly ProjectCollection[]) =>
+    loading || collections.some(collection => !projectDataCache.getPageState(projectId, collection).loaded);
 
-  const saveToLocalStorage = (key: string, data: any) => {
+  const persist = (collection: CacheCollection) => {
     if (!user) return;
-    const userKey = `user_${user.id}`;
-    localStorage.setItem(`${userKey}_${key}`, JSON.stringify(data));
+    saveToLocalStorage(user.id, collection, projectDataCache.getAll(collection));
   };
 
   const createProject = async (name: string, description: string, icon: string, color: string) => {
@@ -331,22 +256,19 @@ export const useSupabaseProjects = () => {
       if (error) {
         console.error('Error creating project in Supabase:', error);
         // Fallback to localStorage
-        const updated = [...projects, newProject];
-        setProjects(updated);
-        saveToLocalStorage('projects', updated);
+        projectDataCache.upsert('projects', [newProject]);
+        persist('projects');
         return newProject;
       }
 
       // Success - update local state
-      const updated = [...projects, newProject];
-      setProjects(updated);
+      projectDataCache.upsert('projects', [newProject]);
       return newProject;
     } catch (error) {
       console.error('Error creating project:', error);
       // Fallback to localStorage
-      const updated = [...projects, newProject];
-      setProjects(updated);
-      saveToLocalStorage('projects', updated);
+      projectDataCache.upsert('projects', [newProject]);
+      persist('projects');
       return newProject;
     }
   };
@@ -376,17 +298,39 @@ export const useSupabaseProjects = () => {
     }
 
     // Always update local state
-    const updated = projects.map(p => 
-      p.id === id ? { ...p, ...updates, updatedAt: new Date() } : p
-    );
-    setProjects(updated);
-    saveToLocalStorage('projects', updated);
+    projectDataCache.update('projects', id, { ...updates, updatedAt: new Date() });
+    persist('projects');
   };
 
+  const setProjectArchived = async (id: string, archived: boolean) => {
+    if (!user) throw new Error('User not authenticated');
+
+    const archivedAt = archived ? new Date() : undefined;
+    const { error } = await supabase
+      .from('projects')
+      .update({ archived_at: archivedAt ? archivedAt.toISOString() : null, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error(`Error ${archived ? 'archiving' : 'restoring'} project:`, error);
+      throw new Error(`Failed to ${archived ? 'archive' : 'restore'} project: ${error.message}`);
+    }
+
+    projectDataCache.update('projects', id, { archivedAt, updatedAt: new Date() });
+    persist('projects');
+  };
+
+  const archiveProject = (id: string) => setProjectArchived(id, true);
+  const restoreProject = (id: string) => setProjectArchived(id, false);
+
   const deleteProject = async (id: string) => {
     if (!user) throw new Error('User not authenticated');
 
     try {
+      // Stored objects outlive the rows, and storage policies only reach them while the project exists
+      await deleteProjectStorage(id);
+
       // Try to delete from Supabase
       const { error } = await supabase
         .from('projects')
@@ -401,45 +345,20 @@ export const useSupabaseProjects = () => {
       console.error('Error deleting project:', error);
     }
 
-    // Always update local state
-    const updated = projects.filter(p => p.id !== id);
-    setProjects(updated);
-    saveToLocalStorage('projects', updated);
-    
-    // Clean up related data
-    const updatedDocs = documents.filter(d => d.projectId !== id);
-    const updatedTasks = tasks.filter(t => t.projectId !== id);
-    const updatedFeatures = features.filter(f => f.projectId !== id);
-    const updatedBugs = bugs.filter(b => b.projectId !== id);
-    const updatedEvents = events.filter(e => e.projectId !== id);
-    const updatedFiles = files.filter(f => f.projectId !== id);
-    const updatedMessages = messages.filter(m => m.projectId !== id);
-
-    setDocuments(updatedDocs);
-    setTasks(updatedTasks);
-    setFeatures(updatedFeatures);
-    setBugs(updatedBugs);
-    setEvents(updatedEvents);
-    setFiles(updatedFiles);
-    setMessages(updatedMessages);
-
-    saveToLocalStorage('documents', updatedDocs);
-    saveToLocalStorage('tasks', updatedTasks);
-    saveToLocalStorage('features', updatedFeatures);
-    saveToLocalStorage('bugs', updatedBugs);
-    saveToLocalStorage('events', updatedEvents);
-    saveToLocalStorage('files', updatedFiles);
-    saveToLocalStorage('messages', updatedMessages);
+    // Always update local state, cleaning up related data too
+    projectDataCache.removeProject(id);
+    persist('projects');
+    PROJECT_COLLECTIONS.forEach(collection => persist(collection));
   };
 
-  const createDocument = async (projectId: string, title: string, type: Document['type']) => {
+  const createDocument = async (projectId: string, title: string, type: Document['type'], content = '') => {
     if (!user) throw new Error('User not authenticated');
 
     const newDoc: Document = {
       id: uuidv4(),
       projectId,
       title,
-      content: '',
+      content,
       type,
       createdAt: new Date(),
       updatedAt: new Date(),
@@ -465,18 +384,22 @@ export const useSupabaseProjects = () => {
     }
 
     // Always update local state
-    const updated = [...documents, newDoc];
-    setDocuments(updated);
-    saveToLocalStorage('documents', updated);
+    projectDataCache.upsert('documents', [newDoc]);
+    persist('documents');
     return newDoc;
   };
 
-  const updateDocument = async (id: string, updates: Partial<Document>) => {
+  /**
+   * Save document changes. With expectedUpdatedAt, the save only goes through while the stored
+   * document is still that version and throws EditConflictError otherwise. Returns the new updatedAt.
+   */
+  const updateDocument = async (id: string, updates: Partial<Document>, expectedUpdatedAt?: Date) => {
     if (!user) throw new Error('User not authenticated');
 
+    let updatedAt = new Date();
     try {
       // Try to update in Supabase
-      const { error } = await supabase
+      let query = supabase
         .from('documents')
         .update({
           title: updates.title,
@@ -486,19 +409,30 @@ export const useSupabaseProjects = () => {
         })
         .eq('id', id);
 
+      if (expectedUpdatedAt) {
+        const { from, to } = updatedAtWindow(expectedUpdatedAt);
+        query = query.gte('updated_at', from).lt('updated_at', to);
+      }
+
+      const { data, error } = await query.select('updated_at');
+
       if (error) {
         console.error('Error updating document in Supabase:', error);
+      } else if (data.length > 0) {
+        updatedAt = new Date(data[0].updated_at);
+      } else if (expectedUpdatedAt) {
+        const conflict = await findEditConflict('documents', id);
+        if (conflict) throw conflict;
       }
     } catch (error) {
+      if (error instanceof EditConflictError) throw error;
       console.error('Error updating document:', error);
     }
 
     // Always update local state
-    const updated = documents.map(d => 
-      d.id === id ? { ...d, ...updates, updatedAt: new Date() } : d
-    );
-    setDocuments(updated);
-    saveToLocalStorage('documents', updated);
+    projectDataCache.update('documents', id, { ...updates, updatedAt });
+    persist('documents');
+    return updatedAt;
   };
 
   const deleteDocument = async (id: string) => {
@@ -519,9 +453,8 @@ export const useSupabaseProjects = () => {
     }
 
     // Always update local state
-    const updated = documents.filter(d => d.id !== id);
-    setDocuments(updated);
-    saveToLocalStorage('documents', updated);
+    projectDataCache.remove('documents', d => d.id === id);
+    persist('documents');
   };
 
   const createFeature = async (projectId: string, title: string, type: Feature['type']) => {
@@ -559,9 +492,8 @@ export const useSupabaseProjects = () => {
     }
 
     // Always update local state
-    const updated = [...features, newFeature];
-    setFeatures(updated);
-    saveToLocalStorage('features', updated);
+    projectDataCache.upsert('features', [newFeature]);
+    persist('features');
     return newFeature;
   };
 
@@ -589,11 +521,8 @@ export const useSupabaseProjects = () => {
     }
 
     // Always update local state
-    const updated = features.map(f => 
-      f.id === id ? { ...f, ...updates, updatedAt: new Date() } : f
-    );
-    setFeatures(updated);
-    saveToLocalStorage('features', updated);
+    projectDataCache.update('features', id, { ...updates, updatedAt: new Date() });
+    persist('features');
   };
 
   const deleteFeature = async (id: string) => {
@@ -633,37 +562,29 @@ export const useSupabaseProjects = () => {
     }
 
     // Always update local state
-    const updated = features.filter(f => f.id !== id);
-    setFeatures(updated);
-    saveToLocalStorage('features', updated);
+    projectDataCache.remove('features', f => f.id === id);
+    persist('features');
 
     // Also delete related feature data
-    const updatedData = featureData.filter(fd => fd.featureId !== id);
-    setFeatureData(updatedData);
-    saveToLocalStorage('featureData', updatedData);
-    
-    const updatedFiles = featureFiles.filter(ff => ff.featureId !== id);
-    setFeatureFiles(updatedFiles);
-    saveToLocalStorage('featureFiles', updatedFiles);
+    projectDataCache.remove('featureData', fd => fd.featureId === id);
+    persist('featureData');
 
     // Delete related tasks and bugs
-    const updatedTasks = tasks.filter(t => t.featureId !== id);
-    setTasks(updatedTasks);
-    saveToLocalStorage('tasks', updatedTasks);
+    projectDataCache.remove('tasks', t => t.featureId === id);
+    persist('tasks');
 
-    const updatedBugs = bugs.filter(b => b.featureId !== id);
-    setBugs(updatedBugs);
-    saveToLocalStorage('bugs', updatedBugs);
+    projectDataCache.remove('bugs', b => b.featureId === id);
+    persist('bugs');
   };
 
-  const createFeatureFile = async (featureId: string, name: string, type: FeatureFile['type'], existingFeature?: Feature) => {
+  const createFeatureFile = async (featureId: string, name: string, type: FeatureFile['type'], existingFeature?: Feature, content = '') => {
     if (!user) throw new Error('User not authenticated');
 
-    const feature = existingFeature || features.find(f => f.id === featureId);
+    const feature = existingFeature || projectDataCache.get('features', featureId);
     if (!feature) throw new Error('Feature not found');
 
     // Find the highest order number for this feature's info files
-    const existingFiles = featureData.filter(fd => fd.featureId === featureId && fd.dataType === 'info_file');
+    const existingFiles = projectDataCache.getAll('featureData').filter(fd => fd.featureId === featureId && fd.dataType === 'info_file');
     const maxOrder = existingFiles.length > 0 ? Math.max(...existingFiles.map(ff => ff.order)) : 0;
 
     const newData: FeatureData = {
@@ -672,10 +593,10 @@ export const useSupabaseProjects = () => {
       projectId: feature.projectId,
       dataType: 'info_file',
       name,
-      content: '',
+      content,
       contentType: 'markdown',
       order: maxOrder + 1,
-      fileSize: 0,
+      fileSize: new Blob([content]).size,
       tags: [],
       status: 'active',
       priority: 'medium',
@@ -705,7 +626,7 @@ export const useSupabaseProjects = () => {
           content: newData.content,
           content_type: 'markdown',
           order: newData.order,
-          file_size: 0,
+          file_size: newData.fileSize,
           tags: [],
           status: 'active',
           priority: 'medium',
@@ -720,25 +641,20 @@ export const useSupabaseProjects = () => {
       console.error('Error creating feature file:', error);
     }
 
-    // Update local state using functional setState to avoid race conditions
-    setFeatureData(prevData => {
-      const updatedData = [...prevData, newData];
-      saveToLocalStorage('featureData', updatedData);
-      return updatedData;
-    });
-    
-    setFeatureFiles(prevFiles => {
-      const updatedFiles = [...prevFiles, newFile];
-      saveToLocalStorage('featureFiles', updatedFiles);
-      return updatedFiles;
-    });
+    // Info files are derived from feature data, so one insert updates both
+    projectDataCache.upsert('featureData', [newData]);
+    persist('featureData');
     
     return newFile;
   };
 
-  const updateFeatureFile = async (id: string, updates: Partial<FeatureFile>) => {
+  /**
+   * Save feature file changes, checking expectedUpdatedAt like updateDocument. Returns the new updatedAt.
+   */
+  const updateFeatureFile = async (id: string, updates: Partial<FeatureFile>, expectedUpdatedAt?: Date) => {
     if (!user) throw new Error('User not authenticated');
 
+    let updatedAt = new Date();
     try {
       // Prepare updates for the new table structure
       const dbUpdates: any = {};
@@ -749,30 +665,40 @@ export const useSupabaseProjects = () => {
       if (updates.type) dbUpdates.metadata = { fileType: updates.type };
       
       // Update in Supabase
-      const { error } = await supabase
+      let query = supabase
         .from('feature_data')
         .update(dbUpdates)
         .eq('id', id);
 
+      if (expectedUpdatedAt) {
+        const { from, to } = updatedAtWindow(expectedUpdatedAt);
+        query = query.gte('updated_at', from).lt('updated_at', to);
+      }
+
+      const { data, error } = await query.select('updated_at');
+
       if (error) {
         console.error('Error updating feature file in Supabase:', error);
+      } else if (data.length > 0) {
+        updatedAt = new Date(data[0].updated_at);
+      } else if (expectedUpdatedAt) {
+        const conflict = await findEditConflict('feature_data', id);
+        if (conflict) throw conflict;
       }
     } catch (error) {
+      if (error instanceof EditConflictError) throw error;
       console.error('Error updating feature file:', error);
     }
 
     // Update local state
-    const updatedData = featureData.map(fd => 
-      fd.id === id ? { ...fd, ...updates, updatedAt: new Date() } : fd
-    );
-    setFeatureData(updatedData);
-    saveToLocalStorage('featureData', updatedData);
-    
-    const updatedFiles = featureFiles.map(ff => 
-      ff.id === id ? { ...ff, ...updates, updatedAt: new Date() } : ff
-    );
-    setFeatureFiles(updatedFiles);
-    saveToLocalStorage('featureFiles', updatedFiles);
+    const existing = projectDataCache.get('featureData', id);
+    projectDataCache.update('featureData', id, {
+      ...updates,
+      ...(updates.type && existing ? { metadata: { ...existing.metadata, fileType: updates.type } } : {}),
+      updatedAt
+    });
+    persist('featureData');
+    return updatedAt;
   };
 
   const deleteFeatureFile = async (id: string) => {
@@ -793,13 +719,83 @@ export const useSupabaseProjects = () => {
     }
 
     // Update local state
-    const updatedData = featureData.filter(fd => fd.id !== id);
-    setFeatureData(updatedData);
-    saveToLocalStorage('featureData', updatedData);
-    
-    const updatedFiles = featureFiles.filter(ff => ff.id !== id);
-    setFeatureFiles(updatedFiles);
-    saveToLocalStorage('featureFiles', updatedFiles);
+    projectDataCache.remove('featureData', fd => fd.id === id);
+    persist('featureData');
+  };
+
+  // A feature has one ai_summary row; regenerating replaces its content
+  const saveFeatureSummary = async (featureId: string, content: string, metadata: Record<string, unknown>) => {
+    if (!user) throw new Error('User not authenticated');
+
+    const feature = projectDataCache.get('features', featureId);
+    if (!feature) throw new Error('Feature not found');
+
+    const existing = projectDataCache.getAll('featureData').find(fd => fd.featureId === featureId && fd.dataType === 'ai_summary');
+    const fileSize = new Blob([content]).size;
+
+    if (existing) {
+      const { error } = await supabase
+        .from('feature_data')
+        .update({ content, file_size: fileSize, metadata })
+        .eq('id', existing.id);
+
+      if (error) {
+        console.error('Error updating feature summary in Supabase:', error);
+        throw new Error(`Failed to save summary: ${error.message}`);
+      }
+
+      projectDataCache.update('featureData', existing.id, { content, fileSize, metadata, updatedAt: new Date() });
+      persist('featureData');
+      return { ...existing, content, fileSize, metadata };
+    }
+
+    const newData: FeatureData = {
+      id: uuidv4(),
+      featureId,
+      projectId: feature.projectId,
+      dataType: 'ai_summary',
+      name: 'AI Summary',
+      content,
+      contentType: 'markdown',
+      order: 0,
+      fileSize,
+      tags: [],
+      status: 'active',
+      priority: 'medium',
+      metadata,
+      settings: {},
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      accessedAt: new Date(),
+    };
+
+    const { error } = await supabase
+      .from('feature_data')
+      .insert([{
+        id: newData.id,
+        feature_id: featureId,
+        project_id: feature.projectId,
+        data_type: 'ai_summary',
+        name: newData.name,
+        content,
+        content_type: 'markdown',
+        order: 0,
+        file_size: fileSize,
+        tags: [],
+        status: 'active',
+        priority: 'medium',
+        metadata,
+        settings: {}
+      }]);
+
+    if (error) {
+      console.error('Error creating feature summary in Supabase:', error);
+      throw new Error(`Failed to save summary: ${error.message}`);
+    }
+
+    projectDataCache.upsert('featureData', [newData]);
+    persist('featureData');
+    return newData;
   };
 
   const createTask = async (projectId: string, title: string, description: string, priority: Task['priority'] = 'medium', status: Task['status'] = 'todo', featureId?: string, bugId?: string) => {
@@ -842,9 +838,8 @@ export const useSupabaseProjects = () => {
     }
 
     // Always update local state
-    const updated = [...tasks, newTask];
-    setTasks(updated);
-    saveToLocalStorage('tasks', updated);
+    projectDataCache.upsert('tasks', [newTask]);
+    persist('tasks');
     return newTask;
   };
 
@@ -873,11 +868,8 @@ export const useSupabaseProjects = () => {
     }
 
     // Always update local state
-    const updated = tasks.map(t => 
-      t.id === id ? { ...t, ...updates, updatedAt: new Date() } : t
-    );
-    setTasks(updated);
-    saveToLocalStorage('tasks', updated);
+    projectDataCache.update('tasks', id, { ...updates, updatedAt: new Date() });
+    persist('tasks');
   };
 
   const deleteTask = async (id: string) => {
@@ -898,9 +890,8 @@ export const useSupabaseProjects = () => {
     }
 
     // Always update local state
-    const updated = tasks.filter(t => t.id !== id);
-    setTasks(updated);
-    saveToLocalStorage('tasks', updated);
+    projectDataCache.remove('tasks', t => t.id === id);
+    persist('tasks');
   };
 
   const createBug = async (projectId: string, title: string, type: Bug['type'], featureId?: string | null) => {
@@ -951,9 +942,8 @@ export const useSupabaseProjects = () => {
     }
 
     // Always update local state first
-    const updated = [...bugs, newBug];
-    setBugs(updated);
-    saveToLocalStorage('bugs', updated);
+    projectDataCache.upsert('bugs', [newBug]);
+    persist('bugs');
     
     // Note: Removed event emission - will use proper collaboration instead
     
@@ -976,7 +966,8 @@ export const useSupabaseProjects = () => {
           status: updates.status,
           severity: updates.severity,
           assignee: updates.assignee,
-          attachments: updates.attachments
+          attachments: updates.attachments,
+          analysis: updates.analysis
         })
         .eq('id', id);
 
@@ -988,11 +979,8 @@ export const useSupabaseProjects = () => {
     }
 
     // Always update local state
-    const updated = bugs.map(b => 
-      b.id === id ? { ...b, ...updates, updatedAt: new Date() } : b
-    );
-    setBugs(updated);
-    saveToLocalStorage('bugs', updated);
+    projectDataCache.update('bugs', id, { ...updates, updatedAt: new Date() });
+    persist('bugs');
     
     // Note: Removed event emission - will use proper collaboration instead
   };
@@ -1015,54 +1003,122 @@ export const useSupabaseProjects = () => {
     }
 
     // Always update local state
-    const updated = bugs.filter(b => b.id !== id);
-    setBugs(updated);
-    saveToLocalStorage('bugs', updated);
+    projectDataCache.remove('bugs', b => b.id === id);
+    persist('bugs');
     
     // Note: Removed event emission - will use proper collaboration instead
   };
 
-  const addMessage = async (projectId: string, author: string, content: string) => {
+  const uploadFile = async (projectId: string, file: File, options: ImageUploadOptions = {}) => {
+    if (!user) throw new Error('User not authenticated');
+
+    // Upload errors (quota, size, network) are surfaced to the caller
+    const newFile = await uploadProjectFile(file, projectId, options);
+
+    projectDataCache.upsert('files', [newFile], 'start');
+    persist('files');
+    return newFile;
+  };
+
+  const renameFile = async (id: string, name: string) => {
+    if (!user) throw new Error('User not authenticated');
+
+    await renameProjectFile(id, name);
+
+    projectDataCache.update('files', id, { name });
+    persist('files');
+  };
+
+  const deleteFile = async (id: string) => {
+    if (!user) throw new Error('User not authenticated');
+
+    const file = projectDataCache.get('files', id);
+    if (file) {
+      await deleteProjectFile(file);
+    }
+
+    projectDataCache.remove('files', f => f.id === id);
+    persist('files');
+  };
+
+  const addMessage = async (projectId: string, content: string, options: { parentId?: string | null; mentions?: string[] } = {}) => {
     if (!user) throw new Error('User not authenticated');
 
     const newMessage: ChatMessage = {
       id: uuidv4(),
       projectId,
-      author,
+      userId: user.id,
+      author: user.user_metadata?.full_name || user.email?.split('@')[0] || 'You',
       content,
+      parentId: options.parentId || null,
+      mentions: options.mentions || [],
       timestamp: new Date(),
     };
 
-    try {
-      // Try to save to Supabase
-      const { error } = await supabase
-        .from('messages')
-        .insert([{
-          id: newMessage.id,
-          project_id: projectId,
-          author: newMessage.author,
-          content: newMessage.content
-        }]);
-
-      if (error) {
-        console.error('Error creating message in Supabase:', error);
-      }
-    } catch (error) {
-      console.error('Error creating message:', error);
+    // Send errors (not a member any more, network) are surfaced to the caller
+    const { error } = await supabase
+      .from('messages')
+      .insert([{
+        id: newMessage.id,
+        project_id: projectId,
+        user_id: newMessage.userId,
+        author: newMessage.author,
+        content: newMessage.content,
+        parent_id: newMessage.parentId,
+        mentions: newMessage.mentions
+      }]);
+
+    if (error) {
+      throw new Error(`Failed to send message: ${error.message}`);
     }
 
-    // Always update local state
-    const updated = [...messages, newMessage];
-    setMessages(updated);
-    saveToLocalStorage('messages', updated);
+    projectDataCache.upsert('messages', [newMessage]);
+    persist('messages');
     return newMessage;
   };
 
-  // Simple refresh - just reload all data when needed
+  const updateMessage = async (id: string, content: string, mentions: string[]) => {
+    if (!user) throw new Error('User not authenticated');
+
+    const editedAt = new Date();
+    const { error } = await supabase
+      .from('messages')
+      .update({ content, mentions, edited_at: editedAt.toISOString() })
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`Failed to edit message: ${error.message}`);
+    }
+
+    projectDataCache.update('messages', id, { content, mentions, editedAt });
+    persist('messages');
+  };
+
+  // Deleted messages keep their row, without content, so their replies stay in the thread
+  const deleteMessage = async (id: string) => {
+    if (!user) throw new Error('User not authenticated');
+
+    const deletedAt = new Date();
+    const { error } = await supabase
+      .from('messages')
+      .update({ content: '', mentions: [], deleted_at: deletedAt.toISOString() })
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`Failed to delete message: ${error.message}`);
+    }
+
+    projectDataCache.update('messages', id, { content: '', mentions: [], deletedAt });
+    persist('messages');
+  };
+
+  // Reload the projects and the first page of everything loaded so far
   const refreshData = async () => {
-    if (!user) return;
-    setDataLoaded(false);
-    await loadAllData();
+    if (!userId) return;
+    await Promise.all([
+      loadProjects(userId, true),
+      refreshLoadedPages(userId)
+    ]);
   };
 
   // Periodic background refresh to keep data in sync (only when idle)
@@ -1096,22 +1152,34 @@ export const useSupabaseProjects = () => {
     createProject,
     updateProject,
     deleteProject,
+    archiveProject,
+    restoreProject,
     createDocument,
-    updateDocument,
-    deleteDocument,
+    updateDocument: trackWrites('documents', updateDocument),
+    deleteDocument: trackWrites('documents', deleteDocument),
     createFeature,
-    updateFeature,
-    deleteFeature,
+    updateFeature: trackWrites('features', updateFeature),
+    deleteFeature: trackWrites('features', deleteFeature),
     createFeatureFile,
-    updateFeatureFile,
-    deleteFeatureFile,
+    updateFeatureFile: trackWrites('featureData', updateFeatureFile),
+    deleteFeatureFile: trackWrites('featureData', deleteFeatureFile),
+    saveFeatureSummary,
     createTask,
-    updateTask,
-    deleteTask,
+    updateTask: trackWrites('tasks', updateTask),
+    deleteTask: trackWrites('tasks', deleteTask),
     createBug,
-    updateBug,
-    deleteBug,
+    updateBug: trackWrites('bugs', updateBug),
+    deleteBug: trackWrites('bugs', deleteBug),
+    uploadFile,
+    renameFile,
+    deleteFile,
     addMessage,
+    updateMessage: trackWrites('messages', updateMessage),
+    deleteMessage: trackWrites('messages', deleteMessage),
     refreshData,
+    loadProjectData,
+    loadMore,
+    getPageState,
+    isProjectDataLoading,
   };
 };
\ No newline at end of file
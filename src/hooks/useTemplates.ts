@@ -0,0 +1,33 @@
+/**
+ * Templates Hook
+ * Loads the user's templates for the create dialogs and the template manager
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { Template } from '../lib/templates';
+import { fetchTemplates } from '../services/templateService';
+
+/**
+ * The user's own templates available in a project (built-ins are added by getTemplatesFor)
+ */
+export const useTemplates = (projectId: string) => {
+  const [templates, setTemplates] = useState<Template[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    try {
+      setTemplates(await fetchTemplates(projectId));
+    } catch (error) {
+      console.error('Error loading templates:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    setLoading(true);
+    reload();
+  }, [reload]);
+
+  return { templates, loading, reload };
+};
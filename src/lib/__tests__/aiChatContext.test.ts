@@ -0,0 +1,66 @@
+import {
+  AiChatContextSource,
+  buildAiChatPrompt,
+  extractQuestionTerms,
+  getThreadTitle,
+  retrieveChatContext
+} from '../aiChatContext';
+
+const source = (overrides: Partial<AiChatContextSource>): AiChatContextSource => ({
+  type: 'bug',
+  id: 'bug-1',
+  projectId: 'project-1',
+  title: 'Untitled',
+  fields: [],
+  body: '',
+  ...overrides
+});
+
+const sources = [
+  source({ id: 'bug-1', title: 'Login crashes on refresh', fields: [{ text: 'Session token is undefined', weight: 4 }], body: 'Status: open' }),
+  source({ type: 'feature', id: 'feature-1', title: 'Dark mode', fields: [{ text: 'Theme toggle in the header', weight: 2 }], body: 'Status: planned' }),
+  source({ type: 'conversation', id: 'conv-1', title: 'Fix session refresh', fields: [{ text: 'Await the auth listener before reading the session', weight: 4 }], body: 'x'.repeat(2000) })
+];
+
+describe('aiChatContext', () => {
+  it('should drop question words from the search terms', () => {
+    expect(extractQuestionTerms('Why does the login crash after a session refresh?')).toEqual(['login', 'crash', 'after', 'session', 'refresh']);
+  });
+
+  it('should rank items matching more of the question first', () => {
+    const context = retrieveChatContext('Why does login crash when the session refreshes?', sources);
+
+    expect(context.map(item => item.id)).toEqual(['bug-1', 'conv-1']);
+    expect(context[1].body).toHaveLength(1501);
+  });
+
+  it('should return nothing for questions without search terms', () => {
+    expect(retrieveChatContext('What is this?', sources)).toEqual([]);
+  });
+
+  it('should put the context in the system prompt and keep the thread', () => {
+    const messages = buildAiChatPrompt(
+      { name: 'RefBase', description: 'Knowledge base' },
+      'And the fix?',
+      retrieveChatContext('login session', sources),
+      [
+        { id: '1', role: 'user', content: 'Why does login crash?', createdAt: '' },
+        { id: '2', role: 'assistant', content: '', createdAt: '', error: 'AI request failed' },
+        { id: '3', role: 'assistant', content: 'The session is read too early.', createdAt: '' }
+      ]
+    );
+
+    expect(messages[0].content).toContain('"RefBase" (Knowledge base)');
+    expect(messages[0].content).toContain('### Bug: Login crashes on refresh [bug:bug-1]');
+    expect(messages.slice(1)).toEqual([
+      { role: 'user', content: 'Why does login crash?' },
+      { role: 'assistant', content: 'The session is read too early.' },
+      { role: 'user', content: 'And the fix?' }
+    ]);
+  });
+
+  it('should title threads after the first question', () => {
+    expect(getThreadTitle('  How   do we deploy? ')).toBe('How do we deploy?');
+    expect(getThreadTitle('a'.repeat(100))).toHaveLength(60);
+  });
+});
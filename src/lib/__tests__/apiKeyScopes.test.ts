@@ -0,0 +1,78 @@
+import {
+  checkApiKeyAccess,
+  getRequiredPermission,
+  validateApiKeyGrant
+} from '../apiKeyScopes';
+
+describe('apiKeyScopes', () => {
+  describe('getRequiredPermission', () => {
+    it('should require read for safe methods', () => {
+      expect(getRequiredPermission('GET')).toBe('read');
+      expect(getRequiredPermission('head')).toBe('read');
+    });
+
+    it('should require write for mutating methods', () => {
+      expect(getRequiredPermission('POST')).toBe('write');
+      expect(getRequiredPermission('PUT')).toBe('write');
+      expect(getRequiredPermission('PATCH')).toBe('write');
+      expect(getRequiredPermission('DELETE')).toBe('write');
+    });
+  });
+
+  describe('checkApiKeyAccess', () => {
+    it('should allow a key with the scope and permission', () => {
+      const result = checkApiKeyAccess(
+        { permissions: ['read'], scopes: ['conversations'] },
+        'conversations',
+        'read'
+      );
+      expect(result.allowed).toBe(true);
+    });
+
+    it('should name the missing scope', () => {
+      const result = checkApiKeyAccess(
+        { permissions: ['read', 'write'], scopes: ['conversations'] },
+        'bugs',
+        'write'
+      );
+      expect(result).toEqual({ allowed: false, error: 'API key is missing required scope: bugs' });
+    });
+
+    it('should reject a write with a read-only key', () => {
+      const result = checkApiKeyAccess(
+        { permissions: ['read'], scopes: ['conversations'] },
+        'conversations',
+        'write'
+      );
+      expect(result).toEqual({
+        allowed: false,
+        error: 'API key is missing required permission: write (scope: conversations)'
+      });
+    });
+
+    it('should let admin keys access every scope', () => {
+      const result = checkApiKeyAccess({ permissions: ['admin'], scopes: [] }, 'projects', 'write');
+      expect(result.allowed).toBe(true);
+    });
+
+    it('should deny keys with missing permissions or scopes', () => {
+      expect(checkApiKeyAccess({ permissions: null, scopes: null }, 'bugs', 'read').allowed).toBe(false);
+    });
+  });
+
+  describe('validateApiKeyGrant', () => {
+    it('should accept known permissions and scopes', () => {
+      expect(validateApiKeyGrant(['read'], ['bugs', 'features'])).toBeNull();
+    });
+
+    it('should require at least one permission and scope', () => {
+      expect(validateApiKeyGrant([], ['bugs'])).toBe('At least one permission is required');
+      expect(validateApiKeyGrant(['read'], [])).toBe('At least one scope is required');
+    });
+
+    it('should reject unknown values', () => {
+      expect(validateApiKeyGrant(['delete'], ['bugs'])).toContain('Invalid permissions: delete');
+      expect(validateApiKeyGrant(['read'], ['secrets'])).toContain('Invalid scopes: secrets');
+    });
+  });
+});
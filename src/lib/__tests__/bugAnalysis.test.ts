@@ -0,0 +1,111 @@
+import {
+  buildBugAnalysisPrompt,
+  extractBugSignals,
+  findRelatedConversations,
+  findSimilarBugs,
+  parseBugAnalysisResponse
+} from '../bugAnalysis';
+import { Bug } from '../../types';
+import { LearningConversation } from '../../types/dashboard';
+
+const makeBug = (overrides: Partial<Bug>): Bug => ({
+  id: 'bug-1',
+  projectId: 'project-1',
+  title: 'Login form crashes',
+  description: '',
+  content: '',
+  type: 'functional-bug',
+  status: 'open',
+  severity: 'high',
+  attachments: [],
+  createdAt: new Date('2025-09-01T00:00:00Z'),
+  updatedAt: new Date('2025-09-01T00:00:00Z'),
+  ...overrides
+});
+
+const conversation = (overrides: Partial<LearningConversation>): LearningConversation => ({
+  id: 'conv-1',
+  title: 'Untitled',
+  summary: '',
+  tags: [],
+  filesChanged: [],
+  createdAt: new Date('2025-09-01T00:00:00Z'),
+  ...overrides
+});
+
+describe('bugAnalysis', () => {
+  const bug = makeBug({
+    description: 'Submitting the login form crashes in src/components/LoginForm.tsx\n' +
+      "TypeError: Cannot read properties of undefined (reading 'session')",
+    affectedFiles: ['src/hooks/useAuth.ts']
+  });
+
+  describe('extractBugSignals', () => {
+    it('should collect error lines, files and keywords', () => {
+      const signals = extractBugSignals(bug);
+
+      expect(signals.errorMessages).toEqual(["TypeError: Cannot read properties of undefined (reading 'session')"]);
+      expect(signals.files).toEqual(['src/hooks/useAuth.ts', 'src/components/LoginForm.tsx']);
+      expect(signals.keywords).toEqual(expect.arrayContaining(['login', 'crashes', 'session']));
+      expect(signals.keywords).not.toContain('the');
+    });
+  });
+
+  describe('findSimilarBugs', () => {
+    it('should rank bugs sharing errors and files and skip unrelated ones', () => {
+      const matches = findSimilarBugs(bug, [
+        bug,
+        makeBug({
+          id: 'bug-2',
+          title: 'Session is undefined after login',
+          status: 'fixed',
+          description: "Seen in LoginForm.tsx\nTypeError: Cannot read properties of undefined (reading 'session')",
+          solution: 'Wait for the auth listener before reading the session'
+        }),
+        makeBug({ id: 'bug-3', title: 'Chart colours wrong in dark mode', description: 'Legend uses light palette' })
+      ]);
+
+      expect(matches).toHaveLength(1);
+      expect(matches[0]).toEqual(expect.objectContaining({
+        id: 'bug-2',
+        solution: 'Wait for the auth listener before reading the session'
+      }));
+      expect(matches[0].reasons).toEqual(expect.arrayContaining(['Same error message', 'Same files: loginform.tsx']));
+    });
+  });
+
+  describe('findRelatedConversations', () => {
+    it('should return conversations that changed the bug files, newest first', () => {
+      const related = findRelatedConversations(bug, [
+        conversation({ id: 'old', title: 'Auth hook', filesChanged: ['src/hooks/useAuth.ts'] }),
+        conversation({ id: 'new', title: 'Login layout', filesChanged: ['src/components/LoginForm.tsx'], createdAt: new Date('2025-09-05T00:00:00Z') }),
+        conversation({ id: 'other', title: 'Charts', filesChanged: ['src/components/Chart.tsx'] })
+      ]);
+
+      expect(related.map(match => match.id)).toEqual(['new', 'old']);
+      expect(related[0].matchedFiles).toEqual(['src/components/LoginForm.tsx']);
+    });
+  });
+
+  it('should include history in the prompt', () => {
+    const [system, user] = buildBugAnalysisPrompt(bug, extractBugSignals(bug), [
+      { id: 'bug-2', title: 'Session is undefined', status: 'fixed', solution: 'Await the listener', score: 0.8, reasons: [] }
+    ], []);
+
+    expect(system.content).toContain('"rootCause"');
+    expect(user.content).toContain('Solution: Await the listener');
+    expect(user.content).toContain('- src/components/LoginForm.tsx');
+  });
+
+  describe('parseBugAnalysisResponse', () => {
+    it('should read fenced JSON', () => {
+      expect(parseBugAnalysisResponse('```json\n{"rootCause":"Race","fixPlan":["Await", 3],"confidence":"medium"}\n```', 'gpt-4o-mini'))
+        .toEqual({ rootCause: 'Race', fixPlan: ['Await'], confidence: 'medium', model: 'gpt-4o-mini' });
+    });
+
+    it('should fall back to the raw text', () => {
+      expect(parseBugAnalysisResponse('Probably a race condition.', 'm'))
+        .toEqual({ rootCause: 'Probably a race condition.', fixPlan: [], confidence: 'low', model: 'm' });
+    });
+  });
+});
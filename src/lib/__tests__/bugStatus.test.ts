@@ -0,0 +1,85 @@
+import {
+  BUG_STATUSES,
+  BUG_STATUS_TRANSITIONS,
+  canTransitionBugStatus,
+  getBugStatusOptions,
+  isActiveBugStatus,
+  isResolvedBugStatus,
+  normalizeBugStatus,
+  validateBugStatusChange
+} from '../bugStatus';
+
+describe('bugStatus', () => {
+  describe('normalizeBugStatus', () => {
+    it('should accept every shared status', () => {
+      BUG_STATUSES.forEach(status => {
+        expect(normalizeBugStatus(status)).toBe(status);
+      });
+    });
+
+    it('should map legacy names used by MCP clients', () => {
+      expect(normalizeBugStatus('resolved')).toBe('fixed');
+      expect(normalizeBugStatus('Resolved ')).toBe('fixed');
+      expect(normalizeBugStatus('closed')).toBe('verified');
+      expect(normalizeBugStatus('in_progress')).toBe('in-progress');
+    });
+
+    it('should reject unknown values', () => {
+      expect(normalizeBugStatus('done')).toBeNull();
+      expect(normalizeBugStatus(undefined)).toBeNull();
+      expect(normalizeBugStatus(3)).toBeNull();
+    });
+  });
+
+  describe('transitions', () => {
+    it('should only reference known statuses', () => {
+      Object.values(BUG_STATUS_TRANSITIONS).flat().forEach(status => {
+        expect(BUG_STATUSES).toContain(status);
+      });
+    });
+
+    it('should follow the fix, verify and reopen lifecycle', () => {
+      expect(canTransitionBugStatus('open', 'fixed')).toBe(true);
+      expect(canTransitionBugStatus('fixed', 'verified')).toBe(true);
+      expect(canTransitionBugStatus('verified', 'reopened')).toBe(true);
+      expect(canTransitionBugStatus('reopened', 'in-progress')).toBe(true);
+    });
+
+    it('should not allow skipping verification or reopening', () => {
+      expect(canTransitionBugStatus('open', 'verified')).toBe(false);
+      expect(canTransitionBugStatus('fixed', 'open')).toBe(false);
+      expect(canTransitionBugStatus('wont-fix', 'in-progress')).toBe(false);
+    });
+
+    it('should always allow keeping the current status', () => {
+      BUG_STATUSES.forEach(status => {
+        expect(canTransitionBugStatus(status, status)).toBe(true);
+      });
+      expect(getBugStatusOptions('fixed')).toEqual(['fixed', 'verified', 'reopened']);
+    });
+  });
+
+  describe('validateBugStatusChange', () => {
+    it('should return the normalized status for a legal change', () => {
+      expect(validateBugStatusChange('in-progress', 'resolved')).toEqual({ allowed: true, status: 'fixed' });
+    });
+
+    it('should distinguish invalid values from illegal transitions', () => {
+      expect(validateBugStatusChange('open', 'done')).toEqual(
+        expect.objectContaining({ allowed: false, reason: 'invalid_status' })
+      );
+      expect(validateBugStatusChange('verified', 'open')).toEqual(
+        expect.objectContaining({ allowed: false, reason: 'invalid_transition' })
+      );
+    });
+
+    it('should treat unknown stored statuses as open', () => {
+      expect(validateBugStatusChange('triage', 'in-progress')).toEqual({ allowed: true, status: 'in-progress' });
+    });
+  });
+
+  it('should group statuses into active and resolved', () => {
+    expect(BUG_STATUSES.filter(isActiveBugStatus)).toEqual(['open', 'in-progress', 'reopened']);
+    expect(BUG_STATUSES.filter(isResolvedBugStatus)).toEqual(['fixed', 'verified']);
+  });
+});
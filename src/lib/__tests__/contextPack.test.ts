@@ -0,0 +1,109 @@
+import { ContextPackInput, buildContextPack, estimateTokens } from '../contextPack';
+
+const input: ContextPackInput = {
+  project: { name: 'RefBase', description: 'Knowledge base for AI coding sessions', tech_stack: ['react', 'supabase'] },
+  focus: { type: 'bug', id: 'bug-1' },
+  bugs: [
+    {
+      id: 'bug-1',
+      title: 'Session lost on refresh',
+      description: 'The auth session is undefined after reloading the dashboard.',
+      status: 'open',
+      severity: 'high',
+      feature_id: 'feature-1'
+    },
+    {
+      id: 'bug-2',
+      title: 'Session expired after reload',
+      description: 'Reloading the dashboard drops the auth session in AuthContext.tsx.',
+      status: 'fixed',
+      solution: 'Wait for the auth listener before reading the session.'
+    },
+    {
+      id: 'bug-3',
+      title: 'Session refresh loops',
+      description: 'The auth session refresh runs twice on the dashboard.',
+      status: 'reopened',
+      solution: 'Debounce the refresh call.'
+    },
+    { id: 'bug-4', title: 'Chart colours are off', description: 'Pie chart colours clash in dark mode.', status: 'open' }
+  ],
+  features: [
+    { id: 'feature-1', title: 'Remember me login', content: 'Keep users signed in across reloads.', status: 'in-progress' },
+    { id: 'feature-2', title: 'Dark mode charts', content: 'Chart palette for dark mode.', status: 'planned' }
+  ],
+  conversations: [
+    {
+      id: 'conv-1',
+      title: 'Fix auth session on dashboard reload',
+      implementation_summary: 'Moved the session read into the auth listener. Storing the token in localStorage was rejected.',
+      files_changed: ['src/contexts/AuthContext.tsx'],
+      code_changes: [{ file_path: 'src/contexts/AuthContext.tsx', action: 'modify', diff: '+ await waitForSession();' }]
+    }
+  ],
+  featureSummaries: [
+    { feature_id: 'feature-1', metadata: { summary: { decisions: ['We decided to keep the refresh token in cookies.'], rejected: [] } } }
+  ]
+};
+
+describe('contextPack', () => {
+  it('should collect related bugs, fixes, requirements, code changes and things to avoid', () => {
+    const pack = buildContextPack(input)!;
+
+    expect(pack.content).toContain('# Context: Session lost on refresh');
+    expect(pack.content).toContain('## Project\n\n### RefBase');
+    expect(pack.content).toContain('Tech stack: react, supabase');
+    expect(pack.content).toContain('### Fix for "Session expired after reload"\n\nWait for the auth listener before reading the session.');
+    expect(pack.content).toContain('## Feature requirements\n\n### Remember me login');
+    expect(pack.content).toContain('```diff\n+ await waitForSession();\n```');
+    expect(pack.content).toContain('Storing the token in localStorage was rejected.');
+    expect(pack.content).toContain('### Fix for "Session refresh loops" did not hold');
+    expect(pack.content).toContain('We decided to keep the refresh token in cookies.');
+    expect(pack.content).not.toContain('Chart colours');
+
+    expect(pack.items.map(item => `${item.section}:${item.id}`)).toEqual(expect.arrayContaining([
+      'focus:bug-1', 'related_bugs:bug-3', 'requirements:feature-1', 'code_changes:conv-1', 'worked:bug-2', 'avoid:conv-1'
+    ]));
+    expect(pack.omittedCount).toBe(0);
+  });
+
+  it('should keep sections in a fixed order', () => {
+    const { content } = buildContextPack(input)!;
+    const headings: string[] = content.match(/^## .+$/gm) || [];
+
+    expect(headings).toEqual([
+      '## Project', '## Focus', '## Related bugs', '## Feature requirements', '## Key code changes', '## What worked before', '## What to avoid'
+    ]);
+  });
+
+  it('should stay within the token budget by leaving out the least relevant entries', () => {
+    const longSolution = 'Wait for the auth listener before reading the session. '.repeat(40);
+    const pack = buildContextPack(
+      { ...input, bugs: input.bugs.map(bug => (bug.id === 'bug-2' ? { ...bug, solution: longSolution } : bug)) },
+      { tokenBudget: 500 }
+    )!;
+
+    expect(pack.tokenBudget).toBe(500);
+    expect(pack.tokenEstimate).toBeLessThanOrEqual(500);
+    expect(pack.tokenEstimate).toBe(estimateTokens(pack.content));
+    expect(pack.omittedCount).toBeGreaterThan(0);
+    expect(pack.content).toContain('## Focus');
+  });
+
+  it('should render XML with escaped content', () => {
+    const pack = buildContextPack(
+      { ...input, focus: { type: 'feature', id: 'feature-1' }, features: [{ ...input.features[0], content: 'Use <Auth> & cookies' }] },
+      { format: 'xml' }
+    )!;
+
+    expect(pack.content).toMatch(/^<context_pack title="Remember me login">/);
+    expect(pack.content).toContain('<section name="focus" title="Focus">');
+    expect(pack.content).toContain('<item type="feature" id="feature-1" title="Feature: Remember me login">');
+    expect(pack.content).toContain('Use &lt;Auth&gt; &amp; cookies');
+    expect(pack.content).toMatch(/<\/context_pack>$/);
+  });
+
+  it('should return null when the focus item is missing', () => {
+    expect(buildContextPack({ ...input, focus: { type: 'conversation', id: 'missing' } })).toBeNull();
+  });
+});
@@ -0,0 +1,129 @@
+import {
+  buildConversationDetails,
+  extractConversationDetails,
+  extractStructuredToolCalls,
+  toTextMessages
+} from '../conversationDetails';
+
+const proseConversation = [
+  { role: 'user', content: 'Please fix the login redirect' },
+  {
+    role: 'assistant',
+    content: 'I will update the file src/components/Login.tsx to fix the redirect.\n```ts\nconst next = url;\n```\nError: redirect loop\nFixed by checking the session first'
+  }
+];
+
+const structuredConversation = [
+  { role: 'user', content: 'Add a health check', timestamp: '2025-09-01T10:00:00.000Z' },
+  {
+    role: 'assistant',
+    timestamp: '2025-09-01T10:00:05.000Z',
+    content: [
+      { type: 'text', text: 'Adding the route.' },
+      { type: 'tool_use', id: 'tool-1', name: 'Edit', input: { file_path: 'src/api.ts', old_string: 'a', new_string: 'a\nb' } },
+      { type: 'tool_use', id: 'tool-2', name: 'Bash', input: { command: 'npm test' } }
+    ]
+  },
+  {
+    role: 'user',
+    content: [
+      { type: 'tool_result', tool_use_id: 'tool-1', content: 'ok' },
+      { type: 'tool_result', tool_use_id: 'tool-2', content: [{ type: 'text', text: '1 failed' }], is_error: true }
+    ]
+  }
+];
+
+describe('conversationDetails', () => {
+  describe('toTextMessages', () => {
+    it('should flatten content blocks to text', () => {
+      expect(toTextMessages(structuredConversation)[1]).toEqual({
+        role: 'assistant',
+        content: 'Adding the route.',
+        timestamp: '2025-09-01T10:00:05.000Z'
+      });
+    });
+
+    it('should ignore anything that is not a message list', () => {
+      expect(toTextMessages('hello')).toEqual([]);
+      expect(toTextMessages([null, 'x', { content: 'hi' }])).toEqual([{ role: 'user', content: 'hi' }]);
+    });
+  });
+
+  describe('extractStructuredToolCalls', () => {
+    it('should read tool calls and their results', () => {
+      const { toolUsage } = extractStructuredToolCalls(structuredConversation);
+
+      expect(toolUsage.map(call => [call.tool, call.success, call.result])).toEqual([
+        ['Edit', true, 'ok'],
+        ['Bash', false, '1 failed']
+      ]);
+      expect(toolUsage[1].params).toEqual({ command: 'npm test' });
+    });
+
+    it('should turn file edits into code changes', () => {
+      const { codeChanges } = extractStructuredToolCalls(structuredConversation);
+
+      expect(codeChanges).toEqual([expect.objectContaining({
+        file_path: 'src/api.ts',
+        action: 'edit',
+        before_content: 'a',
+        after_content: 'a\nb',
+        lines_added: 2,
+        lines_removed: 1,
+        messageIndex: 1
+      })]);
+    });
+  });
+
+  describe('extractConversationDetails', () => {
+    it('should prefer real tool calls over inferred ones', () => {
+      const details = extractConversationDetails(structuredConversation);
+
+      expect(details.files_changed).toEqual(['src/api.ts']);
+      expect(details.tool_usage).toHaveLength(2);
+      expect(details.technical_details).toEqual(expect.objectContaining({
+        tools_used: ['Edit', 'Bash'],
+        extraction: expect.objectContaining({ tool_calls: 'structured' })
+      }));
+    });
+
+    it('should infer details from plain text conversations', () => {
+      const details = extractConversationDetails(proseConversation);
+
+      expect(details.files_changed).toEqual(['Login.tsx']);
+      expect(details.code_changes[0]).toEqual(expect.objectContaining({ file_path: 'Login.tsx', action: 'edit' }));
+      expect(details.tool_usage.map(call => call.tool)).toContain('Edit');
+      expect(details.implementation_summary).toMatch(/1 file/);
+      expect(details.technical_details).toEqual(expect.objectContaining({
+        message_count: 2,
+        code_block_count: 1,
+        errors: ['Error: redirect loop'],
+        extraction: expect.objectContaining({ tool_calls: 'inferred' })
+      }));
+    });
+  });
+
+  describe('buildConversationDetails', () => {
+    it('should keep values sent by the client', () => {
+      const details = buildConversationDetails(proseConversation, {
+        implementationSummary: 'Fixed the login redirect',
+        filesChanged: ['src/components/Login.tsx'],
+        technicalDetails: { decisions: ['check session first'] }
+      });
+
+      expect(details.implementation_summary).toBe('Fixed the login redirect');
+      expect(details.files_changed).toEqual(['src/components/Login.tsx']);
+      expect(details.technical_details).toEqual(expect.objectContaining({
+        decisions: ['check session first'],
+        message_count: 2
+      }));
+    });
+
+    it('should fall back to extracted values for empty client values', () => {
+      const details = buildConversationDetails(proseConversation, { implementationSummary: ' ', codeChanges: [] });
+
+      expect(details.implementation_summary).toMatch(/1 file/);
+      expect(details.code_changes).toHaveLength(1);
+    });
+  });
+});
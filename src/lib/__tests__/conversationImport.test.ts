@@ -0,0 +1,207 @@
+import {
+  ConversationImportError,
+  detectImportFormat,
+  findDuplicateImports,
+  getConversationFingerprint,
+  parseChatGptExport,
+  parseClaudeCodeJsonl,
+  parseConversationImport,
+  parseCursorExport,
+  parseMarkdownTranscript
+} from '../conversationImport';
+import { extractConversationDetails } from '../conversationDetails';
+
+const claudeCodeSession = [
+  { type: 'summary', summary: 'Add health check route', leafUuid: 'x' },
+  {
+    type: 'user', sessionId: 'session-1', cwd: '/work/app', timestamp: '2025-09-01T10:00:00.000Z',
+    message: { role: 'user', content: 'Add a health check endpoint' }
+  },
+  {
+    type: 'assistant', sessionId: 'session-1', timestamp: '2025-09-01T10:00:03.000Z',
+    message: { role: 'assistant', content: [{ type: 'text', text: 'Adding it now.' }] }
+  },
+  {
+    type: 'assistant', sessionId: 'session-1', timestamp: '2025-09-01T10:00:04.000Z',
+    message: { role: 'assistant', content: [{ type: 'tool_use', id: 'tool-1', name: 'Write', input: { file_path: 'src/health.ts', content: 'export {};' } }] }
+  },
+  {
+    type: 'user', sessionId: 'session-1', timestamp: '2025-09-01T10:00:05.000Z',
+    message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'tool-1', content: 'File created' }] }
+  },
+  {
+    type: 'assistant', isSidechain: true, sessionId: 'session-1',
+    message: { role: 'assistant', content: 'sub-agent chatter' }
+  },
+  {
+    type: 'assistant', sessionId: 'session-1', timestamp: '2025-09-01T10:00:06.000Z',
+    message: { role: 'assistant', content: [{ type: 'text', text: 'Done.' }] }
+  }
+].map(entry => JSON.stringify(entry)).join('\n');
+
+const chatGptExport = JSON.stringify([{
+  title: 'Regex help',
+  create_time: 1725184800,
+  conversation_id: 'chat-1',
+  current_node: 'c',
+  mapping: {
+    root: { id: 'root', parent: null, children: ['a'], message: null },
+    a: {
+      id: 'a', parent: 'root', children: ['b', 'b2'],
+      message: { author: { role: 'user' }, create_time: 1725184800, content: { content_type: 'text', parts: ['How do I match digits?'] } }
+    },
+    b2: {
+      id: 'b2', parent: 'a', children: [],
+      message: { author: { role: 'assistant' }, content: { content_type: 'text', parts: ['Abandoned branch'] } }
+    },
+    b: {
+      id: 'b', parent: 'a', children: ['c'],
+      message: { author: { role: 'assistant' }, recipient: 'python', content: { content_type: 'code', text: 're.findall(r"\\d", s)' } }
+    },
+    c: {
+      id: 'c', parent: 'b', children: [],
+      message: { author: { role: 'assistant' }, create_time: 1725184810, content: { content_type: 'text', parts: ['Use \\d+'] } }
+    }
+  }
+}]);
+
+const cursorMarkdown = `# Fix flaky test
+_Exported on 9/1/2025 at 10:00:00 GMT+2 from Cursor (1.5.5)_
+
+---
+
+**User**
+
+Why does the login test fail?
+
+---
+
+**Cursor**
+
+The mock resolves too late.
+
+## User authentication
+Heading inside the reply.
+
+---
+
+**User**
+
+Thanks
+`;
+
+describe('conversationImport', () => {
+  describe('parseClaudeCodeJsonl', () => {
+    it('should merge one assistant turn and attach tool results', () => {
+      const [conversation] = parseClaudeCodeJsonl(claudeCodeSession);
+
+      expect(conversation).toEqual(expect.objectContaining({
+        title: 'Add health check route',
+        format: 'claude-code',
+        externalId: 'session-1',
+        projectPath: '/work/app',
+        createdAt: '2025-09-01T10:00:00.000Z'
+      }));
+      expect(conversation.messages.map(message => [message.role, message.content])).toEqual([
+        ['user', 'Add a health check endpoint'],
+        ['assistant', 'Adding it now.\n\nDone.']
+      ]);
+      expect(conversation.messages[1].tool_calls).toEqual([
+        { id: 'tool-1', name: 'Write', input: { file_path: 'src/health.ts', content: 'export {};' }, result: 'File created', is_error: false }
+      ]);
+    });
+
+    it('should keep tool calls usable for technical details', () => {
+      const [conversation] = parseClaudeCodeJsonl(claudeCodeSession);
+      const details = extractConversationDetails(conversation.messages);
+
+      expect(details.files_changed).toEqual(['src/health.ts']);
+      expect(details.tool_usage[0]).toEqual(expect.objectContaining({ tool: 'Write', result: 'File created', success: true }));
+    });
+
+    it('should reject files that are not JSONL', () => {
+      expect(() => parseClaudeCodeJsonl('User: hello')).toThrow(ConversationImportError);
+    });
+  });
+
+  describe('parseChatGptExport', () => {
+    it('should follow the current branch and keep tool calls', () => {
+      const [conversation] = parseChatGptExport(chatGptExport);
+
+      expect(conversation.title).toBe('Regex help');
+      expect(conversation.externalId).toBe('chat-1');
+      expect(conversation.createdAt).toBe('2024-09-01T10:00:00.000Z');
+      expect(conversation.messages.map(message => message.content)).toEqual(['How do I match digits?', 'Use \\d+']);
+      expect(conversation.messages[1].tool_calls?.[0]).toEqual({ name: 'python', input: { code: 're.findall(r"\\d", s)' } });
+    });
+
+    it('should reject other JSON', () => {
+      expect(() => parseChatGptExport('[{"title":"x"}]')).toThrow(ConversationImportError);
+    });
+  });
+
+  describe('parseCursorExport', () => {
+    it('should parse the Markdown export without splitting on headings in replies', () => {
+      const [conversation] = parseCursorExport(cursorMarkdown);
+
+      expect(conversation.title).toBe('Fix flaky test');
+      expect(conversation.format).toBe('cursor');
+      expect(conversation.messages.map(message => message.role)).toEqual(['user', 'assistant', 'user']);
+      expect(conversation.messages[1].content).toBe('The mock resolves too late.\n\n## User authentication\nHeading inside the reply.');
+    });
+
+    it('should parse JSON tabs with bubbles', () => {
+      const [conversation] = parseCursorExport(JSON.stringify({
+        tabs: [{ tabId: 't1', chatTitle: 'Refactor', bubbles: [{ type: 'user', text: 'Split this' }, { type: 'ai', text: 'Done' }] }]
+      }));
+
+      expect(conversation).toEqual(expect.objectContaining({ title: 'Refactor', externalId: 't1' }));
+      expect(conversation.messages.map(message => message.role)).toEqual(['user', 'assistant']);
+    });
+  });
+
+  describe('parseMarkdownTranscript', () => {
+    it('should accept common role labels', () => {
+      const [conversation] = parseMarkdownTranscript('Human: What is a monad?\nAssistant: A monoid in the category of endofunctors.\n\n```\nUser: not a label\n```');
+
+      expect(conversation.title).toBe('What is a monad?');
+      expect(conversation.messages).toHaveLength(2);
+      expect(conversation.messages[1].content).toContain('User: not a label');
+    });
+
+    it('should fail when no roles are found', () => {
+      expect(() => parseMarkdownTranscript('just some notes')).toThrow(ConversationImportError);
+    });
+  });
+
+  it('should detect the format from the file', () => {
+    expect(detectImportFormat('abc.jsonl', '{}')).toBe('claude-code');
+    expect(detectImportFormat('conversations.json', chatGptExport)).toBe('chatgpt');
+    expect(detectImportFormat('chat.md', cursorMarkdown)).toBe('cursor');
+    expect(detectImportFormat('notes.md', 'User: hi')).toBe('markdown');
+    expect(parseConversationImport(chatGptExport, { fileName: 'conversations.json' })[0].format).toBe('chatgpt');
+  });
+
+  describe('findDuplicateImports', () => {
+    it('should match existing conversations by content or external id', () => {
+      const [claude] = parseClaudeCodeJsonl(claudeCodeSession);
+      const [chatgpt] = parseChatGptExport(chatGptExport);
+      const existing = [
+        { messages: [{ role: 'user', content: 'How do I match  digits?' }, { role: 'assistant', content: 'Use \\d+' }] },
+        { messages: [], technical_details: { import: { external_id: 'session-1' } } }
+      ];
+
+      expect(findDuplicateImports([claude, chatgpt], existing)).toEqual(new Set([0, 1]));
+    });
+
+    it('should flag repeats within one batch', () => {
+      const [chatgpt] = parseChatGptExport(chatGptExport);
+      expect(findDuplicateImports([chatgpt, { ...chatgpt, externalId: undefined }], [])).toEqual(new Set([1]));
+    });
+
+    it('should ignore whitespace differences in the fingerprint', () => {
+      expect(getConversationFingerprint([{ role: 'user', content: 'a  b\n' }]))
+        .toBe(getConversationFingerprint([{ role: 'user', content: [{ type: 'text', text: 'a b' }] }]));
+    });
+  });
+});
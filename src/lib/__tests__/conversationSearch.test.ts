@@ -0,0 +1,34 @@
+import { parseHighlights } from '../conversationSearch';
+
+describe('conversationSearch', () => {
+  describe('parseHighlights', () => {
+    it('should return no segments for empty text', () => {
+      expect(parseHighlights('')).toEqual([]);
+      expect(parseHighlights(null)).toEqual([]);
+    });
+
+    it('should return plain text as a single segment', () => {
+      expect(parseHighlights('no matches here')).toEqual([
+        { text: 'no matches here', highlighted: false }
+      ]);
+    });
+
+    it('should split highlighted matches from surrounding text', () => {
+      expect(parseHighlights('Fixed <mark>TypeError</mark> in <mark>useAuth</mark> hook')).toEqual([
+        { text: 'Fixed ', highlighted: false },
+        { text: 'TypeError', highlighted: true },
+        { text: ' in ', highlighted: false },
+        { text: 'useAuth', highlighted: true },
+        { text: ' hook', highlighted: false }
+      ]);
+    });
+
+    it('should handle matches at the start and end', () => {
+      expect(parseHighlights('<mark>supabase</mark> client <mark>rpc</mark>')).toEqual([
+        { text: 'supabase', highlighted: true },
+        { text: ' client ', highlighted: false },
+        { text: 'rpc', highlighted: true }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import {
+  calculateAILearningInsights,
+  findLinkedConversations,
+  formatProjectSummary,
+  getDashboardStatsFromSummary,
+  getProjectProgressFromSummary
+} from '../dashboardUtils';
+import { Bug } from '../../types';
+import { LearningConversation } from '../../types/dashboard';
+
+const now = new Date('2025-09-10T12:00:00Z');
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+const makeBug = (overrides: Partial<Bug>): Bug => ({
+  id: 'bug-1',
+  projectId: 'project-1',
+  title: 'Bug',
+  description: '',
+  content: '',
+  type: 'functional-bug',
+  status: 'open',
+  severity: 'medium',
+  attachments: [],
+  createdAt: daysAgo(20),
+  updatedAt: daysAgo(20),
+  ...overrides
+});
+
+const makeConversation = (overrides: Partial<LearningConversation>): LearningConversation => ({
+  id: 'conv-1',
+  title: 'Conversation',
+  summary: '',
+  tags: [],
+  filesChanged: [],
+  createdAt: daysAgo(1),
+  ...overrides
+});
+
+describe('dashboardUtils', () => {
+  describe('findLinkedConversations', () => {
+    const conversations = [
+      makeConversation({ id: 'by-title', title: 'Fixing the login redirect loop after token refresh' }),
+      makeConversation({ id: 'by-file', filesChanged: ['D:\\app\\src\\hooks\\useAuth.ts'] }),
+      makeConversation({ id: 'by-id', summary: 'Resolves bug-42 in the calendar' }),
+      makeConversation({ id: 'unrelated', title: 'Crash course in Tailwind' })
+    ];
+
+    it('should match by title, affected file or id', () => {
+      const bug = makeBug({ id: 'bug-42', title: 'Login redirect loop', affectedFiles: ['src/hooks/useAuth.ts'] });
+      expect(findLinkedConversations(bug, conversations).map(c => c.id)).toEqual(['by-title', 'by-file', 'by-id']);
+    });
+
+    it('should ignore short titles', () => {
+      expect(findLinkedConversations(makeBug({ title: 'Crash' }), conversations)).toEqual([]);
+    });
+  });
+
+  describe('calculateAILearningInsights', () => {
+    const conversations = [
+      makeConversation({ id: 'c1', title: 'Fix dark mode toggle flicker', tags: ['theme', 'react'], createdAt: daysAgo(1) }),
+      makeConversation({ id: 'c2', title: 'Refactor theme context', tags: ['Theme'], createdAt: daysAgo(3) }),
+      makeConversation({ id: 'c3', title: 'Add calendar export', tags: ['calendar'], createdAt: daysAgo(10) })
+    ];
+    const bugs = [
+      makeBug({ id: 'b1', title: 'Dark mode toggle flicker', status: 'fixed', updatedAt: daysAgo(1) }),
+      makeBug({ id: 'b2', title: 'Calendar timezone offset wrong', status: 'fixed', updatedAt: daysAgo(9) }),
+      makeBug({ id: 'b3', title: 'Sidebar overflow on mobile', status: 'open' })
+    ];
+
+    const insights = calculateAILearningInsights(conversations, bugs, now);
+
+    it('should count conversations and their weekly change', () => {
+      expect(insights.conversationCount).toBe(3);
+      expect(insights.conversationTrend).toEqual({ value: 100, isPositive: true });
+      expect(insights.recentConversations.map(c => c.id)).toEqual(['c1', 'c2', 'c3']);
+    });
+
+    it('should report fixed bugs with a linked conversation', () => {
+      expect(insights.resolvedBugCount).toBe(2);
+      expect(insights.linkedResolvedBugCount).toBe(1);
+      expect(insights.linkedResolutionRate).toBe(50);
+      expect(insights.linkedBugs).toEqual([{ type: 'bug', id: 'b1', title: 'Dark mode toggle flicker', detail: '1 conversation' }]);
+    });
+
+    it('should treat tags shared across conversations as reused patterns', () => {
+      expect(insights.reusedPatternCount).toBe(1);
+      expect(insights.patterns[0].tag).toBe('theme');
+      expect(insights.patterns[0].conversations.map(c => c.id)).toEqual(['c1', 'c2']);
+    });
+
+    it('should bucket activity by week', () => {
+      expect(insights.trend).toHaveLength(6);
+      expect(insights.trend[5]).toEqual({ weekStart: expect.any(String), conversations: 2, resolvedBugs: 1 });
+      expect(insights.trend[4]).toEqual({ weekStart: expect.any(String), conversations: 1, resolvedBugs: 1 });
+    });
+
+    it('should be stable for the same input', () => {
+      expect(calculateAILearningInsights(conversations, bugs, now)).toEqual(insights);
+    });
+  });
+
+  describe('project summary', () => {
+    const summary = formatProjectSummary({
+      tasks: { total: 8, done: 2, high_priority: 3 },
+      bugs: { total: 5, open: 4, active_by_severity: { critical: 1, high: '2' } },
+      features: { total: 3, in_progress: 1, implemented: 2 },
+      documents: { total: 6 },
+      events: { total: 4, upcoming: 1 }
+    });
+
+    it('should map RPC counts and default missing ones to zero', () => {
+      expect(summary.bugs.activeBySeverity).toEqual({ critical: 1, high: 2, medium: 0, low: 0 });
+      expect(summary.features).toEqual({ total: 3, planned: 0, inProgress: 1, testing: 0, implemented: 2 });
+      expect(formatProjectSummary(null).tasks).toEqual({ total: 0, done: 0, highPriority: 0 });
+    });
+
+    it('should derive dashboard stats and progress', () => {
+      expect(getDashboardStatsFromSummary(summary)).toEqual({
+        totalTasks: 6,
+        completedTasks: 2,
+        totalBugs: 5,
+        openBugs: 4,
+        totalFeatures: 3,
+        totalDocuments: 6,
+        highPriorityTasks: 3
+      });
+      expect(getProjectProgressFromSummary(summary)).toEqual({
+        completionPercentage: 25,
+        remainingTasks: 6,
+        highPriorityTasks: 3,
+        openBugs: 4
+      });
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import {
+  buildMermaidDocument,
+  buildPlantUmlUrl,
+  encodePlantUmlBytes,
+  getDiagramFileName,
+  getDiagramLanguage,
+  getSvgSize,
+  isDiagramMessage,
+  normalizePlantUmlSource
+} from '../diagrams';
+
+const SCRIPT_URL = 'https://app.example.com/assets/mermaid.min.js';
+
+describe('diagrams', () => {
+  it('should recognise diagram fences by class name or alias', () => {
+    expect(getDiagramLanguage('lang-mermaid')).toBe('mermaid');
+    expect(getDiagramLanguage('language-puml')).toBe('plantuml');
+    expect(getDiagramLanguage('PlantUML')).toBe('plantuml');
+    expect(getDiagramLanguage('lang-typescript')).toBeNull();
+    expect(getDiagramLanguage('language-puml', ['mermaid'])).toBeNull();
+    expect(getDiagramLanguage(undefined)).toBeNull();
+  });
+
+  it('should escape the source into the sandboxed Mermaid document', () => {
+    const html = buildMermaidDocument('graph TD\nA["<script>alert(1)</script>"] --> B', 'dark', 'r1', SCRIPT_URL);
+
+    expect(html).toContain('A["&lt;script&gt;alert(1)&lt;/script&gt;"] --&gt; B');
+    expect(html).not.toContain('<script>alert(1)');
+    expect(html).toContain('theme: "dark"');
+    expect(html).toContain(`<script src="${SCRIPT_URL}"></script>`);
+    expect(html).toContain('id: "r1"');
+    expect(buildMermaidDocument('graph TD', 'light', 'r1', SCRIPT_URL)).toContain('theme: "default"');
+  });
+
+  it('should only accept render messages for the same diagram', () => {
+    expect(isDiagramMessage({ source: 'refbase-diagram', id: 'r1', type: 'rendered', svg: '<svg/>' }, 'r1')).toBe(true);
+    expect(isDiagramMessage({ source: 'refbase-diagram', id: 'r2', type: 'rendered', svg: '<svg/>' }, 'r1')).toBe(false);
+    expect(isDiagramMessage({ id: 'r1' }, 'r1')).toBe(false);
+    expect(isDiagramMessage(null, 'r1')).toBe(false);
+  });
+
+  it('should encode PlantUML bytes with its URL alphabet', () => {
+    expect(encodePlantUmlBytes(new Uint8Array([0x00, 0x10, 0x83]))).toBe('0123');
+    expect(encodePlantUmlBytes(new Uint8Array([0xff]))).toBe('_m00');
+    expect(encodePlantUmlBytes(new Uint8Array([0xfb, 0xef, 0xff, 0x00]))).toBe('--__0000');
+  });
+
+  it('should wrap bare PlantUML source and build themed server URLs', () => {
+    expect(normalizePlantUmlSource('\nBob -> Alice\n')).toBe('@startuml\nBob -> Alice\n@enduml');
+    expect(normalizePlantUmlSource('@startmindmap\n* a\n@endmindmap')).toBe('@startmindmap\n* a\n@endmindmap');
+    expect(buildPlantUmlUrl('abc', 'svg', 'light', 'https://plantuml.internal/plantuml')).toBe('https://plantuml.internal/plantuml/svg/abc');
+    expect(buildPlantUmlUrl('abc', 'png', 'dark', 'https://uml.example.com/')).toBe('https://uml.example.com/dpng/abc');
+  });
+
+  it('should size SVGs and name exports', () => {
+    expect(getSvgSize('<svg xmlns="http://www.w3.org/2000/svg" width="100%" viewBox="-8 -8 312.5 140">')).toEqual({ width: 313, height: 140 });
+    expect(getSvgSize('<svg width="200px" height="80px"><rect/></svg>')).toEqual({ width: 200, height: 80 });
+    expect(getSvgSize('<svg><rect/></svg>')).toEqual({ width: 800, height: 600 });
+
+    expect(getDiagramFileName('mermaid', '---\ntitle: Login Flow!\n---\ngraph TD', 'svg')).toBe('login-flow.svg');
+    expect(getDiagramFileName('plantuml', 'title Checkout sequence\nBob -> Alice', 'png')).toBe('checkout-sequence.png');
+    expect(getDiagramFileName('mermaid', 'graph TD\nA --> B', 'png')).toBe('mermaid-diagram.png');
+  });
+});
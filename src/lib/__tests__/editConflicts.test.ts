@@ -0,0 +1,73 @@
+import {
+  CONFLICT_MARKERS,
+  EditConflictError,
+  hasConflictMarkers,
+  mergeEdits,
+  updatedAtWindow
+} from '../editConflicts';
+
+describe('editConflicts', () => {
+  const base = '# Spec\nintro\n\n## Goals\none\ntwo\n\n## Risks\nnone';
+
+  it('should combine edits to different lines', () => {
+    const mine = base.replace('intro', 'intro, reworded');
+    const theirs = base.replace('none', 'timeline').concat('\nbudget');
+
+    expect(mergeEdits(base, mine, theirs)).toEqual({
+      content: '# Spec\nintro, reworded\n\n## Goals\none\ntwo\n\n## Risks\ntimeline\nbudget',
+      conflicts: 0
+    });
+  });
+
+  it('should take the changed side when only one side changed', () => {
+    expect(mergeEdits(base, base, 'new')).toEqual({ content: 'new', conflicts: 0 });
+    expect(mergeEdits(base, 'mine', base)).toEqual({ content: 'mine', conflicts: 0 });
+    expect(mergeEdits(base, 'same', 'same')).toEqual({ content: 'same', conflicts: 0 });
+  });
+
+  it('should mark overlapping changes as conflicts', () => {
+    const mine = base.replace('two', 'two (mine)');
+    const theirs = base.replace('two', 'two (theirs)').replace('# Spec', '# Product spec');
+
+    const result = mergeEdits(base, mine, theirs);
+
+    expect(result.conflicts).toBe(1);
+    expect(result.content.split('\n').slice(0, 9)).toEqual([
+      '# Product spec',
+      'intro',
+      '',
+      '## Goals',
+      'one',
+      CONFLICT_MARKERS.start,
+      'two (mine)',
+      CONFLICT_MARKERS.separator,
+      'two (theirs)'
+    ]);
+    expect(hasConflictMarkers(result.content)).toBe(true);
+    expect(hasConflictMarkers(mine)).toBe(false);
+  });
+
+  it('should treat insertions at the same place as one change', () => {
+    const mine = base.replace('two', 'two\nthree');
+    const theirs = base.replace('two', 'two\nthree');
+    const other = base.replace('two', 'two\nfour');
+
+    expect(mergeEdits(base, mine, theirs.concat('\nend')).content).toBe(`${mine}\nend`);
+    expect(mergeEdits(base, mine, other).conflicts).toBe(1);
+  });
+
+  it('should match a stored timestamp to the millisecond', () => {
+    expect(updatedAtWindow('2025-09-18T10:00:00.123456+00:00')).toEqual({
+      from: '2025-09-18T10:00:00.123Z',
+      to: '2025-09-18T10:00:00.124Z'
+    });
+  });
+
+  it('should carry the stored version on conflicts', () => {
+    const error = new EditConflictError({ content: 'theirs', updatedAt: new Date(0) });
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe('EditConflictError');
+    expect(error.current.content).toBe('theirs');
+  });
+});
@@ -0,0 +1,89 @@
+import {
+  buildEmbeddingText,
+  cosineSimilarity,
+  createLocalEmbeddingProvider,
+  getEmbeddingProvider,
+  hashContent
+} from '../embeddings';
+
+describe('embeddings', () => {
+  describe('createLocalEmbeddingProvider', () => {
+    const provider = createLocalEmbeddingProvider(64);
+
+    it('should be deterministic', async () => {
+      const [first] = await provider.embed(['Supabase auth token expired']);
+      const [second] = await provider.embed(['Supabase auth token expired']);
+      expect(first).toEqual(second);
+      expect(first).toHaveLength(64);
+    });
+
+    it('should return unit vectors', async () => {
+      const [vector] = await provider.embed(['React state not updating after fetch']);
+      const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+      expect(norm).toBeCloseTo(1, 6);
+    });
+
+    it('should rank related text above unrelated text', async () => {
+      const [source, related, unrelated] = await provider.embed([
+        'Login fails because the Supabase auth token expired',
+        'Supabase auth token expired and login redirected to landing page',
+        'Calendar drag and drop snaps events to the wrong lane'
+      ]);
+      expect(cosineSimilarity(source, related)).toBeGreaterThan(cosineSimilarity(source, unrelated));
+    });
+
+    it('should return a zero vector for empty text', async () => {
+      const [vector] = await provider.embed(['']);
+      expect(vector.every(value => value === 0)).toBe(true);
+    });
+  });
+
+  describe('cosineSimilarity', () => {
+    it('should compare vectors of equal length', () => {
+      expect(cosineSimilarity([1, 0], [1, 0])).toBe(1);
+      expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+      expect(cosineSimilarity([0, 0], [1, 0])).toBe(0);
+    });
+
+    it('should reject mismatched dimensions', () => {
+      expect(() => cosineSimilarity([1], [1, 0])).toThrow('Vector dimensions differ: 1 vs 2');
+    });
+  });
+
+  describe('getEmbeddingProvider', () => {
+    it('should fall back to the local provider without an API key', () => {
+      expect(getEmbeddingProvider({ provider: 'openai' }).id).toBe('local-hash-256');
+    });
+
+    it('should use the OpenAI provider when configured', () => {
+      const provider = getEmbeddingProvider({ provider: 'openai', apiKey: 'sk-test' });
+      expect(provider.id).toBe('openai-text-embedding-3-small');
+      expect(provider.dimensions).toBe(1536);
+    });
+  });
+
+  describe('buildEmbeddingText', () => {
+    it('should include conversation messages and metadata', () => {
+      const text = buildEmbeddingText('conversation', {
+        title: 'Fix auth loop',
+        implementation_summary: 'Refresh the session before redirecting',
+        tags: ['auth'],
+        messages: [{ role: 'user', content: 'Login keeps redirecting' }, { role: 'assistant' }]
+      });
+      expect(text).toBe('Fix auth loop\nRefresh the session before redirecting\nauth\nLogin keeps redirecting');
+    });
+
+    it('should skip empty bug fields', () => {
+      expect(buildEmbeddingText('bug', { title: 'Crash', description: '', solution: 'Guard null' }))
+        .toBe('Crash\nGuard null');
+    });
+  });
+
+  describe('hashContent', () => {
+    it('should change when the text changes', () => {
+      expect(hashContent('a')).toHaveLength(8);
+      expect(hashContent('a')).toBe(hashContent('a'));
+      expect(hashContent('a')).not.toBe(hashContent('b'));
+    });
+  });
+});
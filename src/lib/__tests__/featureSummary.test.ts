@@ -0,0 +1,133 @@
+import {
+  buildFeatureSummaryPrompt,
+  buildHeuristicFeatureSummary,
+  conversationToSummarySource,
+  findFeatureConversations,
+  parseChatFileMessages,
+  parseFeatureSummaryResponse,
+  renderFeatureSummaryMarkdown
+} from '../featureSummary';
+import { Feature } from '../../types';
+
+const feature: Feature = {
+  id: 'feature-1',
+  projectId: 'project-1',
+  title: 'Dark mode toggle',
+  content: '',
+  type: 'enhancement',
+  status: 'in-progress',
+  createdAt: new Date('2025-09-01T00:00:00Z'),
+  updatedAt: new Date('2025-09-01T00:00:00Z')
+};
+
+const chatFile = `User: Add a dark mode toggle to the header
+
+Assistant: I'll add a ThemeContext in src/contexts/ThemeContext.tsx.
+1. Created the context with a useTheme hook
+2. Updated src/components/Header.tsx to render the toggle
+We decided to store the choice in localStorage instead of the profile table.
+Using CSS variables didn't work with the chart library, so that approach was dropped.
+
+\`\`\`ts
+// Added inside a code block, not a step
+\`\`\``;
+
+describe('featureSummary', () => {
+  describe('parseChatFileMessages', () => {
+    it('should keep roles from transcripts', () => {
+      const messages = parseChatFileMessages('chat.md', chatFile);
+
+      expect(messages.map(message => message.role)).toEqual(['user', 'assistant']);
+    });
+
+    it('should read free-form notes as one message', () => {
+      expect(parseChatFileMessages('notes.md', 'Added the toggle.')).toEqual([{ role: 'assistant', content: 'Added the toggle.' }]);
+      expect(parseChatFileMessages('empty.md', '  ')).toEqual([]);
+    });
+  });
+
+  describe('buildHeuristicFeatureSummary', () => {
+    const summary = buildHeuristicFeatureSummary(feature, [{
+      type: 'chat_file',
+      id: 'file-1',
+      title: 'chat.md',
+      messages: parseChatFileMessages('chat.md', chatFile),
+      filesChanged: []
+    }]);
+
+    it('should collect steps, files, decisions and rejected approaches', () => {
+      expect(summary.mode).toBe('heuristic');
+      expect(summary.overview).toBe('Add a dark mode toggle to the header');
+      expect(summary.steps).toEqual([
+        "I'll add a ThemeContext in src/contexts/ThemeContext.tsx.",
+        'Created the context with a useTheme hook',
+        'Updated src/components/Header.tsx to render the toggle'
+      ]);
+      expect(summary.filesTouched).toEqual(expect.arrayContaining(['src/contexts/ThemeContext.tsx', 'src/components/Header.tsx']));
+      expect(summary.decisions).toEqual(['We decided to store the choice in localStorage instead of the profile table.']);
+      expect(summary.rejected).toEqual(["Using CSS variables didn't work with the chart library, so that approach was dropped."]);
+      expect(summary.sources).toEqual([{ type: 'chat_file', id: 'file-1', title: 'chat.md' }]);
+    });
+
+    it('should render the summary as Markdown', () => {
+      const markdown = renderFeatureSummaryMarkdown(feature, summary);
+
+      expect(markdown).toContain('# Dark mode toggle: Implementation Guide');
+      expect(markdown).toContain('2. Created the context with a useTheme hook');
+      expect(markdown).toContain('- `src/components/Header.tsx`');
+      expect(markdown).toContain('## Rejected Approaches');
+    });
+  });
+
+  it('should find conversations that mention the feature', () => {
+    const conversations = [
+      { id: 'a', title: 'Dark mode toggle follow-up', tags: [] },
+      { id: 'b', title: 'Refactor', implementation_summary: 'Part of feature-1', tags: null },
+      { id: 'c', title: 'Charts', tags: ['feature-1'] },
+      { id: 'd', title: 'Unrelated', tags: ['dark'] }
+    ];
+
+    expect(findFeatureConversations(feature, conversations).map(conversation => conversation.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should skip non-text messages in conversations', () => {
+    expect(conversationToSummarySource({
+      id: 'a',
+      title: 'Chat',
+      files_changed: ['src/a.ts'],
+      messages: [{ role: 'user', content: 'Hi' }, { role: 'assistant', content: [{ type: 'image' }] }]
+    })).toEqual({ type: 'conversation', id: 'a', title: 'Chat', messages: [{ role: 'user', content: 'Hi' }], filesChanged: ['src/a.ts'] });
+  });
+
+  describe('AI mode', () => {
+    const fallback = buildHeuristicFeatureSummary(feature, []);
+
+    it('should put the transcripts in the prompt', () => {
+      const [, user] = buildFeatureSummaryPrompt(feature, [{ type: 'chat_file', id: 'f', title: 'chat.md', messages: [{ role: 'user', content: 'Add it' }], filesChanged: [] }]);
+
+      expect(user.content).toContain('# Feature: Dark mode toggle');
+      expect(user.content).toContain('## Chat file: chat.md\nUSER: Add it');
+    });
+
+    it('should read the JSON reply and keep heuristic files when the model omits them', () => {
+      const summary = parseFeatureSummaryResponse(
+        '{"overview":"Adds a toggle","steps":["Add context"],"decisions":["localStorage"],"rejected":[]}',
+        'gpt-4o-mini',
+        { ...fallback, filesTouched: ['src/a.ts'] }
+      );
+
+      expect(summary).toEqual(expect.objectContaining({
+        mode: 'ai',
+        model: 'gpt-4o-mini',
+        overview: 'Adds a toggle',
+        steps: ['Add context'],
+        filesTouched: ['src/a.ts'],
+        decisions: ['localStorage']
+      }));
+    });
+
+    it('should use a plain-text reply as the overview', () => {
+      expect(parseFeatureSummaryResponse('Just prose', 'm', fallback).overview).toBe('Just prose');
+    });
+  });
+});
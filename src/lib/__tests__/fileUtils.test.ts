@@ -0,0 +1,61 @@
+import {
+  formatBytes,
+  getFileCategory,
+  getQuotaStatus,
+  isPreviewable,
+  sanitizeFileName
+} from '../fileUtils';
+
+describe('fileUtils', () => {
+  describe('getFileCategory', () => {
+    it('should classify by MIME type', () => {
+      expect(getFileCategory('image/png', 'screenshot')).toBe('image');
+      expect(getFileCategory('application/pdf', 'spec')).toBe('pdf');
+      expect(getFileCategory('text/plain', 'notes')).toBe('text');
+    });
+
+    it('should fall back to the extension', () => {
+      expect(getFileCategory('', 'README.md')).toBe('text');
+      expect(getFileCategory(undefined, 'report.PDF')).toBe('pdf');
+      expect(getFileCategory('application/octet-stream', 'plan.docx')).toBe('document');
+      expect(getFileCategory(null, 'logo.svg')).toBe('image');
+      expect(getFileCategory(null, 'archive.zip')).toBe('other');
+    });
+
+    it('should only preview images, PDFs and text', () => {
+      expect(isPreviewable('image')).toBe(true);
+      expect(isPreviewable('text')).toBe(true);
+      expect(isPreviewable('document')).toBe(false);
+    });
+  });
+
+  describe('sanitizeFileName', () => {
+    it('should keep the extension and replace unsafe characters', () => {
+      expect(sanitizeFileName('My Design (final).PNG')).toBe('My-Design-final.png');
+      expect(sanitizeFileName('../../etc/passwd')).toBe('etc-passwd');
+      expect(sanitizeFileName('###.txt')).toBe('file.txt');
+    });
+  });
+
+  describe('formatBytes', () => {
+    it('should format sizes', () => {
+      expect(formatBytes(0)).toBe('0 Bytes');
+      expect(formatBytes(1536)).toBe('1.5 KB');
+      expect(formatBytes(50 * 1024 * 1024)).toBe('50 MB');
+    });
+  });
+
+  describe('getQuotaStatus', () => {
+    it('should report warning and exceeded levels', () => {
+      expect(getQuotaStatus(10, 100).level).toBe('ok');
+      expect(getQuotaStatus(85, 100)).toEqual({
+        usedBytes: 85,
+        quotaBytes: 100,
+        remainingBytes: 15,
+        percent: 85,
+        level: 'warning'
+      });
+      expect(getQuotaStatus(120, 100)).toEqual(expect.objectContaining({ percent: 100, remainingBytes: 0, level: 'exceeded' }));
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import {
+  ItemLink,
+  buildLinkFromOption,
+  buildRelationshipGraph,
+  getItemRelations,
+  getLinkOptions,
+  validateItemLink
+} from '../itemLinks';
+
+const link = (id: string, overrides: Partial<ItemLink>): ItemLink => ({
+  id,
+  projectId: 'project-1',
+  sourceType: 'conversation',
+  sourceId: 'conv-1',
+  targetType: 'bug',
+  targetId: 'bug-1',
+  relation: 'fixes',
+  createdAt: new Date('2025-09-14T00:00:00Z'),
+  ...overrides
+});
+
+describe('itemLinks', () => {
+  it('should validate relations against the allowed item types', () => {
+    expect(validateItemLink({ sourceType: 'conversation', sourceId: 'conv-1', targetType: 'bug', targetId: 'bug-1', relation: 'fixes' })).toBeNull();
+    expect(validateItemLink({ sourceType: 'bug', sourceId: 'bug-2', targetType: 'bug', targetId: 'bug-1', relation: 'duplicate_of' })).toBeNull();
+    expect(validateItemLink({ sourceType: 'bug', sourceId: 'bug-1', targetType: 'conversation', targetId: 'conv-1', relation: 'fixes' }))
+      .toBe('A fixes link must go conversation -> bug');
+    expect(validateItemLink({ sourceType: 'bug', sourceId: 'bug-1', targetType: 'bug', targetId: 'bug-1', relation: 'caused_by' }))
+      .toBe('An item cannot be linked to itself');
+    expect(validateItemLink({ sourceType: 'task', sourceId: 'task-1', targetType: 'bug', targetId: 'bug-1', relation: 'related' }))
+      .toMatch(/^Invalid item type/);
+    expect(validateItemLink({ sourceType: 'bug', sourceId: 'bug-1', targetType: 'bug', targetId: 'bug-2', relation: 'blocks' }))
+      .toMatch(/^Invalid relation/);
+  });
+
+  it('should offer both directions of bug to bug relations', () => {
+    expect(getLinkOptions('bug').map(option => option.label)).toEqual([
+      'Related to', 'Fixed in', 'Duplicate of', 'Duplicated by', 'Caused by', 'Causes'
+    ]);
+
+    const causes = getLinkOptions('bug').find(option => option.label === 'Causes')!;
+    expect(buildLinkFromOption({ type: 'bug', id: 'bug-1' }, causes, 'bug-2')).toEqual({
+      sourceType: 'bug', sourceId: 'bug-2', targetType: 'bug', targetId: 'bug-1', relation: 'caused_by'
+    });
+  });
+
+  it('should read links from either end', () => {
+    const links = [
+      link('link-1', {}),
+      link('link-2', { sourceType: 'bug', sourceId: 'bug-2', targetId: 'bug-1', relation: 'duplicate_of' }),
+      link('link-3', { sourceId: 'conv-2', targetType: 'feature', targetId: 'feature-1', relation: 'implements' })
+    ];
+
+    expect(getItemRelations({ type: 'bug', id: 'bug-1' }, links)).toEqual([
+      { linkId: 'link-1', relation: 'fixes', inverse: true, label: 'Fixed in', type: 'conversation', id: 'conv-1' },
+      { linkId: 'link-2', relation: 'duplicate_of', inverse: true, label: 'Duplicated by', type: 'bug', id: 'bug-2' }
+    ]);
+    expect(getItemRelations({ type: 'conversation', id: 'conv-1' }, links)).toEqual([
+      { linkId: 'link-1', relation: 'fixes', inverse: false, label: 'Fixes', type: 'bug', id: 'bug-1' }
+    ]);
+  });
+
+  it('should build a graph from links and bug features, dropping missing items', () => {
+    const items = [
+      { type: 'conversation' as const, id: 'conv-1', title: 'Fix login' },
+      { type: 'bug' as const, id: 'bug-1', title: 'Login fails', featureId: 'feature-1' },
+      { type: 'feature' as const, id: 'feature-1', title: 'Login' },
+      { type: 'document' as const, id: 'doc-1', title: 'Notes' }
+    ];
+    const links = [link('link-1', {}), link('link-2', { targetId: 'deleted-bug' })];
+
+    const graph = buildRelationshipGraph(items, links, { width: 400, height: 300 });
+
+    expect(graph.edges.map(edge => `${edge.source} ${edge.label} ${edge.target}`)).toEqual([
+      'conversation:conv-1 Fixes bug:bug-1',
+      'bug:bug-1 Belongs to feature:feature-1'
+    ]);
+    expect(graph.nodes.map(node => [node.key, node.degree])).toEqual([
+      ['conversation:conv-1', 1], ['bug:bug-1', 2], ['feature:feature-1', 1]
+    ]);
+    graph.nodes.forEach(node => {
+      expect(node.x).toBeGreaterThanOrEqual(40);
+      expect(node.x).toBeLessThanOrEqual(360);
+      expect(node.y).toBeGreaterThanOrEqual(40);
+      expect(node.y).toBeLessThanOrEqual(260);
+    });
+
+    expect(buildRelationshipGraph(items, links, { includeUnlinked: true }).nodes).toHaveLength(4);
+    expect(buildRelationshipGraph(items, links)).toEqual(buildRelationshipGraph(items, links));
+  });
+});
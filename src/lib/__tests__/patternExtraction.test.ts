@@ -0,0 +1,110 @@
+import {
+  MAX_PATTERN_CODE_EXAMPLES,
+  buildPatternRow,
+  detectTechStack,
+  extractPatternFromBug,
+  extractPatternFromConversation,
+  getPatternSuccessRate,
+  normalizeTechStack
+} from '../patternExtraction';
+
+describe('patternExtraction', () => {
+  describe('detectTechStack', () => {
+    it('should detect technologies from file paths and text', () => {
+      expect(detectTechStack(
+        ['Refresh the Supabase session in an Express middleware'],
+        ['src/hooks/useAuth.tsx', 'supabase/migrations/001_init.sql']
+      )).toEqual(['express', 'react', 'sql', 'supabase', 'typescript']);
+    });
+
+    it('should keep a known stack', () => {
+      expect(detectTechStack([], [], ['Next.js', ' Prisma '])).toEqual(['next.js', 'prisma']);
+    });
+  });
+
+  describe('normalizeTechStack', () => {
+    it('should accept arrays and comma-separated strings', () => {
+      expect(normalizeTechStack(['React', 'react', '', 42])).toEqual(['react']);
+      expect(normalizeTechStack('react, Supabase')).toEqual(['react', 'supabase']);
+      expect(normalizeTechStack(undefined)).toEqual([]);
+    });
+  });
+
+  describe('extractPatternFromConversation', () => {
+    const conversation = {
+      id: 'conv-1',
+      title: 'Debounce search input',
+      implementation_summary: 'Wrapped the search handler in a debounce hook.\nCancels pending calls on unmount.',
+      code_changes: [
+        { file_path: 'src/hooks/useDebounce.ts', action: 'create', after_content: 'export const useDebounce = () => {}', change_summary: 'New hook' },
+        { file_path: 'src/old.ts', action: 'delete', after_content: null },
+        { file_path: 'src/a.ts', action: 'edit', diff: '+a' },
+        { file_path: 'src/b.ts', action: 'edit', diff: '+b' },
+        { file_path: 'src/c.ts', action: 'edit', diff: '+c' }
+      ],
+      files_changed: ['src/components/Search.tsx'],
+      tags: ['Performance'],
+      project_context: { techStack: ['vite'] }
+    };
+
+    it('should build a pattern from the summary and code changes', () => {
+      const draft = extractPatternFromConversation(conversation);
+
+      expect(draft.title).toBe('Debounce search input');
+      expect(draft.description).toBe('Wrapped the search handler in a debounce hook.');
+      expect(draft.solution).toBe(conversation.implementation_summary);
+      expect(draft.codeExamples).toHaveLength(MAX_PATTERN_CODE_EXAMPLES);
+      expect(draft.codeExamples[0]).toEqual({
+        filePath: 'src/hooks/useDebounce.ts',
+        language: 'typescript',
+        code: 'export const useDebounce = () => {}',
+        summary: 'New hook'
+      });
+      expect(draft.techStack).toEqual(['react', 'typescript', 'vite']);
+      expect(draft.tags).toEqual(['performance']);
+      expect(draft.sources).toEqual([{ type: 'conversation', id: 'conv-1', title: 'Debounce search input' }]);
+    });
+  });
+
+  describe('extractPatternFromBug', () => {
+    it('should use the solution and fold symptoms into the description', () => {
+      const draft = extractPatternFromBug({
+        id: 'bug-1',
+        title: 'Session lost on reload',
+        description: 'Users are logged out',
+        solution: ' Persist the Supabase session ',
+        symptoms: ['Redirect to login', '']
+      });
+
+      expect(draft.description).toBe('Users are logged out\n\nSymptoms: Redirect to login');
+      expect(draft.solution).toBe('Persist the Supabase session');
+      expect(draft.techStack).toEqual(['supabase']);
+      expect(draft.sourceType).toBe('bug');
+    });
+  });
+
+  describe('buildPatternRow', () => {
+    it('should map a draft to table columns', () => {
+      const draft = extractPatternFromBug({ id: 'bug-1', title: 'Crash', solution: 'Guard null', tags: ['UI'] });
+      expect(buildPatternRow(draft, 'user-1', null)).toEqual({
+        user_id: 'user-1',
+        project_id: null,
+        title: 'Crash',
+        description: '',
+        solution: 'Guard null',
+        code_examples: [],
+        tech_stack: [],
+        tags: ['ui'],
+        source_type: 'bug',
+        sources: [{ type: 'bug', id: 'bug-1', title: 'Crash' }]
+      });
+    });
+  });
+
+  describe('getPatternSuccessRate', () => {
+    it('should return null until the pattern is used', () => {
+      expect(getPatternSuccessRate(0, 0)).toBeNull();
+      expect(getPatternSuccessRate(3, 2)).toBe(67);
+    });
+  });
+});
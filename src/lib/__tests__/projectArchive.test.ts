@@ -0,0 +1,205 @@
+import { TextDecoder, TextEncoder } from 'util';
+import {
+  ProjectArchive,
+  ProjectArchiveError,
+  archiveFileName,
+  buildArchiveFiles,
+  emptyCollections,
+  formatTranscript,
+  parseArchiveFiles,
+  parseFrontMatter,
+  parseTranscript,
+  remapArchiveIds,
+  slugify
+} from '../projectArchive';
+import { ZipEntry } from '../zip';
+
+// jsdom does not provide TextEncoder and TextDecoder
+Object.assign(global, { TextDecoder, TextEncoder });
+
+const IMAGE_URL = 'https://example.supabase.co/storage/v1/object/public/bug-images/p1/b1/shot.png';
+
+const sampleArchive = (): ProjectArchive => {
+  const collections = emptyCollections();
+  collections.documents = [
+    { id: 'd1', project_id: 'p1', user_id: 'u1', title: 'Login PRD', type: 'prd', tags: ['auth'], content: '# Login\n\n---\n\nDetails' },
+    { id: 'd2', project_id: 'p1', user_id: 'u1', title: 'Login PRD', type: 'prd', tags: [], content: '' }
+  ];
+  collections.features = [{ id: 'f1', project_id: 'p1', title: 'Sign in', status: 'planned', content: 'Spec' }];
+  collections.featureFiles = [
+    { id: 'ff2', feature_id: 'f1', parent_id: 'ff1', name: 'notes.md', metadata: { fileType: 'note' }, content: 'Child' },
+    { id: 'ff1', feature_id: 'f1', parent_id: null, name: 'requirements.md', metadata: {}, content: 'Parent' }
+  ];
+  collections.bugs = [{ id: 'b1', project_id: 'p1', feature_id: 'f1', title: 'Crash on save', content: `See ![shot](${IMAGE_URL})` }];
+  collections.conversations = [{
+    id: 'c1',
+    title: 'Debugging',
+    search_vector: "'debug':1",
+    messages: [
+      { role: 'user', content: 'Why does it crash?\n\nIt --> fails', timestamp: '2025-09-01T10:00:00Z' },
+      { role: 'assistant', content: '', tool_calls: [{ name: 'Read', input: { path: 'a.ts' } }] }
+    ]
+  }];
+  collections.tasks = [{ id: 't1', title: 'Fix crash', bug_id: 'b1', feature_id: 'missing', description: 'Soon' }];
+  collections.events = [{ id: 'e1', title: 'Review', event_date: '2025-09-20', description: 'Spec review' }];
+
+  return {
+    project: { id: 'p1', user_id: 'u1', name: 'RefBase', description: 'Knowledge base', icon: '🚀', archived_at: null },
+    collections,
+    images: [{
+      bugId: 'b1',
+      filename: 'shot.png',
+      metadata: { id: 'i1', bug_id: 'b1', image_path: 'p1/b1/shot.png', filename: 'shot.png', mime_type: 'image/png', width: 2 },
+      data: new Uint8Array([1, 2, 3]),
+      url: IMAGE_URL
+    }]
+  };
+};
+
+const toFiles = (entries: ZipEntry[], prefix = '') =>
+  new Map(entries.map(entry => [
+    `${prefix}${entry.path}`,
+    typeof entry.data === 'string' ? new TextEncoder().encode(entry.data) : entry.data
+  ]));
+
+const fileText = (entries: ZipEntry[], path: string) => entries.find(entry => entry.path === path)?.data as string;
+
+describe('projectArchive', () => {
+  it('should lay items out as Markdown files with front-matter', () => {
+    const entries = buildArchiveFiles(sampleArchive(), new Date('2025-09-19T12:00:00Z'));
+
+    expect(entries.map(entry => entry.path)).toEqual([
+      'manifest.json',
+      'project.md',
+      'documents/login-prd.md',
+      'documents/login-prd-2.md',
+      'features/sign-in/feature.md',
+      'features/sign-in/notes.md',
+      'features/sign-in/requirements.md',
+      'bugs/crash-on-save/images/shot.png',
+      'bugs/crash-on-save/bug.md',
+      'conversations/debugging.md',
+      'tasks/fix-crash.md',
+      'events/2025-09-20-review.md'
+    ]);
+    expect(fileText(entries, 'documents/login-prd.md')).toBe(
+      '---\nid: "d1"\ntitle: "Login PRD"\ntype: "prd"\ntags: ["auth"]\n---\n\n# Login\n\n---\n\nDetails'
+    );
+    // Owner columns stay out of the archive; images are linked inside it
+    expect(fileText(entries, 'project.md')).not.toContain('user_id');
+    expect(fileText(entries, 'bugs/crash-on-save/bug.md')).toContain('See ![shot](images/shot.png)');
+
+    const manifest = JSON.parse(fileText(entries, 'manifest.json'));
+    expect(manifest).toMatchObject({ format: 'refbase-project', version: 1, exportedAt: '2025-09-19T12:00:00.000Z' });
+    expect(manifest.counts).toEqual({ documents: 2, features: 1, featureFiles: 2, bugs: 1, conversations: 1, tasks: 1, events: 1, images: 1 });
+    expect(manifest.images[0]).toEqual({
+      bugId: 'b1',
+      path: 'bugs/crash-on-save/images/shot.png',
+      metadata: { filename: 'shot.png', mime_type: 'image/png', width: 2 }
+    });
+  });
+
+  it('should read back what it exports, also from inside a folder', () => {
+    const source = sampleArchive();
+    const entries = buildArchiveFiles(source);
+
+    [toFiles(entries), toFiles(entries, 'refbase-backup/')].forEach(files => {
+      const archive = parseArchiveFiles(files);
+
+      expect(archive.project).toEqual({ name: 'RefBase', description: 'Knowledge base', icon: '🚀' });
+      expect(archive.collections.documents[0]).toEqual({ id: 'd1', title: 'Login PRD', type: 'prd', tags: ['auth'], content: '# Login\n\n---\n\nDetails' });
+      expect(archive.collections.documents[1].content).toBe('');
+      expect(archive.collections.featureFiles.map(row => row.metadata)).toEqual([{ fileType: 'note' }, {}]);
+      expect(archive.collections.conversations[0]).toEqual({ id: 'c1', title: 'Debugging', messages: source.collections.conversations[0].messages });
+      expect(archive.collections.bugs[0].content).toBe('See ![shot](images/shot.png)');
+      expect(archive.images).toEqual([{
+        bugId: 'b1',
+        filename: 'shot.png',
+        metadata: { filename: 'shot.png', mime_type: 'image/png', width: 2 },
+        data: new Uint8Array([1, 2, 3])
+      }]);
+    });
+  });
+
+  it('should keep conversation transcripts readable and lossless', () => {
+    const messages = [
+      { role: 'user', content: 'First\n\nsecond paragraph\n' },
+      { role: 'assistant', content: '### Heading in the answer', model: 'x' }
+    ];
+    const transcript = formatTranscript(messages);
+
+    expect(transcript).toContain('### User\n\nFirst');
+    expect(parseTranscript(transcript)).toEqual(messages);
+    expect(parseTranscript(`# Notes\n\n${transcript}`)).toEqual(messages);
+  });
+
+  it('should accept hand-edited YAML front-matter', () => {
+    expect(parseFrontMatter('---\r\ntitle: Plain title\r\nstatus: \'won\'\'t fix\'\r\n# comment\r\npriority: 2\r\nassignee:\r\n---\r\nBody')).toEqual({
+      fields: { title: 'Plain title', status: "won't fix", priority: 2, assignee: null },
+      body: 'Body'
+    });
+    expect(parseFrontMatter('No front-matter')).toEqual({ fields: {}, body: 'No front-matter' });
+    expect(() => parseFrontMatter('---\ntags:\n  - a\n---\n')).toThrow(ProjectArchiveError);
+  });
+
+  it('should explain why an archive cannot be imported', () => {
+    const entries = buildArchiveFiles(sampleArchive());
+    const files = toFiles(entries);
+
+    expect(() => parseArchiveFiles(new Map())).toThrow('manifest.json is missing');
+
+    files.delete('tasks/fix-crash.md');
+    expect(() => parseArchiveFiles(files)).toThrow('tasks/fix-crash.md is listed in manifest.json but missing from the archive');
+
+    const newer = toFiles(entries);
+    const manifest = JSON.parse(fileText(entries, 'manifest.json'));
+    newer.set('manifest.json', new TextEncoder().encode(JSON.stringify({ ...manifest, version: 2 })));
+    expect(() => parseArchiveFiles(newer)).toThrow('newer version');
+
+    const broken = toFiles(entries);
+    broken.set('events/2025-09-20-review.md', new TextEncoder().encode('---\ntitle: "Review"\n'));
+    expect(() => parseArchiveFiles(broken)).toThrow('events/2025-09-20-review.md: The front-matter is not closed with ---');
+  });
+
+  it('should keep image names from reaching outside their folder', () => {
+    const entries = buildArchiveFiles(sampleArchive());
+    const manifest = JSON.parse(fileText(entries, 'manifest.json'));
+    const withImageName = (filename: string) => {
+      const files = toFiles(entries);
+      const images = [{ ...manifest.images[0], metadata: { ...manifest.images[0].metadata, filename } }];
+      files.set('manifest.json', new TextEncoder().encode(JSON.stringify({ ...manifest, images })));
+      return files;
+    };
+
+    expect(parseArchiveFiles(withImageName('../../other-project/x.png')).images[0].filename).toBe('..-..-other-project-x.png');
+    expect(parseArchiveFiles(withImageName('a\\b.png')).images[0].filename).toBe('a-b.png');
+    expect(() => parseArchiveFiles(withImageName('..'))).toThrow('has no usable file name');
+    // An empty name falls back to the name of the file in the archive
+    expect(parseArchiveFiles(withImageName('')).images[0].filename).toBe('shot.png');
+  });
+
+  it('should give items new ids and keep references between them', () => {
+    let next = 0;
+    const archive = remapArchiveIds(sampleArchive(), () => `new-${++next}`);
+    const [feature] = archive.collections.features;
+    const [bug] = archive.collections.bugs;
+    const [task] = archive.collections.tasks;
+
+    expect(archive.collections.documents.map(row => row.id)).toEqual(['new-1', 'new-2']);
+    expect(bug.feature_id).toBe(feature.id);
+    expect(task.bug_id).toBe(bug.id);
+    // Pointed outside the archive
+    expect(task.feature_id).toBeNull();
+    // Parent files are saved before their children
+    expect(archive.collections.featureFiles.map(row => row.name)).toEqual(['requirements.md', 'notes.md']);
+    expect(archive.collections.featureFiles[1].parent_id).toBe(archive.collections.featureFiles[0].id);
+    expect(archive.images[0].bugId).toBe(bug.id);
+  });
+
+  it('should name files and downloads after titles', () => {
+    expect(slugify('Crème Brûlée: v1.2 / Notes!')).toBe('creme-brulee-v1.2-notes');
+    expect(slugify('requirements.md')).toBe('requirements');
+    expect(slugify('???')).toBe('untitled');
+    expect(archiveFileName('My Project', new Date('2025-09-19T08:00:00Z'))).toBe('my-project-2025-09-19.zip');
+  });
+});
@@ -0,0 +1,165 @@
+import { ProjectDataCache, buildCursorFilter, splitPage } from '../projectDataCache';
+import { Document } from '../../types';
+
+const makeDocument = (id: string, projectId: string, title = id): Document => ({
+  id,
+  projectId,
+  title,
+  content: '',
+  type: 'custom',
+  createdAt: new Date('2025-09-01T00:00:00Z'),
+  updatedAt: new Date('2025-09-01T00:00:00Z')
+});
+
+describe('projectDataCache', () => {
+  describe('buildCursorFilter', () => {
+    it('should select rows after the cursor with the id as tie-breaker', () => {
+      const cursor = { value: '2025-09-01T10:00:00.123+00:00', id: 'abc' };
+
+      expect(buildCursorFilter('created_at', cursor, false)).toBe(
+        'created_at.lt."2025-09-01T10:00:00.123+00:00",and(created_at.eq."2025-09-01T10:00:00.123+00:00",id.lt.abc)'
+      );
+      expect(buildCursorFilter('event_date', { value: '2025-09-01', id: 'abc' }, true)).toBe(
+        'event_date.gt."2025-09-01",and(event_date.eq."2025-09-01",id.gt.abc)'
+      );
+    });
+  });
+
+  describe('splitPage', () => {
+    const rows = [
+      { id: 'a', created_at: '2025-09-03' },
+      { id: 'b', created_at: '2025-09-02' },
+      { id: 'c', created_at: '2025-09-01' }
+    ];
+
+    it('should drop the extra row and point the cursor at the last kept row', () => {
+      expect(splitPage(rows, 'created_at', 2)).toEqual({
+        rows: rows.slice(0, 2),
+        hasMore: true,
+        cursor: { value: '2025-09-02', id: 'b' }
+      });
+    });
+
+    it('should report the last page', () => {
+      expect(splitPage(rows, 'created_at', 3).hasMore).toBe(false);
+      expect(splitPage([], 'created_at', 3)).toEqual({ rows: [], hasMore: false, cursor: null });
+    });
+  });
+
+  describe('ProjectDataCache', () => {
+    let cache: ProjectDataCache;
+
+    beforeEach(() => {
+      cache = new ProjectDataCache();
+      cache.reset('user-1');
+    });
+
+    it('should keep a snapshot until its collection changes', () => {
+      cache.upsert('documents', [makeDocument('d1', 'p1')]);
+      const documents = cache.getAll('documents');
+      const tasks = cache.getAll('tasks');
+
+      cache.upsert('documents', [makeDocument('d2', 'p1')]);
+
+      expect(cache.getAll('documents')).not.toBe(documents);
+      expect(cache.getAll('documents').map(d => d.id)).toEqual(['d1', 'd2']);
+      expect(cache.getAll('tasks')).toBe(tasks);
+    });
+
+    it('should replace existing records in place and prepend on request', () => {
+      cache.upsert('documents', [makeDocument('d1', 'p1'), makeDocument('d2', 'p1')]);
+      cache.upsert('documents', [makeDocument('d1', 'p1', 'Renamed')]);
+      cache.upsert('documents', [makeDocument('d3', 'p1')], 'start');
+
+      expect(cache.getAll('documents').map(d => d.id)).toEqual(['d3', 'd1', 'd2']);
+      expect(cache.get('documents', 'd1')?.title).toBe('Renamed');
+    });
+
+    it('should update and remove records', () => {
+      cache.upsert('documents', [makeDocument('d1', 'p1'), makeDocument('d2', 'p1')]);
+      cache.update('documents', 'd2', { title: 'Updated' });
+      cache.remove('documents', d => d.id === 'd1');
+
+      expect(cache.getAll('documents')).toEqual([expect.objectContaining({ id: 'd2', title: 'Updated' })]);
+    });
+
+    it('should replace only the given project when a first page is reloaded', () => {
+      cache.upsert('documents', [makeDocument('d1', 'p1'), makeDocument('d2', 'p2')]);
+      cache.replaceProjectRecords('p1', 'documents', [makeDocument('d3', 'p1')]);
+
+      expect(cache.getAll('documents').map(d => d.id)).toEqual(['d2', 'd3']);
+    });
+
+    it('should track page state per project and collection', () => {
+      cache.setPageState('p1', 'documents', { loaded: true, hasMore: true, cursor: { value: 'x', id: 'd1' } });
+
+      expect(cache.getPageState('p1', 'documents')).toEqual(expect.objectContaining({ loaded: true, hasMore: true }));
+      expect(cache.getPageState('p2', 'documents').loaded).toBe(false);
+      expect(cache.getLoadedPages()).toEqual([{ projectId: 'p1', collection: 'documents' }]);
+    });
+
+    it('should drop a project with its records and page state', () => {
+      cache.upsert('projects', [{ id: 'p1', name: 'One', description: '', icon: '', color: '', createdAt: new Date(), updatedAt: new Date() }]);
+      cache.upsert('documents', [makeDocument('d1', 'p1'), makeDocument('d2', 'p2')]);
+      cache.setPageState('p1', 'documents', { loaded: true });
+
+      cache.removeProject('p1');
+
+      expect(cache.getAll('projects')).toEqual([]);
+      expect(cache.getAll('documents').map(d => d.id)).toEqual(['d2']);
+      expect(cache.getPageState('p1', 'documents').loaded).toBe(false);
+    });
+
+    it('should notify subscribers and clear everything on reset', () => {
+      const listener = jest.fn();
+      const unsubscribe = cache.subscribe(listener);
+
+      cache.upsert('documents', [makeDocument('d1', 'p1')]);
+      cache.setProjectsStatus('loaded');
+      cache.reset('user-2');
+      unsubscribe();
+      cache.upsert('documents', [makeDocument('d2', 'p1')]);
+
+      expect(listener).toHaveBeenCalledTimes(3);
+      expect(cache.getOwner()).toBe('user-2');
+      expect(cache.getProjectsStatus()).toBe('idle');
+      expect(cache.getAll('documents').map(d => d.id)).toEqual(['d2']);
+    });
+
+    describe('applyRemoteChange', () => {
+      it('should update existing records and add new ones only to loaded projects', () => {
+        cache.setPageState('p1', 'documents', { loaded: true });
+        cache.upsert('documents', [makeDocument('d1', 'p1')]);
+
+        cache.applyRemoteChange('documents', { type: 'upsert', record: makeDocument('d1', 'p1', 'Remote') });
+        cache.applyRemoteChange('documents', { type: 'upsert', record: makeDocument('d2', 'p1') });
+        cache.applyRemoteChange('documents', { type: 'upsert', record: makeDocument('d3', 'p2') });
+
+        expect(cache.getAll('documents').map(d => d.id)).toEqual(['d2', 'd1']);
+        expect(cache.get('documents', 'd1')?.title).toBe('Remote');
+      });
+
+      it('should remove deleted records', () => {
+        cache.upsert('documents', [makeDocument('d1', 'p1'), makeDocument('d2', 'p1')]);
+
+        cache.applyRemoteChange('documents', { type: 'delete', id: 'd1' });
+
+        expect(cache.getAll('documents').map(d => d.id)).toEqual(['d2']);
+      });
+
+      it('should hold changes to records with a local write in flight', () => {
+        cache.upsert('documents', [makeDocument('d1', 'p1', 'Local')]);
+        cache.beginWrite('documents', 'd1');
+        cache.beginWrite('documents', 'd1');
+
+        cache.applyRemoteChange('documents', { type: 'upsert', record: makeDocument('d1', 'p1', 'First') });
+        cache.applyRemoteChange('documents', { type: 'upsert', record: makeDocument('d1', 'p1', 'Second') });
+        cache.endWrite('documents', 'd1');
+        expect(cache.get('documents', 'd1')?.title).toBe('Local');
+
+        cache.endWrite('documents', 'd1');
+        expect(cache.get('documents', 'd1')?.title).toBe('Second');
+      });
+    });
+  });
+});
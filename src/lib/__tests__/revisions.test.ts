@@ -0,0 +1,63 @@
+import {
+  buildRestoreUpdate,
+  buildSideBySideRows,
+  diffLines,
+  isRevisionItemType,
+  summarizeDiff,
+  validateRevisionName
+} from '../revisions';
+
+describe('revisions', () => {
+  it('should diff lines with removals before additions', () => {
+    const lines = diffLines('# Title\nold line\nshared\nend', '# Title\nnew line\nshared\nadded\nend');
+
+    expect(lines.map(line => `${line.type[0]} ${line.text}`)).toEqual([
+      'u # Title',
+      'r old line',
+      'a new line',
+      'u shared',
+      'a added',
+      'u end'
+    ]);
+    expect(lines[4]).toEqual({ type: 'added', text: 'added', oldNumber: null, newNumber: 4 });
+    expect(lines[5]).toEqual({ type: 'unchanged', text: 'end', oldNumber: 4, newNumber: 5 });
+    expect(summarizeDiff(lines)).toEqual({ added: 2, removed: 1 });
+  });
+
+  it('should treat empty text as having no lines', () => {
+    expect(diffLines('', '')).toEqual([]);
+    expect(summarizeDiff(diffLines('', 'a\nb'))).toEqual({ added: 2, removed: 0 });
+    expect(summarizeDiff(diffLines('a\r\nb', 'a\nb'))).toEqual({ added: 0, removed: 0 });
+  });
+
+  it('should pair removed and added lines side by side', () => {
+    const rows = buildSideBySideRows(diffLines('a\nb\nc\nd', 'a\nx\nd'));
+
+    expect(rows.map(row => [row.left?.text ?? null, row.right?.text ?? null])).toEqual([
+      ['a', 'a'],
+      ['b', 'x'],
+      ['c', null],
+      ['d', 'd']
+    ]);
+  });
+
+  it('should validate item types and snapshot names', () => {
+    expect(isRevisionItemType('feature_file')).toBe(true);
+    expect(isRevisionItemType('feature')).toBe(false);
+
+    expect(validateRevisionName('Before rewrite')).toBeNull();
+    expect(validateRevisionName('  ')).toBe('Snapshot name is required');
+    expect(validateRevisionName(42)).toBe('Snapshot name is required');
+    expect(validateRevisionName('x'.repeat(101))).toBe('Snapshot name must be at most 100 characters');
+  });
+
+  it('should restore session notes as a single message', () => {
+    const now = new Date('2025-09-16T10:00:00Z');
+
+    expect(buildRestoreUpdate('document', 'body', now)).toEqual({ content: 'body', updated_at: '2025-09-16T10:00:00.000Z' });
+    expect(buildRestoreUpdate('conversation', 'notes', now)).toEqual({
+      messages: [{ role: 'user', content: 'notes', timestamp: '2025-09-16T10:00:00.000Z' }],
+      updated_at: '2025-09-16T10:00:00.000Z'
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { ChatMessage } from '../../types';
+import {
+  ChatMember,
+  buildChatThreads,
+  countUnreadMessages,
+  getChatComposerQuery,
+  parseChatReferences,
+  parseMentions,
+  splitChatMessage
+} from '../teamChat';
+
+const BUG_ID = '11111111-2222-3333-4444-555555555555';
+const FEATURE_ID = 'aaaaaaaa-bbbb-cccc-dddd-eeeeeeeeeeee';
+
+const member = (userId: string, displayName: string): ChatMember => ({
+  projectId: 'project-1',
+  userId,
+  displayName,
+  role: 'member',
+  lastReadAt: null
+});
+
+const message = (id: string, overrides: Partial<ChatMessage> = {}): ChatMessage => ({
+  id,
+  projectId: 'project-1',
+  userId: 'user-1',
+  author: 'Ann',
+  content: 'Hello',
+  parentId: null,
+  mentions: [],
+  timestamp: new Date('2025-09-15T10:00:00Z'),
+  ...overrides
+});
+
+const members = [member('user-1', 'Ann'), member('user-2', 'Ann Lee'), member('user-3', 'Bob')];
+
+describe('teamChat', () => {
+  it('should split mentions and references out of a message', () => {
+    expect(splitChatMessage(`@Ann Lee can you check #bug:${BUG_ID} with @bob?`, members)).toEqual([
+      { kind: 'mention', text: '@Ann Lee', userId: 'user-2' },
+      { kind: 'text', text: ' can you check ' },
+      { kind: 'reference', text: `#bug:${BUG_ID}`, type: 'bug', id: BUG_ID },
+      { kind: 'text', text: ' with ' },
+      { kind: 'mention', text: '@Bob', userId: 'user-3' },
+      { kind: 'text', text: '?' }
+    ]);
+    expect(splitChatMessage('mail ann@Ann.com or @Annie', members)).toEqual([{ kind: 'text', text: 'mail ann@Ann.com or @Annie' }]);
+  });
+
+  it('should collect mentioned user ids and references without duplicates', () => {
+    expect(parseMentions('@Bob and @Ann, then @Bob again', members)).toEqual(['user-3', 'user-1']);
+    expect(parseChatReferences(`#feature:${FEATURE_ID} #bug:${BUG_ID} #FEATURE:${FEATURE_ID.toUpperCase()} #bug:nope`)).toEqual([
+      { type: 'feature', id: FEATURE_ID },
+      { type: 'bug', id: BUG_ID }
+    ]);
+  });
+
+  it('should find the word being completed at the caret', () => {
+    expect(getChatComposerQuery('Hi @an', 6)).toEqual({ trigger: '@', query: 'an', start: 3 });
+    expect(getChatComposerQuery('See #', 5)).toEqual({ trigger: '#', query: '', start: 4 });
+    expect(getChatComposerQuery('Hi @an there', 12)).toBeNull();
+    expect(getChatComposerQuery('mail a@b', 8)).toBeNull();
+  });
+
+  it('should group replies under their thread in time order', () => {
+    const threads = buildChatThreads([
+      message('reply-2', { parentId: 'root-1', timestamp: new Date('2025-09-15T10:05:00Z') }),
+      message('root-2', { timestamp: new Date('2025-09-15T10:02:00Z') }),
+      message('root-1'),
+      message('reply-1', { parentId: 'root-1', timestamp: new Date('2025-09-15T10:01:00Z') }),
+      message('orphan', { parentId: 'not-loaded', timestamp: new Date('2025-09-15T10:03:00Z') })
+    ]);
+
+    expect(threads.map(thread => thread.root.id)).toEqual(['root-1', 'root-2', 'orphan']);
+    expect(threads[0].replies.map(reply => reply.id)).toEqual(['reply-1', 'reply-2']);
+    expect(threads[1].replies).toEqual([]);
+  });
+
+  it('should count unread messages from other members', () => {
+    const messages = [
+      message('own', { timestamp: new Date('2025-09-15T11:00:00Z') }),
+      message('old', { userId: 'user-2', timestamp: new Date('2025-09-15T09:00:00Z') }),
+      message('new', { userId: 'user-2', timestamp: new Date('2025-09-15T11:00:00Z') }),
+      message('deleted', { userId: 'user-3', timestamp: new Date('2025-09-15T11:00:00Z'), deletedAt: new Date('2025-09-15T11:01:00Z') })
+    ];
+
+    expect(countUnreadMessages(messages, 'user-1', new Date('2025-09-15T10:00:00Z'))).toBe(1);
+    expect(countUnreadMessages(messages, 'user-1', null)).toBe(2);
+  });
+});
@@ -0,0 +1,80 @@
+import {
+  BUILT_IN_TEMPLATES,
+  Template,
+  TEMPLATE_ITEM_TYPES,
+  extractTemplateVariables,
+  findUnknownVariables,
+  formatTemplateDate,
+  getBuiltInTemplate,
+  getDefaultTemplate,
+  getTemplatesFor,
+  renderTemplate,
+  validateTemplate
+} from '../templates';
+
+const userTemplate = (overrides: Partial<Template>): Template => ({
+  id: 'user-1',
+  projectId: null,
+  name: 'Team PRD',
+  description: '',
+  target: 'document',
+  itemType: 'prd',
+  content: '# {{document.title}}',
+  builtIn: false,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides
+});
+
+describe('templates', () => {
+  it('should fill in variables and leave unknown or missing ones as written', () => {
+    const content = '# {{ feature.title }} for {{project.name}}\n{{project.description}} {{date}} {{owner}}';
+
+    expect(renderTemplate(content, {
+      project: { name: 'RefBase' },
+      feature: { title: 'Export' },
+      date: '2025-09-17'
+    })).toBe('# Export for RefBase\n{{project.description}} 2025-09-17 {{owner}}');
+  });
+
+  it('should list used variables and flag unknown ones', () => {
+    const content = '{{project.name}} {{feature.title}} {{project.name}} {{feature.owner}}';
+
+    expect(extractTemplateVariables(content)).toEqual(['project.name', 'feature.title', 'feature.owner']);
+    expect(findUnknownVariables(content)).toEqual(['feature.owner']);
+  });
+
+  it('should only ship built-ins for stored item types', () => {
+    BUILT_IN_TEMPLATES.forEach(template => {
+      expect(TEMPLATE_ITEM_TYPES[template.target]).toContain(template.itemType);
+      expect(findUnknownVariables(template.content)).toEqual([]);
+      expect(getBuiltInTemplate(template.id)).toBe(template);
+    });
+    expect(getDefaultTemplate('feature_file', 'requirement')?.name).toBe('Requirements');
+    expect(getDefaultTemplate('document', 'custom')).toBeNull();
+  });
+
+  it('should offer built-ins first, then user templates by name', () => {
+    const templates = getTemplatesFor([
+      userTemplate({ id: 'b', name: 'Zeta PRD' }),
+      userTemplate({ id: 'a', name: 'Alpha PRD' }),
+      userTemplate({ id: 'c', itemType: 'ux-flow' })
+    ], 'document', 'prd');
+
+    expect(templates.map(template => template.id)).toEqual(['builtin:document:prd', 'a', 'b']);
+  });
+
+  it('should validate templates against their target', () => {
+    const valid = { name: 'Spec', target: 'feature_file', itemType: 'testing', content: '' };
+
+    expect(validateTemplate(valid)).toBeNull();
+    expect(validateTemplate({ ...valid, name: ' ' })).toBe('Template name is required');
+    expect(validateTemplate({ ...valid, target: 'bug' })).toBe('Invalid target. Must be one of: document, feature_file');
+    expect(validateTemplate({ ...valid, itemType: 'prd' })).toMatch(/^Invalid feature file type/);
+    expect(validateTemplate({ ...valid, content: undefined })).toBe('Template content is required');
+  });
+
+  it('should format dates as YYYY-MM-DD', () => {
+    expect(formatTemplateDate(new Date(2025, 0, 5))).toBe('2025-01-05');
+  });
+});
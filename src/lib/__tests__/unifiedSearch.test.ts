@@ -0,0 +1,94 @@
+import { SEARCH_FILTER_COLUMNS, SearchableItem, buildTermFilter, searchItems, tokenizeQuery } from '../unifiedSearch';
+
+const items: SearchableItem[] = [
+  {
+    type: 'bug',
+    id: 'bug-1',
+    projectId: 'p1',
+    title: 'Login redirect loop',
+    fields: [{ text: 'OAuth callback keeps redirecting to /dashboard', weight: 4 }],
+    updatedAt: '2025-09-01T00:00:00.000Z'
+  },
+  {
+    type: 'document',
+    id: 'doc-1',
+    projectId: 'p1',
+    title: 'Auth setup',
+    fields: [{ text: 'Configure the OAuth redirect URL in Supabase', weight: 2 }],
+    updatedAt: '2025-09-02T00:00:00.000Z'
+  },
+  {
+    type: 'task',
+    id: 'task-1',
+    projectId: 'p2',
+    title: 'Fix redirect after logout',
+    fields: [{ text: '', weight: 3 }]
+  }
+];
+
+describe('unifiedSearch', () => {
+  describe('tokenizeQuery', () => {
+    it('should lowercase terms and keep quoted phrases together', () => {
+      expect(tokenizeQuery('OAuth "redirect loop"  bug')).toEqual(['oauth', 'redirect loop', 'bug']);
+    });
+  });
+
+  describe('searchItems', () => {
+    it('should rank title matches above body matches', () => {
+      const { results } = searchItems(items, 'redirect');
+      expect(results.map(r => r.id)).toEqual(['bug-1', 'task-1', 'doc-1']);
+    });
+
+    it('should require every term to match', () => {
+      const { results } = searchItems(items, 'oauth logout');
+      expect(results).toHaveLength(0);
+    });
+
+    it('should build a snippet around the first body match', () => {
+      const { results } = searchItems(items, 'supabase');
+      expect(results[0].snippet).toBe('Configure the OAuth redirect URL in Supabase');
+    });
+
+    it('should count facets before applying the type filter', () => {
+      const { results, facets, total } = searchItems(items, 'redirect', { types: ['document'] });
+      expect(results.map(r => r.id)).toEqual(['doc-1']);
+      expect(total).toBe(1);
+      expect(facets).toMatchObject({ bug: 1, document: 1, task: 1, conversation: 0 });
+    });
+
+    it('should filter by project', () => {
+      const { results } = searchItems(items, 'redirect', { projectId: 'p2' });
+      expect(results.map(r => r.id)).toEqual(['task-1']);
+    });
+
+    it('should return nothing for an empty query', () => {
+      expect(searchItems(items, '   ').total).toBe(0);
+    });
+  });
+
+  describe('buildTermFilter', () => {
+    it('should match a term in any of the columns', () => {
+      expect(buildTermFilter('oauth', ['title', 'content'])).toBe('title.ilike.%oauth%,content.ilike.%oauth%');
+    });
+
+    it('should let a conversation matching only in a tag through the pre-filter', () => {
+      const session: SearchableItem = {
+        type: 'conversation',
+        id: 'conv-1',
+        projectId: 'p1',
+        title: 'Session notes',
+        fields: [
+          { text: 'Reworked the login form', weight: 4 },
+          { text: ['supabase', 'oauth'].join(' '), weight: 3 }
+        ]
+      };
+
+      expect(buildTermFilter('oauth', SEARCH_FILTER_COLUMNS.conversation)).toContain('tags_text.ilike.%oauth%');
+      expect(searchItems([session], 'oauth').results.map(r => r.id)).toEqual(['conv-1']);
+    });
+
+    it('should pre-filter feature content, which the ranking falls back to', () => {
+      expect(SEARCH_FILTER_COLUMNS.feature).toContain('content');
+    });
+  });
+});
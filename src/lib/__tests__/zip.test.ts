@@ -0,0 +1,75 @@
+import { TextDecoder, TextEncoder } from 'util';
+import { ZipError, crc32, createZip, readZip } from '../zip';
+
+// jsdom does not provide TextEncoder and TextDecoder
+Object.assign(global, { TextDecoder, TextEncoder });
+
+const text = (data: Uint8Array | undefined) => new TextDecoder().decode(data);
+
+describe('zip', () => {
+  it('should compute the standard CRC-32', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+
+  it('should read back the files it writes', async () => {
+    const image = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0, 255]);
+    const archive = createZip([
+      { path: 'manifest.json', data: '{"format":"refbase-project"}' },
+      { path: 'documents/überblick.md', data: '# Überblick\n' },
+      { path: 'bugs/crash/images/shot.png', data: image },
+      { path: 'empty.md', data: '' }
+    ]);
+
+    const files = await readZip(archive);
+
+    expect([...files.keys()]).toEqual(['manifest.json', 'documents/überblick.md', 'bugs/crash/images/shot.png', 'empty.md']);
+    expect(text(files.get('documents/überblick.md'))).toBe('# Überblick\n');
+    expect([...(files.get('bugs/crash/images/shot.png') || [])]).toEqual([...image]);
+    expect(files.get('empty.md')?.length).toBe(0);
+  });
+
+  it('should find the archive after leading bytes and a comment', async () => {
+    const archive = createZip([{ path: 'a.md', data: 'A' }]);
+    const comment = new TextEncoder().encode('exported');
+    const padded = new Uint8Array(4 + archive.length + comment.length);
+    padded.set(archive, 4);
+    padded.set(comment, 4 + archive.length);
+    // The comment length field and every offset shift with the padding
+    const view = new DataView(padded.buffer);
+    const end = 4 + archive.length - 22;
+    const central = 4 + 30 + 'a.md'.length + 1;
+    view.setUint16(end + 20, comment.length, true);
+    view.setUint32(end + 16, central, true);
+    view.setUint32(central + 42, 4, true);
+
+    const files = await readZip(padded);
+
+    expect(text(files.get('a.md'))).toBe('A');
+  });
+
+  it('should reject files that are not ZIP archives', async () => {
+    await expect(readZip(new TextEncoder().encode('not a zip file at all, just some text'))).rejects.toThrow(ZipError);
+    await expect(readZip(new Uint8Array(3))).rejects.toThrow('Not a ZIP archive');
+  });
+
+  it('should reject a truncated archive whose entries point past its end', async () => {
+    const archive = createZip([{ path: 'a.md', data: 'hello' }]);
+    const central = 30 + 'a.md'.length + 'hello'.length;
+
+    const badOffset = archive.slice();
+    new DataView(badOffset.buffer).setUint32(central + 42, archive.length - 10, true);
+    await expect(readZip(badOffset)).rejects.toThrow('The archive is damaged');
+
+    const badSize = archive.slice();
+    new DataView(badSize.buffer).setUint32(central + 20, archive.length, true);
+    await expect(readZip(badSize)).rejects.toThrow('The archive is damaged');
+  });
+
+  it('should reject an entry whose contents do not match its checksum', async () => {
+    const archive = createZip([{ path: 'a.md', data: 'hello' }]);
+    archive[30 + 'a.md'.length] ^= 0xff;
+
+    await expect(readZip(archive)).rejects.toThrow('a.md is damaged');
+  });
+});
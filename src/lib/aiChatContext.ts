@@ -0,0 +1,142 @@
+/**
+ * Project AI chat helpers: pick the bugs, features, documents and
+ * conversations relevant to a question, and build the prompt that sends
+ * them to the provider along with the thread so far.
+ *
+ * Threads are stored per project in ai_chat_threads by the AI chat modal.
+ */
+
+import { SearchEntityType, SearchableItem, scoreItem, tokenizeQuery } from './unifiedSearch';
+
+export interface AiChatContextRef {
+  type: SearchEntityType;
+  id: string;
+  title: string;
+}
+
+export interface AiChatThreadMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: string;
+  model?: string;
+  // Project items retrieved for this question
+  context?: AiChatContextRef[];
+  // Set when the provider request failed
+  error?: string;
+}
+
+export interface AiChatThread {
+  id: string;
+  projectId: string;
+  title: string;
+  messages: AiChatThreadMessage[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * A searchable project item plus the text sent to the model when it is retrieved
+ */
+export interface AiChatContextSource extends SearchableItem {
+  body: string;
+}
+
+export interface AiChatContextItem extends AiChatContextRef {
+  body: string;
+  score: number;
+}
+
+export const MAX_CONTEXT_ITEMS = 6;
+const MAX_CONTEXT_BODY_LENGTH = 1500;
+const MAX_HISTORY_MESSAGES = 10;
+const MAX_THREAD_TITLE_LENGTH = 60;
+
+const CONTEXT_LABELS: Record<SearchEntityType, string> = {
+  conversation: 'Conversation',
+  bug: 'Bug',
+  feature: 'Feature',
+  feature_file: 'Feature file',
+  document: 'Document',
+  task: 'Task'
+};
+
+const QUESTION_STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'what', 'why', 'how', 'when', 'where', 'which', 'who', 'does', 'did', 'are',
+  'was', 'were', 'can', 'could', 'should', 'would', 'this', 'that', 'these', 'those', 'there', 'our', 'your',
+  'about', 'from', 'into', 'have', 'has', 'any', 'all', 'project', 'tell', 'explain', 'show', 'list'
+]);
+
+/**
+ * Question words worth searching for. Unlike the command palette, a question
+ * matches items that contain any of them.
+ */
+export const extractQuestionTerms = (question: string): string[] =>
+  [...new Set(tokenizeQuery(question)
+    .map(term => term.replace(/^[^\w"]+|[^\w]+$/g, ''))
+    .filter(term => term.length > 2 && !QUESTION_STOP_WORDS.has(term)))];
+
+/**
+ * The project items most relevant to a question, best first
+ */
+export const retrieveChatContext = (
+  question: string,
+  sources: AiChatContextSource[],
+  limit: number = MAX_CONTEXT_ITEMS
+): AiChatContextItem[] => {
+  const terms = extractQuestionTerms(question);
+  if (terms.length === 0) return [];
+
+  return sources
+    .map(source => {
+      // Items matching more of the question rank above items matching one term often
+      const matches = terms.map(term => scoreItem(source, [term])).filter(Boolean) as Array<{ score: number }>;
+      const score = matches.reduce((sum, match) => sum + match.score, 0) * (matches.length / terms.length);
+      return { source, score };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || (b.source.updatedAt || '').localeCompare(a.source.updatedAt || ''))
+    .slice(0, limit)
+    .map(({ source, score }) => ({
+      type: source.type,
+      id: source.id,
+      title: source.title,
+      body: source.body.length > MAX_CONTEXT_BODY_LENGTH ? `${source.body.slice(0, MAX_CONTEXT_BODY_LENGTH)}…` : source.body,
+      score: Math.round(score * 100) / 100
+    }));
+};
+
+/**
+ * System prompt with the project and retrieved items, followed by the recent thread and the new question
+ */
+export const buildAiChatPrompt = (
+  project: { name: string; description?: string },
+  question: string,
+  context: AiChatContextItem[],
+  history: AiChatThreadMessage[] = []
+): Array<{ role: 'system' | 'user' | 'assistant'; content: string }> => {
+  const contextBlock = context.length > 0
+    ? context.map(item => `### ${CONTEXT_LABELS[item.type]}: ${item.title} [${item.type}:${item.id}]\n${item.body}`).join('\n\n')
+    : 'No project items matched this question.';
+
+  return [
+    {
+      role: 'system',
+      content: `You are the assistant for the software project "${project.name}"` +
+        `${project.description ? ` (${project.description})` : ''}. ` +
+        'Answer using the project items below when they are relevant, and say so when they do not contain the answer. ' +
+        'Refer to items by their title. Use Markdown.\n\n' +
+        `## Project items\n\n${contextBlock}`
+    },
+    ...history
+      .filter(message => !message.error && message.content.trim())
+      .slice(-MAX_HISTORY_MESSAGES)
+      .map(message => ({ role: message.role, content: message.content })),
+    { role: 'user', content: question }
+  ];
+};
+
+export const getThreadTitle = (question: string): string => {
+  const title = question.replace(/\s+/g, ' ').trim();
+  return title.length > MAX_THREAD_TITLE_LENGTH ? `${title.slice(0, MAX_THREAD_TITLE_LENGTH - 1).trimEnd()}…` : title || 'New chat';
+};
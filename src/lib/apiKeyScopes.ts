@@ -0,0 +1,118 @@
+/**
+ * Permission and scope model for RefBase API keys.
+ *
+ * Shared by the Netlify API function (which enforces it on every /api route)
+ * and the API key management UI (which lets users choose what a key may do).
+ */
+
+export const API_KEY_PERMISSIONS = ['read', 'write', 'admin'] as const;
+export type ApiKeyPermission = typeof API_KEY_PERMISSIONS[number];
+
+export const API_KEY_SCOPES = [
+  'conversations',
+  'bugs',
+  'features',
+  'documents',
+  'projects',
+  'patterns',
+  'tasks',
+  'calendar'
+] as const;
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+export const DEFAULT_API_KEY_PERMISSIONS: ApiKeyPermission[] = ['read', 'write'];
+export const DEFAULT_API_KEY_SCOPES: ApiKeyScope[] = [...API_KEY_SCOPES];
+
+export const API_KEY_PERMISSION_DESCRIPTIONS: Record<ApiKeyPermission, string> = {
+  read: 'Search and fetch items',
+  write: 'Create, update and delete items',
+  admin: 'Full access to every scope'
+};
+
+export const API_KEY_SCOPE_DESCRIPTIONS: Record<ApiKeyScope, string> = {
+  conversations: 'Saved AI conversations',
+  bugs: 'Bug reports and status updates',
+  features: 'Features and feature files',
+  documents: 'Project documents',
+  projects: 'Project metadata',
+  patterns: 'Reusable solution patterns',
+  tasks: 'Project tasks',
+  calendar: 'Calendar events and timeline trackers'
+};
+
+/**
+ * Access granted to the API key that authenticated a request
+ */
+export interface ApiKeyAccess {
+  permissions: string[] | null | undefined;
+  scopes: string[] | null | undefined;
+}
+
+export type ApiKeyAccessResult =
+  | { allowed: true }
+  | { allowed: false; error: string };
+
+export const isApiKeyPermission = (value: unknown): value is ApiKeyPermission =>
+  typeof value === 'string' && (API_KEY_PERMISSIONS as readonly string[]).includes(value);
+
+export const isApiKeyScope = (value: unknown): value is ApiKeyScope =>
+  typeof value === 'string' && (API_KEY_SCOPES as readonly string[]).includes(value);
+
+/**
+ * Maps an HTTP method to the permission a key needs to call it
+ */
+export const getRequiredPermission = (method: string): ApiKeyPermission =>
+  ['GET', 'HEAD', 'OPTIONS'].includes(method.toUpperCase()) ? 'read' : 'write';
+
+/**
+ * Checks whether an API key may perform an operation on a scope.
+ * The 'admin' permission grants every permission on every scope.
+ */
+export const checkApiKeyAccess = (
+  access: ApiKeyAccess,
+  scope: ApiKeyScope,
+  permission: ApiKeyPermission
+): ApiKeyAccessResult => {
+  const permissions = access.permissions || [];
+  const scopes = access.scopes || [];
+
+  if (permissions.includes('admin')) {
+    return { allowed: true };
+  }
+
+  if (!scopes.includes(scope)) {
+    return { allowed: false, error: `API key is missing required scope: ${scope}` };
+  }
+
+  if (!permissions.includes(permission)) {
+    return { allowed: false, error: `API key is missing required permission: ${permission} (scope: ${scope})` };
+  }
+
+  return { allowed: true };
+};
+
+/**
+ * Validates the permissions and scopes requested when creating a key.
+ * Returns an error message, or null when the request is valid.
+ */
+export const validateApiKeyGrant = (permissions: unknown, scopes: unknown): string | null => {
+  if (!Array.isArray(permissions) || permissions.length === 0) {
+    return 'At least one permission is required';
+  }
+
+  const invalidPermissions = permissions.filter(p => !isApiKeyPermission(p));
+  if (invalidPermissions.length > 0) {
+    return `Invalid permissions: ${invalidPermissions.join(', ')}. Must be one of: ${API_KEY_PERMISSIONS.join(', ')}`;
+  }
+
+  if (!Array.isArray(scopes) || scopes.length === 0) {
+    return 'At least one scope is required';
+  }
+
+  const invalidScopes = scopes.filter(s => !isApiKeyScope(s));
+  if (invalidScopes.length > 0) {
+    return `Invalid scopes: ${invalidScopes.join(', ')}. Must be one of: ${API_KEY_SCOPES.join(', ')}`;
+  }
+
+  return null;
+};
@@ -41,7 +41,7 @@ export class ApiKeyService {
   /**
    * Generates API configuration based on mode, provider, and custom key
    */
-  getApiConfig(mode: ApiMode, customKey?: string, provider?: ApiProvider, model?: string): ApiConfig {
+  getApiConfig(mode: ApiMode, customKey?: string, provider?: ApiProvider, model?: string, baseUrl?: string): ApiConfig {
     if (mode === 'custom' && customKey && provider && this.validateApiKeyFormat(customKey, provider)) {
       const config: ApiConfig = {
         provider,
@@ -63,7 +63,10 @@ export class ApiKeyService {
           break;
         
         case 'custom':
-          // Custom provider - no specific baseUrl
+          // Custom provider - any OpenAI-compatible endpoint the user entered
+          if (baseUrl?.trim()) {
+            config.baseUrl = baseUrl.trim().replace(/\/+$/, '');
+          }
           if (model) {
             config.model = model;
           }
@@ -0,0 +1,239 @@
+/**
+ * Bug analysis helpers: collect a bug's error messages and files, find
+ * similar past bugs and the conversations that touched the same files, and
+ * build (and read back) the prompt for an AI root-cause hypothesis.
+ *
+ * The result is stored on the bug (bugs.analysis) by the Bugs tab.
+ */
+
+import { Bug } from '../types';
+import { LearningConversation } from '../types/dashboard';
+import { findLinkedConversations } from './dashboardUtils';
+import { isResolvedBugStatus } from './bugStatus';
+
+export interface BugSignals {
+  errorMessages: string[];
+  files: string[];
+  keywords: string[];
+}
+
+export interface SimilarBugMatch {
+  id: string;
+  title: string;
+  status: Bug['status'];
+  solution?: string;
+  score: number;
+  reasons: string[];
+}
+
+export interface RelatedConversationMatch {
+  id: string;
+  title: string;
+  summary: string;
+  matchedFiles: string[];
+  createdAt: string;
+}
+
+export interface BugAnalysisHypothesis {
+  rootCause: string;
+  fixPlan: string[];
+  confidence: 'low' | 'medium' | 'high';
+  model: string;
+}
+
+export interface BugAnalysis {
+  analyzedAt: string;
+  signals: BugSignals;
+  similarBugs: SimilarBugMatch[];
+  relatedConversations: RelatedConversationMatch[];
+  hypothesis?: BugAnalysisHypothesis;
+  // Set when an AI provider was configured but the request failed
+  hypothesisError?: string;
+}
+
+const MAX_SIMILAR_BUGS = 5;
+const MAX_RELATED_CONVERSATIONS = 5;
+const MAX_KEYWORDS = 25;
+const MIN_SIMILARITY = 0.15;
+
+const ERROR_LINE_PATTERN = /^.*\b(?:[A-Z]\w*(?:Error|Exception)|Uncaught|Unhandled|Failed to|Cannot read|is not a function|is not defined|undefined is not)\b.*$/gm;
+const FILE_PATH_PATTERN = /(?:[\w.-]+[\\/])*[\w.-]+\.(?:tsx|ts|jsx|js|mjs|cjs|css|scss|sql|json|py|go|rs|java|rb|php|vue|svelte)\b/g;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'when', 'that', 'this', 'from', 'are', 'was', 'not', 'but', 'have', 'has',
+  'bug', 'error', 'issue', 'does', 'doesn', 'into', 'after', 'before', 'then', 'there', 'should', 'will'
+]);
+
+const bugText = (bug: Bug): string[] => [
+  bug.title,
+  bug.description,
+  bug.content,
+  bug.reproduction || '',
+  ...(bug.symptoms || []),
+  ...(bug.errorMessages || [])
+].filter(Boolean);
+
+const unique = (values: string[]): string[] => [...new Set(values.map(value => value.trim()).filter(Boolean))];
+
+const fileName = (path: string): string => path.replace(/\\/g, '/').split('/').pop()!.toLowerCase();
+
+/**
+ * Error messages, file paths and keywords mentioned anywhere on the bug
+ */
+export const extractBugSignals = (bug: Bug): BugSignals => {
+  const text = bugText(bug).join('\n');
+
+  const errorMessages = unique([...(bug.errorMessages || []), ...(text.match(ERROR_LINE_PATTERN) || [])])
+    .map(message => message.slice(0, 300));
+  const files = unique([...(bug.affectedFiles || []), ...(text.match(FILE_PATH_PATTERN) || [])]);
+
+  const counts = new Map<string, number>();
+  text.toLowerCase().split(/[^a-z0-9_]+/).forEach(token => {
+    if (token.length > 2 && !STOP_WORDS.has(token) && !/^\d+$/.test(token)) {
+      counts.set(token, (counts.get(token) || 0) + 1);
+    }
+  });
+  const keywords = [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, MAX_KEYWORDS)
+    .map(([token]) => token);
+
+  return { errorMessages, files, keywords };
+};
+
+const overlap = (a: string[], b: string[]): string[] => {
+  const right = new Set(b);
+  return a.filter(value => right.has(value));
+};
+
+/**
+ * Other bugs ranked by shared keywords, error messages and files.
+ * Fixed and verified bugs with a solution rank higher, since their solution can be reused.
+ */
+export const findSimilarBugs = (bug: Bug, candidates: Bug[], limit: number = MAX_SIMILAR_BUGS): SimilarBugMatch[] => {
+  const signals = extractBugSignals(bug);
+  const files = signals.files.map(fileName);
+  const errors = signals.errorMessages.map(message => message.toLowerCase());
+
+  return candidates
+    .filter(candidate => candidate.id !== bug.id)
+    .map(candidate => {
+      const other = extractBugSignals(candidate);
+      const sharedKeywords = overlap(signals.keywords, other.keywords);
+      const sharedFiles = overlap(files, other.files.map(fileName));
+      const sharedErrors = overlap(errors, other.errorMessages.map(message => message.toLowerCase()));
+
+      const keywordScore = sharedKeywords.length / Math.max(1, Math.min(signals.keywords.length, other.keywords.length));
+      let score = keywordScore * 0.5 + Math.min(sharedFiles.length, 2) * 0.2 + Math.min(sharedErrors.length, 1) * 0.3;
+      if (isResolvedBugStatus(candidate.status) && candidate.solution?.trim()) {
+        score *= 1.2;
+      }
+
+      const reasons = [
+        ...(sharedErrors.length > 0 ? ['Same error message'] : []),
+        ...(sharedFiles.length > 0 ? [`Same files: ${unique(sharedFiles).join(', ')}`] : []),
+        ...(sharedKeywords.length > 0 ? [`Shared terms: ${sharedKeywords.slice(0, 5).join(', ')}`] : [])
+      ];
+
+      return {
+        id: candidate.id,
+        title: candidate.title,
+        status: candidate.status,
+        ...(candidate.solution?.trim() ? { solution: candidate.solution.trim() } : {}),
+        score: Math.round(Math.min(score, 1) * 100) / 100,
+        reasons
+      };
+    })
+    .filter(match => match.score >= MIN_SIMILARITY)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
+
+/**
+ * Conversations that changed the bug's files or mention it, newest first
+ */
+export const findRelatedConversations = (
+  bug: Bug,
+  conversations: LearningConversation[],
+  limit: number = MAX_RELATED_CONVERSATIONS
+): RelatedConversationMatch[] => {
+  const signals = extractBugSignals(bug);
+  const bugFiles = signals.files.map(fileName);
+
+  return findLinkedConversations({ ...bug, affectedFiles: signals.files }, conversations)
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+    .slice(0, limit)
+    .map(conversation => ({
+      id: conversation.id,
+      title: conversation.title,
+      summary: conversation.summary,
+      matchedFiles: conversation.filesChanged.filter(file => bugFiles.includes(fileName(file))),
+      createdAt: conversation.createdAt.toISOString()
+    }));
+};
+
+/**
+ * Prompt asking for a root cause and fix plan as JSON
+ */
+export const buildBugAnalysisPrompt = (
+  bug: Bug,
+  signals: BugSignals,
+  similarBugs: SimilarBugMatch[],
+  relatedConversations: RelatedConversationMatch[]
+): Array<{ role: 'system' | 'user'; content: string }> => {
+  const section = (title: string, lines: string[]) =>
+    lines.length > 0 ? `## ${title}\n${lines.join('\n')}` : '';
+
+  const details = [
+    `# Bug: ${bug.title}`,
+    `Type: ${bug.type}, severity: ${bug.severity}, status: ${bug.status}`,
+    bug.description ? `\n${bug.description}` : '',
+    bug.content && bug.content !== bug.description ? `\n${bug.content.slice(0, 3000)}` : '',
+    section('Symptoms', (bug.symptoms || []).map(symptom => `- ${symptom}`)),
+    section('Reproduction', bug.reproduction ? [bug.reproduction] : []),
+    section('Error messages', signals.errorMessages.map(message => `- ${message}`)),
+    section('Affected files', signals.files.map(file => `- ${file}`)),
+    section('Similar past bugs', similarBugs.map(match =>
+      `- ${match.title} (${match.status})${match.solution ? `\n  Solution: ${match.solution.slice(0, 500)}` : ''}`
+    )),
+    section('Conversations that changed these files', relatedConversations.map(conversation =>
+      `- ${conversation.title}${conversation.summary ? `: ${conversation.summary.slice(0, 300)}` : ''}`
+    ))
+  ].filter(Boolean).join('\n\n');
+
+  return [
+    {
+      role: 'system',
+      content: 'You are a senior engineer triaging a bug report. Use the project history provided to find the most likely root cause. ' +
+        'Reply with a JSON object: {"rootCause": string, "fixPlan": string[], "confidence": "low" | "medium" | "high"}. ' +
+        'Keep the fix plan to concrete steps that name files where possible.'
+    },
+    { role: 'user', content: details }
+  ];
+};
+
+/**
+ * Reads the model's reply. Falls back to using the whole reply as the root cause
+ * when it is not the JSON that was asked for.
+ */
+export const parseBugAnalysisResponse = (content: string, model: string): BugAnalysisHypothesis => {
+  const json = content.replace(/^\s*```(?:json)?\s*/i, '').replace(/\s*```\s*$/, '');
+
+  try {
+    const parsed = JSON.parse(json) as { rootCause?: unknown; fixPlan?: unknown; confidence?: unknown };
+    if (typeof parsed.rootCause === 'string' && parsed.rootCause.trim()) {
+      return {
+        rootCause: parsed.rootCause.trim(),
+        fixPlan: Array.isArray(parsed.fixPlan)
+          ? parsed.fixPlan.filter((step): step is string => typeof step === 'string' && !!step.trim())
+          : [],
+        confidence: parsed.confidence === 'high' || parsed.confidence === 'medium' ? parsed.confidence : 'low',
+        model
+      };
+    }
+  } catch {
+    // Not JSON; use the text as is
+  }
+
+  return { rootCause: content.trim(), fixPlan: [], confidence: 'low', model };
+};
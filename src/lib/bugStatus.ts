@@ -0,0 +1,108 @@
+/**
+ * Status model for bugs.
+ *
+ * Shared by the Netlify API function (which validates status changes made
+ * through MCP and the REST API) and the Bugs tab, so both use the same
+ * vocabulary and the same lifecycle:
+ *
+ *   open -> in-progress -> fixed -> verified
+ *   fixed / verified / wont-fix -> reopened -> in-progress -> ...
+ */
+
+export const BUG_STATUSES = ['open', 'in-progress', 'fixed', 'verified', 'wont-fix', 'reopened'] as const;
+export type BugStatus = typeof BUG_STATUSES[number];
+
+export const BUG_STATUS_LABELS: Record<BugStatus, string> = {
+  open: 'Open',
+  'in-progress': 'In Progress',
+  fixed: 'Fixed',
+  verified: 'Verified',
+  'wont-fix': 'Won\'t Fix',
+  reopened: 'Reopened'
+};
+
+export const BUG_STATUS_DESCRIPTIONS: Record<BugStatus, string> = {
+  open: 'Bug is reported and needs to be addressed',
+  'in-progress': 'Bug is being worked on',
+  fixed: 'A fix has been made and awaits verification',
+  verified: 'The fix has been confirmed to work',
+  'wont-fix': 'Bug will not be addressed',
+  reopened: 'Bug came back after it was closed'
+};
+
+// Allowed next statuses for each status. Keeping the current status is always allowed.
+export const BUG_STATUS_TRANSITIONS: Record<BugStatus, BugStatus[]> = {
+  open: ['in-progress', 'fixed', 'wont-fix'],
+  'in-progress': ['open', 'fixed', 'wont-fix'],
+  fixed: ['verified', 'reopened'],
+  verified: ['reopened'],
+  'wont-fix': ['reopened'],
+  reopened: ['in-progress', 'fixed', 'wont-fix']
+};
+
+// Bugs that still need work
+export const ACTIVE_BUG_STATUSES: BugStatus[] = ['open', 'in-progress', 'reopened'];
+// Bugs that have been fixed, whether or not the fix has been verified
+export const RESOLVED_BUG_STATUSES: BugStatus[] = ['fixed', 'verified'];
+
+// Older names still sent by MCP clients and earlier API versions
+const LEGACY_BUG_STATUSES: Record<string, BugStatus> = {
+  resolved: 'fixed',
+  closed: 'verified',
+  wontfix: 'wont-fix',
+  in_progress: 'in-progress'
+};
+
+export const isBugStatus = (value: unknown): value is BugStatus =>
+  typeof value === 'string' && (BUG_STATUSES as readonly string[]).includes(value);
+
+/**
+ * Maps a status (including legacy names) to the shared vocabulary.
+ * Returns null for unknown values.
+ */
+export const normalizeBugStatus = (value: unknown): BugStatus | null => {
+  if (typeof value !== 'string') return null;
+  const status = value.trim().toLowerCase();
+  if (isBugStatus(status)) return status;
+  return LEGACY_BUG_STATUSES[status] || null;
+};
+
+export const isActiveBugStatus = (status: BugStatus): boolean => ACTIVE_BUG_STATUSES.includes(status);
+
+export const isResolvedBugStatus = (status: BugStatus): boolean => RESOLVED_BUG_STATUSES.includes(status);
+
+export const canTransitionBugStatus = (from: BugStatus, to: BugStatus): boolean =>
+  from === to || BUG_STATUS_TRANSITIONS[from].includes(to);
+
+/**
+ * Statuses a bug can be moved to from its current status, starting with the current one
+ */
+export const getBugStatusOptions = (current: BugStatus): BugStatus[] =>
+  [current, ...BUG_STATUS_TRANSITIONS[current]];
+
+export type BugStatusChangeResult =
+  | { allowed: true; status: BugStatus }
+  | { allowed: false; reason: 'invalid_status' | 'invalid_transition'; error: string };
+
+/**
+ * Validates a requested status change. The requested value may use a legacy
+ * name; the current value comes from the database.
+ */
+export const validateBugStatusChange = (current: unknown, requested: unknown): BugStatusChangeResult => {
+  const status = normalizeBugStatus(requested);
+  if (!status) {
+    return { allowed: false, reason: 'invalid_status', error: `Invalid status. Must be one of: ${BUG_STATUSES.join(', ')}` };
+  }
+
+  // Rows written before the status model was unified are treated as open
+  const from = normalizeBugStatus(current) || 'open';
+  if (!canTransitionBugStatus(from, status)) {
+    return {
+      allowed: false,
+      reason: 'invalid_transition',
+      error: `Cannot change bug status from ${from} to ${status}. Allowed: ${getBugStatusOptions(from).join(', ')}`
+    };
+  }
+
+  return { allowed: true, status };
+};
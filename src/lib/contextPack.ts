@@ -0,0 +1,499 @@
+/**
+ * Context pack helpers: gather what a new AI session should know about a bug,
+ * feature or conversation (the project, related bugs and their fixes, feature
+ * requirements, key code changes, what worked and what to avoid) and render
+ * it as Markdown or XML within a token budget.
+ *
+ * Shared by the Netlify API function (/api/context-pack) and the "Copy for AI"
+ * modal, so both build the pack from the same stored rows.
+ */
+
+import { isResolvedBugStatus, normalizeBugStatus } from './bugStatus';
+import { FeatureSummary, findFeatureConversations, findRejectedApproaches } from './featureSummary';
+import { PatternConversationRow } from './patternExtraction';
+
+export const CONTEXT_PACK_FORMATS = ['markdown', 'xml'] as const;
+export type ContextPackFormat = typeof CONTEXT_PACK_FORMATS[number];
+
+export const CONTEXT_PACK_FORMAT_LABELS: Record<ContextPackFormat, string> = {
+  markdown: 'Markdown',
+  xml: 'XML'
+};
+
+export const CONTEXT_PACK_FOCUS_TYPES = ['bug', 'feature', 'conversation'] as const;
+export type ContextPackFocusType = typeof CONTEXT_PACK_FOCUS_TYPES[number];
+
+// Where each item type is stored, and the columns the pack reads
+export const CONTEXT_PACK_TABLES: Record<ContextPackFocusType, string> = {
+  bug: 'bugs',
+  feature: 'features',
+  conversation: 'conversations'
+};
+
+export const CONTEXT_PACK_COLUMNS: Record<ContextPackFocusType, string> = {
+  bug: 'id, title, description, content, status, severity, symptoms, reproduction, solution, feature_id',
+  feature: 'id, title, content, description, implementation, status',
+  conversation: 'id, title, implementation_summary, code_changes, files_changed, tags'
+};
+
+export const CONTEXT_PACK_SECTIONS = ['project', 'focus', 'related_bugs', 'requirements', 'code_changes', 'worked', 'avoid'] as const;
+export type ContextPackSectionId = typeof CONTEXT_PACK_SECTIONS[number];
+
+export const CONTEXT_PACK_SECTION_TITLES: Record<ContextPackSectionId, string> = {
+  project: 'Project',
+  focus: 'Focus',
+  related_bugs: 'Related bugs',
+  requirements: 'Feature requirements',
+  code_changes: 'Key code changes',
+  worked: 'What worked before',
+  avoid: 'What to avoid'
+};
+
+export const CONTEXT_PACK_TOKEN_BUDGETS = [2000, 4000, 8000, 16000] as const;
+export const DEFAULT_CONTEXT_PACK_TOKEN_BUDGET = 4000;
+export const MIN_CONTEXT_PACK_TOKEN_BUDGET = 500;
+export const MAX_CONTEXT_PACK_TOKEN_BUDGET = 100000;
+
+// Stored row fields used for the pack (snake_case, as stored)
+export interface ContextPackProjectRow {
+  name: string;
+  description?: string | null;
+  tech_stack?: string[] | null;
+}
+
+export interface ContextPackBugRow {
+  id: string;
+  title: string;
+  description?: string | null;
+  content?: string | null;
+  status: string;
+  severity?: string | null;
+  symptoms?: string[] | null;
+  reproduction?: string | null;
+  solution?: string | null;
+  feature_id?: string | null;
+}
+
+export interface ContextPackFeatureRow {
+  id: string;
+  title: string;
+  content?: string | null;
+  description?: string | null;
+  implementation?: string | null;
+  status?: string | null;
+}
+
+export type ContextPackConversationRow = PatternConversationRow;
+
+// The feature's stored implementation guide (an ai_summary feature_data row)
+export interface ContextPackFeatureSummaryRow {
+  feature_id: string;
+  metadata?: { summary?: Partial<FeatureSummary> } | null;
+}
+
+export interface ContextPackInput {
+  project: ContextPackProjectRow | null;
+  focus: { type: ContextPackFocusType; id: string };
+  bugs: ContextPackBugRow[];
+  features: ContextPackFeatureRow[];
+  conversations: ContextPackConversationRow[];
+  featureSummaries?: ContextPackFeatureSummaryRow[];
+}
+
+export interface ContextPackOptions {
+  format?: ContextPackFormat;
+  tokenBudget?: number;
+}
+
+export interface ContextPackItemRef {
+  section: ContextPackSectionId;
+  type: ContextPackFocusType;
+  id: string;
+  title: string;
+}
+
+export interface ContextPack {
+  format: ContextPackFormat;
+  tokenBudget: number;
+  tokenEstimate: number;
+  content: string;
+  // Items that made it into the pack, in pack order
+  items: ContextPackItemRef[];
+  // Related entries left out to stay within the budget
+  omittedCount: number;
+}
+
+interface PackEntry {
+  section: ContextPackSectionId;
+  title: string;
+  body: string;
+  source?: { type: ContextPackFocusType; id: string; title: string };
+  // Relevance to the focus item; higher entries are kept first
+  priority: number;
+}
+
+interface ItemSignals {
+  keywords: string[];
+  files: string[];
+}
+
+const MAX_RELATED_PER_TYPE = 6;
+const MIN_RELATEDNESS = 0.15;
+const MAX_KEYWORDS = 30;
+const MAX_BODY_LENGTH = 800;
+const MAX_CODE_LENGTH = 1200;
+const MAX_CODE_CHANGES_PER_CONVERSATION = 2;
+// The focus item never takes more than this share of the budget
+const FOCUS_BUDGET_SHARE = 0.4;
+
+const SECTION_WEIGHTS: Record<ContextPackSectionId, number> = {
+  project: 1,
+  focus: 1,
+  related_bugs: 1,
+  requirements: 1,
+  code_changes: 0.9,
+  worked: 1.2,
+  avoid: 1.2
+};
+
+const FILE_PATH_PATTERN = /(?:[\w.-]+[\\/])*[\w.-]+\.(?:tsx|ts|jsx|js|mjs|cjs|css|scss|sql|json|py|go|rs|java|rb|php|vue|svelte)\b/g;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'when', 'that', 'this', 'from', 'are', 'was', 'not', 'but', 'have', 'has',
+  'into', 'after', 'before', 'then', 'there', 'should', 'will', 'can', 'use', 'used', 'using', 'also', 'now'
+]);
+
+/**
+ * Rough token count (about four characters per token), good enough for budgeting
+ */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+export const isContextPackFormat = (value: unknown): value is ContextPackFormat =>
+  typeof value === 'string' && (CONTEXT_PACK_FORMATS as readonly string[]).includes(value);
+
+export const isContextPackFocusType = (value: unknown): value is ContextPackFocusType =>
+  typeof value === 'string' && (CONTEXT_PACK_FOCUS_TYPES as readonly string[]).includes(value);
+
+const truncate = (text: string, length: number): string =>
+  text.length > length ? `${text.slice(0, length - 1).trimEnd()}…` : text;
+
+const fileName = (path: string): string => path.replace(/\\/g, '/').split('/').pop()!.toLowerCase();
+
+const extractSignals = (texts: Array<string | null | undefined>, files: string[] = []): ItemSignals => {
+  const text = texts.filter(Boolean).join('\n');
+
+  const counts = new Map<string, number>();
+  text.toLowerCase().split(/[^a-z0-9_]+/).forEach(token => {
+    if (token.length > 2 && !STOP_WORDS.has(token) && !/^\d+$/.test(token)) {
+      counts.set(token, (counts.get(token) || 0) + 1);
+    }
+  });
+
+  const matchedFiles: string[] = text.match(FILE_PATH_PATTERN) || [];
+  return {
+    keywords: [...counts.entries()]
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, MAX_KEYWORDS)
+      .map(([token]) => token),
+    files: [...new Set([...files, ...matchedFiles].map(fileName))]
+  };
+};
+
+const bugSignals = (bug: ContextPackBugRow): ItemSignals =>
+  extractSignals([bug.title, bug.description, bug.content, bug.reproduction, bug.solution, ...(bug.symptoms || [])]);
+
+const featureSignals = (feature: ContextPackFeatureRow): ItemSignals =>
+  extractSignals([feature.title, feature.content, feature.description, feature.implementation]);
+
+const conversationSignals = (conversation: ContextPackConversationRow): ItemSignals =>
+  extractSignals(
+    [conversation.title, conversation.implementation_summary, ...(conversation.tags || [])],
+    [...(conversation.files_changed || []), ...(conversation.code_changes || []).map(change => change.file_path)]
+  );
+
+/**
+ * How closely two items are related, from shared keywords and files (0 to about 1)
+ */
+const relatedness = (a: ItemSignals, b: ItemSignals): number => {
+  const keywords = new Set(b.keywords);
+  const files = new Set(b.files);
+  const sharedKeywords = a.keywords.filter(keyword => keywords.has(keyword)).length;
+  const sharedFiles = a.files.filter(file => files.has(file)).length;
+
+  return sharedKeywords / Math.max(1, Math.min(a.keywords.length, b.keywords.length)) * 0.6 +
+    Math.min(sharedFiles, 2) * 0.2;
+};
+
+const rankRelated = <T extends { id: string }>(
+  focusSignals: ItemSignals,
+  items: T[],
+  signalsOf: (item: T) => ItemSignals,
+  linkedIds: Set<string>,
+  excludeId: string
+): Array<{ item: T; score: number }> =>
+  items
+    .filter(item => item.id !== excludeId)
+    .map(item => ({
+      item,
+      // Explicit links (a bug's feature, a conversation tagged with the feature) always count
+      score: relatedness(focusSignals, signalsOf(item)) + (linkedIds.has(item.id) ? 0.5 : 0)
+    }))
+    .filter(({ score }) => score >= MIN_RELATEDNESS)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_RELATED_PER_TYPE);
+
+const bugDetails = (bug: ContextPackBugRow): string => [
+  `Status: ${bug.status}${bug.severity ? `, severity: ${bug.severity}` : ''}`,
+  bug.description || '',
+  bug.content && bug.content !== bug.description ? bug.content : '',
+  (bug.symptoms || []).length > 0 ? `Symptoms:\n${(bug.symptoms || []).map(symptom => `- ${symptom}`).join('\n')}` : '',
+  bug.reproduction ? `Reproduction:\n${bug.reproduction}` : '',
+  bug.solution ? `Fix: ${bug.solution}` : ''
+].filter(Boolean).join('\n\n');
+
+const featureDetails = (feature: ContextPackFeatureRow): string => [
+  feature.status ? `Status: ${feature.status}` : '',
+  feature.content || feature.description || '',
+  feature.implementation ? `Implementation notes:\n${feature.implementation}` : ''
+].filter(Boolean).join('\n\n');
+
+const conversationDetails = (conversation: ContextPackConversationRow): string => [
+  conversation.implementation_summary || '',
+  (conversation.files_changed || []).length > 0 ? `Files changed: ${(conversation.files_changed || []).join(', ')}` : ''
+].filter(Boolean).join('\n\n');
+
+const codeChangeEntries = (conversation: ContextPackConversationRow, priority: number): PackEntry[] => {
+  const source = { type: 'conversation' as const, id: conversation.id, title: conversation.title };
+  const changes = (conversation.code_changes || [])
+    .filter(change => change.action !== 'delete' && (change.diff || change.after_content || '').trim())
+    .slice(0, MAX_CODE_CHANGES_PER_CONVERSATION);
+
+  if (changes.length === 0) {
+    return (conversation.files_changed || []).length > 0
+      ? [{ section: 'code_changes', title: conversation.title, body: `Files changed: ${(conversation.files_changed || []).join(', ')}`, source, priority }]
+      : [];
+  }
+
+  return changes.map(change => ({
+    section: 'code_changes' as const,
+    title: `${change.file_path} (${conversation.title})`,
+    body: [
+      change.change_summary || '',
+      `\`\`\`${change.diff ? 'diff' : ''}\n${truncate((change.diff || change.after_content || '').trim(), MAX_CODE_LENGTH)}\n\`\`\``
+    ].filter(Boolean).join('\n'),
+    source,
+    priority
+  }));
+};
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const renderEntry = (entry: PackEntry, format: ContextPackFormat): string => {
+  if (format === 'xml') {
+    const attributes = entry.source
+      ? ` type="${entry.source.type}" id="${escapeXml(entry.source.id)}" title="${escapeXml(entry.title)}"`
+      : ` title="${escapeXml(entry.title)}"`;
+    return `    <item${attributes}>\n${escapeXml(entry.body)}\n    </item>`;
+  }
+  return `### ${entry.title}\n\n${entry.body}`;
+};
+
+const renderSectionOpen = (section: ContextPackSectionId, format: ContextPackFormat): string =>
+  format === 'xml'
+    ? `  <section name="${section}" title="${CONTEXT_PACK_SECTION_TITLES[section]}">`
+    : `## ${CONTEXT_PACK_SECTION_TITLES[section]}`;
+
+const renderPack = (title: string, entries: PackEntry[], format: ContextPackFormat): string => {
+  const sections = CONTEXT_PACK_SECTIONS
+    .map(section => ({ section, entries: entries.filter(entry => entry.section === section) }))
+    .filter(({ entries: sectionEntries }) => sectionEntries.length > 0);
+
+  if (format === 'xml') {
+    return [
+      `<context_pack title="${escapeXml(title)}">`,
+      ...sections.map(({ section, entries: sectionEntries }) => [
+        renderSectionOpen(section, format),
+        ...sectionEntries.map(entry => renderEntry(entry, format)),
+        '  </section>'
+      ].join('\n')),
+      '</context_pack>'
+    ].join('\n');
+  }
+
+  return [
+    `# Context: ${title}`,
+    ...sections.map(({ section, entries: sectionEntries }) => [
+      renderSectionOpen(section, format),
+      ...sectionEntries.map(entry => renderEntry(entry, format))
+    ].join('\n\n'))
+  ].join('\n\n');
+};
+
+/**
+ * Build the pack for the focus item. Returns null when the focus item is not among the rows.
+ *
+ * The project and the focus item are always included. Related entries are added
+ * most relevant first while they fit the token budget; the rest are counted as omitted.
+ */
+export const buildContextPack = (input: ContextPackInput, options: ContextPackOptions = {}): ContextPack | null => {
+  const format = options.format || 'markdown';
+  const tokenBudget = Math.min(
+    Math.max(options.tokenBudget || DEFAULT_CONTEXT_PACK_TOKEN_BUDGET, MIN_CONTEXT_PACK_TOKEN_BUDGET),
+    MAX_CONTEXT_PACK_TOKEN_BUDGET
+  );
+  const { focus } = input;
+
+  const focusBug = focus.type === 'bug' ? input.bugs.find(bug => bug.id === focus.id) : undefined;
+  const focusFeature = focus.type === 'feature' ? input.features.find(feature => feature.id === focus.id) : undefined;
+  const focusConversation = focus.type === 'conversation'
+    ? input.conversations.find(conversation => conversation.id === focus.id)
+    : undefined;
+  const focusItem = focusBug || focusFeature || focusConversation;
+  if (!focusItem) return null;
+
+  const focusSignals = focusBug
+    ? bugSignals(focusBug)
+    : focusFeature
+      ? featureSignals(focusFeature)
+      : conversationSignals(focusConversation!);
+
+  // Explicit links between the focus item and other items
+  const linkedFeatureIds = new Set([focusFeature?.id, focusBug?.feature_id].filter((id): id is string => !!id));
+  const linkedBugIds = new Set(input.bugs.filter(bug => bug.feature_id && linkedFeatureIds.has(bug.feature_id)).map(bug => bug.id));
+  const linkedConversationIds = new Set(
+    input.features
+      .filter(feature => linkedFeatureIds.has(feature.id))
+      .flatMap(feature => findFeatureConversations(feature, input.conversations))
+      .map(conversation => conversation.id)
+  );
+
+  const relatedBugs = rankRelated(focusSignals, input.bugs, bugSignals, linkedBugIds, focus.id);
+  const relatedFeatures = rankRelated(focusSignals, input.features, featureSignals, linkedFeatureIds, focus.id);
+  const relatedConversations = rankRelated(focusSignals, input.conversations, conversationSignals, linkedConversationIds, focus.id);
+
+  const fixed: PackEntry[] = [];
+  if (input.project) {
+    fixed.push({
+      section: 'project',
+      title: input.project.name,
+      body: [
+        input.project.description || '',
+        (input.project.tech_stack || []).length > 0 ? `Tech stack: ${(input.project.tech_stack || []).join(', ')}` : ''
+      ].filter(Boolean).join('\n\n') || 'No description.',
+      priority: Infinity
+    });
+  }
+
+  const focusLength = Math.floor(tokenBudget * FOCUS_BUDGET_SHARE) * 4;
+  const focusBody = focusBug ? bugDetails(focusBug) : focusFeature ? featureDetails(focusFeature) : conversationDetails(focusConversation!);
+  fixed.push({
+    section: 'focus',
+    title: `${focus.type === 'bug' ? 'Bug' : focus.type === 'feature' ? 'Feature' : 'Conversation'}: ${focusItem.title}`,
+    body: truncate(focusBody || 'No details recorded.', focusLength),
+    source: { type: focus.type, id: focusItem.id, title: focusItem.title },
+    priority: Infinity
+  });
+
+  const candidates: PackEntry[] = [];
+  const bugSource = (bug: ContextPackBugRow) => ({ type: 'bug' as const, id: bug.id, title: bug.title });
+  const conversationSource = (conversation: ContextPackConversationRow) =>
+    ({ type: 'conversation' as const, id: conversation.id, title: conversation.title });
+
+  relatedBugs.forEach(({ item: bug, score }) => {
+    const status = normalizeBugStatus(bug.status);
+    if (status && isResolvedBugStatus(status) && bug.solution?.trim()) {
+      candidates.push({ section: 'worked', title: `Fix for "${bug.title}"`, body: truncate(bug.solution.trim(), MAX_BODY_LENGTH), source: bugSource(bug), priority: score });
+    } else {
+      candidates.push({ section: 'related_bugs', title: `${bug.title} (${bug.status})`, body: truncate(bugDetails(bug), MAX_BODY_LENGTH), source: bugSource(bug), priority: score });
+    }
+    // A fix that did not hold is worth knowing about before trying it again
+    if (status === 'reopened' && bug.solution?.trim()) {
+      candidates.push({ section: 'avoid', title: `Fix for "${bug.title}" did not hold`, body: truncate(bug.solution.trim(), MAX_BODY_LENGTH), source: bugSource(bug), priority: score });
+    }
+    findRejectedApproaches([bug.content, bug.solution].filter(Boolean).join('\n')).forEach(approach => {
+      candidates.push({ section: 'avoid', title: bug.title, body: approach, source: bugSource(bug), priority: score });
+    });
+  });
+
+  relatedFeatures.forEach(({ item: feature, score }) => {
+    candidates.push({
+      section: 'requirements',
+      title: feature.title,
+      body: truncate(featureDetails(feature) || 'No requirements recorded.', MAX_BODY_LENGTH),
+      source: { type: 'feature', id: feature.id, title: feature.title },
+      priority: score
+    });
+  });
+
+  // The focus conversation's own code changes come first
+  if (focusConversation) {
+    candidates.push(...codeChangeEntries(focusConversation, 2));
+  }
+  relatedConversations.forEach(({ item: conversation, score }) => {
+    if (conversation.implementation_summary?.trim()) {
+      candidates.push({
+        section: 'worked',
+        title: conversation.title,
+        body: truncate(conversation.implementation_summary.trim(), MAX_BODY_LENGTH),
+        source: conversationSource(conversation),
+        priority: score
+      });
+    }
+    candidates.push(...codeChangeEntries(conversation, score));
+    findRejectedApproaches(conversation.implementation_summary || '').forEach(approach => {
+      candidates.push({ section: 'avoid', title: conversation.title, body: approach, source: conversationSource(conversation), priority: score });
+    });
+  });
+
+  // Decisions and rejected approaches from the stored implementation guides
+  (input.featureSummaries || [])
+    .filter(row => linkedFeatureIds.has(row.feature_id) || relatedFeatures.some(({ item }) => item.id === row.feature_id))
+    .forEach(row => {
+      const feature = input.features.find(item => item.id === row.feature_id);
+      const summary = row.metadata?.summary;
+      if (!feature || !summary) return;
+      const source = { type: 'feature' as const, id: feature.id, title: feature.title };
+      const priority = linkedFeatureIds.has(feature.id) ? 1.5 : relatedFeatures.find(({ item }) => item.id === feature.id)!.score;
+      (summary.decisions || []).forEach(decision => {
+        candidates.push({ section: 'worked', title: `Decision for "${feature.title}"`, body: decision, source, priority });
+      });
+      (summary.rejected || []).forEach(rejected => {
+        candidates.push({ section: 'avoid', title: `Rejected for "${feature.title}"`, body: rejected, source, priority });
+      });
+    });
+
+  // Fill the budget with the most relevant entries; smaller ones may still fit after a large one is skipped
+  let used = estimateTokens(renderPack(focusItem.title, fixed, format));
+  const included: PackEntry[] = [];
+  const openSections = new Set<ContextPackSectionId>(fixed.map(entry => entry.section));
+  let omittedCount = 0;
+
+  candidates
+    .sort((a, b) => b.priority * SECTION_WEIGHTS[b.section] - a.priority * SECTION_WEIGHTS[a.section])
+    .forEach(entry => {
+      const cost = estimateTokens(renderEntry(entry, format)) +
+        (openSections.has(entry.section) ? 1 : estimateTokens(renderSectionOpen(entry.section, format)) + 4);
+      if (used + cost > tokenBudget) {
+        omittedCount++;
+        return;
+      }
+      used += cost;
+      openSections.add(entry.section);
+      included.push(entry);
+    });
+
+  const entries = [...fixed, ...included];
+  const content = renderPack(focusItem.title, entries, format);
+
+  const items: ContextPackItemRef[] = [];
+  CONTEXT_PACK_SECTIONS.forEach(section => {
+    entries.filter(entry => entry.section === section && entry.source).forEach(entry => {
+      if (!items.some(item => item.section === section && item.type === entry.source!.type && item.id === entry.source!.id)) {
+        items.push({ section, ...entry.source! });
+      }
+    });
+  });
+
+  return { format, tokenBudget, tokenEstimate: estimateTokens(content), content, items, omittedCount };
+};
@@ -0,0 +1,247 @@
+/**
+ * Conversation technical details: fills the technical_details,
+ * implementation_summary, files_changed, code_changes and tool_usage columns
+ * of a conversation from its messages.
+ *
+ * Run by the Netlify API function when a conversation is saved or reprocessed,
+ * so every conversation gets the same details whichever client wrote it.
+ */
+
+import { CodeChange, ConversationParser, ToolCall } from './conversationParser';
+import { getMessageTechnicalDetails } from './conversationExtraction';
+
+// Bump when the extraction changes so reprocessed rows can be told apart
+export const CONVERSATION_DETAILS_VERSION = 1;
+
+export interface ConversationMessageInput {
+  role?: unknown;
+  content?: unknown;
+  timestamp?: unknown;
+  // Tool calls kept alongside plain text content by the importers
+  tool_calls?: unknown;
+}
+
+export interface ConversationDetails {
+  technical_details: Record<string, unknown>;
+  implementation_summary: string;
+  files_changed: string[];
+  code_changes: CodeChange[];
+  tool_usage: ToolCall[];
+}
+
+// Values a client may send along with the messages (camelCase, as in the API body)
+export interface ProvidedConversationDetails {
+  technicalDetails?: unknown;
+  implementationSummary?: unknown;
+  filesChanged?: unknown;
+  codeChanges?: unknown;
+  toolUsage?: unknown;
+}
+
+interface ContentBlock {
+  type?: string;
+  text?: string;
+  id?: string;
+  name?: string;
+  input?: Record<string, unknown>;
+  tool_use_id?: string;
+  content?: unknown;
+  is_error?: boolean;
+}
+
+interface TextMessage {
+  role: string;
+  content: string;
+  timestamp?: string;
+}
+
+// Tools whose input describes a file change
+const FILE_CHANGE_TOOLS: Record<string, CodeChange['action']> = {
+  Write: 'create',
+  Edit: 'edit',
+  MultiEdit: 'edit'
+};
+
+const countLines = (value: unknown): number =>
+  typeof value === 'string' && value.length > 0 ? value.split('\n').length : 0;
+
+const blockText = (content: unknown): string => {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return '';
+  return content
+    .map(block => (typeof block === 'string' ? block : (block as ContentBlock)?.type === 'text' ? (block as ContentBlock).text || '' : ''))
+    .filter(Boolean)
+    .join('\n');
+};
+
+const contentBlocks = (content: unknown): ContentBlock[] =>
+  Array.isArray(content) ? content.filter((block): block is ContentBlock => !!block && typeof block === 'object') : [];
+
+// Imported tool calls carry their result inline; treat them as a tool_use plus tool_result pair
+const toolCallBlocks = (toolCalls: unknown): ContentBlock[] =>
+  contentBlocks(toolCalls).flatMap((call, index) => {
+    const id = call.id || `imported-${index}`;
+    const result = call as ContentBlock & { result?: unknown };
+    return [
+      { type: 'tool_use', id, name: call.name, input: call.input },
+      ...(result.result !== undefined ? [{ type: 'tool_result', tool_use_id: id, content: result.result, is_error: call.is_error }] : [])
+    ];
+  });
+
+/**
+ * Reduces messages to role/content text. Content may be a string or an array
+ * of content blocks (as written by Claude Code and the Anthropic API).
+ */
+export const toTextMessages = (messages: unknown): TextMessage[] => {
+  if (!Array.isArray(messages)) return [];
+
+  return messages
+    .filter((message): message is ConversationMessageInput => !!message && typeof message === 'object')
+    .map(message => ({
+      role: typeof message.role === 'string' ? message.role : 'user',
+      content: blockText(message.content),
+      ...(typeof message.timestamp === 'string' ? { timestamp: message.timestamp } : {})
+    }));
+};
+
+/**
+ * Reads tool_use blocks (and their tool_result replies) from structured
+ * messages. These are actual tool calls, unlike the ones the parser infers from prose.
+ */
+export const extractStructuredToolCalls = (messages: unknown): { toolUsage: ToolCall[]; codeChanges: CodeChange[] } => {
+  const toolUsage: ToolCall[] = [];
+  const codeChanges: CodeChange[] = [];
+  const callsById = new Map<string, ToolCall>();
+
+  if (!Array.isArray(messages)) return { toolUsage, codeChanges };
+
+  messages.forEach((message: ConversationMessageInput, messageIndex) => {
+    if (!message || typeof message !== 'object') return;
+    const timestamp = typeof message.timestamp === 'string' ? message.timestamp : new Date().toISOString();
+
+    [...contentBlocks(message.content), ...toolCallBlocks(message.tool_calls)].forEach(block => {
+      if (block.type === 'tool_use' && block.name) {
+        const params = block.input || {};
+        const call: ToolCall = { tool: block.name, timestamp, params, result: '', success: true, messageIndex };
+        toolUsage.push(call);
+        if (block.id) callsById.set(block.id, call);
+
+        const action = FILE_CHANGE_TOOLS[block.name];
+        const filePath = params.file_path;
+        if (action && typeof filePath === 'string') {
+          const edits = block.name === 'MultiEdit' && Array.isArray(params.edits)
+            ? params.edits as Array<{ old_string?: unknown; new_string?: unknown }>
+            : [{ old_string: params.old_string, new_string: params.new_string ?? params.content }];
+          const linesAdded = edits.reduce((sum, edit) => sum + countLines(edit.new_string), 0);
+          const linesRemoved = edits.reduce((sum, edit) => sum + countLines(edit.old_string), 0);
+
+          codeChanges.push({
+            file_path: filePath,
+            action,
+            before_content: edits.length === 1 && typeof edits[0].old_string === 'string' ? edits[0].old_string : null,
+            after_content: edits.length === 1 && typeof edits[0].new_string === 'string' ? edits[0].new_string : null,
+            diff: `${block.name}: +${linesAdded} -${linesRemoved}`,
+            lines_added: linesAdded,
+            lines_removed: linesRemoved,
+            change_summary: `${action === 'create' ? 'Wrote' : 'Edited'} ${filePath}`,
+            messageIndex
+          });
+        }
+      }
+
+      if (block.type === 'tool_result' && block.tool_use_id) {
+        const call = callsById.get(block.tool_use_id);
+        if (call) {
+          call.result = blockText(block.content).slice(0, 500);
+          call.success = !block.is_error;
+        }
+      }
+    });
+  });
+
+  return { toolUsage, codeChanges };
+};
+
+/**
+ * Extracts all technical details from a conversation's messages
+ */
+export const extractConversationDetails = (messages: unknown): ConversationDetails => {
+  const textMessages = toTextMessages(messages);
+  const parsed = ConversationParser.parseConversation(textMessages);
+  const structured = extractStructuredToolCalls(messages);
+
+  // Real tool calls win over the ones inferred from the assistant's wording
+  const toolUsage = structured.toolUsage.length > 0 ? structured.toolUsage : parsed.tool_usage;
+  const codeChanges = structured.codeChanges.length > 0 ? structured.codeChanges : parsed.code_changes;
+  const filesChanged = structured.codeChanges.length > 0
+    ? [...new Set(structured.codeChanges.map(change => change.file_path))]
+    : parsed.files_changed;
+
+  const errors: string[] = [];
+  const fixes: string[] = [];
+  const approaches: string[] = [];
+  const rejections: string[] = [];
+  let codeBlocks = 0;
+
+  textMessages.forEach(message => {
+    const details = getMessageTechnicalDetails(message);
+    if (!details || message.role !== 'assistant') return;
+    errors.push(...details.errorContext.errors);
+    fixes.push(...details.errorContext.fixes);
+    approaches.push(...details.approachContext.approaches);
+    rejections.push(...details.approachContext.rejections);
+    codeBlocks += details.codeBlocks.length;
+  });
+
+  const unique = (values: string[]) => [...new Set(values)].slice(0, 20);
+
+  return {
+    technical_details: {
+      message_count: textMessages.length,
+      assistant_message_count: textMessages.filter(message => message.role === 'assistant').length,
+      code_block_count: codeBlocks,
+      errors: unique(errors),
+      fixes: unique(fixes),
+      approaches: unique(approaches),
+      rejected_approaches: unique(rejections),
+      tools_used: [...new Set(toolUsage.map(call => call.tool))],
+      extraction: {
+        version: CONVERSATION_DETAILS_VERSION,
+        tool_calls: structured.toolUsage.length > 0 ? 'structured' : 'inferred',
+        extracted_at: new Date().toISOString()
+      }
+    },
+    implementation_summary: parsed.implementation_summary,
+    files_changed: filesChanged,
+    code_changes: codeChanges,
+    tool_usage: toolUsage
+  };
+};
+
+const isNonEmptyArray = (value: unknown): value is unknown[] => Array.isArray(value) && value.length > 0;
+
+/**
+ * Extracts details and keeps whatever the client sent explicitly.
+ * Client values replace extracted ones field by field; empty values are ignored.
+ */
+export const buildConversationDetails = (
+  messages: unknown,
+  provided: ProvidedConversationDetails = {}
+): ConversationDetails => {
+  const extracted = extractConversationDetails(messages);
+  const providedDetails = provided.technicalDetails;
+
+  return {
+    technical_details: providedDetails && typeof providedDetails === 'object' && !Array.isArray(providedDetails)
+      ? { ...extracted.technical_details, ...(providedDetails as Record<string, unknown>) }
+      : extracted.technical_details,
+    implementation_summary: typeof provided.implementationSummary === 'string' && provided.implementationSummary.trim()
+      ? provided.implementationSummary
+      : extracted.implementation_summary,
+    files_changed: isNonEmptyArray(provided.filesChanged)
+      ? provided.filesChanged.filter((file): file is string => typeof file === 'string')
+      : extracted.files_changed,
+    code_changes: isNonEmptyArray(provided.codeChanges) ? provided.codeChanges as CodeChange[] : extracted.code_changes,
+    tool_usage: isNonEmptyArray(provided.toolUsage) ? provided.toolUsage as ToolCall[] : extracted.tool_usage
+  };
+};
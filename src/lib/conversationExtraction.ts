@@ -1,6 +1,6 @@
 /**
  * Shared conversation extraction utilities
- * Used by both ConversationsTab (for display) and MCP integration (for storage)
+ * Used by ConversationsTab (for display), MCP integration and the API (for storage)
  */
 
 export interface CodeBlock {
@@ -67,12 +67,12 @@ export interface TechnicalDetails {
  * Enhanced tool output extraction with file paths, errors, success indicators
  */
 export const extractEnhancedToolOutputs = (content: string): ToolOutput[] => {
-  const toolOutputPattern = /●\s+(\w+):\s+(.+?)(?=●|$)/gs;
+  const toolOutputPattern = /●\s+(\w+):\s+([\s\S]+?)(?=●|$)/g;
   const toolMatches = [...content.matchAll(toolOutputPattern)];
   
   return toolMatches.map(match => {
     const [, tool, output] = match;
-    const filePaths = output.match(/[\w/\\.-]+\.(ts|tsx|js|jsx|css|sql|md|json|yml|yaml)/g) || [];
+    const filePaths = output.match(/[\w/\\.-]+\.(ts|tsx|js|jsx|css|sql|md|json|yml|yaml)\b/g) || [];
     const errors = output.match(/Error:|Failed:|Exception:|Uncaught/g) || [];
     const success = output.includes('✓') || output.includes('Success') || output.includes('completed');
     
@@ -226,7 +226,7 @@ export const getMessageTechnicalDetails = (message: { role: string; content: str
   const approachContext = extractApproachContext(content);
   
   // Extract file paths mentioned
-  const filePathPattern = /(?:src\/|\.\/)[^\s<>:"|*?]+\.(ts|tsx|js|jsx|css|sql|md|json)/g;
+  const filePathPattern = /(?:src\/|\.\/)[^\s<>:"|*?]+\.(ts|tsx|js|jsx|css|sql|md|json)\b/g;
   const filePaths = [...content.matchAll(filePathPattern)].map(match => match[0]);
   
   // Extract code blocks
@@ -0,0 +1,497 @@
+/**
+ * Conversation importers: turn exported AI chat transcripts into the
+ * conversation `messages` shape.
+ *
+ * Supported formats:
+ * - Claude Code session transcripts (~/.claude/projects/<project>/<session>.jsonl)
+ * - Cursor chat exports (the Markdown "Export Chat" file, or JSON with tabs/bubbles)
+ * - ChatGPT data exports (conversations.json)
+ * - Plain Markdown transcripts (## User / **Assistant:** / Human: ...)
+ */
+
+import { hashContent } from './embeddings';
+
+export const IMPORT_FORMATS = ['claude-code', 'cursor', 'chatgpt', 'markdown'] as const;
+export type ImportFormat = typeof IMPORT_FORMATS[number];
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+  'claude-code': 'Claude Code (JSONL)',
+  cursor: 'Cursor export',
+  chatgpt: 'ChatGPT (conversations.json)',
+  markdown: 'Markdown transcript'
+};
+
+// Tool call kept on a message; conversationDetails reads these as real tool calls
+export interface ImportedToolCall {
+  id?: string;
+  name: string;
+  input: Record<string, unknown>;
+  result?: string;
+  is_error?: boolean;
+}
+
+export interface ImportedMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp?: string;
+  tool_calls?: ImportedToolCall[];
+}
+
+export interface ImportedConversation {
+  title: string;
+  format: ImportFormat;
+  messages: ImportedMessage[];
+  // Id of the session in the source tool, when the export has one
+  externalId?: string;
+  createdAt?: string;
+  projectPath?: string;
+}
+
+export class ConversationImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConversationImportError';
+  }
+}
+
+const MAX_TITLE_LENGTH = 80;
+const MAX_TOOL_RESULT_LENGTH = 2000;
+
+type JsonRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is JsonRecord => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const asString = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+const toIsoTimestamp = (value: unknown): string | undefined => {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    // ChatGPT uses seconds, Cursor uses milliseconds
+    return new Date(value < 1e12 ? value * 1000 : value).toISOString();
+  }
+  if (typeof value === 'string' && value.trim()) {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+  }
+  return undefined;
+};
+
+const titleFromMessages = (messages: ImportedMessage[], fallback: string): string => {
+  const first = messages.find(message => message.role === 'user' && message.content.trim());
+  const line = first?.content.trim().split('\n')[0] || '';
+  if (!line) return fallback;
+  return line.length > MAX_TITLE_LENGTH ? `${line.slice(0, MAX_TITLE_LENGTH - 3)}...` : line;
+};
+
+const blockText = (content: unknown): string => {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return '';
+  return content
+    .map(block => (typeof block === 'string' ? block : isRecord(block) && block.type === 'text' ? asString(block.text) : ''))
+    .filter(Boolean)
+    .join('\n');
+};
+
+const truncateResult = (text: string): string =>
+  text.length > MAX_TOOL_RESULT_LENGTH ? `${text.slice(0, MAX_TOOL_RESULT_LENGTH)}...` : text;
+
+// Consecutive messages from the same role are joined (tool round-trips split one reply into many entries)
+const appendMessage = (messages: ImportedMessage[], message: ImportedMessage) => {
+  const previous = messages[messages.length - 1];
+  if (previous && previous.role === message.role) {
+    previous.content = [previous.content, message.content].filter(Boolean).join('\n\n');
+    if (message.tool_calls?.length) {
+      previous.tool_calls = [...(previous.tool_calls || []), ...message.tool_calls];
+    }
+    return;
+  }
+  messages.push(message);
+};
+
+const withoutEmptyMessages = (messages: ImportedMessage[]): ImportedMessage[] =>
+  messages.filter(message => message.content.trim() || message.tool_calls?.length);
+
+/**
+ * Claude Code writes one JSON object per line. User and assistant entries carry
+ * a `message` in Anthropic API format; tool results come back as user entries
+ * holding tool_result blocks.
+ */
+export const parseClaudeCodeJsonl = (text: string): ImportedConversation[] => {
+  const messages: ImportedMessage[] = [];
+  const toolCalls = new Map<string, ImportedToolCall>();
+  let summary = '';
+  let sessionId: string | undefined;
+  let projectPath: string | undefined;
+  let createdAt: string | undefined;
+  let parsedLines = 0;
+
+  text.split('\n').forEach(line => {
+    if (!line.trim()) return;
+
+    let entry: unknown;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      return;
+    }
+    if (!isRecord(entry)) return;
+    parsedLines++;
+
+    if (entry.type === 'summary') {
+      summary = summary || asString(entry.summary);
+      return;
+    }
+    // Sidechains are sub-agent conversations, not part of the main session
+    if ((entry.type !== 'user' && entry.type !== 'assistant') || entry.isSidechain || !isRecord(entry.message)) return;
+
+    sessionId = sessionId || asString(entry.sessionId) || undefined;
+    projectPath = projectPath || asString(entry.cwd) || undefined;
+    const timestamp = toIsoTimestamp(entry.timestamp);
+    createdAt = createdAt || timestamp;
+
+    const content = entry.message.content;
+    const blocks = Array.isArray(content) ? content.filter(isRecord) : [];
+
+    // Attach tool results to the calls they answer instead of adding user messages
+    const results = blocks.filter(block => block.type === 'tool_result');
+    results.forEach(block => {
+      const call = toolCalls.get(asString(block.tool_use_id));
+      if (call) {
+        call.result = truncateResult(blockText(block.content));
+        call.is_error = block.is_error === true;
+      }
+    });
+
+    const calls: ImportedToolCall[] = blocks
+      .filter(block => block.type === 'tool_use' && typeof block.name === 'string')
+      .map(block => {
+        const call: ImportedToolCall = {
+          id: asString(block.id) || undefined,
+          name: block.name as string,
+          input: isRecord(block.input) ? block.input : {}
+        };
+        if (call.id) toolCalls.set(call.id, call);
+        return call;
+      });
+
+    const messageText = blockText(content);
+    if (!messageText.trim() && calls.length === 0) return;
+
+    appendMessage(messages, {
+      role: entry.type === 'user' ? 'user' : 'assistant',
+      content: messageText,
+      ...(timestamp ? { timestamp } : {}),
+      ...(calls.length > 0 ? { tool_calls: calls } : {})
+    });
+  });
+
+  if (parsedLines === 0) {
+    throw new ConversationImportError('No Claude Code entries found. Expected one JSON object per line.');
+  }
+
+  const result = withoutEmptyMessages(messages);
+  if (result.length === 0) return [];
+
+  return [{
+    title: summary || titleFromMessages(result, 'Claude Code session'),
+    format: 'claude-code',
+    messages: result,
+    externalId: sessionId,
+    createdAt,
+    projectPath
+  }];
+};
+
+/**
+ * Walks a ChatGPT conversation from its current node back to the root,
+ * so only the branch the user ended up on is imported.
+ */
+const parseChatGptConversation = (conversation: JsonRecord): ImportedConversation | null => {
+  const mapping = isRecord(conversation.mapping) ? conversation.mapping : {};
+  const path: JsonRecord[] = [];
+  let nodeId = asString(conversation.current_node);
+
+  // Older exports have no current_node; follow the latest child from the root instead
+  if (!nodeId) {
+    let node = Object.values(mapping).find(value => isRecord(value) && !value.parent);
+    while (isRecord(node)) {
+      path.push(node);
+      const children = Array.isArray(node.children) ? node.children : [];
+      node = children.length > 0 ? mapping[asString(children[children.length - 1])] : undefined;
+    }
+  } else {
+    const seen = new Set<string>();
+    while (nodeId && !seen.has(nodeId) && isRecord(mapping[nodeId])) {
+      seen.add(nodeId);
+      const node = mapping[nodeId] as JsonRecord;
+      path.unshift(node);
+      nodeId = asString(node.parent);
+    }
+  }
+
+  const messages: ImportedMessage[] = [];
+  let pendingCall: ImportedToolCall | null = null;
+
+  path.forEach(node => {
+    const message = node.message;
+    if (!isRecord(message) || !isRecord(message.author) || !isRecord(message.content)) return;
+    if (isRecord(message.metadata) && message.metadata.is_visually_hidden_from_conversation) return;
+
+    const role = asString(message.author.role);
+    const parts = Array.isArray(message.content.parts) ? message.content.parts : [];
+    const text = [asString(message.content.text), ...parts.map(part => (typeof part === 'string' ? part : ''))]
+      .filter(Boolean)
+      .join('\n');
+    const timestamp = toIsoTimestamp(message.create_time);
+    const recipient = asString(message.recipient) || 'all';
+
+    if (role === 'tool') {
+      if (pendingCall) {
+        pendingCall.result = truncateResult(text);
+        pendingCall = null;
+      }
+      return;
+    }
+
+    if (role === 'assistant' && recipient !== 'all') {
+      // Messages addressed to a tool (python, browser, ...) are the tool call itself
+      pendingCall = { name: recipient, input: { code: text } };
+      appendMessage(messages, { role: 'assistant', content: '', ...(timestamp ? { timestamp } : {}), tool_calls: [pendingCall] });
+      return;
+    }
+
+    if ((role !== 'user' && role !== 'assistant') || !text.trim()) return;
+    appendMessage(messages, { role, content: text, ...(timestamp ? { timestamp } : {}) });
+  });
+
+  const result = withoutEmptyMessages(messages);
+  if (result.length === 0) return null;
+
+  return {
+    title: asString(conversation.title) || titleFromMessages(result, 'ChatGPT conversation'),
+    format: 'chatgpt',
+    messages: result,
+    externalId: asString(conversation.conversation_id) || asString(conversation.id) || undefined,
+    createdAt: toIsoTimestamp(conversation.create_time)
+  };
+};
+
+/**
+ * ChatGPT's data export has every conversation in one conversations.json array
+ */
+export const parseChatGptExport = (text: string): ImportedConversation[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ConversationImportError('ChatGPT export is not valid JSON.');
+  }
+
+  const conversations = Array.isArray(data) ? data : [data];
+  if (!conversations.every(conversation => isRecord(conversation) && isRecord(conversation.mapping))) {
+    throw new ConversationImportError('Not a ChatGPT export. Expected conversations.json from "Export data".');
+  }
+
+  return conversations
+    .map(conversation => parseChatGptConversation(conversation as JsonRecord))
+    .filter((conversation): conversation is ImportedConversation => conversation !== null);
+};
+
+// Role labels used by Markdown transcripts, including Cursor's export
+const MARKDOWN_ROLES: Record<string, ImportedMessage['role']> = {
+  user: 'user',
+  human: 'user',
+  me: 'user',
+  you: 'user',
+  assistant: 'assistant',
+  ai: 'assistant',
+  claude: 'assistant',
+  chatgpt: 'assistant',
+  cursor: 'assistant',
+  gpt: 'assistant'
+};
+
+const ROLE_NAMES = 'user|human|me|you|assistant|ai|claude|chatgpt|cursor|gpt';
+// A line holding only a label: "## User", "**Cursor**", "### Assistant (2025-09-01 10:00)"
+const ROLE_HEADING_PATTERN = new RegExp(`^(?:#{1,6}\\s+|\\*\\*)(${ROLE_NAMES})(?:\\s*\\(([^)]*)\\))?\\s*:?\\s*(?:\\*\\*)?\\s*:?\\s*$`, 'i');
+// A label followed by the message: "User: ...", "**Assistant:** ..."
+const ROLE_PREFIX_PATTERN = new RegExp(`^(?:\\*\\*)?(${ROLE_NAMES})(?:\\s*\\(([^)]*)\\))?\\s*:(?:\\*\\*)?\\s*(.*)$`, 'i');
+
+/**
+ * Splits a Markdown transcript on role labels. The first "# " heading becomes the title.
+ */
+export const parseMarkdownTranscript = (text: string, format: ImportFormat = 'markdown'): ImportedConversation[] => {
+  const messages: ImportedMessage[] = [];
+  let title = '';
+  let current: ImportedMessage | null = null;
+  let inCodeBlock = false;
+
+  const flush = () => {
+    if (current) {
+      current.content = current.content.replace(/\n-{3,}\s*$/, '').trim();
+      appendMessage(messages, current);
+    }
+  };
+
+  text.split('\n').forEach(line => {
+    const match = !inCodeBlock ? line.match(ROLE_HEADING_PATTERN) || line.match(ROLE_PREFIX_PATTERN) : null;
+    if (line.trim().startsWith('```')) {
+      inCodeBlock = !inCodeBlock;
+    }
+
+    if (match) {
+      flush();
+      const timestamp = toIsoTimestamp(match[2]);
+      current = {
+        role: MARKDOWN_ROLES[match[1].toLowerCase()],
+        content: match[3] || '',
+        ...(timestamp ? { timestamp } : {})
+      };
+      return;
+    }
+
+    if (!current) {
+      if (!title && /^#\s+/.test(line)) {
+        title = line.replace(/^#\s+/, '').trim();
+      }
+      return;
+    }
+
+    current.content += `\n${line}`;
+  });
+  flush();
+
+  const result = withoutEmptyMessages(messages);
+  if (result.length === 0) {
+    throw new ConversationImportError('No messages found. Label each message with a role such as "## User" or "Assistant:".');
+  }
+
+  return [{
+    title: title || titleFromMessages(result, 'Imported conversation'),
+    format,
+    messages: result
+  }];
+};
+
+/**
+ * Cursor's "Export Chat" writes Markdown with **User** / **Cursor** labels.
+ * JSON exports from chat history extensions list tabs with bubbles instead.
+ */
+export const parseCursorExport = (text: string): ImportedConversation[] => {
+  if (!text.trim().startsWith('{') && !text.trim().startsWith('[')) {
+    return parseMarkdownTranscript(text, 'cursor');
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ConversationImportError('Cursor export is not valid JSON.');
+  }
+
+  const tabs = isRecord(data) && Array.isArray(data.tabs) ? data.tabs : Array.isArray(data) ? data : [];
+  const conversations = tabs.filter(isRecord).map((tab): ImportedConversation | null => {
+    const bubbles = Array.isArray(tab.bubbles) ? tab.bubbles.filter(isRecord) : [];
+    const messages: ImportedMessage[] = [];
+
+    bubbles.forEach(bubble => {
+      const content = asString(bubble.text) || asString(bubble.rawText);
+      if (!content.trim()) return;
+      const timestamp = toIsoTimestamp(bubble.timestamp ?? bubble.createdAt);
+      appendMessage(messages, {
+        role: bubble.type === 'user' || bubble.type === 1 ? 'user' : 'assistant',
+        content,
+        ...(timestamp ? { timestamp } : {})
+      });
+    });
+
+    if (messages.length === 0) return null;
+    return {
+      title: asString(tab.chatTitle) || asString(tab.title) || titleFromMessages(messages, 'Cursor chat'),
+      format: 'cursor',
+      messages,
+      externalId: asString(tab.tabId) || asString(tab.id) || undefined,
+      createdAt: toIsoTimestamp(tab.lastSendTime ?? tab.createdAt)
+    };
+  }).filter((conversation): conversation is ImportedConversation => conversation !== null);
+
+  if (conversations.length === 0) {
+    throw new ConversationImportError('No Cursor chats found. Expected an export with tabs and bubbles.');
+  }
+  return conversations;
+};
+
+/**
+ * Guesses the export format from the file name and its first characters
+ */
+export const detectImportFormat = (fileName: string, text: string): ImportFormat => {
+  const name = fileName.toLowerCase();
+  const start = text.trimStart();
+
+  if (name.endsWith('.jsonl')) return 'claude-code';
+  if (start.startsWith('{') || start.startsWith('[')) {
+    if (start.includes('"mapping"')) return 'chatgpt';
+    if (start.includes('"bubbles"')) return 'cursor';
+    if (start.startsWith('{') && start.includes('"sessionId"')) return 'claude-code';
+  }
+  if (/_Exported on .* from Cursor/.test(start.slice(0, 500)) || /^\*\*Cursor\*\*/m.test(text)) return 'cursor';
+  return 'markdown';
+};
+
+const PARSERS: Record<ImportFormat, (text: string) => ImportedConversation[]> = {
+  'claude-code': parseClaudeCodeJsonl,
+  cursor: parseCursorExport,
+  chatgpt: parseChatGptExport,
+  markdown: text => parseMarkdownTranscript(text)
+};
+
+/**
+ * Parses an exported file. Throws ConversationImportError when the file does not match the format.
+ */
+export const parseConversationImport = (
+  text: string,
+  options: { fileName?: string; format?: ImportFormat } = {}
+): ImportedConversation[] => {
+  const format = options.format || detectImportFormat(options.fileName || '', text);
+  return PARSERS[format](text);
+};
+
+/**
+ * Identifies a conversation by its message text, so the same transcript
+ * imported twice (or already saved through MCP) is recognised
+ */
+export const getConversationFingerprint = (messages: Array<{ role?: unknown; content?: unknown }>): string =>
+  hashContent(
+    messages
+      .map(message => `${asString(message.role)}:${blockText(message.content).replace(/\s+/g, ' ').trim()}`)
+      .filter(entry => !entry.endsWith(':'))
+      .join('\n')
+  );
+
+/**
+ * Indexes of the imports that match an existing conversation or an earlier import in the same batch
+ */
+export const findDuplicateImports = (
+  imports: ImportedConversation[],
+  existing: Array<{ messages?: Array<{ role?: unknown; content?: unknown }> | null; technical_details?: unknown }>
+): Set<number> => {
+  const seenFingerprints = new Set(existing.map(conversation => getConversationFingerprint(conversation.messages || [])));
+  const seenExternalIds = new Set(
+    existing
+      .map(conversation => (isRecord(conversation.technical_details) && isRecord(conversation.technical_details.import)
+        ? asString(conversation.technical_details.import.external_id)
+        : ''))
+      .filter(Boolean)
+  );
+  const duplicates = new Set<number>();
+
+  imports.forEach((conversation, index) => {
+    const fingerprint = getConversationFingerprint(conversation.messages);
+    if (seenFingerprints.has(fingerprint) || (conversation.externalId && seenExternalIds.has(conversation.externalId))) {
+      duplicates.add(index);
+    }
+    seenFingerprints.add(fingerprint);
+    if (conversation.externalId) seenExternalIds.add(conversation.externalId);
+  });
+
+  return duplicates;
+};
@@ -6,6 +6,8 @@
  * - Real code changes with before/after comparisons
  * - File modifications and creations
  * - Implementation summaries from assistant responses
+ *
+ * Runs in the browser and in the Netlify API function (see conversationDetails.ts)
  */
 
 export interface ToolCall {
@@ -64,26 +66,26 @@ export class ConversationParser {
       const message = messages[i];
       
       if (message.role === 'assistant') {
-        const messageDetails = this.parseAssistantMessage(message, i);
+        const details = this.parseAssistantMessage(message, i);
         
-        if (messageDetails) {
+        if (details) {
           // Add to overall tracking
-          messageDetails.toolUsage.forEach(tool => {
+          details.toolUsage.forEach(tool => {
             tool.messageIndex = i;
             allToolCalls.push(tool);
           });
           
-          messageDetails.codeChanges.forEach(change => {
+          details.codeChanges.forEach(change => {
             change.messageIndex = i;
             allCodeChanges.push(change);
             allFilesChanged.add(change.file_path);
           });
           
-          messageDetails.filesChanged.forEach(file => {
+          details.filesChanged.forEach(file => {
             allFilesChanged.add(file);
           });
           
-          messageDetails[i] = messageDetails;
+          messageDetails[i] = details;
         }
       }
     }
@@ -189,12 +191,12 @@ export class ConversationParser {
     const codeChanges: CodeChange[] = [];
     
     // Look for file paths mentioned in the message
-    const filePathPattern = /(?:src\/|\.\/|D:\\|\/)[^\s<>:"|*?]+\.(ts|tsx|js|jsx|css|sql|md|json|yml|yaml)/gi;
+    const filePathPattern = /(?:src\/|\.\/|D:\\|\/)[^\s<>:"|*?]+\.(ts|tsx|js|jsx|css|sql|md|json|yml|yaml)\b/gi;
     const filePaths = content.match(filePathPattern) || [];
     
     // Look for code blocks
     const codeBlockPattern = /```[\s\S]*?```/g;
-    const codeBlocks = content.match(codeBlockPattern) || [];
+    const codeBlocks: string[] = content.match(codeBlockPattern) || [];
     
     filePaths.forEach(filePath => {
       // Determine action based on message content
@@ -233,7 +235,7 @@ export class ConversationParser {
    * Extract files changed from message content
    */
   private static extractFilesChanged(content: string): string[] {
-    const filePathPattern = /(?:src\/|\.\/|D:\\|\/)[^\s<>:"|*?]+\.(ts|tsx|js|jsx|css|sql|md|json|yml|yaml)/gi;
+    const filePathPattern = /(?:src\/|\.\/|D:\\|\/)[^\s<>:"|*?]+\.(ts|tsx|js|jsx|css|sql|md|json|yml|yaml)\b/gi;
     const filePaths = content.match(filePathPattern) || [];
     
     return [...new Set(filePaths.map(path => path.replace(/^.*[\\\/]/, '')))];
@@ -0,0 +1,50 @@
+const HIGHLIGHT_PATTERN = /<mark>([\s\S]*?)<\/mark>/g;
+
+/**
+ * Ranked full-text match returned by the search_conversations RPC
+ */
+export interface ConversationSearchMatch {
+  id: string;
+  rank: number;
+  titleHighlight: string;
+  snippet: string;
+}
+
+/**
+ * A piece of highlighted text, ready to render without innerHTML
+ */
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+/**
+ * Splits a ts_headline result (<mark>…</mark> markers) into plain segments
+ * @param text - Headline text from the database
+ * @returns Ordered segments with highlighted matches flagged
+ */
+export const parseHighlights = (text: string | null | undefined): HighlightSegment[] => {
+  if (!text) {
+    return [];
+  }
+
+  const segments: HighlightSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(HIGHLIGHT_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      segments.push({ text: text.slice(lastIndex, index), highlighted: false });
+    }
+    if (match[1]) {
+      segments.push({ text: match[1], highlighted: true });
+    }
+    lastIndex = index + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ text: text.slice(lastIndex), highlighted: false });
+  }
+
+  return segments;
+};
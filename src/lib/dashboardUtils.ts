@@ -13,15 +13,18 @@ import {
   BugSeverityData,
   FeaturePipelineData,
   PriorityTask,
-  AILearningInsight
+  AILearningInsight,
+  LearningConversation,
+  ProjectSummary
 } from '../types/dashboard';
+import { isResolvedBugStatus } from './bugStatus';
 import { 
   Target, 
   Trophy, 
   Zap, 
   Star
 } from 'lucide-react';
-import React from 'react';
+import type { ComponentType } from 'react';
 
 /**
  * Calculate dashboard statistics from project data
@@ -34,7 +37,7 @@ export const calculateDashboardStats = (
 ): DashboardStats => {
   const completedTasks = tasks.filter(t => t.status === 'done').length;
   const incompleteTasks = tasks.filter(t => t.status !== 'done').length; // Tasks that are NOT completed
-  const openBugs = bugs.filter(b => b.status === 'open').length;
+  const openBugs = bugs.filter(b => b.status === 'open' || b.status === 'reopened').length;
   const highPriorityTasks = tasks.filter(t => t.priority === 'high').length;
 
   return {
@@ -57,7 +60,7 @@ export const calculateProjectProgress = (
 ): ProjectProgress => {
   const completedTasks = tasks.filter(t => t.status === 'done').length;
   const highPriorityTasks = tasks.filter(t => t.priority === 'high').length;
-  const openBugs = bugs.filter(b => b.status === 'open').length;
+  const openBugs = bugs.filter(b => b.status === 'open' || b.status === 'reopened').length;
   
   const completionPercentage = tasks.length > 0 
     ? Math.round((completedTasks / tasks.length) * 100) 
@@ -71,6 +74,81 @@ export const calculateProjectProgress = (
   };
 };
 
+const toCount = (value: unknown): number => {
+  const count = Number(value);
+  return Number.isFinite(count) && count > 0 ? count : 0;
+};
+
+/**
+ * Map the get_project_summary() result to a ProjectSummary, treating missing counts as zero
+ */
+export const formatProjectSummary = (raw: unknown): ProjectSummary => {
+  const data = (raw && typeof raw === 'object' ? raw : {}) as Record<string, Record<string, unknown> | undefined>;
+  const tasks = data.tasks || {};
+  const bugs = data.bugs || {};
+  const severity = (bugs.active_by_severity || {}) as Record<string, unknown>;
+  const features = data.features || {};
+  const documents = data.documents || {};
+  const events = data.events || {};
+
+  return {
+    tasks: {
+      total: toCount(tasks.total),
+      done: toCount(tasks.done),
+      highPriority: toCount(tasks.high_priority),
+    },
+    bugs: {
+      total: toCount(bugs.total),
+      open: toCount(bugs.open),
+      activeBySeverity: {
+        critical: toCount(severity.critical),
+        high: toCount(severity.high),
+        medium: toCount(severity.medium),
+        low: toCount(severity.low),
+      },
+    },
+    features: {
+      total: toCount(features.total),
+      planned: toCount(features.planned),
+      inProgress: toCount(features.in_progress),
+      testing: toCount(features.testing),
+      implemented: toCount(features.implemented),
+    },
+    documents: {
+      total: toCount(documents.total),
+    },
+    events: {
+      total: toCount(events.total),
+      upcoming: toCount(events.upcoming),
+    },
+  };
+};
+
+/**
+ * Dashboard statistics from server-side counts (same shape as calculateDashboardStats)
+ */
+export const getDashboardStatsFromSummary = (summary: ProjectSummary): DashboardStats => ({
+  totalTasks: summary.tasks.total - summary.tasks.done, // Incomplete tasks only
+  completedTasks: summary.tasks.done,
+  totalBugs: summary.bugs.total,
+  openBugs: summary.bugs.open,
+  totalFeatures: summary.features.total,
+  totalDocuments: summary.documents.total,
+  highPriorityTasks: summary.tasks.highPriority,
+});
+
+/**
+ * Project progress from server-side counts (same shape as calculateProjectProgress)
+ */
+export const getProjectProgressFromSummary = (summary: ProjectSummary): ProjectProgress => ({
+  completionPercentage: summary.tasks.total > 0
+    ? Math.round((summary.tasks.done / summary.tasks.total) * 100)
+    : 0,
+  remainingTasks: summary.tasks.total - summary.tasks.done,
+  highPriorityTasks: summary.tasks.highPriority,
+  openBugs: summary.bugs.open,
+});
+
 /**
  * Generate recent activity from project data
  */
@@ -131,7 +209,7 @@ export const generateMetricCards = (stats: DashboardStats, allTasks: Task[]): Me
     {
       label: 'Tasks',
       value: stats.totalTasks, // This now shows incomplete tasks only
-      icon: Target as React.ComponentType<{ size?: number; className?: string }>,
+      icon: Target as ComponentType<{ size?: number; className?: string }>,
       colorType: 'tasks',
       progress: completionRate, // Progress based on all tasks
       subtitle: `${stats.completedTasks} completed`,
@@ -143,7 +221,7 @@ export const generateMetricCards = (stats: DashboardStats, allTasks: Task[]): Me
     {
       label: 'Completed',
       value: stats.completedTasks,
-      icon: Trophy as React.ComponentType<{ size?: number; className?: string }>,
+      icon: Trophy as ComponentType<{ size?: number; className?: string }>,
       colorType: 'completed',
       progress: completionRate,
       subtitle: `${Math.round(completionRate)}% done`,
@@ -155,7 +233,7 @@ export const generateMetricCards = (stats: DashboardStats, allTasks: Task[]): Me
     {
       label: 'Open Bugs',
       value: stats.openBugs,
-      icon: Zap as React.ComponentType<{ size?: number; className?: string }>,
+      icon: Zap as ComponentType<{ size?: number; className?: string }>,
       colorType: 'bugs',
       progress: stats.totalBugs > 0 ? (stats.openBugs / stats.totalBugs) * 100 : 0,
       subtitle: `${stats.totalBugs} total`,
@@ -167,7 +245,7 @@ export const generateMetricCards = (stats: DashboardStats, allTasks: Task[]): Me
     {
       label: 'Documents',
       value: stats.totalDocuments,
-      icon: Star as React.ComponentType<{ size?: number; className?: string }>,
+      icon: Star as ComponentType<{ size?: number; className?: string }>,
       colorType: 'documents',
       progress: 75, // Static progress for demo
       subtitle: 'Knowledge base',
@@ -260,23 +338,126 @@ export const getPriorityTasks = (tasks: Task[], limit: number = 3): PriorityTask
   }));
 };
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TREND_WEEKS = 6;
+const INSIGHT_LIST_LIMIT = 5;
+// Shorter titles ("Crash", "Login bug") match too many unrelated conversations
+const MIN_TITLE_MATCH_LENGTH = 10;
+
+const normalizeText = (text: string): string => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+const normalizePath = (path: string): string => path.toLowerCase().replace(/\\/g, '/').replace(/^\.\//, '');
+
+// Paths may be absolute in conversations and relative in bugs, so compare by suffix
+const pathsMatch = (a: string, b: string): boolean => {
+  const [left, right] = [normalizePath(a), normalizePath(b)];
+  return left === right || left.endsWith(`/${right}`) || right.endsWith(`/${left}`);
+};
+
 /**
- * Generate mock AI learning insights (placeholder for RefBase integration)
+ * Find conversations that reference a bug by id, by title, or by touching one of its affected files
  */
-export const generateAILearningInsights = (): AILearningInsight => {
-  const conversationCount = Math.floor(Math.random() * 50) + 10;
-  const successfulPatterns = Math.floor(conversationCount * 0.7);
-  const learningScore = Math.floor(Math.random() * 40) + 60; // 60-100 range
-  
-  let effectiveness: 'low' | 'medium' | 'high' = 'medium';
-  if (learningScore >= 85) effectiveness = 'high';
-  else if (learningScore < 70) effectiveness = 'low';
+export const findLinkedConversations = (
+  bug: Bug,
+  conversations: LearningConversation[]
+): LearningConversation[] => {
+  const bugTitle = normalizeText(bug.title);
+  const affectedFiles = bug.affectedFiles || [];
+
+  return conversations.filter(conversation => {
+    const text = normalizeText([conversation.title, conversation.summary, ...conversation.tags].join(' '));
+    if (text.includes(bug.id.toLowerCase())) return true;
+    if (bugTitle.length >= MIN_TITLE_MATCH_LENGTH && text.includes(bugTitle)) return true;
+    return conversation.filesChanged.some(file => affectedFiles.some(affected => pathsMatch(file, affected)));
+  });
+};
+
+/**
+ * Calculate AI learning insights from captured conversations and project bugs
+ */
+export const calculateAILearningInsights = (
+  conversations: LearningConversation[],
+  bugs: Bug[],
+  now: Date = new Date()
+): AILearningInsight => {
+  const countInRange = (dates: Date[], from: number, to: number) =>
+    dates.filter(date => date.getTime() >= from && date.getTime() < to).length;
+
+  const end = now.getTime() + 1;
+  const weekAgo = now.getTime() - 7 * DAY_MS;
+  const twoWeeksAgo = now.getTime() - 14 * DAY_MS;
+
+  const conversationDates = conversations.map(c => c.createdAt);
+  // Bugs have no resolved timestamp; the last update of a fixed or verified bug is the closest signal
+  const resolvedBugs = bugs.filter(bug => isResolvedBugStatus(bug.status));
+  const resolvedDates = resolvedBugs.map(bug => bug.updatedAt);
+
+  const linkedBugs = resolvedBugs
+    .map(bug => ({ bug, linked: findLinkedConversations(bug, conversations) }))
+    .filter(({ linked }) => linked.length > 0)
+    .sort((a, b) => b.bug.updatedAt.getTime() - a.bug.updatedAt.getTime());
+
+  // A pattern is a tag that more than one conversation has been filed under
+  const conversationsByTag = new Map<string, LearningConversation[]>();
+  conversations.forEach(conversation => {
+    new Set(conversation.tags.map(tag => tag.trim().toLowerCase()).filter(Boolean)).forEach(tag => {
+      conversationsByTag.set(tag, [...(conversationsByTag.get(tag) || []), conversation]);
+    });
+  });
+  const reusedPatterns = Array.from(conversationsByTag.entries())
+    .filter(([, tagged]) => tagged.length > 1)
+    .sort((a, b) => b[1].length - a[1].length || a[0].localeCompare(b[0]));
+
+  const trend = Array.from({ length: TREND_WEEKS }, (_, index) => {
+    const from = now.getTime() - (TREND_WEEKS - index) * 7 * DAY_MS;
+    const to = index === TREND_WEEKS - 1 ? end : from + 7 * DAY_MS;
+    return {
+      weekStart: format(new Date(from), 'yyyy-MM-dd'),
+      conversations: countInRange(conversationDates, from, to),
+      resolvedBugs: countInRange(resolvedDates, from, to),
+    };
+  });
+
+  const toConversationRef = (conversation: LearningConversation) => ({
+    type: 'conversation' as const,
+    id: conversation.id,
+    title: conversation.title,
+    detail: format(conversation.createdAt, 'MMM d'),
+  });
 
   return {
-    conversationCount,
-    successfulPatterns,
-    learningScore,
-    effectiveness,
+    conversationCount: conversations.length,
+    conversationTrend: calculateTrend(
+      countInRange(conversationDates, weekAgo, end),
+      countInRange(conversationDates, twoWeeksAgo, weekAgo)
+    ),
+    resolvedBugCount: resolvedBugs.length,
+    linkedResolvedBugCount: linkedBugs.length,
+    linkedResolutionRate: resolvedBugs.length > 0
+      ? Math.round((linkedBugs.length / resolvedBugs.length) * 100)
+      : 0,
+    reusedPatternCount: reusedPatterns.length,
+    resolvedBugTrend: calculateTrend(
+      countInRange(resolvedDates, weekAgo, end),
+      countInRange(resolvedDates, twoWeeksAgo, weekAgo)
+    ),
+    trend,
+    recentConversations: [...conversations]
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, INSIGHT_LIST_LIMIT)
+      .map(toConversationRef),
+    linkedBugs: linkedBugs.slice(0, INSIGHT_LIST_LIMIT).map(({ bug, linked }) => ({
+      type: 'bug' as const,
+      id: bug.id,
+      title: bug.title,
+      detail: `${linked.length} conversation${linked.length === 1 ? '' : 's'}`,
+    })),
+    patterns: reusedPatterns.slice(0, INSIGHT_LIST_LIMIT).map(([tag, tagged]) => ({
+      tag,
+      conversations: [...tagged]
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+        .map(toConversationRef),
+    })),
   };
 };
 
@@ -0,0 +1,18 @@
+/**
+ * Diagram rendering settings for this deployment, from Vite env vars
+ */
+
+import mermaidScriptUrl from 'mermaid/dist/mermaid.min.js?url';
+import { DIAGRAM_LANGUAGES, DiagramLanguage } from './diagrams';
+
+// Mermaid's standalone build, served with the app; absolute so the diagram iframe can load it
+export const MERMAID_SCRIPT_URL = new URL(mermaidScriptUrl, document.baseURI).href;
+
+// PlantUML source is sent to this server to be rendered. Unset, PlantUML fences are not rendered,
+// so private specs never leave the deployment without an opt-in.
+export const PLANTUML_SERVER_URL: string = import.meta.env.VITE_PLANTUML_SERVER_URL || '';
+
+// Fences that render as diagrams in Markdown previews
+export const RENDERED_DIAGRAM_LANGUAGES: readonly DiagramLanguage[] = DIAGRAM_LANGUAGES.filter(
+  language => language !== 'plantuml' || !!PLANTUML_SERVER_URL
+);
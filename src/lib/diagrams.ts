@@ -0,0 +1,163 @@
+/**
+ * Diagram helpers for ```mermaid and ```plantuml fences in Markdown previews.
+ *
+ * Mermaid runs in a sandboxed iframe (scripts only, opaque origin) that loads
+ * the Mermaid build bundled with the app and posts the rendered SVG back to the page, so diagram source never runs with access
+ * to the app or the user's session. PlantUML source is encoded into the URL of
+ * the PlantUML server configured with VITE_PLANTUML_SERVER_URL, which returns
+ * the SVG; without one, PlantUML fences stay code blocks so diagram source is
+ * never sent to a third party. Either way the page only ever shows the SVG as
+ * an image.
+ */
+
+export const DIAGRAM_LANGUAGES = ['mermaid', 'plantuml'] as const;
+export type DiagramLanguage = typeof DIAGRAM_LANGUAGES[number];
+
+export const DIAGRAM_LANGUAGE_LABELS: Record<DiagramLanguage, string> = {
+  mermaid: 'Mermaid',
+  plantuml: 'PlantUML'
+};
+
+// Fence names people use for each language
+const DIAGRAM_LANGUAGE_ALIASES: Record<string, DiagramLanguage> = {
+  mermaid: 'mermaid',
+  mmd: 'mermaid',
+  plantuml: 'plantuml',
+  puml: 'plantuml',
+  uml: 'plantuml'
+};
+
+
+export const DIAGRAM_MESSAGE_SOURCE = 'refbase-diagram';
+
+export type DiagramTheme = 'light' | 'dark';
+export type DiagramExportFormat = 'svg' | 'png';
+
+export type DiagramRenderMessage =
+  | { source: typeof DIAGRAM_MESSAGE_SOURCE; id: string; type: 'rendered'; svg: string }
+  | { source: typeof DIAGRAM_MESSAGE_SOURCE; id: string; type: 'error'; message: string };
+
+const PLANTUML_ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz-_';
+
+// Fallback when an SVG has neither a viewBox nor a size
+const DEFAULT_SVG_SIZE = { width: 800, height: 600 };
+
+/**
+ * The diagram language of a code fence, from "lang-mermaid", "language-puml" or "mermaid"
+ * @param languages - Languages to recognise; other fences stay code blocks
+ */
+export const getDiagramLanguage = (
+  language?: string | null,
+  languages: readonly DiagramLanguage[] = DIAGRAM_LANGUAGES
+): DiagramLanguage | null => {
+  const name = (language || '').trim().toLowerCase().replace(/^(lang|language)-/, '');
+  const diagramLanguage = DIAGRAM_LANGUAGE_ALIASES[name];
+  return diagramLanguage && languages.includes(diagramLanguage) ? diagramLanguage : null;
+};
+
+export const isDiagramMessage = (data: unknown, id: string): data is DiagramRenderMessage =>
+  !!data &&
+  typeof data === 'object' &&
+  (data as { source?: unknown }).source === DIAGRAM_MESSAGE_SOURCE &&
+  (data as { id?: unknown }).id === id;
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * The iframe document that renders one Mermaid diagram and posts the result to its parent
+ */
+export const buildMermaidDocument = (source: string, theme: DiagramTheme, id: string, scriptUrl: string): string => `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<script src="${escapeHtml(scriptUrl)}"></script>
+</head>
+<body>
+<pre id="source">${escapeHtml(source)}</pre>
+<script>
+(async () => {
+  const post = (data) => parent.postMessage(Object.assign({ source: ${JSON.stringify(DIAGRAM_MESSAGE_SOURCE)}, id: ${JSON.stringify(id)} }, data), '*');
+  try {
+    if (!window.mermaid) throw new Error('Mermaid could not be loaded');
+    mermaid.initialize({ startOnLoad: false, theme: ${JSON.stringify(theme === 'dark' ? 'dark' : 'default')}, securityLevel: 'strict', htmlLabels: false, flowchart: { htmlLabels: false } });
+    const { svg } = await mermaid.render('diagram', document.getElementById('source').textContent);
+    post({ type: 'rendered', svg });
+  } catch (error) {
+    post({ type: 'error', message: String((error && error.message) || error) });
+  }
+})();
+</script>
+</body>
+</html>`;
+
+/**
+ * PlantUML source with @startuml / @enduml added when the fence leaves them out
+ */
+export const normalizePlantUmlSource = (source: string): string => {
+  const trimmed = source.trim();
+  return /^@start\w+/.test(trimmed) ? trimmed : `@startuml\n${trimmed}\n@enduml`;
+};
+
+/**
+ * PlantUML's URL-safe base64 variant of already-deflated bytes
+ */
+export const encodePlantUmlBytes = (bytes: Uint8Array): string => {
+  let encoded = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const b1 = bytes[i];
+    const b2 = i + 1 < bytes.length ? bytes[i + 1] : 0;
+    const b3 = i + 2 < bytes.length ? bytes[i + 2] : 0;
+    encoded += PLANTUML_ALPHABET[b1 >> 2] +
+      PLANTUML_ALPHABET[((b1 & 0x3) << 4) | (b2 >> 4)] +
+      PLANTUML_ALPHABET[((b2 & 0xf) << 2) | (b3 >> 6)] +
+      PLANTUML_ALPHABET[b3 & 0x3f];
+  }
+  return encoded;
+};
+
+/**
+ * Deflate and encode PlantUML source for a server URL
+ */
+export const encodePlantUml = async (source: string): Promise<string> => {
+  const stream = new Blob([normalizePlantUmlSource(source)]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  const deflated = new Uint8Array(await new Response(stream).arrayBuffer());
+  return encodePlantUmlBytes(deflated);
+};
+
+/**
+ * Server URL for an encoded diagram. The "d" formats use PlantUML's dark mode.
+ */
+export const buildPlantUmlUrl = (encoded: string, format: DiagramExportFormat, theme: DiagramTheme, server: string): string =>
+  `${server.replace(/\/+$/, '')}/${theme === 'dark' ? 'd' : ''}${format}/${encoded}`;
+
+export const svgToDataUrl = (svg: string): string => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+
+/**
+ * Pixel size of an SVG, from its viewBox or its width and height
+ */
+export const getSvgSize = (svg: string): { width: number; height: number } => {
+  const root = /<svg\b[^>]*>/i.exec(svg)?.[0] || '';
+  const viewBox = /viewBox="\s*[-\d.]+[\s,]+[-\d.]+[\s,]+([\d.]+)[\s,]+([\d.]+)\s*"/i.exec(root);
+  if (viewBox) {
+    return { width: Math.ceil(Number(viewBox[1])), height: Math.ceil(Number(viewBox[2])) };
+  }
+
+  const width = /\swidth="([\d.]+)(px)?"/i.exec(root);
+  const height = /\sheight="([\d.]+)(px)?"/i.exec(root);
+  if (width && height) {
+    return { width: Math.ceil(Number(width[1])), height: Math.ceil(Number(height[1])) };
+  }
+
+  return DEFAULT_SVG_SIZE;
+};
+
+/**
+ * File name for an exported diagram, from a "title" line when the source has one
+ */
+export const getDiagramFileName = (language: DiagramLanguage, source: string, format: DiagramExportFormat): string => {
+  // "title: ..." in Mermaid front matter, "title ..." in PlantUML
+  const title = /^[ \t]*title:?[ \t]+(.+)$/im.exec(source)?.[1] || '';
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60);
+  return `${slug || `${language}-diagram`}.${format}`;
+};
@@ -0,0 +1,176 @@
+/**
+ * Optimistic concurrency for documents and feature files: a save only goes
+ * through when the item's updated_at still matches the version the editor
+ * started from. Otherwise the edits are merged line by line with the ones
+ * saved in the meantime, and only overlapping changes are left for the user.
+ *
+ * Shared by the Netlify API function and the app's editors.
+ */
+
+import { diffLines } from './revisions';
+
+export interface EditVersion {
+  content: string;
+  updatedAt: Date;
+}
+
+export interface EditConflict {
+  // Content the editor started from
+  base: string;
+  mine: string;
+  theirs: string;
+  theirsUpdatedAt: Date;
+}
+
+export interface MergeResult {
+  content: string;
+  // Number of overlapping changes written out with conflict markers
+  conflicts: number;
+}
+
+export const CONFLICT_MARKERS = {
+  start: '<<<<<<< Your changes',
+  separator: '=======',
+  end: '>>>>>>> Their changes'
+} as const;
+
+/**
+ * Thrown when a save expected an older version of the item than the stored one
+ */
+export class EditConflictError extends Error {
+  readonly current: EditVersion;
+
+  constructor(current: EditVersion) {
+    super('This item was changed elsewhere since you started editing');
+    this.name = 'EditConflictError';
+    this.current = current;
+  }
+}
+
+/**
+ * Bounds that match a stored updated_at. Postgres keeps microseconds but a Date
+ * only milliseconds, so the check matches the whole millisecond.
+ */
+export const updatedAtWindow = (updatedAt: Date | string): { from: string; to: string } => {
+  const time = new Date(updatedAt).getTime();
+  return {
+    from: new Date(time).toISOString(),
+    to: new Date(time + 1).toISOString()
+  };
+};
+
+interface Hunk {
+  // Replaces base lines [start, end) with lines
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+const splitLines = (text: string): string[] => (text === '' ? [] : text.replace(/\r\n/g, '\n').split('\n'));
+
+const toHunks = (base: string, changed: string): Hunk[] => {
+  const hunks: Hunk[] = [];
+  let basePosition = 0;
+  let current: Hunk | null = null;
+
+  for (const line of diffLines(base, changed)) {
+    if (line.type === 'unchanged') {
+      if (current) hunks.push(current);
+      current = null;
+      basePosition++;
+      continue;
+    }
+    current = current || { start: basePosition, end: basePosition, lines: [] };
+    if (line.type === 'removed') {
+      current.end++;
+      basePosition++;
+    } else {
+      current.lines.push(line.text);
+    }
+  }
+  if (current) hunks.push(current);
+  return hunks;
+};
+
+// One side's version of base lines [start, end), given its hunks inside that range
+const applyHunks = (baseLines: string[], start: number, end: number, hunks: Hunk[]): string[] => {
+  const result: string[] = [];
+  let position = start;
+  for (const hunk of hunks) {
+    result.push(...baseLines.slice(position, hunk.start), ...hunk.lines);
+    position = hunk.end;
+  }
+  result.push(...baseLines.slice(position, end));
+  return result;
+};
+
+/**
+ * Three-way line merge of two edits of the same base. Changes to different
+ * lines are combined; overlapping ones are kept side by side between
+ * conflict markers, unless both sides made the same change.
+ */
+export const mergeEdits = (base: string, mine: string, theirs: string): MergeResult => {
+  if (mine === theirs || theirs === base) return { content: mine, conflicts: 0 };
+  if (mine === base) return { content: theirs, conflicts: 0 };
+
+  const baseLines = splitLines(base);
+  const mineHunks = toHunks(base, mine);
+  const theirHunks = toHunks(base, theirs);
+  const result: string[] = [];
+  let conflicts = 0;
+  let position = 0;
+  let i = 0;
+  let j = 0;
+
+  const takeNext = (): { hunk: Hunk; side: 'mine' | 'theirs' } | null => {
+    const mineNext = mineHunks[i];
+    const theirNext = theirHunks[j];
+    if (!mineNext && !theirNext) return null;
+    if (!theirNext || (mineNext && mineNext.start <= theirNext.start)) {
+      i++;
+      return { hunk: mineNext, side: 'mine' };
+    }
+    j++;
+    return { hunk: theirNext, side: 'theirs' };
+  };
+  const peekStart = () => Math.min(mineHunks[i]?.start ?? Infinity, theirHunks[j]?.start ?? Infinity);
+
+  let next = takeNext();
+  while (next) {
+    // Hunks that touch the same base lines (or insert at the same place) are resolved together
+    const start = next.hunk.start;
+    let end = next.hunk.end;
+    const group: Record<'mine' | 'theirs', Hunk[]> = { mine: [], theirs: [] };
+    group[next.side].push(next.hunk);
+    while (peekStart() < end || peekStart() === start) {
+      const member = takeNext()!;
+      group[member.side].push(member.hunk);
+      end = Math.max(end, member.hunk.end);
+    }
+
+    result.push(...baseLines.slice(position, start));
+    const mineLines = applyHunks(baseLines, start, end, group.mine);
+    const theirLines = applyHunks(baseLines, start, end, group.theirs);
+
+    if (group.theirs.length === 0 || mineLines.join('\n') === theirLines.join('\n')) {
+      result.push(...mineLines);
+    } else if (group.mine.length === 0) {
+      result.push(...theirLines);
+    } else {
+      conflicts++;
+      result.push(CONFLICT_MARKERS.start, ...mineLines, CONFLICT_MARKERS.separator, ...theirLines, CONFLICT_MARKERS.end);
+    }
+
+    position = end;
+    next = takeNext();
+  }
+  result.push(...baseLines.slice(position));
+
+  return { content: result.join('\n'), conflicts };
+};
+
+/**
+ * Whether merged text still has unresolved conflict markers
+ */
+export const hasConflictMarkers = (content: string): boolean =>
+  content.split(/\r?\n/).some(line => line === CONFLICT_MARKERS.start || line === CONFLICT_MARKERS.end);
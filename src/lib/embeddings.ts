@@ -0,0 +1,187 @@
+/**
+ * Embedding pipeline for semantic similarity search.
+ *
+ * Providers are pluggable: the local provider hashes tokens into a fixed-size
+ * vector and needs no network, so it is the default and is what tests use.
+ * The OpenAI-compatible provider is used when EMBEDDING_PROVIDER=openai.
+ */
+
+export const EMBEDDING_ENTITY_TYPES = ['conversation', 'bug', 'feature'] as const;
+export type EmbeddingEntityType = typeof EMBEDDING_ENTITY_TYPES[number];
+
+export interface EmbeddingProvider {
+  /** Stored with each vector; vectors from different providers are never compared */
+  id: string;
+  dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface EmbeddingProviderConfig {
+  provider?: string;
+  apiKey?: string;
+  model?: string;
+  baseUrl?: string;
+}
+
+const DEFAULT_LOCAL_DIMENSIONS = 256;
+const MAX_EMBEDDING_TEXT_LENGTH = 8000;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have',
+  'i', 'in', 'is', 'it', 'its', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was',
+  'were', 'when', 'with', 'we', 'you'
+]);
+
+export const isEmbeddingEntityType = (value: unknown): value is EmbeddingEntityType =>
+  typeof value === 'string' && (EMBEDDING_ENTITY_TYPES as readonly string[]).includes(value);
+
+/**
+ * 32-bit FNV-1a hash, stable across runtimes
+ */
+const fnv1a = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Hex digest used to detect when a record's embedding text has changed
+ */
+export const hashContent = (text: string): string => fnv1a(text).toString(16).padStart(8, '0');
+
+const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .split(/[^a-z0-9_]+/)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token));
+
+export const normalizeVector = (vector: number[]): number[] => {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map(value => value / norm);
+};
+
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  if (a.length !== b.length) {
+    throw new Error(`Vector dimensions differ: ${a.length} vs ${b.length}`);
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+};
+
+/**
+ * Deterministic offline embedder: signed feature hashing of unigrams and bigrams
+ */
+export const createLocalEmbeddingProvider = (dimensions = DEFAULT_LOCAL_DIMENSIONS): EmbeddingProvider => {
+  const embedOne = (text: string): number[] => {
+    const vector = new Array<number>(dimensions).fill(0);
+    const tokens = tokenize(text);
+    const features = [
+      ...tokens,
+      ...tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`)
+    ];
+
+    for (const feature of features) {
+      const hash = fnv1a(feature);
+      vector[hash % dimensions] += (hash & 0x80000000) ? -1 : 1;
+    }
+
+    return normalizeVector(vector);
+  };
+
+  return {
+    id: `local-hash-${dimensions}`,
+    dimensions,
+    embed: async (texts) => texts.map(embedOne)
+  };
+};
+
+/**
+ * Provider for OpenAI-compatible /embeddings endpoints
+ */
+export const createOpenAIEmbeddingProvider = ({
+  apiKey,
+  model = 'text-embedding-3-small',
+  baseUrl = 'https://api.openai.com/v1'
+}: EmbeddingProviderConfig): EmbeddingProvider => {
+  if (!apiKey) {
+    throw new Error('An API key is required for the OpenAI embedding provider');
+  }
+
+  return {
+    id: `openai-${model}`,
+    dimensions: model === 'text-embedding-3-large' ? 3072 : 1536,
+    embed: async (texts) => {
+      const response = await fetch(`${baseUrl}/embeddings`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${apiKey}`
+        },
+        body: JSON.stringify({ model, input: texts })
+      });
+
+      if (!response.ok) {
+        throw new Error(`Embedding request failed with status ${response.status}`);
+      }
+
+      const result = await response.json() as { data: { index: number; embedding: number[] }[] };
+      return result.data
+        .sort((a, b) => a.index - b.index)
+        .map(item => item.embedding);
+    }
+  };
+};
+
+/**
+ * Picks the provider from configuration, falling back to the local embedder
+ */
+export const getEmbeddingProvider = (config: EmbeddingProviderConfig = {}): EmbeddingProvider => {
+  if (config.provider === 'openai' && config.apiKey) {
+    return createOpenAIEmbeddingProvider(config);
+  }
+  return createLocalEmbeddingProvider();
+};
+
+const joinText = (values: unknown[]): string =>
+  values
+    .flatMap(value => (Array.isArray(value) ? value : [value]))
+    .filter(value => typeof value === 'string' && value.trim())
+    .join('\n');
+
+/**
+ * Builds the text embedded for a database row (snake_case columns)
+ */
+export const buildEmbeddingText = (type: EmbeddingEntityType, row: Record<string, unknown>): string => {
+  let text: string;
+
+  switch (type) {
+    case 'conversation': {
+      const messages = Array.isArray(row.messages) ? row.messages : [];
+      const messageText = messages
+        .map(message => (message && typeof message === 'object' ? (message as { content?: unknown }).content : null))
+        .filter((content): content is string => typeof content === 'string');
+      text = joinText([row.title, row.implementation_summary, row.tags, row.files_changed, messageText]);
+      break;
+    }
+    case 'bug':
+      text = joinText([row.title, row.description, row.symptoms, row.solution, row.content]);
+      break;
+    case 'feature':
+      text = joinText([row.title, row.description, row.implementation, row.content]);
+      break;
+  }
+
+  return text.slice(0, MAX_EMBEDDING_TEXT_LENGTH);
+};
@@ -0,0 +1,291 @@
+/**
+ * Feature summary helpers: turn a feature's chat-history files and linked
+ * conversations into an implementation guide (steps taken, files touched,
+ * decisions and rejected approaches).
+ *
+ * The heuristic mode works on the text alone; the AI mode builds a prompt and
+ * reads the reply back. Either way the result is stored as the feature's
+ * ai_summary feature_data row by the Features tab.
+ */
+
+import { Feature } from '../types';
+import { parseConversationImport } from './conversationImport';
+import { extractConversationDetails } from './conversationDetails';
+
+export const FEATURE_SUMMARY_MODES = ['heuristic', 'ai'] as const;
+export type FeatureSummaryMode = typeof FEATURE_SUMMARY_MODES[number];
+
+export const FEATURE_SUMMARY_MODE_LABELS: Record<FeatureSummaryMode, string> = {
+  heuristic: 'Heuristic (no AI)',
+  ai: 'AI provider'
+};
+
+export interface FeatureSummarySourceMessage {
+  role: string;
+  content: string;
+}
+
+export interface FeatureSummarySource {
+  type: 'chat_file' | 'conversation';
+  id: string;
+  title: string;
+  messages: FeatureSummarySourceMessage[];
+  filesChanged: string[];
+}
+
+export interface FeatureSummary {
+  generatedAt: string;
+  mode: FeatureSummaryMode;
+  model?: string;
+  overview: string;
+  steps: string[];
+  filesTouched: string[];
+  decisions: string[];
+  rejected: string[];
+  sources: Array<{ type: FeatureSummarySource['type']; id: string; title: string }>;
+}
+
+// Conversation row fields used for linking and summarising (snake_case, as stored)
+export interface FeatureConversationRow {
+  id: string;
+  title: string;
+  implementation_summary?: string | null;
+  tags?: string[] | null;
+  files_changed?: string[] | null;
+  messages?: unknown;
+}
+
+const MAX_STEPS = 15;
+const MAX_ITEMS = 10;
+const MAX_FILES = 40;
+const MAX_ITEM_LENGTH = 240;
+const MIN_TITLE_MATCH_LENGTH = 10;
+const MAX_PROMPT_SOURCE_LENGTH = 6000;
+
+const STEP_LIST_PATTERN = /^(?:\d+[.)]|[-*•])\s+/;
+const STEP_VERB_PATTERN = /^(?:i(?:'ll| will| have|'ve)?\s+|we(?:'ll| will| have|'ve)?\s+|now\s+|then\s+|first,?\s+|next,?\s+)?(?:add(?:ed)?|creat(?:e|ed)|implement(?:ed)?|updat(?:e|ed)|refactor(?:ed)?|fix(?:ed)?|mov(?:e|ed)|remov(?:e|ed)|renam(?:e|ed)|install(?:ed)?|extract(?:ed)?|replac(?:e|ed)|wir(?:e|ed)|configur(?:e|ed)|migrat(?:e|ed)|split|wrote|writ(?:e|ten))\b/i;
+const DECISION_PATTERN = /\b(?:decided|decision|going with|go with|chose|choose|opted|settled on|prefer|we(?:'ll| will) use|instead of|trade-?off)\b/i;
+const REJECTED_PATTERN = /\b(?:rejected|abandon(?:ed)?|won't work|doesn't work|didn't work|not working|reverted|roll(?:ed)? back|ruled out|don't like|dropped|scrapped|gave up on)\b/i;
+const FILE_PATH_PATTERN = /(?:[\w.-]+\/)+[\w.-]+\.(?:tsx|ts|jsx|js|mjs|cjs|css|scss|sql|json|py|go|rs|java|rb|php|vue|svelte|md)\b/g;
+
+const unique = (values: string[]): string[] => {
+  const seen = new Set<string>();
+  return values.filter(value => {
+    const key = value.toLowerCase();
+    if (!value || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+const truncate = (text: string, length: number = MAX_ITEM_LENGTH): string =>
+  text.length > length ? `${text.slice(0, length - 1).trimEnd()}…` : text;
+
+const normalizeText = (text: string): string => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * Chat file content as messages. Files in a known transcript format keep their roles;
+ * anything else is read as one block of notes.
+ */
+export const parseChatFileMessages = (name: string, content: string): FeatureSummarySourceMessage[] => {
+  if (!content.trim()) return [];
+
+  try {
+    const [conversation] = parseConversationImport(content, { fileName: name });
+    if (conversation && conversation.messages.length > 0) {
+      return conversation.messages.map(message => ({ role: message.role, content: message.content }));
+    }
+  } catch {
+    // Not a transcript; summarise it as notes
+  }
+
+  return [{ role: 'assistant', content }];
+};
+
+/**
+ * Conversations that mention the feature by id or title, or are tagged with it
+ */
+export const findFeatureConversations = <T extends FeatureConversationRow>(feature: Pick<Feature, 'id' | 'title'>, conversations: T[]): T[] => {
+  const featureTitle = normalizeText(feature.title);
+
+  return conversations.filter(conversation => {
+    const tags = (conversation.tags || []).map(normalizeText);
+    if (tags.includes(feature.id.toLowerCase()) || tags.includes(featureTitle)) return true;
+
+    const text = normalizeText([conversation.title, conversation.implementation_summary || ''].join(' '));
+    if (text.includes(feature.id.toLowerCase())) return true;
+    return featureTitle.length >= MIN_TITLE_MATCH_LENGTH && text.includes(featureTitle);
+  });
+};
+
+export const conversationToSummarySource = (conversation: FeatureConversationRow): FeatureSummarySource => ({
+  type: 'conversation',
+  id: conversation.id,
+  title: conversation.title,
+  messages: Array.isArray(conversation.messages)
+    ? conversation.messages
+      .map(message => ({
+        role: typeof message?.role === 'string' ? message.role : 'assistant',
+        content: typeof message?.content === 'string' ? message.content : ''
+      }))
+      .filter(message => message.content.trim())
+    : [],
+  filesChanged: conversation.files_changed || []
+});
+
+// Message text split into list items and sentences, without code blocks
+const textUnits = (content: string): string[] =>
+  content
+    .replace(/```[\s\S]*?```/g, '\n')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#') && !line.startsWith('|'))
+    .flatMap(line => {
+      const isListItem = STEP_LIST_PATTERN.test(line);
+      const text = line.replace(STEP_LIST_PATTERN, '').replace(/\*\*/g, '').replace(/`/g, '');
+      if (isListItem) return [text];
+      // Sentence ends are punctuation followed by a space, so file names stay whole
+      const sentences: string[] = text.match(/(?:[^.!?]|[.!?](?=\S))+(?:[.!?]+|$)/g) || [];
+      return sentences.map(sentence => sentence.trim()).filter(Boolean);
+    });
+
+/**
+ * Sentences describing approaches that were tried and dropped
+ */
+export const findRejectedApproaches = (content: string): string[] =>
+  unique(textUnits(content).filter(unit => REJECTED_PATTERN.test(unit)).map(unit => truncate(unit)));
+
+const sourceFiles = (source: FeatureSummarySource): string[] => {
+  const text = source.messages.map(message => message.content).join('\n');
+  let detected: string[] = [];
+  try {
+    detected = extractConversationDetails(source.messages).files_changed;
+  } catch {
+    // Extraction is best effort for free-form notes
+  }
+  return [...source.filesChanged, ...detected, ...(text.match(FILE_PATH_PATTERN) || [])];
+};
+
+/**
+ * Summary built from the text alone: list items and action sentences from the
+ * assistant become steps, and decision or rejection wording is collected as is.
+ */
+export const buildHeuristicFeatureSummary = (feature: Feature, sources: FeatureSummarySource[]): FeatureSummary => {
+  const steps: string[] = [];
+  const decisions: string[] = [];
+  const rejected: string[] = [];
+
+  sources.forEach(source => {
+    source.messages.forEach(message => {
+      textUnits(message.content).forEach(unit => {
+        if (REJECTED_PATTERN.test(unit)) {
+          rejected.push(unit);
+        } else if (DECISION_PATTERN.test(unit)) {
+          decisions.push(unit);
+        } else if (message.role === 'assistant' && STEP_VERB_PATTERN.test(unit)) {
+          steps.push(unit);
+        }
+      });
+    });
+  });
+
+  const firstRequest = sources
+    .flatMap(source => source.messages)
+    .find(message => message.role === 'user' && message.content.trim());
+  const overview = feature.content?.trim()
+    ? truncate(feature.content.trim().split('\n\n')[0], 500)
+    : firstRequest
+      ? truncate(firstRequest.content.trim(), 500)
+      : feature.title;
+
+  return {
+    generatedAt: new Date().toISOString(),
+    mode: 'heuristic',
+    overview,
+    steps: unique(steps.map(step => truncate(step))).slice(0, MAX_STEPS),
+    filesTouched: unique(sources.flatMap(sourceFiles)).slice(0, MAX_FILES),
+    decisions: unique(decisions.map(item => truncate(item))).slice(0, MAX_ITEMS),
+    rejected: unique(rejected.map(item => truncate(item))).slice(0, MAX_ITEMS),
+    sources: sources.map(({ type, id, title }) => ({ type, id, title }))
+  };
+};
+
+/**
+ * Prompt asking for the implementation guide as JSON
+ */
+export const buildFeatureSummaryPrompt = (
+  feature: Feature,
+  sources: FeatureSummarySource[]
+): Array<{ role: 'system' | 'user'; content: string }> => {
+  const transcripts = sources.map(source => {
+    const text = source.messages.map(message => `${message.role.toUpperCase()}: ${message.content}`).join('\n\n');
+    const files = source.filesChanged.length > 0 ? `\nFiles changed: ${source.filesChanged.join(', ')}` : '';
+    return `## ${source.type === 'chat_file' ? 'Chat file' : 'Conversation'}: ${source.title}${files}\n${truncate(text, MAX_PROMPT_SOURCE_LENGTH)}`;
+  });
+
+  return [
+    {
+      role: 'system',
+      content: 'You turn development chat transcripts into a concise implementation guide for one feature. ' +
+        'Reply with a JSON object: {"overview": string, "steps": string[], "filesTouched": string[], "decisions": string[], "rejected": string[]}. ' +
+        'Steps are what was actually done, in order. Rejected lists approaches that were tried or considered and dropped, with the reason.'
+    },
+    {
+      role: 'user',
+      content: [`# Feature: ${feature.title}`, feature.content?.trim() ? truncate(feature.content.trim(), 2000) : '', ...transcripts]
+        .filter(Boolean)
+        .join('\n\n')
+    }
+  ];
+};
+
+const stringList = (value: unknown, limit: number): string[] =>
+  Array.isArray(value)
+    ? unique(value.filter((item): item is string => typeof item === 'string').map(item => item.trim())).slice(0, limit)
+    : [];
+
+/**
+ * Reads the model's reply. Lists the model left out fall back to the heuristic summary,
+ * and a reply that is not JSON becomes the overview.
+ */
+export const parseFeatureSummaryResponse = (content: string, model: string, fallback: FeatureSummary): FeatureSummary => {
+  const json = content.replace(/^\s*```(?:json)?\s*/i, '').replace(/\s*```\s*$/, '');
+  const base: FeatureSummary = { ...fallback, mode: 'ai', model, generatedAt: new Date().toISOString() };
+
+  try {
+    const parsed = JSON.parse(json) as Record<string, unknown>;
+    const steps = stringList(parsed.steps, MAX_STEPS);
+    const filesTouched = stringList(parsed.filesTouched, MAX_FILES);
+    return {
+      ...base,
+      overview: typeof parsed.overview === 'string' && parsed.overview.trim() ? parsed.overview.trim() : fallback.overview,
+      steps: steps.length > 0 ? steps : fallback.steps,
+      filesTouched: filesTouched.length > 0 ? filesTouched : fallback.filesTouched,
+      decisions: stringList(parsed.decisions, MAX_ITEMS),
+      rejected: stringList(parsed.rejected, MAX_ITEMS)
+    };
+  } catch {
+    return { ...base, overview: content.trim() };
+  }
+};
+
+/**
+ * Markdown stored as the ai_summary row content, so the guide reads well when exported or copied
+ */
+export const renderFeatureSummaryMarkdown = (feature: Feature, summary: FeatureSummary): string => {
+  const list = (title: string, items: string[], numbered = false) =>
+    items.length > 0
+      ? `## ${title}\n\n${items.map((item, index) => `${numbered ? `${index + 1}.` : '-'} ${item}`).join('\n')}`
+      : '';
+
+  return [
+    `# ${feature.title}: Implementation Guide`,
+    `## Overview\n\n${summary.overview}`,
+    list('Steps', summary.steps, true),
+    list('Files Touched', summary.filesTouched.map(file => `\`${file}\``)),
+    list('Decisions', summary.decisions),
+    list('Rejected Approaches', summary.rejected),
+    list('Sources', summary.sources.map(source => `${source.title} (${source.type === 'chat_file' ? 'chat file' : 'conversation'})`)),
+    `_Generated ${new Date(summary.generatedAt).toLocaleString()} with ${summary.mode === 'ai' ? summary.model || 'AI' : 'heuristics'}_`
+  ].filter(Boolean).join('\n\n') + '\n';
+};
@@ -0,0 +1,88 @@
+/**
+ * Helpers for project files: type detection, previews, sizes and storage quota
+ */
+
+export type FileCategory = 'image' | 'pdf' | 'text' | 'document' | 'other';
+
+export type QuotaLevel = 'ok' | 'warning' | 'exceeded';
+
+export interface QuotaStatus {
+  usedBytes: number;
+  quotaBytes: number;
+  remainingBytes: number;
+  percent: number;
+  level: QuotaLevel;
+}
+
+// Storage included in the Supabase free tier
+export const STORAGE_QUOTA_BYTES = 1024 * 1024 * 1024;
+export const MAX_FILE_SIZE_BYTES = 50 * 1024 * 1024;
+export const MAX_TEXT_PREVIEW_BYTES = 512 * 1024;
+
+const QUOTA_WARNING_PERCENT = 80;
+
+const TEXT_EXTENSIONS = new Set([
+  'txt', 'md', 'markdown', 'json', 'csv', 'log', 'yml', 'yaml', 'xml', 'html', 'css',
+  'js', 'jsx', 'ts', 'tsx', 'py', 'rb', 'go', 'rs', 'java', 'sql', 'sh', 'env', 'toml', 'ini'
+]);
+
+const DOCUMENT_EXTENSIONS = new Set(['doc', 'docx', 'xls', 'xlsx', 'ppt', 'pptx', 'odt', 'ods', 'rtf']);
+
+export const getFileExtension = (name: string): string => {
+  const index = name.lastIndexOf('.');
+  return index > 0 ? name.slice(index + 1).toLowerCase() : '';
+};
+
+/**
+ * Classifies a file by MIME type, falling back to its extension
+ */
+export const getFileCategory = (mimeType: string | null | undefined, name: string): FileCategory => {
+  const type = (mimeType || '').toLowerCase();
+  const extension = getFileExtension(name);
+
+  if (type.startsWith('image/')) return 'image';
+  if (type === 'application/pdf' || extension === 'pdf') return 'pdf';
+  if (type.startsWith('text/') || type === 'application/json' || TEXT_EXTENSIONS.has(extension)) return 'text';
+  if (DOCUMENT_EXTENSIONS.has(extension)) return 'document';
+  if (['png', 'jpg', 'jpeg', 'gif', 'webp', 'svg'].includes(extension)) return 'image';
+  return 'other';
+};
+
+export const isPreviewable = (category: FileCategory): boolean =>
+  category === 'image' || category === 'pdf' || category === 'text';
+
+/**
+ * Makes a file name safe to use as a storage object key, keeping the extension
+ */
+export const sanitizeFileName = (name: string): string => {
+  const rawExtension = getFileExtension(name);
+  const extension = /^[a-z0-9]{1,10}$/.test(rawExtension) ? rawExtension : '';
+  const baseName = extension ? name.slice(0, -(extension.length + 1)) : name;
+  const safeBase = baseName
+    .normalize('NFKD')
+    .replace(/[^a-zA-Z0-9._-]+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^[-.]+|[-.]+$/g, '')
+    .substring(0, 80) || 'file';
+
+  return extension ? `${safeBase}.${extension}` : safeBase;
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (!bytes || bytes <= 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.min(Math.floor(Math.log(bytes) / Math.log(k)), sizes.length - 1);
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+export const getQuotaStatus = (usedBytes: number, quotaBytes = STORAGE_QUOTA_BYTES): QuotaStatus => {
+  const percent = quotaBytes > 0 ? Math.min(100, (usedBytes / quotaBytes) * 100) : 100;
+  return {
+    usedBytes,
+    quotaBytes,
+    remainingBytes: Math.max(0, quotaBytes - usedBytes),
+    percent,
+    level: usedBytes >= quotaBytes ? 'exceeded' : percent >= QUOTA_WARNING_PERCENT ? 'warning' : 'ok'
+  };
+};
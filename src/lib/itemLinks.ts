@@ -0,0 +1,349 @@
+/**
+ * Item link model: typed relationships between conversations, bugs, features
+ * and documents, and the project relationship graph built from them.
+ *
+ * Shared by the Netlify API function (which validates links made through MCP
+ * and the REST API) and the app (Related panels and the Graph tab). The
+ * allowed relation / type pairs are also enforced by the item_links table.
+ */
+
+export const LINK_ITEM_TYPES = ['conversation', 'bug', 'feature', 'document'] as const;
+export type LinkItemType = typeof LINK_ITEM_TYPES[number];
+
+export const LINK_ITEM_TYPE_LABELS: Record<LinkItemType, string> = {
+  conversation: 'Conversation',
+  bug: 'Bug',
+  feature: 'Feature',
+  document: 'Document'
+};
+
+export const LINK_ITEM_TABLES: Record<LinkItemType, string> = {
+  conversation: 'conversations',
+  bug: 'bugs',
+  feature: 'features',
+  document: 'documents'
+};
+
+export const LINK_RELATIONS = ['related', 'fixes', 'implements', 'duplicate_of', 'caused_by', 'documents'] as const;
+export type LinkRelation = typeof LINK_RELATIONS[number];
+
+// Source and target types each relation may connect; links are stored in this direction
+export const LINK_RELATION_RULES: Record<LinkRelation, Array<[LinkItemType, LinkItemType]>> = {
+  related: [['conversation', 'bug'], ['conversation', 'feature'], ['feature', 'document']],
+  fixes: [['conversation', 'bug']],
+  implements: [['conversation', 'feature']],
+  duplicate_of: [['bug', 'bug']],
+  caused_by: [['bug', 'bug']],
+  documents: [['document', 'feature']]
+};
+
+// How a link reads from its source (forward) and from its target (inverse)
+export const LINK_RELATION_LABELS: Record<LinkRelation, { forward: string; inverse: string }> = {
+  related: { forward: 'Related to', inverse: 'Related to' },
+  fixes: { forward: 'Fixes', inverse: 'Fixed in' },
+  implements: { forward: 'Implements', inverse: 'Implemented in' },
+  duplicate_of: { forward: 'Duplicate of', inverse: 'Duplicated by' },
+  caused_by: { forward: 'Caused by', inverse: 'Causes' },
+  documents: { forward: 'Documents', inverse: 'Documented in' }
+};
+
+export interface ItemLinkInput {
+  sourceType: string;
+  sourceId: string;
+  targetType: string;
+  targetId: string;
+  relation: string;
+}
+
+export interface ItemLink {
+  id: string;
+  projectId: string | null;
+  sourceType: LinkItemType;
+  sourceId: string;
+  targetType: LinkItemType;
+  targetId: string;
+  relation: LinkRelation;
+  createdAt: Date;
+}
+
+/**
+ * A relation that can be added from an item of a given type
+ */
+export interface LinkOption {
+  relation: LinkRelation;
+  // True when the current item is the link's target
+  inverse: boolean;
+  targetType: LinkItemType;
+  label: string;
+}
+
+/**
+ * A link seen from one of its ends
+ */
+export interface ItemRelation {
+  linkId: string;
+  relation: LinkRelation;
+  inverse: boolean;
+  label: string;
+  type: LinkItemType;
+  id: string;
+}
+
+export const isLinkItemType = (value: unknown): value is LinkItemType =>
+  typeof value === 'string' && (LINK_ITEM_TYPES as readonly string[]).includes(value);
+
+export const isLinkRelation = (value: unknown): value is LinkRelation =>
+  typeof value === 'string' && (LINK_RELATIONS as readonly string[]).includes(value);
+
+const isAllowedPair = (relation: LinkRelation, sourceType: LinkItemType, targetType: LinkItemType): boolean =>
+  LINK_RELATION_RULES[relation].some(([source, target]) => source === sourceType && target === targetType);
+
+/**
+ * Checks a link request. Returns an error message, or null when the link is valid.
+ */
+export const validateItemLink = (link: ItemLinkInput): string | null => {
+  if (!isLinkRelation(link.relation)) {
+    return `Invalid relation. Must be one of: ${LINK_RELATIONS.join(', ')}`;
+  }
+  if (!isLinkItemType(link.sourceType) || !isLinkItemType(link.targetType)) {
+    return `Invalid item type. Must be one of: ${LINK_ITEM_TYPES.join(', ')}`;
+  }
+  if (!link.sourceId || !link.targetId) {
+    return 'Missing required fields: sourceId, targetId';
+  }
+  if (link.sourceType === link.targetType && link.sourceId === link.targetId) {
+    return 'An item cannot be linked to itself';
+  }
+  if (!isAllowedPair(link.relation, link.sourceType, link.targetType)) {
+    const pairs = LINK_RELATION_RULES[link.relation].map(([source, target]) => `${source} -> ${target}`).join(', ');
+    return `A ${link.relation} link must go ${pairs}`;
+  }
+  return null;
+};
+
+/**
+ * Relations that can be added from an item, in the order the picker shows them
+ */
+export const getLinkOptions = (itemType: LinkItemType): LinkOption[] =>
+  LINK_RELATIONS.flatMap(relation => LINK_RELATION_RULES[relation].flatMap(([source, target]) => {
+    const options: LinkOption[] = [];
+    if (source === itemType) {
+      options.push({ relation, inverse: false, targetType: target, label: LINK_RELATION_LABELS[relation].forward });
+    }
+    // Same-type relations read differently from each end, so both directions are offered
+    if (target === itemType && (source !== target || LINK_RELATION_LABELS[relation].forward !== LINK_RELATION_LABELS[relation].inverse)) {
+      options.push({ relation, inverse: true, targetType: source, label: LINK_RELATION_LABELS[relation].inverse });
+    }
+    return options;
+  }));
+
+/**
+ * The link to store when an item adds a relation to another item
+ */
+export const buildLinkFromOption = (
+  item: { type: LinkItemType; id: string },
+  option: LinkOption,
+  otherId: string
+): ItemLinkInput => option.inverse
+  ? { sourceType: option.targetType, sourceId: otherId, targetType: item.type, targetId: item.id, relation: option.relation }
+  : { sourceType: item.type, sourceId: item.id, targetType: option.targetType, targetId: otherId, relation: option.relation };
+
+/**
+ * Links touching an item, each seen from that item
+ */
+export const getItemRelations = (item: { type: LinkItemType; id: string }, links: ItemLink[]): ItemRelation[] =>
+  links.flatMap(link => {
+    const relations: ItemRelation[] = [];
+    if (link.sourceType === item.type && link.sourceId === item.id) {
+      relations.push({
+        linkId: link.id,
+        relation: link.relation,
+        inverse: false,
+        label: LINK_RELATION_LABELS[link.relation].forward,
+        type: link.targetType,
+        id: link.targetId
+      });
+    }
+    if (link.targetType === item.type && link.targetId === item.id) {
+      relations.push({
+        linkId: link.id,
+        relation: link.relation,
+        inverse: true,
+        label: LINK_RELATION_LABELS[link.relation].inverse,
+        type: link.sourceType,
+        id: link.sourceId
+      });
+    }
+    return relations;
+  });
+
+export const itemKey = (type: LinkItemType, id: string): string => `${type}:${id}`;
+
+// Graph
+
+export interface GraphItem {
+  type: LinkItemType;
+  id: string;
+  title: string;
+  // A bug's feature, shown as an edge without a stored link
+  featureId?: string | null;
+}
+
+export interface GraphNode extends GraphItem {
+  key: string;
+  x: number;
+  y: number;
+  degree: number;
+}
+
+export interface GraphEdge {
+  key: string;
+  source: string;
+  target: string;
+  label: string;
+  relation: LinkRelation | 'feature';
+}
+
+export interface RelationshipGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+export interface GraphLayoutOptions {
+  width?: number;
+  height?: number;
+  iterations?: number;
+  // Also show items without any relationship
+  includeUnlinked?: boolean;
+}
+
+const GRAPH_MARGIN = 40;
+
+/**
+ * Force-directed positions (Fruchterman-Reingold), starting from a circle so
+ * the same graph always gets the same layout
+ */
+const layoutNodes = (
+  keys: string[],
+  edges: GraphEdge[],
+  width: number,
+  height: number,
+  iterations: number
+): Map<string, { x: number; y: number }> => {
+  const centerX = width / 2;
+  const centerY = height / 2;
+  const radius = Math.min(width, height) / 2 - GRAPH_MARGIN;
+  const positions = new Map(keys.map((key, index) => {
+    const angle = (2 * Math.PI * index) / Math.max(keys.length, 1);
+    return [key, { x: centerX + radius * Math.cos(angle), y: centerY + radius * Math.sin(angle) }];
+  }));
+
+  if (keys.length < 2) {
+    keys.forEach(key => positions.set(key, { x: centerX, y: centerY }));
+    return positions;
+  }
+
+  const k = Math.sqrt(((width - 2 * GRAPH_MARGIN) * (height - 2 * GRAPH_MARGIN)) / keys.length);
+  let temperature = width / 10;
+  const cooling = temperature / (iterations + 1);
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const displacement = new Map(keys.map(key => [key, { x: 0, y: 0 }]));
+
+    for (let i = 0; i < keys.length; i++) {
+      for (let j = i + 1; j < keys.length; j++) {
+        const a = positions.get(keys[i])!;
+        const b = positions.get(keys[j])!;
+        const dx = a.x - b.x || 0.01;
+        const dy = a.y - b.y || 0.01;
+        const distance = Math.sqrt(dx * dx + dy * dy);
+        const force = (k * k) / distance;
+        const da = displacement.get(keys[i])!;
+        const db = displacement.get(keys[j])!;
+        da.x += (dx / distance) * force;
+        da.y += (dy / distance) * force;
+        db.x -= (dx / distance) * force;
+        db.y -= (dy / distance) * force;
+      }
+    }
+
+    edges.forEach(edge => {
+      const a = positions.get(edge.source)!;
+      const b = positions.get(edge.target)!;
+      const dx = a.x - b.x;
+      const dy = a.y - b.y;
+      const distance = Math.sqrt(dx * dx + dy * dy) || 0.01;
+      const force = (distance * distance) / k;
+      const da = displacement.get(edge.source)!;
+      const db = displacement.get(edge.target)!;
+      da.x -= (dx / distance) * force;
+      da.y -= (dy / distance) * force;
+      db.x += (dx / distance) * force;
+      db.y += (dy / distance) * force;
+    });
+
+    keys.forEach(key => {
+      const position = positions.get(key)!;
+      const { x, y } = displacement.get(key)!;
+      const length = Math.sqrt(x * x + y * y) || 1;
+      const step = Math.min(length, temperature);
+      position.x = Math.min(width - GRAPH_MARGIN, Math.max(GRAPH_MARGIN, position.x + (x / length) * step));
+      position.y = Math.min(height - GRAPH_MARGIN, Math.max(GRAPH_MARGIN, position.y + (y / length) * step));
+    });
+
+    temperature -= cooling;
+  }
+
+  return positions;
+};
+
+/**
+ * Nodes and edges for a project's items, from stored links plus each bug's feature.
+ * Links to items that are not in the list (deleted, or in another project) are dropped.
+ */
+export const buildRelationshipGraph = (
+  items: GraphItem[],
+  links: ItemLink[],
+  options: GraphLayoutOptions = {}
+): RelationshipGraph => {
+  const { width = 960, height = 640, iterations = 150, includeUnlinked = false } = options;
+  const itemsByKey = new Map(items.map(item => [itemKey(item.type, item.id), item]));
+
+  const edges: GraphEdge[] = [
+    ...links.map(link => ({
+      key: link.id,
+      source: itemKey(link.sourceType, link.sourceId),
+      target: itemKey(link.targetType, link.targetId),
+      label: LINK_RELATION_LABELS[link.relation].forward,
+      relation: link.relation
+    })),
+    ...items
+      .filter(item => item.type === 'bug' && item.featureId)
+      .map(item => ({
+        key: `feature:${item.id}`,
+        source: itemKey('bug', item.id),
+        target: itemKey('feature', item.featureId!),
+        label: 'Belongs to',
+        relation: 'feature' as const
+      }))
+  ].filter(edge => itemsByKey.has(edge.source) && itemsByKey.has(edge.target));
+
+  const degrees = new Map<string, number>();
+  edges.forEach(edge => {
+    degrees.set(edge.source, (degrees.get(edge.source) || 0) + 1);
+    degrees.set(edge.target, (degrees.get(edge.target) || 0) + 1);
+  });
+
+  const keys = [...itemsByKey.keys()].filter(key => includeUnlinked || degrees.has(key));
+  const positions = layoutNodes(keys, edges, width, height, iterations);
+
+  return {
+    nodes: keys.map(key => ({
+      ...itemsByKey.get(key)!,
+      key,
+      ...positions.get(key)!,
+      degree: degrees.get(key) || 0
+    })),
+    edges
+  };
+};
@@ -62,5 +62,6 @@ export const NAVIGATION_EVENTS = {
   VIEW_DOCUMENTATION: 'navigation:view_documentation',
   VIEW_SETTINGS: 'navigation:view_settings',
   CREATE_PROJECT: 'navigation:create_project',
-  SELECT_PROJECT: 'navigation:select_project'
+  SELECT_PROJECT: 'navigation:select_project',
+  OPEN_ITEM: 'navigation:open_item'
 } as const;
\ No newline at end of file
@@ -7,6 +7,15 @@ export interface NavigationDestination {
   icon?: string;
   requiresAuth?: boolean;
   external?: boolean;
+  event?: string; // Event emitted on navigation, defaults to VIEW_DOCUMENTATION
+}
+
+// Payload for OPEN_ITEM navigation (search results, command palette)
+export interface OpenItemPayload {
+  type: string;
+  id: string;
+  projectId: string | null;
+  parentId?: string;
 }
 
 export class NavigationService {
@@ -40,6 +49,25 @@ export class NavigationService {
       icon: 'settings',
       requiresAuth: true
     });
+
+    // Project items; route is the workspace tab that shows them
+    const itemDestinations: Array<[string, string, string]> = [
+      ['conversation', 'conversations', 'Conversation'],
+      ['bug', 'bugs', 'Bug'],
+      ['feature', 'features', 'Feature'],
+      ['feature_file', 'features', 'Feature File'],
+      ['document', 'docs', 'Document'],
+      ['task', 'tasks', 'Task']
+    ];
+
+    itemDestinations.forEach(([key, route, title]) => {
+      this.destinations.set(key, {
+        route,
+        title,
+        requiresAuth: true,
+        event: NAVIGATION_EVENTS.OPEN_ITEM
+      });
+    });
   }
   
   registerDestination(key: string, destination: NavigationDestination): void {
@@ -54,7 +82,7 @@ export class NavigationService {
     }
     
     // Emit navigation event
-    this.eventBus.emit(NAVIGATION_EVENTS.VIEW_DOCUMENTATION, {
+    this.eventBus.emit(destination.event ?? NAVIGATION_EVENTS.VIEW_DOCUMENTATION, {
       destination,
       payload
     });
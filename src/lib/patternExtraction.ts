@@ -0,0 +1,253 @@
+/**
+ * Pattern library helpers: turn conversations and fixed bugs into reusable
+ * solution patterns, and detect the tech stack they apply to.
+ *
+ * Shared by the Netlify API function and the Patterns view.
+ */
+
+export const PATTERN_SOURCE_TYPES = ['conversation', 'bug', 'manual'] as const;
+export type PatternSourceType = typeof PATTERN_SOURCE_TYPES[number];
+
+export interface PatternSource {
+  type: 'conversation' | 'bug';
+  id: string;
+  title: string;
+}
+
+export interface PatternCodeExample {
+  filePath?: string;
+  language?: string;
+  code: string;
+  summary?: string;
+}
+
+export interface PatternDraft {
+  title: string;
+  description: string;
+  solution: string;
+  codeExamples: PatternCodeExample[];
+  techStack: string[];
+  tags: string[];
+  sourceType: PatternSourceType;
+  sources: PatternSource[];
+}
+
+// Conversation row fields used for extraction (snake_case, as stored)
+export interface PatternConversationRow {
+  id: string;
+  title: string;
+  implementation_summary?: string | null;
+  code_changes?: Array<{
+    file_path: string;
+    action?: string;
+    after_content?: string | null;
+    diff?: string | null;
+    change_summary?: string | null;
+  }> | null;
+  files_changed?: string[] | null;
+  tags?: string[] | null;
+  project_context?: { techStack?: string[] } | null;
+}
+
+export interface PatternBugRow {
+  id: string;
+  title: string;
+  description?: string | null;
+  solution?: string | null;
+  symptoms?: string[] | null;
+  tags?: string[] | null;
+  project_context?: { techStack?: string[] } | null;
+}
+
+export const MAX_PATTERN_CODE_EXAMPLES = 3;
+export const MAX_PATTERN_CODE_LENGTH = 4000;
+
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  ts: 'typescript',
+  tsx: 'typescript',
+  js: 'javascript',
+  jsx: 'javascript',
+  mjs: 'javascript',
+  py: 'python',
+  rb: 'ruby',
+  go: 'go',
+  rs: 'rust',
+  java: 'java',
+  kt: 'kotlin',
+  swift: 'swift',
+  php: 'php',
+  cs: 'csharp',
+  sql: 'sql',
+  css: 'css',
+  scss: 'css',
+  html: 'html',
+  sh: 'shell',
+  yml: 'yaml',
+  yaml: 'yaml',
+  json: 'json',
+  md: 'markdown'
+};
+
+// Technologies recognised in file paths and free text
+const TECH_KEYWORDS: Array<[string, RegExp]> = [
+  ['react', /\breact\b|\.[jt]sx\b/i],
+  ['vue', /\bvue\b|\.vue\b/i],
+  ['svelte', /\bsvelte\b/i],
+  ['angular', /\bangular\b/i],
+  ['next.js', /\bnext\.?js\b|\bnext\.config\b/i],
+  ['vite', /\bvite\b/i],
+  ['node.js', /\bnode(\.js)?\b|\bnpm\b/i],
+  ['express', /\bexpress\b/i],
+  ['supabase', /\bsupabase\b/i],
+  ['postgres', /\bpostgres(ql)?\b|\bplpgsql\b/i],
+  ['tailwind', /\btailwind\b/i],
+  ['netlify', /\bnetlify\b/i],
+  ['jest', /\bjest\b/i],
+  ['docker', /\bdocker(file)?\b/i],
+  ['graphql', /\bgraphql\b/i],
+  ['prisma', /\bprisma\b/i],
+  ['django', /\bdjango\b/i],
+  ['fastapi', /\bfastapi\b/i]
+];
+
+const EXTENSION_TECH: Record<string, string> = {
+  ts: 'typescript',
+  tsx: 'typescript',
+  py: 'python',
+  go: 'go',
+  rs: 'rust',
+  sql: 'sql',
+  rb: 'ruby',
+  java: 'java',
+  php: 'php'
+};
+
+const getExtension = (path: string): string => {
+  const match = /\.([a-z0-9]+)$/i.exec(path);
+  return match ? match[1].toLowerCase() : '';
+};
+
+export const getLanguageForPath = (path: string): string | undefined => EXTENSION_LANGUAGES[getExtension(path)];
+
+/**
+ * Lowercases, trims and de-duplicates tech stack entries
+ */
+export const normalizeTechStack = (values: unknown): string[] => {
+  const list = Array.isArray(values)
+    ? values
+    : typeof values === 'string' ? values.split(',') : [];
+
+  return Array.from(new Set(
+    list
+      .filter((value): value is string => typeof value === 'string')
+      .map(value => value.trim().toLowerCase())
+      .filter(Boolean)
+  ));
+};
+
+/**
+ * Detects technologies from file paths and free text, merged with any stack already known
+ */
+export const detectTechStack = (texts: string[], filePaths: string[] = [], known: string[] = []): string[] => {
+  const detected = new Set(normalizeTechStack(known));
+
+  filePaths.forEach(path => {
+    const tech = EXTENSION_TECH[getExtension(path)];
+    if (tech) detected.add(tech);
+  });
+
+  const haystack = [...texts, ...filePaths].join('\n');
+  TECH_KEYWORDS.forEach(([tech, pattern]) => {
+    if (pattern.test(haystack)) detected.add(tech);
+  });
+
+  return Array.from(detected).sort();
+};
+
+const truncateCode = (code: string): string =>
+  code.length > MAX_PATTERN_CODE_LENGTH ? `${code.slice(0, MAX_PATTERN_CODE_LENGTH)}\n// ...` : code;
+
+/**
+ * Builds a pattern from a conversation's implementation summary and code changes
+ */
+export const extractPatternFromConversation = (conversation: PatternConversationRow): PatternDraft => {
+  const summary = (conversation.implementation_summary || '').trim();
+  const changes = (conversation.code_changes || []).filter(change => change.action !== 'delete');
+
+  const codeExamples = changes
+    .filter(change => (change.after_content || change.diff || '').trim())
+    .slice(0, MAX_PATTERN_CODE_EXAMPLES)
+    .map(change => ({
+      filePath: change.file_path,
+      language: getLanguageForPath(change.file_path),
+      code: truncateCode((change.diff || change.after_content || '').trim()),
+      summary: change.change_summary || undefined
+    }));
+
+  const filePaths = Array.from(new Set([
+    ...(conversation.files_changed || []),
+    ...changes.map(change => change.file_path)
+  ]));
+
+  return {
+    title: conversation.title,
+    description: summary.split('\n')[0] || '',
+    solution: summary,
+    codeExamples,
+    techStack: detectTechStack(
+      [conversation.title, summary, ...(conversation.tags || [])],
+      filePaths,
+      conversation.project_context?.techStack
+    ),
+    tags: normalizeTechStack(conversation.tags),
+    sourceType: 'conversation',
+    sources: [{ type: 'conversation', id: conversation.id, title: conversation.title }]
+  };
+};
+
+/**
+ * Builds a pattern from a fixed bug's solution
+ */
+export const extractPatternFromBug = (bug: PatternBugRow): PatternDraft => {
+  const description = (bug.description || '').trim();
+  const symptoms = (bug.symptoms || []).filter(Boolean);
+
+  return {
+    title: bug.title,
+    description: symptoms.length > 0
+      ? `${description}${description ? '\n\n' : ''}Symptoms: ${symptoms.join('; ')}`
+      : description,
+    solution: (bug.solution || '').trim(),
+    codeExamples: [],
+    techStack: detectTechStack(
+      [bug.title, description, bug.solution || '', ...(bug.tags || [])],
+      [],
+      bug.project_context?.techStack
+    ),
+    tags: normalizeTechStack(bug.tags),
+    sourceType: 'bug',
+    sources: [{ type: 'bug', id: bug.id, title: bug.title }]
+  };
+};
+
+/**
+ * Share of reuses that worked, as a whole percentage; null until the pattern has been used
+ */
+export const getPatternSuccessRate = (usageCount: number, successCount: number): number | null =>
+  usageCount > 0 ? Math.round((successCount / usageCount) * 100) : null;
+
+/**
+ * Maps a pattern draft to a patterns table row
+ */
+export const buildPatternRow = (draft: PatternDraft, userId: string, projectId: string | null) => ({
+  user_id: userId,
+  project_id: projectId,
+  title: draft.title,
+  description: draft.description,
+  solution: draft.solution,
+  code_examples: draft.codeExamples,
+  tech_stack: normalizeTechStack(draft.techStack),
+  tags: normalizeTechStack(draft.tags),
+  source_type: draft.sourceType,
+  sources: draft.sources
+});
@@ -0,0 +1,521 @@
+/**
+ * Project archives: a whole project knowledge base as a ZIP of Markdown files.
+ *
+ * Every item is one Markdown file whose front-matter holds the item's columns and whose body
+ * holds its main text, so archives can be read, diffed and edited in git. Front-matter values
+ * are written as JSON, which YAML parsers read as flow values. manifest.json lists every file
+ * with the collection and id it restores.
+ *
+ *   manifest.json
+ *   project.md
+ *   documents/<title>.md
+ *   features/<title>/feature.md
+ *   features/<title>/<file name>.md
+ *   bugs/<title>/bug.md
+ *   bugs/<title>/images/<file>
+ *   conversations/<title>.md
+ *   tasks/<title>.md
+ *   events/<date>-<title>.md
+ */
+
+import { ZipEntry } from './zip';
+
+export const ARCHIVE_FORMAT = 'refbase-project';
+export const ARCHIVE_VERSION = 1;
+export const ARCHIVE_MANIFEST_PATH = 'manifest.json';
+const PROJECT_PATH = 'project.md';
+
+export const ARCHIVE_COLLECTIONS = [
+  'documents',
+  'features',
+  'featureFiles',
+  'bugs',
+  'conversations',
+  'tasks',
+  'events'
+] as const;
+export type ArchiveCollection = typeof ARCHIVE_COLLECTIONS[number];
+
+export const ARCHIVE_COLLECTION_LABELS: Record<ArchiveCollection, string> = {
+  documents: 'Documents',
+  features: 'Features',
+  featureFiles: 'Feature files',
+  bugs: 'Bugs',
+  conversations: 'Conversations',
+  tasks: 'Tasks',
+  events: 'Events'
+};
+
+// Column written as the Markdown body; the rest go in the front-matter
+const BODY_COLUMNS: Record<ArchiveCollection, string> = {
+  documents: 'content',
+  features: 'content',
+  featureFiles: 'content',
+  bugs: 'content',
+  conversations: 'messages',
+  tasks: 'description',
+  events: 'description'
+};
+
+const TITLE_COLUMNS: Record<ArchiveCollection, string> = {
+  documents: 'title',
+  features: 'title',
+  featureFiles: 'name',
+  bugs: 'title',
+  conversations: 'title',
+  tasks: 'title',
+  events: 'title'
+};
+
+// Owner and derived columns; an import sets them for the project it creates
+const EXCLUDED_COLUMNS = ['project_id', 'user_id', 'created_by', 'updated_by', 'accessed_at', 'search_vector'];
+const EXCLUDED_PROJECT_COLUMNS = ['id', 'user_id', 'archived_at'];
+const EXCLUDED_IMAGE_COLUMNS = ['id', 'bug_id', 'project_id', 'user_id', 'uploaded_by', 'image_path'];
+
+// Columns pointing at other items of the project; remapped on import
+const REFERENCE_COLUMNS = ['feature_id', 'bug_id', 'parent_id'];
+
+const MAX_SLUG_LENGTH = 60;
+
+export type ArchiveRow = Record<string, unknown> & { id: string };
+
+export interface ArchiveImage {
+  bugId: string;
+  filename: string;
+  // bug_images columns other than ids and the storage path
+  metadata: Record<string, unknown>;
+  data: Uint8Array;
+  // Public URL the bug content links the image by; rewritten to a path inside the archive
+  url?: string;
+}
+
+export interface ProjectArchive {
+  project: Record<string, unknown>;
+  collections: Record<ArchiveCollection, ArchiveRow[]>;
+  images: ArchiveImage[];
+}
+
+interface ManifestEntry {
+  collection: ArchiveCollection;
+  id: string;
+  title: string;
+  path: string;
+}
+
+interface ManifestImage {
+  bugId: string;
+  path: string;
+  metadata: Record<string, unknown>;
+}
+
+export interface ArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  project: { name: string; path: string };
+  counts: Record<ArchiveCollection, number> & { images: number };
+  entries: ManifestEntry[];
+  images: ManifestImage[];
+}
+
+export class ProjectArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectArchiveError';
+  }
+}
+
+export const emptyCollections = (): Record<ArchiveCollection, ArchiveRow[]> =>
+  Object.fromEntries(ARCHIVE_COLLECTIONS.map(collection => [collection, []])) as unknown as Record<ArchiveCollection, ArchiveRow[]>;
+
+/**
+ * File-system friendly name: lowercase words joined by dashes
+ */
+export const slugify = (text: string) =>
+  text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\.(md|markdown)$/, '')
+    .replace(/[^a-z0-9.]+/g, '-')
+    .replace(/^[-.]+|[-.]+$/g, '')
+    .slice(0, MAX_SLUG_LENGTH)
+    .replace(/-+$/, '') || 'untitled';
+
+/**
+ * Download name for a project's archive, e.g. `refbase-2025-09-19.zip`
+ */
+export const archiveFileName = (projectName: string, date: Date = new Date()) =>
+  `${slugify(projectName)}-${date.toISOString().slice(0, 10)}.zip`;
+
+/**
+ * Path a bug's content links an archived image by, relative to the bug's Markdown file
+ */
+export const imageReference = (filename: string) => `images/${filename}`;
+
+// Image names become storage keys on import, so path separators are replaced
+const sanitizeFileName = (name: string) => name.replace(/[\\/]/g, '-');
+
+// Names made only of dots would point at another folder
+const isUsableFileName = (name: string) => !/^\.*$/.test(name);
+
+/**
+ * Replace every occurrence of a string in a row's values
+ */
+export const rewriteReferences = <T extends Record<string, unknown>>(row: T, from: string, to: string): T => {
+  if (!from || from === to) return row;
+  const json = JSON.stringify(row);
+  const target = JSON.stringify(from).slice(1, -1);
+  return json.includes(target) ? JSON.parse(json.split(target).join(JSON.stringify(to).slice(1, -1))) : row;
+};
+
+const omit = (row: Record<string, unknown>, columns: string[]) =>
+  Object.fromEntries(Object.entries(row).filter(([column]) => !columns.includes(column)));
+
+/**
+ * Markdown with the fields as front-matter. Values are JSON, which YAML reads as flow values.
+ */
+export const formatFrontMatter = (fields: Record<string, unknown>, body: string) => {
+  const lines = Object.entries(fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}: ${JSON.stringify(value)}`);
+  return `---\n${lines.join('\n')}\n---\n\n${body}`;
+};
+
+/**
+ * Split Markdown into its front-matter fields and body. Accepts the single-line `key: value`
+ * subset of YAML: JSON values, or plain strings.
+ */
+export const parseFrontMatter = (text: string): { fields: Record<string, unknown>; body: string } => {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  if (lines[0] !== '---') return { fields: {}, body: text };
+
+  const end = lines.indexOf('---', 1);
+  if (end === -1) throw new ProjectArchiveError('The front-matter is not closed with ---');
+
+  const fields: Record<string, unknown> = {};
+  lines.slice(1, end).forEach((line, index) => {
+    if (!line.trim() || line.trimStart().startsWith('#')) return;
+    const match = line.match(/^([A-Za-z0-9_]+):\s*(.*)$/);
+    if (!match) {
+      throw new ProjectArchiveError(`Line ${index + 2} of the front-matter is not a single-line "key: value"`);
+    }
+    const value = match[2].trim();
+    if (!value || value === '~') {
+      fields[match[1]] = null;
+      return;
+    }
+    try {
+      fields[match[1]] = JSON.parse(value);
+    } catch {
+      fields[match[1]] = /^'.*'$/.test(value) ? value.slice(1, -1).replace(/''/g, "'") : value;
+    }
+  });
+
+  // Skip the blank line written after the front-matter
+  const bodyLines = lines.slice(end + 1);
+  if (bodyLines[0] === '') bodyLines.shift();
+  return { fields, body: bodyLines.join('\n') };
+};
+
+const MESSAGE_MARKER = /^<!-- message (\{.*\}) -->$/;
+
+const roleLabel = (role: unknown) =>
+  typeof role === 'string' && role ? role.charAt(0).toUpperCase() + role.slice(1) : 'Message';
+
+/**
+ * Conversation messages as a readable transcript. Each message starts with a comment holding
+ * everything but its text, so the transcript parses back to the same messages.
+ */
+export const formatTranscript = (messages: unknown): string => {
+  if (!Array.isArray(messages)) return '';
+
+  return messages.map(message => {
+    const { content, ...meta } = (message || {}) as Record<string, unknown>;
+    const text = typeof content === 'string' ? content : '';
+    const header = typeof content === 'string' ? meta : { ...meta, content };
+    // Escaped so message data cannot end the comment early
+    const marker = `<!-- message ${JSON.stringify(header).replace(/>/g, '\\u003e')} -->`;
+    return `${marker}\n### ${roleLabel(meta.role)}\n\n${text}`;
+  }).join('\n\n');
+};
+
+/**
+ * Messages of a transcript written by formatTranscript. Text before the first message is ignored.
+ */
+export const parseTranscript = (body: string): Record<string, unknown>[] => {
+  const blocks: { meta: Record<string, unknown>; lines: string[] }[] = [];
+
+  body.replace(/\r\n/g, '\n').split('\n').forEach(line => {
+    const match = line.match(MESSAGE_MARKER);
+    if (match) {
+      try {
+        blocks.push({ meta: JSON.parse(match[1]), lines: [] });
+        return;
+      } catch {
+        // Not one of ours; keep it as text
+      }
+    }
+    blocks[blocks.length - 1]?.lines.push(line);
+  });
+
+  return blocks.map(({ meta, lines }, index) => {
+    if (lines[0]?.startsWith('### ')) lines.shift();
+    if (lines[0] === '') lines.shift();
+    // Drop the blank line that separates a message from the next one
+    if (index < blocks.length - 1 && lines[lines.length - 1] === '') lines.pop();
+    return 'content' in meta ? meta : { ...meta, content: lines.join('\n') };
+  });
+};
+
+const titleOf = (collection: ArchiveCollection, row: ArchiveRow) => {
+  const title = row[TITLE_COLUMNS[collection]];
+  return typeof title === 'string' && title.trim() ? title.trim() : 'Untitled';
+};
+
+/**
+ * Paths are made unique by numbering repeats: `notes.md`, `notes-2.md`
+ */
+const createPathAllocator = () => {
+  const used = new Set<string>();
+  return (base: string, extension: string) => {
+    let path = `${base}${extension}`;
+    for (let n = 2; used.has(path.toLowerCase()); n++) path = `${base}-${n}${extension}`;
+    used.add(path.toLowerCase());
+    return path;
+  };
+};
+
+const formatItem = (collection: ArchiveCollection, row: ArchiveRow) => {
+  const bodyColumn = BODY_COLUMNS[collection];
+  const value = row[bodyColumn];
+  const body = collection === 'conversations' ? formatTranscript(value) : typeof value === 'string' ? value : '';
+  const fields = omit(row, [...EXCLUDED_COLUMNS, bodyColumn]);
+  // A body column that is not text stays in the front-matter
+  if (collection !== 'conversations' && value !== undefined && value !== null && typeof value !== 'string') {
+    fields[bodyColumn] = value;
+  }
+  return formatFrontMatter({ id: row.id, ...fields }, body);
+};
+
+/**
+ * Files of a project's archive, manifest.json included
+ */
+export const buildArchiveFiles = (archive: ProjectArchive, exportedAt: Date = new Date()): ZipEntry[] => {
+  const allocate = createPathAllocator();
+  allocate('manifest', '.json');
+  allocate('project', '.md');
+
+  const files: ZipEntry[] = [];
+  const entries: ManifestEntry[] = [];
+  const manifestImages: ManifestImage[] = [];
+  const { collections } = archive;
+
+  const addItem = (collection: ArchiveCollection, row: ArchiveRow, path: string) => {
+    files.push({ path, data: formatItem(collection, row), modifiedAt: exportedAt });
+    entries.push({ collection, id: row.id, title: titleOf(collection, row), path });
+  };
+
+  collections.documents.forEach(row => addItem('documents', row, allocate(`documents/${slugify(titleOf('documents', row))}`, '.md')));
+
+  const featureDirs = new Map<string, string>();
+  collections.features.forEach(row => {
+    const dir = allocate(`features/${slugify(titleOf('features', row))}`, '');
+    featureDirs.set(row.id, dir);
+    addItem('features', row, allocate(`${dir}/feature`, '.md'));
+  });
+  collections.featureFiles.forEach(row => {
+    const dir = featureDirs.get(String(row.feature_id)) || 'features/unassigned';
+    addItem('featureFiles', row, allocate(`${dir}/${slugify(titleOf('featureFiles', row))}`, '.md'));
+  });
+
+  collections.bugs.forEach(row => {
+    const dir = allocate(`bugs/${slugify(titleOf('bugs', row))}`, '');
+    let bug = row;
+
+    archive.images.filter(image => image.bugId === row.id).forEach(image => {
+      const safeName = sanitizeFileName(image.filename);
+      const [, name, extension] = (isUsableFileName(safeName) ? safeName : 'image').match(/^(.*?)(\.[^.]*)?$/) as string[];
+      const path = allocate(`${dir}/${imageReference(name)}`, extension || '');
+      const filename = path.slice(path.lastIndexOf('/') + 1);
+      if (image.url) bug = rewriteReferences(bug, image.url, imageReference(filename));
+      files.push({ path, data: image.data, modifiedAt: exportedAt });
+      manifestImages.push({ bugId: row.id, path, metadata: omit({ ...image.metadata, filename }, EXCLUDED_IMAGE_COLUMNS) });
+    });
+
+    addItem('bugs', bug, allocate(`${dir}/bug`, '.md'));
+  });
+
+  collections.conversations.forEach(row => addItem('conversations', row, allocate(`conversations/${slugify(titleOf('conversations', row))}`, '.md')));
+  collections.tasks.forEach(row => addItem('tasks', row, allocate(`tasks/${slugify(titleOf('tasks', row))}`, '.md')));
+  collections.events.forEach(row => {
+    const date = typeof row.event_date === 'string' ? `${row.event_date.slice(0, 10)}-` : '';
+    addItem('events', row, allocate(`events/${date}${slugify(titleOf('events', row))}`, '.md'));
+  });
+
+  const project = omit(archive.project, EXCLUDED_PROJECT_COLUMNS);
+  const { description, ...projectFields } = project;
+  files.unshift({
+    path: PROJECT_PATH,
+    data: formatFrontMatter(projectFields, typeof description === 'string' ? description : ''),
+    modifiedAt: exportedAt
+  });
+
+  const manifest: ArchiveManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    project: { name: String(archive.project.name || 'Untitled'), path: PROJECT_PATH },
+    counts: {
+      ...Object.fromEntries(ARCHIVE_COLLECTIONS.map(collection => [collection, collections[collection].length])) as Record<ArchiveCollection, number>,
+      images: manifestImages.length
+    },
+    entries,
+    images: manifestImages
+  };
+  files.unshift({ path: ARCHIVE_MANIFEST_PATH, data: JSON.stringify(manifest, null, 2), modifiedAt: exportedAt });
+
+  return files;
+};
+
+const isManifest = (value: unknown): value is ArchiveManifest => {
+  const manifest = value as ArchiveManifest;
+  return !!manifest && manifest.format === ARCHIVE_FORMAT && Array.isArray(manifest.entries);
+};
+
+/**
+ * Read a project archive from the files of its ZIP. The archive may sit in a folder,
+ * as it does when an extracted archive is zipped again.
+ */
+export const parseArchiveFiles = (files: Map<string, Uint8Array>): ProjectArchive => {
+  const manifestPath = [...files.keys()]
+    .filter(path => path === ARCHIVE_MANIFEST_PATH || path.endsWith(`/${ARCHIVE_MANIFEST_PATH}`))
+    .sort((a, b) => a.length - b.length)[0];
+  if (!manifestPath) {
+    throw new ProjectArchiveError('This ZIP is not a project export: manifest.json is missing');
+  }
+  const root = manifestPath.slice(0, -ARCHIVE_MANIFEST_PATH.length);
+  const decoder = new TextDecoder();
+
+  const readText = (path: string) => {
+    const data = files.get(`${root}${path}`);
+    if (!data) throw new ProjectArchiveError(`${path} is listed in manifest.json but missing from the archive`);
+    return decoder.decode(data);
+  };
+
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(readText(ARCHIVE_MANIFEST_PATH));
+  } catch (error) {
+    if (error instanceof ProjectArchiveError) throw error;
+    throw new ProjectArchiveError('manifest.json is not valid JSON');
+  }
+  if (!isManifest(manifest)) {
+    throw new ProjectArchiveError('This ZIP is not a project export');
+  }
+  if (manifest.version > ARCHIVE_VERSION) {
+    throw new ProjectArchiveError('This archive was exported by a newer version and cannot be imported');
+  }
+
+  const readItem = (path: string) => {
+    try {
+      return parseFrontMatter(readText(path));
+    } catch (error) {
+      if (error instanceof ProjectArchiveError && !error.message.includes(path)) {
+        throw new ProjectArchiveError(`${path}: ${error.message}`);
+      }
+      throw error;
+    }
+  };
+
+  const projectFile = readItem(manifest.project?.path || PROJECT_PATH);
+  const project = {
+    ...omit(projectFile.fields, EXCLUDED_PROJECT_COLUMNS),
+    name: projectFile.fields.name || manifest.project?.name || 'Imported project',
+    description: projectFile.body
+  };
+
+  const collections = emptyCollections();
+  manifest.entries.forEach(entry => {
+    if (!ARCHIVE_COLLECTIONS.includes(entry.collection) || !entry.id) {
+      throw new ProjectArchiveError(`manifest.json lists an unknown item at ${entry.path}`);
+    }
+    const { fields, body } = readItem(entry.path);
+    const bodyColumn = BODY_COLUMNS[entry.collection];
+    const row: ArchiveRow = { ...omit(fields, EXCLUDED_COLUMNS), id: entry.id };
+    if (entry.collection === 'conversations') {
+      row.messages = parseTranscript(body);
+    } else if (!(bodyColumn in fields)) {
+      row[bodyColumn] = body;
+    }
+    collections[entry.collection].push(row);
+  });
+
+  const images = (manifest.images || []).map(image => {
+    const data = files.get(`${root}${image.path}`);
+    if (!data) throw new ProjectArchiveError(`${image.path} is listed in manifest.json but missing from the archive`);
+    const filename = sanitizeFileName(String(image.metadata?.filename || image.path.split('/').pop() || ''));
+    if (!isUsableFileName(filename)) {
+      throw new ProjectArchiveError(`${image.path} has no usable file name in manifest.json`);
+    }
+    return { bugId: image.bugId, filename, metadata: { ...image.metadata, filename }, data };
+  });
+
+  return { project, collections, images };
+};
+
+/**
+ * Number of items of each collection in an archive
+ */
+export const countArchiveItems = (archive: ProjectArchive) => ({
+  ...Object.fromEntries(ARCHIVE_COLLECTIONS.map(collection => [collection, archive.collections[collection].length])) as Record<ArchiveCollection, number>,
+  images: archive.images.length
+});
+
+// Parents before children so each insert can reference rows already saved
+const orderParentsFirst = (rows: ArchiveRow[]) => {
+  const byId = new Map(rows.map(row => [row.id, row]));
+  const depth = (row: ArchiveRow, seen = new Set<string>()): number => {
+    const parent = byId.get(String(row.parent_id));
+    if (!parent || seen.has(row.id)) return 0;
+    seen.add(row.id);
+    return depth(parent, seen) + 1;
+  };
+  return rows
+    .map((row, index) => ({ row, index, depth: depth(row) }))
+    .sort((a, b) => a.depth - b.depth || a.index - b.index)
+    .map(({ row }) => row);
+};
+
+/**
+ * Give every item of an archive a new id and point references between items at the new ids.
+ * References to items outside the archive are cleared.
+ */
+export const remapArchiveIds = (archive: ProjectArchive, createId: () => string): ProjectArchive => {
+  const ids = new Map<string, string>();
+  ARCHIVE_COLLECTIONS.forEach(collection => {
+    archive.collections[collection].forEach(row => ids.set(row.id, createId()));
+  });
+
+  const remap = (row: ArchiveRow): ArchiveRow => {
+    const remapped: ArchiveRow = { ...row, id: ids.get(row.id) as string };
+    REFERENCE_COLUMNS.forEach(column => {
+      if (column in row) remapped[column] = row[column] ? ids.get(String(row[column])) ?? null : row[column];
+    });
+    return remapped;
+  };
+
+  const collections = emptyCollections();
+  ARCHIVE_COLLECTIONS.forEach(collection => {
+    const rows = archive.collections[collection];
+    collections[collection] = (collection === 'featureFiles' ? orderParentsFirst(rows) : rows).map(remap);
+  });
+
+  return {
+    project: archive.project,
+    collections,
+    images: archive.images
+      .filter(image => ids.has(image.bugId))
+      .map(image => ({ ...image, bugId: ids.get(image.bugId) as string }))
+  };
+};
@@ -0,0 +1,326 @@
+/**
+ * Normalized client cache for project data
+ *
+ * Each record is stored once per collection, keyed by id, and shared by every
+ * useSupabaseProjects instance. Collections are loaded per project, one cursor
+ * page at a time, so a project's data is only fetched when one of its tabs is
+ * opened. Changes made elsewhere arrive over realtime and are merged with
+ * applyRemoteChange.
+ */
+
+import { Project, Document, Task, Bug, Feature, FeatureData, CalendarEvent, FileItem, ChatMessage } from '../types';
+
+export const PROJECT_COLLECTIONS = [
+  'documents',
+  'tasks',
+  'features',
+  'featureData',
+  'bugs',
+  'events',
+  'files',
+  'messages'
+] as const;
+export type ProjectCollection = typeof PROJECT_COLLECTIONS[number];
+
+export interface ProjectCollectionTypes {
+  documents: Document;
+  tasks: Task;
+  features: Feature;
+  featureData: FeatureData;
+  bugs: Bug;
+  events: CalendarEvent;
+  files: FileItem;
+  messages: ChatMessage;
+}
+
+export type CacheCollection = ProjectCollection | 'projects';
+type CacheRecordTypes = ProjectCollectionTypes & { projects: Project };
+
+export const PROJECT_PAGE_SIZE = 100;
+
+// Position of the last row of a page in (order column, id) order
+export interface PageCursor {
+  value: string;
+  id: string;
+}
+
+export interface CollectionPageState {
+  loaded: boolean;
+  loading: boolean;
+  hasMore: boolean;
+  cursor: PageCursor | null;
+  error: string | null;
+}
+
+export const EMPTY_PAGE_STATE: CollectionPageState = {
+  loaded: false,
+  loading: false,
+  hasMore: false,
+  cursor: null,
+  error: null
+};
+
+export type ProjectsStatus = 'idle' | 'loading' | 'loaded';
+
+// A change to one record received from the server (e.g. over realtime)
+export type RemoteChange<C extends ProjectCollection> =
+  | { type: 'upsert'; record: ProjectCollectionTypes[C] }
+  | { type: 'delete'; id: string };
+
+/**
+ * PostgREST `or` filter selecting the rows after a cursor, with the id as tie-breaker
+ */
+export const buildCursorFilter = (column: string, cursor: PageCursor, ascending: boolean): string => {
+  const op = ascending ? 'gt' : 'lt';
+  // Timestamps contain reserved characters (":", "."), so the value is quoted
+  const value = `"${cursor.value.replace(/"/g, '\\"')}"`;
+  return `${column}.${op}.${value},and(${column}.eq.${value},id.${op}.${cursor.id})`;
+};
+
+/**
+ * Splits a page fetched with one extra row into the page rows, whether more
+ * rows exist, and the cursor for the next page
+ */
+export const splitPage = <T extends { id: string }>(
+  rows: T[],
+  column: keyof T,
+  pageSize: number = PROJECT_PAGE_SIZE
+): { rows: T[]; hasMore: boolean; cursor: PageCursor | null } => {
+  const page = rows.slice(0, pageSize);
+  const last = page[page.length - 1];
+  const value = last ? last[column] : undefined;
+
+  return {
+    rows: page,
+    hasMore: rows.length > pageSize,
+    cursor: last && value != null ? { value: String(value), id: last.id } : null
+  };
+};
+
+const pageKey = (projectId: string, collection: ProjectCollection) => `${projectId}:${collection}`;
+const recordKey = (collection: ProjectCollection, id: string) => `${collection}:${id}`;
+
+type Listener = () => void;
+
+export class ProjectDataCache {
+  private owner: string | null = null;
+  private records = new Map<CacheCollection, Map<string, { id: string }>>();
+  private snapshots = new Map<CacheCollection, unknown[]>();
+  private pages = new Map<string, CollectionPageState>();
+  private projectsStatus: ProjectsStatus = 'idle';
+  private pendingWrites = new Map<string, number>();
+  private deferredChanges = new Map<string, RemoteChange<ProjectCollection>>();
+  private version = 0;
+  private listeners = new Set<Listener>();
+
+  subscribe = (listener: Listener) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  // Bumped on every change, including page state changes that leave records untouched
+  getVersion = () => this.version;
+
+  getOwner(): string | null {
+    return this.owner;
+  }
+
+  /**
+   * Drops everything and starts caching for another user (or nobody)
+   */
+  reset(owner: string | null) {
+    this.owner = owner;
+    this.records.clear();
+    this.snapshots.clear();
+    this.pages.clear();
+    this.pendingWrites.clear();
+    this.deferredChanges.clear();
+    this.projectsStatus = 'idle';
+    this.emit();
+  }
+
+  getAll<C extends CacheCollection>(collection: C): CacheRecordTypes[C][] {
+    let snapshot = this.snapshots.get(collection);
+    if (!snapshot) {
+      snapshot = Array.from(this.getRecords(collection).values());
+      this.snapshots.set(collection, snapshot);
+    }
+    return snapshot as CacheRecordTypes[C][];
+  }
+
+  get<C extends CacheCollection>(collection: C, id: string): CacheRecordTypes[C] | undefined {
+    return this.getRecords(collection).get(id) as CacheRecordTypes[C] | undefined;
+  }
+
+  /**
+   * Replaces existing records in place and adds new ones at the end (or the start)
+   */
+  upsert<C extends CacheCollection>(collection: C, items: CacheRecordTypes[C][], position: 'start' | 'end' = 'end') {
+    if (items.length === 0) return;
+    const records = this.getRecords(collection);
+    if (position === 'start') {
+      const reordered = new Map<string, { id: string }>(items.map(item => [item.id, item] as const));
+      records.forEach((item, id) => {
+        if (!reordered.has(id)) reordered.set(id, item);
+      });
+      this.records.set(collection, reordered);
+    } else {
+      items.forEach(item => records.set(item.id, item));
+    }
+    this.changed(collection);
+  }
+
+  replaceAll<C extends CacheCollection>(collection: C, items: CacheRecordTypes[C][]) {
+    this.records.set(collection, new Map(items.map(item => [item.id, item] as const)));
+    this.changed(collection);
+  }
+
+  update<C extends CacheCollection>(collection: C, id: string, updates: Partial<CacheRecordTypes[C]>) {
+    const records = this.getRecords(collection);
+    const existing = records.get(id);
+    if (!existing) return;
+    records.set(id, { ...existing, ...updates });
+    this.changed(collection);
+  }
+
+  remove<C extends CacheCollection>(collection: C, predicate: (item: CacheRecordTypes[C]) => boolean) {
+    const records = this.getRecords(collection);
+    let removed = false;
+    records.forEach((item, id) => {
+      if (predicate(item as CacheRecordTypes[C])) {
+        records.delete(id);
+        removed = true;
+      }
+    });
+    if (removed) this.changed(collection);
+  }
+
+  /**
+   * Drops a project's records and page state from every collection
+   */
+  removeProject(projectId: string) {
+    PROJECT_COLLECTIONS.forEach(collection => {
+      this.remove(collection, item => item.projectId === projectId);
+      this.pages.delete(pageKey(projectId, collection));
+    });
+    this.remove('projects', project => project.id === projectId);
+    this.emit();
+  }
+
+  getPageState(projectId: string, collection: ProjectCollection): CollectionPageState {
+    return this.pages.get(pageKey(projectId, collection)) || EMPTY_PAGE_STATE;
+  }
+
+  setPageState(projectId: string, collection: ProjectCollection, updates: Partial<CollectionPageState>) {
+    this.pages.set(pageKey(projectId, collection), { ...this.getPageState(projectId, collection), ...updates });
+    this.emit();
+  }
+
+  /**
+   * Project/collection pairs whose first page has been loaded
+   */
+  getLoadedPages(): Array<{ projectId: string; collection: ProjectCollection }> {
+    return Array.from(this.pages.entries())
+      .filter(([, state]) => state.loaded)
+      .map(([key]) => {
+        const separator = key.lastIndexOf(':');
+        return { projectId: key.slice(0, separator), collection: key.slice(separator + 1) as ProjectCollection };
+      });
+  }
+
+  /**
+   * Stores a first page, replacing whatever was cached for that project and collection
+   */
+  replaceProjectRecords<C extends ProjectCollection>(projectId: string, collection: C, items: CacheRecordTypes[C][]) {
+    const records = this.getRecords(collection);
+    records.forEach((item, id) => {
+      if ((item as CacheRecordTypes[C]).projectId === projectId) records.delete(id);
+    });
+    items.forEach(item => records.set(item.id, item));
+    this.changed(collection);
+  }
+
+  /**
+   * Marks a local write to a record as in flight; remote changes to it are held until endWrite
+   */
+  beginWrite(collection: ProjectCollection, id: string) {
+    const key = recordKey(collection, id);
+    this.pendingWrites.set(key, (this.pendingWrites.get(key) || 0) + 1);
+  }
+
+  endWrite(collection: ProjectCollection, id: string) {
+    const key = recordKey(collection, id);
+    const remaining = (this.pendingWrites.get(key) || 0) - 1;
+    if (remaining > 0) {
+      this.pendingWrites.set(key, remaining);
+      return;
+    }
+    this.pendingWrites.delete(key);
+
+    // The server's version of the record wins once the local write has settled
+    const deferred = this.deferredChanges.get(key);
+    if (deferred) {
+      this.deferredChanges.delete(key);
+      this.applyRemoteChange(collection, deferred);
+    }
+  }
+
+  /**
+   * Merges a server-side change into the cache. New records are only added for
+   * projects whose collection has been loaded; other projects pick them up when opened.
+   */
+  applyRemoteChange<C extends ProjectCollection>(collection: C, change: RemoteChange<C>) {
+    const id = change.type === 'delete' ? change.id : change.record.id;
+    const key = recordKey(collection, id);
+
+    if (this.pendingWrites.has(key)) {
+      // Keep only the latest change; it reflects the final server state
+      this.deferredChanges.set(key, change as RemoteChange<ProjectCollection>);
+      return;
+    }
+
+    if (change.type === 'delete') {
+      this.remove(collection, item => item.id === id);
+      return;
+    }
+
+    const record = change.record as CacheRecordTypes[C];
+    if (this.getRecords(collection).has(id)) {
+      this.upsert(collection, [record]);
+    } else if (this.getPageState(change.record.projectId, collection).loaded) {
+      this.upsert(collection, [record], 'start');
+    }
+  }
+
+  getProjectsStatus(): ProjectsStatus {
+    return this.projectsStatus;
+  }
+
+  setProjectsStatus(status: ProjectsStatus) {
+    this.projectsStatus = status;
+    this.emit();
+  }
+
+  private getRecords(collection: CacheCollection) {
+    let records = this.records.get(collection);
+    if (!records) {
+      records = new Map();
+      this.records.set(collection, records);
+    }
+    return records;
+  }
+
+  private changed(collection: CacheCollection) {
+    this.snapshots.delete(collection);
+    this.emit();
+  }
+
+  private emit() {
+    this.version += 1;
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const projectDataCache = new ProjectDataCache();
@@ -0,0 +1,194 @@
+/**
+ * Revision history model: the items that keep revisions, line diffs between
+ * two revisions and the update that restores one.
+ *
+ * Revisions are recorded by triggers on each item table (see the
+ * add_revisions migration), so this module only reads them. Shared by the
+ * Netlify API function and the app's History panels.
+ */
+
+export const REVISION_ITEM_TYPES = ['document', 'feature_file', 'bug', 'conversation'] as const;
+export type RevisionItemType = typeof REVISION_ITEM_TYPES[number];
+
+export const REVISION_ITEM_TYPE_LABELS: Record<RevisionItemType, string> = {
+  document: 'Document',
+  feature_file: 'Feature file',
+  bug: 'Bug',
+  conversation: 'Session notes'
+};
+
+export const REVISION_ITEM_TABLES: Record<RevisionItemType, string> = {
+  document: 'documents',
+  feature_file: 'feature_data',
+  bug: 'bugs',
+  conversation: 'conversations'
+};
+
+export const REVISION_NAME_MAX_LENGTH = 100;
+
+// Above this many old x new lines the diff falls back to "everything changed"
+const MAX_DIFF_CELLS = 4_000_000;
+
+export interface Revision {
+  id: string;
+  projectId: string | null;
+  itemType: RevisionItemType;
+  itemId: string;
+  title: string;
+  content: string;
+  // Set when the revision was saved as a named snapshot
+  name: string | null;
+  createdAt: Date;
+}
+
+export type DiffLineType = 'unchanged' | 'added' | 'removed';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+  // 1-based line numbers in the old and new text
+  oldNumber: number | null;
+  newNumber: number | null;
+}
+
+/**
+ * One row of a side-by-side diff; a side is null where the other side has no counterpart
+ */
+export interface SideBySideRow {
+  left: DiffLine | null;
+  right: DiffLine | null;
+}
+
+export interface DiffSummary {
+  added: number;
+  removed: number;
+}
+
+export const isRevisionItemType = (value: unknown): value is RevisionItemType =>
+  typeof value === 'string' && (REVISION_ITEM_TYPES as readonly string[]).includes(value);
+
+const splitLines = (text: string): string[] => (text === '' ? [] : text.replace(/\r\n/g, '\n').split('\n'));
+
+/**
+ * Line diff from old to new text (longest common subsequence), with removals before additions
+ */
+export const diffLines = (oldText: string, newText: string): DiffLine[] => {
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+
+  // Only the part between the common prefix and suffix needs the full comparison
+  let start = 0;
+  while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) {
+    start++;
+  }
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const result: DiffLine[] = [];
+  const unchanged = (oldIndex: number, newIndex: number) =>
+    result.push({ type: 'unchanged', text: oldLines[oldIndex], oldNumber: oldIndex + 1, newNumber: newIndex + 1 });
+  const removed = (oldIndex: number) =>
+    result.push({ type: 'removed', text: oldLines[oldIndex], oldNumber: oldIndex + 1, newNumber: null });
+  const added = (newIndex: number) =>
+    result.push({ type: 'added', text: newLines[newIndex], oldNumber: null, newNumber: newIndex + 1 });
+
+  for (let i = 0; i < start; i++) unchanged(i, i);
+
+  const rows = oldEnd - start;
+  const cols = newEnd - start;
+
+  if (rows * cols > MAX_DIFF_CELLS) {
+    for (let i = start; i < oldEnd; i++) removed(i);
+    for (let j = start; j < newEnd; j++) added(j);
+  } else {
+    // lengths[i][j] is the LCS length of oldLines[start + i..] and newLines[start + j..]
+    const width = cols + 1;
+    const lengths = new Uint32Array((rows + 1) * width);
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = cols - 1; j >= 0; j--) {
+        lengths[i * width + j] = oldLines[start + i] === newLines[start + j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < rows || j < cols) {
+      if (i < rows && j < cols && oldLines[start + i] === newLines[start + j]) {
+        unchanged(start + i, start + j);
+        i++;
+        j++;
+      } else if (j >= cols || (i < rows && lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])) {
+        removed(start + i);
+        i++;
+      } else {
+        added(start + j);
+        j++;
+      }
+    }
+  }
+
+  for (let k = 0; k < oldLines.length - oldEnd; k++) unchanged(oldEnd + k, newEnd + k);
+
+  return result;
+};
+
+/**
+ * Pairs removed and added lines of the same change so they sit next to each other
+ */
+export const buildSideBySideRows = (lines: DiffLine[]): SideBySideRow[] => {
+  const rows: SideBySideRow[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    if (lines[index].type === 'unchanged') {
+      rows.push({ left: lines[index], right: lines[index] });
+      index++;
+      continue;
+    }
+
+    const removedLines: DiffLine[] = [];
+    const addedLines: DiffLine[] = [];
+    while (index < lines.length && lines[index].type !== 'unchanged') {
+      (lines[index].type === 'removed' ? removedLines : addedLines).push(lines[index]);
+      index++;
+    }
+    for (let k = 0; k < Math.max(removedLines.length, addedLines.length); k++) {
+      rows.push({ left: removedLines[k] || null, right: addedLines[k] || null });
+    }
+  }
+
+  return rows;
+};
+
+export const summarizeDiff = (lines: DiffLine[]): DiffSummary => ({
+  added: lines.filter(line => line.type === 'added').length,
+  removed: lines.filter(line => line.type === 'removed').length
+});
+
+/**
+ * Checks a snapshot name. Returns an error message, or null when the name is valid.
+ */
+export const validateRevisionName = (name: unknown): string | null => {
+  if (typeof name !== 'string' || !name.trim()) {
+    return 'Snapshot name is required';
+  }
+  if (name.trim().length > REVISION_NAME_MAX_LENGTH) {
+    return `Snapshot name must be at most ${REVISION_NAME_MAX_LENGTH} characters`;
+  }
+  return null;
+};
+
+/**
+ * Columns to update on the item's table to bring back a revision's content.
+ * Manual sessions keep their notes as a single user message.
+ */
+export const buildRestoreUpdate = (itemType: RevisionItemType, content: string, now = new Date()): Record<string, unknown> =>
+  itemType === 'conversation'
+    ? { messages: [{ role: 'user', content, timestamp: now.toISOString() }], updated_at: now.toISOString() }
+    : { content, updated_at: now.toISOString() };
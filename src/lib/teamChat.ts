@@ -0,0 +1,183 @@
+/**
+ * Team chat helpers: @mentions, #bug / #feature references, threads and unread counts.
+ *
+ * Messages keep mentions as plain "@Display Name" text and references as
+ * "#bug:<id>" / "#feature:<id>" tokens, so the stored content reads naturally
+ * in the API and in exports. The mentioned user ids are also stored on the
+ * message so the database can notify them.
+ */
+
+import { ChatMessage } from '../types';
+
+export const CHAT_MESSAGE_MAX_LENGTH = 1000;
+
+export const CHAT_REFERENCE_TYPES = ['bug', 'feature'] as const;
+export type ChatReferenceType = typeof CHAT_REFERENCE_TYPES[number];
+
+export const CHAT_MEMBER_ROLES = ['owner', 'member'] as const;
+export type ChatMemberRole = typeof CHAT_MEMBER_ROLES[number];
+
+export interface ChatMember {
+  projectId: string;
+  userId: string;
+  displayName: string;
+  role: ChatMemberRole;
+  lastReadAt: Date | null;
+}
+
+export interface ChatReference {
+  type: ChatReferenceType;
+  id: string;
+}
+
+export type ChatMessageSegment =
+  | { kind: 'text'; text: string }
+  | { kind: 'mention'; text: string; userId: string }
+  | { kind: 'reference'; text: string; type: ChatReferenceType; id: string };
+
+export interface ChatThread {
+  root: ChatMessage;
+  replies: ChatMessage[];
+}
+
+// What the composer is completing at the caret: "@ali" or "#log"
+export interface ChatComposerQuery {
+  trigger: '@' | '#';
+  query: string;
+  start: number;
+}
+
+const REFERENCE_PATTERN = /#(bug|feature):([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})/gi;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const formatChatReference = (reference: ChatReference): string => `#${reference.type}:${reference.id}`;
+
+/**
+ * "@Name" for each member, longest names first so "@Ann Lee" wins over "@Ann"
+ */
+const mentionPatterns = (members: ChatMember[]) =>
+  [...members]
+    .sort((a, b) => b.displayName.length - a.displayName.length)
+    .map(member => ({
+      member,
+      pattern: new RegExp(`(^|[^\\w@])@${escapeRegExp(member.displayName)}(?![\\w])`, 'i')
+    }));
+
+/**
+ * Split a message into text, mention and reference segments for rendering
+ */
+export const splitChatMessage = (content: string, members: ChatMember[]): ChatMessageSegment[] => {
+  const patterns = mentionPatterns(members);
+  const segments: ChatMessageSegment[] = [];
+  let rest = content;
+
+  while (rest) {
+    let next: { index: number; length: number; segment: ChatMessageSegment } | null = null;
+
+    for (const { member, pattern } of patterns) {
+      const match = pattern.exec(rest);
+      const index = match ? match.index + match[1].length : -1;
+      if (match && (!next || index < next.index)) {
+        next = { index, length: member.displayName.length + 1, segment: { kind: 'mention', text: `@${member.displayName}`, userId: member.userId } };
+      }
+    }
+
+    REFERENCE_PATTERN.lastIndex = 0;
+    const reference = REFERENCE_PATTERN.exec(rest);
+    if (reference && (!next || reference.index < next.index)) {
+      next = {
+        index: reference.index,
+        length: reference[0].length,
+        segment: { kind: 'reference', text: reference[0], type: reference[1].toLowerCase() as ChatReferenceType, id: reference[2].toLowerCase() }
+      };
+    }
+
+    if (!next) {
+      segments.push({ kind: 'text', text: rest });
+      break;
+    }
+
+    if (next.index > 0) {
+      segments.push({ kind: 'text', text: rest.slice(0, next.index) });
+    }
+    segments.push(next.segment);
+    rest = rest.slice(next.index + next.length);
+  }
+
+  return segments;
+};
+
+/**
+ * User ids of the members a message mentions, in order of first mention
+ */
+export const parseMentions = (content: string, members: ChatMember[]): string[] => [
+  ...new Set(splitChatMessage(content, members)
+    .filter((segment): segment is Extract<ChatMessageSegment, { kind: 'mention' }> => segment.kind === 'mention')
+    .map(segment => segment.userId))
+];
+
+/**
+ * Bugs and features a message references, without duplicates
+ */
+export const parseChatReferences = (content: string): ChatReference[] => {
+  const seen = new Set<string>();
+  const references: ChatReference[] = [];
+
+  REFERENCE_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = REFERENCE_PATTERN.exec(content)) !== null) {
+    const reference = { type: match[1].toLowerCase() as ChatReferenceType, id: match[2].toLowerCase() };
+    const key = formatChatReference(reference);
+    if (!seen.has(key)) {
+      seen.add(key);
+      references.push(reference);
+    }
+  }
+
+  return references;
+};
+
+/**
+ * The "@" or "#" word being typed at the caret, if any
+ */
+export const getChatComposerQuery = (text: string, caret: number): ChatComposerQuery | null => {
+  const before = text.slice(0, caret);
+  const match = /(^|\s)([@#])([^\s@#]*)$/.exec(before);
+  if (!match) return null;
+
+  return {
+    trigger: match[2] as '@' | '#',
+    query: match[3],
+    start: before.length - match[3].length - 1
+  };
+};
+
+/**
+ * Top-level messages, oldest first, each with its replies
+ */
+export const buildChatThreads = (messages: ChatMessage[]): ChatThread[] => {
+  const byTime = [...messages].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  const ids = new Set(byTime.map(message => message.id));
+  const replies = new Map<string, ChatMessage[]>();
+
+  byTime.forEach(message => {
+    if (message.parentId && ids.has(message.parentId)) {
+      replies.set(message.parentId, [...(replies.get(message.parentId) || []), message]);
+    }
+  });
+
+  return byTime
+    .filter(message => !message.parentId || !ids.has(message.parentId))
+    .map(root => ({ root, replies: replies.get(root.id) || [] }));
+};
+
+/**
+ * Messages from others since the member last read the chat
+ */
+export const countUnreadMessages = (messages: ChatMessage[], userId: string, lastReadAt: Date | null): number =>
+  messages.filter(message =>
+    message.userId !== userId &&
+    !message.deletedAt &&
+    (!lastReadAt || new Date(message.timestamp).getTime() > lastReadAt.getTime())
+  ).length;
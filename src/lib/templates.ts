@@ -0,0 +1,388 @@
+/**
+ * Template model: built-in and user templates for documents and feature
+ * files, and the {{variable}} rendering used when an item is created from one.
+ *
+ * Shared by the Netlify API function (so MCP agents can scaffold specs) and
+ * the app's create dialogs. User templates are stored in the templates table,
+ * whose allowed item types mirror the lists below.
+ */
+
+export const TEMPLATE_TARGETS = ['document', 'feature_file'] as const;
+export type TemplateTarget = typeof TEMPLATE_TARGETS[number];
+
+export const TEMPLATE_TARGET_LABELS: Record<TemplateTarget, string> = {
+  document: 'Document',
+  feature_file: 'Feature file'
+};
+
+// Document['type'] and FeatureFile['type']
+export const TEMPLATE_ITEM_TYPES: Record<TemplateTarget, readonly string[]> = {
+  document: ['prd', 'ux-flow', 'feature-list', 'bug-list', 'custom'],
+  feature_file: ['requirement', 'structure', 'implementation', 'testing', 'documentation', 'notes', 'custom']
+};
+
+export const TEMPLATE_ITEM_TYPE_LABELS: Record<string, string> = {
+  prd: 'PRD',
+  'ux-flow': 'UX Flow',
+  'feature-list': 'Feature List',
+  'bug-list': 'Bug List',
+  custom: 'Custom',
+  requirement: 'Requirements',
+  structure: 'Structure',
+  implementation: 'Implementation',
+  testing: 'Testing',
+  documentation: 'Documentation',
+  notes: 'Notes'
+};
+
+export const TEMPLATE_NAME_MAX_LENGTH = 100;
+export const TEMPLATE_CONTENT_MAX_LENGTH = 100_000;
+
+// Built-in template ids are not uuids, so they can never collide with stored ones
+export const BUILT_IN_TEMPLATE_PREFIX = 'builtin:';
+
+export interface TemplateVariable {
+  name: string;
+  description: string;
+  // Only filled in for these targets; other variables are available everywhere
+  targets?: TemplateTarget[];
+}
+
+export const TEMPLATE_VARIABLES: TemplateVariable[] = [
+  { name: 'project.name', description: 'Project name' },
+  { name: 'project.description', description: 'Project description' },
+  { name: 'document.title', description: 'Title of the new document', targets: ['document'] },
+  { name: 'feature.title', description: 'Feature the file belongs to', targets: ['feature_file'] },
+  { name: 'feature.type', description: 'Feature type, e.g. new-feature', targets: ['feature_file'] },
+  { name: 'feature.status', description: 'Feature status, e.g. planned', targets: ['feature_file'] },
+  { name: 'file.name', description: 'Name of the new file', targets: ['feature_file'] },
+  { name: 'date', description: "Today's date (YYYY-MM-DD)" }
+];
+
+export interface TemplateContext {
+  project?: { name?: string; description?: string };
+  document?: { title?: string };
+  feature?: { title?: string; type?: string; status?: string };
+  file?: { name?: string };
+  date?: string;
+}
+
+export interface Template {
+  id: string;
+  projectId: string | null;
+  name: string;
+  description: string;
+  target: TemplateTarget;
+  itemType: string;
+  content: string;
+  builtIn: boolean;
+  createdAt: Date | null;
+  updatedAt: Date | null;
+}
+
+export interface TemplateInput {
+  name: unknown;
+  description?: unknown;
+  target: unknown;
+  itemType: unknown;
+  content: unknown;
+}
+
+const builtIn = (
+  target: TemplateTarget,
+  itemType: string,
+  name: string,
+  description: string,
+  content: string
+): Template => ({
+  id: `${BUILT_IN_TEMPLATE_PREFIX}${target}:${itemType}`,
+  projectId: null,
+  name,
+  description,
+  target,
+  itemType,
+  content,
+  builtIn: true,
+  createdAt: null,
+  updatedAt: null
+});
+
+export const BUILT_IN_TEMPLATES: Template[] = [
+  builtIn('document', 'prd', 'Product Requirements', 'Problem, goals, requirements and success metrics', `# {{document.title}}
+
+**Project:** {{project.name}}
+**Last updated:** {{date}}
+
+## Problem
+
+What problem are we solving, and for whom?
+
+## Goals
+
+-
+
+## Non-goals
+
+-
+
+## Users and use cases
+
+| User | Need | Use case |
+|------|------|----------|
+|      |      |          |
+
+## Requirements
+
+### Must have
+
+-
+
+### Nice to have
+
+-
+
+## Success metrics
+
+-
+
+## Open questions
+
+-
+`),
+  builtIn('document', 'ux-flow', 'UX Flow', 'Entry points, steps, states and edge cases of a flow', `# {{document.title}}
+
+**Project:** {{project.name}}
+
+## Entry points
+
+-
+
+## Flow
+
+1.
+2.
+3.
+
+## States
+
+- **Empty:**
+- **Loading:**
+- **Error:**
+
+## Edge cases
+
+-
+
+## Open questions
+
+-
+`),
+  builtIn('document', 'feature-list', 'Feature List', 'Features grouped by priority', `# {{document.title}}
+
+Features planned for {{project.name}} as of {{date}}.
+
+## Must have
+
+- [ ]
+
+## Should have
+
+- [ ]
+
+## Later
+
+- [ ]
+`),
+  builtIn('document', 'bug-list', 'Bug List', 'Known issues by severity', `# {{document.title}}
+
+Known issues in {{project.name}} as of {{date}}.
+
+| Severity | Bug | Status | Notes |
+|----------|-----|--------|-------|
+| High     |     |        |       |
+`),
+  builtIn('feature_file', 'requirement', 'Requirements', 'User stories and acceptance criteria', `# {{feature.title}}: Requirements
+
+## User stories
+
+- As a ..., I want ..., so that ...
+
+## Acceptance criteria
+
+- [ ]
+
+## Out of scope
+
+-
+`),
+  builtIn('feature_file', 'structure', 'Structure', 'Components, data model and API surface', `# {{feature.title}}: Structure
+
+## Components
+
+-
+
+## Data model
+
+\`\`\`typescript
+\`\`\`
+
+## API
+
+| Method | Path | Purpose |
+|--------|------|---------|
+|        |      |         |
+`),
+  builtIn('feature_file', 'implementation', 'Implementation Plan', 'Approach, steps and risks', `# {{feature.title}}: Implementation
+
+## Approach
+
+## Steps
+
+1.
+
+## Files to change
+
+-
+
+## Risks
+
+-
+`),
+  builtIn('feature_file', 'testing', 'Test Plan', 'Scenarios, edge cases and manual checks', `# {{feature.title}}: Testing
+
+## Scenarios
+
+| Scenario | Steps | Expected |
+|----------|-------|----------|
+|          |       |          |
+
+## Edge cases
+
+-
+
+## Manual checks
+
+- [ ]
+`),
+  builtIn('feature_file', 'documentation', 'User Guide', 'How to use the feature', `# {{feature.title}}
+
+## Overview
+
+## How to use it
+
+1.
+
+## FAQ
+`),
+  builtIn('feature_file', 'notes', 'Notes', 'Dated notes and decisions', `# {{feature.title}}: Notes
+
+## {{date}}
+
+-
+
+## Decisions
+
+-
+`)
+];
+
+// Files every new feature starts with
+export const DEFAULT_FEATURE_FILES: Array<{ name: string; type: string }> = [
+  { name: 'requirements.md', type: 'requirement' },
+  { name: 'structure.md', type: 'structure' },
+  { name: 'implementation.md', type: 'implementation' }
+];
+
+export const isTemplateTarget = (value: unknown): value is TemplateTarget =>
+  typeof value === 'string' && (TEMPLATE_TARGETS as readonly string[]).includes(value);
+
+export const isTemplateItemType = (target: TemplateTarget, value: unknown): value is string =>
+  typeof value === 'string' && TEMPLATE_ITEM_TYPES[target].includes(value);
+
+export const isBuiltInTemplateId = (id: string): boolean => id.startsWith(BUILT_IN_TEMPLATE_PREFIX);
+
+export const getBuiltInTemplate = (id: string): Template | null =>
+  BUILT_IN_TEMPLATES.find(template => template.id === id) || null;
+
+export const findTemplate = (userTemplates: Template[], id: string): Template | null =>
+  getBuiltInTemplate(id) || userTemplates.find(template => template.id === id) || null;
+
+/**
+ * The built-in template a new item of this type starts from, if any
+ */
+export const getDefaultTemplate = (target: TemplateTarget, itemType: string): Template | null =>
+  BUILT_IN_TEMPLATES.find(template => template.target === target && template.itemType === itemType) || null;
+
+/**
+ * Templates that can be used for an item type: built-ins first, then the
+ * user's own by name
+ */
+export const getTemplatesFor = (userTemplates: Template[], target: TemplateTarget, itemType: string): Template[] => [
+  ...BUILT_IN_TEMPLATES.filter(template => template.target === target && template.itemType === itemType),
+  ...userTemplates
+    .filter(template => template.target === target && template.itemType === itemType)
+    .sort((a, b) => a.name.localeCompare(b.name))
+];
+
+/**
+ * Checks a template before saving. Returns an error message, or null when it is valid.
+ */
+export const validateTemplate = (input: TemplateInput): string | null => {
+  if (typeof input.name !== 'string' || !input.name.trim()) {
+    return 'Template name is required';
+  }
+  if (input.name.trim().length > TEMPLATE_NAME_MAX_LENGTH) {
+    return `Template name must be at most ${TEMPLATE_NAME_MAX_LENGTH} characters`;
+  }
+  if (!isTemplateTarget(input.target)) {
+    return `Invalid target. Must be one of: ${TEMPLATE_TARGETS.join(', ')}`;
+  }
+  if (!isTemplateItemType(input.target, input.itemType)) {
+    return `Invalid ${TEMPLATE_TARGET_LABELS[input.target].toLowerCase()} type. Must be one of: ${TEMPLATE_ITEM_TYPES[input.target].join(', ')}`;
+  }
+  if (input.description !== undefined && typeof input.description !== 'string') {
+    return 'Description must be text';
+  }
+  if (typeof input.content !== 'string') {
+    return 'Template content is required';
+  }
+  if (input.content.length > TEMPLATE_CONTENT_MAX_LENGTH) {
+    return `Template content must be at most ${TEMPLATE_CONTENT_MAX_LENGTH} characters`;
+  }
+  return null;
+};
+
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z]+(?:\.[a-zA-Z]+)?)\s*\}\}/g;
+
+/**
+ * Variable names a template uses, in order of first use
+ */
+export const extractTemplateVariables = (content: string): string[] =>
+  [...new Set([...content.matchAll(VARIABLE_PATTERN)].map(match => match[1]))];
+
+/**
+ * Variables a template uses that are never filled in
+ */
+export const findUnknownVariables = (content: string): string[] =>
+  extractTemplateVariables(content).filter(name => !TEMPLATE_VARIABLES.some(variable => variable.name === name));
+
+const resolveVariable = (context: TemplateContext, name: string): string | undefined => {
+  const [head, key] = name.split('.');
+  const value = (context as Record<string, unknown>)[head];
+  if (key === undefined) return typeof value === 'string' ? value : undefined;
+  if (!value || typeof value !== 'object') return undefined;
+  const nested = (value as Record<string, unknown>)[key];
+  return typeof nested === 'string' ? nested : undefined;
+};
+
+/**
+ * Fills in a template's variables. Variables without a value are left as
+ * written so they are easy to spot and fill in by hand.
+ */
+export const renderTemplate = (content: string, context: TemplateContext): string =>
+  content.replace(VARIABLE_PATTERN, (match, name: string) => resolveVariable(context, name) ?? match);
+
+export const formatTemplateDate = (date: Date): string => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
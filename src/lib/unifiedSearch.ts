@@ -0,0 +1,232 @@
+/**
+ * Cross-entity search ranking for RefBase.
+ *
+ * Used by the /api/search endpoint, which the in-app command palette queries, to
+ * rank conversations, bugs, features, feature files, documents and tasks the same way.
+ */
+
+export const SEARCH_ENTITY_TYPES = ['conversation', 'bug', 'feature', 'feature_file', 'document', 'task'] as const;
+export type SearchEntityType = typeof SEARCH_ENTITY_TYPES[number];
+
+export const SEARCH_ENTITY_LABELS: Record<SearchEntityType, string> = {
+  conversation: 'Sessions',
+  bug: 'Bugs',
+  feature: 'Features',
+  feature_file: 'Feature Files',
+  document: 'Documents',
+  task: 'Tasks'
+};
+
+/**
+ * A searchable text field with a relevance weight
+ */
+export interface SearchField {
+  text: string | null | undefined;
+  weight: number;
+}
+
+/**
+ * Normalized record that can be ranked regardless of its source table
+ */
+export interface SearchableItem {
+  type: SearchEntityType;
+  id: string;
+  projectId: string | null;
+  title: string;
+  fields: SearchField[];
+  parentId?: string; // e.g. the feature a feature file belongs to
+  updatedAt?: string;
+}
+
+export interface SearchResult {
+  type: SearchEntityType;
+  id: string;
+  projectId: string | null;
+  title: string;
+  snippet: string;
+  score: number;
+  parentId?: string;
+  updatedAt?: string;
+}
+
+export type SearchFacets = Record<SearchEntityType, number>;
+
+export interface SearchOptions {
+  types?: SearchEntityType[];
+  projectId?: string | null;
+  limit?: number;
+}
+
+export interface SearchResponse {
+  results: SearchResult[];
+  facets: SearchFacets;
+  total: number;
+}
+
+/**
+ * Columns /api/search matches each query term against before ranking. They cover every
+ * field the ranking reads; tags_text and files_changed_text are computed columns that
+ * flatten the conversation arrays so they can be matched like text
+ */
+export const SEARCH_FILTER_COLUMNS: Record<SearchEntityType, string[]> = {
+  conversation: ['title', 'implementation_summary', 'tags_text', 'files_changed_text'],
+  bug: ['title', 'description', 'content', 'solution'],
+  feature: ['title', 'description', 'implementation', 'content'],
+  feature_file: ['name', 'content'],
+  document: ['title', 'content'],
+  task: ['title', 'description']
+};
+
+const TITLE_WEIGHT = 10;
+const SNIPPET_RADIUS = 60;
+
+export const isSearchEntityType = (value: unknown): value is SearchEntityType =>
+  typeof value === 'string' && (SEARCH_ENTITY_TYPES as readonly string[]).includes(value);
+
+export const createEmptyFacets = (): SearchFacets => ({
+  conversation: 0,
+  bug: 0,
+  feature: 0,
+  feature_file: 0,
+  document: 0,
+  task: 0
+});
+
+/**
+ * Splits a query into lowercase terms, keeping "quoted phrases" together
+ */
+export const tokenizeQuery = (query: string): string[] => {
+  const terms: string[] = [];
+  const pattern = /"([^"]+)"|(\S+)/g;
+
+  for (const match of query.toLowerCase().matchAll(pattern)) {
+    const term = (match[1] ?? match[2]).trim();
+    if (term) {
+      terms.push(term);
+    }
+  }
+
+  return terms;
+};
+
+/**
+ * Builds a PostgREST `or` filter matching a term in any of the columns.
+ * The term must already be stripped of filter syntax characters.
+ */
+export const buildTermFilter = (term: string, columns: string[]): string =>
+  columns.map(column => `${column}.ilike.%${term}%`).join(',');
+
+const buildSnippet = (text: string, term: string): string => {
+  const index = text.toLowerCase().indexOf(term);
+  if (index === -1) {
+    return text.slice(0, SNIPPET_RADIUS * 2).trim();
+  }
+
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(text.length, index + term.length + SNIPPET_RADIUS);
+  const snippet = text.slice(start, end).replace(/\s+/g, ' ').trim();
+
+  return `${start > 0 ? '…' : ''}${snippet}${end < text.length ? '…' : ''}`;
+};
+
+/**
+ * Scores an item against query terms. Every term must appear in the title or
+ * one of the fields; returns null when the item does not match.
+ */
+export const scoreItem = (item: SearchableItem, terms: string[]): { score: number; snippet: string } | null => {
+  if (terms.length === 0) {
+    return null;
+  }
+
+  const title = item.title.toLowerCase();
+  const fields = item.fields
+    .filter(field => field.text)
+    .map(field => ({ text: field.text as string, lower: (field.text as string).toLowerCase(), weight: field.weight }));
+
+  let score = 0;
+  let snippet = '';
+
+  for (const term of terms) {
+    let termScore = 0;
+
+    if (title.includes(term)) {
+      termScore += TITLE_WEIGHT;
+      if (title.startsWith(term) || title.includes(` ${term}`)) {
+        termScore += TITLE_WEIGHT / 2;
+      }
+    }
+
+    for (const field of fields) {
+      if (field.lower.includes(term)) {
+        termScore += field.weight;
+        if (!snippet) {
+          snippet = buildSnippet(field.text, term);
+        }
+      }
+    }
+
+    if (termScore === 0) {
+      return null;
+    }
+
+    score += termScore;
+  }
+
+  if (title === terms.join(' ')) {
+    score += TITLE_WEIGHT;
+  }
+
+  return { score, snippet };
+};
+
+/**
+ * Ranks items against a query. Facet counts cover every match in scope,
+ * before the type filter, so the UI can show how many results each type has.
+ */
+export const searchItems = (items: SearchableItem[], query: string, options: SearchOptions = {}): SearchResponse => {
+  const terms = tokenizeQuery(query);
+  const facets = createEmptyFacets();
+  const matches: SearchResult[] = [];
+
+  if (terms.length === 0) {
+    return { results: [], facets, total: 0 };
+  }
+
+  for (const item of items) {
+    if (options.projectId && item.projectId !== options.projectId) {
+      continue;
+    }
+
+    const match = scoreItem(item, terms);
+    if (!match) {
+      continue;
+    }
+
+    facets[item.type] += 1;
+
+    if (options.types && options.types.length > 0 && !options.types.includes(item.type)) {
+      continue;
+    }
+
+    matches.push({
+      type: item.type,
+      id: item.id,
+      projectId: item.projectId,
+      title: item.title,
+      snippet: match.snippet,
+      score: match.score,
+      parentId: item.parentId,
+      updatedAt: item.updatedAt
+    });
+  }
+
+  matches.sort((a, b) =>
+    b.score - a.score || (b.updatedAt || '').localeCompare(a.updatedAt || '')
+  );
+
+  return {
+    results: options.limit ? matches.slice(0, options.limit) : matches,
+    facets,
+    total: matches.length
+  };
+};
@@ -0,0 +1,219 @@
+/**
+ * Minimal ZIP archive support for project exports.
+ *
+ * Writes uncompressed (stored) archives; reads stored and deflated entries, which covers
+ * archives re-packed by `zip`, Finder or Explorer. ZIP64 and encrypted archives are not supported.
+ */
+
+export interface ZipEntry {
+  // Path inside the archive, with forward slashes
+  path: string;
+  data: Uint8Array | string;
+  modifiedAt?: Date;
+}
+
+export class ZipError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipError';
+  }
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const MAX_COMMENT_LENGTH = 0xffff;
+const VERSION = 20;
+// Bit 11: names are UTF-8
+const UTF8_FLAG = 0x0800;
+const ENCRYPTED_FLAG = 0x0001;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+
+let crcTable: Uint32Array | null = null;
+
+const getCrcTable = () => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  return crcTable;
+};
+
+export const crc32 = (data: Uint8Array): number => {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS time and date fields; the format cannot represent years before 1980
+const toDosDateTime = (date: Date) => {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+};
+
+const encodeText = (text: string) => new TextEncoder().encode(text);
+
+/**
+ * Build a ZIP archive holding the entries uncompressed
+ */
+export const createZip = (entries: ZipEntry[]): Uint8Array => {
+  const files = entries.map(entry => {
+    const name = encodeText(entry.path.replace(/^\/+/, ''));
+    const data = typeof entry.data === 'string' ? encodeText(entry.data) : entry.data;
+    return { name, data, crc: crc32(data), ...toDosDateTime(entry.modifiedAt || new Date()) };
+  });
+
+  const localSize = files.reduce((sum, file) => sum + LOCAL_HEADER_SIZE + file.name.length + file.data.length, 0);
+  const centralSize = files.reduce((sum, file) => sum + CENTRAL_HEADER_SIZE + file.name.length, 0);
+  if (files.length > 0xffff || localSize + centralSize > 0xffffffff) {
+    throw new ZipError('The archive is too large');
+  }
+
+  const output = new Uint8Array(localSize + centralSize + END_OF_CENTRAL_DIRECTORY_SIZE);
+  const view = new DataView(output.buffer);
+  const offsets: number[] = [];
+  let position = 0;
+
+  files.forEach(file => {
+    offsets.push(position);
+    view.setUint32(position, LOCAL_HEADER_SIGNATURE, true);
+    view.setUint16(position + 4, VERSION, true);
+    view.setUint16(position + 6, UTF8_FLAG, true);
+    view.setUint16(position + 8, METHOD_STORE, true);
+    view.setUint16(position + 10, file.time, true);
+    view.setUint16(position + 12, file.date, true);
+    view.setUint32(position + 14, file.crc, true);
+    view.setUint32(position + 18, file.data.length, true);
+    view.setUint32(position + 22, file.data.length, true);
+    view.setUint16(position + 26, file.name.length, true);
+    view.setUint16(position + 28, 0, true);
+    output.set(file.name, position + LOCAL_HEADER_SIZE);
+    output.set(file.data, position + LOCAL_HEADER_SIZE + file.name.length);
+    position += LOCAL_HEADER_SIZE + file.name.length + file.data.length;
+  });
+
+  const centralOffset = position;
+  files.forEach((file, index) => {
+    view.setUint32(position, CENTRAL_HEADER_SIGNATURE, true);
+    view.setUint16(position + 4, VERSION, true);
+    view.setUint16(position + 6, VERSION, true);
+    view.setUint16(position + 8, UTF8_FLAG, true);
+    view.setUint16(position + 10, METHOD_STORE, true);
+    view.setUint16(position + 12, file.time, true);
+    view.setUint16(position + 14, file.date, true);
+    view.setUint32(position + 16, file.crc, true);
+    view.setUint32(position + 20, file.data.length, true);
+    view.setUint32(position + 24, file.data.length, true);
+    view.setUint16(position + 28, file.name.length, true);
+    // Extra field, comment, disk number and attributes stay zero
+    view.setUint32(position + 42, offsets[index], true);
+    output.set(file.name, position + CENTRAL_HEADER_SIZE);
+    position += CENTRAL_HEADER_SIZE + file.name.length;
+  });
+
+  view.setUint32(position, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+  view.setUint16(position + 8, files.length, true);
+  view.setUint16(position + 10, files.length, true);
+  view.setUint32(position + 12, position - centralOffset, true);
+  view.setUint32(position + 16, centralOffset, true);
+
+  return output;
+};
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new ZipError('This browser cannot read compressed archives');
+  }
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const findEndOfCentralDirectory = (view: DataView) => {
+  const last = view.byteLength - END_OF_CENTRAL_DIRECTORY_SIZE;
+  for (let position = last; position >= Math.max(0, last - MAX_COMMENT_LENGTH); position--) {
+    if (view.getUint32(position, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) return position;
+  }
+  throw new ZipError('Not a ZIP archive');
+};
+
+/**
+ * Read every file in a ZIP archive, keyed by path. Directory entries are skipped.
+ */
+export const readZip = async (archive: Uint8Array): Promise<Map<string, Uint8Array>> => {
+  const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+  if (archive.byteLength < END_OF_CENTRAL_DIRECTORY_SIZE) {
+    throw new ZipError('Not a ZIP archive');
+  }
+
+  const end = findEndOfCentralDirectory(view);
+  const count = view.getUint16(end + 10, true);
+  let position = view.getUint32(end + 16, true);
+  if (count === 0xffff || position === 0xffffffff) {
+    throw new ZipError('ZIP64 archives are not supported');
+  }
+
+  const decoder = new TextDecoder();
+  const files = new Map<string, Uint8Array>();
+
+  for (let index = 0; index < count; index++) {
+    if (position + CENTRAL_HEADER_SIZE > archive.byteLength || view.getUint32(position, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new ZipError('The archive is damaged');
+    }
+    const flags = view.getUint16(position + 8, true);
+    const method = view.getUint16(position + 10, true);
+    const expectedCrc = view.getUint32(position + 16, true);
+    const compressedSize = view.getUint32(position + 20, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const extraLength = view.getUint16(position + 30, true);
+    const commentLength = view.getUint16(position + 32, true);
+    const localOffset = view.getUint32(position + 42, true);
+    const path = decoder.decode(archive.subarray(position + CENTRAL_HEADER_SIZE, position + CENTRAL_HEADER_SIZE + nameLength));
+    position += CENTRAL_HEADER_SIZE + nameLength + extraLength + commentLength;
+
+    if (path.endsWith('/')) continue;
+    if (flags & ENCRYPTED_FLAG) {
+      throw new ZipError(`${path} is encrypted`);
+    }
+    if (localOffset + LOCAL_HEADER_SIZE > archive.byteLength || view.getUint32(localOffset, true) !== LOCAL_HEADER_SIGNATURE) {
+      throw new ZipError('The archive is damaged');
+    }
+
+    // The local header can carry a different extra field than the central one
+    const dataStart = localOffset + LOCAL_HEADER_SIZE + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    if (dataStart + compressedSize > archive.byteLength) {
+      throw new ZipError('The archive is damaged');
+    }
+    const data = archive.subarray(dataStart, dataStart + compressedSize);
+
+    let contents: Uint8Array;
+    if (method === METHOD_STORE) {
+      contents = data;
+    } else if (method === METHOD_DEFLATE) {
+      contents = await inflateRaw(data);
+    } else {
+      throw new ZipError(`${path} uses an unsupported compression method`);
+    }
+    if (crc32(contents) !== expectedCrc) {
+      throw new ZipError(`${path} is damaged`);
+    }
+    files.set(path, contents);
+  }
+
+  return files;
+};
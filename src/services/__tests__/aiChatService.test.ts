@@ -0,0 +1,89 @@
+import { TextDecoder, TextEncoder } from 'util';
+import { ApiConfig } from '../../types';
+import { parseChatStreamEvents, sendChatCompletion, streamChatCompletion } from '../aiChatService';
+
+// jsdom does not provide TextDecoder, which the stream reader needs
+Object.assign(global, { TextDecoder });
+
+const config: ApiConfig = { provider: 'custom', apiKey: 'sk-test', baseUrl: 'https://llm.example.com/v1', model: 'stub', useDefault: false };
+
+// Minimal fetch Response for an OpenAI-compatible endpoint, streaming the given chunks when there are any
+const mockResponse = (status: number, contentType: string, body: string | string[]) => {
+  const chunks = Array.isArray(body) ? body.map(chunk => new TextEncoder().encode(chunk)) : [];
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    headers: { get: (name: string) => (name.toLowerCase() === 'content-type' ? contentType : null) },
+    body: Array.isArray(body)
+      ? { getReader: () => ({ read: async () => (chunks.length > 0 ? { value: chunks.shift(), done: false } : { value: undefined, done: true }) }) }
+      : null,
+    json: async () => JSON.parse(body as string),
+    text: async () => body as string
+  } as unknown as Response;
+};
+
+describe('aiChatService', () => {
+  it('should send a completion request to the configured endpoint', async () => {
+    const request = jest.fn().mockResolvedValue(
+      mockResponse(200, 'application/json', JSON.stringify({ model: 'stub-1', choices: [{ message: { content: 'Hi there' } }] }))
+    );
+
+    const response = await sendChatCompletion(config, [{ role: 'user', content: 'Hi' }], { json: true, fetch: request });
+
+    expect(response).toEqual({ content: 'Hi there', model: 'stub-1', provider: 'custom' });
+    const [url, init] = request.mock.calls[0];
+    expect(url).toBe('https://llm.example.com/v1/chat/completions');
+    expect(init.headers.Authorization).toBe('Bearer sk-test');
+    expect(JSON.parse(init.body)).toEqual(expect.objectContaining({ model: 'stub', response_format: { type: 'json_object' } }));
+  });
+
+  it('should stream deltas as they arrive, across chunk boundaries', async () => {
+    const request = jest.fn().mockResolvedValue(mockResponse(200, 'text/event-stream', [
+      ': keep-alive\n\ndata: {"model":"stub-1","choices":[{"delta":{"content":"Hel"}}]}\n\ndata: {"choi',
+      'ces":[{"delta":{"content":"lo"}}]}\n\ndata: [DONE]\n\n'
+    ]));
+    const deltas: string[] = [];
+
+    const response = await streamChatCompletion(config, [{ role: 'user', content: 'Hi' }], delta => deltas.push(delta), { fetch: request });
+
+    expect(deltas).toEqual(['Hel', 'lo']);
+    expect(response).toEqual({ content: 'Hello', model: 'stub-1', provider: 'custom' });
+    expect(JSON.parse(request.mock.calls[0][1].body).stream).toBe(true);
+  });
+
+  it('should fall back to a JSON body when the endpoint does not stream', async () => {
+    const request = jest.fn().mockResolvedValue(
+      mockResponse(200, 'application/json', JSON.stringify({ choices: [{ message: { content: 'Whole answer' } }] }))
+    );
+    const onDelta = jest.fn();
+
+    const response = await streamChatCompletion(config, [{ role: 'user', content: 'Hi' }], onDelta, { fetch: request });
+
+    expect(onDelta).toHaveBeenCalledWith('Whole answer');
+    expect(response.content).toBe('Whole answer');
+  });
+
+  it('should report provider errors with the status', async () => {
+    const request = jest.fn().mockResolvedValue(mockResponse(429, 'application/json', '{"error":"rate limited"}'));
+
+    await expect(sendChatCompletion(config, [{ role: 'user', content: 'Hi' }], { fetch: request }))
+      .rejects.toThrow('AI request failed with status 429: {"error":"rate limited"}');
+  });
+
+  it('should refuse to call without a provider', async () => {
+    const request = jest.fn();
+
+    await expect(sendChatCompletion({ provider: 'default', useDefault: true }, [], { fetch: request }))
+      .rejects.toThrow('No AI provider configured');
+    expect(request).not.toHaveBeenCalled();
+  });
+
+  it('should keep incomplete stream lines for the next chunk', () => {
+    expect(parseChatStreamEvents('data: {"choices":[{"delta":{"content":"a"}}]}\ndata: {"choi')).toEqual({
+      deltas: ['a'],
+      model: undefined,
+      done: false,
+      rest: 'data: {"choi'
+    });
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * AI chat service
+ * Sends chat completion requests, streamed or not, to the provider configured in ApiKeyContext (OpenAI, OpenRouter or a custom OpenAI-compatible endpoint)
+ */
+
+import { ApiConfig } from '../types';
+
+export interface AiChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface AiChatOptions {
+  temperature?: number;
+  maxTokens?: number;
+  // Ask for a JSON object response (supported by OpenAI and most OpenRouter models)
+  json?: boolean;
+  signal?: AbortSignal;
+  // Replaces the global fetch, e.g. to point tests at a stub
+  fetch?: typeof fetch;
+}
+
+export interface AiChatResponse {
+  content: string;
+  model: string;
+  provider: ApiConfig['provider'];
+}
+
+const DEFAULT_MODELS: Partial<Record<ApiConfig['provider'], string>> = {
+  openai: 'gpt-4o-mini',
+  openrouter: 'openai/gpt-4o-mini'
+};
+
+/**
+ * Whether the config has a key and endpoint the browser can call.
+ * The default mode has no AI provider behind it.
+ */
+export const isAiConfigured = (config: ApiConfig): boolean =>
+  !config.useDefault && !!config.apiKey && !!config.baseUrl;
+
+export const getAiModel = (config: ApiConfig): string =>
+  config.model || DEFAULT_MODELS[config.provider] || 'gpt-4o-mini';
+
+const postChatCompletion = async (
+  config: ApiConfig,
+  messages: AiChatMessage[],
+  options: AiChatOptions,
+  stream: boolean
+): Promise<{ response: Response; model: string }> => {
+  if (!isAiConfigured(config)) {
+    throw new Error('No AI provider configured. Add an OpenAI, OpenRouter or custom provider key in Settings → API Storage.');
+  }
+
+  const model = getAiModel(config);
+  const request = options.fetch || fetch;
+  const response = await request(`${config.baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${config.apiKey}`,
+      ...(config.provider === 'openrouter' ? { 'X-Title': 'RefBase' } : {})
+    },
+    body: JSON.stringify({
+      model,
+      messages,
+      temperature: options.temperature ?? 0.2,
+      ...(options.maxTokens ? { max_tokens: options.maxTokens } : {}),
+      ...(options.json ? { response_format: { type: 'json_object' } } : {}),
+      ...(stream ? { stream: true } : {})
+    }),
+    signal: options.signal
+  });
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new Error(`AI request failed with status ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+  }
+
+  return { response, model };
+};
+
+type ChatCompletionResult = { model?: string; choices?: { message?: { content?: string } }[] };
+
+/**
+ * Request a chat completion from an OpenAI-compatible /chat/completions endpoint
+ */
+export const sendChatCompletion = async (
+  config: ApiConfig,
+  messages: AiChatMessage[],
+  options: AiChatOptions = {}
+): Promise<AiChatResponse> => {
+  const { response, model } = await postChatCompletion(config, messages, options, false);
+
+  const result = await response.json() as ChatCompletionResult;
+  const content = result.choices?.[0]?.message?.content;
+  if (!content) {
+    throw new Error('AI provider returned an empty response');
+  }
+
+  return { content, model: result.model || model, provider: config.provider };
+};
+
+/**
+ * Reads complete server-sent events from a stream buffer. Incomplete lines are
+ * returned as `rest` to be prefixed to the next chunk.
+ */
+export const parseChatStreamEvents = (buffer: string): { deltas: string[]; model?: string; done: boolean; rest: string } => {
+  const lines = buffer.split('\n');
+  const rest = lines.pop() ?? '';
+  const deltas: string[] = [];
+  let model: string | undefined;
+  let done = false;
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+    // Blank lines separate events; lines starting with ':' are keep-alive comments
+    if (!trimmed.startsWith('data:')) continue;
+
+    const data = trimmed.slice(5).trim();
+    if (data === '[DONE]') {
+      done = true;
+      continue;
+    }
+
+    try {
+      const event = JSON.parse(data) as { model?: string; choices?: { delta?: { content?: string } }[] };
+      model = event.model || model;
+      const delta = event.choices?.[0]?.delta?.content;
+      if (delta) deltas.push(delta);
+    } catch {
+      // Ignore events that are not JSON
+    }
+  }
+
+  return { deltas, model, done, rest };
+};
+
+/**
+ * Stream a chat completion, calling onDelta with each piece of text as it arrives.
+ * Endpoints that ignore `stream` and answer with a single JSON body are handled too.
+ */
+export const streamChatCompletion = async (
+  config: ApiConfig,
+  messages: AiChatMessage[],
+  onDelta: (delta: string) => void,
+  options: AiChatOptions = {}
+): Promise<AiChatResponse> => {
+  const { response, model } = await postChatCompletion(config, messages, options, true);
+
+  if (!response.body || !(response.headers.get('content-type') || '').includes('text/event-stream')) {
+    const result = await response.json() as ChatCompletionResult;
+    const content = result.choices?.[0]?.message?.content;
+    if (!content) {
+      throw new Error('AI provider returned an empty response');
+    }
+    onDelta(content);
+    return { content, model: result.model || model, provider: config.provider };
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let content = '';
+  let streamedModel: string | undefined;
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    const events = parseChatStreamEvents(done ? `${buffer}\n` : buffer);
+    buffer = events.rest;
+    streamedModel = events.model || streamedModel;
+    events.deltas.forEach(delta => {
+      content += delta;
+      onDelta(delta);
+    });
+
+    if (done || events.done) break;
+  }
+
+  if (!content) {
+    throw new Error('AI provider returned an empty response');
+  }
+
+  return { content, model: streamedModel || model, provider: config.provider };
+};
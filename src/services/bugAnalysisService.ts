@@ -0,0 +1,94 @@
+/**
+ * Bug analysis service
+ * Gathers a project's bugs and conversations for the Analysis sub-tab and asks the configured AI provider for a hypothesis
+ */
+
+import { supabase } from '../lib/supabase';
+import { ApiConfig, Bug } from '../types';
+import { LearningConversation } from '../types/dashboard';
+import {
+  BugAnalysis,
+  buildBugAnalysisPrompt,
+  extractBugSignals,
+  findRelatedConversations,
+  findSimilarBugs,
+  parseBugAnalysisResponse
+} from '../lib/bugAnalysis';
+import { formatBugRow } from './projectDataService';
+import { isAiConfigured, sendChatCompletion } from './aiChatService';
+
+// Enough history to find matches without loading every bug of a large project
+const HISTORY_LIMIT = 500;
+
+const fetchAnalysisHistory = async (projectId: string): Promise<{ bugs: Bug[]; conversations: LearningConversation[] }> => {
+  const [bugsResult, conversationsResult] = await Promise.all([
+    supabase
+      .from('bugs')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('updated_at', { ascending: false })
+      .limit(HISTORY_LIMIT),
+    supabase
+      .from('conversations')
+      .select('id, title, implementation_summary, tags, files_changed, created_at')
+      .eq('project_id', projectId)
+      .order('created_at', { ascending: false })
+      .limit(HISTORY_LIMIT)
+  ]);
+
+  if (bugsResult.error) {
+    throw new Error(`Failed to load bugs: ${bugsResult.error.message}`);
+  }
+  if (conversationsResult.error) {
+    throw new Error(`Failed to load conversations: ${conversationsResult.error.message}`);
+  }
+
+  return {
+    bugs: (bugsResult.data || []).map(formatBugRow),
+    conversations: (conversationsResult.data || []).map(row => ({
+      id: row.id,
+      title: row.title,
+      summary: row.implementation_summary || '',
+      tags: row.tags || [],
+      filesChanged: row.files_changed || [],
+      createdAt: new Date(row.created_at)
+    }))
+  };
+};
+
+/**
+ * Analyse a bug against the project's history. The hypothesis is only added when an AI provider is configured;
+ * a failed AI request is recorded on the result instead of failing the analysis.
+ */
+export const analyzeBug = async (bug: Bug, apiConfig: ApiConfig): Promise<BugAnalysis> => {
+  const history = await fetchAnalysisHistory(bug.projectId);
+
+  const signals = extractBugSignals(bug);
+  const similarBugs = findSimilarBugs(bug, history.bugs);
+  const relatedConversations = findRelatedConversations(bug, history.conversations);
+
+  const analysis: BugAnalysis = {
+    analyzedAt: new Date().toISOString(),
+    signals,
+    similarBugs,
+    relatedConversations
+  };
+
+  if (!isAiConfigured(apiConfig)) {
+    return analysis;
+  }
+
+  try {
+    const response = await sendChatCompletion(
+      apiConfig,
+      buildBugAnalysisPrompt(bug, signals, similarBugs, relatedConversations),
+      { json: true, maxTokens: 1200 }
+    );
+    analysis.hypothesis = parseBugAnalysisResponse(response.content, response.model);
+  } catch (error) {
+    console.error('Error generating bug hypothesis:', error);
+    analysis.hypothesisError = error instanceof Error ? error.message : 'AI request failed';
+  }
+
+  return analysis;
+};
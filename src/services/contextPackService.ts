@@ -0,0 +1,80 @@
+/**
+ * Context pack service
+ * Loads the project's bugs, features, conversations and implementation guides that a "Copy for AI" pack is built from
+ */
+
+import { supabase } from '../lib/supabase';
+import {
+  CONTEXT_PACK_COLUMNS,
+  CONTEXT_PACK_TABLES,
+  ContextPackFocusType,
+  ContextPackInput
+} from '../lib/contextPack';
+
+// Enough recent items to find related ones without loading the whole project
+const CONTEXT_PACK_ROW_LIMIT = 300;
+
+const fetchRecentRows = async (type: ContextPackFocusType, projectId: string) => {
+  const { data, error } = await supabase
+    .from(CONTEXT_PACK_TABLES[type])
+    .select(CONTEXT_PACK_COLUMNS[type])
+    .eq('project_id', projectId)
+    .order('updated_at', { ascending: false })
+    .limit(CONTEXT_PACK_ROW_LIMIT);
+
+  if (error) {
+    throw new Error(`Failed to load ${CONTEXT_PACK_TABLES[type]}: ${error.message}`);
+  }
+
+  return (data || []) as unknown as Array<{ id: string }>;
+};
+
+/**
+ * The stored rows a pack for the focus item is built from
+ */
+export const fetchContextPackInput = async (
+  projectId: string,
+  focus: { type: ContextPackFocusType; id: string }
+): Promise<ContextPackInput> => {
+  const [projectResult, bugs, features, conversations, summariesResult] = await Promise.all([
+    supabase.from('projects').select('name, description, tech_stack').eq('id', projectId).maybeSingle(),
+    fetchRecentRows('bug', projectId),
+    fetchRecentRows('feature', projectId),
+    fetchRecentRows('conversation', projectId),
+    supabase.from('feature_data').select('feature_id, metadata').eq('project_id', projectId).eq('data_type', 'ai_summary')
+  ]);
+
+  if (projectResult.error) {
+    throw new Error(`Failed to load project: ${projectResult.error.message}`);
+  }
+  if (summariesResult.error) {
+    throw new Error(`Failed to load implementation guides: ${summariesResult.error.message}`);
+  }
+
+  const rows: Record<ContextPackFocusType, Array<{ id: string }>> = { bug: bugs, feature: features, conversation: conversations };
+
+  // The focus item may be older than the recent rows
+  if (!rows[focus.type].some(row => row.id === focus.id)) {
+    const { data, error } = await supabase
+      .from(CONTEXT_PACK_TABLES[focus.type])
+      .select(CONTEXT_PACK_COLUMNS[focus.type])
+      .eq('id', focus.id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load ${focus.type}: ${error.message}`);
+    }
+    if (data) {
+      rows[focus.type].push(data as unknown as { id: string });
+    }
+  }
+
+  return {
+    project: projectResult.data,
+    focus,
+    bugs: rows.bug as ContextPackInput['bugs'],
+    features: rows.feature as ContextPackInput['features'],
+    conversations: rows.conversation as ContextPackInput['conversations'],
+    featureSummaries: summariesResult.data || []
+  };
+};
@@ -0,0 +1,77 @@
+/**
+ * Conversation import service
+ * Saves conversations parsed from exported transcripts to the conversations table
+ */
+
+import { supabase } from '../lib/supabase';
+import { Project } from '../types';
+import { buildConversationDetails } from '../lib/conversationDetails';
+import { ImportedConversation } from '../lib/conversationImport';
+
+// Rows per insert; ChatGPT exports can hold hundreds of conversations
+const IMPORT_BATCH_SIZE = 25;
+
+const buildImportRow = (conversation: ImportedConversation, project: Project, userId: string) => {
+  const details = buildConversationDetails(conversation.messages);
+  const createdAt = conversation.createdAt || new Date().toISOString();
+
+  return {
+    title: conversation.title,
+    messages: conversation.messages,
+    tags: ['imported', conversation.format],
+    project_context: {
+      projectName: project.name,
+      ...(conversation.projectPath ? { projectPath: conversation.projectPath } : {})
+    },
+    project_id: project.id,
+    user_id: userId,
+    source: 'import',
+    ...details,
+    technical_details: {
+      ...details.technical_details,
+      import: {
+        format: conversation.format,
+        external_id: conversation.externalId || null,
+        imported_at: new Date().toISOString()
+      }
+    },
+    created_at: createdAt,
+    updated_at: createdAt
+  };
+};
+
+/**
+ * Insert imported conversations into a project. Returns the saved rows.
+ * @param onProgress - Called after each batch with the number saved so far
+ */
+export const importConversations = async (
+  project: Project,
+  conversations: ImportedConversation[],
+  onProgress?: (saved: number) => void
+) => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    throw new Error('User not authenticated. Please log in and try again.');
+  }
+
+  const saved = [];
+  for (let start = 0; start < conversations.length; start += IMPORT_BATCH_SIZE) {
+    const rows = conversations
+      .slice(start, start + IMPORT_BATCH_SIZE)
+      .map(conversation => buildImportRow(conversation, project, user.id));
+
+    const { data, error } = await supabase
+      .from('conversations')
+      .insert(rows)
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to import conversations (${saved.length} of ${conversations.length} saved): ${error.message}`);
+    }
+
+    saved.push(...(data || []));
+    onProgress?.(saved.length);
+  }
+
+  return saved;
+};
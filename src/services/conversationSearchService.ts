@@ -0,0 +1,42 @@
+/**
+ * Conversation search service
+ * Runs the search_conversations full-text RPC; highlight parsing lives in src/lib/conversationSearch.ts
+ */
+
+import { supabase } from '../lib/supabase';
+import { ConversationSearchMatch } from '../lib/conversationSearch';
+
+/**
+ * Runs a ranked full-text search over a project's conversations
+ * @param query - Search terms (supports quoted phrases, OR and -exclusions)
+ * @param projectId - Project to search within
+ * @param limit - Maximum number of matches
+ * @returns Matches ordered by relevance
+ */
+export const searchConversations = async (
+  query: string,
+  projectId: string,
+  limit = 50
+): Promise<ConversationSearchMatch[]> => {
+  const trimmedQuery = query.trim();
+  if (!trimmedQuery) {
+    return [];
+  }
+
+  const { data, error } = await supabase.rpc('search_conversations', {
+    search_query: trimmedQuery,
+    p_project_id: projectId,
+    match_limit: limit
+  });
+
+  if (error) {
+    throw new Error(error.message || 'Failed to search conversations');
+  }
+
+  return (data || []).map((row: { id: string; rank: number; title_highlight: string; snippet: string }) => ({
+    id: row.id,
+    rank: row.rank,
+    titleHighlight: row.title_highlight,
+    snippet: row.snippet
+  }));
+};
@@ -0,0 +1,89 @@
+/**
+ * Feature summary service
+ * Collects a feature's chat files and linked conversations for the AI Summary sub-tab and builds the implementation guide
+ */
+
+import { supabase } from '../lib/supabase';
+import { ApiConfig, Feature, FeatureFile } from '../types';
+import {
+  FeatureConversationRow,
+  FeatureSummary,
+  FeatureSummaryMode,
+  FeatureSummarySource,
+  buildFeatureSummaryPrompt,
+  buildHeuristicFeatureSummary,
+  conversationToSummarySource,
+  findFeatureConversations,
+  parseChatFileMessages,
+  parseFeatureSummaryResponse
+} from '../lib/featureSummary';
+import { sendChatCompletion } from './aiChatService';
+
+// Candidate conversations are matched on their titles first; messages are only loaded for the matches
+const CONVERSATION_SCAN_LIMIT = 500;
+const MAX_LINKED_CONVERSATIONS = 10;
+
+const fetchLinkedConversations = async (feature: Feature): Promise<FeatureSummarySource[]> => {
+  const { data, error } = await supabase
+    .from('conversations')
+    .select('id, title, implementation_summary, tags')
+    .eq('project_id', feature.projectId)
+    .order('created_at', { ascending: false })
+    .limit(CONVERSATION_SCAN_LIMIT);
+
+  if (error) {
+    throw new Error(`Failed to load conversations: ${error.message}`);
+  }
+
+  const linked = findFeatureConversations(feature, (data || []) as FeatureConversationRow[]).slice(0, MAX_LINKED_CONVERSATIONS);
+  if (linked.length === 0) return [];
+
+  const { data: rows, error: messagesError } = await supabase
+    .from('conversations')
+    .select('id, title, implementation_summary, tags, files_changed, messages')
+    .in('id', linked.map(conversation => conversation.id))
+    .order('created_at', { ascending: true });
+
+  if (messagesError) {
+    throw new Error(`Failed to load conversations: ${messagesError.message}`);
+  }
+
+  return ((rows || []) as FeatureConversationRow[]).map(conversationToSummarySource);
+};
+
+/**
+ * Build the implementation guide from the selected chat files and the conversations linked to the feature.
+ * The heuristic mode never calls an AI provider.
+ */
+export const generateFeatureSummary = async (
+  feature: Feature,
+  chatFiles: FeatureFile[],
+  mode: FeatureSummaryMode,
+  apiConfig: ApiConfig
+): Promise<FeatureSummary> => {
+  const sources: FeatureSummarySource[] = [
+    ...chatFiles.map(file => ({
+      type: 'chat_file' as const,
+      id: file.id,
+      title: file.name,
+      messages: parseChatFileMessages(file.name, file.content || ''),
+      filesChanged: []
+    })),
+    ...(await fetchLinkedConversations(feature))
+  ].filter(source => source.messages.length > 0);
+
+  if (sources.length === 0) {
+    throw new Error('Nothing to summarise: add chat files or link conversations to this feature first');
+  }
+
+  const summary = buildHeuristicFeatureSummary(feature, sources);
+  if (mode === 'heuristic') {
+    return summary;
+  }
+
+  const response = await sendChatCompletion(apiConfig, buildFeatureSummaryPrompt(feature, sources), {
+    json: true,
+    maxTokens: 2000
+  });
+  return parseFeatureSummaryResponse(response.content, response.model, summary);
+};
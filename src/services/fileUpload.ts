@@ -0,0 +1,268 @@
+/**
+ * Supabase file upload service for the project Files tab
+ * Stores objects in the private project-files bucket with metadata in the files table
+ */
+
+import { supabase } from '../lib/supabase';
+import { FileItem } from '../types';
+import {
+  MAX_FILE_SIZE_BYTES,
+  MAX_TEXT_PREVIEW_BYTES,
+  formatBytes,
+  getFileCategory,
+  sanitizeFileName,
+  STORAGE_QUOTA_BYTES
+} from '../lib/fileUtils';
+import { BUG_IMAGES_BUCKET, ImageUploadOptions, deleteImageFromBucket, uploadImageToBucket } from './imageUpload';
+
+export const PROJECT_FILES_BUCKET = 'project-files';
+
+const SIGNED_URL_EXPIRY_SECONDS = 60 * 60;
+const STORAGE_PAGE_SIZE = 100;
+
+export interface StorageUsage {
+  totalBytes: number;
+  byProject: Record<string, number>;
+  byBucket: Record<string, number>;
+  objectCount: number;
+}
+
+interface FileRow {
+  id: string;
+  project_id: string;
+  name: string;
+  size_bytes: number;
+  file_type: string;
+  url: string | null;
+  storage_path: string | null;
+  mime_type: string | null;
+  uploaded_at: string;
+}
+
+export const formatFileRow = (row: FileRow): FileItem => ({
+  id: row.id,
+  projectId: row.project_id,
+  name: row.name,
+  size: row.size_bytes || 0,
+  type: row.file_type,
+  url: row.url || '',
+  storagePath: row.storage_path || undefined,
+  mimeType: row.mime_type || undefined,
+  uploadedAt: new Date(row.uploaded_at)
+});
+
+/**
+ * Get bytes used per project and bucket for the current user
+ */
+export const getStorageUsage = async (): Promise<StorageUsage> => {
+  const { data, error } = await supabase.rpc('get_storage_usage');
+
+  if (error) {
+    throw new Error(`Failed to fetch storage usage: ${error.message}`);
+  }
+
+  const usage: StorageUsage = { totalBytes: 0, byProject: {}, byBucket: {}, objectCount: 0 };
+
+  for (const row of (data || []) as { bucket_id: string; project_id: string; total_bytes: number; object_count: number }[]) {
+    const bytes = Number(row.total_bytes) || 0;
+    usage.totalBytes += bytes;
+    usage.objectCount += Number(row.object_count) || 0;
+    usage.byProject[row.project_id] = (usage.byProject[row.project_id] || 0) + bytes;
+    usage.byBucket[row.bucket_id] = (usage.byBucket[row.bucket_id] || 0) + bytes;
+  }
+
+  return usage;
+};
+
+/**
+ * Upload a file to a project, checking the size limit and storage quota first
+ */
+export const uploadProjectFile = async (
+  file: File,
+  projectId: string,
+  options: ImageUploadOptions = {}
+): Promise<FileItem> => {
+  const { onProgress, signal } = options;
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    throw new Error('User not authenticated. Please log in and try again.');
+  }
+
+  // Stage 1: Validate against limits
+  onProgress?.({
+    stage: 'processing',
+    progress: 10,
+    message: 'Checking storage quota...'
+  });
+
+  if (file.size > MAX_FILE_SIZE_BYTES) {
+    throw new Error(`${file.name} is larger than the ${formatBytes(MAX_FILE_SIZE_BYTES)} limit`);
+  }
+
+  const usage = await getStorageUsage();
+  if (usage.totalBytes + file.size > STORAGE_QUOTA_BYTES) {
+    throw new Error(`Storage quota exceeded: ${formatBytes(usage.totalBytes)} of ${formatBytes(STORAGE_QUOTA_BYTES)} used`);
+  }
+
+  if (signal?.aborted) {
+    throw new Error('Upload cancelled');
+  }
+
+  // Storage path: project-id/timestamp-filename
+  const storagePath = `${projectId}/${Date.now()}-${sanitizeFileName(file.name)}`;
+
+  // Stage 2: Upload file
+  onProgress?.({
+    stage: 'uploading',
+    progress: 40,
+    message: `Uploading ${formatBytes(file.size)}...`
+  });
+
+  await uploadImageToBucket(file, storagePath, signal, PROJECT_FILES_BUCKET);
+
+  if (signal?.aborted) {
+    await deleteImageFromBucket([storagePath], PROJECT_FILES_BUCKET).catch(() => {});
+    throw new Error('Upload cancelled');
+  }
+
+  // Stage 3: Save metadata to database
+  onProgress?.({
+    stage: 'saving-metadata',
+    progress: 85,
+    message: 'Saving file information...'
+  });
+
+  const { data, error } = await supabase
+    .from('files')
+    .insert({
+      project_id: projectId,
+      name: file.name,
+      size_bytes: file.size,
+      file_type: getFileCategory(file.type, file.name),
+      mime_type: file.type || null,
+      storage_path: storagePath,
+      uploaded_by: user.id
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    await deleteImageFromBucket([storagePath], PROJECT_FILES_BUCKET).catch(() => {});
+    throw new Error(`Failed to save file metadata: ${error.message}`);
+  }
+
+  onProgress?.({
+    stage: 'complete',
+    progress: 100,
+    message: 'Upload complete!'
+  });
+
+  return formatFileRow(data);
+};
+
+/**
+ * Get a short-lived URL for previewing or downloading a private file
+ */
+export const getProjectFileUrl = async (file: FileItem, download = false): Promise<string> => {
+  if (!file.storagePath) {
+    return file.url;
+  }
+
+  const { data, error } = await supabase.storage
+    .from(PROJECT_FILES_BUCKET)
+    .createSignedUrl(file.storagePath, SIGNED_URL_EXPIRY_SECONDS, download ? { download: file.name } : undefined);
+
+  if (error || !data) {
+    throw new Error(`Failed to get file URL: ${error?.message || 'no URL returned'}`);
+  }
+
+  return data.signedUrl;
+};
+
+/**
+ * Read the start of a text file for preview
+ */
+export const readProjectFileText = async (file: FileItem): Promise<{ text: string; truncated: boolean }> => {
+  const url = await getProjectFileUrl(file);
+  const response = await fetch(url);
+
+  if (!response.ok) {
+    throw new Error(`Failed to load file: ${response.status}`);
+  }
+
+  const blob = await response.blob();
+  const truncated = blob.size > MAX_TEXT_PREVIEW_BYTES;
+  const text = await blob.slice(0, MAX_TEXT_PREVIEW_BYTES).text();
+
+  return { text, truncated };
+};
+
+/**
+ * Rename a file; only the display name changes, the stored object stays put
+ */
+export const renameProjectFile = async (id: string, name: string): Promise<void> => {
+  const { error } = await supabase
+    .from('files')
+    .update({ name })
+    .eq('id', id);
+
+  if (error) {
+    throw new Error(`Failed to rename file: ${error.message}`);
+  }
+};
+
+/**
+ * Delete a file from storage and the files table
+ */
+export const deleteProjectFile = async (file: FileItem): Promise<void> => {
+  if (file.storagePath) {
+    await deleteImageFromBucket([file.storagePath], PROJECT_FILES_BUCKET);
+  }
+
+  const { error } = await supabase
+    .from('files')
+    .delete()
+    .eq('id', file.id);
+
+  if (error) {
+    throw new Error(`Failed to delete file metadata: ${error.message}`);
+  }
+};
+
+const listStoragePaths = async (bucket: string, folder: string): Promise<string[]> => {
+  const paths: string[] = [];
+  for (let offset = 0; ; offset += STORAGE_PAGE_SIZE) {
+    const { data, error } = await supabase.storage
+      .from(bucket)
+      .list(folder, { limit: STORAGE_PAGE_SIZE, offset });
+
+    if (error) {
+      throw new Error(`Failed to list stored files: ${error.message}`);
+    }
+
+    for (const entry of data || []) {
+      const path = `${folder}/${entry.name}`;
+      // Folders are listed without an id
+      if (entry.id) {
+        paths.push(path);
+      } else {
+        paths.push(...await listStoragePaths(bucket, path));
+      }
+    }
+    if (!data || data.length < STORAGE_PAGE_SIZE) break;
+  }
+  return paths;
+};
+
+/**
+ * Delete every uploaded file and bug image of a project; both buckets keep them under `${projectId}/`
+ */
+export const deleteProjectStorage = async (projectId: string): Promise<void> => {
+  for (const bucket of [PROJECT_FILES_BUCKET, BUG_IMAGES_BUCKET]) {
+    const paths = await listStoragePaths(bucket, projectId);
+    for (let start = 0; start < paths.length; start += STORAGE_PAGE_SIZE) {
+      await deleteImageFromBucket(paths.slice(start, start + STORAGE_PAGE_SIZE), bucket);
+    }
+  }
+};
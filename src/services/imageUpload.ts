@@ -6,6 +6,8 @@
 import { supabase } from '../lib/supabase';
 import { processImage, generateImageFilename, ProcessedImage } from './imageProcessing';
 
+export const BUG_IMAGES_BUCKET = 'bug-images';
+
 export interface ImageUploadResult {
   id: string;
   url: string;
@@ -29,12 +31,13 @@ export interface ImageUploadOptions {
 }
 
 /**
- * Upload processed image to Supabase storage
+ * Upload a blob to a Supabase storage bucket (bug images by default)
  */
 export const uploadImageToBucket = async (
   blob: Blob,
   path: string,
-  signal?: AbortSignal
+  signal?: AbortSignal,
+  bucket: string = BUG_IMAGES_BUCKET
 ): Promise<string> => {
   // Check if operation was cancelled
   if (signal?.aborted) {
@@ -44,7 +47,7 @@ export const uploadImageToBucket = async (
   console.log('📤 Uploading to bucket:', { path, blobType: blob.type, blobSize: blob.size });
 
   const { data, error } = await supabase.storage
-    .from('bug-images')
+    .from(bucket)
     .upload(path, blob, {
       contentType: blob.type,
       upsert: false // Don't overwrite existing files
@@ -66,18 +69,21 @@ export const uploadImageToBucket = async (
  */
 export const getPublicImageUrl = (path: string): string => {
   const { data } = supabase.storage
-    .from('bug-images')
+    .from(BUG_IMAGES_BUCKET)
     .getPublicUrl(path);
 
   return data.publicUrl;
 };
 
 /**
- * Delete image from storage bucket
+ * Delete objects from a storage bucket (bug images by default)
  */
-export const deleteImageFromBucket = async (paths: string[]): Promise<void> => {
+export const deleteImageFromBucket = async (
+  paths: string[],
+  bucket: string = BUG_IMAGES_BUCKET
+): Promise<void> => {
   const { error } = await supabase.storage
-    .from('bug-images')
+    .from(bucket)
     .remove(paths);
 
   if (error) {
@@ -0,0 +1,201 @@
+/**
+ * Item link service
+ * Reads and writes the item_links table for the Related panels and loads the items shown in the relationship graph
+ */
+
+import { supabase } from '../lib/supabase';
+import {
+  GraphItem,
+  ItemLink,
+  ItemLinkInput,
+  LINK_ITEM_TABLES,
+  LINK_ITEM_TYPES,
+  LinkItemType,
+  LinkRelation,
+  itemKey,
+  validateItemLink
+} from '../lib/itemLinks';
+
+// Enough matches to pick from without listing the whole project
+const LINK_SEARCH_LIMIT = 20;
+
+interface ItemLinkRow {
+  id: string;
+  project_id: string | null;
+  source_type: LinkItemType;
+  source_id: string;
+  target_type: LinkItemType;
+  target_id: string;
+  relation: LinkRelation;
+  created_at: string;
+}
+
+export interface LinkTarget {
+  type: LinkItemType;
+  id: string;
+  title: string;
+}
+
+export const formatItemLinkRow = (row: ItemLinkRow): ItemLink => ({
+  id: row.id,
+  projectId: row.project_id,
+  sourceType: row.source_type,
+  sourceId: row.source_id,
+  targetType: row.target_type,
+  targetId: row.target_id,
+  relation: row.relation,
+  createdAt: new Date(row.created_at)
+});
+
+const getUserId = async (): Promise<string> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    throw new Error('User not authenticated. Please log in and try again.');
+  }
+  return user.id;
+};
+
+/**
+ * Load every link in a project, oldest first
+ */
+export const fetchItemLinks = async (projectId: string): Promise<ItemLink[]> => {
+  const { data, error } = await supabase
+    .from('item_links')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load links: ${error.message}`);
+  }
+
+  return (data || []).map(formatItemLinkRow);
+};
+
+/**
+ * Load the links that start or end at an item
+ */
+export const fetchLinksForItem = async (type: LinkItemType, id: string): Promise<ItemLink[]> => {
+  const { data, error } = await supabase
+    .from('item_links')
+    .select('*')
+    .or(`and(source_type.eq.${type},source_id.eq.${id}),and(target_type.eq.${type},target_id.eq.${id})`)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load links: ${error.message}`);
+  }
+
+  return (data || []).map(formatItemLinkRow);
+};
+
+/**
+ * Link two items. The link belongs to the project of the items it connects.
+ */
+export const createItemLink = async (projectId: string, link: ItemLinkInput): Promise<ItemLink> => {
+  const validationError = validateItemLink(link);
+  if (validationError) {
+    throw new Error(validationError);
+  }
+
+  const userId = await getUserId();
+  const { data, error } = await supabase
+    .from('item_links')
+    .insert([{
+      user_id: userId,
+      project_id: projectId,
+      source_type: link.sourceType,
+      source_id: link.sourceId,
+      target_type: link.targetType,
+      target_id: link.targetId,
+      relation: link.relation
+    }])
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new Error('These items are already linked this way');
+    }
+    throw new Error(`Failed to create link: ${error.message}`);
+  }
+
+  return formatItemLinkRow(data);
+};
+
+export const deleteItemLink = async (id: string): Promise<void> => {
+  const { error } = await supabase.from('item_links').delete().eq('id', id);
+
+  if (error) {
+    throw new Error(`Failed to delete link: ${error.message}`);
+  }
+};
+
+/**
+ * Titles for linked items, keyed by itemKey. Deleted items are left out.
+ */
+export const fetchItemTitles = async (refs: Array<{ type: LinkItemType; id: string }>): Promise<Map<string, string>> => {
+  const titles = new Map<string, string>();
+
+  await Promise.all(LINK_ITEM_TYPES.map(async type => {
+    const ids = [...new Set(refs.filter(ref => ref.type === type).map(ref => ref.id))];
+    if (ids.length === 0) return;
+
+    const { data, error } = await supabase.from(LINK_ITEM_TABLES[type]).select('id, title').in('id', ids);
+    if (error) {
+      throw new Error(`Failed to load ${LINK_ITEM_TABLES[type]}: ${error.message}`);
+    }
+
+    (data || []).forEach((row: { id: string; title: string }) => titles.set(itemKey(type, row.id), row.title));
+  }));
+
+  return titles;
+};
+
+/**
+ * Items of one type in a project whose title matches the search, most recently updated first
+ */
+export const searchLinkTargets = async (projectId: string, type: LinkItemType, term: string): Promise<LinkTarget[]> => {
+  let query = supabase
+    .from(LINK_ITEM_TABLES[type])
+    .select('id, title')
+    .eq('project_id', projectId)
+    .order('updated_at', { ascending: false })
+    .limit(LINK_SEARCH_LIMIT);
+
+  if (term.trim()) {
+    query = query.ilike('title', `%${term.trim()}%`);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to search ${LINK_ITEM_TABLES[type]}: ${error.message}`);
+  }
+
+  return (data || []).map((row: { id: string; title: string }) => ({ type, id: row.id, title: row.title }));
+};
+
+/**
+ * Every conversation, bug, feature and document in a project, as graph nodes
+ */
+export const fetchGraphItems = async (projectId: string): Promise<GraphItem[]> => {
+  const results = await Promise.all(LINK_ITEM_TYPES.map(async type => {
+    const { data, error } = await supabase
+      .from(LINK_ITEM_TABLES[type])
+      .select(type === 'bug' ? 'id, title, feature_id' : 'id, title')
+      .eq('project_id', projectId);
+
+    if (error) {
+      throw new Error(`Failed to load ${LINK_ITEM_TABLES[type]}: ${error.message}`);
+    }
+
+    return ((data || []) as unknown as Array<{ id: string; title: string; feature_id?: string | null }>).map(row => ({
+      type,
+      id: row.id,
+      title: row.title,
+      featureId: row.feature_id
+    }));
+  }));
+
+  return results.flat();
+};
@@ -0,0 +1,188 @@
+/**
+ * Pattern library service
+ * Reads and writes the patterns table for the Patterns view and the "Save as Pattern" actions
+ */
+
+import { supabase } from '../lib/supabase';
+import { Pattern } from '../types';
+import {
+  PatternBugRow,
+  PatternConversationRow,
+  PatternDraft,
+  buildPatternRow,
+  extractPatternFromBug,
+  extractPatternFromConversation
+} from '../lib/patternExtraction';
+
+interface PatternRow {
+  id: string;
+  project_id: string | null;
+  title: string;
+  description: string | null;
+  solution: string | null;
+  code_examples: Pattern['codeExamples'] | null;
+  tech_stack: string[] | null;
+  tags: string[] | null;
+  source_type: Pattern['sourceType'];
+  sources: Pattern['sources'] | null;
+  usage_count: number;
+  success_count: number;
+  last_used_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export const formatPatternRow = (row: PatternRow): Pattern => ({
+  id: row.id,
+  projectId: row.project_id,
+  title: row.title,
+  description: row.description || '',
+  solution: row.solution || '',
+  codeExamples: row.code_examples || [],
+  techStack: row.tech_stack || [],
+  tags: row.tags || [],
+  sourceType: row.source_type,
+  sources: row.sources || [],
+  usageCount: row.usage_count || 0,
+  successCount: row.success_count || 0,
+  lastUsedAt: row.last_used_at ? new Date(row.last_used_at) : undefined,
+  createdAt: new Date(row.created_at),
+  updatedAt: new Date(row.updated_at)
+});
+
+const getUserId = async (): Promise<string> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    throw new Error('User not authenticated. Please log in and try again.');
+  }
+  return user.id;
+};
+
+/**
+ * Load the user's patterns, most successful first
+ */
+export const fetchPatterns = async (): Promise<Pattern[]> => {
+  const { data, error } = await supabase
+    .from('patterns')
+    .select('*')
+    .order('success_count', { ascending: false })
+    .order('usage_count', { ascending: false })
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load patterns: ${error.message}`);
+  }
+
+  return (data || []).map(formatPatternRow);
+};
+
+/**
+ * Find the pattern already extracted from a conversation or bug, if any
+ */
+export const findPatternForSource = async (type: 'conversation' | 'bug', id: string): Promise<Pattern | null> => {
+  const { data, error } = await supabase
+    .from('patterns')
+    .select('*')
+    .filter('sources', 'cs', JSON.stringify([{ type, id }]))
+    .limit(1);
+
+  if (error) {
+    throw new Error(`Failed to look up pattern: ${error.message}`);
+  }
+
+  return data && data.length > 0 ? formatPatternRow(data[0]) : null;
+};
+
+const insertPattern = async (draft: PatternDraft, projectId: string | null): Promise<Pattern> => {
+  const userId = await getUserId();
+
+  const { data, error } = await supabase
+    .from('patterns')
+    .insert(buildPatternRow(draft, userId, projectId))
+    .select('*')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save pattern: ${error.message}`);
+  }
+
+  return formatPatternRow(data);
+};
+
+/**
+ * Save a conversation's implementation summary and code changes as a pattern
+ */
+export const createPatternFromConversation = async (
+  conversation: PatternConversationRow,
+  projectId: string | null
+): Promise<Pattern> => {
+  const draft = extractPatternFromConversation(conversation);
+  if (!draft.solution && draft.codeExamples.length === 0) {
+    throw new Error('This conversation has no implementation summary or code changes to save as a pattern');
+  }
+  return insertPattern(draft, projectId);
+};
+
+/**
+ * Save a fixed bug's solution as a pattern
+ */
+export const createPatternFromBug = async (bug: PatternBugRow, projectId: string | null): Promise<Pattern> => {
+  const draft = extractPatternFromBug(bug);
+  if (!draft.solution) {
+    throw new Error('Add a solution to this bug before saving it as a pattern');
+  }
+  return insertPattern(draft, projectId);
+};
+
+/**
+ * Count one reuse of a pattern and whether it worked
+ */
+export const recordPatternUsage = async (id: string, success?: boolean): Promise<Pattern> => {
+  const { data, error } = await supabase.rpc('record_pattern_usage', {
+    p_pattern_id: id,
+    p_success: success ?? null
+  });
+
+  const row = Array.isArray(data) ? data[0] : data;
+  if (error || !row) {
+    throw new Error(`Failed to record pattern usage: ${error?.message || 'pattern not found'}`);
+  }
+
+  return formatPatternRow(row);
+};
+
+export const updatePattern = async (
+  id: string,
+  updates: Partial<Pick<Pattern, 'title' | 'description' | 'solution' | 'techStack' | 'tags'>>
+): Promise<Pattern> => {
+  const row: Record<string, unknown> = {};
+  if (updates.title !== undefined) row.title = updates.title;
+  if (updates.description !== undefined) row.description = updates.description;
+  if (updates.solution !== undefined) row.solution = updates.solution;
+  if (updates.techStack !== undefined) row.tech_stack = updates.techStack;
+  if (updates.tags !== undefined) row.tags = updates.tags;
+
+  const { data, error } = await supabase
+    .from('patterns')
+    .update(row)
+    .eq('id', id)
+    .select('*')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to update pattern: ${error.message}`);
+  }
+
+  return formatPatternRow(data);
+};
+
+export const deletePattern = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('patterns')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    throw new Error(`Failed to delete pattern: ${error.message}`);
+  }
+};
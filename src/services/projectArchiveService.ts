@@ -0,0 +1,280 @@
+/**
+ * Project archive service
+ * Exports a project's knowledge base as a ZIP of Markdown files and recreates projects from such a ZIP
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from '../lib/supabase';
+import { Project } from '../types';
+import { createZip, readZip } from '../lib/zip';
+import {
+  ARCHIVE_COLLECTIONS,
+  ARCHIVE_COLLECTION_LABELS,
+  ArchiveCollection,
+  ArchiveImage,
+  ArchiveRow,
+  ProjectArchive,
+  archiveFileName,
+  buildArchiveFiles,
+  countArchiveItems,
+  emptyCollections,
+  imageReference,
+  parseArchiveFiles,
+  remapArchiveIds,
+  rewriteReferences
+} from '../lib/projectArchive';
+import { BUG_IMAGES_BUCKET, deleteImageFromBucket, getPublicImageUrl, uploadImageToBucket } from './imageUpload';
+
+const ARCHIVE_TABLES: Record<ArchiveCollection, string> = {
+  documents: 'documents',
+  features: 'features',
+  featureFiles: 'feature_data',
+  bugs: 'bugs',
+  conversations: 'conversations',
+  tasks: 'tasks',
+  events: 'calendar_events'
+};
+
+// Referenced tables before the tables referencing them
+const IMPORT_ORDER: ArchiveCollection[] = ['features', 'featureFiles', 'bugs', 'documents', 'tasks', 'conversations', 'events'];
+
+// Tables with their own owner column; tasks and feature data belong to the project
+const OWNED_TABLES = ['documents', 'features', 'bugs', 'conversations', 'calendar_events'];
+
+const FETCH_PAGE_SIZE = 500;
+// Ids per `in` filter, keeping request URLs short
+const ID_CHUNK_SIZE = 100;
+const INSERT_BATCH_SIZE = 50;
+
+type BugImageRow = ArchiveRow & {
+  bug_id: string;
+  image_path: string;
+  filename: string | null;
+};
+
+const chunk = <T>(items: T[], size: number) =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, index) => items.slice(index * size, (index + 1) * size));
+
+const fetchAllRows = async <Row extends ArchiveRow = ArchiveRow>(table: string, column: string, values: string[]): Promise<Row[]> => {
+  const rows: Row[] = [];
+  for (const ids of chunk(values, ID_CHUNK_SIZE)) {
+    for (let from = 0; ; from += FETCH_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from(table)
+        .select('*')
+        .in(column, ids)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, from + FETCH_PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to export ${table}: ${error.message}`);
+      }
+
+      rows.push(...(data || []));
+      if (!data || data.length < FETCH_PAGE_SIZE) break;
+    }
+  }
+  return rows;
+};
+
+const downloadImages = async (rows: BugImageRow[]): Promise<ArchiveImage[]> => {
+  const images: ArchiveImage[] = [];
+  for (const row of rows) {
+    const { data, error } = await supabase.storage.from(BUG_IMAGES_BUCKET).download(row.image_path);
+    if (error || !data) {
+      // The content keeps linking the stored image
+      console.warn(`Skipping bug image ${row.image_path}:`, error);
+      continue;
+    }
+    images.push({
+      bugId: row.bug_id,
+      filename: row.filename || row.image_path.split('/').pop() || 'image',
+      metadata: row,
+      data: new Uint8Array(await data.arrayBuffer()),
+      url: getPublicImageUrl(row.image_path)
+    });
+  }
+  return images;
+};
+
+/**
+ * Collect a project's documents, features and their files, bugs and their images, conversations,
+ * tasks and events
+ * @param onProgress - Called with what is being exported
+ */
+export const loadProjectArchive = async (
+  projectId: string,
+  onProgress?: (step: string) => void
+): Promise<ProjectArchive> => {
+  const { data: project, error } = await supabase
+    .from('projects')
+    .select('*')
+    .eq('id', projectId)
+    .single();
+
+  if (error || !project) {
+    throw new Error(`Failed to export project: ${error?.message || 'Project not found'}`);
+  }
+
+  const collections = emptyCollections();
+  for (const collection of ARCHIVE_COLLECTIONS) {
+    if (collection === 'featureFiles') continue;
+    onProgress?.(`Exporting ${ARCHIVE_COLLECTION_LABELS[collection].toLowerCase()}...`);
+    collections[collection] = await fetchAllRows(ARCHIVE_TABLES[collection], 'project_id', [projectId]);
+  }
+
+  onProgress?.('Exporting feature files...');
+  collections.featureFiles = await fetchAllRows('feature_data', 'feature_id', collections.features.map(row => row.id));
+
+  onProgress?.('Exporting bug images...');
+  const imageRows = await fetchAllRows<BugImageRow>('bug_images', 'bug_id', collections.bugs.map(row => row.id));
+  const images = await downloadImages(imageRows);
+
+  return { project, collections, images };
+};
+
+/**
+ * Export a project as a ZIP of Markdown files with a manifest
+ */
+export const exportProjectArchive = async (project: Project, onProgress?: (step: string) => void) => {
+  const archive = await loadProjectArchive(project.id, onProgress);
+  const exportedAt = new Date();
+  const zip = createZip(buildArchiveFiles(archive, exportedAt));
+
+  return {
+    blob: new Blob([zip], { type: 'application/zip' }),
+    fileName: archiveFileName(project.name, exportedAt),
+    counts: countArchiveItems(archive)
+  };
+};
+
+/**
+ * Read a project archive without importing it, e.g. to preview what it holds
+ */
+export const readProjectArchive = async (file: Blob): Promise<ProjectArchive> =>
+  parseArchiveFiles(await readZip(new Uint8Array(await file.arrayBuffer())));
+
+const insertRows = async (table: string, rows: Record<string, unknown>[]) => {
+  for (const batch of chunk(rows, INSERT_BATCH_SIZE)) {
+    const { error } = await supabase.from(table).insert(batch);
+    if (error) {
+      throw new Error(`Failed to import ${table}: ${error.message}`);
+    }
+  }
+};
+
+/**
+ * Remove everything a failed import saved, so no half-imported project is left behind
+ */
+const rollbackImport = async (projectId: string, userId: string, imagePaths: string[]) => {
+  // Features and conversations outlive their project, so every table is cleared explicitly
+  for (const collection of [...IMPORT_ORDER].reverse()) {
+    const { error } = await supabase
+      .from(ARCHIVE_TABLES[collection])
+      .delete()
+      .eq('project_id', projectId);
+
+    if (error) {
+      console.error(`Error removing imported ${ARCHIVE_TABLES[collection]}:`, error);
+    }
+  }
+
+  if (imagePaths.length > 0) {
+    try {
+      await deleteImageFromBucket(imagePaths);
+    } catch (error) {
+      console.error('Error removing imported bug images:', error);
+    }
+  }
+
+  const { error } = await supabase
+    .from('projects')
+    .delete()
+    .eq('id', projectId)
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('Error removing imported project:', error);
+  }
+};
+
+/**
+ * Create a new project owned by the current user from an archive. Items get new ids, so an
+ * archive can be imported next to the project it was exported from. When any step fails, the
+ * new project, its rows and uploaded images are removed before the error is rethrown.
+ * @param onProgress - Called with what is being imported
+ */
+export const importProjectArchive = async (
+  source: ProjectArchive,
+  onProgress?: (step: string) => void
+): Promise<Project> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    throw new Error('User not authenticated. Please log in and try again.');
+  }
+
+  const archive = remapArchiveIds(source, uuidv4);
+  const projectId = uuidv4();
+  const now = new Date().toISOString();
+
+  onProgress?.('Creating project...');
+  const { data: project, error } = await supabase
+    .from('projects')
+    .insert([{
+      ...archive.project,
+      id: projectId,
+      user_id: user.id,
+      created_at: now,
+      updated_at: now
+    }])
+    .select()
+    .single();
+
+  if (error || !project) {
+    throw new Error(`Failed to import project: ${error?.message || 'No project returned'}`);
+  }
+
+  const uploadedPaths: string[] = [];
+  try {
+    // Upload images first so bug content can link their new URLs
+    const bugs = new Map(archive.collections.bugs.map(row => [row.id, row]));
+    const imageRows: Record<string, unknown>[] = [];
+    if (archive.images.length > 0) onProgress?.('Uploading bug images...');
+    for (const image of archive.images) {
+      const path = `${projectId}/${image.bugId}/${image.filename}`;
+      const mimeType = typeof image.metadata.mime_type === 'string' ? image.metadata.mime_type : 'application/octet-stream';
+      await uploadImageToBucket(new Blob([image.data], { type: mimeType }), path);
+      uploadedPaths.push(path);
+
+      const bug = bugs.get(image.bugId);
+      if (bug) bugs.set(image.bugId, rewriteReferences(bug, imageReference(image.filename), getPublicImageUrl(path)));
+      imageRows.push({ ...image.metadata, bug_id: image.bugId, image_path: path, uploaded_by: user.id });
+    }
+    archive.collections.bugs = [...bugs.values()];
+
+    for (const collection of IMPORT_ORDER) {
+      const table = ARCHIVE_TABLES[collection];
+      const rows = archive.collections[collection].map(row => ({
+        ...row,
+        project_id: projectId,
+        ...(OWNED_TABLES.includes(table) ? { user_id: user.id } : {})
+      }));
+      if (rows.length === 0) continue;
+      onProgress?.(`Importing ${ARCHIVE_COLLECTION_LABELS[collection].toLowerCase()}...`);
+      await insertRows(table, rows);
+    }
+    await insertRows('bug_images', imageRows);
+  } catch (importError) {
+    onProgress?.('Import failed, removing what was saved...');
+    await rollbackImport(projectId, user.id, uploadedPaths);
+    throw importError;
+  }
+
+  return {
+    ...project,
+    userId: project.user_id,
+    createdAt: new Date(project.created_at),
+    updatedAt: new Date(project.updated_at)
+  } as Project;
+};
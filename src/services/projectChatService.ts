@@ -0,0 +1,206 @@
+/**
+ * Project chat service
+ * Stores AI chat threads per project and answers questions with the project's bugs, features, documents and conversations as context
+ */
+
+import { supabase } from '../lib/supabase';
+import { ApiConfig, Bug, Document, Feature, Project } from '../types';
+import {
+  AiChatContextItem,
+  AiChatContextSource,
+  AiChatThread,
+  AiChatThreadMessage,
+  buildAiChatPrompt,
+  retrieveChatContext
+} from '../lib/aiChatContext';
+import { AiChatResponse, streamChatCompletion } from './aiChatService';
+
+interface AiChatThreadRow {
+  id: string;
+  project_id: string;
+  title: string;
+  messages: AiChatThreadMessage[] | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Enough recent conversations to answer from without loading every message
+const CONVERSATION_CONTEXT_LIMIT = 300;
+
+export const formatAiChatThreadRow = (row: AiChatThreadRow): AiChatThread => ({
+  id: row.id,
+  projectId: row.project_id,
+  title: row.title,
+  messages: row.messages || [],
+  createdAt: new Date(row.created_at),
+  updatedAt: new Date(row.updated_at)
+});
+
+const getUserId = async (): Promise<string> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    throw new Error('User not authenticated. Please log in and try again.');
+  }
+  return user.id;
+};
+
+/**
+ * Load a project's chat threads, most recently active first
+ */
+export const fetchAiChatThreads = async (projectId: string): Promise<AiChatThread[]> => {
+  const { data, error } = await supabase
+    .from('ai_chat_threads')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('updated_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load chat threads: ${error.message}`);
+  }
+
+  return (data || []).map(formatAiChatThreadRow);
+};
+
+export const createAiChatThread = async (projectId: string, title: string): Promise<AiChatThread> => {
+  const userId = await getUserId();
+
+  const { data, error } = await supabase
+    .from('ai_chat_threads')
+    .insert([{ user_id: userId, project_id: projectId, title, messages: [] }])
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create chat thread: ${error.message}`);
+  }
+
+  return formatAiChatThreadRow(data);
+};
+
+export const saveAiChatThread = async (thread: AiChatThread): Promise<AiChatThread> => {
+  const { data, error } = await supabase
+    .from('ai_chat_threads')
+    .update({ title: thread.title, messages: thread.messages })
+    .eq('id', thread.id)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save chat thread: ${error.message}`);
+  }
+
+  return formatAiChatThreadRow(data);
+};
+
+export const deleteAiChatThread = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('ai_chat_threads')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    throw new Error(`Failed to delete chat thread: ${error.message}`);
+  }
+};
+
+const toIsoString = (date: Date | string): string => new Date(date).toISOString();
+
+/**
+ * Context sources for the project data already loaded in the app
+ */
+export const buildChatContextSources = (
+  projectId: string,
+  data: { bugs: Bug[]; features: Feature[]; documents: Document[] }
+): AiChatContextSource[] => [
+  ...data.bugs.filter(bug => bug.projectId === projectId).map(bug => ({
+    type: 'bug' as const,
+    id: bug.id,
+    projectId,
+    title: bug.title,
+    fields: [
+      { text: bug.description, weight: 4 },
+      { text: bug.solution, weight: 3 },
+      { text: bug.content, weight: 2 }
+    ],
+    body: [
+      `Status: ${bug.status}, severity: ${bug.severity}`,
+      bug.description,
+      bug.solution ? `Solution: ${bug.solution}` : ''
+    ].filter(Boolean).join('\n'),
+    updatedAt: toIsoString(bug.updatedAt)
+  })),
+  ...data.features.filter(feature => feature.projectId === projectId).map(feature => ({
+    type: 'feature' as const,
+    id: feature.id,
+    projectId,
+    title: feature.title,
+    fields: [{ text: feature.content, weight: 2 }],
+    body: [`Status: ${feature.status}`, feature.content].filter(Boolean).join('\n'),
+    updatedAt: toIsoString(feature.updatedAt)
+  })),
+  ...data.documents.filter(document => document.projectId === projectId).map(document => ({
+    type: 'document' as const,
+    id: document.id,
+    projectId,
+    title: document.title,
+    fields: [{ text: document.content, weight: 2 }],
+    body: document.content,
+    updatedAt: toIsoString(document.updatedAt)
+  }))
+];
+
+/**
+ * Context sources for the project's recent conversations, which are not part of the shared project data
+ */
+export const fetchConversationContextSources = async (projectId: string): Promise<AiChatContextSource[]> => {
+  const { data, error } = await supabase
+    .from('conversations')
+    .select('id, title, tags, implementation_summary, files_changed, updated_at')
+    .eq('project_id', projectId)
+    .order('updated_at', { ascending: false })
+    .limit(CONVERSATION_CONTEXT_LIMIT);
+
+  if (error) {
+    throw new Error(`Failed to load conversations: ${error.message}`);
+  }
+
+  return (data || []).map(row => ({
+    type: 'conversation' as const,
+    id: row.id,
+    projectId,
+    title: row.title,
+    fields: [
+      { text: row.implementation_summary, weight: 4 },
+      { text: (row.tags || []).join(' '), weight: 3 },
+      { text: (row.files_changed || []).join(' '), weight: 2 }
+    ],
+    body: [
+      row.implementation_summary,
+      (row.files_changed || []).length > 0 ? `Files changed: ${row.files_changed.join(', ')}` : ''
+    ].filter(Boolean).join('\n'),
+    updatedAt: row.updated_at
+  }));
+};
+
+/**
+ * Answer a question about the project, streaming the reply through onDelta
+ */
+export const askProjectAi = async (
+  apiConfig: ApiConfig,
+  project: Pick<Project, 'name' | 'description'>,
+  question: string,
+  history: AiChatThreadMessage[],
+  sources: AiChatContextSource[],
+  onDelta: (delta: string) => void,
+  signal?: AbortSignal
+): Promise<AiChatResponse & { context: AiChatContextItem[] }> => {
+  const context = retrieveChatContext(question, sources);
+  const response = await streamChatCompletion(
+    apiConfig,
+    buildAiChatPrompt(project, question, context, history),
+    onDelta,
+    { temperature: 0.3, signal }
+  );
+
+  return { ...response, context };
+};
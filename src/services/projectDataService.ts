@@ -0,0 +1,272 @@
+/**
+ * Project data service
+ * Fetches project collections one cursor page at a time and reads aggregate counts for the Dashboard
+ */
+
+import { supabase } from '../lib/supabase';
+import { Bug, Document, Task, Feature, FeatureData, CalendarEvent, ChatMessage } from '../types';
+import { ProjectSummary } from '../types/dashboard';
+import { formatProjectSummary } from '../lib/dashboardUtils';
+import {
+  PROJECT_PAGE_SIZE,
+  PageCursor,
+  ProjectCollection,
+  ProjectCollectionTypes,
+  buildCursorFilter,
+  splitPage
+} from '../lib/projectDataCache';
+import { RESOLVED_BUG_STATUSES } from '../lib/bugStatus';
+import { formatFileRow } from './fileUpload';
+
+// Columns every project item table has, stored under other names than in the client types
+interface ProjectItemColumns {
+  project_id: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// A table row: the client type's fields that keep their name, plus the columns that are renamed
+type ItemRow<T, Renamed extends keyof T = never> =
+  Omit<T, Renamed | 'projectId' | 'createdAt' | 'updatedAt'> & ProjectItemColumns;
+
+type DocumentRow = ItemRow<Document>;
+
+type TaskRow = ItemRow<Task, 'featureId' | 'bugId' | 'dueDate'> & {
+  feature_id: string | null;
+  bug_id: string | null;
+  due_date: string | null;
+};
+
+type FeatureRow = ItemRow<Feature, 'status'> & { status: Feature['status'] | null };
+
+type FeatureDataRow = ItemRow<
+  FeatureData,
+  'featureId' | 'dataType' | 'contentType' | 'parentId' | 'fileSize' | 'tags' | 'metadata' | 'settings' | 'accessedAt' | 'createdBy' | 'updatedBy'
+> & {
+  feature_id: string;
+  data_type: FeatureData['dataType'];
+  content_type: string;
+  parent_id: string | null;
+  file_size: number | null;
+  tags: string[] | null;
+  metadata: Record<string, unknown> | null;
+  settings: Record<string, unknown> | null;
+  accessed_at: string;
+  created_by: string | null;
+  updated_by: string | null;
+};
+
+type BugRow = ItemRow<Bug, 'featureId'> & { feature_id: string | null };
+
+type EventRow = ItemRow<CalendarEvent, 'date' | 'startTime' | 'endTime' | 'type'> & {
+  event_date: string;
+  start_time: string;
+  end_time: string;
+  event_type: CalendarEvent['type'];
+};
+
+interface MessageRow {
+  id: string;
+  project_id: string;
+  user_id: string | null;
+  author: string;
+  content: string;
+  parent_id: string | null;
+  mentions: string[] | null;
+  timestamp: string;
+  edited_at: string | null;
+  deleted_at: string | null;
+}
+
+/**
+ * Row types of the collections' tables, as realtime payloads and queries return them
+ */
+export interface ProjectRowTypes {
+  documents: DocumentRow;
+  tasks: TaskRow;
+  features: FeatureRow;
+  featureData: FeatureDataRow;
+  bugs: BugRow;
+  events: EventRow;
+  files: Parameters<typeof formatFileRow>[0];
+  messages: MessageRow;
+}
+
+export const formatDocumentRow = (d: DocumentRow): Document => ({
+  ...d,
+  projectId: d.project_id,
+  createdAt: new Date(d.created_at),
+  updatedAt: new Date(d.updated_at)
+} as Document);
+
+export const formatTaskRow = (t: TaskRow): Task => ({
+  ...t,
+  projectId: t.project_id,
+  featureId: t.feature_id || undefined,
+  bugId: t.bug_id || undefined,
+  dueDate: t.due_date ? new Date(t.due_date) : undefined,
+  createdAt: new Date(t.created_at),
+  updatedAt: new Date(t.updated_at)
+} as Task);
+
+export const formatFeatureRow = (f: FeatureRow): Feature => ({
+  ...f,
+  projectId: f.project_id,
+  status: f.status || 'planned', // Default to 'planned' for features without status
+  createdAt: new Date(f.created_at),
+  updatedAt: new Date(f.updated_at)
+} as Feature);
+
+export const formatFeatureDataRow = (fd: FeatureDataRow): FeatureData => ({
+  ...fd,
+  featureId: fd.feature_id,
+  projectId: fd.project_id,
+  dataType: fd.data_type,
+  contentType: fd.content_type,
+  parentId: fd.parent_id,
+  fileSize: fd.file_size || 0,
+  tags: fd.tags || [],
+  metadata: fd.metadata || {},
+  settings: fd.settings || {},
+  createdAt: new Date(fd.created_at),
+  updatedAt: new Date(fd.updated_at),
+  accessedAt: new Date(fd.accessed_at),
+  createdBy: fd.created_by,
+  updatedBy: fd.updated_by
+} as FeatureData);
+
+export const formatBugRow = (b: BugRow): Bug => ({
+  ...b,
+  projectId: b.project_id,
+  featureId: b.feature_id,
+  createdAt: new Date(b.created_at),
+  updatedAt: new Date(b.updated_at)
+} as Bug);
+
+export const formatEventRow = (e: EventRow): CalendarEvent => ({
+  ...e,
+  projectId: e.project_id,
+  title: e.title,
+  date: new Date(e.event_date),
+  startTime: e.start_time,
+  endTime: e.end_time,
+  eventType: e.event_type,
+  type: e.event_type,
+  createdAt: new Date(e.created_at),
+  updatedAt: new Date(e.updated_at)
+} as CalendarEvent);
+
+export const formatMessageRow = (m: MessageRow): ChatMessage => ({
+  id: m.id,
+  projectId: m.project_id,
+  userId: m.user_id || null,
+  author: m.author,
+  content: m.content,
+  parentId: m.parent_id || null,
+  mentions: m.mentions || [],
+  timestamp: new Date(m.timestamp),
+  editedAt: m.edited_at ? new Date(m.edited_at) : undefined,
+  deletedAt: m.deleted_at ? new Date(m.deleted_at) : undefined
+} as ChatMessage);
+
+interface CollectionQuery<C extends ProjectCollection> {
+  table: string;
+  orderColumn: string;
+  ascending: boolean;
+  format: (row: ProjectRowTypes[C]) => ProjectCollectionTypes[C];
+}
+
+// Newest first, except feature data which is ordered within each feature on the client
+const COLLECTION_QUERIES: { [C in ProjectCollection]: CollectionQuery<C> } = {
+  documents: { table: 'documents', orderColumn: 'created_at', ascending: false, format: formatDocumentRow },
+  tasks: { table: 'tasks', orderColumn: 'created_at', ascending: false, format: formatTaskRow },
+  features: { table: 'features', orderColumn: 'created_at', ascending: false, format: formatFeatureRow },
+  featureData: { table: 'feature_data', orderColumn: 'created_at', ascending: true, format: formatFeatureDataRow },
+  bugs: { table: 'bugs', orderColumn: 'created_at', ascending: false, format: formatBugRow },
+  events: { table: 'calendar_events', orderColumn: 'event_date', ascending: false, format: formatEventRow },
+  files: { table: 'files', orderColumn: 'uploaded_at', ascending: false, format: formatFileRow },
+  messages: { table: 'messages', orderColumn: 'timestamp', ascending: false, format: formatMessageRow }
+};
+
+/**
+ * Map a raw row of a collection's table (e.g. from a realtime payload) to its client type
+ */
+export const formatProjectRow = <C extends ProjectCollection>(collection: C, row: ProjectRowTypes[C]): ProjectCollectionTypes[C] =>
+  (COLLECTION_QUERIES[collection] as CollectionQuery<C>).format(row);
+
+export interface ProjectPage<C extends ProjectCollection> {
+  items: ProjectCollectionTypes[C][];
+  hasMore: boolean;
+  cursor: PageCursor | null;
+}
+
+/**
+ * Load one page of a project's collection, starting after the cursor when given
+ */
+export const fetchProjectPage = async <C extends ProjectCollection>(
+  projectId: string,
+  collection: C,
+  cursor: PageCursor | null = null,
+  pageSize: number = PROJECT_PAGE_SIZE
+): Promise<ProjectPage<C>> => {
+  const { table, orderColumn, ascending, format } = COLLECTION_QUERIES[collection] as CollectionQuery<C>;
+
+  let query = supabase
+    .from(table)
+    .select('*')
+    .eq('project_id', projectId);
+
+  if (cursor) {
+    query = query.or(buildCursorFilter(orderColumn, cursor, ascending));
+  }
+
+  // One extra row tells whether another page exists
+  const { data, error } = await query
+    .order(orderColumn, { ascending })
+    .order('id', { ascending })
+    .limit(pageSize + 1);
+
+  if (error) {
+    throw new Error(`Failed to load ${collection}: ${error.message}`);
+  }
+
+  const page = splitPage((data || []) as ProjectRowTypes[C][], orderColumn as keyof ProjectRowTypes[C], pageSize);
+  return {
+    items: page.rows.map(format),
+    hasMore: page.hasMore,
+    cursor: page.cursor
+  };
+};
+
+/**
+ * Aggregate task, bug, feature, document and event counts for a project, computed in the database
+ */
+export const fetchProjectSummary = async (projectId: string): Promise<ProjectSummary> => {
+  const { data, error } = await supabase.rpc('get_project_summary', {
+    p_project_id: projectId
+  });
+
+  if (error) {
+    throw new Error(`Failed to load project summary: ${error.message}`);
+  }
+
+  return formatProjectSummary(data);
+};
+
+/**
+ * Load a project's fixed and verified bugs (used to link resolved bugs to conversations)
+ */
+export const fetchFixedBugs = async (projectId: string): Promise<Bug[]> => {
+  const { data, error } = await supabase
+    .from('bugs')
+    .select('*')
+    .eq('project_id', projectId)
+    .in('status', RESOLVED_BUG_STATUSES)
+    .order('updated_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load fixed bugs: ${error.message}`);
+  }
+
+  return (data || []).map(formatBugRow);
+};
@@ -0,0 +1,138 @@
+/**
+ * Realtime sync service
+ * Subscribes to Postgres changes on project data and merges them into the shared project data cache,
+ * so edits from the MCP server, the API, other browser tabs and teammates show up without a refresh
+ */
+
+import type { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { ProjectCollection, projectDataCache } from '../lib/projectDataCache';
+import { ProjectRowTypes, formatProjectRow } from './projectDataService';
+
+export type RealtimeStatus = 'idle' | 'connecting' | 'live' | 'reconnecting' | 'offline';
+
+export interface RealtimeState {
+  status: RealtimeStatus;
+  lastEventAt: Date | null;
+  error: string | null;
+}
+
+// Listeners cast `new` and `old` to the columns of their table
+export type RealtimeRowPayload = RealtimePostgresChangesPayload<{ id: string }>;
+
+// Tables merged into useSupabaseProjects
+const SYNCED_TABLES: Record<string, ProjectCollection> = {
+  documents: 'documents',
+  tasks: 'tasks',
+  bugs: 'bugs',
+  features: 'features',
+  feature_data: 'featureData',
+  calendar_events: 'events',
+  messages: 'messages'
+};
+
+// Conversations are kept by ConversationsTab; chat members and notifications feed the unread counts;
+// item revisions refresh open History panels. All listen through subscribeToTableChanges
+export const REALTIME_TABLES = [...Object.keys(SYNCED_TABLES), 'conversations', 'project_members', 'chat_notifications', 'item_revisions'];
+
+let channel: RealtimeChannel | null = null;
+let channelUserId: string | null = null;
+let hasConnected = false;
+let onResync: (() => void) | null = null;
+let state: RealtimeState = { status: 'idle', lastEventAt: null, error: null };
+
+const stateListeners = new Set<() => void>();
+const tableListeners = new Map<string, Set<(payload: RealtimeRowPayload) => void>>();
+
+const setState = (updates: Partial<RealtimeState>) => {
+  state = { ...state, ...updates };
+  stateListeners.forEach(listener => listener());
+};
+
+export const getRealtimeState = (): RealtimeState => state;
+
+export const subscribeToRealtimeState = (listener: () => void) => {
+  stateListeners.add(listener);
+  return () => {
+    stateListeners.delete(listener);
+  };
+};
+
+/**
+ * Listen for raw changes to one of the REALTIME_TABLES
+ */
+export const subscribeToTableChanges = (table: string, listener: (payload: RealtimeRowPayload) => void) => {
+  const listeners = tableListeners.get(table) || new Set();
+  listeners.add(listener);
+  tableListeners.set(table, listeners);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const handleChange = (payload: RealtimeRowPayload) => {
+  setState({ lastEventAt: new Date() });
+  tableListeners.get(payload.table)?.forEach(listener => listener(payload));
+
+  const collection = SYNCED_TABLES[payload.table];
+  if (!collection) return;
+
+  if (payload.eventType === 'DELETE') {
+    // Without REPLICA IDENTITY FULL, deletes only carry the primary key
+    const id = payload.old?.id;
+    if (id) {
+      projectDataCache.applyRemoteChange(collection, { type: 'delete', id });
+    }
+    return;
+  }
+
+  projectDataCache.applyRemoteChange(collection, {
+    type: 'upsert',
+    record: formatProjectRow(collection, payload.new as ProjectRowTypes[typeof collection])
+  });
+};
+
+/**
+ * Open the realtime channel for a signed-in user. Calling it again for the same user is a no-op.
+ * onResync runs after a reconnect, since changes made while disconnected were not delivered.
+ */
+export const startRealtimeSync = (userId: string, options: { onResync?: () => void } = {}) => {
+  if (channel && channelUserId === userId) return;
+  stopRealtimeSync();
+
+  channelUserId = userId;
+  onResync = options.onResync || null;
+  hasConnected = false;
+  setState({ status: 'connecting', error: null });
+
+  // RLS limits the delivered rows to the user's own projects
+  let next = supabase.channel(`project-data:${userId}`);
+  REALTIME_TABLES.forEach(table => {
+    next = next.on('postgres_changes', { event: '*', schema: 'public', table }, handleChange);
+  });
+
+  channel = next.subscribe((status, error) => {
+    if (status === 'SUBSCRIBED') {
+      if (hasConnected) {
+        onResync?.();
+      }
+      hasConnected = true;
+      setState({ status: 'live', error: null });
+    } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+      setState({ status: 'reconnecting', error: error?.message || null });
+    } else if (status === 'CLOSED' && channelUserId === userId) {
+      setState({ status: 'offline' });
+    }
+  });
+};
+
+export const stopRealtimeSync = () => {
+  const closing = channel;
+  channel = null;
+  channelUserId = null;
+  onResync = null;
+  if (closing) {
+    supabase.removeChannel(closing);
+  }
+  setState({ status: 'idle', lastEventAt: null, error: null });
+};
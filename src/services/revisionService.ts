@@ -0,0 +1,116 @@
+/**
+ * Revision service
+ * Reads an item's revision history and names snapshots; revisions themselves are recorded by database triggers on save
+ */
+
+import { supabase } from '../lib/supabase';
+import { Revision, RevisionItemType, validateRevisionName } from '../lib/revisions';
+
+interface RevisionRow {
+  id: string;
+  project_id: string | null;
+  item_type: RevisionItemType;
+  item_id: string;
+  title: string;
+  content: string;
+  name: string | null;
+  created_at: string;
+}
+
+export const formatRevisionRow = (row: RevisionRow): Revision => ({
+  id: row.id,
+  projectId: row.project_id,
+  itemType: row.item_type,
+  itemId: row.item_id,
+  title: row.title,
+  content: row.content,
+  name: row.name,
+  createdAt: new Date(row.created_at)
+});
+
+const getUserId = async (): Promise<string> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    throw new Error('User not authenticated. Please log in and try again.');
+  }
+  return user.id;
+};
+
+/**
+ * Load an item's revisions, newest first
+ */
+export const fetchRevisions = async (itemType: RevisionItemType, itemId: string): Promise<Revision[]> => {
+  const { data, error } = await supabase
+    .from('item_revisions')
+    .select('*')
+    .eq('item_type', itemType)
+    .eq('item_id', itemId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load history: ${error.message}`);
+  }
+
+  return (data || []).map(formatRevisionRow);
+};
+
+/**
+ * Name a revision as a snapshot, or clear its name with null
+ */
+export const nameRevision = async (id: string, name: string | null): Promise<Revision> => {
+  if (name !== null) {
+    const validationError = validateRevisionName(name);
+    if (validationError) throw new Error(validationError);
+  }
+
+  const { data, error } = await supabase
+    .from('item_revisions')
+    .update({ name: name === null ? null : name.trim() })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to name snapshot: ${error.message}`);
+  }
+
+  return formatRevisionRow(data);
+};
+
+/**
+ * Save the item's current content as a named snapshot. Names the latest
+ * revision when it already holds that content.
+ */
+export const createSnapshot = async (
+  item: { projectId: string | null; itemType: RevisionItemType; itemId: string; title: string; content: string },
+  name: string
+): Promise<Revision> => {
+  const validationError = validateRevisionName(name);
+  if (validationError) throw new Error(validationError);
+
+  const [latest] = await fetchRevisions(item.itemType, item.itemId);
+  if (latest && latest.content === item.content && !latest.name) {
+    return nameRevision(latest.id, name);
+  }
+
+  const userId = await getUserId();
+  const { data, error } = await supabase
+    .from('item_revisions')
+    .insert([{
+      user_id: userId,
+      project_id: item.projectId,
+      item_type: item.itemType,
+      item_id: item.itemId,
+      title: item.title,
+      content: item.content,
+      name: name.trim()
+    }])
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save snapshot: ${error.message}`);
+  }
+
+  return formatRevisionRow(data);
+};
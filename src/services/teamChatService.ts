@@ -0,0 +1,101 @@
+/**
+ * Team chat service
+ * Manages who is in a project's chat and reads the unread and mention counts shown in the Sidebar.
+ * Messages themselves go through useSupabaseProjects like the other project collections.
+ */
+
+import { supabase } from '../lib/supabase';
+import { ChatMember, ChatMemberRole } from '../lib/teamChat';
+
+interface ProjectMemberRow {
+  project_id: string;
+  user_id: string;
+  display_name: string;
+  role: ChatMemberRole;
+  last_read_at: string | null;
+}
+
+export interface ChatUnreadCount {
+  projectId: string;
+  unread: number;
+  mentions: number;
+}
+
+export const formatProjectMemberRow = (row: ProjectMemberRow): ChatMember => ({
+  projectId: row.project_id,
+  userId: row.user_id,
+  displayName: row.display_name,
+  role: row.role,
+  lastReadAt: row.last_read_at ? new Date(row.last_read_at) : null
+});
+
+/**
+ * Load a project's chat members, owner first
+ */
+export const fetchChatMembers = async (projectId: string): Promise<ChatMember[]> => {
+  const { data, error } = await supabase
+    .from('project_members')
+    .select('project_id, user_id, display_name, role, last_read_at')
+    .eq('project_id', projectId)
+    .order('role', { ascending: false })
+    .order('display_name', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load chat members: ${error.message}`);
+  }
+
+  return (data || []).map(formatProjectMemberRow);
+};
+
+/**
+ * Add someone with a RefBase account to a project's chat. Only the owner can do this.
+ */
+export const addChatMember = async (projectId: string, email: string): Promise<ChatMember> => {
+  const { data, error } = await supabase.rpc('add_project_member', { p_project_id: projectId, p_email: email.trim() });
+
+  if (error) {
+    throw new Error(error.code === 'P0002' ? `No RefBase account uses ${email.trim()}` : `Failed to add member: ${error.message}`);
+  }
+
+  return formatProjectMemberRow(data as ProjectMemberRow);
+};
+
+/**
+ * Remove a member from a project's chat, or leave it when userId is the current user
+ */
+export const removeChatMember = async (projectId: string, userId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('project_members')
+    .delete()
+    .eq('project_id', projectId)
+    .eq('user_id', userId);
+
+  if (error) {
+    throw new Error(`Failed to remove member: ${error.message}`);
+  }
+};
+
+/**
+ * Unread messages and unread mentions for every chat the user is in
+ */
+export const fetchChatUnreadCounts = async (): Promise<ChatUnreadCount[]> => {
+  const { data, error } = await supabase.rpc('get_chat_unread_counts');
+
+  if (error) {
+    throw new Error(`Failed to load unread messages: ${error.message}`);
+  }
+
+  return ((data || []) as Array<{ project_id: string; unread_count: number; mention_count: number }>).map(row => ({
+    projectId: row.project_id,
+    unread: Number(row.unread_count) || 0,
+    mentions: Number(row.mention_count) || 0
+  }));
+};
+
+export const markProjectChatRead = async (projectId: string): Promise<void> => {
+  const { error } = await supabase.rpc('mark_project_chat_read', { p_project_id: projectId });
+
+  if (error) {
+    throw new Error(`Failed to mark chat as read: ${error.message}`);
+  }
+};
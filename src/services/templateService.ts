@@ -0,0 +1,123 @@
+/**
+ * Template service
+ * Reads and writes the user's own templates; built-in templates come from src/lib/templates.ts
+ */
+
+import { supabase } from '../lib/supabase';
+import { Template, TemplateTarget, validateTemplate } from '../lib/templates';
+
+interface TemplateRow {
+  id: string;
+  project_id: string | null;
+  name: string;
+  description: string;
+  target: TemplateTarget;
+  item_type: string;
+  content: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TemplateFields {
+  // null shares the template across all projects
+  projectId: string | null;
+  name: string;
+  description: string;
+  target: TemplateTarget;
+  itemType: string;
+  content: string;
+}
+
+export const formatTemplateRow = (row: TemplateRow): Template => ({
+  id: row.id,
+  projectId: row.project_id,
+  name: row.name,
+  description: row.description || '',
+  target: row.target,
+  itemType: row.item_type,
+  content: row.content,
+  builtIn: false,
+  createdAt: new Date(row.created_at),
+  updatedAt: new Date(row.updated_at)
+});
+
+const toTemplateRow = (fields: TemplateFields) => ({
+  project_id: fields.projectId,
+  name: fields.name.trim(),
+  description: fields.description.trim(),
+  target: fields.target,
+  item_type: fields.itemType,
+  content: fields.content
+});
+
+const getUserId = async (): Promise<string> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    throw new Error('User not authenticated. Please log in and try again.');
+  }
+  return user.id;
+};
+
+/**
+ * Load the user's templates available in a project: its own and the shared ones
+ */
+export const fetchTemplates = async (projectId: string): Promise<Template[]> => {
+  const { data, error } = await supabase
+    .from('templates')
+    .select('*')
+    .or(`project_id.is.null,project_id.eq.${projectId}`)
+    .order('name', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load templates: ${error.message}`);
+  }
+
+  return (data || []).map(formatTemplateRow);
+};
+
+export const createTemplate = async (fields: TemplateFields): Promise<Template> => {
+  const validationError = validateTemplate(fields);
+  if (validationError) throw new Error(validationError);
+
+  const userId = await getUserId();
+  const { data, error } = await supabase
+    .from('templates')
+    .insert([{ user_id: userId, ...toTemplateRow(fields) }])
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save template: ${error.message}`);
+  }
+
+  return formatTemplateRow(data);
+};
+
+export const updateTemplate = async (id: string, fields: TemplateFields): Promise<Template> => {
+  const validationError = validateTemplate(fields);
+  if (validationError) throw new Error(validationError);
+
+  const { data, error } = await supabase
+    .from('templates')
+    .update(toTemplateRow(fields))
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to update template: ${error.message}`);
+  }
+
+  return formatTemplateRow(data);
+};
+
+export const deleteTemplate = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('templates')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    throw new Error(`Failed to delete template: ${error.message}`);
+  }
+};
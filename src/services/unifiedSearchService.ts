@@ -0,0 +1,56 @@
+/**
+ * Unified search service
+ * Runs /api/search with the signed-in user's session; ranking lives in src/lib/unifiedSearch.ts
+ */
+
+import { supabase } from '../lib/supabase';
+import { SearchEntityType, SearchResponse, createEmptyFacets } from '../lib/unifiedSearch';
+
+export interface UnifiedSearchOptions {
+  types?: SearchEntityType[];
+  projectId?: string | null;
+  limit?: number;
+}
+
+/**
+ * Searches every project item the user owns on the server, whether or not it is loaded in the app
+ * @param query - Search terms (supports quoted phrases)
+ * @param options - Type filter, project scope and result limit
+ * @returns Ranked results, with facet counts taken before the type filter
+ */
+export const searchEverything = async (
+  query: string,
+  options: UnifiedSearchOptions = {}
+): Promise<SearchResponse> => {
+  const trimmedQuery = query.trim();
+  if (!trimmedQuery) {
+    return { results: [], facets: createEmptyFacets(), total: 0 };
+  }
+
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.access_token) {
+    throw new Error('Sign in to search');
+  }
+
+  const params = new URLSearchParams({ q: trimmedQuery });
+  if (options.types && options.types.length > 0) {
+    params.set('types', options.types.join(','));
+  }
+  if (options.projectId) {
+    params.set('projectId', options.projectId);
+  }
+  if (options.limit) {
+    params.set('limit', String(options.limit));
+  }
+
+  const response = await fetch(`/api/search?${params}`, {
+    headers: { 'Authorization': `Bearer ${session.access_token}` }
+  });
+  const result = await response.json().catch(() => null);
+
+  if (!response.ok || !result?.success) {
+    throw new Error(result?.error || `Search failed with HTTP ${response.status}`);
+  }
+
+  return { results: result.data, facets: result.facets, total: result.total };
+};
@@ -20,6 +20,35 @@ export interface ProjectProgress {
   openBugs: number;
 }
 
+// Aggregate counts for one project, computed server-side by get_project_summary()
+export interface ProjectSummary {
+  tasks: {
+    total: number;
+    done: number;
+    highPriority: number;
+  };
+  bugs: {
+    total: number;
+    open: number;
+    // Open and in-progress bugs only
+    activeBySeverity: Record<'critical' | 'high' | 'medium' | 'low', number>;
+  };
+  features: {
+    total: number;
+    planned: number;
+    inProgress: number;
+    testing: number;
+    implemented: number;
+  };
+  documents: {
+    total: number;
+  };
+  events: {
+    total: number;
+    upcoming: number; // Next 30 days
+  };
+}
+
 export interface ActivityItem {
   id: string;
   type: 'task' | 'bug' | 'document' | 'feature';
@@ -58,11 +87,46 @@ export interface QuickAction {
 
 // New component interfaces for additional dashboard elements
 
+// Conversation fields needed for learning insights
+export interface LearningConversation {
+  id: string;
+  title: string;
+  summary: string;
+  tags: string[];
+  filesChanged: string[];
+  createdAt: Date;
+}
+
+export interface InsightItemRef {
+  type: 'conversation' | 'bug';
+  id: string;
+  title: string;
+  detail?: string;
+}
+
+export interface ReusedPattern {
+  tag: string;
+  conversations: InsightItemRef[];
+}
+
+export interface LearningTrendPoint {
+  weekStart: string;
+  conversations: number;
+  resolvedBugs: number;
+}
+
 export interface AILearningInsight {
   conversationCount: number;
-  successfulPatterns: number;
-  learningScore: number;
-  effectiveness: 'low' | 'medium' | 'high';
+  conversationTrend: { value: number; isPositive: boolean };
+  resolvedBugCount: number;
+  linkedResolvedBugCount: number;
+  linkedResolutionRate: number;
+  reusedPatternCount: number;
+  resolvedBugTrend: { value: number; isPositive: boolean };
+  trend: LearningTrendPoint[];
+  recentConversations: InsightItemRef[];
+  linkedBugs: InsightItemRef[];
+  patterns: ReusedPattern[];
 }
 
 export interface PriorityTask {
@@ -119,6 +183,8 @@ export interface QuickActionsProps {
 
 export interface AILearningInsightsProps {
   insights: AILearningInsight;
+  projectId: string;
+  loading?: boolean;
   className?: string;
 }
 
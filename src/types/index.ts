@@ -1,3 +1,7 @@
+import type { PatternCodeExample, PatternSource, PatternSourceType } from '../lib/patternExtraction';
+import type { BugStatus } from '../lib/bugStatus';
+import type { BugAnalysis } from '../lib/bugAnalysis';
+
 export interface Project {
   id: string;
   name: string;
@@ -5,6 +9,8 @@ export interface Project {
   icon: string;
   color: string;
   status?: 'planned' | 'in-progress' | 'implemented' | 'testing';
+  archivedAt?: Date; // Archived projects are hidden from the Sidebar
+  userId?: string; // Owner; teammates added to the chat only see the Chat tab
   createdAt: Date;
   updatedAt: Date;
 }
@@ -85,7 +91,7 @@ export interface Bug {
   content: string;
   type: 'ui-bug' | 'functional-bug' | 'performance-bug' | 'security-bug' | 'data-bug' | 'integration-bug';
   language?: string; // For syntax highlighting
-  status: 'open' | 'in-progress' | 'fixed' | 'wont-fix';
+  status: BugStatus;
   severity: 'low' | 'medium' | 'high' | 'critical';
   assignee?: string;
   attachments: string[];
@@ -96,6 +102,7 @@ export interface Bug {
   solution?: string; // Proposed solution or fix
   affectedFiles?: string[]; // Files affected by this bug
   errorMessages?: string[]; // Error messages associated with the bug
+  analysis?: BugAnalysis | null; // Latest result from the Analysis sub-tab
   createdAt: Date;
   updatedAt: Date;
 }
@@ -139,18 +146,43 @@ export interface FileItem {
   size: number;
   type: string;
   url: string;
+  storagePath?: string; // Object path in the project-files bucket
+  mimeType?: string;
   uploadedAt: Date;
 }
 
+export interface Pattern {
+  id: string;
+  projectId: string | null;
+  title: string;
+  description: string;
+  solution: string;
+  codeExamples: PatternCodeExample[];
+  techStack: string[];
+  tags: string[];
+  sourceType: PatternSourceType;
+  sources: PatternSource[]; // Conversations and bugs the pattern was extracted from
+  usageCount: number;
+  successCount: number;
+  lastUsedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 export interface ChatMessage {
   id: string;
   projectId: string;
+  userId?: string | null; // Older messages only have the author's name
   author: string;
   content: string;
+  parentId?: string | null; // Set on thread replies
+  mentions: string[]; // User ids of mentioned members
   timestamp: Date;
+  editedAt?: Date;
+  deletedAt?: Date; // Deleted messages keep their row so replies stay threaded
 }
 
-export type TabType = 'dashboard' | 'docs' | 'tasks' | 'features' | 'bugs' | 'conversations' | 'calendar' | 'files' | 'chat';
+export type TabType = 'dashboard' | 'docs' | 'tasks' | 'features' | 'bugs' | 'conversations' | 'patterns' | 'graph' | 'calendar' | 'files' | 'chat';
 
 // AI API Key Management Types
 export interface ApiKeyState {
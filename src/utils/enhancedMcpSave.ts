@@ -2,7 +2,7 @@
  * Enhanced MCP Save - Automatically captures real technical details from conversations
  */
 
-import { ConversationParser } from './conversationParser';
+import { ConversationParser } from '../lib/conversationParser';
 
 export interface EnhancedSaveParams {
   title: string;
@@ -3,7 +3,7 @@
  * Prepares conversations with complete technical context before MCP saving
  */
 
-import { enhanceConversationForMCP } from './conversationExtraction';
+import { enhanceConversationForMCP } from '../lib/conversationExtraction';
 import { supabase } from '../lib/supabase';
 
 export interface MCPConversationMessage {
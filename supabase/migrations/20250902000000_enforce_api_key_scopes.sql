@@ -0,0 +1,35 @@
+/*
+  # Enforce API Key Scopes
+
+  The API now checks each key's permissions and scopes on every /api route.
+  Until now every key was created with full read/write access over the four
+  original scopes, so existing keys are migrated to keep working unchanged.
+
+  Changes:
+  - Add the 'projects' scope (covers /api/projects)
+  - Grant 'projects' to existing keys that already had every original scope
+  - Constrain scopes to the known set and require at least one scope and permission
+*/
+
+-- Default new keys to every scope
+ALTER TABLE api_keys
+  ALTER COLUMN scopes SET DEFAULT ARRAY['conversations', 'bugs', 'features', 'documents', 'projects'];
+
+-- Existing full-access keys keep full access
+UPDATE api_keys
+SET scopes = array_append(scopes, 'projects')
+WHERE scopes @> ARRAY['conversations', 'bugs', 'features', 'documents']
+  AND NOT ('projects' = ANY(scopes));
+
+-- Only allow known scopes
+ALTER TABLE api_keys DROP CONSTRAINT IF EXISTS api_keys_scopes_valid;
+ALTER TABLE api_keys ADD CONSTRAINT api_keys_scopes_valid CHECK (
+  array_length(scopes, 1) >= 1 AND
+  scopes <@ ARRAY['conversations', 'bugs', 'features', 'documents', 'projects']
+);
+
+-- A key without permissions can never be used
+ALTER TABLE api_keys DROP CONSTRAINT IF EXISTS api_keys_permissions_not_empty;
+ALTER TABLE api_keys ADD CONSTRAINT api_keys_permissions_not_empty CHECK (
+  jsonb_array_length(permissions) >= 1
+);
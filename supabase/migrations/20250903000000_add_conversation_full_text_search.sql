@@ -0,0 +1,162 @@
+/*
+  # Conversation Full-Text Search
+
+  Conversations were only searchable by title. MCP clients search for error
+  strings and API names that appear inside the conversation body, so this
+  migration indexes the whole conversation with weighted full-text search.
+
+  Weights:
+  - A: title
+  - B: implementation_summary, tags
+  - C: files_changed, code_changes (file paths and change summaries)
+  - D: message content
+
+  New objects:
+  - conversations.search_vector column, kept current by a trigger
+  - conversation_search_text() helper that flattens searchable body text
+  - search_conversations() RPC returning a relevance rank and highlighted snippets
+*/
+
+-- Flatten message content and code change summaries into plain text
+CREATE OR REPLACE FUNCTION conversation_search_text(
+  p_messages jsonb,
+  p_code_changes jsonb
+)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT concat_ws(' ',
+    (
+      SELECT string_agg(
+        CASE jsonb_typeof(message->'content')
+          WHEN 'string' THEN message->>'content'
+          ELSE (message->'content')::text
+        END, ' ')
+      FROM jsonb_array_elements(
+        CASE WHEN jsonb_typeof(p_messages) = 'array' THEN p_messages ELSE '[]'::jsonb END
+      ) AS message
+    ),
+    (
+      SELECT string_agg(concat_ws(' ', change->>'file_path', change->>'change_summary'), ' ')
+      FROM jsonb_array_elements(
+        CASE WHEN jsonb_typeof(p_code_changes) = 'array' THEN p_code_changes ELSE '[]'::jsonb END
+      ) AS change
+    )
+  );
+$$;
+
+-- Add the search vector column
+ALTER TABLE conversations
+ADD COLUMN IF NOT EXISTS search_vector tsvector;
+
+COMMENT ON COLUMN conversations.search_vector IS 'Weighted full-text index over title, summary, tags, changed files and message content';
+
+-- Keep the search vector current
+CREATE OR REPLACE FUNCTION update_conversation_search_vector()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.search_vector :=
+    setweight(to_tsvector('english', coalesce(NEW.title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(NEW.implementation_summary, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(array_to_string(NEW.tags, ' '), '')), 'B') ||
+    setweight(to_tsvector('simple', coalesce(array_to_string(NEW.files_changed, ' '), '')), 'C') ||
+    setweight(to_tsvector('simple', coalesce(
+      (SELECT string_agg(change->>'file_path', ' ')
+       FROM jsonb_array_elements(
+         CASE WHEN jsonb_typeof(NEW.code_changes) = 'array' THEN NEW.code_changes ELSE '[]'::jsonb END
+       ) AS change), '')), 'C') ||
+    setweight(to_tsvector('english', coalesce(conversation_search_text(NEW.messages, NEW.code_changes), '')), 'D');
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS conversations_search_vector_trigger ON conversations;
+CREATE TRIGGER conversations_search_vector_trigger
+  BEFORE INSERT OR UPDATE OF title, implementation_summary, tags, files_changed, code_changes, messages
+  ON conversations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_conversation_search_vector();
+
+-- Backfill existing rows without touching updated_at
+ALTER TABLE conversations DISABLE TRIGGER update_conversations_updated_at;
+UPDATE conversations SET title = title;
+ALTER TABLE conversations ENABLE TRIGGER update_conversations_updated_at;
+
+CREATE INDEX IF NOT EXISTS conversations_search_vector_idx
+ON conversations USING GIN(search_vector);
+
+-- Ranked search with highlighted snippets.
+-- SECURITY INVOKER so RLS still applies when called from the browser;
+-- the API passes p_user_id explicitly because it uses the service role.
+CREATE OR REPLACE FUNCTION search_conversations(
+  search_query text,
+  p_user_id uuid DEFAULT NULL,
+  p_project_id uuid DEFAULT NULL,
+  p_project_name text DEFAULT NULL,
+  p_tags text[] DEFAULT NULL,
+  match_limit integer DEFAULT 10,
+  match_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  messages jsonb,
+  tags text[],
+  project_context jsonb,
+  project_id uuid,
+  source text,
+  created_at timestamptz,
+  updated_at timestamptz,
+  technical_details jsonb,
+  implementation_summary text,
+  files_changed text[],
+  code_changes jsonb,
+  tool_usage jsonb,
+  rank real,
+  title_highlight text,
+  snippet text
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', search_query) AS q
+  ),
+  ranked AS (
+    SELECT c.*, ts_rank_cd(c.search_vector, query.q, 32) AS match_rank, query.q
+    FROM conversations c, query
+    WHERE c.search_vector @@ query.q
+      AND c.user_id = coalesce(p_user_id, auth.uid())
+      AND (p_project_id IS NULL OR c.project_id = p_project_id)
+      AND (p_project_name IS NULL OR c.project_context->>'projectName' ILIKE '%' || p_project_name || '%')
+      AND (p_tags IS NULL OR c.tags && p_tags)
+    ORDER BY match_rank DESC, c.created_at DESC
+    LIMIT match_limit
+    OFFSET match_offset
+  )
+  SELECT
+    r.id, r.title, r.messages, r.tags, r.project_context, r.project_id, r.source,
+    r.created_at, r.updated_at,
+    r.technical_details, r.implementation_summary, r.files_changed,
+    r.code_changes, r.tool_usage,
+    r.match_rank AS rank,
+    ts_headline('english', r.title, r.q,
+      'StartSel=<mark>, StopSel=</mark>, HighlightAll=true') AS title_highlight,
+    ts_headline('english',
+      left(concat_ws(' ', r.implementation_summary, array_to_string(r.files_changed, ' '),
+        conversation_search_text(r.messages, r.code_changes)), 100000),
+      r.q,
+      'StartSel=<mark>, StopSel=</mark>, MaxFragments=3, MaxWords=20, MinWords=8, FragmentDelimiter=" … "') AS snippet
+  FROM ranked r
+  ORDER BY r.match_rank DESC, r.created_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION conversation_search_text(jsonb, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION search_conversations(text, uuid, uuid, text, text[], integer, integer) TO authenticated;
@@ -0,0 +1,103 @@
+/*
+  # Embeddings for Semantic Similarity
+
+  Stores one vector per conversation, bug and feature so the API can answer
+  "what does this look like" queries (GET /api/similar).
+
+  Vectors are tagged with the provider that produced them. Providers have
+  different dimensions, so the column is an untyped vector and matching only
+  compares rows from the same provider.
+
+  New objects:
+  - pgvector extension
+  - embeddings table (one row per entity and provider)
+  - match_embeddings() RPC returning the nearest entities by cosine similarity,
+    optionally only those created before a given time
+*/
+
+CREATE EXTENSION IF NOT EXISTS vector;
+
+CREATE TABLE IF NOT EXISTS embeddings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  entity_type text NOT NULL CHECK (entity_type IN ('conversation', 'bug', 'feature')),
+  entity_id uuid NOT NULL,
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE,
+  provider text NOT NULL,
+  dimensions integer NOT NULL CHECK (dimensions > 0),
+  embedding vector NOT NULL,
+  content_hash text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (entity_type, entity_id, provider)
+);
+
+COMMENT ON TABLE embeddings IS 'Semantic vectors for conversations, bugs and features, one per provider';
+COMMENT ON COLUMN embeddings.content_hash IS 'Hash of the embedded text; rows are re-embedded when it changes';
+
+ALTER TABLE embeddings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own embeddings" ON embeddings
+  FOR ALL TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS embeddings_user_provider_idx
+ON embeddings(user_id, provider, entity_type);
+
+CREATE TRIGGER update_embeddings_updated_at
+  BEFORE UPDATE ON embeddings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Nearest neighbours for one user's entities.
+-- SECURITY INVOKER so RLS still applies when called from the browser;
+-- the API passes p_user_id explicitly because it uses the service role.
+CREATE OR REPLACE FUNCTION match_embeddings(
+  query_embedding vector,
+  p_provider text,
+  p_user_id uuid DEFAULT NULL,
+  p_entity_types text[] DEFAULT ARRAY['conversation', 'bug', 'feature'],
+  p_exclude_id uuid DEFAULT NULL,
+  p_project_id uuid DEFAULT NULL,
+  p_created_before timestamptz DEFAULT NULL,
+  match_count integer DEFAULT 5,
+  min_similarity real DEFAULT 0
+)
+RETURNS TABLE (
+  entity_type text,
+  entity_id uuid,
+  project_id uuid,
+  similarity real
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT *
+  FROM (
+    SELECT
+      e.entity_type,
+      e.entity_id,
+      e.project_id,
+      (1 - (e.embedding <=> query_embedding))::real AS similarity
+    FROM embeddings e
+    WHERE e.user_id = coalesce(p_user_id, auth.uid())
+      AND e.provider = p_provider
+      AND e.dimensions = vector_dims(query_embedding)
+      AND e.entity_type = ANY(p_entity_types)
+      AND (p_exclude_id IS NULL OR e.entity_id <> p_exclude_id)
+      AND (p_project_id IS NULL OR e.project_id = p_project_id)
+      AND (p_created_before IS NULL OR CASE e.entity_type
+        WHEN 'conversation' THEN (SELECT c.created_at FROM conversations c WHERE c.id = e.entity_id)
+        WHEN 'bug' THEN (SELECT b.created_at FROM bugs b WHERE b.id = e.entity_id)
+        WHEN 'feature' THEN (SELECT f.created_at FROM features f WHERE f.id = e.entity_id)
+      END < p_created_before)
+  ) matches
+  WHERE matches.similarity >= min_similarity
+  ORDER BY matches.similarity DESC
+  LIMIT match_count;
+$$;
+
+GRANT EXECUTE ON FUNCTION match_embeddings(vector, text, uuid, text[], uuid, uuid, timestamptz, integer, real) TO authenticated;
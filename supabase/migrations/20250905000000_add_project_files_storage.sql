@@ -0,0 +1,112 @@
+/*
+  # Project Files Storage
+
+  The Files tab now uploads real files. Objects live in a private
+  `project-files` bucket under `project-id/filename`; the existing `files`
+  table keeps the metadata shown in the UI.
+
+  Changes:
+  - Create the private project-files bucket (50MB per file, any type)
+  - Storage policies scoped to projects the user owns
+  - Add storage_path, mime_type, uploaded_by and updated_at to files
+  - get_storage_usage() RPC reporting bytes used per bucket and project
+*/
+
+-- Create the project-files bucket
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM storage.buckets WHERE id = 'project-files'
+  ) THEN
+    INSERT INTO storage.buckets (id, name, public, file_size_limit)
+    VALUES (
+      'project-files',
+      'project-files',
+      false,    -- Private bucket, served through signed URLs
+      52428800  -- 50MB file size limit
+    );
+  END IF;
+END $$;
+
+-- Storage policies: the first path segment is the project id
+CREATE POLICY "Users can upload files to own projects" ON storage.objects
+FOR INSERT
+WITH CHECK (
+  bucket_id = 'project-files'
+  AND auth.uid() IS NOT NULL
+  AND EXISTS (
+    SELECT 1 FROM projects p
+    WHERE p.id::text = split_part(name, '/', 1)
+      AND p.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can view files from own projects" ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'project-files'
+  AND auth.uid() IS NOT NULL
+  AND EXISTS (
+    SELECT 1 FROM projects p
+    WHERE p.id::text = split_part(name, '/', 1)
+      AND p.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can delete files from own projects" ON storage.objects
+FOR DELETE
+USING (
+  bucket_id = 'project-files'
+  AND auth.uid() IS NOT NULL
+  AND EXISTS (
+    SELECT 1 FROM projects p
+    WHERE p.id::text = split_part(name, '/', 1)
+      AND p.user_id = auth.uid()
+  )
+);
+
+-- File metadata columns
+ALTER TABLE files ADD COLUMN IF NOT EXISTS storage_path text;
+ALTER TABLE files ADD COLUMN IF NOT EXISTS mime_type text;
+ALTER TABLE files ADD COLUMN IF NOT EXISTS uploaded_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE files ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now();
+
+COMMENT ON COLUMN files.storage_path IS 'Object path in the project-files bucket (project-id/filename)';
+COMMENT ON COLUMN files.name IS 'Display name; renaming a file does not move the stored object';
+
+CREATE INDEX IF NOT EXISTS idx_files_project_id ON files(project_id);
+
+DROP TRIGGER IF EXISTS update_files_updated_at ON files;
+CREATE TRIGGER update_files_updated_at
+  BEFORE UPDATE ON files
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Bytes used per bucket and project, across project files and bug images.
+-- SECURITY DEFINER because storage.objects is not readable in aggregate;
+-- results are limited to the caller's own projects.
+CREATE OR REPLACE FUNCTION get_storage_usage()
+RETURNS TABLE (
+  bucket_id text,
+  project_id uuid,
+  total_bytes bigint,
+  object_count bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    o.bucket_id,
+    p.id AS project_id,
+    coalesce(sum((o.metadata->>'size')::bigint), 0)::bigint AS total_bytes,
+    count(*)::bigint AS object_count
+  FROM storage.objects o
+  JOIN projects p ON p.id::text = split_part(o.name, '/', 1)
+  WHERE o.bucket_id IN ('project-files', 'bug-images')
+    AND p.user_id = auth.uid()
+  GROUP BY o.bucket_id, p.id;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_storage_usage() TO authenticated;
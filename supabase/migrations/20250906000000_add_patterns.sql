@@ -0,0 +1,102 @@
+/*
+  # Pattern Library
+
+  Reusable solution patterns extracted from conversations (implementation
+  summary and code changes) and from fixed bugs (solution). Patterns record
+  how often they were reused and how often that reuse worked, and keep links
+  back to the items they came from.
+
+  Changes:
+  - Create the patterns table with RLS and an updated_at trigger
+  - record_pattern_usage() RPC to count a reuse and its outcome atomically
+  - Add the 'patterns' API key scope; keys that can read conversations get it
+*/
+
+CREATE TABLE IF NOT EXISTS patterns (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  project_id uuid REFERENCES projects(id) ON DELETE SET NULL,
+  title text NOT NULL,
+  description text DEFAULT '',
+  solution text NOT NULL DEFAULT '',
+  code_examples jsonb NOT NULL DEFAULT '[]'::jsonb,
+  tech_stack text[] NOT NULL DEFAULT ARRAY[]::text[],
+  tags text[] NOT NULL DEFAULT ARRAY[]::text[],
+  source_type text NOT NULL DEFAULT 'manual' CHECK (source_type IN ('conversation', 'bug', 'manual')),
+  sources jsonb NOT NULL DEFAULT '[]'::jsonb,
+  usage_count integer NOT NULL DEFAULT 0 CHECK (usage_count >= 0),
+  success_count integer NOT NULL DEFAULT 0 CHECK (success_count >= 0),
+  last_used_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT patterns_success_within_usage CHECK (success_count <= usage_count)
+);
+
+COMMENT ON COLUMN patterns.code_examples IS 'Array of { filePath, language, code, summary }';
+COMMENT ON COLUMN patterns.tech_stack IS 'Lowercase technology names, e.g. react, supabase, typescript';
+COMMENT ON COLUMN patterns.sources IS 'Items the pattern was extracted from: array of { type, id, title }';
+
+ALTER TABLE patterns ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own patterns" ON patterns
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own patterns" ON patterns
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own patterns" ON patterns
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own patterns" ON patterns
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_patterns_user_id ON patterns(user_id);
+CREATE INDEX IF NOT EXISTS idx_patterns_project_id ON patterns(project_id);
+CREATE INDEX IF NOT EXISTS idx_patterns_tech_stack ON patterns USING GIN(tech_stack);
+CREATE INDEX IF NOT EXISTS idx_patterns_tags ON patterns USING GIN(tags);
+CREATE INDEX IF NOT EXISTS idx_patterns_sources ON patterns USING GIN(sources jsonb_path_ops);
+
+DROP TRIGGER IF EXISTS update_patterns_updated_at ON patterns;
+CREATE TRIGGER update_patterns_updated_at
+  BEFORE UPDATE ON patterns
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Count one reuse of a pattern; p_success records whether it worked.
+-- Returns the updated row, or nothing if the pattern is not the user's.
+CREATE OR REPLACE FUNCTION record_pattern_usage(
+  p_pattern_id uuid,
+  p_success boolean DEFAULT NULL,
+  p_user_id uuid DEFAULT NULL
+)
+RETURNS SETOF patterns
+LANGUAGE sql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  UPDATE patterns
+  SET
+    usage_count = usage_count + 1,
+    success_count = success_count + CASE WHEN p_success THEN 1 ELSE 0 END,
+    last_used_at = now()
+  WHERE id = p_pattern_id
+    AND user_id = coalesce(p_user_id, auth.uid())
+  RETURNING *;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_pattern_usage(uuid, boolean, uuid) TO authenticated;
+
+-- API key scope for /api/patterns
+ALTER TABLE api_keys
+  ALTER COLUMN scopes SET DEFAULT ARRAY['conversations', 'bugs', 'features', 'documents', 'projects', 'patterns'];
+
+UPDATE api_keys
+SET scopes = array_append(scopes, 'patterns')
+WHERE 'conversations' = ANY(scopes)
+  AND NOT ('patterns' = ANY(scopes));
+
+ALTER TABLE api_keys DROP CONSTRAINT IF EXISTS api_keys_scopes_valid;
+ALTER TABLE api_keys ADD CONSTRAINT api_keys_scopes_valid CHECK (
+  array_length(scopes, 1) >= 1 AND
+  scopes <@ ARRAY['conversations', 'bugs', 'features', 'documents', 'projects', 'patterns']
+);
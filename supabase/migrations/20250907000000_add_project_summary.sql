@@ -0,0 +1,92 @@
+/*
+  # Project summary counts and pagination indexes
+
+  The client no longer loads every row of every project on sign-in. Project
+  collections are fetched per project in keyset pages ordered by (column, id),
+  and the Dashboard reads its numbers from an aggregate RPC instead of
+  counting rows in the browser.
+
+  Changes:
+  - get_project_summary() RPC returning task, bug, feature, document and
+    calendar event counts for one project
+  - (project_id, order column, id) indexes backing the keyset pagination
+*/
+
+-- Counts for one project as jsonb. SECURITY INVOKER, so RLS limits the
+-- counted rows to projects the caller can see.
+CREATE OR REPLACE FUNCTION get_project_summary(p_project_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'tasks', (
+      SELECT jsonb_build_object(
+        'total', count(*),
+        'done', count(*) FILTER (WHERE status = 'done'),
+        'high_priority', count(*) FILTER (WHERE priority = 'high')
+      )
+      FROM tasks
+      WHERE project_id = p_project_id
+    ),
+    'bugs', (
+      SELECT jsonb_build_object(
+        'total', count(*),
+        'open', count(*) FILTER (WHERE status = 'open'),
+        'active_by_severity', jsonb_build_object(
+          'critical', count(*) FILTER (WHERE severity = 'critical' AND status IN ('open', 'in-progress')),
+          'high', count(*) FILTER (WHERE severity = 'high' AND status IN ('open', 'in-progress')),
+          'medium', count(*) FILTER (WHERE severity = 'medium' AND status IN ('open', 'in-progress')),
+          'low', count(*) FILTER (WHERE severity = 'low' AND status IN ('open', 'in-progress'))
+        )
+      )
+      FROM bugs
+      WHERE project_id = p_project_id
+    ),
+    'features', (
+      SELECT jsonb_build_object(
+        'total', count(*),
+        'planned', count(*) FILTER (WHERE coalesce(status, 'planned') = 'planned'),
+        'in_progress', count(*) FILTER (WHERE status = 'in-progress'),
+        'testing', count(*) FILTER (WHERE status = 'testing'),
+        'implemented', count(*) FILTER (WHERE status = 'implemented')
+      )
+      FROM features
+      WHERE project_id = p_project_id
+    ),
+    'documents', (
+      SELECT jsonb_build_object('total', count(*))
+      FROM documents
+      WHERE project_id = p_project_id
+    ),
+    'events', (
+      SELECT jsonb_build_object(
+        'total', count(*),
+        'upcoming', count(*) FILTER (WHERE event_date > current_date AND event_date <= current_date + 30)
+      )
+      FROM calendar_events
+      WHERE project_id = p_project_id
+    )
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION get_project_summary(uuid) TO authenticated;
+
+-- Keyset pagination indexes (see fetchProjectPage in src/services/projectDataService.ts)
+CREATE INDEX IF NOT EXISTS idx_documents_project_created_id ON documents(project_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_tasks_project_created_id ON tasks(project_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_features_project_created_id ON features(project_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_bugs_project_created_id ON bugs(project_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_calendar_events_project_date_id ON calendar_events(project_id, event_date DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_files_project_uploaded_id ON files(project_id, uploaded_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_messages_project_timestamp_id ON messages(project_id, timestamp DESC, id DESC);
+
+-- feature_data is created outside these migrations
+DO $$
+BEGIN
+  IF to_regclass('public.feature_data') IS NOT NULL THEN
+    CREATE INDEX IF NOT EXISTS idx_feature_data_project_created_id ON feature_data(project_id, created_at, id);
+  END IF;
+END $$;
@@ -0,0 +1,33 @@
+/*
+  # Realtime sync for project data
+
+  The client subscribes to Postgres changes on project data so that edits made
+  through the API, the MCP server, other browser tabs or teammates appear
+  without a refresh. Supabase only broadcasts changes for tables in the
+  supabase_realtime publication; RLS still decides which rows each subscriber
+  receives.
+
+  Changes:
+  - Add tasks, bugs, features, feature_data, conversations and calendar_events
+    to the supabase_realtime publication (skipping tables that are missing or
+    already published)
+*/
+
+DO $$
+DECLARE
+  t text;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    CREATE PUBLICATION supabase_realtime;
+  END IF;
+
+  FOREACH t IN ARRAY ARRAY['tasks', 'bugs', 'features', 'feature_data', 'conversations', 'calendar_events']
+  LOOP
+    IF to_regclass('public.' || t) IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = t
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', t);
+    END IF;
+  END LOOP;
+END $$;
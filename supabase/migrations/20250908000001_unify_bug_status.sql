@@ -0,0 +1,93 @@
+/*
+  # Unified bug status model
+
+  The API accepted 'resolved' where the UI and the bugs table use 'fixed', so
+  bugs closed through MCP and bugs closed in the Bugs tab did not line up on
+  the dashboard. Both now share the status model in src/lib/bugStatus.ts,
+  which adds a verification and reopen lifecycle:
+
+    open -> in-progress -> fixed -> verified
+    fixed / verified / wont-fix -> reopened
+
+  Changes:
+  - Map legacy status values to the shared vocabulary ('resolved' -> 'fixed',
+    'closed' -> 'verified'); anything else unknown becomes 'open'
+  - Replace bugs_status_check with the new set of statuses
+  - get_project_summary() counts reopened bugs as open and active
+*/
+
+UPDATE bugs SET status = 'fixed' WHERE status = 'resolved';
+UPDATE bugs SET status = 'verified' WHERE status = 'closed';
+UPDATE bugs SET status = 'wont-fix' WHERE status = 'wontfix';
+UPDATE bugs SET status = 'in-progress' WHERE status = 'in_progress';
+UPDATE bugs SET status = 'open'
+WHERE status IS NULL
+   OR status NOT IN ('open', 'in-progress', 'fixed', 'verified', 'wont-fix', 'reopened');
+
+ALTER TABLE bugs DROP CONSTRAINT IF EXISTS bugs_status_check;
+ALTER TABLE bugs
+ADD CONSTRAINT bugs_status_check
+CHECK (status IN ('open', 'in-progress', 'fixed', 'verified', 'wont-fix', 'reopened'));
+
+COMMENT ON COLUMN bugs.status IS 'Bug lifecycle status (open, in-progress, fixed, verified, wont-fix, reopened); transitions are enforced by the API';
+
+-- Same as 20250907000000_add_project_summary.sql, with reopened bugs counted as open
+CREATE OR REPLACE FUNCTION get_project_summary(p_project_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'tasks', (
+      SELECT jsonb_build_object(
+        'total', count(*),
+        'done', count(*) FILTER (WHERE status = 'done'),
+        'high_priority', count(*) FILTER (WHERE priority = 'high')
+      )
+      FROM tasks
+      WHERE project_id = p_project_id
+    ),
+    'bugs', (
+      SELECT jsonb_build_object(
+        'total', count(*),
+        'open', count(*) FILTER (WHERE status IN ('open', 'reopened')),
+        'active_by_severity', jsonb_build_object(
+          'critical', count(*) FILTER (WHERE severity = 'critical' AND status IN ('open', 'in-progress', 'reopened')),
+          'high', count(*) FILTER (WHERE severity = 'high' AND status IN ('open', 'in-progress', 'reopened')),
+          'medium', count(*) FILTER (WHERE severity = 'medium' AND status IN ('open', 'in-progress', 'reopened')),
+          'low', count(*) FILTER (WHERE severity = 'low' AND status IN ('open', 'in-progress', 'reopened'))
+        )
+      )
+      FROM bugs
+      WHERE project_id = p_project_id
+    ),
+    'features', (
+      SELECT jsonb_build_object(
+        'total', count(*),
+        'planned', count(*) FILTER (WHERE coalesce(status, 'planned') = 'planned'),
+        'in_progress', count(*) FILTER (WHERE status = 'in-progress'),
+        'testing', count(*) FILTER (WHERE status = 'testing'),
+        'implemented', count(*) FILTER (WHERE status = 'implemented')
+      )
+      FROM features
+      WHERE project_id = p_project_id
+    ),
+    'documents', (
+      SELECT jsonb_build_object('total', count(*))
+      FROM documents
+      WHERE project_id = p_project_id
+    ),
+    'events', (
+      SELECT jsonb_build_object(
+        'total', count(*),
+        'upcoming', count(*) FILTER (WHERE event_date > current_date AND event_date <= current_date + 30)
+      )
+      FROM calendar_events
+      WHERE project_id = p_project_id
+    )
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION get_project_summary(uuid) TO authenticated;
@@ -0,0 +1,31 @@
+/*
+  # API key scopes for tasks and the calendar
+
+  The API now has CRUD routes for tasks (/api/tasks), calendar events
+  (/api/calendar-events) and timeline trackers (/api/trackers), so MCP agents
+  can create tasks from a plan, close them and add milestones.
+
+  Changes:
+  - New `tasks` and `calendar` scopes, included in the default scopes
+  - Existing keys with the `projects` scope get both, since /api/search
+    previously returned tasks under `projects`
+*/
+
+ALTER TABLE api_keys
+  ALTER COLUMN scopes SET DEFAULT ARRAY['conversations', 'bugs', 'features', 'documents', 'projects', 'patterns', 'tasks', 'calendar'];
+
+UPDATE api_keys
+SET scopes = array_append(scopes, 'tasks')
+WHERE 'projects' = ANY(scopes)
+  AND NOT ('tasks' = ANY(scopes));
+
+UPDATE api_keys
+SET scopes = array_append(scopes, 'calendar')
+WHERE 'projects' = ANY(scopes)
+  AND NOT ('calendar' = ANY(scopes));
+
+ALTER TABLE api_keys DROP CONSTRAINT IF EXISTS api_keys_scopes_valid;
+ALTER TABLE api_keys ADD CONSTRAINT api_keys_scopes_valid CHECK (
+  array_length(scopes, 1) >= 1 AND
+  scopes <@ ARRAY['conversations', 'bugs', 'features', 'documents', 'projects', 'patterns', 'tasks', 'calendar']
+);
@@ -0,0 +1,48 @@
+/*
+  # Project archiving and list stats
+
+  MCP clients list projects to find the projectId to attach work to, and
+  finished projects can be archived instead of deleted. Archived projects are
+  hidden from the Sidebar and from GET /api/projects unless asked for.
+
+  Changes:
+  - `archived_at` column on projects (null while the project is active)
+  - get_project_stats() RPC returning item counts for several projects at once
+*/
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS archived_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_projects_user_archived ON projects(user_id, archived_at);
+
+-- Counts per project for project lists. SECURITY INVOKER, so RLS limits the
+-- counted rows to projects the caller can see.
+CREATE OR REPLACE FUNCTION get_project_stats(p_project_ids uuid[])
+RETURNS TABLE (
+  project_id uuid,
+  conversations bigint,
+  bugs bigint,
+  open_bugs bigint,
+  features bigint,
+  documents bigint,
+  tasks bigint,
+  open_tasks bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    (SELECT count(*) FROM conversations c WHERE c.project_id = p.id),
+    (SELECT count(*) FROM bugs b WHERE b.project_id = p.id),
+    (SELECT count(*) FROM bugs b WHERE b.project_id = p.id AND b.status IN ('open', 'reopened')),
+    (SELECT count(*) FROM features f WHERE f.project_id = p.id),
+    (SELECT count(*) FROM documents d WHERE d.project_id = p.id),
+    (SELECT count(*) FROM tasks t WHERE t.project_id = p.id),
+    (SELECT count(*) FROM tasks t WHERE t.project_id = p.id AND t.status <> 'done')
+  FROM projects p
+  WHERE p.id = ANY(p_project_ids);
+$$;
+
+GRANT EXECUTE ON FUNCTION get_project_stats(uuid[]) TO authenticated;
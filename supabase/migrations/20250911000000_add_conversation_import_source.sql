@@ -0,0 +1,18 @@
+/*
+  # Imported conversations
+
+  Conversations can now be imported from Claude Code session transcripts,
+  Cursor and ChatGPT exports and Markdown transcripts (see
+  src/lib/conversationImport.ts). They are shown as message threads like MCP
+  conversations, not in the manual session editor, so they get their own source.
+
+  Changes:
+  - Allow 'import' in conversations.source
+*/
+
+ALTER TABLE conversations DROP CONSTRAINT IF EXISTS conversations_source_check;
+ALTER TABLE conversations
+ADD CONSTRAINT conversations_source_check
+CHECK (source IN ('manual', 'mcp', 'import'));
+
+COMMENT ON COLUMN conversations.source IS 'Where the conversation came from: manual (session editor), mcp (MCP server / API) or import (exported transcript)';
@@ -0,0 +1,15 @@
+/*
+  # Bug analysis
+
+  The Analysis sub-tab in the Bugs tab compares a bug with similar past bugs
+  and the conversations that changed its files, and can ask the configured AI
+  provider for a root-cause hypothesis and fix plan (see src/lib/bugAnalysis.ts).
+  The latest result is kept on the bug so it does not have to be regenerated.
+
+  Changes:
+  - Add bugs.analysis (jsonb, null until the bug is analysed)
+*/
+
+ALTER TABLE bugs ADD COLUMN IF NOT EXISTS analysis jsonb;
+
+COMMENT ON COLUMN bugs.analysis IS 'Latest bug analysis: similar bugs, related conversations and an optional AI root-cause hypothesis';
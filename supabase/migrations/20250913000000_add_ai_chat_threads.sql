@@ -0,0 +1,44 @@
+/*
+  # AI Chat Threads
+
+  Project-aware AI chat history. Each thread belongs to one project and keeps
+  its messages in order, including the project items retrieved as context for
+  each answer, so a thread can be reopened and continued later.
+
+  Changes:
+  - Create the ai_chat_threads table with RLS and an updated_at trigger
+*/
+
+CREATE TABLE IF NOT EXISTS ai_chat_threads (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  title text NOT NULL DEFAULT 'New chat',
+  messages jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+COMMENT ON COLUMN ai_chat_threads.messages IS 'Array of { id, role, content, createdAt, model?, context? } where context lists the { type, id, title } items sent with the question';
+
+ALTER TABLE ai_chat_threads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own AI chat threads" ON ai_chat_threads
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own AI chat threads" ON ai_chat_threads
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own AI chat threads" ON ai_chat_threads
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own AI chat threads" ON ai_chat_threads
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_ai_chat_threads_project_updated ON ai_chat_threads(project_id, updated_at DESC);
+
+DROP TRIGGER IF EXISTS update_ai_chat_threads_updated_at ON ai_chat_threads;
+CREATE TRIGGER update_ai_chat_threads_updated_at
+  BEFORE UPDATE ON ai_chat_threads
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,91 @@
+/*
+  # Item Links
+
+  Typed relationships between knowledge items, so conversations can be tied to
+  the bugs they fixed and the features they implemented, bugs can be marked as
+  duplicates or causes of other bugs, and documents can be attached to features.
+  The allowed relation / type pairs mirror src/lib/itemLinks.ts.
+
+  Each link is stored once, from source to target; the inverse ("Fixed in",
+  "Duplicated by", ...) is derived when reading.
+
+  Changes:
+  - Create the item_links table with RLS
+  - Index links by either end and by project for the relationship graph
+  - Remove an item's links when the conversation, bug, feature or document is deleted
+*/
+
+CREATE TABLE IF NOT EXISTS item_links (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE,
+  source_type text NOT NULL,
+  source_id uuid NOT NULL,
+  target_type text NOT NULL,
+  target_id uuid NOT NULL,
+  relation text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT item_links_relation_check CHECK (
+    (relation = 'related' AND (source_type, target_type) IN (('conversation', 'bug'), ('conversation', 'feature'), ('feature', 'document'))) OR
+    (relation = 'fixes' AND source_type = 'conversation' AND target_type = 'bug') OR
+    (relation = 'implements' AND source_type = 'conversation' AND target_type = 'feature') OR
+    (relation IN ('duplicate_of', 'caused_by') AND source_type = 'bug' AND target_type = 'bug') OR
+    (relation = 'documents' AND source_type = 'document' AND target_type = 'feature')
+  ),
+  CONSTRAINT item_links_not_self CHECK (source_id <> target_id),
+  CONSTRAINT item_links_unique UNIQUE (source_type, source_id, target_type, target_id, relation)
+);
+
+ALTER TABLE item_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own item links" ON item_links
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own item links" ON item_links
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own item links" ON item_links
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_item_links_source ON item_links(source_type, source_id);
+CREATE INDEX IF NOT EXISTS idx_item_links_target ON item_links(target_type, target_id);
+CREATE INDEX IF NOT EXISTS idx_item_links_project ON item_links(project_id);
+
+-- Links point at several tables, so they cannot use foreign keys; clean up on delete instead
+CREATE OR REPLACE FUNCTION delete_item_links()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM item_links
+  WHERE (source_type = TG_ARGV[0] AND source_id = OLD.id)
+     OR (target_type = TG_ARGV[0] AND target_id = OLD.id);
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS delete_conversation_item_links ON conversations;
+CREATE TRIGGER delete_conversation_item_links
+  AFTER DELETE ON conversations
+  FOR EACH ROW
+  EXECUTE FUNCTION delete_item_links('conversation');
+
+DROP TRIGGER IF EXISTS delete_bug_item_links ON bugs;
+CREATE TRIGGER delete_bug_item_links
+  AFTER DELETE ON bugs
+  FOR EACH ROW
+  EXECUTE FUNCTION delete_item_links('bug');
+
+DROP TRIGGER IF EXISTS delete_feature_item_links ON features;
+CREATE TRIGGER delete_feature_item_links
+  AFTER DELETE ON features
+  FOR EACH ROW
+  EXECUTE FUNCTION delete_item_links('feature');
+
+DROP TRIGGER IF EXISTS delete_document_item_links ON documents;
+CREATE TRIGGER delete_document_item_links
+  AFTER DELETE ON documents
+  FOR EACH ROW
+  EXECUTE FUNCTION delete_item_links('document');
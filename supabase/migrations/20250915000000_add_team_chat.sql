@@ -0,0 +1,280 @@
+/*
+  # Team Chat
+
+  Turns the project chat into a team chat. Projects stay private to their owner,
+  but the owner can add teammates to a project's chat by email. Members see the
+  shared project in their sidebar with only its Chat tab; bugs, features and the
+  other project data stay owner-only.
+
+  Messages now record their author's user id, can reply to another message
+  (threads), mention members, and be edited or deleted. Deleting keeps the row
+  with empty content so replies keep their thread. Mentioning someone creates a
+  chat notification for them; unread counts come from each member's
+  last_read_at.
+
+  Changes:
+  - Create project_members (one owner row per project, plus invited members)
+  - Add is_project_member() / is_project_owner() helpers for RLS
+  - Let members read the projects they were added to
+  - Add user_id, parent_id, mentions, edited_at and deleted_at to messages and
+    replace the owner-only message policies with member policies
+  - Create chat_notifications, filled by a trigger when a message mentions someone
+  - Add add_project_member(), mark_project_chat_read() and get_chat_unread_counts()
+  - Publish messages, project_members and chat_notifications for realtime
+*/
+
+CREATE TABLE IF NOT EXISTS project_members (
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  display_name text NOT NULL,
+  role text NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'member')),
+  last_read_at timestamptz DEFAULT now(),
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (project_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_members_user ON project_members(user_id);
+
+-- SECURITY DEFINER so policies on projects and project_members can use them without recursing
+CREATE OR REPLACE FUNCTION is_project_member(p_project_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM project_members
+    WHERE project_id = p_project_id AND user_id = auth.uid()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION is_project_owner(p_project_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM projects
+    WHERE id = p_project_id AND user_id = auth.uid()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION chat_display_name(p_user_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+  SELECT coalesce(nullif(raw_user_meta_data->>'full_name', ''), split_part(email, '@', 1))
+  FROM auth.users
+  WHERE id = p_user_id;
+$$;
+
+ALTER TABLE project_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view project members" ON project_members
+  FOR SELECT USING (is_project_member(project_id));
+
+-- Owners remove members; members can leave
+CREATE POLICY "Owners and members can remove members" ON project_members
+  FOR DELETE USING (role = 'member' AND (is_project_owner(project_id) OR user_id = auth.uid()));
+
+CREATE POLICY "Members can view shared projects" ON projects
+  FOR SELECT USING (is_project_member(id));
+
+-- Every project's owner is a member of its chat
+CREATE OR REPLACE FUNCTION add_project_owner_member()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO project_members (project_id, user_id, display_name, role)
+  VALUES (NEW.id, NEW.user_id, coalesce(chat_display_name(NEW.user_id), 'Owner'), 'owner')
+  ON CONFLICT (project_id, user_id) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS add_project_owner_member ON projects;
+CREATE TRIGGER add_project_owner_member
+  AFTER INSERT ON projects
+  FOR EACH ROW
+  EXECUTE FUNCTION add_project_owner_member();
+
+INSERT INTO project_members (project_id, user_id, display_name, role)
+SELECT id, user_id, coalesce(chat_display_name(user_id), 'Owner'), 'owner'
+FROM projects
+WHERE user_id IS NOT NULL
+ON CONFLICT (project_id, user_id) DO NOTHING;
+
+-- Only the owner can add members, and only people who already have an account
+CREATE OR REPLACE FUNCTION add_project_member(p_project_id uuid, p_email text)
+RETURNS project_members
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_member project_members;
+BEGIN
+  IF NOT is_project_owner(p_project_id) THEN
+    RAISE EXCEPTION 'Only the project owner can add members' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT id INTO v_user_id FROM auth.users WHERE lower(email) = lower(trim(p_email));
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'No account found for %', p_email USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO project_members (project_id, user_id, display_name, role)
+  VALUES (p_project_id, v_user_id, chat_display_name(v_user_id), 'member')
+  ON CONFLICT (project_id, user_id) DO UPDATE SET display_name = project_members.display_name
+  RETURNING * INTO v_member;
+
+  RETURN v_member;
+END;
+$$;
+
+-- Messages
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS parent_id uuid REFERENCES messages(id) ON DELETE CASCADE;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS mentions uuid[] NOT NULL DEFAULT ARRAY[]::uuid[];
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS edited_at timestamptz;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_messages_parent ON messages(parent_id);
+
+DROP POLICY IF EXISTS "Users can read project messages" ON messages;
+DROP POLICY IF EXISTS "Users can create project messages" ON messages;
+DROP POLICY IF EXISTS "Users can delete project messages" ON messages;
+
+CREATE POLICY "Members can read project messages" ON messages
+  FOR SELECT USING (is_project_member(project_id));
+
+CREATE POLICY "Members can create project messages" ON messages
+  FOR INSERT WITH CHECK (user_id = auth.uid() AND is_project_member(project_id));
+
+-- Authors keep editing only while they are members, and cannot move a message to another project
+CREATE POLICY "Users can update own messages" ON messages
+  FOR UPDATE USING (user_id = auth.uid() AND is_project_member(project_id))
+  WITH CHECK (user_id = auth.uid() AND is_project_member(project_id));
+
+CREATE POLICY "Users can delete own messages" ON messages
+  FOR DELETE USING (user_id = auth.uid() OR is_project_owner(project_id));
+
+-- Notifications
+
+CREATE TABLE IF NOT EXISTS chat_notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE NOT NULL,
+  message_id uuid REFERENCES messages(id) ON DELETE CASCADE NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  read_at timestamptz,
+  UNIQUE (user_id, message_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_notifications_user_unread ON chat_notifications(user_id, project_id) WHERE read_at IS NULL;
+
+ALTER TABLE chat_notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own chat notifications" ON chat_notifications
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own chat notifications" ON chat_notifications
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Notify members newly mentioned by a message, including mentions added in an edit
+CREATE OR REPLACE FUNCTION notify_chat_mentions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.deleted_at IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO chat_notifications (user_id, project_id, message_id)
+  SELECT DISTINCT mentioned.user_id, NEW.project_id, NEW.id
+  FROM unnest(NEW.mentions) AS mentioned(user_id)
+  JOIN project_members pm ON pm.project_id = NEW.project_id AND pm.user_id = mentioned.user_id
+  WHERE mentioned.user_id IS DISTINCT FROM NEW.user_id
+    AND (TG_OP = 'INSERT' OR NOT (mentioned.user_id = ANY (OLD.mentions)))
+  ON CONFLICT (user_id, message_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_chat_mentions ON messages;
+CREATE TRIGGER notify_chat_mentions
+  AFTER INSERT OR UPDATE OF mentions ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_chat_mentions();
+
+-- Reading a project's chat clears its unread count and mentions
+CREATE OR REPLACE FUNCTION mark_project_chat_read(p_project_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE project_members SET last_read_at = now()
+  WHERE project_id = p_project_id AND user_id = auth.uid();
+
+  UPDATE chat_notifications SET read_at = now()
+  WHERE project_id = p_project_id AND user_id = auth.uid() AND read_at IS NULL;
+$$;
+
+CREATE OR REPLACE FUNCTION get_chat_unread_counts()
+RETURNS TABLE (project_id uuid, unread_count bigint, mention_count bigint)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    pm.project_id,
+    (
+      SELECT count(*) FROM messages m
+      WHERE m.project_id = pm.project_id
+        AND m.timestamp > coalesce(pm.last_read_at, '-infinity'::timestamptz)
+        AND m.user_id IS DISTINCT FROM pm.user_id
+        AND m.deleted_at IS NULL
+    ) AS unread_count,
+    (
+      SELECT count(*) FROM chat_notifications n
+      WHERE n.project_id = pm.project_id AND n.user_id = pm.user_id AND n.read_at IS NULL
+    ) AS mention_count
+  FROM project_members pm
+  WHERE pm.user_id = auth.uid();
+$$;
+
+DO $$
+DECLARE
+  t text;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    CREATE PUBLICATION supabase_realtime;
+  END IF;
+
+  FOREACH t IN ARRAY ARRAY['messages', 'project_members', 'chat_notifications']
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = t
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', t);
+    END IF;
+  END LOOP;
+END $$;
@@ -0,0 +1,197 @@
+/*
+  # Item Revisions
+
+  Keeps a revision every time the content of a document, feature file (an
+  info_file row of feature_data), bug or manual session (its notes, stored as
+  the first message) is saved, so an accidental overwrite can be compared and
+  restored. Revisions are written by triggers, so saves from the app, the REST
+  API and MCP are all recorded.
+
+  A revision can be given a name to mark it as a snapshot ("Before rewrite",
+  "v1 sign-off"). Restoring saves the old content again, which records a new
+  revision, so history is never rewritten. The item types mirror
+  src/lib/revisions.ts.
+
+  Changes:
+  - Create the item_revisions table with RLS (users can read, name and delete
+    their own revisions; rows are only created by the triggers or as snapshots)
+  - Record a revision on insert and on every content change
+  - Record the current content of existing items as their first revision
+  - Remove an item's revisions when it is deleted
+  - Publish item_revisions for realtime
+*/
+
+CREATE TABLE IF NOT EXISTS item_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE,
+  item_type text NOT NULL CHECK (item_type IN ('document', 'feature_file', 'bug', 'conversation')),
+  item_id uuid NOT NULL,
+  title text NOT NULL DEFAULT '',
+  content text NOT NULL DEFAULT '',
+  name text CHECK (name IS NULL OR char_length(name) BETWEEN 1 AND 100),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_item_revisions_item ON item_revisions(item_type, item_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_item_revisions_user ON item_revisions(user_id);
+
+ALTER TABLE item_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own item revisions" ON item_revisions
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own item revisions" ON item_revisions
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own item revisions" ON item_revisions
+  FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own item revisions" ON item_revisions
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Content and title of an item row; manual sessions keep their notes in the first message
+CREATE OR REPLACE FUNCTION revision_content(p_item_type text, p_row jsonb)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_item_type
+    WHEN 'conversation' THEN p_row->'messages'->0->>'content'
+    ELSE p_row->>'content'
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_item_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item_type text := TG_ARGV[0];
+  v_row jsonb := to_jsonb(NEW);
+  v_content text := revision_content(TG_ARGV[0], to_jsonb(NEW));
+  v_project_id uuid := (to_jsonb(NEW)->>'project_id')::uuid;
+  v_user_id uuid;
+BEGIN
+  -- Only manual sessions have editable notes
+  IF v_item_type = 'conversation' AND coalesce(v_row->>'source', 'manual') <> 'manual' THEN
+    RETURN NEW;
+  END IF;
+
+  -- Feature files are the info_file rows of feature_data; boards, logs and summaries are not versioned
+  IF v_item_type = 'feature_file' AND coalesce(v_row->>'data_type', '') <> 'info_file' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND coalesce(v_content, '') = '' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND v_content IS NOT DISTINCT FROM revision_content(v_item_type, to_jsonb(OLD)) THEN
+    RETURN NEW;
+  END IF;
+
+  -- feature_data rows have no user_id; they belong to the project owner
+  v_user_id := coalesce(
+    (v_row->>'user_id')::uuid,
+    (SELECT user_id FROM projects WHERE id = v_project_id)
+  );
+  IF v_user_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO item_revisions (user_id, project_id, item_type, item_id, title, content)
+  VALUES (
+    v_user_id,
+    v_project_id,
+    v_item_type,
+    NEW.id,
+    coalesce(v_row->>'title', v_row->>'name', ''),
+    coalesce(v_content, '')
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION delete_item_revisions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM item_revisions WHERE item_type = TG_ARGV[0] AND item_id = OLD.id;
+  RETURN OLD;
+END;
+$$;
+
+DO $$
+DECLARE
+  item record;
+BEGIN
+  FOR item IN
+    SELECT * FROM (VALUES
+      ('documents', 'document', 'content'),
+      ('feature_data', 'feature_file', 'content'),
+      ('bugs', 'bug', 'content'),
+      ('conversations', 'conversation', 'messages')
+    ) AS items(table_name, item_type, content_column)
+  LOOP
+    -- feature_data is created outside these migrations
+    IF to_regclass('public.' || item.table_name) IS NULL THEN
+      CONTINUE;
+    END IF;
+
+    EXECUTE format('DROP TRIGGER IF EXISTS record_%s_revision ON %I', item.item_type, item.table_name);
+    EXECUTE format(
+      'CREATE TRIGGER record_%s_revision AFTER INSERT OR UPDATE OF %I ON %I FOR EACH ROW EXECUTE FUNCTION record_item_revision(%L)',
+      item.item_type, item.content_column, item.table_name, item.item_type
+    );
+
+    EXECUTE format('DROP TRIGGER IF EXISTS delete_%s_revisions ON %I', item.item_type, item.table_name);
+    EXECUTE format(
+      'CREATE TRIGGER delete_%s_revisions AFTER DELETE ON %I FOR EACH ROW EXECUTE FUNCTION delete_item_revisions(%L)',
+      item.item_type, item.table_name, item.item_type
+    );
+
+    -- Existing content becomes the first revision
+    EXECUTE format(
+      $sql$
+        INSERT INTO item_revisions (user_id, project_id, item_type, item_id, title, content, created_at)
+        SELECT
+          coalesce((to_jsonb(t)->>'user_id')::uuid, p.user_id),
+          t.project_id,
+          %L,
+          t.id,
+          coalesce(to_jsonb(t)->>'title', to_jsonb(t)->>'name', ''),
+          revision_content(%L, to_jsonb(t)),
+          coalesce((to_jsonb(t)->>'updated_at')::timestamptz, now())
+        FROM %I t
+        LEFT JOIN projects p ON p.id = t.project_id
+        WHERE coalesce(revision_content(%L, to_jsonb(t)), '') <> ''
+          AND coalesce((to_jsonb(t)->>'user_id')::uuid, p.user_id) IS NOT NULL
+          AND (%L <> 'conversation' OR coalesce(to_jsonb(t)->>'source', 'manual') = 'manual')
+          AND (%L <> 'feature_file' OR to_jsonb(t)->>'data_type' = 'info_file')
+          AND NOT EXISTS (SELECT 1 FROM item_revisions r WHERE r.item_type = %L AND r.item_id = t.id)
+      $sql$,
+      item.item_type, item.item_type, item.table_name, item.item_type, item.item_type, item.item_type, item.item_type
+    );
+  END LOOP;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    CREATE PUBLICATION supabase_realtime;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'item_revisions'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.item_revisions;
+  END IF;
+END $$;
@@ -0,0 +1,55 @@
+/*
+  # Templates
+
+  Reusable starting content for documents and feature files, with
+  {{project.name}} / {{feature.title}} style variables filled in when an item
+  is created from the template. Built-in templates live in src/lib/templates.ts;
+  this table holds the ones users write themselves.
+
+  A template with a project_id is only offered in that project. Without one it
+  is shared across all of the user's projects.
+
+  Changes:
+  - Create the templates table with RLS
+  - Keep updated_at current on edits
+*/
+
+CREATE TABLE IF NOT EXISTS templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  description text NOT NULL DEFAULT '',
+  target text NOT NULL CHECK (target IN ('document', 'feature_file')),
+  item_type text NOT NULL,
+  content text NOT NULL DEFAULT '',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT templates_item_type_check CHECK (
+    (target = 'document' AND item_type IN ('prd', 'ux-flow', 'feature-list', 'bug-list', 'custom')) OR
+    (target = 'feature_file' AND item_type IN ('requirement', 'structure', 'implementation', 'testing', 'documentation', 'notes', 'custom'))
+  )
+);
+
+ALTER TABLE templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own templates" ON templates
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own templates" ON templates
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own templates" ON templates
+  FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own templates" ON templates
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_templates_user_target ON templates(user_id, target, item_type);
+CREATE INDEX IF NOT EXISTS idx_templates_project ON templates(project_id);
+
+DROP TRIGGER IF EXISTS update_templates_updated_at ON templates;
+CREATE TRIGGER update_templates_updated_at
+  BEFORE UPDATE ON templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,41 @@
+/*
+  # Concurrent edits of documents and feature files
+
+  Saves from the app and the API send the updated_at they started from and
+  only apply while the row still has it, so a save can no longer silently
+  overwrite one made elsewhere in the meantime. That needs updated_at to move
+  on every write, and open editors need to hear about other sessions' saves.
+
+  Changes:
+  - Keep feature_data.updated_at current on edits (feature_data is created
+    outside these migrations, so this is skipped when it is missing)
+  - Add documents to the supabase_realtime publication
+*/
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'feature_data' AND column_name = 'updated_at'
+  ) THEN
+    DROP TRIGGER IF EXISTS update_feature_data_updated_at ON feature_data;
+    CREATE TRIGGER update_feature_data_updated_at
+      BEFORE UPDATE ON feature_data
+      FOR EACH ROW
+      EXECUTE FUNCTION update_updated_at_column();
+  END IF;
+END $$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    CREATE PUBLICATION supabase_realtime;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'documents'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.documents;
+  END IF;
+END $$;
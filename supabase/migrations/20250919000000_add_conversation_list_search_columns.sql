@@ -0,0 +1,36 @@
+/*
+  # Conversation List Search Columns
+
+  /api/search pre-filters candidates with ilike before ranking them, and the
+  ranking also scores conversation tags and changed files. Both are text[]
+  columns, which ilike cannot match, so conversations matching only in a tag
+  or a file path never reached the ranking.
+
+  New objects:
+  - tags_text(conversations) computed column: tags joined with spaces
+  - files_changed_text(conversations) computed column: changed file paths joined with spaces
+
+  PostgREST exposes functions taking the row type as columns that can be
+  filtered on, e.g. `tags_text.ilike.*auth*`.
+*/
+
+CREATE OR REPLACE FUNCTION tags_text(conversations)
+RETURNS text
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT coalesce(array_to_string($1.tags, ' '), '');
+$$;
+
+CREATE OR REPLACE FUNCTION files_changed_text(conversations)
+RETURNS text
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT coalesce(array_to_string($1.files_changed, ' '), '');
+$$;
+
+GRANT EXECUTE ON FUNCTION tags_text(conversations) TO authenticated;
+GRANT EXECUTE ON FUNCTION files_changed_text(conversations) TO authenticated;